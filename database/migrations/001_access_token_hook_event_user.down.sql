@@ -0,0 +1,37 @@
+-- =====================================================
+-- Migration: 001_access_token_hook_event_user (down)
+-- =====================================================
+-- Restores the hook of rbac-schema.sql
+-- =====================================================
+
+BEGIN;
+
+CREATE OR REPLACE FUNCTION public.custom_access_token_hook(event JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  claims JSONB;
+  user_roles TEXT[];
+  user_permissions TEXT[];
+BEGIN
+  -- Get user roles
+  SELECT ARRAY_AGG(role_name) INTO user_roles
+  FROM public.get_user_roles(auth.uid());
+
+  -- Get user permissions
+  SELECT ARRAY_AGG(permission_name) INTO user_permissions
+  FROM public.get_user_permissions(auth.uid());
+
+  -- Add to JWT claims
+  claims := COALESCE(event->'claims', '{}'::JSONB);
+  claims := claims || jsonb_build_object(
+    'user_roles', COALESCE(user_roles, '{}'),
+    'user_permissions', COALESCE(user_permissions, '{}')
+  );
+
+  event := event || jsonb_build_object('claims', claims);
+
+  RETURN event;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMIT;
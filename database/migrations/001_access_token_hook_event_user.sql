@@ -0,0 +1,40 @@
+-- =====================================================
+-- Migration: 001_access_token_hook_event_user
+-- =====================================================
+-- Description: custom_access_token_hook reads the user from the
+-- event. The hook runs before the token exists, so auth.uid() is
+-- NULL there and every token came out without roles
+-- =====================================================
+
+BEGIN;
+
+CREATE OR REPLACE FUNCTION public.custom_access_token_hook(event JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  claims JSONB;
+  user_roles TEXT[];
+  user_permissions TEXT[];
+BEGIN
+  -- The hook runs before the token exists: auth.uid() is not set yet,
+  -- the user comes from the event
+  SELECT ARRAY_AGG(role_name) INTO user_roles
+  FROM public.get_user_roles((event->>'user_id')::UUID);
+
+  -- Get user permissions
+  SELECT ARRAY_AGG(permission_name) INTO user_permissions
+  FROM public.get_user_permissions((event->>'user_id')::UUID);
+
+  -- Add to JWT claims
+  claims := COALESCE(event->'claims', '{}'::JSONB);
+  claims := claims || jsonb_build_object(
+    'user_roles', COALESCE(user_roles, '{}'),
+    'user_permissions', COALESCE(user_permissions, '{}')
+  );
+
+  event := event || jsonb_build_object('claims', claims);
+
+  RETURN event;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMIT;
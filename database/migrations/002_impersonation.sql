@@ -0,0 +1,105 @@
+-- =====================================================
+-- Migration: 002_impersonation
+-- =====================================================
+-- Description: Admin impersonation. Adds the system.impersonate
+-- permission (super_admin), the impersonation audit and the
+-- "impersonator" claim in custom_access_token_hook
+-- =====================================================
+
+BEGIN;
+
+INSERT INTO public.permissions (name, description, resource, action) VALUES
+  ('system.impersonate', 'Sign in as another user', 'system', 'impersonate')
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO public.role_permissions (role_id, permission_id)
+SELECT r.id, p.id
+FROM public.roles r, public.permissions p
+WHERE r.name = 'super_admin' AND p.name = 'system.impersonate'
+ON CONFLICT DO NOTHING;
+
+-- =====================================================
+-- IMPERSONATION AUDIT
+-- =====================================================
+
+-- One row per "log in as": who, as whom, why, and when it started and
+-- stopped. Written by the impersonation API with the service role; the
+-- row outlives both users and the session
+CREATE TABLE public.impersonation_audit (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  admin_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  admin_email TEXT NOT NULL,
+  target_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  target_email TEXT NOT NULL,
+  session_id UUID, -- The impersonated session (auth.sessions)
+  reason TEXT,
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  ended_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_impersonation_audit_session ON public.impersonation_audit(session_id) WHERE ended_at IS NULL;
+CREATE INDEX idx_impersonation_audit_admin ON public.impersonation_audit(admin_id);
+
+ALTER TABLE public.impersonation_audit ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Impersonators can view the audit" ON public.impersonation_audit
+  FOR SELECT USING (public.user_has_permission(auth.uid(), 'system.impersonate'));
+
+-- =====================================================
+-- AUTH HOOK
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.custom_access_token_hook(event JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  claims JSONB;
+  user_roles TEXT[];
+  user_permissions TEXT[];
+  impersonator JSONB;
+BEGIN
+  -- The hook runs before the token exists: auth.uid() is not set yet,
+  -- the user comes from the event
+  SELECT ARRAY_AGG(role_name) INTO user_roles
+  FROM public.get_user_roles((event->>'user_id')::UUID);
+
+  -- Get user permissions
+  SELECT ARRAY_AGG(permission_name) INTO user_permissions
+  FROM public.get_user_permissions((event->>'user_id')::UUID);
+
+  -- Impersonated sessions name the admin behind them and lose what they
+  -- must not touch: billing (passwords are blocked by the app)
+  SELECT jsonb_build_object(
+    'id', a.admin_id,
+    'email', a.admin_email,
+    'impersonation_id', a.id,
+    'started_at', a.started_at
+  ) INTO impersonator
+  FROM public.impersonation_audit a
+  WHERE a.session_id = (event->'claims'->>'session_id')::UUID
+  AND a.ended_at IS NULL;
+
+  IF impersonator IS NOT NULL THEN
+    user_permissions := ARRAY(
+      SELECT permission FROM UNNEST(user_permissions) AS permission
+      WHERE permission NOT IN ('billing.update', 'billing.cancel', 'organization.billing')
+    );
+  END IF;
+
+  -- Add to JWT claims
+  claims := COALESCE(event->'claims', '{}'::JSONB);
+  claims := claims || jsonb_build_object(
+    'user_roles', COALESCE(user_roles, '{}'),
+    'user_permissions', COALESCE(user_permissions, '{}')
+  );
+
+  IF impersonator IS NOT NULL THEN
+    claims := claims || jsonb_build_object('impersonator', impersonator);
+  END IF;
+
+  event := event || jsonb_build_object('claims', claims);
+
+  RETURN event;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMIT;
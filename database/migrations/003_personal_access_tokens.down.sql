@@ -0,0 +1,16 @@
+-- =====================================================
+-- Migration: 003_personal_access_tokens (down)
+-- =====================================================
+-- Drops the token RPCs and the tokens: every issued token stops
+-- working
+-- =====================================================
+
+BEGIN;
+
+DROP FUNCTION IF EXISTS public.resolve_personal_access_token(TEXT);
+DROP FUNCTION IF EXISTS public.revoke_personal_access_token(UUID);
+DROP FUNCTION IF EXISTS public.create_personal_access_token(TEXT, TEXT, TEXT, TEXT[], UUID, TIMESTAMP WITH TIME ZONE);
+
+DROP TABLE IF EXISTS public.personal_access_tokens CASCADE;
+
+COMMIT;
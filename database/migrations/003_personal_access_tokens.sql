@@ -0,0 +1,134 @@
+-- =====================================================
+-- Migration: 003_personal_access_tokens
+-- =====================================================
+-- Description: Personal access tokens for programmatic API access
+-- and the RPCs that create, revoke and resolve them
+-- =====================================================
+
+BEGIN;
+
+-- Programmatic access for integrations: "Authorization: Bearer pat_...".
+-- Only the SHA-256 of the token is stored; the token itself is shown once.
+-- A token grants a subset of its owner's permissions, optionally within
+-- one organization, and never more than the owner currently holds
+CREATE TABLE public.personal_access_tokens (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  organization_id UUID, -- For multi-tenant support
+  name TEXT NOT NULL,
+  token_prefix TEXT NOT NULL, -- e.g., 'pat_3kF9', to recognise the token
+  token_hash TEXT NOT NULL UNIQUE, -- Hex SHA-256 of the whole token
+  permissions TEXT[] NOT NULL DEFAULT '{}',
+  expires_at TIMESTAMP WITH TIME ZONE,
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_personal_access_tokens_user ON public.personal_access_tokens(user_id);
+
+-- Written only through the functions below
+ALTER TABLE public.personal_access_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own access tokens" ON public.personal_access_tokens
+  FOR SELECT USING (user_id = auth.uid());
+
+-- Every permission must be one the caller holds (in the organization).
+-- Impersonated sessions cannot mint tokens that would outlive them
+CREATE OR REPLACE FUNCTION public.create_personal_access_token(
+  name TEXT,
+  token_hash TEXT,
+  token_prefix TEXT,
+  permissions TEXT[],
+  organization_id UUID DEFAULT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS SETOF public.personal_access_tokens AS $$
+DECLARE
+  permission TEXT;
+BEGIN
+  IF auth.uid() IS NULL OR auth.jwt() ? 'impersonator' THEN
+    RAISE EXCEPTION 'Not allowed to create access tokens' USING ERRCODE = '42501';
+  END IF;
+
+  FOREACH permission IN ARRAY COALESCE(create_personal_access_token.permissions, '{}') LOOP
+    IF NOT public.user_has_permission(auth.uid(), permission, create_personal_access_token.organization_id) THEN
+      RAISE EXCEPTION 'Permission not granted: %', permission USING ERRCODE = '42501';
+    END IF;
+  END LOOP;
+
+  RETURN QUERY
+  INSERT INTO public.personal_access_tokens (user_id, organization_id, name, token_prefix, token_hash, permissions, expires_at)
+  VALUES (
+    auth.uid(),
+    create_personal_access_token.organization_id,
+    create_personal_access_token.name,
+    create_personal_access_token.token_prefix,
+    create_personal_access_token.token_hash,
+    COALESCE(create_personal_access_token.permissions, '{}'),
+    create_personal_access_token.expires_at
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, auth;
+
+CREATE OR REPLACE FUNCTION public.revoke_personal_access_token(token_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.personal_access_tokens t
+  SET revoked_at = NOW()
+  WHERE t.id = revoke_personal_access_token.token_id
+  AND t.user_id = auth.uid()
+  AND t.revoked_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Access token not found' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, auth;
+
+-- Called by the middleware with the anon key: knowing the hash takes the
+-- token. Returns the owner and the permissions still granted, and records
+-- the use (at most once a minute). No row for unknown, revoked or expired
+-- tokens
+CREATE OR REPLACE FUNCTION public.resolve_personal_access_token(token_hash TEXT)
+RETURNS TABLE(
+  token_id UUID,
+  user_id UUID,
+  email TEXT,
+  organization_id UUID,
+  permissions TEXT[],
+  expires_at TIMESTAMP WITH TIME ZONE
+) AS $$
+BEGIN
+  UPDATE public.personal_access_tokens t
+  SET last_used_at = NOW()
+  WHERE t.token_hash = resolve_personal_access_token.token_hash
+  AND (t.last_used_at IS NULL OR t.last_used_at < NOW() - INTERVAL '1 minute');
+
+  RETURN QUERY
+  SELECT
+    t.id,
+    t.user_id,
+    u.email::TEXT,
+    t.organization_id,
+    ARRAY(
+      SELECT permission FROM UNNEST(t.permissions) AS permission
+      WHERE public.user_has_permission(t.user_id, permission, t.organization_id)
+    ),
+    t.expires_at
+  FROM public.personal_access_tokens t
+  JOIN auth.users u ON u.id = t.user_id
+  WHERE t.token_hash = resolve_personal_access_token.token_hash
+  AND t.revoked_at IS NULL
+  AND (t.expires_at IS NULL OR t.expires_at > NOW());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, auth;
+
+REVOKE EXECUTE ON FUNCTION public.create_personal_access_token(TEXT, TEXT, TEXT, TEXT[], UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.revoke_personal_access_token(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_personal_access_token(TEXT, TEXT, TEXT, TEXT[], UUID, TIMESTAMP WITH TIME ZONE) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_personal_access_token(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.resolve_personal_access_token(TEXT) TO anon, authenticated;
+
+COMMIT;
@@ -0,0 +1,33 @@
+-- =====================================================
+-- Migration: 004_organizations (down)
+-- =====================================================
+-- Drops organizations and invitations (roles granted in them stay in
+-- user_roles with a dangling organization_id) and restores the
+-- unscoped get_user_permissions
+-- =====================================================
+
+BEGIN;
+
+DROP FUNCTION IF EXISTS public.transfer_organization_ownership(UUID, UUID);
+DROP FUNCTION IF EXISTS public.delete_organization(UUID);
+DROP FUNCTION IF EXISTS public.create_organization(TEXT, JSONB);
+
+DROP TABLE IF EXISTS public.organization_invitations CASCADE;
+DROP TABLE IF EXISTS public.organizations CASCADE;
+
+DROP FUNCTION IF EXISTS public.get_user_permissions(UUID, UUID);
+CREATE FUNCTION public.get_user_permissions(user_id UUID)
+RETURNS TABLE(permission_name TEXT, resource TEXT, action TEXT) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT DISTINCT p.name::TEXT, p.resource::TEXT, p.action::TEXT
+  FROM public.user_roles ur
+  JOIN public.role_permissions rp ON ur.role_id = rp.role_id
+  JOIN public.permissions p ON rp.permission_id = p.id
+  WHERE ur.user_id = get_user_permissions.user_id
+  AND ur.is_active = true
+  AND (ur.expires_at IS NULL OR ur.expires_at > NOW());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMIT;
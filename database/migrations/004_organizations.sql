@@ -0,0 +1,173 @@
+-- =====================================================
+-- Migration: 004_organizations
+-- =====================================================
+-- Description: Organizations (tenants) with invitations, the RPCs
+-- that create, delete and transfer them, and organization-scoped
+-- get_user_permissions
+-- =====================================================
+
+BEGIN;
+
+-- Scoped to an organization, global roles still count (as in
+-- user_has_permission)
+DROP FUNCTION IF EXISTS public.get_user_permissions(UUID);
+CREATE FUNCTION public.get_user_permissions(
+  user_id UUID,
+  organization_id UUID DEFAULT NULL
+)
+RETURNS TABLE(permission_name TEXT, resource TEXT, action TEXT) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT DISTINCT p.name::TEXT, p.resource::TEXT, p.action::TEXT
+  FROM public.user_roles ur
+  JOIN public.role_permissions rp ON ur.role_id = rp.role_id
+  JOIN public.permissions p ON rp.permission_id = p.id
+  WHERE ur.user_id = get_user_permissions.user_id
+  AND ur.is_active = true
+  AND (ur.expires_at IS NULL OR ur.expires_at > NOW())
+  AND (get_user_permissions.organization_id IS NULL
+    OR ur.organization_id = get_user_permissions.organization_id
+    OR ur.organization_id IS NULL);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- ORGANIZATIONS
+-- =====================================================
+
+-- Tenants: user_roles.organization_id points here. Members are the users
+-- with an active role in the organization; the owner also holds "owner"
+CREATE TABLE public.organizations (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  owner_id UUID NOT NULL REFERENCES auth.users(id), -- Transfer before deleting the owner
+  settings JSONB DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Invitations by email with the role to grant. The link carries a signed,
+-- expiring token (INVITATION_SECRET) naming the row; the row says whether
+-- it can still be used. Written by the invitations API (service role)
+CREATE TABLE public.organization_invitations (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role_id UUID NOT NULL REFERENCES public.roles(id) ON DELETE CASCADE,
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined')),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  responded_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One pending invitation per email and organization
+CREATE UNIQUE INDEX idx_organization_invitations_pending ON public.organization_invitations(organization_id, LOWER(email)) WHERE status = 'pending';
+
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organizations" ON public.organizations
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.user_roles ur
+      WHERE ur.user_id = auth.uid()
+      AND ur.organization_id = organizations.id
+      AND ur.is_active = true
+    )
+  );
+
+CREATE POLICY "Members can update their organization" ON public.organizations
+  FOR UPDATE USING (public.user_has_permission(auth.uid(), 'organization.update', id))
+  WITH CHECK (owner_id = (SELECT o.owner_id FROM public.organizations o WHERE o.id = organizations.id));
+
+CREATE POLICY "Inviters can view invitations" ON public.organization_invitations
+  FOR SELECT USING (public.user_has_permission(auth.uid(), 'users.invite', organization_id));
+
+-- Creates the organization with the caller as its owner
+CREATE OR REPLACE FUNCTION public.create_organization(name TEXT, settings JSONB DEFAULT '{}')
+RETURNS SETOF public.organizations AS $$
+DECLARE
+  created public.organizations;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.organizations (name, owner_id, settings)
+  VALUES (create_organization.name, auth.uid(), COALESCE(create_organization.settings, '{}'))
+  RETURNING * INTO created;
+
+  INSERT INTO public.user_roles (user_id, role_id, organization_id, assigned_by)
+  SELECT auth.uid(), r.id, created.id, auth.uid()
+  FROM public.roles r WHERE r.name = 'owner';
+
+  RETURN NEXT created;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, auth;
+
+-- Drops the organization, its invitations and every role granted in it
+CREATE OR REPLACE FUNCTION public.delete_organization(organization_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT public.user_has_permission(auth.uid(), 'organization.delete', delete_organization.organization_id) THEN
+    RAISE EXCEPTION 'Not allowed to delete the organization' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM public.user_roles ur WHERE ur.organization_id = delete_organization.organization_id;
+  DELETE FROM public.organizations o WHERE o.id = delete_organization.organization_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, auth;
+
+-- Only the owner can hand the organization to another member; the
+-- previous owner stays on as admin
+CREATE OR REPLACE FUNCTION public.transfer_organization_ownership(organization_id UUID, new_owner_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  owner_role UUID := (SELECT r.id FROM public.roles r WHERE r.name = 'owner');
+  admin_role UUID := (SELECT r.id FROM public.roles r WHERE r.name = 'admin');
+  org UUID := transfer_organization_ownership.organization_id;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.organizations o WHERE o.id = org AND o.owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the owner can transfer the organization' USING ERRCODE = '42501';
+  END IF;
+
+  IF new_owner_id = auth.uid() OR NOT EXISTS (
+    SELECT 1 FROM public.user_roles ur
+    WHERE ur.user_id = new_owner_id AND ur.organization_id = org AND ur.is_active = true
+  ) THEN
+    RAISE EXCEPTION 'The new owner must be another member' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE public.organizations o SET owner_id = new_owner_id WHERE o.id = org;
+
+  UPDATE public.user_roles ur SET role_id = admin_role
+  WHERE ur.user_id = auth.uid() AND ur.organization_id = org AND ur.role_id = owner_role
+  AND NOT EXISTS (
+    SELECT 1 FROM public.user_roles a
+    WHERE a.user_id = auth.uid() AND a.organization_id = org AND a.role_id = admin_role
+  );
+  DELETE FROM public.user_roles ur
+  WHERE ur.user_id = auth.uid() AND ur.organization_id = org AND ur.role_id = owner_role;
+
+  INSERT INTO public.user_roles (user_id, role_id, organization_id, assigned_by)
+  VALUES (new_owner_id, owner_role, org, auth.uid())
+  ON CONFLICT (user_id, role_id, organization_id) DO UPDATE SET is_active = true, expires_at = NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, auth;
+
+REVOKE EXECUTE ON FUNCTION public.create_organization(TEXT, JSONB) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.delete_organization(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.transfer_organization_ownership(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_organization(TEXT, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.delete_organization(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.transfer_organization_ownership(UUID, UUID) TO authenticated;
+
+CREATE TRIGGER update_organizations_updated_at
+  BEFORE UPDATE ON public.organizations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+COMMIT;
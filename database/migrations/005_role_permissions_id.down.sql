@@ -0,0 +1,9 @@
+-- =====================================================
+-- Migration: 005_role_permissions_id (down)
+-- =====================================================
+
+BEGIN;
+
+ALTER TABLE public.role_permissions DROP COLUMN IF EXISTS id;
+
+COMMIT;
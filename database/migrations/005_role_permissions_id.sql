@@ -0,0 +1,14 @@
+-- =====================================================
+-- Migration: 005_role_permissions_id
+-- =====================================================
+-- Description: role_permissions.id, a row handle for providers
+-- that address rows by id (DatabaseRBACProvider over
+-- IDatabaseProvider). The primary key stays (role_id, permission_id)
+-- =====================================================
+
+BEGIN;
+
+ALTER TABLE public.role_permissions
+  ADD COLUMN id UUID DEFAULT uuid_generate_v4() NOT NULL UNIQUE;
+
+COMMIT;
@@ -0,0 +1,61 @@
+-- =====================================================
+-- Migration: 006_role_hierarchy (down)
+-- =====================================================
+-- Permissions stop flowing from parent roles: restores
+-- user_has_permission and get_user_permissions without inheritance
+-- =====================================================
+
+BEGIN;
+
+CREATE OR REPLACE FUNCTION public.user_has_permission(
+  user_id UUID,
+  permission_name TEXT,
+  organization_id UUID DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1
+    FROM public.user_roles ur
+    JOIN public.role_permissions rp ON ur.role_id = rp.role_id
+    JOIN public.permissions p ON rp.permission_id = p.id
+    WHERE ur.user_id = user_has_permission.user_id
+    AND p.name = permission_name
+    AND ur.is_active = true
+    AND (ur.expires_at IS NULL OR ur.expires_at > NOW())
+    AND (organization_id IS NULL OR ur.organization_id = organization_id OR ur.organization_id IS NULL)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Scoped to an organization, global roles still count (as in
+-- user_has_permission)
+CREATE OR REPLACE FUNCTION public.get_user_permissions(
+  user_id UUID,
+  organization_id UUID DEFAULT NULL
+)
+RETURNS TABLE(permission_name TEXT, resource TEXT, action TEXT) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT DISTINCT p.name::TEXT, p.resource::TEXT, p.action::TEXT
+  FROM public.user_roles ur
+  JOIN public.role_permissions rp ON ur.role_id = rp.role_id
+  JOIN public.permissions p ON rp.permission_id = p.id
+  WHERE ur.user_id = get_user_permissions.user_id
+  AND ur.is_active = true
+  AND (ur.expires_at IS NULL OR ur.expires_at > NOW())
+  AND (get_user_permissions.organization_id IS NULL
+    OR ur.organization_id = get_user_permissions.organization_id
+    OR ur.organization_id IS NULL);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS detach_deleted_role ON public.roles;
+DROP TRIGGER IF EXISTS check_role_hierarchy ON public.roles;
+DROP FUNCTION IF EXISTS public.detach_deleted_role();
+DROP FUNCTION IF EXISTS public.check_role_hierarchy();
+DROP FUNCTION IF EXISTS public.expand_role_ids(UUID[]);
+
+ALTER TABLE public.roles DROP COLUMN IF EXISTS parent_role_ids;
+
+COMMIT;
@@ -0,0 +1,133 @@
+-- =====================================================
+-- Migration: 006_role_hierarchy
+-- =====================================================
+-- Description: Roles inherit the permissions of their parent roles
+-- (roles.parent_role_ids). user_has_permission and
+-- get_user_permissions count inherited roles. No role gets a parent
+-- here: see 007_default_role_hierarchy
+-- =====================================================
+
+BEGIN;
+
+ALTER TABLE public.roles
+  ADD COLUMN parent_role_ids UUID[] NOT NULL DEFAULT '{}'; -- Inherits their permissions
+
+-- =====================================================
+-- ROLE HIERARCHY
+-- =====================================================
+
+-- The given roles and, transitively, every role they inherit from.
+-- UNION drops repeated roles, so the walk ends even on a cycle
+CREATE OR REPLACE FUNCTION public.expand_role_ids(role_ids UUID[])
+RETURNS TABLE(role_id UUID) AS $$
+  WITH RECURSIVE lineage(id) AS (
+    SELECT UNNEST(role_ids)
+    UNION
+    SELECT UNNEST(r.parent_role_ids)
+    FROM public.roles r
+    JOIN lineage l ON r.id = l.id
+  )
+  SELECT id FROM lineage;
+$$ LANGUAGE sql STABLE;
+
+-- Parents must exist, and a role cannot inherit from itself, directly or
+-- through its parents. The providers check first; this keeps direct
+-- writes honest
+CREATE OR REPLACE FUNCTION public.check_role_hierarchy()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM UNNEST(NEW.parent_role_ids) AS parent(id)
+    WHERE NOT EXISTS (SELECT 1 FROM public.roles r WHERE r.id = parent.id)
+  ) THEN
+    RAISE EXCEPTION 'Role % inherits from an unknown role', NEW.name
+      USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  IF NEW.id IN (SELECT e.role_id FROM public.expand_role_ids(NEW.parent_role_ids) e) THEN
+    RAISE EXCEPTION 'Role % cannot inherit from itself', NEW.name
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Deleted roles drop out of the roles inheriting from them
+CREATE OR REPLACE FUNCTION public.detach_deleted_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.roles
+  SET parent_role_ids = ARRAY_REMOVE(parent_role_ids, OLD.id)
+  WHERE OLD.id = ANY(parent_role_ids);
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER check_role_hierarchy
+  BEFORE INSERT OR UPDATE OF parent_role_ids ON public.roles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_role_hierarchy();
+
+CREATE TRIGGER detach_deleted_role
+  AFTER DELETE ON public.roles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.detach_deleted_role();
+
+-- =====================================================
+-- HELPER FUNCTIONS
+-- =====================================================
+
+-- Granted roles count with the roles they inherit from
+CREATE OR REPLACE FUNCTION public.user_has_permission(
+  user_id UUID,
+  permission_name TEXT,
+  organization_id UUID DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1
+    FROM public.expand_role_ids(ARRAY(
+      SELECT ur.role_id
+      FROM public.user_roles ur
+      WHERE ur.user_id = user_has_permission.user_id
+      AND ur.is_active = true
+      AND (ur.expires_at IS NULL OR ur.expires_at > NOW())
+      AND (user_has_permission.organization_id IS NULL
+        OR ur.organization_id = user_has_permission.organization_id
+        OR ur.organization_id IS NULL)
+    )) e
+    JOIN public.role_permissions rp ON e.role_id = rp.role_id
+    JOIN public.permissions p ON rp.permission_id = p.id
+    WHERE p.name = permission_name
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Scoped to an organization, global roles still count; inherited roles
+-- too (as in user_has_permission)
+CREATE OR REPLACE FUNCTION public.get_user_permissions(
+  user_id UUID,
+  organization_id UUID DEFAULT NULL
+)
+RETURNS TABLE(permission_name TEXT, resource TEXT, action TEXT) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT DISTINCT p.name::TEXT, p.resource::TEXT, p.action::TEXT
+  FROM public.expand_role_ids(ARRAY(
+    SELECT ur.role_id
+    FROM public.user_roles ur
+    WHERE ur.user_id = get_user_permissions.user_id
+    AND ur.is_active = true
+    AND (ur.expires_at IS NULL OR ur.expires_at > NOW())
+    AND (get_user_permissions.organization_id IS NULL
+      OR ur.organization_id = get_user_permissions.organization_id
+      OR ur.organization_id IS NULL)
+  )) e
+  JOIN public.role_permissions rp ON e.role_id = rp.role_id
+  JOIN public.permissions p ON rp.permission_id = p.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMIT;
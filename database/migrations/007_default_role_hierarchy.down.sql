@@ -0,0 +1,15 @@
+-- =====================================================
+-- Migration: 007_default_role_hierarchy (down)
+-- =====================================================
+-- Detaches the default parents; parents set by hand since stay
+-- =====================================================
+
+BEGIN;
+
+UPDATE public.roles r
+SET parent_role_ids = '{}'
+FROM public.roles parent
+WHERE (r.name, parent.name) IN (('super_admin', 'owner'), ('owner', 'admin'), ('admin', 'member'))
+AND r.parent_role_ids = ARRAY[parent.id];
+
+COMMIT;
@@ -0,0 +1,24 @@
+-- =====================================================
+-- Migration: 007_default_role_hierarchy
+-- =====================================================
+-- Description: Default hierarchy for the system roles:
+-- super_admin > owner > admin > member, each inheriting the next.
+-- viewer stays apart: its reads include system logs
+--
+-- NOTE: this changes effective permissions on existing databases.
+-- Owners gain every permission granted to admin (reports.export with
+-- the defaults, plus any permission added to admin since) and admins
+-- every permission granted to member. Roles that already have
+-- parents are left alone. Check the admin and member grants
+-- before applying; the down migration detaches the defaults again
+-- =====================================================
+
+BEGIN;
+
+UPDATE public.roles r
+SET parent_role_ids = ARRAY[parent.id]
+FROM public.roles parent
+WHERE (r.name, parent.name) IN (('super_admin', 'owner'), ('owner', 'admin'), ('admin', 'member'))
+AND r.parent_role_ids = '{}';
+
+COMMIT;
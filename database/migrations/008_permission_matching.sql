@@ -0,0 +1,291 @@
+-- =====================================================
+-- Migration: 008_permission_matching
+-- =====================================================
+-- Description: Wildcard permission names (content.*, *.read) and grants
+-- limited to one instance (user_roles.resource_id, content.update:doc_123).
+-- Instance grants are not roles: the RLS policies and get_user_roles
+-- skip them
+-- =====================================================
+
+BEGIN;
+
+ALTER TABLE public.user_roles
+  ADD COLUMN resource_id TEXT; -- Instance the grant is limited to (see PERMISSION MATCHING)
+
+-- The same role can be granted once per instance; NULLs compare equal, so
+-- global and organization-wide grants stay unique
+ALTER TABLE public.user_roles
+  DROP CONSTRAINT user_roles_user_id_role_id_organization_id_key;
+ALTER TABLE public.user_roles
+  ADD CONSTRAINT user_roles_grant_key
+  UNIQUE NULLS NOT DISTINCT (user_id, role_id, organization_id, resource_id);
+
+-- =====================================================
+-- PERMISSION MATCHING
+-- =====================================================
+
+-- Permission names are resource.action, optionally limited to one
+-- instance (content.update:doc_123). A granted name may use * for the
+-- resource or the action (content.*, *.read); unscoped it covers every
+-- instance, scoped only its own. Same rules as permissionMatches in
+-- src/shared/types/rbac.ts
+CREATE OR REPLACE FUNCTION public.permission_matches(granted TEXT, required TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  granted_base TEXT := SPLIT_PART(granted, ':', 1);
+  required_base TEXT := SPLIT_PART(required, ':', 1);
+  granted_resource TEXT := SPLIT_PART(granted_base, '.', 1);
+  required_resource TEXT := SPLIT_PART(required_base, '.', 1);
+  -- Past the separator; '' when there is none
+  granted_action TEXT := SUBSTR(granted_base, LENGTH(granted_resource) + 2);
+  required_action TEXT := SUBSTR(required_base, LENGTH(required_resource) + 2);
+  granted_scope TEXT := SUBSTR(granted, LENGTH(granted_base) + 2);
+  required_scope TEXT := SUBSTR(required, LENGTH(required_base) + 2);
+BEGIN
+  RETURN granted_resource IN ('*', required_resource)
+    AND granted_action IN ('*', required_action)
+    AND granted_scope IN ('', required_scope);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- A permission as a grant gives it: limited to the grant's instance, if any
+CREATE OR REPLACE FUNCTION public.scope_permission(permission_name TEXT, resource_id TEXT)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN resource_id IS NULL THEN permission_name
+    ELSE SPLIT_PART(permission_name, ':', 1) || ':' || resource_id
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- =====================================================
+-- RLS POLICIES
+-- =====================================================
+
+DROP POLICY "Only admins can manage roles" ON public.roles;
+CREATE POLICY "Only admins can manage roles" ON public.roles
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.user_roles ur
+      JOIN public.roles r ON ur.role_id = r.id
+      WHERE ur.user_id = auth.uid()
+      AND r.name IN ('super_admin', 'admin')
+      AND ur.resource_id IS NULL
+      AND ur.is_active = true
+    )
+  );
+
+DROP POLICY "Only super admins can manage permissions" ON public.permissions;
+CREATE POLICY "Only super admins can manage permissions" ON public.permissions
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.user_roles ur
+      JOIN public.roles r ON ur.role_id = r.id
+      WHERE ur.user_id = auth.uid()
+      AND r.name = 'super_admin'
+      AND ur.resource_id IS NULL
+      AND ur.is_active = true
+    )
+  );
+
+DROP POLICY "Users can view their own roles" ON public.user_roles;
+CREATE POLICY "Users can view their own roles" ON public.user_roles
+  FOR SELECT USING (
+    user_id = auth.uid() OR
+    EXISTS (
+      SELECT 1 FROM public.user_roles ur
+      JOIN public.roles r ON ur.role_id = r.id
+      WHERE ur.user_id = auth.uid()
+      AND r.name IN ('super_admin', 'admin', 'owner')
+      AND ur.resource_id IS NULL
+      AND ur.is_active = true
+    )
+  );
+
+DROP POLICY "Only admins can assign roles" ON public.user_roles;
+CREATE POLICY "Only admins can assign roles" ON public.user_roles
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.user_roles ur
+      JOIN public.roles r ON ur.role_id = r.id
+      WHERE ur.user_id = auth.uid()
+      AND r.name IN ('super_admin', 'admin', 'owner')
+      AND ur.resource_id IS NULL
+      AND ur.is_active = true
+    )
+  );
+
+
+-- =====================================================
+-- HELPER FUNCTIONS
+-- =====================================================
+
+-- Each grant expands to its inherited roles on its own, so instance
+-- grants stay limited to their instance; names match with
+-- permission_matches
+CREATE OR REPLACE FUNCTION public.user_has_permission(
+  user_id UUID,
+  permission_name TEXT,
+  organization_id UUID DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1
+    FROM public.user_roles ur
+    CROSS JOIN LATERAL public.expand_role_ids(ARRAY[ur.role_id]) e
+    JOIN public.role_permissions rp ON e.role_id = rp.role_id
+    JOIN public.permissions p ON rp.permission_id = p.id
+    WHERE ur.user_id = user_has_permission.user_id
+    AND ur.is_active = true
+    AND (ur.expires_at IS NULL OR ur.expires_at > NOW())
+    AND (user_has_permission.organization_id IS NULL
+      OR ur.organization_id = user_has_permission.organization_id
+      OR ur.organization_id IS NULL)
+    AND public.permission_matches(
+      public.scope_permission(p.name, ur.resource_id),
+      user_has_permission.permission_name
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Grants limited to an instance are not roles of the user
+CREATE OR REPLACE FUNCTION public.get_user_roles(user_id UUID)
+RETURNS TABLE(role_name TEXT, organization_id UUID) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT r.name, ur.organization_id
+  FROM public.user_roles ur
+  JOIN public.roles r ON ur.role_id = r.id
+  WHERE ur.user_id = get_user_roles.user_id
+  AND ur.resource_id IS NULL
+  AND ur.is_active = true
+  AND (ur.expires_at IS NULL OR ur.expires_at > NOW());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Scoped to an organization, global roles still count; inherited roles
+-- too, and grants limited to an instance give scoped names (as in
+-- user_has_permission)
+CREATE OR REPLACE FUNCTION public.get_user_permissions(
+  user_id UUID,
+  organization_id UUID DEFAULT NULL
+)
+RETURNS TABLE(permission_name TEXT, resource TEXT, action TEXT) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT DISTINCT public.scope_permission(p.name, ur.resource_id), p.resource::TEXT, p.action::TEXT
+  FROM public.user_roles ur
+  CROSS JOIN LATERAL public.expand_role_ids(ARRAY[ur.role_id]) e
+  JOIN public.role_permissions rp ON e.role_id = rp.role_id
+  JOIN public.permissions p ON rp.permission_id = p.id
+  WHERE ur.user_id = get_user_permissions.user_id
+  AND ur.is_active = true
+  AND (ur.expires_at IS NULL OR ur.expires_at > NOW())
+  AND (get_user_permissions.organization_id IS NULL
+    OR ur.organization_id = get_user_permissions.organization_id
+    OR ur.organization_id IS NULL);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- ORGANIZATIONS
+-- =====================================================
+
+-- The new owner's grant conflicts on the new grant key
+CREATE OR REPLACE FUNCTION public.transfer_organization_ownership(organization_id UUID, new_owner_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  owner_role UUID := (SELECT r.id FROM public.roles r WHERE r.name = 'owner');
+  admin_role UUID := (SELECT r.id FROM public.roles r WHERE r.name = 'admin');
+  org UUID := transfer_organization_ownership.organization_id;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.organizations o WHERE o.id = org AND o.owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the owner can transfer the organization' USING ERRCODE = '42501';
+  END IF;
+
+  IF new_owner_id = auth.uid() OR NOT EXISTS (
+    SELECT 1 FROM public.user_roles ur
+    WHERE ur.user_id = new_owner_id AND ur.organization_id = org AND ur.is_active = true
+  ) THEN
+    RAISE EXCEPTION 'The new owner must be another member' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE public.organizations o SET owner_id = new_owner_id WHERE o.id = org;
+
+  UPDATE public.user_roles ur SET role_id = admin_role
+  WHERE ur.user_id = auth.uid() AND ur.organization_id = org AND ur.role_id = owner_role
+  AND NOT EXISTS (
+    SELECT 1 FROM public.user_roles a
+    WHERE a.user_id = auth.uid() AND a.organization_id = org AND a.role_id = admin_role
+  );
+  DELETE FROM public.user_roles ur
+  WHERE ur.user_id = auth.uid() AND ur.organization_id = org AND ur.role_id = owner_role;
+
+  INSERT INTO public.user_roles (user_id, role_id, organization_id, assigned_by)
+  VALUES (new_owner_id, owner_role, org, auth.uid())
+  ON CONFLICT (user_id, role_id, organization_id, resource_id) DO UPDATE SET is_active = true, expires_at = NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, auth;
+
+-- =====================================================
+-- AUTH HOOK
+-- =====================================================
+
+-- Billing is stripped from impersonated sessions whatever the instance
+CREATE OR REPLACE FUNCTION public.custom_access_token_hook(event JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  claims JSONB;
+  user_roles TEXT[];
+  user_permissions TEXT[];
+  impersonator JSONB;
+BEGIN
+  -- The hook runs before the token exists: auth.uid() is not set yet,
+  -- the user comes from the event
+  SELECT ARRAY_AGG(role_name) INTO user_roles
+  FROM public.get_user_roles((event->>'user_id')::UUID);
+
+  -- Get user permissions
+  SELECT ARRAY_AGG(permission_name) INTO user_permissions
+  FROM public.get_user_permissions((event->>'user_id')::UUID);
+
+  -- Impersonated sessions name the admin behind them and lose what they
+  -- must not touch: billing (passwords are blocked by the app)
+  SELECT jsonb_build_object(
+    'id', a.admin_id,
+    'email', a.admin_email,
+    'impersonation_id', a.id,
+    'started_at', a.started_at
+  ) INTO impersonator
+  FROM public.impersonation_audit a
+  WHERE a.session_id = (event->'claims'->>'session_id')::UUID
+  AND a.ended_at IS NULL;
+
+  IF impersonator IS NOT NULL THEN
+    user_permissions := ARRAY(
+      SELECT permission FROM UNNEST(user_permissions) AS permission
+      WHERE SPLIT_PART(permission, ':', 1) NOT IN ('billing.update', 'billing.cancel', 'organization.billing')
+    );
+  END IF;
+
+  -- Add to JWT claims
+  claims := COALESCE(event->'claims', '{}'::JSONB);
+  claims := claims || jsonb_build_object(
+    'user_roles', COALESCE(user_roles, '{}'),
+    'user_permissions', COALESCE(user_permissions, '{}')
+  );
+
+  IF impersonator IS NOT NULL THEN
+    claims := claims || jsonb_build_object('impersonator', impersonator);
+  END IF;
+
+  event := event || jsonb_build_object('claims', claims);
+
+  RETURN event;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMIT;
@@ -0,0 +1,97 @@
+-- =====================================================
+-- Migration: 009_impersonation_restrictions (down)
+-- =====================================================
+-- Impersonated sessions lose only exact billing names again, and
+-- passwords are guarded by the app alone
+-- =====================================================
+
+BEGIN;
+
+CREATE OR REPLACE FUNCTION public.custom_access_token_hook(event JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  claims JSONB;
+  user_roles TEXT[];
+  user_permissions TEXT[];
+  impersonator JSONB;
+BEGIN
+  -- The hook runs before the token exists: auth.uid() is not set yet,
+  -- the user comes from the event
+  SELECT ARRAY_AGG(role_name) INTO user_roles
+  FROM public.get_user_roles((event->>'user_id')::UUID);
+
+  -- Get user permissions
+  SELECT ARRAY_AGG(permission_name) INTO user_permissions
+  FROM public.get_user_permissions((event->>'user_id')::UUID);
+
+  -- Impersonated sessions name the admin behind them and lose what they
+  -- must not touch: billing (passwords are blocked by the app)
+  SELECT jsonb_build_object(
+    'id', a.admin_id,
+    'email', a.admin_email,
+    'impersonation_id', a.id,
+    'started_at', a.started_at
+  ) INTO impersonator
+  FROM public.impersonation_audit a
+  WHERE a.session_id = (event->'claims'->>'session_id')::UUID
+  AND a.ended_at IS NULL;
+
+  IF impersonator IS NOT NULL THEN
+    user_permissions := ARRAY(
+      SELECT permission FROM UNNEST(user_permissions) AS permission
+      WHERE SPLIT_PART(permission, ':', 1) NOT IN ('billing.update', 'billing.cancel', 'organization.billing')
+    );
+  END IF;
+
+  -- Add to JWT claims
+  claims := COALESCE(event->'claims', '{}'::JSONB);
+  claims := claims || jsonb_build_object(
+    'user_roles', COALESCE(user_roles, '{}'),
+    'user_permissions', COALESCE(user_permissions, '{}')
+  );
+
+  IF impersonator IS NOT NULL THEN
+    claims := claims || jsonb_build_object('impersonator', impersonator);
+  END IF;
+
+  event := event || jsonb_build_object('claims', claims);
+
+  RETURN event;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP POLICY IF EXISTS "Auth admin can read the audit" ON public.impersonation_audit;
+REVOKE SELECT ON public.impersonation_audit FROM supabase_auth_admin;
+
+CREATE OR REPLACE FUNCTION public.user_has_permission(
+  user_id UUID,
+  permission_name TEXT,
+  organization_id UUID DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1
+    FROM public.user_roles ur
+    CROSS JOIN LATERAL public.expand_role_ids(ARRAY[ur.role_id]) e
+    JOIN public.role_permissions rp ON e.role_id = rp.role_id
+    JOIN public.permissions p ON rp.permission_id = p.id
+    WHERE ur.user_id = user_has_permission.user_id
+    AND ur.is_active = true
+    AND (ur.expires_at IS NULL OR ur.expires_at > NOW())
+    AND (user_has_permission.organization_id IS NULL
+      OR ur.organization_id = user_has_permission.organization_id
+      OR ur.organization_id IS NULL)
+    AND public.permission_matches(
+      public.scope_permission(p.name, ur.resource_id),
+      user_has_permission.permission_name
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS block_impersonated_password_change ON auth.users;
+DROP FUNCTION IF EXISTS public.block_impersonated_password_change();
+DROP FUNCTION IF EXISTS public.impersonation_forbids(TEXT);
+
+COMMIT;
@@ -0,0 +1,163 @@
+-- =====================================================
+-- Migration: 009_impersonation_restrictions
+-- =====================================================
+-- Description: Impersonated sessions are restricted by the database, not
+-- only by the app. Billing grants given through a wildcard (billing.*,
+-- *.update, *) are stripped from their token too, user_has_permission
+-- refuses billing to them, and a user's password cannot change while an
+-- impersonation of them is open. The auth hook gets read access to
+-- impersonation_audit
+-- =====================================================
+
+BEGIN;
+
+-- =====================================================
+-- IMPERSONATION RESTRICTIONS
+-- =====================================================
+
+-- Whether an impersonated session is refused the permission: billing,
+-- on any instance and through any wildcard that covers it. Same list as
+-- IMPERSONATION_BLOCKED_PERMISSIONS in src/shared/types/rbac.ts
+CREATE OR REPLACE FUNCTION public.impersonation_forbids(permission_name TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM UNNEST(ARRAY['billing.update', 'billing.cancel', 'organization.billing']) AS billing(name)
+    WHERE public.permission_matches(SPLIT_PART(permission_name, ':', 1), billing.name)
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- GoTrue writes auth.users without the caller's claims, so the session
+-- behind a password change cannot be told apart: while an impersonation
+-- of the user is open (its session still alive), the password stays
+CREATE OR REPLACE FUNCTION public.block_impersonated_password_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM public.impersonation_audit a
+    JOIN auth.sessions s ON s.id = a.session_id
+    WHERE a.target_user_id = NEW.id
+    AND a.ended_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Passwords cannot change while the user is impersonated'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, auth;
+
+CREATE TRIGGER block_impersonated_password_change
+  BEFORE UPDATE OF encrypted_password ON auth.users
+  FOR EACH ROW
+  WHEN (OLD.encrypted_password IS DISTINCT FROM NEW.encrypted_password)
+  EXECUTE FUNCTION public.block_impersonated_password_change();
+
+-- =====================================================
+-- HELPER FUNCTIONS
+-- =====================================================
+
+-- Each grant expands to its inherited roles on its own, so instance
+-- grants stay limited to their instance; names match with
+-- permission_matches. Impersonated callers never get billing for
+-- themselves
+CREATE OR REPLACE FUNCTION public.user_has_permission(
+  user_id UUID,
+  permission_name TEXT,
+  organization_id UUID DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF user_has_permission.user_id = auth.uid()
+    AND COALESCE(auth.jwt() ? 'impersonator', false)
+    AND public.impersonation_forbids(user_has_permission.permission_name) THEN
+    RETURN false;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1
+    FROM public.user_roles ur
+    CROSS JOIN LATERAL public.expand_role_ids(ARRAY[ur.role_id]) e
+    JOIN public.role_permissions rp ON e.role_id = rp.role_id
+    JOIN public.permissions p ON rp.permission_id = p.id
+    WHERE ur.user_id = user_has_permission.user_id
+    AND ur.is_active = true
+    AND (ur.expires_at IS NULL OR ur.expires_at > NOW())
+    AND (user_has_permission.organization_id IS NULL
+      OR ur.organization_id = user_has_permission.organization_id
+      OR ur.organization_id IS NULL)
+    AND public.permission_matches(
+      public.scope_permission(p.name, ur.resource_id),
+      user_has_permission.permission_name
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- AUTH HOOK
+-- =====================================================
+
+-- The hook runs as supabase_auth_admin, which RLS on the audit would
+-- otherwise leave with no rows
+GRANT SELECT ON public.impersonation_audit TO supabase_auth_admin;
+
+CREATE POLICY "Auth admin can read the audit" ON public.impersonation_audit
+  FOR SELECT TO supabase_auth_admin USING (true);
+
+CREATE OR REPLACE FUNCTION public.custom_access_token_hook(event JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  claims JSONB;
+  user_roles TEXT[];
+  user_permissions TEXT[];
+  impersonator JSONB;
+BEGIN
+  -- The hook runs before the token exists: auth.uid() is not set yet,
+  -- the user comes from the event
+  SELECT ARRAY_AGG(role_name) INTO user_roles
+  FROM public.get_user_roles((event->>'user_id')::UUID);
+
+  -- Get user permissions
+  SELECT ARRAY_AGG(permission_name) INTO user_permissions
+  FROM public.get_user_permissions((event->>'user_id')::UUID);
+
+  -- Impersonated sessions name the admin behind them and lose what they
+  -- must not touch: billing, wildcards included (passwords: see
+  -- block_impersonated_password_change)
+  SELECT jsonb_build_object(
+    'id', a.admin_id,
+    'email', a.admin_email,
+    'impersonation_id', a.id,
+    'started_at', a.started_at
+  ) INTO impersonator
+  FROM public.impersonation_audit a
+  WHERE a.session_id = (event->'claims'->>'session_id')::UUID
+  AND a.ended_at IS NULL;
+
+  IF impersonator IS NOT NULL THEN
+    user_permissions := ARRAY(
+      SELECT permission FROM UNNEST(user_permissions) AS permission
+      WHERE NOT public.impersonation_forbids(permission)
+    );
+  END IF;
+
+  -- Add to JWT claims
+  claims := COALESCE(event->'claims', '{}'::JSONB);
+  claims := claims || jsonb_build_object(
+    'user_roles', COALESCE(user_roles, '{}'),
+    'user_permissions', COALESCE(user_permissions, '{}')
+  );
+
+  IF impersonator IS NOT NULL THEN
+    claims := claims || jsonb_build_object('impersonator', impersonator);
+  END IF;
+
+  event := event || jsonb_build_object('claims', claims);
+
+  RETURN event;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMIT;
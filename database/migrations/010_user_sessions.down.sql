@@ -0,0 +1,26 @@
+-- =====================================================
+-- Migration: 010_user_sessions (down)
+-- =====================================================
+-- Drops the device table and the session RPCs. auth.sessions belongs to
+-- Supabase and is left untouched
+-- =====================================================
+
+BEGIN;
+
+-- =================================
+-- FUNCTIONS
+-- =================================
+
+DROP FUNCTION IF EXISTS public.revoke_session(UUID);
+DROP FUNCTION IF EXISTS public.list_active_sessions();
+DROP FUNCTION IF EXISTS public.touch_session(TEXT);
+DROP FUNCTION IF EXISTS public.request_client_ip();
+DROP FUNCTION IF EXISTS public.current_session_id();
+
+-- =================================
+-- TABLES (indexes go with them)
+-- =================================
+
+DROP TABLE IF EXISTS public.user_session_devices CASCADE;
+
+COMMIT;
@@ -0,0 +1,142 @@
+-- =====================================================
+-- Migration: 010_user_sessions
+-- =====================================================
+-- Description: Backs SupabaseAuthProvider.listSessions / revokeSession.
+-- Supabase keeps one row per sign-in in auth.sessions, out of reach of the
+-- client API; user_session_devices adds what the user needs to recognise
+-- it: device, user agent, IP and when it was last seen
+-- =====================================================
+
+BEGIN;
+
+-- =================================
+-- SESSION DEVICES
+-- =================================
+
+CREATE TABLE IF NOT EXISTS public.user_session_devices (
+  -- Revoking (deleting) the session drops its device row
+  session_id UUID PRIMARY KEY REFERENCES auth.sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  device TEXT,          -- e.g., 'Chrome on macOS'
+  user_agent TEXT,
+  ip INET,
+  last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_session_devices_user ON public.user_session_devices(user_id);
+
+-- Only reachable through the functions below
+ALTER TABLE public.user_session_devices ENABLE ROW LEVEL SECURITY;
+
+-- =================================
+-- FUNCTIONS
+-- =================================
+
+-- The caller's session, from the session_id claim of the access token
+CREATE OR REPLACE FUNCTION public.current_session_id()
+RETURNS UUID AS $$
+  SELECT NULLIF(auth.jwt()->>'session_id', '')::UUID;
+$$ LANGUAGE sql STABLE;
+
+-- The client's IP as the proxy in front of PostgREST saw it. That proxy
+-- appends the peer address to X-Forwarded-For, so only the last entry is
+-- trusted: anything before it came from the client. NULL when it is
+-- missing or not an address
+CREATE OR REPLACE FUNCTION public.request_client_ip()
+RETURNS INET AS $$
+DECLARE
+  forwarded TEXT[];
+BEGIN
+  forwarded := STRING_TO_ARRAY(
+    NULLIF(current_setting('request.headers', true), '')::JSONB->>'x-forwarded-for',
+    ','
+  );
+  RETURN NULLIF(TRIM(forwarded[ARRAY_UPPER(forwarded, 1)]), '')::INET;
+EXCEPTION WHEN invalid_text_representation THEN
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Records the device, user agent, IP and last-seen of the caller's session.
+-- The user agent comes from the request headers PostgREST exposes, the IP
+-- from request_client_ip().
+-- Returns false when the session is gone (revoked from another device)
+CREATE OR REPLACE FUNCTION public.touch_session(device TEXT DEFAULT NULL)
+RETURNS BOOLEAN AS $$
+DECLARE
+  headers JSONB := COALESCE(NULLIF(current_setting('request.headers', true), '')::JSONB, '{}');
+  sid UUID := public.current_session_id();
+BEGIN
+  IF sid IS NULL OR NOT EXISTS (
+    SELECT 1 FROM auth.sessions s WHERE s.id = sid AND s.user_id = auth.uid()
+  ) THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.user_session_devices (session_id, user_id, device, user_agent, ip, last_seen_at)
+  VALUES (sid, auth.uid(), touch_session.device, headers->>'user-agent', public.request_client_ip(), NOW())
+  ON CONFLICT (session_id) DO UPDATE SET
+    device = COALESCE(EXCLUDED.device, user_session_devices.device),
+    user_agent = COALESCE(EXCLUDED.user_agent, user_session_devices.user_agent),
+    ip = COALESCE(EXCLUDED.ip, user_session_devices.ip),
+    last_seen_at = EXCLUDED.last_seen_at;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, auth;
+
+-- The caller's sessions, most recently seen first
+CREATE OR REPLACE FUNCTION public.list_active_sessions()
+RETURNS TABLE(
+  id UUID,
+  device TEXT,
+  user_agent TEXT,
+  ip TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  last_seen_at TIMESTAMP WITH TIME ZONE,
+  is_current BOOLEAN
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    s.id,
+    d.device,
+    COALESCE(d.user_agent, s.user_agent),
+    HOST(COALESCE(d.ip, s.ip)),
+    s.created_at,
+    GREATEST(d.last_seen_at, s.updated_at, s.created_at) AS seen,
+    s.id = public.current_session_id()
+  FROM auth.sessions s
+  LEFT JOIN public.user_session_devices d ON d.session_id = s.id
+  WHERE s.user_id = auth.uid()
+  AND (s.not_after IS NULL OR s.not_after > NOW())
+  ORDER BY seen DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, auth;
+
+-- Deleting the session revokes its refresh tokens; its access token still
+-- works until it expires. Returns whether it was the caller's own session
+CREATE OR REPLACE FUNCTION public.revoke_session(session_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  DELETE FROM auth.sessions s
+  WHERE s.id = revoke_session.session_id
+  AND s.user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN revoke_session.session_id = public.current_session_id();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, auth;
+
+REVOKE EXECUTE ON FUNCTION public.request_client_ip() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.touch_session(TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.list_active_sessions() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.revoke_session(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.touch_session(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.list_active_sessions() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_session(UUID) TO authenticated;
+
+COMMIT;
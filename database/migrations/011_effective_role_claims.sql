@@ -0,0 +1,75 @@
+-- =====================================================
+-- Migration: 011_effective_role_claims
+-- =====================================================
+-- Description: The user_roles claim lists the user's effective roles:
+-- the roles granted and, through roles.parent_role_ids, every role they
+-- inherit. A role inheriting from admin now passes the middleware's admin
+-- check, as it passes AdminGuard. Same grants as get_user_roles: active,
+-- unexpired and not limited to an instance
+-- =====================================================
+
+BEGIN;
+
+CREATE OR REPLACE FUNCTION public.custom_access_token_hook(event JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  claims JSONB;
+  user_roles TEXT[];
+  user_permissions TEXT[];
+  impersonator JSONB;
+BEGIN
+  -- The hook runs before the token exists: auth.uid() is not set yet,
+  -- the user comes from the event. Effective roles: each role granted and
+  -- every role it inherits from, so checks on the claim (the middleware's
+  -- admin routes) see inheritance
+  SELECT ARRAY_AGG(DISTINCT r.name::TEXT) INTO user_roles
+  FROM public.user_roles ur
+  CROSS JOIN LATERAL public.expand_role_ids(ARRAY[ur.role_id]) e
+  JOIN public.roles r ON r.id = e.role_id
+  WHERE ur.user_id = (event->>'user_id')::UUID
+  AND ur.resource_id IS NULL
+  AND ur.is_active = true
+  AND (ur.expires_at IS NULL OR ur.expires_at > NOW());
+
+  -- Get user permissions
+  SELECT ARRAY_AGG(permission_name) INTO user_permissions
+  FROM public.get_user_permissions((event->>'user_id')::UUID);
+
+  -- Impersonated sessions name the admin behind them and lose what they
+  -- must not touch: billing, wildcards included (passwords: see
+  -- block_impersonated_password_change)
+  SELECT jsonb_build_object(
+    'id', a.admin_id,
+    'email', a.admin_email,
+    'impersonation_id', a.id,
+    'started_at', a.started_at
+  ) INTO impersonator
+  FROM public.impersonation_audit a
+  WHERE a.session_id = (event->'claims'->>'session_id')::UUID
+  AND a.ended_at IS NULL;
+
+  IF impersonator IS NOT NULL THEN
+    user_permissions := ARRAY(
+      SELECT permission FROM UNNEST(user_permissions) AS permission
+      WHERE NOT public.impersonation_forbids(permission)
+    );
+  END IF;
+
+  -- Add to JWT claims
+  claims := COALESCE(event->'claims', '{}'::JSONB);
+  claims := claims || jsonb_build_object(
+    'user_roles', COALESCE(user_roles, '{}'),
+    'user_permissions', COALESCE(user_permissions, '{}')
+  );
+
+  IF impersonator IS NOT NULL THEN
+    claims := claims || jsonb_build_object('impersonator', impersonator);
+  END IF;
+
+  event := event || jsonb_build_object('claims', claims);
+
+  RETURN event;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMIT;
@@ -0,0 +1,9 @@
+-- Realtime triggers (down)
+-- Reverts postgres-realtime.sql. CASCADE also drops the per-table triggers
+-- created with it.
+
+-- =================================
+-- FUNCTIONS
+-- =================================
+
+DROP FUNCTION IF EXISTS public.notify_db_change() CASCADE;
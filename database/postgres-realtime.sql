@@ -0,0 +1,35 @@
+-- Realtime triggers for the Postgres provider
+-- Used by PostgresDatabaseProvider.subscribe(): every change on a table with
+-- the trigger below is published with NOTIFY on the "db_changes" channel.
+
+-- =================================
+-- NOTIFY FUNCTION
+-- =================================
+
+-- Payload: { "table", "schema", "eventType", "new", "old" }
+-- NOTIFY payloads are limited to 8000 bytes; very wide rows may be dropped.
+CREATE OR REPLACE FUNCTION public.notify_db_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM pg_notify(
+    'db_changes',
+    json_build_object(
+      'table', TG_TABLE_NAME,
+      'schema', TG_TABLE_SCHEMA,
+      'eventType', TG_OP,
+      'new', CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE row_to_json(NEW) END,
+      'old', CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE row_to_json(OLD) END
+    )::TEXT
+  );
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+-- =================================
+-- ENABLING A TABLE
+-- =================================
+
+-- Repeat for each table that should emit realtime events, e.g.:
+-- CREATE TRIGGER posts_notify_db_change
+--   AFTER INSERT OR UPDATE OR DELETE ON public.posts
+--   FOR EACH ROW EXECUTE FUNCTION public.notify_db_change();
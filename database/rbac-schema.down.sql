@@ -0,0 +1,21 @@
+-- RBAC Schema (down)
+-- Reverts rbac-schema.sql: drops the RBAC tables, their policies and helper functions.
+-- public.update_updated_at_column() is shared with the module tables and is kept.
+
+-- =================================
+-- FUNCTIONS
+-- =================================
+
+DROP FUNCTION IF EXISTS public.custom_access_token_hook(JSONB);
+DROP FUNCTION IF EXISTS public.get_user_permissions(UUID);
+DROP FUNCTION IF EXISTS public.get_user_roles(UUID);
+DROP FUNCTION IF EXISTS public.user_has_permission(UUID, TEXT, UUID);
+
+-- =================================
+-- TABLES (policies, indexes and triggers go with them)
+-- =================================
+
+DROP TABLE IF EXISTS public.user_roles CASCADE;
+DROP TABLE IF EXISTS public.role_permissions CASCADE;
+DROP TABLE IF EXISTS public.permissions CASCADE;
+DROP TABLE IF EXISTS public.roles CASCADE;
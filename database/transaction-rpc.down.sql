@@ -0,0 +1,9 @@
+-- Transaction RPC (down)
+-- Reverts transaction-rpc.sql: batch transactions stop working until it is
+-- applied again.
+
+-- =================================
+-- FUNCTIONS
+-- =================================
+
+DROP FUNCTION IF EXISTS public.execute_transaction(JSONB);
@@ -0,0 +1,94 @@
+-- Transaction RPC for Supabase
+-- Used by SupabaseDatabaseProvider.transaction(callback, { mode: "batch" })
+-- Applies a list of queued write operations inside a single Postgres transaction:
+-- if any statement fails, the whole batch is rolled back.
+
+-- =================================
+-- EXECUTE TRANSACTION
+-- =================================
+
+-- operations: JSONB array of
+--   { "type": "insert" | "update" | "delete" | "upsert",
+--     "table": "posts", "id": "...", "data": { ... }, "conflictColumns": ["id"] }
+-- SECURITY INVOKER keeps Row Level Security policies in effect for the caller.
+CREATE OR REPLACE FUNCTION public.execute_transaction(operations JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  op JSONB;
+  op_table TEXT;
+  op_data JSONB;
+  columns TEXT;
+  assignments TEXT;
+  conflict TEXT;
+  affected JSONB;
+  results JSONB := '[]'::JSONB;
+BEGIN
+  FOR op IN SELECT * FROM jsonb_array_elements(operations)
+  LOOP
+    op_table := op->>'table';
+    op_data := COALESCE(op->'data', '{}'::JSONB);
+
+    SELECT string_agg(format('%I', key), ', ')
+      INTO columns
+      FROM jsonb_object_keys(op_data) AS key;
+
+    SELECT string_agg(format('%I = r.%I', key, key), ', ')
+      INTO assignments
+      FROM jsonb_object_keys(op_data) AS key;
+
+    CASE op->>'type'
+      WHEN 'insert' THEN
+        -- Only listed columns are written so column defaults still apply
+        EXECUTE format(
+          'INSERT INTO public.%I (%s) SELECT %s FROM jsonb_populate_record(NULL::public.%I, $1) '
+          'RETURNING to_jsonb(public.%I.*)',
+          op_table, columns, columns, op_table, op_table
+        ) INTO affected USING op_data;
+
+      WHEN 'update' THEN
+        EXECUTE format(
+          'UPDATE public.%I t SET %s FROM jsonb_populate_record(NULL::public.%I, $1) r '
+          'WHERE t.id = $2 RETURNING to_jsonb(t.*)',
+          op_table, assignments, op_table
+        ) INTO affected USING op_data, (op->>'id')::UUID;
+
+        IF affected IS NULL THEN
+          RAISE EXCEPTION 'Row % not found in %', op->>'id', op_table
+            USING ERRCODE = 'no_data_found';
+        END IF;
+
+      WHEN 'delete' THEN
+        EXECUTE format(
+          'DELETE FROM public.%I WHERE id = $1 RETURNING to_jsonb(public.%I.*)',
+          op_table, op_table
+        ) INTO affected USING (op->>'id')::UUID;
+
+      WHEN 'upsert' THEN
+        SELECT string_agg(format('%I', value), ', ')
+          INTO conflict
+          FROM jsonb_array_elements_text(
+            COALESCE(op->'conflictColumns', '["id"]'::JSONB)
+          );
+
+        SELECT string_agg(format('%I = EXCLUDED.%I', key, key), ', ')
+          INTO assignments
+          FROM jsonb_object_keys(op_data) AS key;
+
+        EXECUTE format(
+          'INSERT INTO public.%I (%s) SELECT %s FROM jsonb_populate_record(NULL::public.%I, $1) '
+          'ON CONFLICT (%s) DO UPDATE SET %s RETURNING to_jsonb(public.%I.*)',
+          op_table, columns, columns, op_table, conflict, assignments, op_table
+        ) INTO affected USING op_data;
+
+      ELSE
+        RAISE EXCEPTION 'Unsupported operation type: %', op->>'type';
+    END CASE;
+
+    results := results || jsonb_build_array(affected);
+  END LOOP;
+
+  RETURN results;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION public.execute_transaction(JSONB) TO authenticated;
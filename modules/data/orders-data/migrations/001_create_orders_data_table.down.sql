@@ -0,0 +1,9 @@
+-- Migration: 001_create_orders_data_table (down)
+-- Reverts 001_create_orders_data_table.sql
+
+BEGIN;
+
+DROP TRIGGER IF EXISTS update_orders_data_updated_at ON public.orders_data;
+DROP TABLE IF EXISTS public.orders_data CASCADE;
+
+COMMIT;
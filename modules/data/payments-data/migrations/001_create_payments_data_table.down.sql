@@ -0,0 +1,9 @@
+-- Migration: 001_create_payments_data_table (down)
+-- Reverts 001_create_payments_data_table.sql
+
+BEGIN;
+
+DROP TRIGGER IF EXISTS update_payments_data_updated_at ON public.payments_data;
+DROP TABLE IF EXISTS public.payments_data CASCADE;
+
+COMMIT;
@@ -0,0 +1,9 @@
+-- Migration: 001_create_products_data_table (down)
+-- Reverts 001_create_products_data_table.sql
+
+BEGIN;
+
+DROP TRIGGER IF EXISTS update_products_data_updated_at ON public.products_data;
+DROP TABLE IF EXISTS public.products_data CASCADE;
+
+COMMIT;
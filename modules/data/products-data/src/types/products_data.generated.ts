@@ -0,0 +1,75 @@
+// AUTO-GENERATED by scripts/modules/generate-db-types.js from modules/data/products-data/schemas/products_data.sql
+// Do not edit by hand: change the SQL and run `pnpm modules:types`
+/* eslint-disable max-lines */
+
+import { z } from "zod";
+
+// Drops keys left undefined so partial records map to partial rows
+const compact = <T extends object>(value: T): T =>
+  Object.fromEntries(
+    Object.entries(value).filter(([, entry]) => entry !== undefined),
+  ) as T;
+
+// public.products_data
+export interface ProductsDataRow {
+  id: string;
+  name: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ProductsDataInsert {
+  id?: string;
+  name: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface ProductsDataUpdate {
+  id?: string;
+  name?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface ProductsDataRecord {
+  id: string;
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const productsDataRowSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string().min(2).max(100),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export const productsDataInsertSchema = z.object({
+  id: z.string().uuid().optional(),
+  name: z.string().min(2).max(100),
+  created_at: z.string().optional(),
+  updated_at: z.string().optional(),
+});
+
+export const productsDataUpdateSchema = productsDataInsertSchema.partial();
+
+export const fromProductsDataRow = (
+  row: ProductsDataRow,
+): ProductsDataRecord => ({
+  id: row.id,
+  name: row.name,
+  createdAt: new Date(row.created_at),
+  updatedAt: new Date(row.updated_at),
+});
+
+export const toProductsDataRow = (
+  record: Partial<ProductsDataRecord>,
+): ProductsDataUpdate =>
+  compact({
+    id: record.id,
+    name: record.name,
+    created_at: record.createdAt?.toISOString(),
+    updated_at: record.updatedAt?.toISOString(),
+  });
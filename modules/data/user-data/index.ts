@@ -2,15 +2,16 @@
 // Database schema, migrations and queries for user management
 
 /**
- * This module contains SQL schemas, migrations, and queries.
- * There are no TypeScript exports as this is a schema-only module.
+ * This module contains SQL schemas, migrations, and queries, plus the
+ * TypeScript types generated from schemas/users.sql.
  *
  * To use this module:
- * 1. Execute schemas in Supabase SQL Editor
- * 2. Run migrations in order
- * 3. Reference queries as needed
+ * 1. Run migrations with `pnpm modules:migrate up`
+ * 2. Reference queries as needed
+ * 3. Use the generated row types, zod schemas and mappers below
  *
+ * After changing schemas/users.sql run `pnpm modules:types`.
  * See docs/README.md for detailed usage instructions.
  */
 
-export {};
+export * from "./src/types/users.generated";
@@ -0,0 +1,14 @@
+-- =====================================================
+-- Migration: 001_create_users_table (down)
+-- =====================================================
+-- Reverts 001_create_users_table.sql
+-- public.update_updated_at_column() is shared with other
+-- tables and is kept on purpose
+-- =====================================================
+
+BEGIN;
+
+DROP TRIGGER IF EXISTS update_users_updated_at ON public.users;
+DROP TABLE IF EXISTS public.users CASCADE;
+
+COMMIT;
@@ -0,0 +1,95 @@
+// AUTO-GENERATED by scripts/modules/generate-db-types.js from modules/data/user-data/schemas/users.sql
+// Do not edit by hand: change the SQL and run `pnpm modules:types`
+/* eslint-disable max-lines */
+
+import { z } from "zod";
+
+// Drops keys left undefined so partial records map to partial rows
+const compact = <T extends object>(value: T): T =>
+  Object.fromEntries(
+    Object.entries(value).filter(([, entry]) => entry !== undefined),
+  ) as T;
+
+// public.users
+export interface UserRow {
+  id: string;
+  email: string;
+  name: string;
+  avatar: string | null;
+  bio: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface UserInsert {
+  id?: string;
+  email: string;
+  name: string;
+  avatar?: string | null;
+  bio?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface UserUpdate {
+  id?: string;
+  email?: string;
+  name?: string;
+  avatar?: string | null;
+  bio?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface UserRecord {
+  id: string;
+  email: string;
+  name: string;
+  avatar: string | null;
+  bio: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const userRowSchema = z.object({
+  id: z.string().uuid(),
+  email: z.string().min(3),
+  name: z.string().min(2).max(100),
+  avatar: z.string().nullable(),
+  bio: z.string().max(500).nullable(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export const userInsertSchema = z.object({
+  id: z.string().uuid().optional(),
+  email: z.string().min(3),
+  name: z.string().min(2).max(100),
+  avatar: z.string().nullable().optional(),
+  bio: z.string().max(500).nullable().optional(),
+  created_at: z.string().optional(),
+  updated_at: z.string().optional(),
+});
+
+export const userUpdateSchema = userInsertSchema.partial();
+
+export const fromUserRow = (row: UserRow): UserRecord => ({
+  id: row.id,
+  email: row.email,
+  name: row.name,
+  avatar: row.avatar,
+  bio: row.bio,
+  createdAt: new Date(row.created_at),
+  updatedAt: new Date(row.updated_at),
+});
+
+export const toUserRow = (record: Partial<UserRecord>): UserUpdate =>
+  compact({
+    id: record.id,
+    email: record.email,
+    name: record.name,
+    avatar: record.avatar,
+    bio: record.bio,
+    created_at: record.createdAt?.toISOString(),
+    updated_at: record.updatedAt?.toISOString(),
+  });
@@ -0,0 +1,245 @@
+/**
+ * Migration Runner Tests
+ *
+ * Covers scripts/modules/migrate.js: discovery order, checksums, the up/down
+ * planners and the ledger writes, on a throwaway tree of SQL files
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const migrate = require("../../../../../scripts/modules/migrate");
+
+interface IMigration {
+  id: string;
+  file: string;
+  downFile: string | null;
+  checksum: string;
+  sql: string;
+}
+
+interface ILedgerRow {
+  id: string;
+  checksum: string;
+  position: number;
+  applied_at: string;
+}
+
+const REPO_ROOT = path.join(__dirname, "../../../../..");
+
+let rootDir: string;
+
+const write = (file: string, sql: string): void => {
+  const target = path.join(rootDir, file);
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.writeFileSync(target, sql);
+};
+
+const discover = (): IMigration[] => migrate.discoverMigrations(rootDir);
+
+const ledger = (...migrations: IMigration[]): ILedgerRow[] =>
+  migrations.map(({ id, checksum }, index) => ({
+    id,
+    checksum,
+    position: index + 1,
+    applied_at: "2026-10-18T10:00:00Z",
+  }));
+
+// pg client stand-in: logs statements and keeps the ledger rows
+const createClient = (
+  applied: ILedgerRow[] = [],
+): {
+  statements: string[];
+  query: (text: string, values?: unknown[]) => Promise<{ rows: unknown[] }>;
+} => {
+  const statements: string[] = [];
+  return {
+    statements,
+    query: async (text: string, values: unknown[] = []) => {
+      statements.push(text.trim().split(/\s+/).slice(0, 3).join(" "));
+      if (text.includes("information_schema.tables")) return { rows: [{}] };
+      if (text.startsWith("SELECT id, checksum")) return { rows: applied };
+      if (text.includes("broken")) throw new Error("syntax error");
+      if (text.startsWith("INSERT INTO public.schema_migrations")) {
+        applied.push({
+          id: values[0] as string,
+          checksum: values[2] as string,
+          position: applied.length + 1,
+          applied_at: "2026-10-18T10:00:00Z",
+        });
+      }
+      return { rows: [] };
+    },
+  };
+};
+
+beforeEach(() => {
+  rootDir = fs.mkdtempSync(path.join(os.tmpdir(), "migrate-"));
+  write("database/rbac-schema.sql", "CREATE TABLE roles ();");
+  write("database/postgres-realtime.sql", "CREATE TABLE changes ();");
+  write("database/postgres-realtime.down.sql", "DROP TABLE changes;");
+  write("database/migrations/010_later.sql", "SELECT 10;");
+  write("database/migrations/002_sooner.sql", "SELECT 2;");
+  write("database/migrations/002_sooner.down.sql", "SELECT -2;");
+  write("modules/data/b-data/migrations/001_b.sql", "SELECT 'b';");
+  write("modules/data/a-data/migrations/002_a.sql", "SELECT 'a';");
+  write("modules/data/a-data/migrations/001_a.sql", "SELECT 'a1';");
+});
+
+afterEach(() => {
+  fs.rmSync(rootDir, { recursive: true, force: true });
+});
+
+describe("Migration Runner", () => {
+  describe("discovery", () => {
+    it("should order root files, then numbered root migrations, then modules", () => {
+      expect(discover().map(({ id }) => id)).toEqual([
+        "database/rbac-schema",
+        "database/postgres-realtime",
+        "database/002_sooner",
+        "database/010_later",
+        "a-data/001_a",
+        "b-data/001_b",
+        "a-data/002_a",
+      ]);
+    });
+
+    it("should pair migrations with their down files", () => {
+      const byId = new Map(discover().map((m) => [m.id, m]));
+
+      expect(byId.get("database/postgres-realtime")?.downFile).toBe(
+        "database/postgres-realtime.down.sql",
+      );
+      expect(byId.get("database/002_sooner")?.downFile).toBe(
+        "database/migrations/002_sooner.down.sql",
+      );
+      expect(byId.get("database/010_later")?.downFile).toBeNull();
+    });
+
+    it("should inline \\i includes and drop the file's own BEGIN/COMMIT", () => {
+      write(
+        "database/migrations/003_parts.sql",
+        "BEGIN;\n\\ir part.sql\nCOMMIT;",
+      );
+      write("database/migrations/part.sql", "SELECT 'part';");
+
+      const parts = discover().find(({ id }) => id === "database/003_parts");
+
+      expect(parts?.sql.trim()).toBe("SELECT 'part';");
+    });
+
+    it("should give every root migration in the repo a down file", () => {
+      const root = migrate
+        .discoverMigrations(REPO_ROOT)
+        .filter(({ id }: IMigration) => id.startsWith("database/"));
+
+      expect(root[0].id).toBe("database/rbac-schema");
+      expect(
+        root
+          .filter(({ downFile }: IMigration) => !downFile)
+          .map(({ id }: IMigration) => id),
+      ).toEqual([]);
+    });
+  });
+
+  describe("checksums", () => {
+    it("should hash the SQL that runs", () => {
+      const [schema] = discover();
+
+      expect(schema.checksum).toBe(migrate.checksum("CREATE TABLE roles ();"));
+      expect(schema.checksum).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it("should refuse to go up when an applied file was edited", () => {
+      const applied = ledger(...discover().slice(0, 2));
+      write("database/rbac-schema.sql", "CREATE TABLE roles (id UUID);");
+
+      expect(migrate.getStatus(discover(), applied).entries[0].state).toBe(
+        "changed",
+      );
+      expect(() => migrate.planUp(discover(), applied)).toThrow(
+        "Applied migrations were edited after being applied: database/rbac-schema",
+      );
+    });
+
+    it("should report ledger rows whose file is gone", () => {
+      const applied = [
+        ...ledger(...discover()),
+        { ...ledger(...discover())[0], id: "database/000_gone" },
+      ];
+
+      expect(migrate.getStatus(discover(), applied).missing).toEqual([
+        { id: "database/000_gone", state: "missing" },
+      ]);
+    });
+  });
+
+  describe("planning", () => {
+    it("should plan pending migrations up to a target", () => {
+      const applied = ledger(...discover().slice(0, 2));
+
+      expect(
+        migrate
+          .planUp(discover(), applied, { to: "database/010_later" })
+          .map(({ id }: IMigration) => id),
+      ).toEqual(["database/002_sooner", "database/010_later"]);
+      expect(() =>
+        migrate.planUp(discover(), applied, { to: "database/rbac-schema" }),
+      ).toThrow('Migration "database/rbac-schema" is not pending');
+    });
+
+    it("should plan down from the most recently applied", () => {
+      const [, realtime, sooner, later] = discover();
+
+      expect(
+        migrate
+          .planDown(discover(), ledger(realtime, sooner), { steps: 2 })
+          .map(({ id }: IMigration) => id),
+      ).toEqual(["database/002_sooner", "database/postgres-realtime"]);
+      expect(() => migrate.planDown(discover(), ledger(later))).toThrow(
+        "has no down file (database/migrations/010_later.down.sql)",
+      );
+    });
+  });
+
+  describe("runner", () => {
+    it("should apply each migration in a transaction and record it", async () => {
+      const applied = ledger(...discover().slice(0, 4));
+      const client = createClient(applied);
+      const runner = new migrate.MigrationRunner(client, {
+        rootDir,
+        log: () => undefined,
+      });
+
+      const plan = await runner.up({ to: "a-data/001_a" });
+
+      expect(plan.map(({ id }: IMigration) => id)).toEqual(["a-data/001_a"]);
+      expect(client.statements.slice(-4)).toEqual([
+        "BEGIN",
+        "SELECT 'a1';",
+        "INSERT INTO public.schema_migrations",
+        "COMMIT",
+      ]);
+      expect(applied.map(({ id }) => id)).toContain("a-data/001_a");
+    });
+
+    it("should roll back and name the migration that failed", async () => {
+      write("database/migrations/011_broken.sql", "SELECT broken;");
+      const client = createClient(ledger(...discover().slice(0, 4)));
+      const runner = new migrate.MigrationRunner(client, {
+        rootDir,
+        log: () => undefined,
+      });
+
+      await expect(runner.up()).rejects.toThrow(
+        'Migration "database/011_broken" failed: syntax error',
+      );
+      expect(client.statements.slice(-2)).toEqual([
+        "SELECT broken;",
+        "ROLLBACK",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Generated Types Tests for User Data Module
+ *
+ * Covers src/types/users.generated.ts, built from schemas/users.sql.
+ * Staleness is checked by `pnpm modules:types:check`
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+import {
+  fromUserRow,
+  toUserRow,
+  userInsertSchema,
+  userRowSchema,
+  type UserRow,
+} from "../../src/types/users.generated";
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const generator = require("../../../../../scripts/modules/generate-db-types");
+
+const row: UserRow = {
+  id: "7f1c1f5e-2c4b-4a8e-9a55-0d7c6f0a3b21",
+  email: "ana@example.com",
+  name: "Ana",
+  avatar: null,
+  bio: "Hello",
+  created_at: "2025-01-11T10:00:00.000Z",
+  updated_at: "2025-01-12T10:00:00.000Z",
+};
+
+describe("Generated User Types", () => {
+  describe("Generator", () => {
+    it("should parse every column of the users table", () => {
+      const sql = fs.readFileSync(
+        path.join(__dirname, "../../schemas/users.sql"),
+        "utf8",
+      );
+      const [table] = generator.parseCreateTables(sql);
+
+      expect(table.name).toBe("users");
+      expect(
+        table.columns.map((column: { name: string }) => column.name),
+      ).toEqual([
+        "id",
+        "email",
+        "name",
+        "avatar",
+        "bio",
+        "created_at",
+        "updated_at",
+      ]);
+    });
+
+    it("should append columns added by a later ALTER TABLE", () => {
+      const [table] = generator.parseCreateTables(`
+        CREATE TABLE public.roles (id UUID PRIMARY KEY, name TEXT NOT NULL);
+        ALTER TABLE public.roles
+          ADD COLUMN IF NOT EXISTS parent_role_ids UUID[] NOT NULL DEFAULT '{}';
+      `);
+
+      expect(table.columns[table.columns.length - 1]).toEqual({
+        name: "parent_role_ids",
+        type: "uuid[]",
+        nullable: false,
+        hasDefault: true,
+      });
+    });
+  });
+
+  describe("Zod Schemas", () => {
+    it("should accept a valid row", () => {
+      expect(userRowSchema.safeParse(row).success).toBe(true);
+    });
+
+    it("should enforce the CHECK constraints on insert", () => {
+      expect(
+        userInsertSchema.safeParse({ email: "ana@example.com", name: "A" })
+          .success,
+      ).toBe(false);
+      expect(
+        userInsertSchema.safeParse({
+          email: "ana@example.com",
+          name: "Ana",
+          bio: "x".repeat(501),
+        }).success,
+      ).toBe(false);
+    });
+
+    it("should make defaulted and nullable columns optional on insert", () => {
+      expect(
+        userInsertSchema.safeParse({ email: "ana@example.com", name: "Ana" })
+          .success,
+      ).toBe(true);
+    });
+  });
+
+  describe("Mappers", () => {
+    it("should map snake_case rows to camelCase records", () => {
+      const record = fromUserRow(row);
+
+      expect(record.createdAt).toEqual(new Date(row.created_at));
+      expect(record.avatar).toBeNull();
+      expect(record).not.toHaveProperty("created_at");
+    });
+
+    it("should round-trip records back to rows", () => {
+      expect(toUserRow(fromUserRow(row))).toEqual(row);
+    });
+
+    it("should omit fields missing from a partial record", () => {
+      expect(toUserRow({ name: "Bia" })).toEqual({ name: "Bia" });
+    });
+  });
+});
@@ -37,14 +37,24 @@ export class UserService {
 
   /**
    * Get list of users with filters
+   * Passing `after` or `before` switches to cursor pagination, where
+   * `offset` is not used.
    * @param filter Optional filter criteria
-   * @returns User list with pagination info
+   * @returns User list with pagination info (and cursors in cursor mode)
+   * @throws Error if both `after` and `before` cursors are given
    */
   async getUsers(filter: UserListFilter = {}): Promise<UserListResponse> {
+    if (filter.after && filter.before) {
+      throw new Error("Use either 'after' or 'before' cursor, not both");
+    }
+
+    const isCursorMode =
+      filter.after !== undefined || filter.before !== undefined;
+
     // Set defaults
     const normalizedFilter: UserListFilter = {
       limit: 20,
-      offset: 0,
+      ...(isCursorMode ? {} : { offset: 0 }),
       sortBy: "createdAt",
       sortOrder: "desc",
       ...filter,
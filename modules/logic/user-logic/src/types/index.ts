@@ -27,10 +27,17 @@ export interface UserListFilter {
   sortOrder?: "asc" | "desc";
   limit?: number;
   offset?: number;
+  // Cursor (keyset) pagination: opaque cursor from a previous page.
+  // `after: null` requests the first page in cursor mode.
+  after?: string | null;
+  before?: string | null;
 }
 
 export interface UserListResponse {
   users: UserProfile[];
   total: number;
   hasMore: boolean;
+  // Set when the request used `after`/`before`
+  nextCursor?: string | null;
+  previousCursor?: string | null;
 }
@@ -0,0 +1,285 @@
+import { Auth0AuthProvider } from "@/shared/services/auth/providers/auth0-auth-provider";
+import type { IAuthError, IAuthProvider } from "@/shared/types/auth";
+
+import {
+  FakeOidcIssuer,
+  installWebCrypto,
+  memoryStorage,
+} from "./fake-oidc-issuer";
+
+jest.mock("@/config/env", () => ({
+  getEnv: () => ({ NEXT_PUBLIC_APP_URL: "http://localhost" }),
+}));
+
+const DOMAIN = "tenant.auth0.test";
+const ISSUER = `https://${DOMAIN}/`;
+const CLIENT_ID = "spa-client";
+const NAMESPACE = "https://app.test/";
+
+// Mocked Auth0 tenant: Auth0 paths, JSON token requests, no discovery
+const createTenant = (): FakeOidcIssuer =>
+  new FakeOidcIssuer({
+    issuer: ISSUER,
+    clientId: CLIENT_ID,
+    tokenPath: "/oauth/token",
+    jwksPath: "/.well-known/jwks.json",
+    bodyFormat: "json",
+    profile: {
+      sub: "auth0|user-1",
+      email: "ada@example.com",
+      name: "Ada Lovelace",
+      picture: "https://cdn.test/ada.png",
+      [`${NAMESPACE}roles`]: ["admin", "member"],
+      [`${NAMESPACE}app_metadata`]: { plan: "pro" },
+    },
+    routes: {
+      "/dbconnections/change_password": () => "We've just sent you an email",
+    },
+  });
+
+describe("Auth0AuthProvider", () => {
+  let tenant: FakeOidcIssuer;
+  let storage: Storage;
+  let navigate: jest.Mock;
+
+  const createProvider = (): Auth0AuthProvider =>
+    new Auth0AuthProvider({
+      domain: DOMAIN,
+      clientId: CLIENT_ID,
+      audience: "https://api.test",
+      claimsNamespace: NAMESPACE,
+      logoutReturnTo: "http://localhost/",
+      fetch: tenant.fetch,
+      storage,
+      navigate,
+    });
+
+  const signIn = async (provider: Auth0AuthProvider): Promise<void> => {
+    const authorizeUrl = await provider.loginWithRedirect();
+    await provider.handleOAuthCallback(tenant.authorize(authorizeUrl));
+  };
+
+  beforeAll(installWebCrypto);
+
+  beforeEach(async () => {
+    tenant = createTenant();
+    await tenant.setup();
+    storage = memoryStorage();
+    navigate = jest.fn();
+  });
+
+  // ============================================================================
+  // Universal Login redirect
+  // ============================================================================
+
+  describe("loginWithRedirect", () => {
+    it("should redirect to /authorize with PKCE, state and nonce", async () => {
+      const provider = createProvider();
+
+      const url = await provider.loginWithRedirect({ screenHint: "signup" });
+      const params = new URL(url).searchParams;
+
+      expect(url.startsWith(`${ISSUER}authorize?`)).toBe(true);
+      expect(navigate).toHaveBeenCalledWith(url);
+      expect(params.get("response_type")).toBe("code");
+      expect(params.get("client_id")).toBe(CLIENT_ID);
+      expect(params.get("redirect_uri")).toBe("http://localhost/auth/callback");
+      expect(params.get("audience")).toBe("https://api.test");
+      expect(params.get("scope")).toContain("offline_access");
+      expect(params.get("code_challenge_method")).toBe("S256");
+      expect(params.get("code_challenge")).toMatch(/^[\w-]{43}$/);
+      expect(params.get("state")).toBeTruthy();
+      expect(params.get("nonce")).toBeTruthy();
+      expect(params.get("screen_hint")).toBe("signup");
+    });
+
+    it("should map OAuth providers to Auth0 connections", async () => {
+      const provider = createProvider();
+
+      const redirect = await provider.signInWithOAuth("google");
+
+      expect(redirect.provider).toBe("google");
+      expect(new URL(redirect.url).searchParams.get("connection")).toBe(
+        "google-oauth2",
+      );
+    });
+
+    it("should not accept passwords directly", async () => {
+      const provider: IAuthProvider = createProvider();
+
+      await expect(
+        provider.login({ email: "ada@example.com", password: "secret" }),
+      ).rejects.toMatchObject({ code: "auth0_universal_login_required" });
+    });
+  });
+
+  // ============================================================================
+  // Code exchange
+  // ============================================================================
+
+  describe("handleOAuthCallback", () => {
+    it("should exchange the code and map the Auth0 profile", async () => {
+      const provider = createProvider();
+      const authorizeUrl = await provider.loginWithRedirect();
+
+      const session = await provider.handleOAuthCallback(
+        tenant.authorize(authorizeUrl),
+      );
+
+      expect(session.token).toBe("access-2");
+      expect(session.refreshToken).toBe("refresh-2");
+      expect(session.user).toMatchObject({
+        id: "auth0|user-1",
+        email: "ada@example.com",
+        name: "Ada Lovelace",
+        avatar: "https://cdn.test/ada.png",
+        role: "admin",
+        metadata: {
+          roles: ["admin", "member"],
+          app_metadata: { plan: "pro" },
+        },
+      });
+      expect(provider.getState()).toMatchObject({
+        isAuthenticated: true,
+        isLoading: false,
+        error: null,
+      });
+    });
+
+    it("should send the PKCE verifier with the code", async () => {
+      const provider = createProvider();
+      await signIn(provider);
+
+      const exchange = tenant.requests.find(
+        (request) => request.body?.grant_type === "authorization_code",
+      );
+      expect(exchange?.body).toMatchObject({
+        client_id: CLIENT_ID,
+        redirect_uri: "http://localhost/auth/callback",
+      });
+      expect(exchange?.body?.code_verifier).toBeTruthy();
+    });
+
+    it("should reject a callback whose state has no pending login", async () => {
+      const provider = createProvider();
+      const authorizeUrl = await provider.loginWithRedirect();
+      const callback = tenant
+        .authorize(authorizeUrl)
+        .replace(/state=[^&]+/, "state=forged");
+
+      await expect(
+        provider.handleOAuthCallback(callback),
+      ).rejects.toMatchObject({ code: "invalid_oauth_state" });
+      expect(provider.getState().isAuthenticated).toBe(false);
+    });
+
+    it("should surface errors returned by Auth0", async () => {
+      const provider = createProvider();
+
+      await expect(
+        provider.handleOAuthCallback(
+          "http://localhost/auth/callback?error=access_denied&error_description=User%20cancelled",
+        ),
+      ).rejects.toEqual({ code: "access_denied", message: "User cancelled" });
+    });
+
+    it("should reject ID tokens issued for another login", async () => {
+      const provider = createProvider();
+      tenant.idTokenOverrides = { nonce: "replayed" };
+
+      await expect(signIn(provider)).rejects.toMatchObject({
+        code: "invalid_id_token",
+      });
+    });
+
+    it("should reject ID tokens for another audience", async () => {
+      const provider = createProvider();
+      tenant.idTokenOverrides = { aud: "another-client" };
+
+      await expect(signIn(provider)).rejects.toMatchObject({
+        code: "invalid_id_token",
+      });
+    });
+  });
+
+  // ============================================================================
+  // Refresh tokens
+  // ============================================================================
+
+  describe("refreshSession", () => {
+    it("should rotate the refresh token", async () => {
+      const provider = createProvider();
+      await signIn(provider);
+
+      const session = await provider.refreshSession();
+
+      expect(session?.token).toBe("access-3");
+      expect(session?.refreshToken).toBe("refresh-3");
+      expect(tenant.validRefreshTokens.has("refresh-2")).toBe(false);
+    });
+
+    it("should end the session when the refresh token is revoked", async () => {
+      const provider = createProvider();
+      await signIn(provider);
+      tenant.validRefreshTokens.clear();
+
+      await expect(provider.refreshSession()).rejects.toMatchObject({
+        code: "invalid_grant",
+      } satisfies Partial<IAuthError>);
+      expect(provider.getState().isAuthenticated).toBe(false);
+      expect(await provider.getCurrentSession()).toBeNull();
+    });
+
+    it("should refresh an expired session on initialize", async () => {
+      await signIn(createProvider());
+      const key = `auth0.${CLIENT_ID}.session`;
+      const stored = JSON.parse(storage.getItem(key) ?? "{}");
+      storage.setItem(key, JSON.stringify({ ...stored, expiresAt: 0 }));
+
+      const provider = createProvider();
+      await provider.initialize();
+
+      expect(provider.getState()).toMatchObject({
+        isAuthenticated: true,
+        isLoading: false,
+      });
+      expect(provider.getState().session?.token).toBe("access-3");
+    });
+  });
+
+  // ============================================================================
+  // Logout and passwords
+  // ============================================================================
+
+  describe("logout", () => {
+    it("should clear the session and redirect to /v2/logout", async () => {
+      const provider = createProvider();
+      await signIn(provider);
+
+      await provider.logout();
+
+      const url = new URL(
+        navigate.mock.calls[navigate.mock.calls.length - 1][0],
+      );
+      expect(`${url.origin}${url.pathname}`).toBe(`${ISSUER}v2/logout`);
+      expect(url.searchParams.get("client_id")).toBe(CLIENT_ID);
+      expect(url.searchParams.get("returnTo")).toBe("http://localhost/");
+      expect(provider.getState().isAuthenticated).toBe(false);
+      expect(await provider.getCurrentUser()).toBeNull();
+    });
+  });
+
+  describe("resetPassword", () => {
+    it("should request a change password email", async () => {
+      const provider = createProvider();
+
+      await provider.resetPassword({ email: "ada@example.com" });
+
+      expect(tenant.requests[tenant.requests.length - 1].body).toEqual({
+        client_id: CLIENT_ID,
+        email: "ada@example.com",
+        connection: "Username-Password-Authentication",
+      });
+    });
+  });
+});
@@ -0,0 +1,221 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import {
+  DeviceSessionOperations,
+  describeDevice,
+} from "@/shared/services/auth/providers/operations/device-session-operations";
+import { mapSupabaseError } from "@/shared/services/auth/providers/operations/mappers";
+import { StateManager } from "@/shared/services/auth/providers/operations/state-manager";
+import { useSessionStore } from "@/shared/stores/session.store";
+import { SESSION_REVOKED_ERROR, type IAuthSession } from "@/shared/types/auth";
+
+const CHROME_MAC =
+  "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Safari/537.36";
+const EDGE_WINDOWS =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Safari/537.36 Edg/129.0.0.0";
+const SAFARI_IPHONE =
+  "Mozilla/5.0 (iPhone; CPU iPhone OS 17_6 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.6 Mobile/15E148 Safari/604.1";
+
+const SESSION: IAuthSession = {
+  id: "session-1",
+  user: { id: "user-1", email: "ada@example.com" },
+  token: "access-token",
+};
+
+const rows = [
+  {
+    id: "session-1",
+    device: "Chrome on macOS",
+    user_agent: CHROME_MAC,
+    ip: "203.0.113.7",
+    created_at: "2026-10-01T09:00:00Z",
+    last_seen_at: "2026-10-18T10:00:00Z",
+    is_current: true,
+  },
+  {
+    id: "session-2",
+    device: null,
+    user_agent: SAFARI_IPHONE,
+    ip: null,
+    created_at: "2026-09-12T18:30:00Z",
+    last_seen_at: "2026-10-17T22:15:00Z",
+    is_current: false,
+  },
+];
+
+// The RPCs of migration 010_user_sessions and the sign-out scopes
+const createClient = (
+  results: Record<string, { data: unknown; error: unknown }>,
+): {
+  client: SupabaseClient;
+  rpc: jest.Mock;
+  signOut: jest.Mock;
+} => {
+  const rpc = jest.fn(async (name: string) => results[name]);
+  const signOut = jest.fn(async () => ({ error: null }));
+  const client = { rpc, auth: { signOut } } as unknown as SupabaseClient;
+  return { client, rpc, signOut };
+};
+
+describe("DeviceSessionOperations", () => {
+  let stateManager: StateManager;
+
+  const createOperations = (
+    results: Record<string, { data: unknown; error: unknown }>,
+  ): ReturnType<typeof createClient> & { devices: DeviceSessionOperations } => {
+    const created = createClient(results);
+    const devices = new DeviceSessionOperations(
+      created.client,
+      stateManager,
+      mapSupabaseError,
+    );
+    return { ...created, devices };
+  };
+
+  beforeEach(() => {
+    stateManager = new StateManager();
+    stateManager.setState({ session: SESSION, isAuthenticated: true });
+  });
+
+  describe("describeDevice", () => {
+    it("should name the browser and the system", () => {
+      expect(describeDevice(CHROME_MAC)).toBe("Chrome on macOS");
+      expect(describeDevice(EDGE_WINDOWS)).toBe("Edge on Windows");
+      expect(describeDevice(SAFARI_IPHONE)).toBe("Safari on iOS");
+    });
+
+    it("should return null for an unknown or missing user agent", () => {
+      expect(describeDevice("curl/8.4.0")).toBeNull();
+      expect(describeDevice(null)).toBeNull();
+    });
+  });
+
+  describe("list", () => {
+    it("should record this device, then list every session", async () => {
+      const { devices, rpc } = createOperations({
+        touch_session: { data: true, error: null },
+        list_active_sessions: { data: rows, error: null },
+      });
+
+      const sessions = await devices.list();
+
+      expect(rpc.mock.calls.map(([name]) => name)).toEqual([
+        "touch_session",
+        "list_active_sessions",
+      ]);
+      expect(sessions).toEqual([
+        expect.objectContaining({
+          id: "session-1",
+          device: "Chrome on macOS",
+          ip: "203.0.113.7",
+          current: true,
+        }),
+        expect.objectContaining({
+          id: "session-2",
+          device: "Safari on iOS",
+          ip: null,
+          current: false,
+          lastSeenAt: new Date("2026-10-17T22:15:00Z"),
+        }),
+      ]);
+    });
+
+    it("should sign out locally when this session was revoked elsewhere", async () => {
+      const { devices, signOut } = createOperations({
+        touch_session: { data: false, error: null },
+      });
+
+      expect(await devices.list()).toEqual([]);
+      expect(signOut).toHaveBeenCalledWith({ scope: "local" });
+      expect(stateManager.getState()).toMatchObject({
+        session: null,
+        isAuthenticated: false,
+        error: { code: SESSION_REVOKED_ERROR },
+      });
+    });
+
+    it("should still list when the device cannot be recorded", async () => {
+      const { devices } = createOperations({
+        touch_session: { data: null, error: { code: "PGRST202" } },
+        list_active_sessions: { data: rows, error: null },
+      });
+
+      expect(await devices.list()).toHaveLength(2);
+      expect(stateManager.getState().isAuthenticated).toBe(true);
+    });
+  });
+
+  describe("revoke", () => {
+    it("should revoke another session and stay signed in", async () => {
+      const { devices, rpc, signOut } = createOperations({
+        revoke_session: { data: false, error: null },
+      });
+
+      await devices.revoke("session-2");
+
+      expect(rpc).toHaveBeenCalledWith("revoke_session", {
+        session_id: "session-2",
+      });
+      expect(signOut).not.toHaveBeenCalled();
+      expect(stateManager.getState().isAuthenticated).toBe(true);
+    });
+
+    it("should end this browser's session when revoking it", async () => {
+      const { devices, signOut } = createOperations({
+        revoke_session: { data: true, error: null },
+      });
+
+      await devices.revoke("session-1");
+
+      expect(signOut).toHaveBeenCalledWith({ scope: "local" });
+      expect(stateManager.getState().error?.code).toBe(SESSION_REVOKED_ERROR);
+    });
+
+    it("should reject with an auth error when the session is unknown", async () => {
+      const { devices } = createOperations({
+        revoke_session: {
+          data: null,
+          error: { code: "P0002", message: "Session not found" },
+        },
+      });
+
+      await expect(devices.revoke("session-9")).rejects.toMatchObject({
+        code: "P0002",
+        message: "Session not found",
+      });
+    });
+
+    it("should revoke every other session through Supabase", async () => {
+      const { devices, signOut } = createOperations({});
+
+      await devices.revokeOthers();
+
+      expect(signOut).toHaveBeenCalledWith({ scope: "others" });
+    });
+  });
+
+  describe("useSessionStore devices", () => {
+    it("should drop revoked devices from the list", () => {
+      const store = useSessionStore.getState();
+      store.setDevices(
+        rows.map((row) => ({
+          id: row.id,
+          device: row.device,
+          userAgent: row.user_agent,
+          ip: row.ip,
+          createdAt: new Date(row.created_at),
+          lastSeenAt: new Date(row.last_seen_at),
+          current: row.is_current,
+        })),
+      );
+
+      useSessionStore.getState().removeOtherDevices();
+
+      expect(useSessionStore.getState().devices.map(({ id }) => id)).toEqual([
+        "session-1",
+      ]);
+      useSessionStore.getState().destroySession();
+      expect(useSessionStore.getState().devices).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,342 @@
+import {
+  EdgeSessionVerifier,
+  JwtError,
+  SESSION_COOKIE_NAME,
+  encodeChunkedCookie,
+  readChunkedCookie,
+  signJwt,
+  verifyJwt,
+  type IJwtClaims,
+  type IStoredSession,
+} from "@/shared/services/auth/session";
+import { logger } from "@/shared/services/logger";
+
+import {
+  FakeOidcIssuer,
+  base64Url,
+  installWebCrypto,
+  type IFakeResponse,
+} from "./fake-oidc-issuer";
+
+const SUPABASE_URL = "https://project.supabase.co";
+const ISSUER = `${SUPABASE_URL}/auth/v1`;
+const SECRET = "super-secret-jwt-token-with-at-least-32-characters";
+const NOW = Date.parse("2026-10-18T10:00:00Z");
+
+const claims = (overrides: IJwtClaims = {}): IJwtClaims => ({
+  sub: "user-1",
+  iss: ISSUER,
+  aud: "authenticated",
+  exp: NOW / 1000 + 3600,
+  user_roles: ["admin"],
+  ...overrides,
+});
+
+// Signed with nothing: only the header and claims matter
+const forge = (header: Record<string, unknown>, body: IJwtClaims): string =>
+  [header, body]
+    .map((part) => base64Url(JSON.stringify(part)))
+    .concat("signature")
+    .join(".");
+
+const respond = (status: number, body: unknown = {}): IFakeResponse => ({
+  ok: status < 400,
+  status,
+  json: async () => body,
+  text: async () => JSON.stringify(body),
+});
+
+// Supabase's refresh endpoint: answers with `refreshed`, or fails
+const createAuthServer = (
+  refreshed: () => Promise<IFakeResponse>,
+): { fetch: typeof fetch; urls: string[] } => {
+  const urls: string[] = [];
+  const serve = (async (input: string) => {
+    urls.push(input);
+    return input.endsWith("grant_type=refresh_token")
+      ? refreshed()
+      : respond(404);
+  }) as unknown as typeof fetch;
+  return { fetch: serve, urls };
+};
+
+const stored = (accessToken: string): IStoredSession => ({
+  access_token: accessToken,
+  refresh_token: "refresh-1",
+});
+
+beforeAll(() => {
+  installWebCrypto();
+});
+
+describe("JWT verification", () => {
+  const verify = (token: string): Promise<IJwtClaims> =>
+    verifyJwt(token, {
+      secret: SECRET,
+      issuer: ISSUER,
+      audience: "authenticated",
+      now: NOW,
+    });
+
+  it("should verify HS256 signatures, issuer and audience", async () => {
+    const token = await signJwt(claims(), SECRET);
+
+    await expect(verify(token)).resolves.toMatchObject({ sub: "user-1" });
+  });
+
+  it("should reject tampered, expired and misdirected tokens", async () => {
+    const [head, , signature] = (await signJwt(claims(), SECRET)).split(".");
+    const tampered = [
+      head,
+      base64Url(JSON.stringify(claims({ user_roles: ["super_admin"] }))),
+      signature,
+    ].join(".");
+
+    await expect(verify(tampered)).rejects.toMatchObject({
+      code: "invalid_signature",
+    });
+    await expect(
+      verify(await signJwt(claims({ exp: NOW / 1000 - 1 }), SECRET)),
+    ).rejects.toMatchObject({ code: "expired" });
+    await expect(
+      verify(await signJwt(claims({ iss: "https://evil.test" }), SECRET)),
+    ).rejects.toMatchObject({ code: "invalid_claims" });
+    await expect(
+      verify(await signJwt(claims({ aud: "service_role" }), SECRET)),
+    ).rejects.toMatchObject({ code: "invalid_claims" });
+  });
+
+  it("should refuse algorithms it does not know, Object keys included", async () => {
+    for (const alg of ["none", "constructor", "__proto__", "toString"]) {
+      const error = await verify(forge({ alg }, claims())).catch((e) => e);
+
+      expect(error).toBeInstanceOf(JwtError);
+      expect(error.code).toBe("unsupported_algorithm");
+    }
+  });
+});
+
+const RSA = {
+  name: "RSASSA-PKCS1-v1_5",
+  modulusLength: 2048,
+  publicExponent: new Uint8Array([1, 0, 1]),
+  hash: "SHA-256",
+};
+
+// An RS256 token without a kid, and its public key
+const signRs256 = async (): Promise<{ token: string; jwk: JsonWebKey }> => {
+  const pair = await crypto.subtle.generateKey(RSA, true, ["sign", "verify"]);
+  const signingInput = [{ alg: "RS256", typ: "JWT" }, claims()]
+    .map((part) => base64Url(JSON.stringify(part)))
+    .join(".");
+  const signature = await crypto.subtle.sign(
+    RSA.name,
+    pair.privateKey,
+    new TextEncoder().encode(signingInput),
+  );
+  return {
+    token: `${signingInput}.${base64Url(signature)}`,
+    jwk: await crypto.subtle.exportKey("jwk", pair.publicKey),
+  };
+};
+
+describe("JWT verification keys", () => {
+  it("should pick a key of the token's type when it has no kid", async () => {
+    const ec = await crypto.subtle.generateKey(
+      { name: "ECDSA", namedCurve: "P-256" },
+      true,
+      ["sign", "verify"],
+    );
+    const { token, jwk } = await signRs256();
+    const keys = [await crypto.subtle.exportKey("jwk", ec.publicKey), jwk];
+
+    await expect(
+      verifyJwt(token, { keys, issuer: ISSUER, now: NOW }),
+    ).resolves.toMatchObject({ sub: "user-1" });
+    await expect(
+      verifyJwt(token, { keys: keys.slice(0, 1), now: NOW }),
+    ).rejects.toMatchObject({ code: "key_not_found" });
+  });
+
+  it("should report undecodable signatures and unusable keys as JwtErrors", async () => {
+    const [head, payload] = (await signJwt(claims(), SECRET)).split(".");
+    const garbled = await verifyJwt(`${head}.${payload}.%%%`, {
+      secret: SECRET,
+      now: NOW,
+    }).catch((error) => error);
+    const badKey = await verifyJwt(forge({ alg: "RS256" }, claims()), {
+      keys: [{ kty: "RSA", e: "AQAB" }],
+      now: NOW,
+    }).catch((error) => error);
+
+    expect(garbled).toBeInstanceOf(JwtError);
+    expect(garbled.code).toBe("malformed");
+    expect(badKey).toBeInstanceOf(JwtError);
+    expect(badKey.code).toBe("key_not_found");
+  });
+});
+
+describe("EdgeSessionVerifier", () => {
+  let logged: jest.SpyInstance;
+
+  beforeEach(() => {
+    logged = jest.spyOn(logger, "error").mockImplementation(() => undefined);
+  });
+
+  it("should accept a valid HS256 session without calling Supabase", async () => {
+    const server = createAuthServer(async () => respond(500));
+    const verifier = new EdgeSessionVerifier({
+      supabaseUrl: SUPABASE_URL,
+      anonKey: "anon-key",
+      jwtSecret: SECRET,
+      fetch: server.fetch,
+    });
+
+    const result = await verifier.verify(
+      stored(await signJwt(claims(), SECRET)),
+      NOW,
+    );
+
+    expect(result).toMatchObject({
+      status: "valid",
+      claims: { sub: "user-1" },
+    });
+    expect(server.urls).toEqual([]);
+  });
+
+  it("should verify RS256 sessions against the cached project JWKS", async () => {
+    const issuer = new FakeOidcIssuer({
+      issuer: ISSUER,
+      clientId: "authenticated",
+      tokenPath: "/auth/v1/token",
+      jwksPath: "/auth/v1/.well-known/jwks.json",
+    });
+    await issuer.setup();
+    const verifier = new EdgeSessionVerifier({
+      supabaseUrl: SUPABASE_URL,
+      anonKey: "anon-key",
+      fetch: issuer.fetch,
+    });
+    const token = await issuer.signIdToken(claims());
+
+    expect((await verifier.verify(stored(token), NOW)).status).toBe("valid");
+    expect((await verifier.verify(stored(token), NOW)).status).toBe("valid");
+    expect(issuer.requests).toHaveLength(1);
+  });
+
+  it("should treat wrong-issuer and wrong-audience sessions as invalid", async () => {
+    const verifier = new EdgeSessionVerifier({
+      supabaseUrl: SUPABASE_URL,
+      anonKey: "anon-key",
+      jwtSecret: SECRET,
+      fetch: createAuthServer(async () => respond(400)).fetch,
+    });
+
+    for (const overrides of [
+      { iss: "https://other.supabase.co/auth/v1" },
+      { aud: "anon" },
+    ]) {
+      const token = await signJwt(claims(overrides), SECRET);
+
+      expect(await verifier.verify(stored(token), NOW)).toEqual({
+        status: "invalid",
+        claims: null,
+      });
+    }
+  });
+
+  it("should refresh a token about to expire", async () => {
+    const fresh = await signJwt(claims({ exp: NOW / 1000 + 3600 }), SECRET);
+    const server = createAuthServer(async () =>
+      respond(200, {
+        access_token: fresh,
+        refresh_token: "refresh-2",
+        expires_in: 3600,
+      }),
+    );
+    const verifier = new EdgeSessionVerifier({
+      supabaseUrl: SUPABASE_URL,
+      anonKey: "anon-key",
+      jwtSecret: SECRET,
+      fetch: server.fetch,
+    });
+    const expiring = await signJwt(claims({ exp: NOW / 1000 + 30 }), SECRET);
+
+    const result = await verifier.verify(stored(expiring), NOW);
+
+    expect(result.status).toBe("refreshed");
+    expect(result.session).toMatchObject({
+      access_token: fresh,
+      refresh_token: "refresh-2",
+      expires_at: NOW / 1000 + 3600,
+    });
+  });
+
+  it("should keep a still-valid token when the refresh is rejected", async () => {
+    const verifier = new EdgeSessionVerifier({
+      supabaseUrl: SUPABASE_URL,
+      anonKey: "anon-key",
+      jwtSecret: SECRET,
+      fetch: createAuthServer(async () => respond(400)).fetch,
+    });
+
+    const expiring = await signJwt(claims({ exp: NOW / 1000 + 30 }), SECRET);
+    const expired = await signJwt(claims({ exp: NOW / 1000 - 30 }), SECRET);
+
+    expect((await verifier.verify(stored(expiring), NOW)).status).toBe("valid");
+    expect((await verifier.verify(stored(expired), NOW)).status).toBe(
+      "invalid",
+    );
+  });
+
+  it("should report Supabase outages instead of invalidating the session", async () => {
+    const verifier = new EdgeSessionVerifier({
+      supabaseUrl: SUPABASE_URL,
+      anonKey: "anon-key",
+      jwtSecret: SECRET,
+      fetch: createAuthServer(async () => respond(503)).fetch,
+    });
+    const expired = await signJwt(claims({ exp: NOW / 1000 - 30 }), SECRET);
+
+    expect((await verifier.verify(stored(expired), NOW)).status).toBe(
+      "unavailable",
+    );
+    expect(logged).toHaveBeenCalledWith(
+      "Session verification unavailable",
+      "middleware",
+      expect.objectContaining({ error: expect.any(Error) }),
+    );
+  });
+
+  it("should treat a garbled cookie as invalid, not as an outage", async () => {
+    const verifier = new EdgeSessionVerifier({
+      supabaseUrl: SUPABASE_URL,
+      anonKey: "anon-key",
+      jwtSecret: SECRET,
+      fetch: createAuthServer(async () => respond(400)).fetch,
+    });
+    const [head, payload] = (await signJwt(claims(), SECRET)).split(".");
+
+    expect(
+      (await verifier.verify(stored(`${head}.${payload}.%%%`), NOW)).status,
+    ).toBe("invalid");
+    expect(logged).not.toHaveBeenCalled();
+  });
+});
+
+describe("chunked session cookie", () => {
+  it("should split large values without cutting escapes and join them back", () => {
+    const value = JSON.stringify({ access_token: "é".repeat(4000) });
+    const cookies = encodeChunkedCookie(SESSION_COOKIE_NAME, value);
+    const jar = new Map(cookies.map(({ name, value: chunk }) => [name, chunk]));
+
+    expect(cookies.length).toBeGreaterThan(1);
+    expect(cookies.map(({ name }) => name)).toEqual(
+      cookies.map((_, index) => `${SESSION_COOKIE_NAME}.${index}`),
+    );
+    cookies.forEach(({ value: chunk }) => expect(chunk).not.toMatch(/%.?$/));
+    expect(
+      readChunkedCookie(SESSION_COOKIE_NAME, (name) => jar.get(name)),
+    ).toBe(value);
+  });
+});
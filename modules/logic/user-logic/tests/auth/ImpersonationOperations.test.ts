@@ -0,0 +1,144 @@
+import type { Session, SupabaseClient } from "@supabase/supabase-js";
+
+import {
+  ImpersonationOperations,
+  assertNotImpersonating,
+} from "@/shared/services/auth/providers/operations/impersonation-operations";
+import { mapSupabaseError } from "@/shared/services/auth/providers/operations/mappers";
+import type { IAuthSession } from "@/shared/types/auth";
+
+const session = (accessToken: string, refreshToken: string): Session =>
+  ({
+    access_token: accessToken,
+    refresh_token: refreshToken,
+    user: { id: accessToken },
+  }) as unknown as Session;
+
+const mapSession = (issued: Session): IAuthSession => ({
+  user: { id: issued.user.id, email: "" },
+  token: issued.access_token,
+});
+
+const respond = (status: number, body: unknown): Response =>
+  ({
+    ok: status < 400,
+    status,
+    json: async () => body,
+  }) as Response;
+
+// Browser client holding the admin's session, the impersonation API and
+// the origin storage shared by the tabs
+const createOperations = (response: Response) => {
+  const stored = new Map<string, string>();
+  const storage = {
+    getItem: (key: string): string | null => stored.get(key) ?? null,
+    setItem: (key: string, value: string): void => void stored.set(key, value),
+    removeItem: (key: string): void => void stored.delete(key),
+  };
+  const auth = {
+    getSession: jest.fn(async () => ({
+      data: { session: session("current-token", "current-refresh") },
+    })),
+    setSession: jest.fn(async () => ({
+      data: { session: session("customer-token", "customer-refresh") },
+      error: null,
+    })),
+    refreshSession: jest.fn(async () => ({
+      data: { session: session("admin-token", "admin-refresh") },
+      error: null,
+    })),
+    signOut: jest.fn(async () => ({ error: null })),
+  };
+  const fetch = jest.fn(async () => response);
+  const operations = new ImpersonationOperations(
+    { auth } as unknown as SupabaseClient,
+    mapSession,
+    mapSupabaseError,
+    { storage, fetch: fetch as unknown as typeof globalThis.fetch },
+  );
+  return { operations, auth, fetch, stored };
+};
+
+describe("ImpersonationOperations", () => {
+  it("should swap to the customer's session and keep the admin's", async () => {
+    const { operations, auth, fetch, stored } = createOperations(
+      respond(200, {
+        accessToken: "customer-token",
+        refreshToken: "customer-refresh",
+      }),
+    );
+
+    const started = await operations.start("user-1", "Ticket #42");
+
+    expect(fetch).toHaveBeenCalledWith("/api/admin/impersonation", {
+      method: "POST",
+      headers: {
+        Authorization: "Bearer current-token",
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ userId: "user-1", reason: "Ticket #42" }),
+    });
+    expect(auth.setSession).toHaveBeenCalledWith({
+      access_token: "customer-token",
+      refresh_token: "customer-refresh",
+    });
+    expect(started.token).toBe("customer-token");
+    expect([...stored.values()]).toEqual(["current-refresh"]);
+  });
+
+  it("should keep the admin's session when the API refuses", async () => {
+    const { operations, auth, stored } = createOperations(
+      respond(403, { code: "forbidden", message: "Missing permission" }),
+    );
+
+    await expect(operations.start("user-1", "Ticket #42")).rejects.toEqual(
+      expect.objectContaining({ code: "forbidden" }),
+    );
+    expect(auth.setSession).not.toHaveBeenCalled();
+    expect(stored.size).toBe(0);
+  });
+
+  it("should end the impersonation and restore the admin", async () => {
+    const { operations, auth, fetch, stored } = createOperations(
+      respond(200, { impersonation: { id: "audit-1" } }),
+    );
+    stored.set("auth-impersonation-origin", "admin-origin");
+
+    const restored = await operations.stop();
+
+    expect(fetch).toHaveBeenCalledWith(
+      "/api/admin/impersonation",
+      expect.objectContaining({ method: "DELETE" }),
+    );
+    expect(auth.refreshSession).toHaveBeenCalledWith({
+      refresh_token: "admin-origin",
+    });
+    expect(restored?.token).toBe("admin-token");
+    expect(stored.size).toBe(0);
+  });
+
+  it("should sign out when the admin's session cannot be restored", async () => {
+    const { operations, auth } = createOperations(respond(200, {}));
+
+    expect(await operations.stop()).toBeNull();
+    expect(auth.signOut).toHaveBeenCalledWith({ scope: "local" });
+  });
+
+  it("should forbid password changes while impersonating", () => {
+    const impersonated: IAuthSession = {
+      user: { id: "user-1", email: "ada@example.com" },
+      token: "customer-token",
+      impersonator: {
+        id: "admin-1",
+        email: "root@example.com",
+        impersonationId: "audit-1",
+        startedAt: new Date(),
+      },
+    };
+
+    expect(() => assertNotImpersonating(impersonated)).toThrow(
+      expect.objectContaining({ code: "impersonation_forbidden" }),
+    );
+    expect(() => assertNotImpersonating(null)).not.toThrow();
+  });
+});
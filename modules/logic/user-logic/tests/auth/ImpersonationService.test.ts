@@ -0,0 +1,230 @@
+import { TextDecoder } from "util";
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { ImpersonationService } from "@/shared/services/auth/impersonation";
+
+const ADMIN = { id: "admin-1", email: "root@example.com" };
+const TARGET = { id: "user-1", email: "ada@example.com" };
+
+// Unsigned tokens: the service only reads their claims after getUser
+const jwt = (claims: Record<string, unknown>): string =>
+  [{ alg: "HS256", typ: "JWT" }, claims]
+    .map((part) => Buffer.from(JSON.stringify(part)).toString("base64url"))
+    .concat("signature")
+    .join(".");
+
+const ADMIN_TOKEN = jwt({ sub: ADMIN.id, session_id: "admin-session" });
+const MINTED_TOKEN = jwt({ sub: TARGET.id, session_id: "minted-session" });
+const IMPERSONATED_TOKEN = jwt({
+  sub: TARGET.id,
+  session_id: "minted-session",
+  impersonator: { id: ADMIN.id, impersonation_id: "audit-1" },
+});
+
+const auditRow = {
+  id: "audit-1",
+  admin_id: ADMIN.id,
+  admin_email: ADMIN.email,
+  target_user_id: TARGET.id,
+  target_email: TARGET.email,
+  session_id: "minted-session",
+  reason: "Ticket #42",
+  started_at: "2026-10-18T10:00:00Z",
+  ended_at: null,
+};
+
+interface IFakeOptions {
+  allowed?: boolean;
+  auditError?: unknown;
+}
+
+// The service-role client (auth admin, RPC, audit table) and the
+// throwaway anon client that verifies the magic link
+const createFakes = ({ allowed = true, auditError = null }: IFakeOptions) => {
+  // Chainable like the PostgREST builder
+  const query: Record<string, jest.Mock> = {};
+  const chain = (): typeof query => query;
+  Object.assign(query, {
+    insert: jest.fn(chain),
+    update: jest.fn(chain),
+    eq: jest.fn(chain),
+    is: jest.fn(chain),
+    select: jest.fn(chain),
+    single: jest.fn(async () => ({
+      data: auditError ? null : auditRow,
+      error: auditError,
+    })),
+  });
+  const admin = {
+    auth: {
+      getUser: jest.fn(async (token: string) => ({
+        data: { user: token === ADMIN_TOKEN ? ADMIN : TARGET },
+        error: null,
+      })),
+      admin: {
+        getUserById: jest.fn(async (id: string) =>
+          id === TARGET.id
+            ? { data: { user: TARGET }, error: null }
+            : { data: { user: null }, error: { status: 404 } },
+        ),
+        generateLink: jest.fn(async () => ({
+          data: { properties: { hashed_token: "link-hash" } },
+          error: null,
+        })),
+        signOut: jest.fn(async () => ({ error: null })),
+      },
+    },
+    rpc: jest.fn(async () => ({ data: allowed, error: null })),
+    from: jest.fn(() => query),
+  };
+  const anon = {
+    auth: {
+      verifyOtp: jest.fn(async () => ({
+        data: {
+          session: { access_token: MINTED_TOKEN, refresh_token: "minted" },
+        },
+        error: null,
+      })),
+      refreshSession: jest.fn(async () => ({
+        data: {
+          session: {
+            access_token: IMPERSONATED_TOKEN,
+            refresh_token: "impersonated",
+          },
+        },
+        error: null,
+      })),
+    },
+  };
+  const service = new ImpersonationService(
+    admin as unknown as SupabaseClient,
+    () => anon as unknown as SupabaseClient,
+  );
+  return { service, admin, anon, query };
+};
+
+describe("ImpersonationService", () => {
+  // jsdom has no TextDecoder, which decodeJwt needs
+  beforeAll(() => {
+    Object.assign(globalThis, { TextDecoder });
+  });
+
+  describe("start", () => {
+    it("should audit the impersonation and issue the customer's session", async () => {
+      const { service, admin, anon, query } = createFakes({});
+
+      const grant = await service.start(ADMIN_TOKEN, TARGET.id, " Ticket #42 ");
+
+      expect(admin.rpc).toHaveBeenCalledWith("user_has_permission", {
+        user_id: ADMIN.id,
+        permission_name: "system.impersonate",
+      });
+      expect(anon.auth.verifyOtp).toHaveBeenCalledWith({
+        token_hash: "link-hash",
+        type: "magiclink",
+      });
+      expect(admin.from).toHaveBeenCalledWith("impersonation_audit");
+      expect(query.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          admin_id: ADMIN.id,
+          target_user_id: TARGET.id,
+          session_id: "minted-session",
+          reason: "Ticket #42",
+        }),
+      );
+      // The token handed out is the one re-issued after the audit row
+      expect(grant).toMatchObject({
+        accessToken: IMPERSONATED_TOKEN,
+        refreshToken: "impersonated",
+        impersonation: { id: "audit-1", targetEmail: TARGET.email },
+      });
+    });
+
+    it("should refuse admins without system.impersonate", async () => {
+      const { service, admin } = createFakes({ allowed: false });
+
+      await expect(
+        service.start(ADMIN_TOKEN, TARGET.id, "Ticket #42"),
+      ).rejects.toMatchObject({ code: "forbidden" });
+      expect(admin.auth.admin.generateLink).not.toHaveBeenCalled();
+    });
+
+    it("should refuse to chain impersonations", async () => {
+      const { service } = createFakes({});
+
+      await expect(
+        service.start(IMPERSONATED_TOKEN, "user-2", "Ticket #42"),
+      ).rejects.toMatchObject({ code: "forbidden" });
+    });
+
+    it("should require a reason and another user", async () => {
+      const { service } = createFakes({});
+
+      await expect(
+        service.start(ADMIN_TOKEN, TARGET.id, "  "),
+      ).rejects.toMatchObject({ code: "invalid_request" });
+      await expect(
+        service.start(ADMIN_TOKEN, ADMIN.id, "Ticket #42"),
+      ).rejects.toMatchObject({ code: "invalid_request" });
+      await expect(
+        service.start(ADMIN_TOKEN, "missing", "Ticket #42"),
+      ).rejects.toMatchObject({ code: "not_found" });
+    });
+
+    it("should revoke the minted session when the audit fails", async () => {
+      const { service, admin, anon } = createFakes({
+        auditError: { code: "42501" },
+      });
+
+      await expect(
+        service.start(ADMIN_TOKEN, TARGET.id, "Ticket #42"),
+      ).rejects.toMatchObject({ code: "impersonation_failed" });
+      expect(admin.auth.admin.signOut).toHaveBeenCalledWith(
+        MINTED_TOKEN,
+        "local",
+      );
+      expect(anon.auth.refreshSession).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("stop", () => {
+    it("should close the audit row and end the impersonated session", async () => {
+      const { service, admin, query } = createFakes({});
+
+      const record = await service.stop(IMPERSONATED_TOKEN);
+
+      expect(query.update).toHaveBeenCalledWith(
+        expect.objectContaining({ ended_at: expect.any(String) }),
+      );
+      expect(query.eq).toHaveBeenCalledWith("id", "audit-1");
+      expect(query.is).toHaveBeenCalledWith("ended_at", null);
+      expect(admin.auth.admin.signOut).toHaveBeenCalledWith(
+        IMPERSONATED_TOKEN,
+        "local",
+      );
+      expect(record.id).toBe("audit-1");
+    });
+
+    it("should reject sessions that are not impersonated", async () => {
+      const { service, admin } = createFakes({});
+
+      await expect(service.stop(ADMIN_TOKEN)).rejects.toMatchObject({
+        code: "invalid_request",
+      });
+      expect(admin.auth.admin.signOut).not.toHaveBeenCalled();
+    });
+
+    it("should reject invalid tokens", async () => {
+      const { service, admin } = createFakes({});
+      admin.auth.getUser.mockResolvedValueOnce({
+        data: { user: null },
+        error: { status: 401 },
+      } as never);
+
+      await expect(service.stop(IMPERSONATED_TOKEN)).rejects.toMatchObject({
+        code: "unauthorized",
+      });
+    });
+  });
+});
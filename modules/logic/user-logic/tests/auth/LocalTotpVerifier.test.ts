@@ -0,0 +1,117 @@
+import {
+  LocalTotpVerifier,
+  generateTotpCode,
+  verifyTotpCode,
+} from "@/shared/services/auth/mfa";
+
+import { installWebCrypto } from "./fake-oidc-issuer";
+
+const PERIOD_MS = 30 * 1000;
+// The start of a time step, so drift lands on whole steps
+const START =
+  Math.floor(Date.parse("2026-10-18T10:00:00Z") / PERIOD_MS) * PERIOD_MS;
+
+describe("LocalTotpVerifier", () => {
+  let now: number;
+  let verifier: LocalTotpVerifier;
+
+  // Enrolled factor and a fresh challenge for each code
+  const enroll = async (): Promise<{
+    secret: string;
+    submit: (code: string) => Promise<string>;
+  }> => {
+    const { factorId, secret } = await verifier.enrollTotp("Phone");
+    const submit = async (code: string): Promise<string> => {
+      const { id } = await verifier.challenge(factorId);
+      return verifier.verify(factorId, id, code);
+    };
+    return { secret, submit };
+  };
+
+  beforeAll(() => {
+    installWebCrypto();
+  });
+
+  beforeEach(() => {
+    now = START;
+    verifier = new LocalTotpVerifier({
+      now: (): number => now,
+      challengeTtlMs: 60000,
+    });
+  });
+
+  it("should accept a current code and raise the session to aal2", async () => {
+    const { secret, submit } = await enroll();
+
+    await expect(submit(await generateTotpCode(secret, now))).resolves.toBe(
+      "aal2",
+    );
+    expect(await verifier.getAssuranceLevel()).toEqual({
+      current: "aal2",
+      next: "aal2",
+    });
+  });
+
+  it("should refuse a code already used", async () => {
+    const { secret, submit } = await enroll();
+    const code = await generateTotpCode(secret, now);
+    await submit(code);
+
+    await expect(submit(code)).rejects.toMatchObject({
+      code: "mfa_verification_failed",
+    });
+  });
+
+  it("should refuse a code from the next step once that step arrives", async () => {
+    const { secret, submit } = await enroll();
+    const ahead = await generateTotpCode(secret, now + PERIOD_MS);
+
+    await expect(submit(ahead)).resolves.toBe("aal2");
+    now += PERIOD_MS;
+    await expect(submit(ahead)).rejects.toMatchObject({
+      code: "mfa_verification_failed",
+    });
+  });
+
+  it("should accept one step of drift but never go back in time", async () => {
+    const { secret, submit } = await enroll();
+    const previous = await generateTotpCode(secret, now - PERIOD_MS);
+    const current = await generateTotpCode(secret, now);
+
+    await expect(submit(current)).resolves.toBe("aal2");
+    await expect(submit(previous)).rejects.toMatchObject({
+      code: "mfa_verification_failed",
+    });
+    expect(await verifyTotpCode(secret, previous, { timestamp: now })).toBe(
+      START / PERIOD_MS - 1,
+    );
+    expect(
+      await verifyTotpCode(
+        secret,
+        await generateTotpCode(secret, now - 2 * PERIOD_MS),
+        { timestamp: now },
+      ),
+    ).toBeNull();
+  });
+
+  it("should refuse expired and already used challenges", async () => {
+    const { factorId, secret } = await verifier.enrollTotp();
+    const expiring = await verifier.challenge(factorId);
+    now += 61000;
+
+    await expect(
+      verifier.verify(
+        factorId,
+        expiring.id,
+        await generateTotpCode(secret, now),
+      ),
+    ).rejects.toMatchObject({ code: "mfa_challenge_expired" });
+    await expect(
+      verifier.verify(
+        factorId,
+        expiring.id,
+        await generateTotpCode(secret, now),
+      ),
+    ).rejects.toMatchObject({ code: "mfa_challenge_not_found" });
+  });
+});
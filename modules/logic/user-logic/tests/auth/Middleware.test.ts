@@ -0,0 +1,263 @@
+import { clearImmediate, setImmediate } from "timers";
+
+import type { NextRequest, NextResponse } from "next/server";
+
+import { redirects } from "@/config/routes";
+import {
+  SESSION_COOKIE_NAME,
+  encodeChunkedCookie,
+  signJwt,
+  type IJwtClaims,
+} from "@/shared/services/auth/session";
+import { TOKEN_PRINCIPAL_HEADER } from "@/shared/services/auth/tokens";
+import { logger } from "@/shared/services/logger";
+
+import { installWebCrypto } from "./fake-oidc-issuer";
+
+const SUPABASE_URL = "https://project.supabase.co";
+const SECRET = "super-secret-jwt-token-with-at-least-32-characters";
+const APP_URL = "https://app.test";
+
+type Middleware = (request: NextRequest) => Promise<NextResponse>;
+
+let middleware: Middleware;
+let createRequest: (
+  path: string,
+  cookies?: Record<string, string>,
+  headers?: Record<string, string>,
+) => NextRequest;
+// Supabase's refresh endpoint, answered per test
+let refresh: jest.Mock;
+
+// jsdom has no fetch primitives: load the edge runtime's, as the
+// middleware would run on them
+const installEdgeRuntime = (): void => {
+  installWebCrypto();
+  Object.assign(globalThis, { setImmediate, clearImmediate });
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  const primitives = require("next/dist/compiled/@edge-runtime/primitives");
+  Object.assign(globalThis, {
+    Headers: primitives.Headers,
+    Request: primitives.Request,
+    Response: primitives.Response,
+  });
+};
+
+const claims = (overrides: IJwtClaims = {}): IJwtClaims => ({
+  sub: "user-1",
+  iss: `${SUPABASE_URL}/auth/v1`,
+  aud: "authenticated",
+  exp: Math.floor(Date.now() / 1000) + 3600,
+  user_roles: ["member"],
+  ...overrides,
+});
+
+const sessionCookies = async (
+  overrides: IJwtClaims = {},
+  padding = 0,
+): Promise<Record<string, string>> => {
+  const session = {
+    access_token: await signJwt(claims(overrides), SECRET),
+    refresh_token: "refresh-1",
+    user: { id: "user-1", bio: "x".repeat(padding) },
+  };
+  return Object.fromEntries(
+    encodeChunkedCookie(SESSION_COOKIE_NAME, JSON.stringify(session)).map(
+      ({ name, value }) => [name, value],
+    ),
+  );
+};
+
+beforeAll(async () => {
+  installEdgeRuntime();
+  process.env.NEXT_PUBLIC_SUPABASE_URL = SUPABASE_URL;
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY = "anon-key";
+  process.env.SUPABASE_JWT_SECRET = SECRET;
+
+  // After the runtime exists, and with only the Supabase settings set
+  ({ middleware } = await import("@/middleware"));
+  const { NextRequest } = await import("next/server");
+  createRequest = (path, cookies = {}, headers = {}): NextRequest =>
+    new NextRequest(`${APP_URL}${path}`, {
+      headers: {
+        ...headers,
+        cookie: Object.entries(cookies)
+          .map(([name, value]) => `${name}=${value}`)
+          .join("; "),
+      },
+    });
+});
+
+beforeEach(() => {
+  refresh = jest.fn(async () => new Response("{}", { status: 400 }));
+  globalThis.fetch = (async (input: string) =>
+    String(input).includes("grant_type=refresh_token")
+      ? refresh()
+      : new Response("{}", { status: 404 })) as typeof fetch;
+  jest.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+describe("middleware", () => {
+  it("should send anonymous visitors of protected routes to login", async () => {
+    const response = await middleware(createRequest("/dashboard?tab=1"));
+
+    const location = new URL(response.headers.get("location") ?? "");
+    expect(location.pathname).toBe(redirects.unauthorized);
+    expect(location.searchParams.get("next")).toBe("/dashboard?tab=1");
+  });
+
+  it("should let a verified session through, read from chunked cookies", async () => {
+    const cookies = await sessionCookies({}, 5000);
+
+    const response = await middleware(createRequest("/dashboard", cookies));
+
+    expect(Object.keys(cookies)).toContain(`${SESSION_COOKIE_NAME}.1`);
+    expect(response.headers.get("location")).toBeNull();
+    expect(response.headers.get("x-frame-options")).toBe("DENY");
+  });
+
+  it("should redirect non-admins away from admin routes", async () => {
+    const member = await middleware(
+      createRequest("/admin/users", await sessionCookies()),
+    );
+    // The claim lists effective roles: a role inheriting from admin
+    // arrives with admin alongside it
+    const admin = await middleware(
+      createRequest(
+        "/admin/users",
+        await sessionCookies({ user_roles: ["support_lead", "admin"] }),
+      ),
+    );
+
+    expect(new URL(member.headers.get("location") ?? "").pathname).toBe(
+      redirects.adminRequired,
+    );
+    expect(admin.headers.get("location")).toBeNull();
+  });
+
+  it("should not trust a tampered token and clear its cookie", async () => {
+    const cookies = await sessionCookies();
+    const session = JSON.parse(
+      decodeURIComponent(cookies[SESSION_COOKIE_NAME]),
+    );
+    const [head, , signature] = session.access_token.split(".");
+    const forged = Buffer.from(
+      JSON.stringify(claims({ user_roles: ["super_admin"] })),
+    ).toString("base64url");
+    session.access_token = [head, forged, signature].join(".");
+
+    const response = await middleware(
+      createRequest("/admin", {
+        [SESSION_COOKIE_NAME]: encodeURIComponent(JSON.stringify(session)),
+      }),
+    );
+
+    expect(new URL(response.headers.get("location") ?? "").pathname).toBe(
+      redirects.unauthorized,
+    );
+    expect(response.cookies.get(SESSION_COOKIE_NAME)?.value).toBe("");
+  });
+
+  it("should refresh a session near expiry and rewrite the cookie", async () => {
+    const fresh = await signJwt(claims(), SECRET);
+    refresh.mockImplementation(
+      async () =>
+        new Response(
+          JSON.stringify({
+            access_token: fresh,
+            refresh_token: "refresh-2",
+            expires_in: 3600,
+          }),
+          { status: 200 },
+        ),
+    );
+    const expiring = await sessionCookies({
+      exp: Math.floor(Date.now() / 1000) + 30,
+    });
+
+    const response = await middleware(createRequest("/dashboard", expiring));
+
+    const written = JSON.parse(
+      response.cookies.get(SESSION_COOKIE_NAME)?.value ?? "{}",
+    );
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(written).toMatchObject({
+      access_token: fresh,
+      refresh_token: "refresh-2",
+    });
+  });
+
+  it("should treat an expired session it cannot refresh as signed out", async () => {
+    const expired = await sessionCookies({
+      exp: Math.floor(Date.now() / 1000) - 30,
+    });
+
+    const response = await middleware(createRequest("/dashboard", expired));
+
+    expect(new URL(response.headers.get("location") ?? "").pathname).toBe(
+      redirects.unauthorized,
+    );
+  });
+});
+
+describe("middleware on API routes", () => {
+  it("should pass requests without a token on, minus a forged principal", async () => {
+    const response = await middleware(
+      createRequest("/api/projects", await sessionCookies(), {
+        [TOKEN_PRINCIPAL_HEADER]: "forged",
+      }),
+    );
+
+    // The headers the route will see
+    const forwarded = response.headers.get("x-middleware-override-headers");
+    expect(response.headers.get("location")).toBeNull();
+    expect(forwarded?.split(",")).toContain("cookie");
+    expect(forwarded?.split(",")).not.toContain(TOKEN_PRINCIPAL_HEADER);
+    expect(refresh).not.toHaveBeenCalled();
+  });
+
+  it("should strip a forged principal on public and dotted API paths", async () => {
+    const requests = [
+      // Public routes do not resolve tokens: no lookup is attempted
+      createRequest(
+        "/api/public/status",
+        {},
+        {
+          authorization: "Bearer pat_abc",
+          [TOKEN_PRINCIPAL_HEADER]: "forged",
+        },
+      ),
+      createRequest(
+        "/api/export.csv",
+        {},
+        {
+          [TOKEN_PRINCIPAL_HEADER]: "forged",
+        },
+      ),
+    ];
+
+    for (const request of requests) {
+      const response = await middleware(request);
+
+      const forwarded = response.headers.get("x-middleware-override-headers");
+      expect(response.status).toBe(200);
+      expect(forwarded).not.toBeNull();
+      expect(forwarded?.split(",")).not.toContain(TOKEN_PRINCIPAL_HEADER);
+    }
+  });
+
+  it("should answer 503 and log when a token cannot be looked up", async () => {
+    const logged = jest.spyOn(logger, "error");
+
+    const response = await middleware(
+      createRequest("/api/projects", {}, { authorization: "Bearer pat_abc" }),
+    );
+
+    expect(response.status).toBe(503);
+    expect(logged).toHaveBeenCalledWith(
+      "Access token lookup unavailable",
+      "middleware",
+      expect.objectContaining({ error: expect.any(Error) }),
+    );
+  });
+});
@@ -0,0 +1,346 @@
+import { AuthProviderFactory } from "@/shared/services/auth/auth-factory";
+import { SessionLifecycleManager } from "@/shared/services/auth/lifecycle";
+import { OidcAuthProvider } from "@/shared/services/auth/providers/oidc-auth-provider";
+import { mapOidcUser } from "@/shared/services/auth/providers/oidc/oidc-mappers";
+import type { IAuthState } from "@/shared/types/auth";
+
+import {
+  FakeOidcIssuer,
+  installWebCrypto,
+  memoryStorage,
+} from "./fake-oidc-issuer";
+
+jest.mock("@/config/env", () => ({ getEnv: () => ({}) }));
+
+const ISSUER = "https://sso.company.test/realms/main";
+const CLIENT_ID = "web-app";
+const OIDC_PATH = "/realms/main/protocol/openid-connect";
+
+// Keycloak-shaped issuer: discovery, form encoded token requests
+const createIssuer = (): FakeOidcIssuer =>
+  new FakeOidcIssuer({
+    issuer: ISSUER,
+    clientId: CLIENT_ID,
+    discovery: true,
+    bodyFormat: "form",
+    authorizePath: `${OIDC_PATH}/auth`,
+    tokenPath: `${OIDC_PATH}/token`,
+    jwksPath: `${OIDC_PATH}/certs`,
+    endSessionPath: `${OIDC_PATH}/logout`,
+    profile: {
+      sub: "f3a1c2",
+      email: "grace@company.test",
+      name: "Grace Hopper",
+      preferred_username: "ghopper",
+      realm_access: { roles: ["admin", "offline_access"] },
+      groups: ["/engineering"],
+    },
+  });
+
+describe("OidcAuthProvider", () => {
+  let issuer: FakeOidcIssuer;
+  let storage: Storage;
+  let navigate: jest.Mock;
+
+  const createProvider = (): OidcAuthProvider =>
+    new OidcAuthProvider({
+      issuer: ISSUER,
+      clientId: CLIENT_ID,
+      postLogoutRedirectUri: "http://localhost/",
+      claims: {
+        role: "realm_access.roles",
+        metadata: ["preferred_username", "groups"],
+      },
+      fetch: issuer.fetch,
+      storage,
+      navigate,
+    });
+
+  const signIn = async (provider: OidcAuthProvider): Promise<void> => {
+    const authorizeUrl = await provider.loginWithRedirect();
+    await provider.handleOAuthCallback(issuer.authorize(authorizeUrl));
+  };
+
+  const nextState = (
+    provider: OidcAuthProvider,
+    predicate: (state: IAuthState) => boolean,
+  ): Promise<IAuthState> =>
+    new Promise((resolve) => {
+      const unsubscribe = provider.onAuthStateChange((state) => {
+        if (!predicate(state)) return;
+        unsubscribe();
+        resolve(state);
+      });
+    });
+
+  beforeAll(installWebCrypto);
+
+  beforeEach(async () => {
+    issuer = createIssuer();
+    await issuer.setup();
+    storage = memoryStorage();
+    navigate = jest.fn();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  // ============================================================================
+  // Discovery and redirect
+  // ============================================================================
+
+  describe("loginWithRedirect", () => {
+    it("should use the authorization endpoint from discovery", async () => {
+      const provider = createProvider();
+
+      const url = new URL(
+        await provider.loginWithRedirect({ prompt: "login" }),
+      );
+
+      expect(`${url.origin}${url.pathname}`).toBe(
+        `https://sso.company.test${OIDC_PATH}/auth`,
+      );
+      expect(url.searchParams.get("client_id")).toBe(CLIENT_ID);
+      expect(url.searchParams.get("scope")).toBe("openid profile email");
+      expect(url.searchParams.get("code_challenge_method")).toBe("S256");
+      expect(url.searchParams.get("prompt")).toBe("login");
+      expect(navigate).toHaveBeenCalledWith(url.toString());
+    });
+
+    it("should read the discovery document once", async () => {
+      const provider = createProvider();
+
+      await provider.loginWithRedirect();
+      await provider.loginWithRedirect();
+
+      const discoveries = issuer.requests.filter(({ url }) =>
+        url.endsWith("/.well-known/openid-configuration"),
+      );
+      expect(discoveries).toHaveLength(1);
+    });
+
+    it("should reject a discovery document for another issuer", async () => {
+      const provider = createProvider();
+      jest.spyOn(issuer, "discoveryDocument").mockReturnValue({
+        ...issuer.discoveryDocument(),
+        issuer: "https://evil.test",
+      });
+
+      await expect(provider.loginWithRedirect()).rejects.toThrow(
+        "does not match",
+      );
+      expect(navigate).not.toHaveBeenCalled();
+    });
+  });
+
+  // ============================================================================
+  // Code exchange and ID token validation
+  // ============================================================================
+
+  describe("handleOAuthCallback", () => {
+    it("should exchange the code and map the configured claims", async () => {
+      const provider = createProvider();
+      const authorizeUrl = await provider.loginWithRedirect();
+
+      const session = await provider.handleOAuthCallback(
+        issuer.authorize(authorizeUrl),
+      );
+
+      expect(session.user).toMatchObject({
+        id: "f3a1c2",
+        email: "grace@company.test",
+        name: "Grace Hopper",
+        role: "admin",
+        metadata: {
+          roles: ["admin", "offline_access"],
+          preferred_username: "ghopper",
+          groups: ["/engineering"],
+        },
+      });
+      expect(provider.getState().isAuthenticated).toBe(true);
+    });
+
+    it("should send a form encoded token request with the verifier", async () => {
+      const provider = createProvider();
+      await signIn(provider);
+
+      const exchange = issuer.requests.find(
+        ({ body }) => body?.grant_type === "authorization_code",
+      );
+      expect(exchange?.body).toMatchObject({
+        client_id: CLIENT_ID,
+        redirect_uri: "http://localhost/auth/callback",
+      });
+      expect(exchange?.body?.code_verifier).toBeTruthy();
+    });
+
+    it("should reject an ID token from another issuer", async () => {
+      const provider = createProvider();
+      issuer.idTokenOverrides = { iss: "https://evil.test" };
+
+      await expect(signIn(provider)).rejects.toMatchObject({
+        code: "invalid_id_token",
+      });
+      expect(provider.getState().isAuthenticated).toBe(false);
+    });
+
+    it("should reject a replayed callback", async () => {
+      const provider = createProvider();
+      const callback = issuer.authorize(await provider.loginWithRedirect());
+      await provider.handleOAuthCallback(callback);
+
+      await expect(
+        provider.handleOAuthCallback(callback),
+      ).rejects.toMatchObject({ code: "invalid_oauth_state" });
+    });
+  });
+
+  // ============================================================================
+  // Refresh
+  // ============================================================================
+
+  describe("refreshSession", () => {
+    it("should accept tokens signed with rotated keys", async () => {
+      const provider = createProvider();
+      await signIn(provider);
+      await issuer.rotateKeys();
+
+      const session = await provider.refreshSession();
+
+      expect(session?.user.email).toBe("grace@company.test");
+    });
+
+    it("should refresh silently before the access token expires", async () => {
+      jest.useFakeTimers();
+      issuer.expiresIn = 120;
+      const provider = createProvider();
+      await signIn(provider);
+      const firstToken = provider.getState().session?.token;
+
+      const lifecycle = new SessionLifecycleManager(
+        provider,
+        { refreshJitterSec: 0 },
+        {},
+        {
+          channel: {
+            broadcast: jest.fn(),
+            subscribe: () => () => {},
+            cleanup: jest.fn(),
+          },
+        },
+      );
+      lifecycle.start();
+
+      const refreshed = nextState(
+        provider,
+        (state) => !!state.session && state.session.token !== firstToken,
+      );
+      jest.advanceTimersByTime(61_000);
+
+      expect((await refreshed).isAuthenticated).toBe(true);
+      expect(issuer.validRefreshTokens.size).toBe(1);
+      lifecycle.stop();
+    });
+
+    it("should end the session when the issuer rejects the refresh token", async () => {
+      const provider = createProvider();
+      await signIn(provider);
+      issuer.validRefreshTokens.clear();
+
+      await expect(provider.refreshSession()).rejects.toMatchObject({
+        code: "invalid_grant",
+      });
+      expect(provider.getState().isAuthenticated).toBe(false);
+      expect(await provider.getCurrentSession()).toBeNull();
+    });
+
+    it("should restore a stored session on initialize", async () => {
+      await signIn(createProvider());
+
+      const provider = createProvider();
+      await provider.initialize();
+
+      expect(provider.getState()).toMatchObject({
+        isAuthenticated: true,
+        isLoading: false,
+      });
+      expect(provider.getState().user?.role).toBe("admin");
+      await provider.cleanup();
+    });
+  });
+
+  // ============================================================================
+  // Logout
+  // ============================================================================
+
+  describe("logout", () => {
+    it("should redirect to the end session endpoint", async () => {
+      const provider = createProvider();
+      await signIn(provider);
+
+      await provider.logout();
+
+      const url = new URL(
+        navigate.mock.calls[navigate.mock.calls.length - 1][0],
+      );
+      expect(`${url.origin}${url.pathname}`).toBe(
+        `https://sso.company.test${OIDC_PATH}/logout`,
+      );
+      expect(url.searchParams.get("id_token_hint")).toBeTruthy();
+      expect(url.searchParams.get("post_logout_redirect_uri")).toBe(
+        "http://localhost/",
+      );
+      expect(provider.getState().isAuthenticated).toBe(false);
+    });
+  });
+
+  // ============================================================================
+  // Factory and claim mapping
+  // ============================================================================
+
+  describe("AuthProviderFactory", () => {
+    it("should create a registered OIDC provider", async () => {
+      AuthProviderFactory.registerProvider("oidc", async () =>
+        createProvider(),
+      );
+
+      const provider = await AuthProviderFactory.createProvider({
+        type: "oidc",
+        options: {},
+      });
+
+      expect(provider).toBeInstanceOf(OidcAuthProvider);
+      expect(provider.getState()).toMatchObject({
+        isLoading: false,
+        isAuthenticated: false,
+      });
+    });
+  });
+
+  describe("mapOidcUser", () => {
+    it("should read namespaced claims whose names contain dots", () => {
+      const user = mapOidcUser(
+        { sub: "1", "https://app.test/roles": ["editor"] },
+        { role: "https://app.test/roles" },
+      );
+
+      expect(user.role).toBe("editor");
+    });
+
+    it("should default to the standard claims", () => {
+      const user = mapOidcUser({
+        sub: "1",
+        email: "a@b.test",
+        picture: "https://cdn.test/a.png",
+        roles: "viewer",
+      });
+
+      expect(user).toMatchObject({
+        email: "a@b.test",
+        avatar: "https://cdn.test/a.png",
+        role: "viewer",
+      });
+    });
+  });
+});
@@ -0,0 +1,339 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import {
+  PersonalAccessTokenResolver,
+  PersonalAccessTokenService,
+  authenticateApiCaller,
+  encodeTokenPrincipal,
+  generatePersonalAccessToken,
+  hashPersonalAccessToken,
+  readBearerToken,
+  readTokenPrincipal,
+  requireSessionToken,
+  scopeToToken,
+} from "@/shared/services/auth/tokens";
+import type { ITokenPrincipal } from "@/shared/types/access-token";
+import type { IRBACProvider } from "@/shared/types/rbac";
+
+import { installWebCrypto } from "./fake-oidc-issuer";
+
+const tokenRow = {
+  id: "token-1",
+  user_id: "user-1",
+  organization_id: null,
+  name: "CI deploys",
+  token_prefix: "pat_AbCd",
+  permissions: ["content.read", "content.publish"],
+  expires_at: "2027-01-01T00:00:00Z",
+  last_used_at: null,
+  revoked_at: null,
+  created_at: "2026-10-18T10:00:00Z",
+};
+
+const principal: ITokenPrincipal = {
+  user: { id: "user-1", email: "ada@example.com" },
+  tokenId: "token-1",
+  permissions: ["content.read"],
+  organizationId: "org-1",
+  expiresAt: new Date("2027-01-01T00:00:00Z"),
+};
+
+// The RPCs and the personal_access_tokens table, as the user's client
+const createClient = (result: {
+  data: unknown;
+  error: unknown;
+}): { client: SupabaseClient; rpc: jest.Mock; select: jest.Mock } => {
+  const single = jest.fn(async () => result);
+  const rpc = jest.fn(() => Object.assign(Promise.resolve(result), { single }));
+  // Chainable like the PostgREST builder
+  const query: Record<string, jest.Mock> = {};
+  const chain = (): typeof query => query;
+  Object.assign(query, {
+    select: jest.fn(chain),
+    is: jest.fn(chain),
+    order: jest.fn(async () => result),
+  });
+  const client = { rpc, from: jest.fn(() => query) };
+  return {
+    client: client as unknown as SupabaseClient,
+    rpc,
+    select: query.select,
+  };
+};
+
+// The service-role client authenticateApiCaller verifies sessions with
+const createAdmin = (user: unknown): SupabaseClient =>
+  ({
+    auth: {
+      getUser: jest.fn(async () => ({
+        data: { user },
+        error: user ? null : { message: "invalid JWT" },
+      })),
+    },
+    rpc: jest.fn(async () => ({ data: true, error: null })),
+  }) as unknown as SupabaseClient;
+
+describe("Personal access tokens", () => {
+  beforeAll(installWebCrypto);
+
+  describe("primitives", () => {
+    it("should generate pat_ tokens and hash them as hex SHA-256", async () => {
+      const first = generatePersonalAccessToken();
+      const second = generatePersonalAccessToken();
+
+      expect(first.token).toMatch(/^pat_[\w-]{43}$/);
+      expect(first.prefix).toBe(first.token.slice(0, 8));
+      expect(first.token).not.toBe(second.token);
+      expect(await hashPersonalAccessToken("pat_test")).toBe(
+        "973976b7f4d14c02a1891fc3d9a4e898435fdc306e4edd110f5aba1c32fd5fd6",
+      );
+    });
+
+    it("should read the bearer token of an Authorization header", () => {
+      expect(readBearerToken("Bearer pat_abc")).toBe("pat_abc");
+      expect(readBearerToken("bearer  eyJhbGci")).toBe("eyJhbGci");
+      expect(readBearerToken("Basic dXNlcg==")).toBeNull();
+      expect(readBearerToken(null)).toBeNull();
+    });
+  });
+
+  describe("PersonalAccessTokenService", () => {
+    it("should store only the hash and return the token once", async () => {
+      const { client, rpc } = createClient({ data: tokenRow, error: null });
+
+      const { token, accessToken } = await new PersonalAccessTokenService(
+        client,
+      ).create({
+        name: " CI deploys ",
+        permissions: ["content.read", "content.publish"],
+      });
+
+      expect(rpc).toHaveBeenCalledWith("create_personal_access_token", {
+        name: "CI deploys",
+        token_hash: await hashPersonalAccessToken(token),
+        token_prefix: token.slice(0, 8),
+        permissions: ["content.read", "content.publish"],
+        organization_id: null,
+        expires_at: null,
+      });
+      expect(accessToken).toEqual({
+        id: "token-1",
+        name: "CI deploys",
+        tokenPrefix: "pat_AbCd",
+        permissions: ["content.read", "content.publish"],
+        organizationId: null,
+        expiresAt: new Date("2027-01-01T00:00:00Z"),
+        lastUsedAt: null,
+        createdAt: new Date("2026-10-18T10:00:00Z"),
+      });
+    });
+
+    it("should refuse permissions outside DEFAULT_PERMISSIONS", async () => {
+      const { client, rpc } = createClient({ data: tokenRow, error: null });
+      const service = new PersonalAccessTokenService(client);
+
+      await expect(
+        service.create({ name: "CI", permissions: ["content.*"] }),
+      ).rejects.toMatchObject({ code: "invalid_request" });
+      await expect(
+        service.create({ name: "CI", permissions: [] }),
+      ).rejects.toMatchObject({ code: "invalid_request" });
+      expect(rpc).not.toHaveBeenCalled();
+    });
+
+    it("should surface permissions the user does not hold", async () => {
+      const { client } = createClient({
+        data: null,
+        error: {
+          code: "42501",
+          message: "Permission not granted: users.delete",
+        },
+      });
+
+      await expect(
+        new PersonalAccessTokenService(client).create({
+          name: "CI",
+          permissions: ["users.delete"],
+        }),
+      ).rejects.toMatchObject({ code: "42501" });
+    });
+
+    it("should list tokens without their hash", async () => {
+      const { client, select } = createClient({
+        data: [tokenRow],
+        error: null,
+      });
+
+      const tokens = await new PersonalAccessTokenService(client).list();
+
+      expect(select.mock.calls[0][0]).not.toContain("token_hash");
+      expect(tokens.map(({ id }) => id)).toEqual(["token-1"]);
+    });
+  });
+
+  describe("PersonalAccessTokenResolver", () => {
+    const createResolver = (
+      status: number,
+      body: unknown,
+    ): { resolver: PersonalAccessTokenResolver; fetch: jest.Mock } => {
+      const fetch = jest.fn(async () => ({
+        ok: status < 400,
+        status,
+        json: async () => body,
+      }));
+      const resolver = new PersonalAccessTokenResolver({
+        supabaseUrl: "https://project.supabase.co",
+        anonKey: "anon-key",
+        fetch: fetch as unknown as typeof globalThis.fetch,
+      });
+      return { resolver, fetch };
+    };
+
+    it("should resolve a token to its owner and scope", async () => {
+      const { resolver, fetch } = createResolver(200, [
+        {
+          token_id: "token-1",
+          user_id: "user-1",
+          email: "ada@example.com",
+          organization_id: "org-1",
+          permissions: ["content.read"],
+          expires_at: "2027-01-01T00:00:00Z",
+        },
+      ]);
+
+      expect(await resolver.resolve("pat_test")).toEqual(principal);
+      expect(fetch).toHaveBeenCalledWith(
+        "https://project.supabase.co/rest/v1/rpc/resolve_personal_access_token",
+        expect.objectContaining({
+          method: "POST",
+          body: JSON.stringify({
+            token_hash: await hashPersonalAccessToken("pat_test"),
+          }),
+        }),
+      );
+    });
+
+    it("should return null for unknown tokens and JWTs", async () => {
+      const { resolver, fetch } = createResolver(200, []);
+
+      expect(await resolver.resolve("pat_revoked")).toBeNull();
+      expect(await resolver.resolve("eyJhbGciOiJIUzI1NiJ9")).toBeNull();
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should throw when the lookup fails", async () => {
+      const { resolver } = createResolver(503, {});
+
+      await expect(resolver.resolve("pat_test")).rejects.toThrow("503");
+    });
+  });
+
+  describe("token principal", () => {
+    it("should travel in a request header", () => {
+      const headers = new Headers({
+        "x-token-principal": encodeTokenPrincipal(principal),
+      });
+
+      expect(readTokenPrincipal(headers)).toEqual(principal);
+      expect(readTokenPrincipal(new Headers())).toBeNull();
+    });
+
+    it("should ignore malformed principal headers", () => {
+      for (const value of ["not json", "{}", '{"user":{"id":"user-1"}}']) {
+        expect(
+          readTokenPrincipal(new Headers({ "x-token-principal": value })),
+        ).toBeNull();
+      }
+    });
+
+    it("should limit userHasPermission to the token's scope", async () => {
+      const userHasPermission = jest.fn(async () => true);
+      const getRoles = jest.fn(async () => []);
+      const provider = {
+        userHasPermission,
+        getRoles,
+      } as unknown as IRBACProvider;
+      const scoped = scopeToToken(provider, principal);
+
+      expect(await scoped.userHasPermission("user-1", "content.read")).toBe(
+        true,
+      );
+      expect(userHasPermission).toHaveBeenLastCalledWith(
+        "user-1",
+        "content.read",
+        "org-1",
+      );
+      expect(await scoped.userHasPermission("user-1", "users.delete")).toBe(
+        false,
+      );
+      expect(
+        await scoped.userHasPermission("user-1", "content.read", "org-2"),
+      ).toBe(false);
+      expect(await scoped.userHasPermission("user-2", "users.delete")).toBe(
+        true,
+      );
+      expect(userHasPermission).toHaveBeenCalledTimes(2);
+
+      await scoped.getRoles();
+      expect(getRoles).toHaveBeenCalled();
+    });
+
+    it("should still deny what the owner no longer holds", async () => {
+      const provider = {
+        userHasPermission: jest.fn(async () => false),
+      } as unknown as IRBACProvider;
+
+      expect(
+        await scopeToToken(provider, principal).userHasPermission(
+          "user-1",
+          "content.read",
+        ),
+      ).toBe(false);
+    });
+  });
+
+  describe("API callers", () => {
+    it("should verify session callers and check permissions over RPC", async () => {
+      const client = createAdmin({ id: "user-1", email: "ada@example.com" });
+      const caller = await authenticateApiCaller(
+        new Headers({ authorization: "Bearer session-jwt" }),
+        client,
+      );
+
+      expect(caller).toMatchObject({
+        user: { id: "user-1", email: "ada@example.com" },
+        principal: null,
+      });
+      expect(
+        await caller.permissions.userHasPermission("user-1", "users.delete"),
+      ).toBe(true);
+      expect(client.rpc).toHaveBeenCalledWith("user_has_permission", {
+        user_id: "user-1",
+        permission_name: "users.delete",
+        organization_id: undefined,
+      });
+      await expect(
+        authenticateApiCaller(
+          new Headers({ authorization: "Bearer expired" }),
+          createAdmin(null),
+        ),
+      ).rejects.toMatchObject({ code: "unauthorized" });
+    });
+
+    it("should refuse access tokens where a session is required", () => {
+      expect(
+        requireSessionToken(
+          new Headers({ authorization: "Bearer session-jwt" }),
+        ),
+      ).toBe("session-jwt");
+      expect(() =>
+        requireSessionToken(
+          new Headers({
+            authorization: "Bearer pat_AbCd",
+            "x-token-principal": encodeTokenPrincipal(principal),
+          }),
+        ),
+      ).toThrow(expect.objectContaining({ code: "forbidden" }));
+    });
+  });
+});
@@ -0,0 +1,435 @@
+import { startSessionLifecycle } from "@/shared/components/providers/session-lifecycle";
+import {
+  SessionLifecycleManager,
+  StorageLeaseLock,
+  type ISessionLifecycleDeps,
+  type ISessionLifecycleHooks,
+  type ISessionLifecycleOptions,
+  type SessionLifecycleTarget,
+} from "@/shared/services/auth/lifecycle";
+import { StateManager } from "@/shared/services/auth/providers/operations/state-manager";
+import type { StorageEventCallback } from "@/shared/services/storage/storage.types";
+import { useUIStore } from "@/shared/stores/ui.store";
+import {
+  SESSION_REVOKED_ERROR,
+  type IAuthProvider,
+  type IAuthSession,
+} from "@/shared/types/auth";
+
+import { memoryStorage } from "./fake-oidc-issuer";
+
+type SessionChannel = NonNullable<ISessionLifecycleDeps["channel"]>;
+
+const MINUTE = 60_000;
+
+// What the tabs share: the persisted session and the BroadcastChannel
+interface IBrowser {
+  stored: { session: IAuthSession | null };
+  storage: Storage;
+  channel: () => SessionChannel;
+}
+
+const createBrowser = (): IBrowser => {
+  const subscribers = new Set<StorageEventCallback>();
+  return {
+    stored: { session: null },
+    storage: memoryStorage(),
+    channel: (): SessionChannel => {
+      let own: StorageEventCallback | null = null;
+      return {
+        subscribe: (callback) => {
+          own = callback;
+          subscribers.add(callback);
+          return () => subscribers.delete(callback);
+        },
+        broadcast: (event) =>
+          subscribers.forEach(
+            (subscriber) =>
+              subscriber !== own && subscriber({ ...event, source: "remote" }),
+          ),
+        cleanup: () => own && subscribers.delete(own),
+      };
+    },
+  };
+};
+
+let issued = 0;
+const issueSession = (ttlMs: number = 10 * MINUTE): IAuthSession => {
+  issued++;
+  return {
+    id: "session-1",
+    user: { id: "user-1", email: "ada@example.com" },
+    token: `access-${issued}`,
+    refreshToken: `refresh-${issued}`,
+    expiresAt: new Date(Date.now() + ttlMs),
+  };
+};
+
+// A provider tab on top of a StateManager, persisting to the browser
+class FakeTab implements SessionLifecycleTarget {
+  private stateManager = new StateManager();
+
+  refreshSession = jest.fn(async (): Promise<IAuthSession | null> => {
+    return this.publish(issueSession());
+  });
+
+  logout = jest.fn(async (): Promise<void> => {
+    this.publish(null);
+  });
+
+  syncSession = jest.fn(async (): Promise<IAuthSession | null> => {
+    const { session } = this.browser.stored;
+    this.stateManager.setState({ session, isAuthenticated: !!session });
+    return session;
+  });
+
+  constructor(private browser: IBrowser) {}
+
+  getState: IAuthProvider["getState"] = () => this.stateManager.getState();
+
+  onAuthStateChange: IAuthProvider["onAuthStateChange"] = (callback) =>
+    this.stateManager.addListener(callback);
+
+  publish(session: IAuthSession | null): IAuthSession | null {
+    this.browser.stored.session = session;
+    this.stateManager.setState({ session, isAuthenticated: !!session });
+    return session;
+  }
+
+  // What a provider does when it finds its session revoked
+  revoke(): void {
+    this.browser.stored.session = null;
+    this.stateManager.setState({
+      session: null,
+      isAuthenticated: false,
+      error: { code: SESSION_REVOKED_ERROR, message: "Session revoked" },
+    });
+  }
+}
+
+describe("SessionLifecycleManager", () => {
+  let browser: IBrowser;
+  let managers: SessionLifecycleManager[];
+
+  const openTab = (
+    options: ISessionLifecycleOptions = {},
+    hooks: ISessionLifecycleHooks = {},
+    deps: ISessionLifecycleDeps = {},
+  ): { tab: FakeTab; manager: SessionLifecycleManager } => {
+    const tab = new FakeTab(browser);
+    const manager = new SessionLifecycleManager(tab, options, hooks, {
+      lock: new StorageLeaseLock(browser.storage),
+      channel: browser.channel(),
+      watchActivity: () => () => {},
+      random: () => 0,
+      ...deps,
+    });
+    managers.push(manager);
+    return { tab, manager };
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    browser = createBrowser();
+    managers = [];
+  });
+
+  afterEach(() => {
+    managers.forEach((manager) => manager.stop());
+    jest.useRealTimers();
+  });
+
+  // ============================================================================
+  // Proactive refresh
+  // ============================================================================
+
+  describe("refresh", () => {
+    it("should refresh ahead of expiresAt, earlier by the jitter", async () => {
+      const { tab, manager } = openTab(
+        { refreshBeforeSec: 60, refreshJitterSec: 30 },
+        {},
+        { random: () => 0.5 },
+      );
+      tab.publish(issueSession(10 * MINUTE));
+      manager.start();
+
+      // 10 min - 60s - 15s of jitter
+      await jest.advanceTimersByTimeAsync(525_000 - 1);
+      expect(tab.refreshSession).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(1);
+      expect(tab.refreshSession).toHaveBeenCalledTimes(1);
+      expect(tab.getState().session?.expiresAt?.getTime()).toBe(
+        Date.now() + 10 * MINUTE,
+      );
+    });
+
+    it("should retry with exponential backoff, then sign out", async () => {
+      const onSessionEnded = jest.fn();
+      const { tab, manager } = openTab(
+        { maxRefreshRetries: 2, refreshRetryBaseMs: 1000 },
+        { onSessionEnded },
+      );
+      tab.refreshSession.mockRejectedValue({ code: "network_error" });
+      tab.publish(issueSession(MINUTE));
+      manager.start();
+
+      await jest.advanceTimersByTimeAsync(0);
+      await jest.advanceTimersByTimeAsync(999);
+      expect(tab.refreshSession).toHaveBeenCalledTimes(1);
+      await jest.advanceTimersByTimeAsync(1);
+      expect(tab.refreshSession).toHaveBeenCalledTimes(2);
+      await jest.advanceTimersByTimeAsync(2000);
+
+      expect(tab.refreshSession).toHaveBeenCalledTimes(3);
+      expect(onSessionEnded).toHaveBeenCalledWith("refresh_failed", {
+        code: "network_error",
+      });
+      expect(tab.logout).toHaveBeenCalledTimes(1);
+      expect(tab.getState().isAuthenticated).toBe(false);
+    });
+
+    it("should not retry once the provider ended the session", async () => {
+      const { tab, manager } = openTab();
+      tab.refreshSession.mockImplementation(async () => {
+        tab.publish(null);
+        throw { code: "invalid_grant", message: "Refresh token revoked" };
+      });
+      tab.publish(issueSession(MINUTE));
+      manager.start();
+
+      await jest.advanceTimersByTimeAsync(10 * MINUTE);
+
+      expect(tab.refreshSession).toHaveBeenCalledTimes(1);
+      expect(tab.logout).not.toHaveBeenCalled();
+    });
+  });
+
+  // ============================================================================
+  // Cross-tab coordination
+  // ============================================================================
+
+  describe("across tabs", () => {
+    it("should let a single tab refresh and share the result", async () => {
+      const first = openTab({}, {}, { random: () => 1 });
+      const second = openTab({}, {}, { random: () => 0 });
+      const session = issueSession(10 * MINUTE);
+      first.tab.publish(session);
+      second.tab.publish(session);
+      first.manager.start();
+      second.manager.start();
+
+      await jest.advanceTimersByTimeAsync(9 * MINUTE);
+
+      expect(first.tab.refreshSession).toHaveBeenCalledTimes(1);
+      expect(second.tab.refreshSession).not.toHaveBeenCalled();
+      expect(second.tab.getState().session?.token).toBe(
+        first.tab.getState().session?.token,
+      );
+    });
+
+    it("should adopt a session another tab renewed without refreshing", async () => {
+      const { tab, manager } = openTab();
+      tab.publish(issueSession(MINUTE));
+      manager.start();
+      const renewed = issueSession(10 * MINUTE);
+      browser.stored.session = renewed;
+
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(tab.refreshSession).not.toHaveBeenCalled();
+      expect(tab.getState().session).toBe(renewed);
+    });
+
+    it("should sign the other tabs out with this one", async () => {
+      const first = openTab({ idleTimeoutMin: 1 });
+      const second = openTab();
+      first.tab.publish(issueSession());
+      second.tab.publish(browser.stored.session);
+      first.manager.start();
+      second.manager.start();
+
+      await jest.advanceTimersByTimeAsync(MINUTE);
+
+      expect(first.tab.logout).toHaveBeenCalled();
+      expect(second.tab.syncSession).toHaveBeenCalled();
+      expect(second.tab.getState().isAuthenticated).toBe(false);
+    });
+
+    it("should force the logout of tabs on a revoked session", async () => {
+      const onSessionEnded = jest.fn();
+      const first = openTab({}, { onSessionEnded });
+      const second = openTab({}, { onSessionEnded });
+      first.tab.publish(issueSession());
+      second.tab.publish(browser.stored.session);
+      first.manager.start();
+      second.manager.start();
+
+      first.tab.revoke();
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(onSessionEnded).toHaveBeenCalledTimes(2);
+      expect(onSessionEnded).toHaveBeenCalledWith("revoked");
+      expect(second.tab.syncSession).toHaveBeenCalled();
+      expect(second.tab.getState().isAuthenticated).toBe(false);
+      expect(first.tab.logout).not.toHaveBeenCalled();
+    });
+
+    it("should leave tabs on another session signed in", async () => {
+      const onSessionEnded = jest.fn();
+      const first = openTab();
+      const second = openTab({}, { onSessionEnded });
+      first.tab.publish(issueSession());
+      second.tab.publish({ ...issueSession(), id: "session-2" });
+      first.manager.start();
+      second.manager.start();
+
+      first.tab.revoke();
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(onSessionEnded).not.toHaveBeenCalled();
+      expect(second.tab.getState().isAuthenticated).toBe(true);
+    });
+  });
+
+  describe("StorageLeaseLock", () => {
+    it("should keep other tabs out while the lease is held", async () => {
+      const storage = memoryStorage();
+      const first = new StorageLeaseLock(storage);
+      const second = new StorageLeaseLock(storage);
+      let release = (): void => {};
+      const held = first.runExclusive(
+        () => new Promise<string>((resolve) => (release = () => resolve("a"))),
+      );
+
+      const task = jest.fn(async () => "b");
+      expect(await second.runExclusive(task)).toBeNull();
+      expect(task).not.toHaveBeenCalled();
+
+      release();
+      expect(await held).toBe("a");
+      expect(await second.runExclusive(task)).toBe("b");
+    });
+
+    it("should take over the lease of a tab that went away", async () => {
+      const storage = memoryStorage();
+      storage.setItem(
+        "auth-session-refresh",
+        JSON.stringify({ owner: "closed-tab", until: Date.now() - 1 }),
+      );
+
+      const lock = new StorageLeaseLock(storage);
+
+      expect(await lock.runExclusive(async () => "ran")).toBe("ran");
+    });
+  });
+
+  // ============================================================================
+  // Idle timeout
+  // ============================================================================
+
+  describe("idle timeout", () => {
+    const idleTab = (
+      hooks: ISessionLifecycleHooks,
+    ): {
+      tab: FakeTab;
+      manager: SessionLifecycleManager;
+      touch: () => void;
+    } => {
+      let touch = (): void => {};
+      const opened = openTab({ idleTimeoutMin: 1, idleWarningSec: 10 }, hooks, {
+        watchActivity: (onActivity) => {
+          touch = onActivity;
+          return () => {};
+        },
+      });
+      return { ...opened, touch: () => touch() };
+    };
+
+    it("should warn before signing out an idle user", async () => {
+      const onIdleWarning = jest.fn();
+      const onSessionEnded = jest.fn();
+      const { tab, manager } = idleTab({ onIdleWarning, onSessionEnded });
+      tab.publish(issueSession(10 * MINUTE));
+      const startedAt = Date.now();
+      manager.start();
+
+      await jest.advanceTimersByTimeAsync(50_000);
+      expect(onIdleWarning).toHaveBeenCalledWith(new Date(startedAt + MINUTE));
+      expect(tab.logout).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(10_000);
+      expect(onSessionEnded).toHaveBeenCalledWith("idle", undefined);
+      expect(tab.logout).toHaveBeenCalledTimes(1);
+    });
+
+    it("should clear the warning on activity", async () => {
+      const onIdleWarningCleared = jest.fn();
+      const onActivity = jest.fn();
+      const { tab, manager, touch } = idleTab({
+        onIdleWarningCleared,
+        onActivity,
+      });
+      tab.publish(issueSession(10 * MINUTE));
+      manager.start();
+
+      await jest.advanceTimersByTimeAsync(55_000);
+      touch();
+      await jest.advanceTimersByTimeAsync(30_000);
+
+      expect(onIdleWarningCleared).toHaveBeenCalledTimes(1);
+      expect(onActivity).toHaveBeenCalledTimes(1);
+      expect(tab.logout).not.toHaveBeenCalled();
+    });
+
+    it("should count activity in other tabs", async () => {
+      const active = idleTab({});
+      const background = openTab({ idleTimeoutMin: 1 });
+      active.tab.publish(issueSession(10 * MINUTE));
+      background.tab.publish(browser.stored.session);
+      active.manager.start();
+      background.manager.start();
+
+      await jest.advanceTimersByTimeAsync(40_000);
+      active.touch();
+      await jest.advanceTimersByTimeAsync(30_000);
+
+      expect(background.tab.logout).not.toHaveBeenCalled();
+    });
+
+    it("should keep counting from the activity before a reload", async () => {
+      const onIdleWarning = jest.fn();
+      const { tab, manager } = idleTab({ onIdleWarning });
+      tab.publish(issueSession(10 * MINUTE));
+
+      manager.start(new Date(Date.now() - 55_000));
+
+      expect(onIdleWarning).toHaveBeenCalled();
+    });
+  });
+
+  // ============================================================================
+  // Store bindings
+  // ============================================================================
+
+  describe("startSessionLifecycle", () => {
+    it("should show and dismiss the idle warning through useUIStore", async () => {
+      jest.spyOn(console, "warn").mockImplementation(() => {});
+      const tab = new FakeTab(browser);
+      tab.publish(issueSession(10 * MINUTE));
+      const stop = startSessionLifecycle(tab as unknown as IAuthProvider, {
+        idleTimeoutMin: 1,
+        idleWarningSec: 10,
+      });
+
+      await jest.advanceTimersByTimeAsync(MINUTE - 1000);
+      expect(useUIStore.getState().notifications).toEqual([
+        expect.objectContaining({ type: "warning", autoClose: false }),
+      ]);
+
+      window.dispatchEvent(new Event("keydown"));
+      expect(useUIStore.getState().notifications).toEqual([]);
+      stop();
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { SupabaseAuthProvider } from "@/shared/services/auth/providers/supabase-auth-provider";
+import {
+  SESSION_COOKIE_NAME,
+  sessionCookieStorage,
+} from "@/shared/services/auth/session";
+
+import {
+  FakeGoTrue,
+  GOTRUE_URL,
+  clearCookies,
+  createStubAuthClient,
+} from "./fake-gotrue";
+import { installWebCrypto } from "./fake-oidc-issuer";
+
+jest.mock("@/config/env", () => ({ getEnv: (): object => ({}) }));
+
+const CALLBACK = "http://localhost/auth/callback";
+
+let gotrue: FakeGoTrue;
+let provider: SupabaseAuthProvider;
+
+// What the browser is sent to, and comes back from, for one sign-in
+const signIn = async (email: string): Promise<string> => {
+  const { url } = await provider.signInWithOAuth("github", {
+    redirectTo: `${CALLBACK}?next=/settings`,
+  });
+  return gotrue.authorize(url, email);
+};
+
+beforeAll(installWebCrypto);
+
+beforeEach(() => {
+  // jsdom logs the redirect to the identity provider as not implemented,
+  // and supabase-js warns about one client per test sharing the cookie
+  jest.spyOn(console, "error").mockImplementation(() => undefined);
+  jest.spyOn(console, "warn").mockImplementation(() => undefined);
+  clearCookies();
+  gotrue = new FakeGoTrue();
+  provider = new SupabaseAuthProvider(createStubAuthClient(gotrue));
+});
+
+describe("SupabaseAuthProvider PKCE exchange", () => {
+  it("should send an S256 challenge and exchange the code with its verifier", async () => {
+    const { url } = await provider.signInWithOAuth("github", {
+      redirectTo: CALLBACK,
+      scopes: ["read:user", "user:email"],
+    });
+    const params = new URL(url).searchParams;
+
+    expect(url.startsWith(`${GOTRUE_URL}/auth/v1/authorize?`)).toBe(true);
+    expect(params.get("provider")).toBe("github");
+    expect(params.get("scopes")).toBe("read:user user:email");
+    expect(params.get("code_challenge_method")).toBe("s256");
+
+    const session = await provider.handleOAuthCallback(
+      gotrue.authorize(url, "ada@example.com"),
+    );
+
+    expect(session).toMatchObject({
+      user: { id: "user-ada", email: "ada@example.com" },
+      aal: "aal1",
+    });
+    expect(provider.getState()).toMatchObject({
+      isAuthenticated: true,
+      error: null,
+    });
+    expect(gotrue.tokenRequests()[0].code_verifier).toEqual(expect.any(String));
+    expect(
+      JSON.parse(sessionCookieStorage.getItem(SESSION_COOKIE_NAME) ?? "{}"),
+    ).toMatchObject({ refresh_token: session.refreshToken });
+  });
+
+  it("should exchange each code only once", async () => {
+    const callback = await signIn("ada@example.com");
+    await provider.handleOAuthCallback(callback);
+
+    await expect(provider.handleOAuthCallback(callback)).rejects.toMatchObject({
+      details: expect.objectContaining({
+        name: "AuthPKCECodeVerifierMissingError",
+      }),
+    });
+    expect(gotrue.tokenRequests()).toHaveLength(1);
+  });
+});
+
+describe("SupabaseAuthProvider OAuth callback checks", () => {
+  it("should reject a code issued to an earlier sign-in", async () => {
+    const stale = await signIn("ada@example.com");
+    // Starting again replaces the stored verifier
+    await signIn("ada@example.com");
+
+    await expect(provider.handleOAuthCallback(stale)).rejects.toMatchObject({
+      message: "code challenge does not match previously saved code verifier",
+    });
+    expect(provider.getState()).toMatchObject({
+      isAuthenticated: false,
+      isLoading: false,
+      error: expect.objectContaining({ details: expect.anything() }),
+    });
+  });
+
+  it("should fail callbacks without a code before calling the server", async () => {
+    await expect(
+      provider.handleOAuthCallback(
+        `${CALLBACK}?error=access_denied&error_description=User+denied+access`,
+      ),
+    ).rejects.toEqual({ code: "access_denied", message: "User denied access" });
+    await expect(provider.handleOAuthCallback(CALLBACK)).rejects.toMatchObject({
+      code: "missing_oauth_code",
+    });
+
+    expect(gotrue.requests).toEqual([]);
+    expect(provider.getState().error).toMatchObject({
+      code: "missing_oauth_code",
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { SupabaseAuthProvider } from "@/shared/services/auth/providers/supabase-auth-provider";
+
+import { FakeGoTrue, clearCookies, createStubAuthClient } from "./fake-gotrue";
+import { installWebCrypto } from "./fake-oidc-issuer";
+
+jest.mock("@/config/env", () => ({ getEnv: (): object => ({}) }));
+
+const EMAIL = "ada@example.com";
+
+let gotrue: FakeGoTrue;
+let provider: SupabaseAuthProvider;
+
+const otpRequest = (): Record<string, unknown> | undefined =>
+  gotrue.requests.find(({ path }) => path === "/auth/v1/otp");
+
+beforeAll(installWebCrypto);
+
+beforeEach(() => {
+  // supabase-js warns about one client per test sharing the cookie
+  jest.spyOn(console, "warn").mockImplementation(() => undefined);
+  clearCookies();
+  gotrue = new FakeGoTrue();
+  provider = new SupabaseAuthProvider(createStubAuthClient(gotrue));
+});
+
+describe("SupabaseAuthProvider magic links", () => {
+  it("should send a PKCE magic link back to the callback page", async () => {
+    await provider.sendMagicLink(EMAIL);
+
+    expect(otpRequest()).toMatchObject({
+      query: `?redirect_to=${encodeURIComponent("http://localhost/auth/callback")}`,
+      body: {
+        email: EMAIL,
+        create_user: true,
+        code_challenge_method: "s256",
+      },
+    });
+    expect(provider.getState()).toMatchObject({
+      isAuthenticated: false,
+      isLoading: false,
+      error: null,
+    });
+
+    // The callback page exchanges the link's code like an OAuth one
+    const session = await provider.handleOAuthCallback(gotrue.outbox[0].link);
+    expect(session.user.email).toBe(EMAIL);
+    expect(provider.getState().isAuthenticated).toBe(true);
+  });
+
+  it("should pass a custom redirect through", async () => {
+    await provider.sendMagicLink(
+      EMAIL,
+      "http://localhost/auth/callback?next=/team",
+    );
+
+    expect(gotrue.outbox[0].link).toMatch(
+      /^http:\/\/localhost\/auth\/callback\?next=%2Fteam&code=/,
+    );
+  });
+});
+
+describe("SupabaseAuthProvider email OTP", () => {
+  it("should sign in with the emailed code", async () => {
+    await provider.sendMagicLink(EMAIL);
+
+    const session = await provider.verifyOtp(
+      EMAIL,
+      gotrue.outbox[0].otp,
+      "email",
+    );
+
+    expect(session).toMatchObject({
+      user: { id: "user-ada", email: EMAIL },
+      aal: "aal1",
+    });
+    expect(gotrue.requests.at(-1)?.body).toMatchObject({
+      email: EMAIL,
+      token: gotrue.outbox[0].otp,
+      type: "email",
+    });
+    expect(provider.getState()).toMatchObject({
+      isAuthenticated: true,
+      session: { token: session.token },
+    });
+  });
+
+  it("should reject a wrong or reused code and keep the user signed out", async () => {
+    await provider.sendMagicLink(EMAIL);
+    const { otp } = gotrue.outbox[0];
+
+    await expect(
+      provider.verifyOtp(EMAIL, "000000", "email"),
+    ).rejects.toMatchObject({
+      message: "Token has expired or is invalid",
+    });
+    expect(provider.getState()).toMatchObject({
+      isAuthenticated: false,
+      error: { message: "Token has expired or is invalid" },
+    });
+
+    await provider.verifyOtp(EMAIL, otp, "email");
+    await expect(provider.verifyOtp(EMAIL, otp, "email")).rejects.toMatchObject(
+      {
+        message: "Token has expired or is invalid",
+      },
+    );
+  });
+});
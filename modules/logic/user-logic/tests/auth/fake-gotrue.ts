@@ -0,0 +1,201 @@
+import { webcrypto } from "crypto";
+
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+
+import { sessionCookieAuthOptions } from "@/shared/services/auth/session";
+
+import { base64Url } from "./fake-oidc-issuer";
+
+// ============================================================================
+// Local fake Supabase Auth (GoTrue) server, served through an injected fetch
+// PKCE code exchange, email OTPs and magic links; codes and OTPs are single
+// use, and a code only exchanges with the verifier its challenge came from
+// ============================================================================
+
+export const GOTRUE_URL = "https://project.supabase.co";
+
+type Body = Record<string, unknown>;
+
+export interface IFakeEmail {
+  email: string;
+  otp: string;
+  // Where the magic link lands once GoTrue has verified it
+  link: string;
+}
+
+interface IFakeGoTrueResponse {
+  ok: boolean;
+  status: number;
+  headers: { get: (name: string) => string | null };
+  json: () => Promise<unknown>;
+  text: () => Promise<string>;
+}
+
+const respond = (status: number, body: unknown): IFakeGoTrueResponse => ({
+  ok: status < 400,
+  status,
+  headers: { get: () => null },
+  json: async () => body,
+  text: async () => JSON.stringify(body),
+});
+
+// GoTrue error bodies: `msg` is what the client turns into error.message
+const fail = (status: number, code: string, msg: string): IFakeGoTrueResponse =>
+  respond(status, { code: status, error_code: code, msg });
+
+// Unsigned: the mappers only read the claims
+const accessToken = (claims: Body): string =>
+  [{ alg: "HS256", typ: "JWT" }, claims, "signature"]
+    .map((part) => base64Url(JSON.stringify(part)))
+    .join(".");
+
+export class FakeGoTrue {
+  requests: { path: string; query: string; body: Body }[] = [];
+  outbox: IFakeEmail[] = [];
+  // Authorization code -> the sign-in it completes
+  private codes = new Map<string, { email: string; challenge: string }>();
+  private otps = new Map<string, string>();
+  private counter = 0;
+
+  // The identity provider signs `email` in and sends the browser back
+  authorize(authorizeUrl: string, email: string): string {
+    const params = new URL(authorizeUrl).searchParams;
+    return this.redirectWithCode(
+      params.get("redirect_to") ?? "",
+      email,
+      params.get("code_challenge") ?? "",
+    );
+  }
+
+  tokenRequests(): Body[] {
+    return this.requests
+      .filter(({ path }) => path === "/auth/v1/token")
+      .map(({ body }) => body);
+  }
+
+  fetch = (async (input: string, init?: RequestInit) => {
+    const url = new URL(input);
+    const body: Body =
+      typeof init?.body === "string" ? JSON.parse(init.body) : {};
+    this.requests.push({ path: url.pathname, query: url.search, body });
+
+    switch (url.pathname) {
+      case "/auth/v1/token":
+        return this.exchange(body);
+      case "/auth/v1/otp":
+        return this.sendOtp(body, url.searchParams.get("redirect_to"));
+      case "/auth/v1/verify":
+        return this.verify(body);
+      case "/auth/v1/logout":
+        return respond(204, {});
+      default:
+        return fail(404, "not_found", `No route for ${url.pathname}`);
+    }
+  }) as unknown as typeof fetch;
+
+  private redirectWithCode(
+    redirectTo: string,
+    email: string,
+    challenge: string,
+  ): string {
+    const code = `code-${++this.counter}`;
+    this.codes.set(code, { email, challenge });
+    const url = new URL(redirectTo);
+    url.searchParams.set("code", code);
+    return url.toString();
+  }
+
+  private async exchange(body: Body): Promise<IFakeGoTrueResponse> {
+    const issued = this.codes.get(String(body.auth_code));
+    this.codes.delete(String(body.auth_code));
+    if (!issued) {
+      return fail(404, "flow_state_not_found", "invalid flow state");
+    }
+
+    const digest = await webcrypto.subtle.digest(
+      "SHA-256",
+      new TextEncoder().encode(String(body.code_verifier)),
+    );
+    if (base64Url(digest) !== issued.challenge) {
+      return fail(
+        403,
+        "bad_code_verifier",
+        "code challenge does not match previously saved code verifier",
+      );
+    }
+    return respond(200, this.session(issued.email));
+  }
+
+  private sendOtp(body: Body, redirectTo: string | null): IFakeGoTrueResponse {
+    const email = String(body.email);
+    const otp = String(100000 + ++this.counter);
+    this.otps.set(email, otp);
+    this.outbox.push({
+      email,
+      otp,
+      link: this.redirectWithCode(
+        redirectTo ?? `${GOTRUE_URL}/`,
+        email,
+        String(body.code_challenge ?? ""),
+      ),
+    });
+    return respond(200, {});
+  }
+
+  private verify(body: Body): IFakeGoTrueResponse {
+    const email = String(body.email);
+    if (!body.token || this.otps.get(email) !== body.token) {
+      return fail(403, "otp_expired", "Token has expired or is invalid");
+    }
+    this.otps.delete(email);
+    return respond(200, this.session(email));
+  }
+
+  private session(email: string): Body {
+    const id = `user-${email.split("@")[0]}`;
+    const now = Math.floor(Date.now() / 1000);
+    return {
+      access_token: accessToken({
+        sub: id,
+        aal: "aal1",
+        session_id: `session-${++this.counter}`,
+        exp: now + 3600,
+      }),
+      token_type: "bearer",
+      expires_in: 3600,
+      expires_at: now + 3600,
+      refresh_token: `refresh-${this.counter}`,
+      user: {
+        id,
+        aud: "authenticated",
+        email,
+        app_metadata: { provider: "email" },
+        user_metadata: {},
+        identities: [],
+        created_at: "2026-10-18T10:00:00Z",
+      },
+    };
+  }
+}
+
+// Set up like createBrowserAuthClient, but talking to the stub
+export const createStubAuthClient = (gotrue: FakeGoTrue): SupabaseClient =>
+  createClient(GOTRUE_URL, "anon-key", {
+    global: { fetch: gotrue.fetch },
+    auth: {
+      flowType: "pkce",
+      detectSessionInUrl: false,
+      autoRefreshToken: false,
+      ...sessionCookieAuthOptions,
+    },
+  });
+
+// Drops the session and PKCE verifier cookies between tests
+export const clearCookies = (): void => {
+  document.cookie
+    .split("; ")
+    .filter(Boolean)
+    .forEach((pair) => {
+      document.cookie = `${pair.split("=")[0]}=; Path=/; Max-Age=0`;
+    });
+};
@@ -0,0 +1,221 @@
+import { webcrypto } from "crypto";
+import { TextDecoder, TextEncoder } from "util";
+
+// ============================================================================
+// Local fake OpenID Connect issuer, served through an injected fetch
+// Issues codes, signs RS256 ID tokens, rotates refresh tokens
+// ============================================================================
+
+export interface IFakeIssuerOptions {
+  issuer: string;
+  clientId: string;
+  tokenPath: string;
+  jwksPath: string;
+  // Paths are relative to the issuer origin
+  authorizePath?: string;
+  endSessionPath?: string;
+  // Serve .well-known/openid-configuration
+  discovery?: boolean;
+  // Token endpoint body: JSON (Auth0) or form encoded (RFC 6749)
+  bodyFormat?: "json" | "form";
+  // Claims of every ID token
+  profile?: Record<string, unknown>;
+  // Extra endpoints, e.g. Auth0 /dbconnections/change_password
+  routes?: Record<string, (body: Record<string, string>) => unknown>;
+}
+
+export interface IFakeResponse {
+  ok: boolean;
+  status: number;
+  json: () => Promise<unknown>;
+  text: () => Promise<string>;
+}
+
+export const base64Url = (bytes: ArrayBuffer | Uint8Array | string): string =>
+  Buffer.from(
+    typeof bytes === "string" ? bytes : new Uint8Array(bytes),
+  ).toString("base64url");
+
+const respond = (status: number, body: unknown): IFakeResponse => ({
+  ok: status < 400,
+  status,
+  json: async () => body,
+  text: async () => JSON.stringify(body),
+});
+
+// jsdom has neither SubtleCrypto nor TextEncoder
+export const installWebCrypto = (): void => {
+  Object.assign(globalThis, { TextEncoder, TextDecoder });
+  Object.defineProperty(globalThis.crypto, "subtle", {
+    value: webcrypto.subtle,
+    configurable: true,
+  });
+  Object.defineProperty(globalThis.crypto, "getRandomValues", {
+    value: (array: Uint8Array) => webcrypto.getRandomValues(array),
+    configurable: true,
+  });
+};
+
+export class FakeOidcIssuer {
+  requests: { url: string; body?: Record<string, string> }[] = [];
+  validRefreshTokens = new Set<string>();
+  idTokenOverrides: Record<string, unknown> = {};
+  // Lifetime of issued access tokens
+  expiresIn = 86400;
+  kid = "key-1";
+  private keyPair!: CryptoKeyPair;
+  private publicJwk!: JsonWebKey;
+  // Authorization codes handed out by authorize()
+  private codes = new Map<string, { challenge: string; nonce: string }>();
+  private counter = 0;
+
+  constructor(private options: IFakeIssuerOptions) {}
+
+  get origin(): string {
+    return new URL(this.options.issuer).origin;
+  }
+
+  async setup(): Promise<void> {
+    this.keyPair = (await webcrypto.subtle.generateKey(
+      {
+        name: "RSASSA-PKCS1-v1_5",
+        modulusLength: 2048,
+        publicExponent: new Uint8Array([1, 0, 1]),
+        hash: "SHA-256",
+      },
+      true,
+      ["sign", "verify"],
+    )) as CryptoKeyPair;
+    this.publicJwk = await webcrypto.subtle.exportKey(
+      "jwk",
+      this.keyPair.publicKey as webcrypto.CryptoKey,
+    );
+  }
+
+  // New signing key under a new kid, as issuers do on rotation
+  async rotateKeys(): Promise<void> {
+    this.kid = `key-${++this.counter}`;
+    await this.setup();
+  }
+
+  // What the browser comes back with after the user signs in
+  authorize(authorizeUrl: string): string {
+    const params = new URL(authorizeUrl).searchParams;
+    const code = `code-${++this.counter}`;
+    this.codes.set(code, {
+      challenge: params.get("code_challenge") ?? "",
+      nonce: params.get("nonce") ?? "",
+    });
+    return `${params.get("redirect_uri")}?code=${code}&state=${params.get("state")}`;
+  }
+
+  async signIdToken(claims: Record<string, unknown>): Promise<string> {
+    const header = base64Url(
+      JSON.stringify({ alg: "RS256", typ: "JWT", kid: this.kid }),
+    );
+    const payload = base64Url(JSON.stringify(claims));
+    const signature = await webcrypto.subtle.sign(
+      "RSASSA-PKCS1-v1_5",
+      this.keyPair.privateKey as webcrypto.CryptoKey,
+      new TextEncoder().encode(`${header}.${payload}`),
+    );
+    return `${header}.${payload}.${base64Url(signature)}`;
+  }
+
+  discoveryDocument(): Record<string, unknown> {
+    const at = (path?: string): string | undefined =>
+      path ? `${this.origin}${path}` : undefined;
+    return {
+      issuer: this.options.issuer,
+      authorization_endpoint: at(this.options.authorizePath ?? "/authorize"),
+      token_endpoint: at(this.options.tokenPath),
+      jwks_uri: at(this.options.jwksPath),
+      end_session_endpoint: at(this.options.endSessionPath),
+      code_challenge_methods_supported: ["S256"],
+    };
+  }
+
+  fetch = (async (input: string, init?: RequestInit) => {
+    const path = new URL(input).pathname;
+    const body = this.parseBody(init);
+    this.requests.push({ url: input, body });
+
+    const issuerPath = new URL(this.options.issuer).pathname.replace(/\/$/, "");
+    if (
+      this.options.discovery &&
+      path === `${issuerPath}/.well-known/openid-configuration`
+    ) {
+      return respond(200, this.discoveryDocument());
+    }
+    if (path === this.options.jwksPath) {
+      return respond(200, { keys: [{ ...this.publicJwk, kid: this.kid }] });
+    }
+    if (path === this.options.tokenPath) return this.token(body ?? {});
+
+    const route = this.options.routes?.[path];
+    return route ? respond(200, route(body ?? {})) : respond(404, {});
+  }) as unknown as typeof fetch;
+
+  private parseBody(init?: RequestInit): Record<string, string> | undefined {
+    if (typeof init?.body !== "string") return undefined;
+    return this.options.bodyFormat === "form"
+      ? Object.fromEntries(new URLSearchParams(init.body))
+      : JSON.parse(init.body);
+  }
+
+  private async token(body: Record<string, string>): Promise<IFakeResponse> {
+    if (body.grant_type === "authorization_code") {
+      const issued = this.codes.get(body.code);
+      this.codes.delete(body.code);
+      const digest = await webcrypto.subtle.digest(
+        "SHA-256",
+        new TextEncoder().encode(body.code_verifier),
+      );
+      if (!issued || base64Url(digest) !== issued.challenge) {
+        return respond(400, {
+          error: "invalid_grant",
+          error_description: "Invalid authorization code",
+        });
+      }
+      return respond(200, await this.tokens(issued.nonce));
+    }
+
+    if (!this.validRefreshTokens.delete(body.refresh_token)) {
+      return respond(400, {
+        error: "invalid_grant",
+        error_description: "Invalid refresh token",
+      });
+    }
+    return respond(200, await this.tokens());
+  }
+
+  private async tokens(nonce?: string): Promise<Record<string, unknown>> {
+    const now = Math.floor(Date.now() / 1000);
+    const refreshToken = `refresh-${++this.counter}`;
+    this.validRefreshTokens.add(refreshToken);
+    return {
+      access_token: `access-${this.counter}`,
+      refresh_token: refreshToken,
+      id_token: await this.signIdToken({
+        iss: this.options.issuer,
+        aud: this.options.clientId,
+        nonce,
+        iat: now,
+        exp: now + 3600,
+        ...this.options.profile,
+        ...this.idTokenOverrides,
+      }),
+      expires_in: this.expiresIn,
+      token_type: "Bearer",
+    };
+  }
+}
+
+export const memoryStorage = (): Storage => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key),
+  } as Storage;
+};
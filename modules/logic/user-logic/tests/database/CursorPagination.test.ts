@@ -0,0 +1,163 @@
+import {
+  decodeCursor,
+  encodeCursor,
+  resolveCursorQuery,
+} from "@/shared/services/database/cursor-pagination";
+import { MemoryDatabaseProvider } from "@/shared/services/database/providers/memory";
+import type { IDatabaseRecord, IQueryOptions } from "@/shared/types/database";
+
+interface IEvent extends IDatabaseRecord {
+  starts_at: string | null;
+}
+
+const event = (id: string, startsAt: string | null): IEvent => ({
+  id,
+  starts_at: startsAt,
+  created_at: "2026-10-18T10:00:00Z",
+  updated_at: "2026-10-18T10:00:00Z",
+});
+
+const db = new MemoryDatabaseProvider({
+  seed: {
+    events: [
+      event("e1", "2026-10-01"),
+      event("e2", null),
+      event("e3", "2026-10-03"),
+      event("e4", null),
+      event("e5", "2026-10-01"),
+      event("e6", "2026-10-02"),
+    ],
+  },
+});
+
+// Every page forward, then every page back from the start of the last one
+const pageThrough = async (
+  orderBy: IQueryOptions["orderBy"],
+): Promise<{ forward: string[]; backward: string[] }> => {
+  const forward: string[] = [];
+  let after: string | null = null;
+  let last: string | null = null;
+  do {
+    const page: Awaited<ReturnType<typeof db.select<IEvent>>> =
+      await db.select<IEvent>("events", { orderBy, limit: 2, after });
+    forward.push(...(page.data ?? []).map(({ id }) => id));
+    last = page.pageInfo?.previousCursor ?? last;
+    after = page.pageInfo?.nextCursor ?? null;
+  } while (after);
+
+  const backward: string[] = [];
+  let before: string | null = last;
+  while (before) {
+    const page: Awaited<ReturnType<typeof db.select<IEvent>>> =
+      await db.select<IEvent>("events", { orderBy, limit: 2, before });
+    backward.unshift(...(page.data ?? []).map(({ id }) => id));
+    before = page.pageInfo?.hasPreviousPage
+      ? page.pageInfo.previousCursor
+      : null;
+  }
+  return { forward, backward };
+};
+
+describe("cursor pagination", () => {
+  it("should round-trip cursors and reject ones for another sort order", () => {
+    const orderBy = [{ column: "starts_at" }, { column: "id" }];
+    const cursor = encodeCursor(event("e2", null), orderBy);
+
+    expect(decodeCursor(cursor, orderBy)).toEqual([null, "e2"]);
+    expect(() => decodeCursor(cursor, [{ column: "id" }])).toThrow(
+      expect.objectContaining({ code: "invalid_cursor" }),
+    );
+  });
+
+  it("should page through NULL sort values ascending (NULLs last)", async () => {
+    const { forward, backward } = await pageThrough([{ column: "starts_at" }]);
+
+    expect(forward).toEqual(["e1", "e5", "e6", "e3", "e2", "e4"]);
+    expect(backward).toEqual(["e1", "e5", "e6", "e3"]);
+  });
+
+  it("should page through NULL sort values descending (NULLs first)", async () => {
+    const { forward, backward } = await pageThrough([
+      { column: "starts_at", ascending: false },
+    ]);
+
+    expect(forward).toEqual(["e4", "e2", "e3", "e6", "e5", "e1"]);
+    expect(backward).toEqual(["e4", "e2", "e3", "e6"]);
+  });
+
+  it("should match NULL cursor values with IS NULL / IS NOT NULL", () => {
+    const orderBy = [{ column: "starts_at" }, { column: "id" }];
+    const after = encodeCursor(event("e2", null), orderBy);
+
+    expect(resolveCursorQuery({ orderBy, after }).filters).toEqual([
+      {
+        type: "or",
+        filters: [
+          {
+            type: "and",
+            filters: [
+              { column: "starts_at", operator: "is", value: null },
+              { column: "id", operator: "gt", value: "e2" },
+            ],
+          },
+        ],
+      },
+    ]);
+    expect(resolveCursorQuery({ orderBy, before: after }).filters).toEqual([
+      {
+        type: "or",
+        filters: [
+          {
+            type: "and",
+            filters: [{ column: "starts_at", operator: "not.is", value: null }],
+          },
+          {
+            type: "and",
+            filters: [
+              { column: "starts_at", operator: "is", value: null },
+              { column: "id", operator: "lt", value: "e2" },
+            ],
+          },
+        ],
+      },
+    ]);
+  });
+});
+
+describe("cursor pagination from either end", () => {
+  it("should start from the last page with before: null", async () => {
+    const orderBy = [{ column: "starts_at" }];
+    const last = await db.select<IEvent>("events", {
+      orderBy,
+      limit: 2,
+      before: null,
+    });
+    const previous = await db.select<IEvent>("events", {
+      orderBy,
+      limit: 2,
+      before: last.pageInfo?.previousCursor,
+    });
+
+    expect(last.data?.map(({ id }) => id)).toEqual(["e2", "e4"]);
+    expect(last.pageInfo).toMatchObject({
+      hasNextPage: false,
+      nextCursor: null,
+      hasPreviousPage: true,
+    });
+    expect(previous.data?.map(({ id }) => id)).toEqual(["e6", "e3"]);
+    expect(previous.pageInfo).toMatchObject({
+      hasNextPage: true,
+      hasPreviousPage: true,
+    });
+  });
+
+  it("should return no rows for limit: 0 but still report more", async () => {
+    const page = await db.select<IEvent>("events", { limit: 0, after: null });
+
+    expect(page.data).toEqual([]);
+    expect(page.pageInfo).toMatchObject({
+      hasNextPage: true,
+      hasPreviousPage: false,
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import {
+  acquireLiveQuery,
+  releaseLiveQuery,
+  type LiveQuery,
+} from "@/shared/services/database/live-query";
+import { MemoryDatabaseProvider } from "@/shared/services/database/providers/memory";
+import type { IDatabaseRecord, IQueryOptions } from "@/shared/types/database";
+
+interface ITask extends IDatabaseRecord {
+  title: string;
+  team: string;
+}
+
+const task = (id: string, title: string, team = "a"): ITask => ({
+  id,
+  title,
+  team,
+  created_at: "2026-10-18T10:00:00Z",
+  updated_at: "2026-10-18T10:00:00Z",
+});
+
+// Lets the select and the realtime dispatch started by a write run
+const settle = (): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, 0));
+
+const BY_TITLE: IQueryOptions["orderBy"] = [{ column: "title" }];
+
+let database: MemoryDatabaseProvider;
+let select: jest.SpyInstance;
+
+const open = async (options: IQueryOptions): Promise<LiveQuery<ITask>> => {
+  const query = acquireLiveQuery<ITask>(database, "tasks", options);
+  await settle();
+  return query;
+};
+
+const titles = (query: LiveQuery<ITask>): string[] =>
+  (query.getState().data ?? []).map((row) => row.title);
+
+beforeEach(() => {
+  database = new MemoryDatabaseProvider({
+    seed: {
+      tasks: [
+        task("t1", "alpha"),
+        task("t2", "delta"),
+        task("t3", "bravo", "b"),
+      ],
+    },
+  });
+  select = jest.spyOn(database, "select");
+});
+
+describe("LiveQuery registry", () => {
+  it("should share one select and subscription between identical queries", async () => {
+    const subscribe = jest.spyOn(database, "subscribe");
+    const first = await open({ where: { team: "a" }, limit: 5 });
+    const second = await open({ limit: 5, where: { team: "a" } });
+
+    expect(second).toBe(first);
+    expect(select).toHaveBeenCalledTimes(1);
+    expect(subscribe).toHaveBeenCalledTimes(1);
+
+    releaseLiveQuery(database, first);
+    await database.insert("tasks", task("t4", "charlie"));
+    await settle();
+    expect(titles(first)).toEqual(["alpha", "delta", "charlie"]);
+
+    // The last release unsubscribes: later changes no longer arrive
+    releaseLiveQuery(database, second);
+    await database.insert("tasks", task("t5", "echo"));
+    await settle();
+    expect(titles(first)).toEqual(["alpha", "delta", "charlie"]);
+  });
+});
+
+describe("LiveQuery invalidation", () => {
+  it("should patch matching changes in place, in order, without a select", async () => {
+    const query = await open({ where: { team: "a" }, orderBy: BY_TITLE });
+
+    await database.insert("tasks", task("t4", "charlie"));
+    await database.insert("tasks", task("t5", "echo", "b"));
+    await database.update("tasks", "t1", { team: "b" });
+    await database.update("tasks", "t3", { team: "a" });
+    await settle();
+
+    expect(titles(query)).toEqual(["bravo", "charlie", "delta"]);
+    expect(query.getState().count).toBe(3);
+    expect(select).toHaveBeenCalledTimes(1);
+  });
+
+  it("should re-select when a row leaves a full page", async () => {
+    const query = await open({ orderBy: BY_TITLE, limit: 2 });
+    expect(titles(query)).toEqual(["alpha", "bravo"]);
+
+    await database.delete("tasks", "t1");
+    await settle();
+
+    // Only the server knows which row moves up into the page
+    expect(titles(query)).toEqual(["bravo", "delta"]);
+    expect(select).toHaveBeenCalledTimes(2);
+  });
+
+  it("should re-select offset windows on every relevant change", async () => {
+    const query = await open({ orderBy: BY_TITLE, offset: 1 });
+
+    await database.insert("tasks", task("t4", "aaron"));
+    await settle();
+
+    expect(titles(query)).toEqual(["alpha", "bravo", "delta"]);
+    expect(select).toHaveBeenCalledTimes(2);
+  });
+
+  it("should ignore changes to rows it neither holds nor matches", async () => {
+    const query = await open({ where: { team: "b" } });
+    const listener = jest.fn();
+    query.subscribe(listener);
+
+    await database.update("tasks", "t1", { title: "renamed" });
+    await settle();
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(titles(query)).toEqual(["bravo"]);
+  });
+});
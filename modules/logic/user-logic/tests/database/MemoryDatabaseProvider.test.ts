@@ -0,0 +1,229 @@
+import { MemoryDatabaseProvider } from "@/shared/services/database/providers/memory";
+import type {
+  IDatabaseRecord,
+  IQueryOptions,
+  IRealtimeEvent,
+} from "@/shared/types/database";
+
+interface IPerson extends IDatabaseRecord {
+  name: string;
+  age: number | null;
+}
+
+const person = (id: string, name: string, age: number | null): IPerson => ({
+  id,
+  name,
+  age,
+  created_at: "2026-10-18T10:00:00Z",
+  updated_at: "2026-10-18T10:00:00Z",
+});
+
+const seed = {
+  people: [
+    person("p1", "ada", 36),
+    person("p2", "Bob", 41),
+    person("p3", "carol", null),
+    person("p4", "Dave", 29),
+    person("p5", "eve", 36),
+  ],
+};
+
+describe("MemoryDatabaseProvider", () => {
+  let db: MemoryDatabaseProvider;
+
+  beforeEach(() => {
+    db = new MemoryDatabaseProvider({ seed });
+  });
+
+  describe("queries", () => {
+    it("should filter, sort with NULLs last and paginate", async () => {
+      const { data, count } = await db.select<IPerson>("people", {
+        filters: [{ column: "age", operator: "gte", value: 30 }],
+        orderBy: [{ column: "age", ascending: false }],
+        limit: 2,
+      });
+
+      expect(data?.map(({ id }) => id)).toEqual(["p2", "p1"]);
+      expect(count).toBe(3);
+
+      const sorted = await db.select<IPerson>("people", {
+        orderBy: [{ column: "age" }, { column: "id" }],
+      });
+      expect(sorted.data?.map(({ id }) => id)).toEqual([
+        "p4",
+        "p1",
+        "p5",
+        "p2",
+        "p3",
+      ]);
+    });
+
+    it("should honor limit 0", async () => {
+      const { data, count } = await db.select("people", { limit: 0 });
+
+      expect(data).toEqual([]);
+      expect(count).toBe(5);
+    });
+
+    it("should page through mixed-case strings without skipping rows", async () => {
+      const names: string[] = [];
+      let after: string | null = null;
+
+      do {
+        const page: Awaited<ReturnType<typeof db.select<IPerson>>> =
+          await db.select<IPerson>("people", {
+            orderBy: [{ column: "name" }],
+            limit: 2,
+            after,
+          });
+        names.push(...(page.data ?? []).map(({ name }) => name));
+        after = page.pageInfo?.nextCursor ?? null;
+      } while (after);
+
+      expect(names).toEqual(["Bob", "Dave", "ada", "carol", "eve"]);
+    });
+  });
+
+  describe("comparisons", () => {
+    it("should compare only values of the same type", async () => {
+      const ids = async (
+        value: unknown,
+        operator: "eq" | "neq",
+      ): Promise<string[] | undefined> =>
+        (
+          await db.select<IPerson>("people", {
+            filters: [{ column: "age", operator, value }],
+          })
+        ).data?.map(({ id }) => id);
+
+      expect(await ids("36", "eq")).toEqual([]);
+      expect(await ids(36, "eq")).toEqual(["p1", "p5"]);
+      expect(await ids("36", "neq")).toEqual(["p1", "p2", "p4", "p5"]);
+    });
+
+    it("should compare Dates as the ISO strings rows store", async () => {
+      const at = new Date("2026-10-19T10:00:00Z");
+      // Written through the provider, as Date#toISOString formats it
+      await db.insert("people", {
+        id: "p6",
+        name: "frank",
+        age: 50,
+        created_at: at,
+      });
+      const ids = async (
+        options: IQueryOptions,
+      ): Promise<string[] | undefined> =>
+        (await db.select("people", options)).data?.map(({ id }) => id);
+
+      expect(
+        await ids({
+          filters: [{ column: "created_at", operator: "gte", value: at }],
+        }),
+      ).toEqual(["p6"]);
+      expect(await ids({ where: { created_at: at } })).toEqual(["p6"]);
+    });
+  });
+
+  describe("writes", () => {
+    it("should reject duplicate ids within one insert batch", async () => {
+      const { data, error } = await db.insert("people", [
+        { id: "p9", name: "zed", age: 1 },
+        { id: "p9", name: "zoe", age: 2 },
+      ]);
+
+      expect(data).toBeNull();
+      expect(error?.code).toBe("23505");
+      expect((await db.count("people")).data).toBe(5);
+    });
+
+    it("should upsert on the conflict columns", async () => {
+      await db.upsert("people", [
+        { id: "p1", name: "ada", age: 37 },
+        { id: "p6", name: "frank", age: 50 },
+      ]);
+
+      expect((await db.selectOne<IPerson>("people", "p1")).data?.age).toBe(37);
+      expect((await db.exists("people", "p6")).data).toBe(true);
+    });
+  });
+
+  describe("ids", () => {
+    it("should refuse updates that change a row's id", async () => {
+      const updated = await db.update("people", "p1", { id: "p9" });
+      const updatedBy = await db.updateBy("people", "age", 36, { id: "p9" });
+
+      expect(updated.error?.code).toBe("428C9");
+      expect(updatedBy.error?.code).toBe("428C9");
+      expect((await db.exists("people", "p1")).data).toBe(true);
+      expect((await db.exists("people", "p9")).data).toBe(false);
+    });
+
+    it("should refuse upserts that rename a row or reuse a taken id", async () => {
+      const renamed = await db.upsert(
+        "people",
+        [
+          { id: "p6", name: "frank", age: 50 },
+          { id: "p2", name: "ada", age: 37 },
+        ],
+        ["name"],
+      );
+      const duplicate = await db.upsert(
+        "people",
+        { id: "p2", name: "zed", age: 1 },
+        ["name"],
+      );
+
+      expect(renamed.error?.code).toBe("428C9");
+      expect(duplicate.error?.code).toBe("23505");
+      // Nothing of either batch was written
+      expect((await db.count("people")).data).toBe(5);
+      expect((await db.selectOne<IPerson>("people", "p1")).data?.age).toBe(36);
+    });
+  });
+
+  describe("transactions", () => {
+    it("should undo only the transaction's writes on rollback", async () => {
+      const { error } = await db.transaction(async (tx) => {
+        await tx.insert("people", { id: "p6", name: "frank", age: 50 });
+        await tx.update("people", "p1", { age: 99 });
+        await tx.delete("people", "p2");
+        // Another caller writes while the transaction runs
+        await db.insert("people", { id: "p7", name: "grace", age: 45 });
+        throw new Error("abort");
+      });
+
+      expect(error).not.toBeNull();
+      const { data } = await db.select<IPerson>("people", {
+        orderBy: [{ column: "id" }],
+      });
+      expect(data?.map(({ id, age }) => [id, age])).toEqual([
+        ["p1", 36],
+        ["p2", 41],
+        ["p3", null],
+        ["p4", 29],
+        ["p5", 36],
+        ["p7", 45],
+      ]);
+    });
+
+    it("should publish the transaction's events only on commit", async () => {
+      const events: IRealtimeEvent[] = [];
+      await db.subscribe("people", (event) => events.push(event));
+
+      await db.transaction(async (tx) => {
+        await tx.update("people", "p1", { age: 37 });
+        await db.insert("people", { id: "p7", name: "grace", age: 45 });
+        expect(events.map(({ eventType }) => eventType)).toEqual(["INSERT"]);
+      });
+      await db.transaction(async (tx) => {
+        await tx.delete("people", "p2");
+        throw new Error("abort");
+      });
+
+      expect(events.map(({ eventType }) => eventType)).toEqual([
+        "INSERT",
+        "UPDATE",
+      ]);
+    });
+  });
+});
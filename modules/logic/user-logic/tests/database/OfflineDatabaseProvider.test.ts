@@ -0,0 +1,204 @@
+import { OfflineDatabaseProvider } from "@/shared/services/database/offline";
+import { LocalQueueLocks } from "@/shared/services/database/offline/queue-locks";
+import { MemoryDatabaseProvider } from "@/shared/services/database/providers/memory";
+import type { IDatabaseRecord } from "@/shared/types/database";
+import type {
+  IOfflineOperation,
+  IOfflineQueueStorage,
+} from "@/shared/types/offline";
+
+interface IPerson extends IDatabaseRecord {
+  name: string;
+  team: string;
+}
+
+const STORAGE_KEY = "offline-queue";
+
+const person = (
+  id: string,
+  name: string,
+  team: string,
+  updatedAt = "2020-01-01T10:00:00Z",
+): IPerson => ({
+  id,
+  name,
+  team,
+  created_at: "2020-01-01T10:00:00Z",
+  updated_at: updatedAt,
+});
+
+// localStorage stand-in: values go through JSON, as they would there
+const createStorage = (): IOfflineQueueStorage & {
+  read: () => { pending: IOfflineOperation[] } | null;
+} => {
+  const values = new Map<string, string>();
+  return {
+    get: async <T>(key: string): Promise<T | null> =>
+      JSON.parse(values.get(key) ?? "null"),
+    set: async <T>(key: string, value: T): Promise<void> => {
+      values.set(key, JSON.stringify(value));
+    },
+    remove: async (key: string): Promise<void> => {
+      values.delete(key);
+    },
+    read: () => JSON.parse(values.get(STORAGE_KEY) ?? "null"),
+  };
+};
+
+describe("OfflineDatabaseProvider", () => {
+  let online: boolean;
+  let server: MemoryDatabaseProvider;
+  let storage: ReturnType<typeof createStorage>;
+  let locks: LocalQueueLocks;
+
+  // Tabs of one origin: same server, storage and locks
+  const openTab = (): OfflineDatabaseProvider =>
+    new OfflineDatabaseProvider(server, {
+      storage,
+      storageKey: STORAGE_KEY,
+      locks,
+      isOnline: () => online,
+    });
+
+  const people = async (): Promise<Record<string, IPerson>> => {
+    const { data } = await server.select<IPerson>("people");
+    return Object.fromEntries((data ?? []).map((row) => [row.id, row]));
+  };
+
+  beforeEach(() => {
+    online = false;
+    server = new MemoryDatabaseProvider({
+      seed: {
+        people: [
+          person("p1", "ada", "a"),
+          person("p2", "bob", "a"),
+          person("p3", "carol", "b"),
+          person("p4", "dave", "b", "2099-01-01T10:00:00Z"),
+        ],
+      },
+    });
+    storage = createStorage();
+    locks = new LocalQueueLocks();
+  });
+
+  it("should queue writes offline and replay them in order", async () => {
+    const tab = openTab();
+
+    const inserted = await tab.insert<IPerson>("people", {
+      name: "eve",
+      team: "c",
+    });
+    const id = inserted.data?.[0].id as string;
+    await tab.update("people", id, { team: "a" });
+    await tab.delete("people", "p3");
+
+    expect(tab.getQueueStatus().pending).toBe(3);
+    expect(Object.keys(await people())).toHaveLength(4);
+
+    online = true;
+    const status = await tab.syncQueue();
+
+    const rows = await people();
+    expect(status).toMatchObject({ pending: 0, failed: [], lastError: null });
+    expect(rows[id]).toMatchObject({ name: "eve", team: "a" });
+    expect(rows.p3).toBeUndefined();
+    expect(storage.read()).toBeNull();
+  });
+
+  it("should queue upsert, updateBy and deleteBy", async () => {
+    const tab = openTab();
+
+    const updated = await tab.updateBy("people", "team", "a", { team: "z" });
+    await tab.deleteBy("people", "name", "carol");
+    await tab.upsert("people", [
+      { id: "p5", name: "frank", team: "c" },
+      { id: "p1", name: "ada", team: "y" },
+    ]);
+    await tab.upsert("people", { name: "bob", team: "x" }, ["name"]);
+
+    expect(updated).toEqual({ data: [], error: null });
+    expect(
+      storage.read()?.pending.map(({ type, recordId }) => [type, recordId]),
+    ).toEqual([
+      ["updateBy", undefined],
+      ["deleteBy", undefined],
+      ["upsert", "p5"],
+      ["upsert", "p1"],
+      ["upsert", undefined],
+    ]);
+
+    online = true;
+    await tab.syncQueue();
+
+    const rows = await people();
+    expect(rows.p1.team).toBe("y");
+    expect(rows.p2.team).toBe("x");
+    expect(rows.p3).toBeUndefined();
+    expect(rows.p5).toMatchObject({ name: "frank", team: "c" });
+  });
+
+  it("should keep the server copy when it changed since the version read", async () => {
+    const tab = openTab();
+    online = true;
+    await tab.selectOne("people", "p1");
+    online = false;
+
+    // Edited elsewhere before the local write, so queuedAt is the later one
+    await server.update("people", "p1", { team: "remote" });
+    await tab.update("people", "p1", { team: "local" });
+    await tab.upsert("people", { id: "p1", name: "ada", team: "local" });
+    online = true;
+    const status = await tab.syncQueue();
+
+    expect((await people()).p1.team).toBe("remote");
+    expect(status).toMatchObject({ pending: 0, conflicts: 2 });
+  });
+
+  it("should not compare the server timestamp with the client clock", async () => {
+    const tab = openTab();
+    online = true;
+    await tab.select("people");
+    online = false;
+
+    // p4 was last written in 2099 by the server clock, unchanged since
+    await tab.update("people", "p4", { team: "local" });
+    online = true;
+    const status = await tab.syncQueue();
+
+    expect((await people()).p4.team).toBe("local");
+    expect(status).toMatchObject({ pending: 0, conflicts: 0 });
+    expect(storage.read()).toBeNull();
+  });
+
+  it("should share the queue between tabs without losing or replaying writes", async () => {
+    const [first, second] = [openTab(), openTab()];
+    const insert = jest.spyOn(server, "insert");
+
+    await Promise.all([
+      first.insert("people", { id: "p6", name: "gus", team: "c" }),
+      second.insert("people", { id: "p7", name: "hal", team: "c" }),
+    ]);
+    await second.update("people", "p6", { team: "d" });
+    expect(storage.read()?.pending).toHaveLength(3);
+
+    online = true;
+    await Promise.all([first.syncQueue(), second.syncQueue()]);
+
+    const rows = await people();
+    expect(insert).toHaveBeenCalledTimes(2);
+    expect(rows.p6.team).toBe("d");
+    expect(rows.p7.name).toBe("hal");
+    expect(first.getQueueStatus().pending).toBe(0);
+  });
+
+  it("should not let an online write overtake another tab's queue", async () => {
+    const [first, second] = [openTab(), openTab()];
+    await first.update("people", "p1", { team: "queued" });
+
+    online = true;
+    await second.update("people", "p1", { team: "latest" });
+    await second.syncQueue();
+
+    expect((await people()).p1.team).toBe("latest");
+  });
+});
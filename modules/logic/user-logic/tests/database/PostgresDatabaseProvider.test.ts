@@ -0,0 +1,171 @@
+import { newDb } from "pg-mem";
+
+import { PostgresDatabaseProvider } from "@/shared/services/database/providers/postgres";
+import {
+  buildUpdateQuery,
+  buildUpsertQuery,
+} from "@/shared/services/database/providers/postgres/sql-builder";
+import type { IDatabaseRecord } from "@/shared/types/database";
+import type {
+  IPostgresPool,
+  IPostgresPoolClient,
+} from "@/shared/types/postgres";
+
+// Pools are injected from pg-mem; the real driver is never loaded
+jest.mock("pg", () => ({ Pool: jest.fn() }));
+
+interface ITag extends IDatabaseRecord {
+  name: string;
+  uses: number | null;
+}
+
+// Statements sent on clients checked out for transactions: pg-mem does not
+// undo writes on ROLLBACK, so rollbacks are checked by what was sent
+let transactionLog: string[];
+
+const createDatabase = (): PostgresDatabaseProvider => {
+  const db = newDb();
+  db.public.none(`
+    CREATE TABLE tags (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL UNIQUE,
+      uses INTEGER,
+      created_at TEXT,
+      updated_at TEXT
+    );
+    INSERT INTO tags (id, name, uses) VALUES
+      ('t1', 'alpha', 3), ('t2', 'beta', NULL), ('t3', 'gamma', 10);
+  `);
+  const { Pool } = db.adapters.createPg();
+  const pool = new Pool() as IPostgresPool;
+  const connect = pool.connect.bind(pool);
+  transactionLog = [];
+  pool.connect = async (): Promise<IPostgresPoolClient> => {
+    const client = await connect();
+    const query = client.query.bind(client);
+    client.query = ((text: string, values?: unknown[]) => {
+      transactionLog.push(text.split(" ")[0]);
+      return query(text, values);
+    }) as typeof client.query;
+    return client;
+  };
+  return new PostgresDatabaseProvider({ pool });
+};
+
+describe("PostgresDatabaseProvider", () => {
+  let db: PostgresDatabaseProvider;
+
+  beforeEach(() => {
+    db = createDatabase();
+  });
+
+  describe("queries", () => {
+    it("should filter, sort and count past the page", async () => {
+      const { data, count } = await db.select<ITag>("tags", {
+        filters: [
+          {
+            type: "or",
+            filters: [
+              { column: "uses", operator: "gt", value: 5 },
+              { column: "uses", operator: "is", value: null },
+            ],
+          },
+        ],
+        orderBy: [{ column: "name", ascending: false }],
+        limit: 1,
+      });
+
+      expect(data?.map(({ id }) => id)).toEqual(["t3"]);
+      expect(count).toBe(2);
+    });
+
+    it("should honor limit 0", async () => {
+      const { data, count } = await db.select("tags", { limit: 0 });
+
+      expect(data).toEqual([]);
+      expect(count).toBe(3);
+    });
+
+    it("should page with cursors across NULL sort values", async () => {
+      const ids: string[] = [];
+      let after: string | null = null;
+      do {
+        const page: Awaited<ReturnType<typeof db.select<ITag>>> =
+          await db.select<ITag>("tags", {
+            orderBy: [{ column: "uses" }],
+            limit: 2,
+            after,
+          });
+        ids.push(...(page.data ?? []).map(({ id }) => id));
+        after = page.pageInfo?.nextCursor ?? null;
+      } while (after);
+
+      expect(ids).toEqual(["t1", "t3", "t2"]);
+    });
+  });
+
+  describe("writes", () => {
+    it("should insert, update and delete returning the rows", async () => {
+      const inserted = await db.insert<ITag>("tags", {
+        id: "t4",
+        name: "delta",
+      });
+      const updated = await db.update<ITag>("tags", "t4", { uses: 1 });
+      const removed = await db.delete<ITag>("tags", "t4");
+
+      expect(inserted.data).toEqual([expect.objectContaining({ id: "t4" })]);
+      expect(updated.data).toMatchObject({ id: "t4", uses: 1 });
+      expect(removed.data).toMatchObject({ id: "t4" });
+      expect((await db.exists("tags", "t4")).data).toBe(false);
+    });
+
+    it("should return the existing row for a key-only upsert", async () => {
+      const { data, error } = await db.upsert<ITag>("tags", { id: "t1" });
+
+      expect(error).toBeNull();
+      expect(data).toEqual([expect.objectContaining({ id: "t1", uses: 3 })]);
+    });
+
+    it("should surface constraint violations with the Postgres code", async () => {
+      const { error } = await db.insert("tags", { id: "t9", name: "alpha" });
+
+      expect(error?.code).toBe("23505");
+    });
+
+    it("should reject updates with nothing to set", () => {
+      expect(() => buildUpdateQuery("tags", {}, { id: "t1" })).toThrow(
+        "needs at least one column",
+      );
+      expect(buildUpsertQuery("tags", [{ id: "t1" }], ["id"]).text).toContain(
+        'DO UPDATE SET "id" = EXCLUDED."id"',
+      );
+    });
+  });
+
+  describe("transactions", () => {
+    it("should roll back on its own client when the callback throws", async () => {
+      const { error } = await db.transaction(async (tx) => {
+        await tx.insert("tags", { id: "t4", name: "delta" });
+        await tx.update("tags", "t1", { uses: 99 });
+        throw new Error("abort");
+      });
+
+      expect(error?.message).toBe("abort");
+      expect(transactionLog).toEqual(["BEGIN", "INSERT", "UPDATE", "ROLLBACK"]);
+    });
+
+    it("should commit when the callback resolves", async () => {
+      const { data } = await db.transaction(async (tx) => {
+        const [tag] = await tx.insert<ITag>("tags", {
+          id: "t4",
+          name: "delta",
+        });
+        return tag.id;
+      });
+
+      expect(data).toBe("t4");
+      expect(transactionLog).toEqual(["BEGIN", "INSERT", "COMMIT"]);
+      expect((await db.count("tags")).data).toBe(4);
+    });
+  });
+});
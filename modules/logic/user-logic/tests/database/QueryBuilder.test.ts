@@ -0,0 +1,171 @@
+import { MemoryDatabaseProvider } from "@/shared/services/database/providers/memory";
+import { SupabaseDatabaseProvider } from "@/shared/services/database/providers/supabase";
+import {
+  applyFilters,
+  buildSelectClause,
+} from "@/shared/services/database/providers/supabase/query-compiler";
+import { QueryBuilder } from "@/shared/services/database/query-builder";
+import type { IDatabaseRecord } from "@/shared/types/database";
+
+import { FakeSupabase } from "./fake-supabase";
+
+let mockSupabase: FakeSupabase;
+
+jest.mock("@supabase/supabase-js", () => ({
+  createClient: () => mockSupabase,
+}));
+
+jest.mock("@/config/env", () => ({
+  getEnv: () => ({
+    NEXT_PUBLIC_SUPABASE_URL: "https://project.supabase.co",
+    NEXT_PUBLIC_SUPABASE_ANON_KEY: "anon-key",
+    SUPABASE_SERVICE_ROLE_KEY: "service-role-key",
+  }),
+}));
+
+interface IPost extends IDatabaseRecord {
+  title: string;
+  status: string;
+  views: number;
+  author_id: string | null;
+}
+
+const popularOrUnassigned = QueryBuilder.from<IPost>("posts")
+  .select("id", "title")
+  .neq("status", "draft")
+  .or((group) =>
+    group.gte("views", 100).and((inner) => inner.isNull("author_id")),
+  )
+  .with("profiles", { alias: "author", foreignKey: "author_id" })
+  .orderBy("views", false)
+  .range(10, 19);
+
+describe("QueryBuilder", () => {
+  it("should build provider-neutral query options", () => {
+    expect(popularOrUnassigned.build()).toEqual({
+      select: ["id", "title"],
+      filters: [
+        { column: "status", operator: "neq", value: "draft" },
+        {
+          type: "or",
+          filters: [
+            { column: "views", operator: "gte", value: 100 },
+            {
+              type: "and",
+              filters: [{ column: "author_id", operator: "is", value: null }],
+            },
+          ],
+        },
+      ],
+      relations: [
+        { table: "profiles", alias: "author", foreignKey: "author_id" },
+      ],
+      orderBy: [{ column: "views", ascending: false }],
+      offset: 10,
+      limit: 10,
+    });
+  });
+
+  it("should drop empty groups and keep the limit when switching to a cursor", () => {
+    const options = QueryBuilder.from<IPost>("posts")
+      .or(() => undefined)
+      .limit(5)
+      .after(null)
+      .build();
+
+    expect(options).toEqual({ limit: 5, after: null });
+  });
+
+  it("should run against the in-memory provider", async () => {
+    const db = new MemoryDatabaseProvider({
+      seed: {
+        posts: [
+          { id: "1", title: "a", status: "draft", views: 500, author_id: "u" },
+          { id: "2", title: "b", status: "live", views: 150, author_id: "u" },
+          { id: "3", title: "c", status: "live", views: 5, author_id: null },
+          { id: "4", title: "d", status: "live", views: 5, author_id: "u" },
+        ],
+      },
+    });
+
+    const { data } = await QueryBuilder.from<IPost>("posts")
+      .neq("status", "draft")
+      .or((group) => group.gte("views", 100).isNull("author_id"))
+      .orderBy("id")
+      .execute(db);
+
+    expect(data?.map(({ id }) => id)).toEqual(["2", "3"]);
+  });
+});
+
+describe("Supabase query compiler", () => {
+  it("should compile filters to PostgREST calls, quoting reserved characters", () => {
+    mockSupabase = new FakeSupabase();
+    const query = mockSupabase.from("posts");
+
+    applyFilters(query, [
+      { column: "views", operator: "gt", value: 10 },
+      { column: "status", operator: "in", value: ["live", "archived"] },
+      { column: "author_id", operator: "is", value: null },
+      {
+        type: "or",
+        filters: [
+          { column: "title", operator: "ilike", value: "%hello, world%" },
+          {
+            type: "and",
+            filters: [
+              { column: "status", operator: "eq", value: 'say "hi"' },
+              { column: "views", operator: "in", value: [1, 2] },
+            ],
+          },
+        ],
+      },
+    ]);
+
+    expect(query.calls).toEqual([
+      ["filter", "views", "gt", 10],
+      ["in", "status", ["live", "archived"]],
+      ["is", "author_id", null],
+      [
+        "or",
+        'title.ilike."%hello, world%",and(status.eq."say \\"hi\\"",views.in.(1,2))',
+      ],
+    ]);
+  });
+
+  it("should compile nested relations to a select clause", () => {
+    expect(
+      buildSelectClause(
+        ["id"],
+        [
+          {
+            table: "profiles",
+            alias: "author",
+            foreignKey: "author_id",
+            select: ["id", "name"],
+            relations: [{ table: "avatars", select: ["url"] }],
+          },
+          { table: "comments", referencedBy: "post_id" },
+        ],
+      ),
+    ).toBe(
+      "id,author:profiles!author_id(id,name,avatars(url)),comments!post_id(*)",
+    );
+  });
+
+  it("should send a built query through the Supabase provider", async () => {
+    mockSupabase = new FakeSupabase();
+    await popularOrUnassigned.execute(new SupabaseDatabaseProvider());
+
+    const [query] = mockSupabase.queries;
+    expect(query.table).toBe("posts");
+    expect(query.calls).toEqual([
+      ["select", "id,title,author:profiles!author_id(*)", { count: "exact" }],
+      ["filter", "status", "neq", "draft"],
+      ["or", "views.gte.100,and(author_id.is.null)"],
+      ["order", "views", { ascending: false }],
+      ["limit", 10],
+      ["range", 10, 19],
+    ]);
+  });
+});
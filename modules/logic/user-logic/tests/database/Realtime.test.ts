@@ -0,0 +1,248 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { MemoryDatabaseProvider } from "@/shared/services/database/providers/memory";
+import { PresenceHandler } from "@/shared/services/database/providers/supabase/presence-handler";
+import { RealtimeHandler } from "@/shared/services/database/providers/supabase/realtime-handler";
+import type { IDatabaseRecord, IRealtimeEvent } from "@/shared/types/database";
+import type { PresenceState } from "@/shared/types/realtime";
+
+interface IMember extends IDatabaseRecord {
+  name: string;
+  team: string;
+  score: number;
+}
+
+interface IEditor extends Record<string, unknown> {
+  name: string;
+  typing?: boolean;
+}
+
+type StatusCallback = (status: string) => void;
+type Handler = (payload: unknown) => void;
+
+// Just the channel surface the realtime and presence handlers use; the
+// presence state is set by the test, as the server would on sync
+class FakeChannel {
+  handlers: [type: string, filter: object, handler: Handler][] = [];
+  tracked: Record<string, unknown>[] = [];
+  presence: PresenceState = {};
+  status: StatusCallback = () => undefined;
+
+  constructor(readonly topic: string) {}
+
+  on(type: string, filter: object, handler: Handler): this {
+    this.handlers.push([type, filter, handler]);
+    return this;
+  }
+
+  subscribe(callback: StatusCallback): this {
+    this.status = callback;
+    return this;
+  }
+
+  async track(state: Record<string, unknown>): Promise<void> {
+    this.tracked.push(state);
+  }
+
+  async untrack(): Promise<void> {
+    this.tracked.push({});
+  }
+
+  presenceState(): PresenceState {
+    return this.presence;
+  }
+
+  fire(payload: unknown): void {
+    this.handlers.forEach(([, , handler]) => handler(payload));
+  }
+}
+
+const createClient = (): {
+  client: SupabaseClient;
+  opened: FakeChannel[];
+  removed: FakeChannel[];
+} => {
+  const opened: FakeChannel[] = [];
+  const removed: FakeChannel[] = [];
+  const client = {
+    channel: (topic: string): FakeChannel => {
+      const channel = new FakeChannel(topic);
+      opened.push(channel);
+      return channel;
+    },
+    removeChannel: async (channel: FakeChannel): Promise<string> => {
+      removed.push(channel);
+      return "ok";
+    },
+  };
+  return { client: client as unknown as SupabaseClient, opened, removed };
+};
+
+const member = (id: string, team: string, score: number): IMember => ({
+  id,
+  name: id,
+  team,
+  score,
+  created_at: "2026-10-18T10:00:00Z",
+  updated_at: "2026-10-18T10:00:00Z",
+});
+
+const both: PresenceState<IEditor> = {
+  ada: [{ name: "Ada", presence_ref: "r1" }],
+  bob: [{ name: "Bob", presence_ref: "r2" }],
+};
+
+describe("Realtime filters", () => {
+  let database: MemoryDatabaseProvider;
+  let events: IRealtimeEvent<IMember>[];
+  const record = (event: IRealtimeEvent<IMember>): void => {
+    events.push(event);
+  };
+  const ids = (): string[] =>
+    events.map((event) => `${event.eventType}:${(event.new ?? event.old)?.id}`);
+
+  beforeEach(() => {
+    database = new MemoryDatabaseProvider({
+      seed: { members: [member("m1", "a", 3), member("m2", "b", 8)] },
+    });
+    events = [];
+  });
+
+  it("should only deliver changes to rows matching a string filter", async () => {
+    await database.subscribe<IMember>("members", record, {
+      filter: "team=eq.a",
+    });
+
+    await database.insert("members", member("m3", "a", 1));
+    await database.insert("members", member("m4", "b", 1));
+    await database.update("members", "m2", { score: 9 });
+    await database.delete("members", "m1");
+
+    // DELETE only carries the old row, which is matched instead
+    expect(ids()).toEqual(["INSERT:m3", "DELETE:m1"]);
+  });
+
+  it("should compare string values against numeric columns as numbers", async () => {
+    await database.subscribe<IMember>("members", record, {
+      filter: "score=gt.5",
+    });
+    await database.subscribe<IMember>("members", record, {
+      filter: { column: "score", operator: "in", value: [1, 2] },
+    });
+
+    await database.insert("members", member("m3", "a", 10));
+    await database.insert("members", member("m4", "a", 2));
+    await database.insert("members", member("m5", "a", 4));
+
+    expect(ids()).toEqual(["INSERT:m3", "INSERT:m4"]);
+  });
+});
+
+describe("Realtime filter validation", () => {
+  it("should reject invalid filters on subscribe", async () => {
+    const database = new MemoryDatabaseProvider();
+
+    await expect(
+      database.subscribe("members", jest.fn(), { filter: "team=like.a%" }),
+    ).rejects.toThrow("Unsupported realtime filter operator: 'like'");
+    await expect(
+      database.subscribe("members", jest.fn(), { filter: "team" }),
+    ).rejects.toThrow("Invalid realtime filter: 'team'");
+  });
+});
+
+describe("Supabase realtime channels", () => {
+  it("should share one channel per filter and send it the formatted filter", async () => {
+    const { client, opened, removed } = createClient();
+    const realtime = new RealtimeHandler(client);
+    const first = jest.fn();
+    const second = jest.fn();
+
+    const subscription = await realtime.subscribe("members", first, {
+      filter: { column: "team", operator: "in", value: ["a", "b"] },
+    });
+    await realtime.subscribe("members", second, { filter: "team=in.(a,b)" });
+
+    expect(opened).toHaveLength(1);
+    expect(opened[0].handlers[0][1]).toEqual({
+      event: "*",
+      schema: "public",
+      table: "members",
+      filter: "team=in.(a,b)",
+    });
+
+    opened[0].fire({
+      eventType: "INSERT",
+      new: member("m3", "a", 1),
+      table: "members",
+      schema: "public",
+    });
+    await subscription.unsubscribe();
+
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledTimes(1);
+    expect(removed).toHaveLength(0);
+  });
+
+  it("should reopen a channel that errors", async () => {
+    jest.useFakeTimers();
+    const { client, opened, removed } = createClient();
+    const realtime = new RealtimeHandler(client, 10);
+    const listener = jest.fn();
+    await realtime.subscribe("members", listener);
+
+    opened[0].status("CHANNEL_ERROR");
+    await jest.advanceTimersByTimeAsync(10);
+    opened[1].fire({ eventType: "DELETE", old: member("m1", "a", 3) });
+
+    expect(removed).toEqual([opened[0]]);
+    expect(listener).toHaveBeenCalledTimes(1);
+    jest.useRealTimers();
+  });
+});
+
+describe("Supabase presence", () => {
+  it("should merge joins to one channel and publish the latest state", async () => {
+    const { client, opened } = createClient();
+    const presence = new PresenceHandler(client);
+    const first = jest.fn();
+    const second = jest.fn();
+
+    const ada: IEditor = { name: "Ada" };
+    const editor = await presence.join("doc-1", ada, first, { key: "ada" });
+    await presence.join("doc-1", { name: "Ada", typing: true }, second);
+    const [channel] = opened;
+
+    // Nothing is tracked before the channel joins
+    expect(channel.tracked).toEqual([]);
+    channel.status("SUBSCRIBED");
+    channel.presence = both;
+    channel.handlers[0][2]({});
+
+    expect(opened.map(({ topic }) => topic)).toEqual(["presence:doc-1"]);
+    expect(channel.tracked).toEqual([{ name: "Ada", typing: true }]);
+    expect(first).toHaveBeenCalledWith(both);
+    expect(second).toHaveBeenCalledWith(both);
+    expect(editor.getState()).toEqual(both);
+
+    await editor.track({ name: "Ada", typing: false });
+    expect(channel.tracked.at(-1)).toEqual({ name: "Ada", typing: false });
+  });
+
+  it("should keep the channel until the last join leaves", async () => {
+    const { client, opened, removed } = createClient();
+    const presence = new PresenceHandler(client);
+
+    const first = await presence.join("doc-1", { name: "Ada" }, jest.fn());
+    const second = await presence.join("doc-1", { name: "Ada" }, jest.fn());
+    opened[0].status("SUBSCRIBED");
+
+    await first.leave();
+    expect(removed).toHaveLength(0);
+    expect(presence.getActiveChannels()).toEqual(["doc-1"]);
+
+    await second.leave();
+    expect(removed).toEqual([opened[0]]);
+    expect(presence.getActiveChannels()).toEqual([]);
+  });
+});
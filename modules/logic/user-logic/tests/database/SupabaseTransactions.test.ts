@@ -0,0 +1,180 @@
+import { SupabaseDatabaseProvider } from "@/shared/services/database/providers/supabase";
+import type { ITransactionOperation } from "@/shared/services/database/providers/supabase/transaction-context";
+
+import { FakeSupabase, copy, type Row } from "./fake-supabase";
+
+let mockSupabase: FakeSupabase;
+
+jest.mock("@supabase/supabase-js", () => ({
+  createClient: () => mockSupabase,
+}));
+
+jest.mock("@/config/env", () => ({
+  getEnv: () => ({
+    NEXT_PUBLIC_SUPABASE_URL: "https://project.supabase.co",
+    NEXT_PUBLIC_SUPABASE_ANON_KEY: "anon-key",
+    SUPABASE_SERVICE_ROLE_KEY: "service-role-key",
+  }),
+}));
+
+const post = (id: string, title: string): Row => ({
+  id,
+  title,
+  created_at: "2026-10-01T10:00:00Z",
+});
+
+type Result = Awaited<ReturnType<FakeSupabase["rpc"]>>;
+
+const apply = (
+  database: FakeSupabase,
+  { type, table, id, data = {} }: ITransactionOperation,
+): Result => {
+  const matched = database.rows(table).filter((row) => row.id === id);
+  const writes: Record<ITransactionOperation["type"], () => Result> = {
+    insert: () => database.insertRows(table, [data]),
+    upsert: () => database.upsertRows(table, [data], ["id"]),
+    update: () => database.patch(table, matched, data),
+    delete: () => database.remove(table, matched),
+  };
+  const result = writes[type]();
+  if (type === "update" && matched.length === 0) {
+    return {
+      data: null,
+      error: { code: "P0002", message: `Row ${id} not found` },
+    };
+  }
+  return result;
+};
+
+// execute_transaction (database/transaction-rpc.sql): all operations or none,
+// one affected row per operation
+const executeTransaction = (
+  { operations }: Record<string, unknown>,
+  database: FakeSupabase,
+): Result => {
+  const snapshot = copy(database.tables);
+  const results: unknown[] = [];
+  for (const operation of operations as ITransactionOperation[]) {
+    const { data, error } = apply(database, operation);
+    if (error) {
+      database.tables = snapshot;
+      return { data: null, error };
+    }
+    results.push((data as Row[])[0] ?? null);
+  }
+  return { data: results, error: null };
+};
+
+describe("SupabaseDatabaseProvider transactions", () => {
+  let db: SupabaseDatabaseProvider;
+
+  beforeEach(() => {
+    mockSupabase = new FakeSupabase({
+      posts: [post("post-1", "Hello"), post("post-2", "World")],
+    });
+    mockSupabase.onRpc("execute_transaction", executeTransaction);
+    db = new SupabaseDatabaseProvider();
+  });
+
+  describe("compensate mode", () => {
+    it("should undo applied writes when the callback throws", async () => {
+      const { data, error } = await db.transaction(async (tx) => {
+        await tx.insert("posts", { id: "post-3", title: "New" });
+        await tx.update("posts", "post-1", { title: "Changed" });
+        await tx.delete("posts", "post-2");
+        throw new Error("abort");
+      });
+
+      expect(data).toBeNull();
+      expect(error).toMatchObject({ code: "unknown_error", message: "abort" });
+      expect(
+        mockSupabase.rows("posts").map(({ id, title }) => [id, title]),
+      ).toEqual(
+        expect.arrayContaining([
+          ["post-1", "Hello"],
+          ["post-2", "World"],
+        ]),
+      );
+      expect(mockSupabase.rows("posts")).toHaveLength(2);
+    });
+
+    it("should report a failed operation as the provider maps it", async () => {
+      mockSupabase.failNext("posts", "update", {
+        code: "23514",
+        message: "check constraint",
+        hint: "title is required",
+      });
+
+      const { error } = await db.transaction(async (tx) => {
+        await tx.insert("posts", { id: "post-3", title: "New" });
+        await tx.update("posts", "post-1", { title: "" });
+      });
+
+      expect(error).toMatchObject({
+        code: "23514",
+        message: "check constraint",
+        hint: "title is required",
+      });
+      expect(mockSupabase.rows("posts").map(({ id }) => id)).toEqual([
+        "post-1",
+        "post-2",
+      ]);
+    });
+  });
+
+  describe("batch mode", () => {
+    it("should give inserts their id up front and fill rows on commit", async () => {
+      const { data, error } = await db.transaction(
+        async (tx) => {
+          const [created] = await tx.insert("posts", { title: "New" });
+          const updated = await tx.update("posts", "post-1", {
+            title: "Changed",
+          });
+          expect(created.id).toEqual(expect.any(String));
+          expect(created.created_at).toBeUndefined();
+          return { created, updated };
+        },
+        { mode: "batch" },
+      );
+
+      expect(error).toBeNull();
+      expect(data?.created).toMatchObject({
+        title: "New",
+        created_at: "2026-10-18T10:00:00Z",
+      });
+      expect(data?.updated).toMatchObject({
+        id: "post-1",
+        title: "Changed",
+        created_at: "2026-10-01T10:00:00Z",
+      });
+      const [[, args]] = mockSupabase.rpcCalls;
+      expect(args.operations).toEqual([
+        {
+          type: "insert",
+          table: "posts",
+          data: { title: "New", id: data?.created.id },
+        },
+        {
+          type: "update",
+          table: "posts",
+          id: "post-1",
+          data: { title: "Changed" },
+        },
+      ]);
+      expect(mockSupabase.rows("posts")).toHaveLength(3);
+    });
+
+    it("should write nothing when the batch fails", async () => {
+      const { error } = await db.transaction(
+        async (tx) => {
+          await tx.insert("posts", { id: "post-3", title: "New" });
+          await tx.update("posts", "missing", { title: "Changed" });
+        },
+        { mode: "batch" },
+      );
+
+      expect(error).toMatchObject({ code: "P0002" });
+      expect(mockSupabase.rows("posts")).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,243 @@
+// ============================================================================
+// Fake Supabase client over in-memory tables
+// Just the PostgREST surface the Supabase database provider uses: writes with
+// .select() / .single(), eq filters, upsert on the conflict columns, and rpc()
+// handlers. Every builder call is logged so tests can check what a query
+// compiles to
+// ============================================================================
+
+export type Row = Record<string, unknown> & { id: string };
+type Values = Record<string, unknown>;
+type Result = { data: unknown; error: unknown; count?: number };
+type Call = [method: string, ...args: unknown[]];
+type Operation = "select" | "insert" | "update" | "delete" | "upsert";
+type RpcHandler = (args: Values, database: FakeSupabase) => Result;
+
+const NOT_FOUND = { code: "PGRST116", message: "No rows found" };
+
+// Results are copies, like rows that came over the wire
+export const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value)) as T;
+
+const toArray = <T>(data: T | T[]): T[] =>
+  Array.isArray(data) ? data : [data];
+
+export class FakeQuery implements PromiseLike<Result> {
+  readonly calls: Call[] = [];
+  private operation: Operation = "select";
+  private payload: Values[] = [];
+  private conflict = ["id"];
+  private equalities: [string, unknown][] = [];
+
+  constructor(
+    private database: FakeSupabase,
+    readonly table: string,
+  ) {}
+
+  select(...args: unknown[]): this {
+    this.calls.push(["select", ...args]);
+    return this;
+  }
+
+  insert(data: Values | Values[]): this {
+    this.calls.push(["insert", data]);
+    return this.write("insert", toArray(data));
+  }
+
+  update(values: Values): this {
+    this.calls.push(["update", values]);
+    return this.write("update", [values]);
+  }
+
+  upsert(data: Values | Values[], options: { onConflict?: string } = {}): this {
+    this.calls.push(["upsert", data, options]);
+    this.conflict = (options.onConflict ?? "id").split(",");
+    return this.write("upsert", toArray(data));
+  }
+
+  delete(): this {
+    this.calls.push(["delete"]);
+    return this.write("delete", []);
+  }
+
+  eq(column: string, value: unknown): this {
+    this.calls.push(["eq", column, value]);
+    this.equalities.push([column, value]);
+    return this;
+  }
+
+  // Recorded only: the transaction tests filter by id
+  filter(...args: unknown[]): this {
+    this.calls.push(["filter", ...args]);
+    return this;
+  }
+
+  in(...args: unknown[]): this {
+    this.calls.push(["in", ...args]);
+    return this;
+  }
+
+  is(...args: unknown[]): this {
+    this.calls.push(["is", ...args]);
+    return this;
+  }
+
+  or(...args: unknown[]): this {
+    this.calls.push(["or", ...args]);
+    return this;
+  }
+
+  order(...args: unknown[]): this {
+    this.calls.push(["order", ...args]);
+    return this;
+  }
+
+  limit(...args: unknown[]): this {
+    this.calls.push(["limit", ...args]);
+    return this;
+  }
+
+  range(...args: unknown[]): this {
+    this.calls.push(["range", ...args]);
+    return this;
+  }
+
+  async single(): Promise<Result> {
+    this.calls.push(["single"]);
+    const { data, error } = this.run();
+    const [row] = (data as Row[] | null) ?? [];
+    if (error || row) return { data: row ?? null, error };
+    return { data: null, error: NOT_FOUND };
+  }
+
+  then<TResult1 = Result, TResult2 = never>(
+    onfulfilled?: ((value: Result) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null,
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve(this.run()).then(onfulfilled, onrejected);
+  }
+
+  private write(operation: Operation, payload: Values[]): this {
+    this.operation = operation;
+    this.payload = payload;
+    return this;
+  }
+
+  private run(): Result {
+    const failure = this.database.takeFailure(this.table, this.operation);
+    if (failure) return { data: null, error: failure };
+
+    const matched = this.database
+      .rows(this.table)
+      .filter((row) =>
+        this.equalities.every(([column, value]) => row[column] === value),
+      );
+
+    switch (this.operation) {
+      case "insert":
+        return this.database.insertRows(this.table, this.payload);
+      case "upsert":
+        return this.database.upsertRows(
+          this.table,
+          this.payload,
+          this.conflict,
+        );
+      case "update":
+        return this.database.patch(this.table, matched, this.payload[0]);
+      case "delete":
+        return this.database.remove(this.table, matched);
+      default:
+        return { data: copy(matched), error: null, count: matched.length };
+    }
+  }
+}
+
+export class FakeSupabase {
+  readonly queries: FakeQuery[] = [];
+  readonly rpcCalls: [string, Values][] = [];
+  private failures: [string, Operation, unknown][] = [];
+  private handlers: Record<string, RpcHandler> = {};
+
+  constructor(public tables: Record<string, Row[]> = {}) {}
+
+  from(table: string): FakeQuery {
+    const query = new FakeQuery(this, table);
+    this.queries.push(query);
+    return query;
+  }
+
+  async rpc(name: string, args: Values): Promise<Result> {
+    this.rpcCalls.push([name, args]);
+    const handler = this.handlers[name];
+    if (!handler) {
+      return { data: null, error: { code: "PGRST202", message: name } };
+    }
+    return handler(args, this);
+  }
+
+  onRpc(name: string, handler: RpcHandler): void {
+    this.handlers[name] = handler;
+  }
+
+  // The next matching query fails with this error
+  failNext(table: string, operation: Operation, error: unknown): void {
+    this.failures.push([table, operation, error]);
+  }
+
+  takeFailure(table: string, operation: Operation): unknown {
+    const index = this.failures.findIndex(
+      ([failing, op]) => failing === table && op === operation,
+    );
+    if (index === -1) return null;
+    return this.failures.splice(index, 1)[0][2];
+  }
+
+  rows(table: string): Row[] {
+    return (this.tables[table] ??= []);
+  }
+
+  insertRows(table: string, payload: Values[]): Result {
+    const created = payload.map((values) => this.create(values));
+    const ids = new Set(this.rows(table).map(({ id }) => id));
+    if (created.some(({ id }) => ids.has(id))) {
+      return { data: null, error: { code: "23505", message: "duplicate key" } };
+    }
+    this.rows(table).push(...created);
+    return { data: copy(created), error: null };
+  }
+
+  upsertRows(table: string, payload: Values[], conflict: string[]): Result {
+    const affected = payload.map((values) => {
+      const existing = this.rows(table).find((row) =>
+        conflict.every((column) => row[column] === values[column]),
+      );
+      if (existing) return Object.assign(existing, values);
+
+      const row = this.create(values);
+      this.rows(table).push(row);
+      return row;
+    });
+    return { data: copy(affected), error: null };
+  }
+
+  patch(table: string, matched: Row[], values: Values): Result {
+    return {
+      data: copy(matched.map((row) => Object.assign(row, values))),
+      error: null,
+    };
+  }
+
+  remove(table: string, matched: Row[]): Result {
+    this.tables[table] = this.rows(table).filter(
+      (row) => !matched.includes(row),
+    );
+    return { data: matched, error: null };
+  }
+
+  private create(values: Values): Row {
+    return {
+      created_at: "2026-10-18T10:00:00Z",
+      ...values,
+      id: (values.id as string | undefined) ?? crypto.randomUUID(),
+    };
+  }
+}
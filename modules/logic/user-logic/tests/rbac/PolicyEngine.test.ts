@@ -0,0 +1,277 @@
+import { MemoryDatabaseProvider } from "@/shared/services/database";
+import { PolicyEngine } from "@/shared/services/rbac/policy-engine";
+import { DatabaseRBACProvider } from "@/shared/services/rbac/providers/database-rbac-provider";
+import type { IUser } from "@/shared/types/auth";
+import type { IPolicy, IPolicyResource } from "@/shared/types/policy";
+import { hasMatchingPermission } from "@/shared/types/rbac-permissions";
+
+jest.mock("@/config/env", () => ({
+  getEnv: () => ({
+    NEXT_PUBLIC_SUPABASE_URL: "https://project.supabase.co",
+    SUPABASE_SERVICE_ROLE_KEY: "service-role-key",
+  }),
+}));
+
+interface IContent extends IPolicyResource {
+  type: "content";
+  authorId: string;
+}
+
+const ada: IUser = { id: "ada", email: "ada@example.com" };
+const post: IContent = { type: "content", id: "post-1", authorId: "ada" };
+const othersPost: IContent = { ...post, id: "post-2", authorId: "bob" };
+
+const authorsEditOwnContent: IPolicy<IContent> = {
+  name: "authors-edit-own-content",
+  effect: "allow",
+  resource: "content",
+  actions: ["update", "delete"],
+  condition: (user, content) => content.authorId === user.id,
+};
+
+// Weekdays, 9:00 to 18:00 UTC
+const billingDuringBusinessHours: IPolicy = {
+  name: "billing-during-business-hours",
+  effect: "deny",
+  resource: "billing",
+  actions: ["*"],
+  condition: (_user, _resource, _action, { now }) =>
+    now.getUTCDay() % 6 === 0 ||
+    now.getUTCHours() < 9 ||
+    now.getUTCHours() >= 18,
+};
+
+const MONDAY_NOON = new Date("2026-10-19T12:00:00Z");
+const SUNDAY_NOON = new Date("2026-10-18T12:00:00Z");
+
+const holding =
+  (...permissions: string[]) =>
+  (permission: string): boolean =>
+    hasMatchingPermission(permissions, permission);
+
+describe("PolicyEngine", () => {
+  let engine: PolicyEngine;
+
+  beforeEach(() => {
+    engine = new PolicyEngine().register(
+      authorsEditOwnContent,
+      billingDuringBusinessHours,
+    );
+  });
+
+  it("should refuse without the RBAC permission, before any policy", async () => {
+    const condition = jest.fn(() => true);
+    engine.register({ ...authorsEditOwnContent, condition });
+
+    await expect(
+      engine.evaluate(
+        { user: ada, resource: post, action: "update" },
+        holding("content.read"),
+      ),
+    ).resolves.toEqual({
+      allowed: false,
+      reason: "permission_denied",
+      rule: "content.update:post-1",
+    });
+    expect(condition).not.toHaveBeenCalled();
+  });
+
+  it("should require an applicable allow policy to hold", async () => {
+    const check = holding("content.*");
+
+    await expect(
+      engine.evaluate({ user: ada, resource: post, action: "update" }, check),
+    ).resolves.toMatchObject({
+      allowed: true,
+      reason: "allow_policy",
+      rule: "authors-edit-own-content",
+    });
+    await expect(
+      engine.evaluate(
+        { user: ada, resource: othersPost, action: "update" },
+        check,
+      ),
+    ).resolves.toMatchObject({
+      allowed: false,
+      reason: "no_allow_policy",
+      rule: null,
+    });
+  });
+
+  it("should keep the RBAC decision when no policy applies", async () => {
+    await expect(
+      engine.evaluate(
+        { user: ada, resource: othersPost, action: "read" },
+        holding("content.read"),
+      ),
+    ).resolves.toMatchObject({
+      allowed: true,
+      reason: "permission_granted",
+      rule: "content.read:post-2",
+    });
+  });
+
+  it("should let a deny policy override the permission", async () => {
+    const request = {
+      user: ada,
+      resource: { type: "billing" },
+      action: "update",
+    };
+    const check = holding("billing.update");
+
+    await expect(
+      engine.evaluate({ ...request, context: { now: MONDAY_NOON } }, check),
+    ).resolves.toMatchObject({ allowed: true });
+    await expect(
+      engine.evaluate({ ...request, context: { now: SUNDAY_NOON } }, check),
+    ).resolves.toMatchObject({
+      allowed: false,
+      reason: "deny_policy",
+      rule: "billing-during-business-hours",
+    });
+  });
+
+  it("should fail closed when a condition throws", async () => {
+    const error = new Error("lookup failed");
+    engine.register({
+      name: "flaky",
+      effect: "deny",
+      resource: "*",
+      actions: ["*"],
+      condition: () => {
+        throw error;
+      },
+    });
+
+    await expect(
+      engine.evaluate(
+        { user: ada, resource: post, action: "read" },
+        holding("content.read"),
+        { explain: true },
+      ),
+    ).resolves.toMatchObject({
+      allowed: false,
+      reason: "policy_error",
+      rule: "flaky",
+      trace: [
+        { rule: "content.read:post-1", kind: "permission", matched: true },
+        { rule: "flaky", kind: "policy", matched: false, error },
+      ],
+    });
+  });
+
+  it("should deny when the permission lookup throws", async () => {
+    const error = new Error("rbac unavailable");
+    const condition = jest.fn(() => true);
+    engine.register({
+      name: "any",
+      effect: "allow",
+      resource: "*",
+      actions: ["*"],
+      condition,
+    });
+
+    await expect(
+      engine.evaluate(
+        { user: ada, resource: post, action: "read" },
+        async () => {
+          throw error;
+        },
+        { explain: true },
+      ),
+    ).resolves.toEqual({
+      allowed: false,
+      reason: "policy_error",
+      rule: "content.read:post-1",
+      trace: [
+        {
+          rule: "content.read:post-1",
+          kind: "permission",
+          matched: false,
+          error,
+        },
+      ],
+    });
+    expect(condition).not.toHaveBeenCalled();
+  });
+
+  it("should trace every rule evaluated in explain mode", async () => {
+    const decision = await engine.evaluate(
+      { user: ada, resource: post, action: "update" },
+      holding("content.update"),
+      { explain: true },
+    );
+
+    expect(decision.trace).toEqual([
+      { rule: "content.update:post-1", kind: "permission", matched: true },
+      {
+        rule: "authors-edit-own-content",
+        kind: "policy",
+        effect: "allow",
+        matched: true,
+      },
+    ]);
+  });
+
+  it("should replace a policy registered under the same name", () => {
+    engine.register({ ...authorsEditOwnContent, actions: ["update"] });
+
+    expect(engine.getPolicies().map(({ name }) => name)).toEqual([
+      "billing-during-business-hours",
+      "authors-edit-own-content",
+    ]);
+    engine.unregister("authors-edit-own-content");
+    expect(engine.getPolicies()).toHaveLength(1);
+  });
+
+  it("should authorize server-side against an RBAC provider", async () => {
+    const rbac = new DatabaseRBACProvider(
+      new MemoryDatabaseProvider({
+        seed: {
+          roles: [{ id: "role-editor", name: "editor", is_system: false }],
+          permissions: [
+            {
+              id: "perm-update",
+              name: "content.update",
+              resource: "content",
+              action: "update",
+            },
+          ],
+          role_permissions: [
+            {
+              id: "rp-1",
+              role_id: "role-editor",
+              permission_id: "perm-update",
+            },
+          ],
+          user_roles: [
+            {
+              id: "ur-1",
+              user_id: "ada",
+              role_id: "role-editor",
+              organization_id: "org-1",
+              is_active: true,
+            },
+          ],
+        },
+      }),
+    );
+
+    await expect(
+      engine.authorize(rbac, {
+        user: ada,
+        resource: post,
+        action: "update",
+        context: { organizationId: "org-1" },
+      }),
+    ).resolves.toMatchObject({ allowed: true, reason: "allow_policy" });
+    await expect(
+      engine.authorize(rbac, {
+        user: ada,
+        resource: post,
+        action: "update",
+        context: { organizationId: "org-2" },
+      }),
+    ).resolves.toMatchObject({ allowed: false, reason: "permission_denied" });
+  });
+});
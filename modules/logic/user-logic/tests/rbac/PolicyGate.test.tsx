@@ -0,0 +1,75 @@
+import { render, renderHook, screen, waitFor } from "@testing-library/react";
+
+import { PolicyGate } from "@/shared/components/rbac/PolicyGate";
+import { usePolicy } from "@/shared/hooks/use-policy";
+import { PolicyEngine } from "@/shared/services/rbac/policy-engine";
+import type { IPolicyDecision } from "@/shared/types/policy";
+
+const user = { id: "ada", email: "ada@example.com" };
+// Stable, like the callback useRBAC memoizes; swapped per test
+let permissionCheck: (permission: string) => boolean;
+const hasPermission = (permission: string): boolean =>
+  permissionCheck(permission);
+
+jest.mock("@/shared/hooks/use-auth", () => ({
+  useAuth: (): object => ({ user }),
+}));
+
+jest.mock("@/shared/hooks/use-rbac", () => ({
+  useRBAC: (): object => ({ hasPermission, loading: false }),
+}));
+
+const post = { type: "content", id: "post-1", authorId: "ada" };
+
+describe("usePolicy", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  it("should deny when the evaluation fails", async () => {
+    permissionCheck = (): boolean => {
+      throw new Error("RBAC unavailable");
+    };
+
+    const { result } = renderHook(() =>
+      usePolicy(post, "update", { engine: new PolicyEngine() }),
+    );
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(result.current).toMatchObject({
+      allowed: false,
+      decision: { allowed: false, reason: "policy_error" },
+    });
+  });
+});
+
+describe("PolicyGate", () => {
+  it("should explain each decision once, even with an inline callback", async () => {
+    permissionCheck = (permission): boolean =>
+      permission === "content.update:post-1";
+    const decisions: IPolicyDecision[] = [];
+    const engine = new PolicyEngine();
+    const gate = (): JSX.Element => (
+      <PolicyGate
+        resource={{ ...post }}
+        action="update"
+        engine={engine}
+        explain={(decision) => decisions.push(decision)}
+      >
+        <button>Edit</button>
+      </PolicyGate>
+    );
+
+    const { rerender } = render(gate());
+    await screen.findByText("Edit");
+    rerender(gate());
+    rerender(gate());
+
+    expect(decisions).toHaveLength(1);
+    expect(decisions[0]).toMatchObject({
+      allowed: true,
+      reason: "permission_granted",
+    });
+    expect(decisions[0].trace).toHaveLength(1);
+  });
+});
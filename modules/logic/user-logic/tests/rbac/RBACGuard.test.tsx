@@ -0,0 +1,127 @@
+import { render, screen } from "@testing-library/react";
+
+import { RBACProvider } from "@/shared/components/providers/rbac-provider";
+import { RBACGuard } from "@/shared/components/rbac/RBACGuard";
+import type { IPermission, IRole } from "@/shared/types/rbac";
+
+const role = (id: string, parentRoleIds: string[] = []): IRole => ({
+  id,
+  name: id,
+  isSystem: true,
+  parentRoleIds,
+  createdAt: new Date("2026-10-18T10:00:00Z"),
+  updatedAt: new Date("2026-10-18T10:00:00Z"),
+});
+
+const permission = (name: string): IPermission => {
+  const [resource, action] = name.split(".");
+  return {
+    id: name,
+    name,
+    resource,
+    action,
+    createdAt: new Date("2026-10-18T10:00:00Z"),
+  };
+};
+
+// owner inherits from admin, which inherits from member
+const catalog = [
+  role("member"),
+  role("admin", ["member"]),
+  role("owner", ["admin"]),
+];
+
+const provider = {
+  calls: [] as string[],
+  async getRoles(): Promise<IRole[]> {
+    this.calls.push("getRoles");
+    return catalog;
+  },
+  async getUserRoles(): Promise<IRole[]> {
+    this.calls.push("getUserRoles");
+    return [catalog[2]];
+  },
+  async getUserPermissions(): Promise<IPermission[]> {
+    return [permission("billing.read")];
+  },
+};
+
+jest.mock("@/config/env", () => ({ getEnv: (): object => ({}) }));
+
+jest.mock("@/shared/hooks/use-auth", () => ({
+  useAuth: (): object => ({ user: { id: "ada", email: "ada@example.com" } }),
+}));
+
+jest.mock("@/shared/components/providers/auth-provider", () => ({
+  useImpersonator: (): null => null,
+  useAssuranceLevel: (): string => "aal1",
+}));
+
+jest.mock("@/shared/services/rbac/rbac-factory", () => ({
+  registerDefaultRBACProviders: async (): Promise<void> => undefined,
+  getRBACProvider: (): typeof provider => provider,
+  RBACManager: {
+    initialize: async (): Promise<typeof provider> => provider,
+    cleanup: async (): Promise<void> => undefined,
+  },
+}));
+
+const CONFIG = { provider: "database" as const };
+
+describe("RBACGuard", () => {
+  beforeEach(() => {
+    provider.calls = [];
+  });
+
+  it("should resolve inherited roles from one catalog for every guard", async () => {
+    render(
+      <RBACProvider config={CONFIG}>
+        {["first", "second", "third"].map((name) => (
+          <RBACGuard key={name} roles={["member"]} includeInheritedRoles>
+            <span>{name}</span>
+          </RBACGuard>
+        ))}
+        <RBACGuard roles={["member"]} fallback={<span>direct only</span>}>
+          <span>member</span>
+        </RBACGuard>
+      </RBACProvider>,
+    );
+
+    expect(await screen.findByText("third")).toBeTruthy();
+    expect(screen.getByText("first")).toBeTruthy();
+    expect(screen.getByText("direct only")).toBeTruthy();
+    expect(provider.calls.filter((call) => call === "getRoles")).toHaveLength(
+      1,
+    );
+  });
+});
+
+describe("RBACGuard access states", () => {
+  it("should ask for a second factor and pass loading to render props", async () => {
+    const renders: [boolean, boolean][] = [];
+
+    render(
+      <RBACProvider config={CONFIG}>
+        <RBACGuard
+          permissions={["billing.read"]}
+          requireMfa
+          fallback={<span>denied</span>}
+          mfaFallback={<span>verify</span>}
+        >
+          <span>billing</span>
+        </RBACGuard>
+        <RBACGuard
+          permissions={["billing.read"]}
+          render={(hasAccess, loading) => {
+            renders.push([hasAccess, loading]);
+            return null;
+          }}
+        />
+      </RBACProvider>,
+    );
+
+    expect(await screen.findByText("verify")).toBeTruthy();
+    expect(renders[0]).toEqual([false, true]);
+    expect(renders[renders.length - 1]).toEqual([true, false]);
+  });
+});
@@ -0,0 +1,519 @@
+import { randomUUID } from "crypto";
+
+import { MemoryDatabaseProvider } from "@/shared/services/database";
+import { DatabaseRBACProvider } from "@/shared/services/rbac/providers/database-rbac-provider";
+import { SupabaseRBACProvider } from "@/shared/services/rbac/providers/supabase-rbac-provider";
+import {
+  RBACProviderFactory,
+  createRBACConfig,
+  registerDefaultRBACProviders,
+} from "@/shared/services/rbac/rbac-factory";
+import {
+  canAccessResource,
+  hasRequiredPermissions,
+  type IRBACProvider,
+} from "@/shared/types/rbac";
+import { permissionMatches } from "@/shared/types/rbac-permissions";
+
+import { FakePostgrest, type Tables } from "./fake-postgrest";
+
+let mockSupabase: FakePostgrest;
+
+jest.mock("@supabase/supabase-js", () => ({
+  createClient: () => mockSupabase,
+}));
+
+jest.mock("@/config/env", () => ({
+  getEnv: () => ({
+    NEXT_PUBLIC_SUPABASE_URL: "https://project.supabase.co",
+    SUPABASE_SERVICE_ROLE_KEY: "service-role-key",
+  }),
+}));
+
+const YESTERDAY = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+
+// Three roles, three permissions and the grants of two users:
+// ada is a global viewer and admin of org-1 (plus an expired editor grant);
+// bob is a viewer in org-2 and an inactive admin
+const seed = (): Tables => ({
+  roles: [
+    { id: "role-admin", name: "admin", is_system: true },
+    { id: "role-viewer", name: "viewer", is_system: true },
+    { id: "role-editor", name: "editor", is_system: false },
+  ],
+  permissions: [
+    {
+      id: "perm-read",
+      name: "content.read",
+      resource: "content",
+      action: "read",
+    },
+    {
+      id: "perm-update",
+      name: "content.update",
+      resource: "content",
+      action: "update",
+    },
+    {
+      id: "perm-invite",
+      name: "users.invite",
+      resource: "users",
+      action: "invite",
+    },
+  ],
+  role_permissions: [
+    { id: "rp-1", role_id: "role-viewer", permission_id: "perm-read" },
+    { id: "rp-2", role_id: "role-admin", permission_id: "perm-read" },
+    { id: "rp-3", role_id: "role-admin", permission_id: "perm-invite" },
+    { id: "rp-4", role_id: "role-editor", permission_id: "perm-update" },
+  ],
+  user_roles: [
+    {
+      id: "ur-1",
+      user_id: "ada",
+      role_id: "role-viewer",
+      organization_id: null,
+      is_active: true,
+      expires_at: null,
+    },
+    {
+      id: "ur-2",
+      user_id: "ada",
+      role_id: "role-admin",
+      organization_id: "org-1",
+      is_active: true,
+      expires_at: null,
+    },
+    {
+      id: "ur-3",
+      user_id: "ada",
+      role_id: "role-editor",
+      organization_id: null,
+      is_active: true,
+      expires_at: YESTERDAY,
+    },
+    {
+      id: "ur-4",
+      user_id: "bob",
+      role_id: "role-viewer",
+      organization_id: "org-2",
+      is_active: true,
+      expires_at: null,
+    },
+    {
+      id: "ur-5",
+      user_id: "bob",
+      role_id: "role-admin",
+      organization_id: null,
+      is_active: false,
+      expires_at: null,
+    },
+  ],
+});
+
+const names = (items: { name: string }[]): string[] =>
+  items.map(({ name }) => name).sort();
+
+// The memory provider ids rows with crypto.randomUUID, which jsdom lacks
+beforeAll(() => {
+  Object.defineProperty(globalThis.crypto, "randomUUID", {
+    value: randomUUID,
+    configurable: true,
+  });
+});
+
+// One behavior suite, run against every IRBACProvider implementation
+describe.each<[string, () => IRBACProvider]>([
+  [
+    "SupabaseRBACProvider",
+    () => {
+      mockSupabase = new FakePostgrest(seed());
+      return new SupabaseRBACProvider();
+    },
+  ],
+  [
+    "DatabaseRBACProvider (memory)",
+    () =>
+      new DatabaseRBACProvider(new MemoryDatabaseProvider({ seed: seed() })),
+  ],
+])("%s", (_name, createProvider) => {
+  let rbac: IRBACProvider;
+
+  beforeEach(async () => {
+    rbac = createProvider();
+    await rbac.initialize();
+  });
+
+  describe("roles and permissions", () => {
+    it("should list and find roles", async () => {
+      expect(names(await rbac.getRoles())).toEqual([
+        "admin",
+        "editor",
+        "viewer",
+      ]);
+      await expect(rbac.getRole("role-admin")).resolves.toMatchObject({
+        name: "admin",
+        isSystem: true,
+      });
+      await expect(rbac.getRole("missing")).resolves.toBeNull();
+    });
+
+    it("should create, update and delete a role with its grants", async () => {
+      const role = await rbac.createRole({ name: "auditor", isSystem: false });
+      await rbac.assignPermissionToRole(role.id, "perm-read");
+      await rbac.assignRoleToUser("carol", role.id);
+
+      await expect(
+        rbac.updateRole(role.id, { description: "Read-only audits" }),
+      ).resolves.toMatchObject({
+        name: "auditor",
+        description: "Read-only audits",
+      });
+
+      await rbac.deleteRole(role.id);
+      await expect(rbac.getRole(role.id)).resolves.toBeNull();
+      await expect(rbac.getUserRoles("carol")).resolves.toEqual([]);
+    });
+
+    it("should create, update and delete a permission", async () => {
+      const permission = await rbac.createPermission({
+        name: "reports.export",
+        resource: "reports",
+        action: "export",
+      });
+      await rbac.assignPermissionToRole("role-viewer", permission.id);
+
+      await expect(
+        rbac.updatePermission(permission.id, { description: "CSV exports" }),
+      ).resolves.toMatchObject({
+        name: "reports.export",
+        description: "CSV exports",
+      });
+
+      await rbac.deletePermission(permission.id);
+      await expect(rbac.getPermission(permission.id)).resolves.toBeNull();
+      expect(names(await rbac.getRolePermissions("role-viewer"))).toEqual([
+        "content.read",
+      ]);
+    });
+
+    it("should assign a permission to a role once and remove it", async () => {
+      await rbac.assignPermissionToRole("role-viewer", "perm-update");
+      await expect(
+        rbac.assignPermissionToRole("role-viewer", "perm-update"),
+      ).rejects.toHaveProperty("code");
+      expect(names(await rbac.getRolePermissions("role-viewer"))).toEqual([
+        "content.read",
+        "content.update",
+      ]);
+
+      await rbac.removePermissionFromRole("role-viewer", "perm-update");
+      expect(names(await rbac.getRolePermissions("role-viewer"))).toEqual([
+        "content.read",
+      ]);
+    });
+  });
+
+  describe("role hierarchy", () => {
+    // admin inherits editor, which inherits viewer
+    beforeEach(async () => {
+      await rbac.updateRole("role-editor", { parentRoleIds: ["role-viewer"] });
+      await rbac.updateRole("role-admin", { parentRoleIds: ["role-editor"] });
+    });
+
+    it("should resolve inherited permissions transitively", async () => {
+      expect(names(await rbac.getUserPermissions("ada", "org-1"))).toEqual([
+        "content.read",
+        "content.update",
+        "users.invite",
+      ]);
+      await expect(
+        rbac.userHasPermission("ada", "content.update", "org-1"),
+      ).resolves.toBe(true);
+      await expect(
+        rbac.userHasPermission("ada", "content.update", "org-2"),
+      ).resolves.toBe(false);
+    });
+
+    it("should only count inherited roles when asked to", async () => {
+      await rbac.assignRoleToUser("carol", "role-admin", {
+        organizationId: "org-1",
+      });
+
+      await expect(rbac.userHasRole("carol", "viewer", "org-1")).resolves.toBe(
+        false,
+      );
+      await expect(
+        rbac.userHasRole("carol", "viewer", "org-1", {
+          includeInherited: true,
+        }),
+      ).resolves.toBe(true);
+      await expect(
+        rbac.userHasRole("carol", "viewer", "org-2", {
+          includeInherited: true,
+        }),
+      ).resolves.toBe(false);
+    });
+
+    it("should reject cycles and unknown parents", async () => {
+      await expect(
+        rbac.updateRole("role-viewer", { parentRoleIds: ["role-admin"] }),
+      ).rejects.toHaveProperty("code", "invalid_role_hierarchy");
+      await expect(
+        rbac.updateRole("role-viewer", { parentRoleIds: ["role-viewer"] }),
+      ).rejects.toHaveProperty("code", "invalid_role_hierarchy");
+      await expect(
+        rbac.createRole({
+          name: "auditor",
+          isSystem: false,
+          parentRoleIds: ["missing"],
+        }),
+      ).rejects.toHaveProperty("code", "invalid_role_hierarchy");
+    });
+
+    it("should create a child role and detach deleted parents", async () => {
+      const role = await rbac.createRole({
+        name: "auditor",
+        isSystem: false,
+        parentRoleIds: ["role-editor"],
+      });
+      expect(role.parentRoleIds).toEqual(["role-editor"]);
+
+      await rbac.deleteRole("role-editor");
+      await expect(rbac.getRole(role.id)).resolves.toMatchObject({
+        parentRoleIds: [],
+      });
+      await expect(rbac.getRole("role-admin")).resolves.toMatchObject({
+        parentRoleIds: [],
+      });
+    });
+  });
+
+  describe("permission patterns", () => {
+    it("should match wildcard grants", async () => {
+      const anyContent = await rbac.createPermission({
+        name: "content.*",
+        resource: "content",
+        action: "*",
+      });
+      await rbac.assignPermissionToRole("role-viewer", anyContent.id);
+
+      await expect(
+        rbac.userHasPermission("ada", "content.publish"),
+      ).resolves.toBe(true);
+      await expect(
+        rbac.userHasPermission("ada", "content.update:doc_123"),
+      ).resolves.toBe(true);
+      await expect(rbac.userHasPermission("ada", "users.read")).resolves.toBe(
+        false,
+      );
+    });
+
+    it("should limit a role granted on one instance to it", async () => {
+      const grant = await rbac.assignRoleToUser("carol", "role-editor", {
+        resourceId: "doc_123",
+      });
+      await rbac.assignRoleToUser("carol", "role-editor", {
+        resourceId: "doc_456",
+      });
+
+      expect(grant.resourceId).toBe("doc_123");
+      expect(names(await rbac.getUserPermissions("carol"))).toEqual([
+        "content.update:doc_123",
+        "content.update:doc_456",
+      ]);
+      await expect(
+        rbac.userHasPermission("carol", "content.update:doc_123"),
+      ).resolves.toBe(true);
+      await expect(
+        rbac.userHasPermission("carol", "content.update"),
+      ).resolves.toBe(false);
+      await expect(rbac.getUserRoles("carol")).resolves.toEqual([]);
+      await expect(rbac.userHasRole("carol", "editor")).resolves.toBe(false);
+    });
+
+    it("should remove the grant on one instance only", async () => {
+      for (const resourceId of ["doc_123", "doc_456"]) {
+        await rbac.assignRoleToUser("carol", "role-editor", { resourceId });
+      }
+      await expect(
+        rbac.assignRoleToUser("carol", "role-editor", {
+          resourceId: "doc_123",
+        }),
+      ).rejects.toHaveProperty("code");
+
+      await rbac.removeRoleFromUser(
+        "carol",
+        "role-editor",
+        undefined,
+        "doc_123",
+      );
+      expect(names(await rbac.getUserPermissions("carol"))).toEqual([
+        "content.update:doc_456",
+      ]);
+    });
+  });
+
+  describe("user roles", () => {
+    it("should only count active, unexpired grants for permissions", async () => {
+      expect(names(await rbac.getUserPermissions("ada"))).toEqual([
+        "content.read",
+        "users.invite",
+      ]);
+      await expect(
+        rbac.userHasPermission("ada", "content.update"),
+      ).resolves.toBe(false);
+      await expect(rbac.userHasPermission("bob", "users.invite")).resolves.toBe(
+        false,
+      );
+    });
+
+    it("should scope checks to an organization plus global roles", async () => {
+      expect(names(await rbac.getUserRoles("ada", "org-2"))).toEqual(
+        expect.not.arrayContaining(["admin"]),
+      );
+      await expect(rbac.userHasRole("ada", "admin", "org-1")).resolves.toBe(
+        true,
+      );
+      await expect(rbac.userHasRole("ada", "admin", "org-2")).resolves.toBe(
+        false,
+      );
+      await expect(rbac.userHasRole("ada", "viewer", "org-2")).resolves.toBe(
+        true,
+      );
+      await expect(
+        rbac.userHasPermission("ada", "users.invite", "org-1"),
+      ).resolves.toBe(true);
+      await expect(
+        rbac.userHasPermission("ada", "users.invite", "org-2"),
+      ).resolves.toBe(false);
+      await expect(
+        rbac.userHasPermission("bob", "content.read", "org-1"),
+      ).resolves.toBe(false);
+    });
+
+    it("should assign a role once per organization", async () => {
+      const grant = await rbac.assignRoleToUser("carol", "role-viewer", {
+        organizationId: "org-1",
+        assignedBy: "ada",
+      });
+
+      expect(grant).toMatchObject({
+        userId: "carol",
+        roleId: "role-viewer",
+        organizationId: "org-1",
+        assignedBy: "ada",
+        isActive: true,
+      });
+      await expect(
+        rbac.assignRoleToUser("carol", "role-viewer", {
+          organizationId: "org-1",
+        }),
+      ).rejects.toHaveProperty("code");
+      await expect(
+        rbac.assignRoleToUser("carol", "role-viewer", {
+          organizationId: "org-2",
+        }),
+      ).resolves.toMatchObject({ organizationId: "org-2" });
+    });
+
+    it("should remove a role in one organization or everywhere", async () => {
+      await rbac.assignRoleToUser("ada", "role-admin", {
+        organizationId: "org-2",
+      });
+
+      await rbac.removeRoleFromUser("ada", "role-admin", "org-2");
+      await expect(rbac.userHasRole("ada", "admin", "org-1")).resolves.toBe(
+        true,
+      );
+      await expect(rbac.userHasRole("ada", "admin", "org-2")).resolves.toBe(
+        false,
+      );
+
+      await rbac.removeRoleFromUser("ada", "role-admin");
+      await expect(rbac.userHasRole("ada", "admin", "org-1")).resolves.toBe(
+        false,
+      );
+    });
+
+    it("should list users by role and organization members", async () => {
+      expect((await rbac.getUsersByRole("viewer")).sort()).toEqual([
+        "ada",
+        "bob",
+      ]);
+      await expect(rbac.getUsersByRole("viewer", "org-2")).resolves.toEqual([
+        "bob",
+      ]);
+      await expect(rbac.getUsersByRole("admin")).resolves.toEqual(["ada"]);
+
+      const members = await rbac.getOrganizationUsers("org-1");
+      expect(members.map(({ userId, roleId }) => [userId, roleId])).toEqual([
+        ["ada", "role-admin"],
+      ]);
+    });
+  });
+});
+
+describe("database RBAC provider registration", () => {
+  beforeAll(registerDefaultRBACProviders);
+
+  it("should create the provider over a database provider instance", async () => {
+    const database = new MemoryDatabaseProvider({ seed: seed() });
+
+    const rbac = await RBACProviderFactory.createProvider(
+      createRBACConfig.database(database),
+    );
+
+    expect(rbac).toBeInstanceOf(DatabaseRBACProvider);
+    await expect(rbac.userHasRole("ada", "viewer")).resolves.toBe(true);
+  });
+
+  it("should create the database provider from its config", async () => {
+    const rbac = await RBACProviderFactory.createProvider(
+      createRBACConfig.database({ type: "memory", options: { seed: seed() } }),
+    );
+
+    await expect(rbac.userHasPermission("ada", "content.read")).resolves.toBe(
+      true,
+    );
+  });
+
+  it("should require a database in the config", () => {
+    expect(() => createRBACConfig.database(undefined as never)).toThrow(
+      /requires a database provider/,
+    );
+  });
+});
+
+describe("permission names", () => {
+  it.each([
+    ["content.update", "content.update", true],
+    ["content.*", "content.publish", true],
+    ["*.read", "billing.read", true],
+    ["*.*", "system.settings", true],
+    ["content.update", "content.update:doc_123", true],
+    ["content.update:doc_123", "content.update:doc_123", true],
+    ["content.*:doc_123", "content.delete:doc_123", true],
+    ["content.update:doc_123", "content.update:doc_456", false],
+    ["content.update:doc_123", "content.update", false],
+    ["content.read", "content.update", false],
+    ["*.read", "content.update", false],
+    ["content.*", "users.read", false],
+  ])("should match %s against %s: %s", (granted, required, expected) => {
+    expect(permissionMatches(granted, required)).toBe(expected);
+  });
+
+  it("should check resources and required permissions with patterns", () => {
+    const granted = ["content.*", "billing.read:acct_1"];
+
+    expect(canAccessResource(granted, "content", "delete", "doc_1")).toBe(true);
+    expect(canAccessResource(granted, "billing", "read")).toBe(false);
+    expect(canAccessResource(granted, "billing", "read", "acct_1")).toBe(true);
+    expect(
+      hasRequiredPermissions(granted, ["content.read", "billing.read:acct_1"]),
+    ).toBe(true);
+    expect(
+      hasRequiredPermissions(granted, ["content.read", "billing.read"]),
+    ).toBe(false);
+  });
+});
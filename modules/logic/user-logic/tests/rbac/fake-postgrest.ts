@@ -0,0 +1,293 @@
+// ============================================================================
+// Fake Supabase client over in-memory RBAC tables
+// Just the PostgREST surface SupabaseRBACProvider uses: embedded roles and
+// permissions, eq / is / or filters, single(), the unique keys and cascades
+// of database/rbac-schema.sql and its migrations (detach_deleted_role
+// included), and the user_has_permission / get_user_permissions functions
+// ============================================================================
+
+import type { IDatabaseRecord } from "@/shared/types/database";
+import {
+  hasMatchingPermission,
+  scopePermissionName,
+} from "@/shared/types/rbac-permissions";
+
+export type Row = IDatabaseRecord;
+export type Tables = Record<string, Row[]>;
+type Values = Record<string, unknown>;
+type Result = { data: unknown; error: unknown };
+
+type Predicate = (row: Row) => boolean;
+type Operation = "select" | "insert" | "update" | "delete";
+
+const EMBEDS: Record<string, { table: string; key: string }> = {
+  roles: { table: "roles", key: "role_id" },
+  permissions: { table: "permissions", key: "permission_id" },
+};
+
+const UNIQUE_KEYS: Record<string, string[]> = {
+  roles: ["name"],
+  permissions: ["name"],
+  role_permissions: ["role_id", "permission_id"],
+  user_roles: ["user_id", "role_id", "organization_id", "resource_id"],
+};
+
+// ON DELETE CASCADE: table -> [child table, foreign key]
+const CASCADES: Record<string, [string, string][]> = {
+  roles: [
+    ["role_permissions", "role_id"],
+    ["user_roles", "role_id"],
+  ],
+  permissions: [["role_permissions", "permission_id"]],
+};
+
+const valueAt = (row: Row, column: string): unknown =>
+  column
+    .split(".")
+    .reduce<unknown>((value, key) => (value as Row | null)?.[key], row);
+
+// "organization_id.eq.org-1,organization_id.is.null"
+const parseOr =
+  (expression: string): Predicate =>
+  (row) =>
+    expression.split(",").some((condition) => {
+      const [column, operator, value] = condition.split(".");
+      return operator === "is"
+        ? row[column] == null
+        : String(row[column]) === value;
+    });
+
+class FakeQuery implements PromiseLike<Result> {
+  private operation: Operation = "select";
+  private embeds: string[] = [];
+  private filters: Predicate[] = [];
+  private payload: Values = {};
+
+  constructor(
+    private database: FakePostgrest,
+    private table: string,
+  ) {}
+
+  select(columns = "*"): this {
+    this.embeds = Object.keys(EMBEDS).filter((name) =>
+      new RegExp(`\\b${name}\\b`).test(columns),
+    );
+    return this;
+  }
+
+  insert(row: Values): this {
+    return this.write("insert", row);
+  }
+
+  update(row: Values): this {
+    return this.write("update", row);
+  }
+
+  delete(): this {
+    return this.write("delete", {});
+  }
+
+  eq(column: string, value: unknown): this {
+    this.filters.push((row) => valueAt(row, column) === value);
+    return this;
+  }
+
+  is(column: string, value: null): this {
+    this.filters.push((row) => (valueAt(row, column) ?? null) === value);
+    return this;
+  }
+
+  or(expression: string): this {
+    this.filters.push(parseOr(expression));
+    return this;
+  }
+
+  order(): this {
+    return this;
+  }
+
+  limit(): this {
+    return this;
+  }
+
+  async single(): Promise<Result> {
+    const { data, error } = this.run();
+    const [row] = (data as Row[] | null) ?? [];
+    if (error || row) return { data: row ?? null, error };
+    return { data: null, error: { code: "PGRST116", message: "No rows" } };
+  }
+
+  then<TResult1 = Result, TResult2 = never>(
+    onfulfilled?: ((value: Result) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null,
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve(this.run()).then(onfulfilled, onrejected);
+  }
+
+  private write(operation: Operation, payload: Values): this {
+    this.operation = operation;
+    this.payload = payload;
+    return this;
+  }
+
+  private run(): Result {
+    if (this.operation === "insert") {
+      return this.database.insertRow(this.table, this.payload);
+    }
+    const rows = this.database
+      .rows(this.table)
+      .map((row) => this.embed(row))
+      .filter((row) => this.filters.every((matches) => matches(row)));
+
+    if (this.operation === "update") {
+      return {
+        data: this.database.patch(this.table, rows, this.payload),
+        error: null,
+      };
+    }
+    if (this.operation === "delete") {
+      this.database.remove(this.table, rows);
+    }
+    return { data: rows, error: null };
+  }
+
+  private embed(row: Row): Row {
+    const embedded = { ...row };
+    for (const name of this.embeds) {
+      const { table, key } = EMBEDS[name];
+      embedded[name] =
+        this.database.rows(table).find(({ id }) => id === row[key]) ?? null;
+    }
+    return embedded;
+  }
+}
+
+export class FakePostgrest {
+  private sequence = 0;
+
+  constructor(private tables: Tables) {}
+
+  from(table: string): FakeQuery {
+    return new FakeQuery(this, table);
+  }
+
+  async rpc(name: string, args: Row): Promise<Result> {
+    const permissions = this.permissionsOf(
+      args.user_id as string,
+      args.organization_id as string | undefined,
+    );
+    if (name === "user_has_permission") {
+      return {
+        data: hasMatchingPermission(
+          permissions.map(({ name }) => name as string),
+          args.permission_name as string,
+        ),
+        error: null,
+      };
+    }
+    return {
+      data: permissions.map((p) => ({
+        permission_name: p.name,
+        resource: p.resource,
+        action: p.action,
+      })),
+      error: null,
+    };
+  }
+
+  rows(table: string): Row[] {
+    return (this.tables[table] ??= []);
+  }
+
+  insertRow(table: string, payload: Values): Result {
+    const row: Row = {
+      created_at: new Date().toISOString(),
+      ...payload,
+      id: (payload.id as string | undefined) ?? `${table}-${++this.sequence}`,
+    };
+    const key = UNIQUE_KEYS[table] ?? [];
+    const duplicate = this.rows(table).some((existing) =>
+      key.every(
+        (column) => (existing[column] ?? null) === (row[column] ?? null),
+      ),
+    );
+    if (duplicate) {
+      return { data: null, error: { code: "23505", message: "duplicate key" } };
+    }
+    this.rows(table).push(row);
+    return { data: [row], error: null };
+  }
+
+  patch(table: string, matched: Row[], payload: Values): Row[] {
+    const ids = new Set(matched.map(({ id }) => id));
+    return this.rows(table)
+      .filter(({ id }) => ids.has(id))
+      .map((row) => Object.assign(row, payload));
+  }
+
+  remove(table: string, matched: Row[]): void {
+    const ids = new Set(matched.map(({ id }) => id));
+    this.tables[table] = this.rows(table).filter(({ id }) => !ids.has(id));
+    for (const [child, key] of CASCADES[table] ?? []) {
+      this.tables[child] = this.rows(child).filter(
+        (row) => !ids.has(row[key] as string),
+      );
+    }
+    if (table === "roles") {
+      for (const role of this.rows("roles")) {
+        const parents = (role.parent_role_ids as string[] | undefined) ?? [];
+        role.parent_role_ids = parents.filter((id) => !ids.has(id));
+      }
+    }
+  }
+
+  // get_user_permissions: active, unexpired grants; in an organization,
+  // its grants and the global ones; inherited roles too (expand_role_ids),
+  // scoped to the grant's instance (scope_permission)
+  private permissionsOf(userId: string, organizationId?: string): Row[] {
+    const now = new Date().toISOString();
+    const grants = this.rows("user_roles").filter(
+      (grant) =>
+        grant.user_id === userId &&
+        grant.is_active !== false &&
+        (grant.expires_at == null || (grant.expires_at as string) > now) &&
+        (!organizationId ||
+          grant.organization_id == null ||
+          grant.organization_id === organizationId),
+    );
+
+    const permissions = new Map<string, Row>();
+    for (const grant of grants) {
+      const roleIds = this.expandRoleIds([grant.role_id as string]);
+      const permissionIds = new Set(
+        this.rows("role_permissions")
+          .filter(({ role_id }) => roleIds.has(role_id as string))
+          .map(({ permission_id }) => permission_id),
+      );
+      for (const permission of this.rows("permissions")) {
+        if (!permissionIds.has(permission.id)) continue;
+        const name = grant.resource_id
+          ? scopePermissionName(
+              permission.name as string,
+              grant.resource_id as string,
+            )
+          : (permission.name as string);
+        permissions.set(name, { ...permission, name });
+      }
+    }
+    return [...permissions.values()];
+  }
+
+  private expandRoleIds(roleIds: string[]): Set<string> {
+    const expanded = new Set<string>();
+    const pending = [...roleIds];
+    while (pending.length > 0) {
+      const roleId = pending.pop() as string;
+      if (expanded.has(roleId)) continue;
+      expanded.add(roleId);
+      const role = this.rows("roles").find(({ id }) => id === roleId);
+      pending.push(...((role?.parent_role_ids as string[] | undefined) ?? []));
+    }
+    return expanded;
+  }
+}
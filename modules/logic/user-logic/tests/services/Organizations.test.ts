@@ -0,0 +1,449 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import {
+  authenticateApiCaller,
+  encodeTokenPrincipal,
+} from "@/shared/services/auth/tokens";
+import {
+  InvitationService,
+  OrganizationService,
+  signInvitationToken,
+  verifyInvitationToken,
+} from "@/shared/services/organizations";
+import { useOrganizationStore } from "@/shared/stores/organization.store";
+import type { IOrganization } from "@/shared/types/rbac";
+
+import { installWebCrypto } from "../auth/fake-oidc-issuer";
+
+const SECRET = "invitation-secret";
+const OWNER = { id: "owner-1", email: "root@example.com" };
+const INVITEE = {
+  id: "user-2",
+  email: "Ada@Example.com",
+  email_confirmed_at: "2026-10-01T10:00:00Z",
+};
+const IN_A_WEEK = (): string =>
+  new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString();
+
+const organizationRow = {
+  id: "org-1",
+  name: "Acme",
+  owner_id: OWNER.id,
+  settings: { plan: "pro" },
+  created_at: "2026-10-18T10:00:00Z",
+  updated_at: "2026-10-18T10:00:00Z",
+};
+
+const invitationRow = (overrides: Record<string, unknown> = {}) => ({
+  id: "invitation-1",
+  organization_id: "org-1",
+  email: "ada@example.com",
+  role_id: "role-member",
+  invited_by: OWNER.id,
+  status: "pending",
+  expires_at: IN_A_WEEK(),
+  responded_at: null,
+  created_at: "2026-10-18T10:00:00Z",
+  roles: { name: "member" },
+  ...overrides,
+});
+
+// A PostgREST-like builder: every filter chains, awaiting it (or single /
+// maybeSingle) resolves to the result
+const createQuery = (result: { data?: unknown; error?: unknown }) => {
+  const resolved = { data: null, error: null, ...result };
+  const query: Record<string, jest.Mock> = {};
+  const chain = (): typeof query => query;
+  Object.assign(query, {
+    select: jest.fn(chain),
+    insert: jest.fn(chain),
+    update: jest.fn(chain),
+    upsert: jest.fn(chain),
+    eq: jest.fn(chain),
+    order: jest.fn(chain),
+    single: jest.fn(async () => resolved),
+    maybeSingle: jest.fn(async () => resolved),
+    then: jest.fn((resolve: (value: unknown) => void) => resolve(resolved)),
+  });
+  return query;
+};
+
+interface IFakeAdminOptions {
+  allowed?: boolean;
+  invitation?: { data?: unknown; error?: unknown };
+  invitee?: Record<string, unknown>;
+}
+
+// The service-role client: auth, user_has_permission and the tables
+const createAdmin = ({
+  allowed = true,
+  invitation = {},
+  invitee = INVITEE,
+}: IFakeAdminOptions) => {
+  const tables: Record<string, Record<string, jest.Mock>> = {
+    organization_invitations: createQuery({
+      data: invitationRow(),
+      ...invitation,
+    }),
+    roles: createQuery({ data: { id: "role-member" } }),
+    user_roles: createQuery({}),
+  };
+  const admin = {
+    auth: {
+      getUser: jest.fn(async (token: string) => ({
+        data: { user: token === "owner-token" ? OWNER : invitee },
+        error: null,
+      })),
+    },
+    rpc: jest.fn(async () => ({ data: allowed, error: null })),
+    from: jest.fn((table: string) => tables[table]),
+  };
+  const service = new InvitationService(
+    admin as unknown as SupabaseClient,
+    SECRET,
+  );
+  return { service, admin, tables };
+};
+
+// The owner, as the invitations route authenticates them
+const ownerOf = ({
+  admin,
+}: ReturnType<typeof createAdmin>): ReturnType<typeof authenticateApiCaller> =>
+  authenticateApiCaller(
+    new Headers({ authorization: "Bearer owner-token" }),
+    admin as unknown as SupabaseClient,
+  );
+
+const tokenFor = (expiresAt = new Date(IN_A_WEEK())): Promise<string> =>
+  signInvitationToken(
+    {
+      invitationId: "invitation-1",
+      organizationId: "org-1",
+      email: "ada@example.com",
+      expiresAt,
+    },
+    SECRET,
+  );
+
+describe("Organizations", () => {
+  beforeAll(installWebCrypto);
+
+  describe("OrganizationService", () => {
+    it("should create the organization through its RPC", async () => {
+      const single = jest.fn(async () => ({
+        data: organizationRow,
+        error: null,
+      }));
+      const client = { rpc: jest.fn(() => ({ single })) };
+      const service = new OrganizationService(
+        client as unknown as SupabaseClient,
+      );
+
+      const organization = await service.create({ name: "  Acme " });
+
+      expect(client.rpc).toHaveBeenCalledWith("create_organization", {
+        name: "Acme",
+        settings: {},
+      });
+      expect(organization).toMatchObject({
+        id: "org-1",
+        ownerId: OWNER.id,
+        settings: { plan: "pro" },
+      });
+      expect(organization.createdAt).toBeInstanceOf(Date);
+    });
+
+    it("should reject a blank name without calling the database", async () => {
+      const client = { rpc: jest.fn() };
+      const service = new OrganizationService(
+        client as unknown as SupabaseClient,
+      );
+
+      await expect(service.create({ name: "  " })).rejects.toMatchObject({
+        code: "invalid_request",
+      });
+      expect(client.rpc).not.toHaveBeenCalled();
+    });
+
+    it("should surface database errors from ownership transfer", async () => {
+      const client = {
+        rpc: jest.fn(async () => ({
+          data: null,
+          error: { code: "42501", message: "Only the owner can transfer" },
+        })),
+      };
+      const service = new OrganizationService(
+        client as unknown as SupabaseClient,
+      );
+
+      await expect(
+        service.transferOwnership("org-1", "user-2"),
+      ).rejects.toMatchObject({ code: "42501" });
+      expect(client.rpc).toHaveBeenCalledWith(
+        "transfer_organization_ownership",
+        { organization_id: "org-1", new_owner_id: "user-2" },
+      );
+    });
+  });
+
+  describe("invitation tokens", () => {
+    it("should round-trip the invitation claims", async () => {
+      const claims = await verifyInvitationToken(await tokenFor(), SECRET);
+
+      expect(claims).toMatchObject({
+        invitationId: "invitation-1",
+        organizationId: "org-1",
+        email: "ada@example.com",
+      });
+    });
+
+    it("should reject tokens signed with another secret or expired", async () => {
+      const token = await tokenFor();
+      const expired = await tokenFor(new Date(Date.now() - 60_000));
+
+      await expect(
+        verifyInvitationToken(token, "other-secret"),
+      ).rejects.toMatchObject({ code: "invalid_request" });
+      await expect(
+        verifyInvitationToken(expired, SECRET),
+      ).rejects.toMatchObject({ code: "expired" });
+    });
+
+    it("should answer garbled links as invalid, not as server errors", async () => {
+      const [head, payload] = (await tokenFor()).split(".");
+
+      for (const token of ["", "not-a-jwt", `${head}.${payload}.%%%`]) {
+        await expect(verifyInvitationToken(token, SECRET)).rejects.toEqual({
+          code: "invalid_request",
+          message: "Invalid invitation link",
+        });
+      }
+    });
+  });
+
+  describe("InvitationService", () => {
+    it("should invite by email with a signed link", async () => {
+      const fake = createAdmin({});
+      const { service, admin, tables } = fake;
+
+      const { invitation, token } = await service.invite(await ownerOf(fake), {
+        organizationId: "org-1",
+        email: " Ada@Example.com ",
+        role: "member",
+      });
+
+      expect(admin.rpc).toHaveBeenCalledWith("user_has_permission", {
+        user_id: OWNER.id,
+        permission_name: "users.invite",
+        organization_id: "org-1",
+      });
+      expect(tables.organization_invitations.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          email: "ada@example.com",
+          role_id: "role-member",
+          invited_by: OWNER.id,
+        }),
+      );
+      expect(invitation).toMatchObject({ role: "member", status: "pending" });
+      await expect(verifyInvitationToken(token, SECRET)).resolves.toMatchObject(
+        { invitationId: "invitation-1", email: "ada@example.com" },
+      );
+    });
+
+    it("should refuse inviters without users.invite and the owner role", async () => {
+      const input = { organizationId: "org-1", email: "ada@example.com" };
+
+      const denied = createAdmin({ allowed: false });
+      await expect(
+        denied.service.invite(await ownerOf(denied), {
+          ...input,
+          role: "member",
+        }),
+      ).rejects.toMatchObject({ code: "forbidden" });
+      const owner = createAdmin({});
+      await expect(
+        owner.service.invite(await ownerOf(owner), {
+          ...input,
+          role: "owner",
+        }),
+      ).rejects.toMatchObject({ code: "invalid_request" });
+    });
+
+    it("should keep access-token inviters within the token's scope", async () => {
+      const fake = createAdmin({});
+      const principal = {
+        user: OWNER,
+        tokenId: "token-1",
+        permissions: ["content.read"],
+        organizationId: "org-1",
+        expiresAt: null,
+      };
+      const inviter = await authenticateApiCaller(
+        new Headers({
+          "x-token-principal": encodeTokenPrincipal(principal),
+        }),
+        fake.admin as unknown as SupabaseClient,
+      );
+
+      await expect(
+        fake.service.invite(inviter, {
+          organizationId: "org-1",
+          email: "ada@example.com",
+          role: "member",
+        }),
+      ).rejects.toMatchObject({ code: "forbidden" });
+      expect(fake.admin.auth.getUser).not.toHaveBeenCalled();
+      expect(fake.admin.rpc).not.toHaveBeenCalled();
+    });
+
+    it("should refuse validity periods that are not whole days in range", async () => {
+      const fake = createAdmin({});
+      const { service, tables } = fake;
+      const owner = await ownerOf(fake);
+
+      for (const expiresInDays of [-1, 0, 1.5, 31, "7"]) {
+        await expect(
+          service.invite(owner, {
+            organizationId: "org-1",
+            email: "ada@example.com",
+            role: "member",
+            expiresInDays: expiresInDays as number,
+          }),
+        ).rejects.toMatchObject({ code: "invalid_request" });
+      }
+      expect(tables.organization_invitations.insert).not.toHaveBeenCalled();
+    });
+
+    it("should report an email that is already invited", async () => {
+      const fake = createAdmin({
+        invitation: { data: null, error: { code: "23505" } },
+      });
+
+      await expect(
+        fake.service.invite(await ownerOf(fake), {
+          organizationId: "org-1",
+          email: "ada@example.com",
+          role: "member",
+        }),
+      ).rejects.toMatchObject({
+        code: "invalid_request",
+        message: expect.stringContaining("pending invitation"),
+      });
+    });
+
+    it("should grant the role when the invitee accepts", async () => {
+      const { service, tables } = createAdmin({});
+
+      const invitation = await service.accept(
+        "invitee-token",
+        await tokenFor(),
+      );
+
+      expect(tables.user_roles.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          user_id: INVITEE.id,
+          role_id: "role-member",
+          organization_id: "org-1",
+          assigned_by: OWNER.id,
+        }),
+        { onConflict: "user_id,role_id,organization_id,resource_id" },
+      );
+      expect(tables.organization_invitations.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "accepted" }),
+      );
+      expect(invitation.status).toBe("accepted");
+    });
+
+    it("should refuse a session for another email", async () => {
+      const { service, tables } = createAdmin({});
+
+      await expect(
+        service.accept("owner-token", await tokenFor()),
+      ).rejects.toMatchObject({ code: "forbidden" });
+      expect(tables.user_roles.upsert).not.toHaveBeenCalled();
+    });
+
+    it("should refuse an invitee whose email is not confirmed", async () => {
+      const { service, tables } = createAdmin({
+        invitee: { ...INVITEE, email_confirmed_at: null },
+      });
+
+      await expect(
+        service.accept("invitee-token", await tokenFor()),
+      ).rejects.toMatchObject({ code: "forbidden" });
+      expect(tables.user_roles.upsert).not.toHaveBeenCalled();
+    });
+
+    it("should not grant the role when a decline answered first", async () => {
+      const { service, tables } = createAdmin({});
+      // Loaded while pending, answered by the time it is updated
+      tables.organization_invitations.maybeSingle
+        .mockResolvedValueOnce({ data: invitationRow(), error: null })
+        .mockResolvedValueOnce({ data: null, error: null });
+
+      await expect(
+        service.accept("invitee-token", await tokenFor()),
+      ).rejects.toMatchObject({
+        code: "invalid_request",
+        message: "Invitation already answered",
+      });
+      expect(tables.user_roles.upsert).not.toHaveBeenCalled();
+    });
+
+    it("should not accept answered or expired invitations", async () => {
+      const token = await tokenFor();
+      const declined = createAdmin({
+        invitation: { data: invitationRow({ status: "declined" }) },
+      });
+      const expired = createAdmin({
+        invitation: {
+          data: invitationRow({ expires_at: "2026-01-01T00:00:00Z" }),
+        },
+      });
+
+      await expect(
+        declined.service.accept("invitee-token", token),
+      ).rejects.toMatchObject({ code: "invalid_request" });
+      await expect(
+        expired.service.accept("invitee-token", token),
+      ).rejects.toMatchObject({ code: "expired" });
+    });
+
+    it("should decline with the link alone", async () => {
+      const { service, admin, tables } = createAdmin({});
+
+      const invitation = await service.decline(await tokenFor());
+
+      expect(admin.auth.getUser).not.toHaveBeenCalled();
+      expect(tables.user_roles.upsert).not.toHaveBeenCalled();
+      expect(invitation.status).toBe("declined");
+    });
+  });
+
+  describe("useOrganizationStore", () => {
+    const organization = (id: string): IOrganization => ({
+      id,
+      name: id,
+      ownerId: OWNER.id,
+      settings: {},
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    beforeEach(() => useOrganizationStore.getState().clearOrganizations());
+
+    it("should keep the active organization only while it is listed", () => {
+      const store = useOrganizationStore.getState();
+
+      store.setOrganizations([organization("a"), organization("b")]);
+      expect(useOrganizationStore.getState().activeOrganizationId).toBe("a");
+
+      store.setActiveOrganization("b");
+      store.setOrganizations([organization("a"), organization("b")]);
+      expect(useOrganizationStore.getState().activeOrganizationId).toBe("b");
+
+      store.removeOrganization("b");
+      expect(useOrganizationStore.getState().activeOrganizationId).toBe("a");
+    });
+  });
+});
@@ -200,6 +200,52 @@ describe("UserService", () => {
 
       await expect(userService.getUsers()).rejects.toThrow("Database error");
     });
+
+    it("should not default offset in cursor mode", async () => {
+      mockRepository.findMany.mockResolvedValue(mockUserList);
+
+      await userService.getUsers({ after: "cursor-1", limit: 10 });
+
+      expect(mockRepository.findMany).toHaveBeenCalledWith({
+        after: "cursor-1",
+        limit: 10,
+        sortBy: "createdAt",
+        sortOrder: "desc",
+      });
+    });
+
+    it("should treat null cursor as first page in cursor mode", async () => {
+      mockRepository.findMany.mockResolvedValue(mockUserList);
+
+      await userService.getUsers({ after: null });
+
+      expect(mockRepository.findMany).toHaveBeenCalledWith(
+        expect.not.objectContaining({ offset: expect.anything() }),
+      );
+    });
+
+    it("should return cursors from repository", async () => {
+      const cursorResponse: UserListResponse = {
+        users: [mockUser],
+        total: 100,
+        hasMore: true,
+        nextCursor: "next-cursor",
+        previousCursor: null,
+      };
+      mockRepository.findMany.mockResolvedValue(cursorResponse);
+
+      const result = await userService.getUsers({ after: null });
+
+      expect(result.nextCursor).toBe("next-cursor");
+      expect(result.hasMore).toBe(true);
+    });
+
+    it("should throw error when both after and before are given", async () => {
+      await expect(
+        userService.getUsers({ after: "a", before: "b" }),
+      ).rejects.toThrow("Use either 'after' or 'before' cursor, not both");
+      expect(mockRepository.findMany).not.toHaveBeenCalled();
+    });
   });
 
   // ============================================================================
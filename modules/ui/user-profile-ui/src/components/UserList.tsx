@@ -1,21 +1,58 @@
-import { useEffect } from "react";
+import { useEffect, useRef } from "react";
 import { useUsers } from "../hooks/useUsers";
 
 interface UserListProps {
   className?: string;
+  // Load the next page (by cursor) when the end of the list becomes visible
+  infinite?: boolean;
 }
 
+// Calls `onVisible` whenever the returned element scrolls into view
+const useInfiniteScroll = (enabled: boolean, onVisible: () => void) => {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!enabled || !sentinel || typeof IntersectionObserver === "undefined") {
+      return;
+    }
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        onVisible();
+      }
+    });
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [enabled, onVisible]);
+
+  return sentinelRef;
+};
+
 // Simple UserList component following Single Responsibility
 // Only renders user list UI
-export const UserList = ({ className }: UserListProps) => {
-  const { users, isLoadingUsers, usersError, fetchUsers, deleteUser } =
-    useUsers();
+export const UserList = ({ className, infinite = false }: UserListProps) => {
+  const {
+    users,
+    isLoadingUsers,
+    usersError,
+    hasMore,
+    fetchUsers,
+    deleteUser,
+    loadMore,
+  } = useUsers({ pagination: infinite ? "cursor" : "offset" });
+  const sentinelRef = useInfiniteScroll(
+    infinite && hasMore && !isLoadingUsers,
+    loadMore,
+  );
 
   useEffect(() => {
     fetchUsers();
   }, [fetchUsers]);
 
-  if (isLoadingUsers) {
+  // In infinite mode, keep the loaded users visible while the next page loads
+  if (isLoadingUsers && !(infinite && users.length > 0)) {
     return <div className="text-center p-4">Loading users...</div>;
   }
 
@@ -54,6 +91,12 @@ export const UserList = ({ className }: UserListProps) => {
           </div>
         ))}
       </div>
+      {infinite && (
+        <div ref={sentinelRef} className="text-center p-4 text-gray-500">
+          {isLoadingUsers && "Loading more users..."}
+          {!isLoadingUsers && !hasMore && "No more users"}
+        </div>
+      )}
     </div>
   );
 };
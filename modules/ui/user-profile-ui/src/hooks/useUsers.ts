@@ -2,13 +2,19 @@ import { useCallback } from "react";
 import { useUserStore } from "../stores/user.store";
 import type {
   UserListFilter,
+  UserListResponse,
   CreateUserInput,
   UpdateUserInput,
 } from "../types";
 
+interface UseUsersOptions {
+  // "cursor" fetches pages by opaque cursor (used by infinite scroll)
+  pagination?: "offset" | "cursor";
+}
+
 // Custom hook following Single Responsibility
 // Only handles user list operations
-export const useUsers = () => {
+export const useUsers = ({ pagination = "offset" }: UseUsersOptions = {}) => {
   const {
     users,
     isLoadingUsers,
@@ -16,7 +22,9 @@ export const useUsers = () => {
     filter,
     hasMore,
     total,
+    nextCursor,
     setUsers,
+    appendUsers,
     addUser,
     updateUser,
     removeUser,
@@ -25,32 +33,39 @@ export const useUsers = () => {
     setFilter,
     setHasMore,
     setTotal,
+    setNextCursor,
   } = useUserStore();
 
-  const fetchUsers = useCallback(
-    async (newFilter?: Partial<UserListFilter>) => {
+  // Loads one page; `append` keeps the current list (infinite scroll)
+  const fetchPage = useCallback(
+    async (
+      pageFilter: UserListFilter, // eslint-disable-line @typescript-eslint/no-unused-vars
+      append: boolean,
+    ) => {
       try {
         setUsersLoading(true);
         setUsersError(null);
 
-        if (newFilter) {
-          setFilter(newFilter);
-        }
-
         // TODO: Replace with actual service call when user-logic module is integrated
         // import { userService } from '@/modules/logic/user-logic'
-        // const result = await userService.getUsers({ ...filter, ...newFilter })
+        // const result = await userService.getUsers(pageFilter)
 
         // Mock implementation for now
-        const result = {
+        const result: UserListResponse = {
           users: [],
           total: 0,
           hasMore: false,
+          nextCursor: null,
         };
 
-        setUsers(result.users);
+        if (append) {
+          appendUsers(result.users);
+        } else {
+          setUsers(result.users);
+        }
         setTotal(result.total);
         setHasMore(result.hasMore);
+        setNextCursor(result.nextCursor ?? null);
       } catch (error) {
         setUsersError(
           error instanceof Error ? error.message : "Failed to fetch users",
@@ -60,16 +75,31 @@ export const useUsers = () => {
       }
     },
     [
-      filter,
       setUsers,
+      appendUsers,
       setUsersLoading,
       setUsersError,
-      setFilter,
       setTotal,
       setHasMore,
+      setNextCursor,
     ],
   );
 
+  const fetchUsers = useCallback(
+    async (newFilter?: Partial<UserListFilter>) => {
+      if (newFilter) {
+        setFilter(newFilter);
+      }
+
+      // Cursor mode always restarts from the first page
+      const modeFilter: Partial<UserListFilter> =
+        pagination === "cursor" ? { offset: undefined, after: null } : {};
+
+      await fetchPage({ ...filter, ...modeFilter, ...newFilter }, false);
+    },
+    [filter, pagination, setFilter, fetchPage],
+  );
+
   const createUser = useCallback(
     async (input: CreateUserInput) => {
       try {
@@ -152,12 +182,30 @@ export const useUsers = () => {
     [removeUser, setUsersLoading, setUsersError],
   );
 
+  // Cursor mode appends the next page after `nextCursor`; offset mode
+  // fetches the page starting at the current list length
   const loadMore = useCallback(async () => {
     if (!hasMore || isLoadingUsers) return;
 
+    if (nextCursor) {
+      await fetchPage(
+        { ...filter, after: nextCursor, before: undefined },
+        true,
+      );
+      return;
+    }
+
     const nextOffset = users.length;
     await fetchUsers({ ...filter, offset: nextOffset });
-  }, [hasMore, isLoadingUsers, users.length, filter, fetchUsers]);
+  }, [
+    hasMore,
+    isLoadingUsers,
+    nextCursor,
+    users.length,
+    filter,
+    fetchPage,
+    fetchUsers,
+  ]);
 
   return {
     // State
@@ -167,6 +215,7 @@ export const useUsers = () => {
     filter,
     hasMore,
     total,
+    nextCursor,
 
     // Actions
     fetchUsers,
@@ -15,6 +15,8 @@ interface UserState {
   filter: UserListFilter;
   hasMore: boolean;
   total: number;
+  // Cursor for the next page when the list uses cursor pagination
+  nextCursor: string | null;
 }
 
 interface UserActions {
@@ -25,6 +27,7 @@ interface UserActions {
 
   // List actions
   setUsers: (users: UserProfile[]) => void;
+  appendUsers: (users: UserProfile[]) => void;
   addUser: (user: UserProfile) => void;
   updateUser: (id: string, updates: Partial<UserProfile>) => void;
   removeUser: (id: string) => void;
@@ -33,6 +36,7 @@ interface UserActions {
   setFilter: (filter: Partial<UserListFilter>) => void;
   setHasMore: (hasMore: boolean) => void;
   setTotal: (total: number) => void;
+  setNextCursor: (nextCursor: string | null) => void;
 
   // Utility actions
   reset: () => void;
@@ -55,6 +59,7 @@ const initialState: UserState = {
   },
   hasMore: false,
   total: 0,
+  nextCursor: null,
 };
 
 export const useUserStore = create<UserStore>()(
@@ -76,6 +81,23 @@ export const useUserStore = create<UserStore>()(
       setUsers: (users) =>
         set({ users, usersError: null }, false, "user/setUsers"),
 
+      // Skips users already in the list (rows may shift between pages)
+      appendUsers: (newUsers) =>
+        set(
+          (state) => {
+            const existingIds = new Set(state.users.map((user) => user.id));
+            return {
+              users: [
+                ...state.users,
+                ...newUsers.filter((user) => !existingIds.has(user.id)),
+              ],
+              usersError: null,
+            };
+          },
+          false,
+          "user/appendUsers",
+        ),
+
       addUser: (user) =>
         set(
           (state) => ({ users: [...state.users, user] }),
@@ -126,6 +148,9 @@ export const useUserStore = create<UserStore>()(
 
       setTotal: (total) => set({ total }, false, "user/setTotal"),
 
+      setNextCursor: (nextCursor) =>
+        set({ nextCursor }, false, "user/setNextCursor"),
+
       reset: () => set(initialState, false, "user/reset"),
     }),
     {
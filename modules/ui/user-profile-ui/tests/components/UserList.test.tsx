@@ -1,4 +1,10 @@
-import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import {
+  render,
+  screen,
+  fireEvent,
+  waitFor,
+  act,
+} from "@testing-library/react";
 import { UserList } from "../../src/components/UserList";
 import { useUsers } from "../../src/hooks/useUsers";
 import type { UserProfile } from "../../src/types";
@@ -39,6 +45,7 @@ describe("UserList", () => {
     },
     hasMore: false,
     total: 0,
+    nextCursor: null,
     fetchUsers: jest.fn(),
     createUser: jest.fn(),
     updateUser: jest.fn(),
@@ -140,6 +147,86 @@ describe("UserList", () => {
     });
   });
 
+  // Infinite scroll tests
+  describe("Infinite Scroll", () => {
+    let observerCallback: IntersectionObserverCallback;
+    const mockObserve = jest.fn();
+    const mockDisconnect = jest.fn();
+
+    beforeEach(() => {
+      window.IntersectionObserver = jest.fn((callback) => {
+        observerCallback = callback;
+        return { observe: mockObserve, disconnect: mockDisconnect };
+      }) as unknown as typeof IntersectionObserver;
+    });
+
+    const triggerIntersection = () => {
+      act(() => {
+        observerCallback(
+          [{ isIntersecting: true } as IntersectionObserverEntry],
+          {} as IntersectionObserver,
+        );
+      });
+    };
+
+    it("should use cursor pagination in infinite mode", () => {
+      render(<UserList infinite />);
+
+      expect(mockUseUsers).toHaveBeenCalledWith({ pagination: "cursor" });
+    });
+
+    it("should use offset pagination by default", () => {
+      render(<UserList />);
+
+      expect(mockUseUsers).toHaveBeenCalledWith({ pagination: "offset" });
+    });
+
+    it("should load more when the end of the list is visible", () => {
+      const mockLoadMore = jest.fn();
+      mockUseUsers.mockReturnValue({
+        ...defaultMockReturn,
+        users: mockUsers,
+        hasMore: true,
+        nextCursor: "cursor-2",
+        loadMore: mockLoadMore,
+      });
+
+      render(<UserList infinite />);
+      triggerIntersection();
+
+      expect(mockObserve).toHaveBeenCalled();
+      expect(mockLoadMore).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not observe when there are no more users", () => {
+      mockUseUsers.mockReturnValue({
+        ...defaultMockReturn,
+        users: mockUsers,
+        hasMore: false,
+      });
+
+      render(<UserList infinite />);
+
+      expect(mockObserve).not.toHaveBeenCalled();
+      expect(screen.getByText("No more users")).toBeInTheDocument();
+    });
+
+    it("should keep users visible while loading the next page", () => {
+      mockUseUsers.mockReturnValue({
+        ...defaultMockReturn,
+        users: mockUsers,
+        hasMore: true,
+        isLoadingUsers: true,
+      });
+
+      render(<UserList infinite />);
+
+      expect(screen.getByText("User One")).toBeInTheDocument();
+      expect(screen.getByText("Loading more users...")).toBeInTheDocument();
+      expect(screen.queryByText("Loading users...")).not.toBeInTheDocument();
+    });
+  });
+
   // Interaction tests
   describe("User Interactions", () => {
     it("should call deleteUser when delete button is clicked", () => {
@@ -42,6 +42,8 @@ describe("useUsers", () => {
   const mockSetFilter = jest.fn();
   const mockSetHasMore = jest.fn();
   const mockSetTotal = jest.fn();
+  const mockAppendUsers = jest.fn();
+  const mockSetNextCursor = jest.fn();
 
   const defaultStoreState = {
     currentUser: null,
@@ -58,10 +60,12 @@ describe("useUsers", () => {
     },
     hasMore: false,
     total: 0,
+    nextCursor: null,
     setCurrentUser: jest.fn(),
     setUserLoading: jest.fn(),
     setUserError: jest.fn(),
     setUsers: mockSetUsers,
+    appendUsers: mockAppendUsers,
     addUser: mockAddUser,
     updateUser: mockUpdateUser,
     removeUser: mockRemoveUser,
@@ -70,6 +74,7 @@ describe("useUsers", () => {
     setFilter: mockSetFilter,
     setHasMore: mockSetHasMore,
     setTotal: mockSetTotal,
+    setNextCursor: mockSetNextCursor,
     reset: jest.fn(),
   };
 
@@ -443,6 +448,28 @@ describe("useUsers", () => {
         expect(mockSetFilter).toHaveBeenCalled();
       });
     });
+
+    it("should append next page when a cursor is available", async () => {
+      mockUseUserStore.mockReturnValue({
+        ...defaultStoreState,
+        filter: { ...defaultStoreState.filter, after: null },
+        users: mockUsers,
+        hasMore: true,
+        nextCursor: "cursor-2",
+      });
+
+      const { result } = renderHook(() => useUsers());
+
+      await act(async () => {
+        await result.current.loadMore();
+      });
+
+      // Cursor pages don't touch the stored filter and keep existing users
+      expect(mockSetFilter).not.toHaveBeenCalled();
+      expect(mockSetUsers).not.toHaveBeenCalled();
+      expect(mockAppendUsers).toHaveBeenCalledWith([]);
+      expect(mockSetNextCursor).toHaveBeenCalledWith(null);
+    });
   });
 
   // setFilter tests
@@ -477,6 +504,7 @@ describe("useUsers", () => {
       expect(result.current).toHaveProperty("filter");
       expect(result.current).toHaveProperty("hasMore");
       expect(result.current).toHaveProperty("total");
+      expect(result.current).toHaveProperty("nextCursor");
 
       // Actions
       expect(result.current).toHaveProperty("fetchUsers");
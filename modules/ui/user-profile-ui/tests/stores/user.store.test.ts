@@ -382,6 +382,40 @@ describe("useUserStore", () => {
 
       expect(result.current.total).toBe(100);
     });
+
+    it("should set next cursor", () => {
+      const { result } = renderHook(() => useUserStore());
+
+      expect(result.current.nextCursor).toBeNull();
+
+      act(() => {
+        result.current.setNextCursor("cursor-1");
+      });
+
+      expect(result.current.nextCursor).toBe("cursor-1");
+    });
+
+    it("should append users for infinite scroll", () => {
+      const { result } = renderHook(() => useUserStore());
+
+      act(() => {
+        result.current.setUsers([mockUser]);
+        result.current.appendUsers([mockUser2]);
+      });
+
+      expect(result.current.users).toEqual([mockUser, mockUser2]);
+    });
+
+    it("should skip duplicate users when appending", () => {
+      const { result } = renderHook(() => useUserStore());
+
+      act(() => {
+        result.current.setUsers([mockUser]);
+        result.current.appendUsers([mockUser, mockUser2]);
+      });
+
+      expect(result.current.users).toHaveLength(2);
+    });
   });
 
   // Reset tests
@@ -527,6 +561,7 @@ describe("useUserStore", () => {
       expect(result.current).toHaveProperty("filter");
       expect(result.current).toHaveProperty("hasMore");
       expect(result.current).toHaveProperty("total");
+      expect(result.current).toHaveProperty("nextCursor");
     });
 
     it("should have all expected action methods", () => {
@@ -544,6 +579,8 @@ describe("useUserStore", () => {
       expect(typeof result.current.setFilter).toBe("function");
       expect(typeof result.current.setHasMore).toBe("function");
       expect(typeof result.current.setTotal).toBe("function");
+      expect(typeof result.current.appendUsers).toBe("function");
+      expect(typeof result.current.setNextCursor).toBe("function");
       expect(typeof result.current.reset).toBe("function");
     });
   });
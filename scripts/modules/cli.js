@@ -443,6 +443,7 @@ Commands:
   validate                    Validate all module manifests
   remove <module-id> [--force] Remove module from registry
   sync                        Scan and synchronize registry
+  migrate <command>           Run database migrations (see migrate.js --help)
 
 Examples:
   node cli.js list
@@ -452,6 +453,7 @@ Examples:
   node cli.js validate
   node cli.js remove test-module --force
   node cli.js sync
+  node cli.js migrate status
   `);
 }
 
@@ -492,6 +494,10 @@ switch (command) {
     syncRegistry();
     break;
 
+  case "migrate":
+    require("./migrate").main(args.slice(1));
+    break;
+
   default:
     console.error(`❌ Unknown command: ${command}`);
     console.log('Run "node cli.js --help" for usage information');
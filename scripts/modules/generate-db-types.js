@@ -0,0 +1,529 @@
+#!/usr/bin/env node
+
+const fs = require("fs");
+const path = require("path");
+
+/**
+ * Database Types Generator
+ * Parses CREATE TABLE (and ALTER TABLE ... ADD COLUMN) statements into
+ * row/insert/update types, zod schemas and snake_case <-> camelCase mappers. Run with --check in CI to fail when
+ * the checked-in files no longer match the SQL.
+ */
+
+const ROOT_SCHEMAS = [
+  {
+    source: "database/rbac-schema.sql",
+    // The root schema is frozen once applied; later columns and tables
+    // come from its numbered migrations
+    migrations: "database/migrations",
+    output: "src/shared/types/rbac.generated.ts",
+    // src/ interfaces follow the I-prefix naming convention
+    interfacePrefix: "I",
+  },
+];
+const DATA_MODULES_DIR = "modules/data";
+
+// =====================================================
+// SQL PARSING
+// =====================================================
+
+const COLUMN_STOP_WORDS = new Set([
+  "NOT",
+  "NULL",
+  "DEFAULT",
+  "PRIMARY",
+  "UNIQUE",
+  "REFERENCES",
+  "CHECK",
+  "CONSTRAINT",
+  "GENERATED",
+  "COLLATE",
+]);
+
+const TABLE_CONSTRAINTS =
+  /^(CONSTRAINT|PRIMARY\s+KEY|UNIQUE|CHECK|FOREIGN\s+KEY|EXCLUDE)\b/i;
+
+function stripComments(sql) {
+  return sql.replace(/--[^\n]*/g, "").replace(/\/\*[\s\S]*?\*\//g, "");
+}
+
+// Split on commas that are not nested inside parentheses
+function splitTopLevel(body) {
+  const parts = [];
+  let depth = 0;
+  let current = "";
+  for (const char of body) {
+    if (char === "(") depth++;
+    if (char === ")") depth--;
+    if (char === "," && depth === 0) {
+      parts.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+// Body of "CREATE TABLE name (...)": scan to the matching parenthesis
+function readTableBody(sql, start) {
+  let depth = 0;
+  for (let index = start; index < sql.length; index++) {
+    if (sql[index] === "(") depth++;
+    if (sql[index] === ")") depth--;
+    if (depth === 0) return sql.slice(start + 1, index);
+  }
+  throw new Error("Unterminated CREATE TABLE statement");
+}
+
+function parseColumn(definition, primaryKeys) {
+  const [name, ...tokens] = definition.split(/\s+/);
+  const stopIndex = tokens.findIndex((token) =>
+    COLUMN_STOP_WORDS.has(token.toUpperCase()),
+  );
+  const type = (stopIndex === -1 ? tokens : tokens.slice(0, stopIndex)).join(
+    " ",
+  );
+  const constraints = definition.toUpperCase();
+  const columnName = name.replace(/"/g, "");
+  const isPrimaryKey =
+    /\bPRIMARY\s+KEY\b/.test(constraints) || primaryKeys.has(columnName);
+
+  return {
+    name: columnName,
+    type: type.toLowerCase(),
+    nullable: !isPrimaryKey && !/\bNOT\s+NULL\b/.test(constraints),
+    hasDefault:
+      /\bDEFAULT\b|\bGENERATED\b/.test(constraints) || /serial/i.test(type),
+  };
+}
+
+// char_length(col) >= n / <= n checks become zod min/max
+function parseLengthChecks(definitions) {
+  const checks = {};
+  const pattern = /char_length\((\w+)\)\s*(>=|<=|>|<)\s*(\d+)/gi;
+  definitions
+    .filter((definition) => /\bCHECK\b/i.test(definition))
+    .forEach((definition) => {
+      for (const [, column, operator, raw] of definition.matchAll(pattern)) {
+        const value = Number(raw);
+        const check = (checks[column] = checks[column] || {});
+        if (operator === ">=") check.min = value;
+        if (operator === ">") check.min = value + 1;
+        if (operator === "<=") check.max = value;
+        if (operator === "<") check.max = value - 1;
+      }
+    });
+  return checks;
+}
+
+function tablePrimaryKeys(definitions) {
+  const keys = new Set();
+  definitions.forEach((definition) => {
+    const match = definition.match(/^PRIMARY\s+KEY\s*\(([^)]+)\)/i);
+    if (match) {
+      match[1].split(",").forEach((key) => keys.add(key.trim()));
+    }
+  });
+  return keys;
+}
+
+// ALTER TABLE name ADD COLUMN ... appends the column to a table parsed
+// earlier in the same SQL
+function applyAddedColumns(clean, tables) {
+  const pattern =
+    /ALTER\s+TABLE\s+(?:IF\s+EXISTS\s+)?(?:ONLY\s+)?(?:"?\w+"?\.)?"?(\w+)"?\s+ADD\s+COLUMN\s+(?:IF\s+NOT\s+EXISTS\s+)?([^;]+);/gi;
+
+  for (const [, tableName, definition] of clean.matchAll(pattern)) {
+    const table = tables.find(({ name }) => name === tableName);
+    const column = parseColumn(
+      definition.trim().replace(/\s+/g, " "),
+      new Set(),
+    );
+    if (table && !table.columns.some(({ name }) => name === column.name)) {
+      table.columns.push(column);
+    }
+  }
+  return tables;
+}
+
+function parseCreateTables(sql) {
+  const clean = stripComments(sql);
+  const pattern =
+    /CREATE\s+TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?(?:"?(\w+)"?\.)?"?(\w+)"?\s*\(/gi;
+  const tables = [];
+
+  for (const match of clean.matchAll(pattern)) {
+    const body = readTableBody(clean, match.index + match[0].length - 1);
+    const definitions = splitTopLevel(body).map((definition) =>
+      definition.replace(/\s+/g, " "),
+    );
+    const primaryKeys = tablePrimaryKeys(definitions);
+
+    tables.push({
+      schema: match[1] || "public",
+      name: match[2],
+      columns: definitions
+        .filter((definition) => !TABLE_CONSTRAINTS.test(definition))
+        .map((definition) => parseColumn(definition, primaryKeys)),
+      lengthChecks: parseLengthChecks(definitions),
+    });
+  }
+  return applyAddedColumns(clean, tables);
+}
+
+// =====================================================
+// TYPE MAPPING
+// =====================================================
+
+// pg returns bigint/numeric as strings to avoid precision loss
+function mapSqlType(sqlType) {
+  const isArray = sqlType.endsWith("[]");
+  const base = sqlType.replace(/\[\]$/, "");
+  const scalar = mapScalarType(base);
+  if (!isArray) return scalar;
+  return {
+    ts: `${scalar.ts}[]`,
+    zod: `z.array(${scalar.zod})`,
+    timestamp: false,
+  };
+}
+
+function mapScalarType(base) {
+  const varchar = base.match(/^(?:varchar|character varying)\s*\((\d+)\)/);
+  if (varchar) return { ts: "string", zod: `z.string().max(${varchar[1]})` };
+  if (base === "uuid") return { ts: "string", zod: "z.string().uuid()" };
+  if (/^(text|citext|varchar|char|character|name|inet)\b/.test(base))
+    return { ts: "string", zod: "z.string()" };
+  if (/^(timestamp|timestamptz|date)\b/.test(base))
+    return { ts: "string", zod: "z.string()", timestamp: true };
+  if (/^(time|interval)\b/.test(base))
+    return { ts: "string", zod: "z.string()" };
+  if (/^(smallint|integer|int|int2|int4|serial|smallserial)\b/.test(base))
+    return { ts: "number", zod: "z.number().int()" };
+  if (/^(real|double precision|float4|float8)\b/.test(base))
+    return { ts: "number", zod: "z.number()" };
+  if (/^(bigint|int8|bigserial|numeric|decimal|money)\b/.test(base))
+    return { ts: "string", zod: "z.string()" };
+  if (/^(boolean|bool)\b/.test(base))
+    return { ts: "boolean", zod: "z.boolean()" };
+  return { ts: "unknown", zod: "z.unknown()" };
+}
+
+// =====================================================
+// NAMING
+// =====================================================
+
+const toCamelCase = (value) =>
+  value.replace(/_([a-z0-9])/g, (_, char) => char.toUpperCase());
+
+const toPascalCase = (value) => {
+  const camel = toCamelCase(value);
+  return camel.charAt(0).toUpperCase() + camel.slice(1);
+};
+
+// users -> user, user_roles -> user_role, orders_data -> orders_data
+function singularize(tableName) {
+  const words = tableName.split("_");
+  const last = words.pop();
+  const singular = last.endsWith("ies")
+    ? `${last.slice(0, -3)}y`
+    : last.endsWith("s") && !last.endsWith("ss")
+      ? last.slice(0, -1)
+      : last;
+  return [...words, singular].join("_");
+}
+
+// =====================================================
+// CODE GENERATION
+// =====================================================
+
+function fieldZod(column, type, lengthChecks) {
+  let zod = type.zod;
+  const check = lengthChecks[column.name];
+  if (check && type.ts === "string") {
+    if (check.min !== undefined) zod += `.min(${check.min})`;
+    if (check.max !== undefined) zod += `.max(${check.max})`;
+  }
+  return zod;
+}
+
+function generateTable(table, interfacePrefix) {
+  const entity = toPascalCase(singularize(table.name));
+  const camelEntity = toCamelCase(singularize(table.name));
+  const names = {
+    row: `${interfacePrefix}${entity}Row`,
+    insert: `${interfacePrefix}${entity}Insert`,
+    update: `${interfacePrefix}${entity}Update`,
+    record: `${interfacePrefix}${entity}Record`,
+  };
+  const columns = table.columns.map((column) => ({
+    ...column,
+    type: mapSqlType(column.type),
+    property: toCamelCase(column.name),
+  }));
+
+  const nullable = (column, ts) => (column.nullable ? `${ts} | null` : ts);
+  const isOptional = (column) => column.nullable || column.hasDefault;
+  const recordType = (column) =>
+    nullable(column, column.type.timestamp ? "Date" : column.type.ts);
+
+  const rowFields = columns.map(
+    (column) => `  ${column.name}: ${nullable(column, column.type.ts)};`,
+  );
+  const insertFields = columns.map(
+    (column) =>
+      `  ${column.name}${isOptional(column) ? "?" : ""}: ${nullable(column, column.type.ts)};`,
+  );
+  const updateFields = columns.map(
+    (column) => `  ${column.name}?: ${nullable(column, column.type.ts)};`,
+  );
+  const recordFields = columns.map(
+    (column) => `  ${column.property}: ${recordType(column)};`,
+  );
+
+  const zodField = (column, optional) => {
+    let zod = fieldZod(column, column.type, table.lengthChecks);
+    if (column.nullable) zod += ".nullable()";
+    if (optional) zod += ".optional()";
+    return `  ${column.name}: ${zod},`;
+  };
+
+  const fromRowFields = columns.map((column) => {
+    const value = `row.${column.name}`;
+    if (!column.type.timestamp) return `  ${column.property}: ${value},`;
+    return column.nullable
+      ? `  ${column.property}: toDate(${value}),`
+      : `  ${column.property}: new Date(${value}),`;
+  });
+  const toRowFields = columns.map((column) => {
+    const value = `record.${column.property}`;
+    if (!column.type.timestamp) return `    ${column.name}: ${value},`;
+    return column.nullable
+      ? `    ${column.name}: toTimestamp(${value}),`
+      : `    ${column.name}: ${value}?.toISOString(),`;
+  });
+
+  return `// ${table.schema}.${table.name}
+export interface ${names.row} {
+${rowFields.join("\n")}
+}
+
+export interface ${names.insert} {
+${insertFields.join("\n")}
+}
+
+export interface ${names.update} {
+${updateFields.join("\n")}
+}
+
+export interface ${names.record} {
+${recordFields.join("\n")}
+}
+
+export const ${camelEntity}RowSchema = z.object({
+${columns.map((column) => zodField(column, false)).join("\n")}
+});
+
+export const ${camelEntity}InsertSchema = z.object({
+${columns.map((column) => zodField(column, isOptional(column))).join("\n")}
+});
+
+export const ${camelEntity}UpdateSchema = ${camelEntity}InsertSchema.partial();
+
+export const from${entity}Row = (row: ${names.row}): ${names.record} => ({
+${fromRowFields.join("\n")}
+});
+
+export const to${entity}Row = (record: Partial<${names.record}>): ${names.update} =>
+  compact({
+${toRowFields.join("\n")}
+  });
+`;
+}
+
+// Helpers are emitted only when a table needs them (no unused locals)
+const HELPERS = {
+  toDate: `const toDate = (value: string | null): Date | null =>
+  value === null ? null : new Date(value);
+`,
+  toTimestamp: `const toTimestamp = (
+  value: Date | null | undefined,
+): string | null | undefined =>
+  value instanceof Date ? value.toISOString() : value;
+`,
+  compact: `// Drops keys left undefined so partial records map to partial rows
+const compact = <T extends object>(value: T): T =>
+  Object.fromEntries(
+    Object.entries(value).filter(([, entry]) => entry !== undefined),
+  ) as T;
+`,
+};
+
+function usedHelpers(tables) {
+  const nullableTimestamps = tables.some((table) =>
+    table.columns.some(
+      (column) => column.nullable && mapSqlType(column.type).timestamp,
+    ),
+  );
+  return nullableTimestamps
+    ? [HELPERS.toDate, HELPERS.toTimestamp, HELPERS.compact]
+    : [HELPERS.compact];
+}
+
+function generateFile(source, tables, interfacePrefix) {
+  return `// AUTO-GENERATED by scripts/modules/generate-db-types.js from ${source}
+// Do not edit by hand: change the SQL and run \`pnpm modules:types\`
+/* eslint-disable max-lines */
+
+import { z } from "zod";
+
+${usedHelpers(tables).join("\n")}
+${tables.map((table) => generateTable(table, interfacePrefix)).join("\n")}`;
+}
+
+// =====================================================
+// TARGETS
+// =====================================================
+
+function discoverTargets(rootDir) {
+  const dataDir = path.join(rootDir, DATA_MODULES_DIR);
+  const moduleTargets = fs.existsSync(dataDir)
+    ? fs.readdirSync(dataDir).flatMap((moduleDir) => {
+        const schemasDir = path.join(dataDir, moduleDir, "schemas");
+        if (!fs.existsSync(schemasDir)) return [];
+        return fs
+          .readdirSync(schemasDir)
+          .filter((file) => file.endsWith(".sql"))
+          .map((file) => ({
+            source: `${DATA_MODULES_DIR}/${moduleDir}/schemas/${file}`,
+            output: `${DATA_MODULES_DIR}/${moduleDir}/src/types/${path.basename(file, ".sql")}.generated.ts`,
+            interfacePrefix: "",
+          }));
+      })
+    : [];
+
+  return [...ROOT_SCHEMAS, ...moduleTargets].filter((target) =>
+    fs.existsSync(path.join(rootDir, target.source)),
+  );
+}
+
+// Output goes through the repo's prettier config so --check is stable
+// The source file followed by its migrations in order (down files skipped)
+function readTargetSql(target, rootDir) {
+  const migrationsDir = target.migrations
+    ? path.join(rootDir, target.migrations)
+    : null;
+  const migrations =
+    migrationsDir && fs.existsSync(migrationsDir)
+      ? fs
+          .readdirSync(migrationsDir)
+          .filter(
+            (file) => file.endsWith(".sql") && !file.endsWith(".down.sql"),
+          )
+          .sort()
+          .map((file) => path.join(migrationsDir, file))
+      : [];
+
+  return [path.join(rootDir, target.source), ...migrations]
+    .map((file) => fs.readFileSync(file, "utf8"))
+    .join("\n");
+}
+
+async function renderTarget(target, rootDir) {
+  const prettier = require("prettier");
+  const tables = parseCreateTables(readTargetSql(target, rootDir));
+  const outputPath = path.join(rootDir, target.output);
+  const options = (await prettier.resolveConfig(outputPath)) || {};
+  const source = target.migrations
+    ? `${target.source} and ${target.migrations}`
+    : target.source;
+
+  const content = await prettier.format(
+    generateFile(source, tables, target.interfacePrefix),
+    { ...options, parser: "typescript" },
+  );
+  return { ...target, outputPath, content, tables: tables.length };
+}
+
+async function generateTypes(options = {}) {
+  const rootDir = options.rootDir || process.cwd();
+  const rendered = await Promise.all(
+    discoverTargets(rootDir).map((target) => renderTarget(target, rootDir)),
+  );
+
+  const stale = rendered.filter(
+    (target) =>
+      !fs.existsSync(target.outputPath) ||
+      fs.readFileSync(target.outputPath, "utf8") !== target.content,
+  );
+
+  if (!options.check) {
+    stale.forEach((target) => {
+      fs.mkdirSync(path.dirname(target.outputPath), { recursive: true });
+      fs.writeFileSync(target.outputPath, target.content);
+    });
+  }
+  return { targets: rendered, stale };
+}
+
+// =====================================================
+// CLI
+// =====================================================
+
+function showHelp() {
+  console.log(`
+🧬 Database Types Generator
+
+Usage: node generate-db-types.js [--check]
+
+Sources:
+  ${ROOT_SCHEMAS.map((target) => `${target.source} (+ ${target.migrations}) -> ${target.output}`).join("\n  ")}
+  ${DATA_MODULES_DIR}/<module>/schemas/<name>.sql -> ${DATA_MODULES_DIR}/<module>/src/types/<name>.generated.ts
+
+Options:
+  --check    Exit with an error when a generated file is missing or stale
+  `);
+}
+
+async function main(args = process.argv.slice(2)) {
+  if (args.includes("--help") || args.includes("-h")) {
+    showHelp();
+    return;
+  }
+
+  const check = args.includes("--check");
+  try {
+    const { targets, stale } = await generateTypes({ check });
+
+    if (check && stale.length > 0) {
+      console.error("\n❌ Generated database types are out of date:\n");
+      stale.forEach((target) => console.error(`  • ${target.output}`));
+      console.error("\n   Run `pnpm modules:types` and commit the result.\n");
+      process.exit(1);
+    }
+
+    console.log(`\n🧬 Database types (${targets.length} schema files)\n`);
+    targets.forEach((target) => {
+      const state = stale.includes(target) ? "updated" : "up to date";
+      console.log(`  ✓ ${target.output} (${target.tables} tables, ${state})`);
+    });
+    console.log();
+  } catch (error) {
+    console.error(`\n❌ Error: ${error.message}\n`);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
+
+module.exports = {
+  main,
+  generateTypes,
+  parseCreateTables,
+  mapSqlType,
+  singularize,
+};
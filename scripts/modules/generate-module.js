@@ -672,6 +672,26 @@ COMMIT;
     migrationContent,
   );
 
+  const downMigrationContent = `-- Migration: 001_create_${tableName}_table (down)
+-- Reverts 001_create_${tableName}_table.sql
+
+BEGIN;
+
+DROP TRIGGER IF EXISTS update_${tableName}_updated_at ON public.${tableName};
+DROP TABLE IF EXISTS public.${tableName} CASCADE;
+
+COMMIT;
+`;
+
+  writeFile(
+    path.join(
+      modulePath,
+      "migrations",
+      `001_create_${tableName}_table.down.sql`,
+    ),
+    downMigrationContent,
+  );
+
   // Queries
   const queriesContent = `-- ${pascalName} Queries
 
@@ -703,11 +723,11 @@ DELETE FROM public.${tableName} WHERE id = $1;
 
 ## Installation
 
-Execute migration in Supabase SQL Editor:
+Apply the migration with the migration runner:
 
 \`\`\`bash
-# Run migration
-modules/data/${moduleName}/migrations/001_create_${tableName}_table.sql
+# Run migration (uses DATABASE_URL)
+pnpm modules:migrate up --to ${moduleName}/001_create_${tableName}_table
 \`\`\`
 
 ## Schema
@@ -0,0 +1,465 @@
+#!/usr/bin/env node
+
+const crypto = require("crypto");
+const fs = require("fs");
+const path = require("path");
+
+/**
+ * Migration Runner
+ * Applies the root schema files, database/migrations and then
+ * modules/data/<module>/migrations in order, recording each one in a ledger
+ * table with its checksum
+ */
+
+const LEDGER_TABLE = "public.schema_migrations";
+// Applied in this order. Once applied they are frozen: later changes go in
+// ROOT_MIGRATIONS_DIR as NNN_name.sql (+ NNN_name.down.sql)
+const ROOT_MIGRATIONS = [
+  "database/rbac-schema.sql",
+  "database/transaction-rpc.sql",
+  "database/postgres-realtime.sql",
+];
+const ROOT_MIGRATIONS_DIR = "database/migrations";
+const DATA_MODULES_DIR = "modules/data";
+
+// =====================================================
+// DISCOVERY
+// =====================================================
+
+// psql meta-commands are not understood by the server: inline \i / \ir
+// (relative to the including file) and drop the file's own BEGIN/COMMIT,
+// since the runner wraps every migration in a transaction
+function loadMigrationSql(file, seen = new Set()) {
+  if (seen.has(file)) {
+    throw new Error(`Circular \\i include: ${file}`);
+  }
+  seen.add(file);
+
+  return fs
+    .readFileSync(file, "utf8")
+    .split("\n")
+    .map((line) => {
+      const include = line.match(/^\s*\\ir?\s+(\S+)\s*$/);
+      if (include) {
+        const target = path.resolve(path.dirname(file), include[1]);
+        return loadMigrationSql(target, new Set(seen));
+      }
+      if (/^\s*(BEGIN|COMMIT)\s*;\s*$/i.test(line)) return "";
+      return line;
+    })
+    .join("\n");
+}
+
+function checksum(sql) {
+  return crypto.createHash("sha256").update(sql).digest("hex");
+}
+
+function toMigration(file, module, rootDir) {
+  const name = path.basename(file, ".sql");
+  const downFile = file.replace(/\.sql$/, ".down.sql");
+  const versionMatch = name.match(/^(\d+)_/);
+  const sql = loadMigrationSql(file);
+
+  return {
+    id: `${module}/${name}`,
+    module,
+    name,
+    version: Number(versionMatch?.[1] ?? 0),
+    file: path.relative(rootDir, file).replace(/\\/g, "/"),
+    downFile: fs.existsSync(downFile)
+      ? path.relative(rootDir, downFile).replace(/\\/g, "/")
+      : null,
+    checksum: checksum(sql),
+    sql,
+  };
+}
+
+function listSqlFiles(dir) {
+  return fs
+    .readdirSync(dir)
+    .filter((file) => file.endsWith(".sql") && !file.endsWith(".down.sql"))
+    .map((file) => path.join(dir, file));
+}
+
+function listModuleMigrationFiles(rootDir) {
+  const dataDir = path.join(rootDir, DATA_MODULES_DIR);
+  if (!fs.existsSync(dataDir)) return [];
+
+  return fs
+    .readdirSync(dataDir)
+    .filter((moduleDir) =>
+      fs.existsSync(path.join(dataDir, moduleDir, "migrations")),
+    )
+    .flatMap((moduleDir) =>
+      listSqlFiles(path.join(dataDir, moduleDir, "migrations")).map((file) => ({
+        file,
+        module: moduleDir,
+      })),
+    );
+}
+
+const byVersion = (a, b) =>
+  a.version - b.version ||
+  a.module.localeCompare(b.module) ||
+  a.name.localeCompare(b.name);
+
+// Root files in ROOT_MIGRATIONS order, then database/migrations by number,
+// then module migrations by version number, module and file name
+function discoverMigrations(rootDir = process.cwd()) {
+  const toRoot = (file) => toMigration(file, "database", rootDir);
+
+  const rootFiles = ROOT_MIGRATIONS.map((file) => path.join(rootDir, file))
+    .filter((file) => fs.existsSync(file))
+    .map(toRoot);
+
+  const migrationsDir = path.join(rootDir, ROOT_MIGRATIONS_DIR);
+  const numbered = fs.existsSync(migrationsDir)
+    ? listSqlFiles(migrationsDir).map(toRoot).sort(byVersion)
+    : [];
+
+  const modules = listModuleMigrationFiles(rootDir)
+    .map(({ file, module }) => toMigration(file, module, rootDir))
+    .sort(byVersion);
+
+  return [...rootFiles, ...numbered, ...modules];
+}
+
+// =====================================================
+// PLANNING
+// =====================================================
+
+// Compare files on disk with the ledger rows
+function getStatus(migrations, applied) {
+  const appliedById = new Map(applied.map((row) => [row.id, row]));
+  const onDisk = new Set(migrations.map((migration) => migration.id));
+
+  const entries = migrations.map((migration) => {
+    const row = appliedById.get(migration.id);
+    if (!row) return { migration, state: "pending" };
+    if (row.checksum !== migration.checksum) {
+      return { migration, state: "changed", appliedAt: row.applied_at };
+    }
+    return { migration, state: "applied", appliedAt: row.applied_at };
+  });
+
+  const missing = applied
+    .filter((row) => !onDisk.has(row.id))
+    .map((row) => ({ id: row.id, state: "missing" }));
+
+  return { entries, missing };
+}
+
+function planUp(migrations, applied, options = {}) {
+  const { entries } = getStatus(migrations, applied);
+  const changed = entries.filter((entry) => entry.state === "changed");
+  if (changed.length > 0) {
+    throw new Error(
+      `Applied migrations were edited after being applied: ${changed
+        .map((entry) => entry.migration.id)
+        .join(", ")}. Create a new migration instead.`,
+    );
+  }
+
+  const pending = entries
+    .filter((entry) => entry.state === "pending")
+    .map((entry) => entry.migration);
+
+  if (!options.to) return pending;
+
+  const target = pending.findIndex((migration) => migration.id === options.to);
+  if (target === -1) {
+    throw new Error(`Migration "${options.to}" is not pending`);
+  }
+  return pending.slice(0, target + 1);
+}
+
+// Most recently applied first
+function planDown(migrations, applied, options = {}) {
+  const steps = options.steps ?? 1;
+  const byId = new Map(
+    migrations.map((migration) => [migration.id, migration]),
+  );
+
+  return [...applied]
+    .sort((a, b) => b.position - a.position)
+    .slice(0, steps)
+    .map((row) => {
+      const migration = byId.get(row.id);
+      if (!migration) {
+        throw new Error(`Migration file for "${row.id}" no longer exists`);
+      }
+      if (!migration.downFile) {
+        throw new Error(
+          `Migration "${row.id}" has no down file (${migration.file.replace(/\.sql$/, ".down.sql")})`,
+        );
+      }
+      return migration;
+    });
+}
+
+// =====================================================
+// RUNNER
+// =====================================================
+
+class MigrationRunner {
+  // client: anything with pg's query(text, values) signature
+  constructor(client, options = {}) {
+    this.client = client;
+    this.rootDir = options.rootDir || process.cwd();
+    this.log = options.log || console.log;
+  }
+
+  async ledgerExists() {
+    const { rows } = await this.client.query(
+      "SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'schema_migrations'",
+    );
+    return rows.length > 0;
+  }
+
+  async ensureLedger() {
+    if (await this.ledgerExists()) return;
+    await this.client.query(`
+      CREATE TABLE ${LEDGER_TABLE} (
+        id TEXT PRIMARY KEY,
+        module TEXT NOT NULL,
+        checksum TEXT NOT NULL,
+        position SERIAL,
+        applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+  }
+
+  // Dry runs must not create the ledger, so a missing table means "nothing applied"
+  async getApplied() {
+    if (!(await this.ledgerExists())) return [];
+
+    const { rows } = await this.client.query(
+      `SELECT id, checksum, position, applied_at FROM ${LEDGER_TABLE} ORDER BY position`,
+    );
+    return rows;
+  }
+
+  async status() {
+    return getStatus(discoverMigrations(this.rootDir), await this.getApplied());
+  }
+
+  async up(options = {}) {
+    const plan = planUp(
+      discoverMigrations(this.rootDir),
+      await this.getApplied(),
+      options,
+    );
+    if (options.dryRun) return plan;
+
+    await this.ensureLedger();
+    for (const migration of plan) {
+      await this.inTransaction(migration.id, async () => {
+        await this.client.query(migration.sql);
+        await this.client.query(
+          `INSERT INTO ${LEDGER_TABLE} (id, module, checksum) VALUES ($1, $2, $3)`,
+          [migration.id, migration.module, migration.checksum],
+        );
+      });
+      this.log(`  ✓ Applied ${migration.id}`);
+    }
+    return plan;
+  }
+
+  async down(options = {}) {
+    const plan = planDown(
+      discoverMigrations(this.rootDir),
+      await this.getApplied(),
+      options,
+    );
+    if (options.dryRun) return plan;
+
+    for (const migration of plan) {
+      const downSql = loadMigrationSql(
+        path.join(this.rootDir, migration.downFile),
+      );
+      await this.inTransaction(migration.id, async () => {
+        await this.client.query(downSql);
+        await this.client.query(`DELETE FROM ${LEDGER_TABLE} WHERE id = $1`, [
+          migration.id,
+        ]);
+      });
+      this.log(`  ✓ Reverted ${migration.id}`);
+    }
+    return plan;
+  }
+
+  async inTransaction(id, work) {
+    await this.client.query("BEGIN");
+    try {
+      await work();
+      await this.client.query("COMMIT");
+    } catch (error) {
+      await this.client.query("ROLLBACK");
+      throw new Error(`Migration "${id}" failed: ${error.message}`);
+    }
+  }
+}
+
+// =====================================================
+// CLI
+// =====================================================
+
+const STATE_ICONS = {
+  applied: "✅",
+  pending: "⏳",
+  changed: "⚠️",
+  missing: "❓",
+};
+
+function parseOptions(args) {
+  const valueOf = (flag) => {
+    const index = args.indexOf(flag);
+    return index !== -1 ? args[index + 1] : undefined;
+  };
+
+  return {
+    dryRun: args.includes("--dry-run"),
+    to: valueOf("--to"),
+    steps: valueOf("--steps") ? Number(valueOf("--steps")) : undefined,
+    databaseUrl: valueOf("--database-url") || process.env.DATABASE_URL,
+  };
+}
+
+async function connect(databaseUrl) {
+  if (!databaseUrl) {
+    throw new Error("DATABASE_URL is not set (or pass --database-url <url>)");
+  }
+  const { Client } = require("pg");
+  const client = new Client({ connectionString: databaseUrl });
+  await client.connect();
+  return client;
+}
+
+function printPlan(title, plan, showDownFile) {
+  console.log(`\n📋 ${title}\n`);
+  if (plan.length === 0) {
+    console.log("  Nothing to do.\n");
+    return;
+  }
+  plan.forEach((migration, index) => {
+    const file = showDownFile ? migration.downFile : migration.file;
+    console.log(`  ${index + 1}. ${migration.id}`);
+    console.log(`     📍 ${file}`);
+  });
+  console.log();
+}
+
+function printStatus({ entries, missing }) {
+  console.log("\n🗄️  Migration Status\n");
+  console.log("─".repeat(50));
+  entries.forEach(({ migration, state, appliedAt }) => {
+    const when = appliedAt ? ` • ${new Date(appliedAt).toLocaleString()}` : "";
+    console.log(`  ${STATE_ICONS[state]} ${migration.id} (${state}${when})`);
+  });
+  missing.forEach(({ id, state }) => {
+    console.log(`  ${STATE_ICONS[state]} ${id} (applied, file not found)`);
+  });
+
+  const pending = entries.filter((entry) => entry.state === "pending").length;
+  console.log(`\n📊 ${entries.length} migrations • ${pending} pending\n`);
+}
+
+function listMigrations() {
+  console.log("\n🗄️  Discovered Migrations\n");
+  discoverMigrations().forEach((migration) => {
+    const down = migration.downFile ? "↕" : "↑";
+    console.log(`  ${down} ${migration.id}`);
+    console.log(
+      `     📍 ${migration.file} • ${migration.checksum.slice(0, 12)}`,
+    );
+  });
+  console.log();
+}
+
+async function runCommand(command, options) {
+  if (command === "list") return listMigrations();
+
+  const client = await connect(options.databaseUrl);
+  const runner = new MigrationRunner(client);
+  try {
+    if (command === "status") {
+      printStatus(await runner.status());
+    } else if (command === "up" || command === "plan") {
+      const dryRun = options.dryRun || command === "plan";
+      if (!dryRun) console.log("\n🚀 Applying migrations...\n");
+      const plan = await runner.up({ ...options, dryRun });
+      if (dryRun) printPlan("Pending migrations (dry run)", plan, false);
+      else console.log(`\n✅ Applied ${plan.length} migration(s)\n`);
+    } else if (command === "down") {
+      if (!options.dryRun) console.log("\n⏪ Reverting migrations...\n");
+      const plan = await runner.down(options);
+      if (options.dryRun)
+        printPlan("Migrations to revert (dry run)", plan, true);
+      else console.log(`\n✅ Reverted ${plan.length} migration(s)\n`);
+    } else {
+      throw new Error(`Unknown command: ${command}`);
+    }
+  } finally {
+    await client.end();
+  }
+}
+
+function showHelp() {
+  console.log(`
+🗄️  Migration Runner - Database schema migrations
+
+Usage: node migrate.js <command> [options]
+
+Commands:
+  list                         List discovered migrations (no database needed)
+  status                       Show applied, pending and edited migrations
+  plan                         Show pending migrations without applying them
+  up [--to <id>] [--dry-run]   Apply pending migrations
+  down [--steps <n>] [--dry-run] Revert the last applied migration(s)
+
+Options:
+  --database-url <url>         Defaults to the DATABASE_URL env var
+
+Sources (in order):
+  ${ROOT_MIGRATIONS.join(", ")}
+  ${ROOT_MIGRATIONS_DIR}/NNN_name.sql (+ NNN_name.down.sql)
+  ${DATA_MODULES_DIR}/<module>/migrations/NNN_name.sql (+ NNN_name.down.sql)
+
+Examples:
+  node migrate.js status
+  node migrate.js up --dry-run
+  node migrate.js up --to user-data/001_create_users_table
+  node migrate.js down --steps 2
+  `);
+}
+
+async function main(args = process.argv.slice(2)) {
+  const command = args[0];
+
+  if (!command || command === "--help" || command === "-h") {
+    showHelp();
+    return;
+  }
+
+  try {
+    await runCommand(command, parseOptions(args.slice(1)));
+  } catch (error) {
+    console.error(`\n❌ Error: ${error.message}\n`);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
+
+module.exports = {
+  main,
+  MigrationRunner,
+  discoverMigrations,
+  loadMigrationSql,
+  checksum,
+  getStatus,
+  planUp,
+  planDown,
+};
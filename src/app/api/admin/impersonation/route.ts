@@ -0,0 +1,72 @@
+import { createClient } from "@supabase/supabase-js";
+import { NextResponse, type NextRequest } from "next/server";
+
+import { getEnv } from "@/config/env";
+import {
+  ImpersonationService,
+  type ImpersonationErrorCode,
+} from "@/shared/services/auth/impersonation";
+import { requireSessionToken } from "@/shared/services/auth/tokens";
+import type { IAuthError } from "@/shared/types/auth";
+import { supabaseAdmin } from "@/shared/utils/supabase";
+
+const STATUS: Record<ImpersonationErrorCode, number> = {
+  unauthorized: 401,
+  forbidden: 403,
+  invalid_request: 400,
+  not_found: 404,
+  impersonation_failed: 500,
+};
+
+const createAnonClient = (): ReturnType<typeof createClient> => {
+  const env = getEnv();
+  return createClient(
+    env.NEXT_PUBLIC_SUPABASE_URL,
+    env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
+    { auth: { persistSession: false, autoRefreshToken: false } },
+  );
+};
+
+const service = new ImpersonationService(supabaseAdmin, createAnonClient);
+
+const errorResponse = (error: unknown): NextResponse => {
+  const { code, message } = error as IAuthError;
+  const status = STATUS[code as ImpersonationErrorCode] ?? 500;
+  return NextResponse.json({ code, message }, { status });
+};
+
+/**
+ * Starts impersonating a user: { userId, reason } with the admin's session
+ * (access tokens are refused)
+ * Responds with the impersonated session's tokens and its audit row
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const { userId, reason } = (await request.json().catch(() => ({}))) as {
+      userId?: string;
+      reason?: string;
+    };
+    const grant = await service.start(
+      requireSessionToken(request.headers),
+      userId ?? "",
+      reason ?? "",
+    );
+    return NextResponse.json(grant);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Stops the impersonation the bearer (impersonated) token belongs to
+ */
+export async function DELETE(request: NextRequest): Promise<NextResponse> {
+  try {
+    const impersonation = await service.stop(
+      requireSessionToken(request.headers),
+    );
+    return NextResponse.json({ impersonation });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,95 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+import { getEnv } from "@/config/env";
+import {
+  authenticateApiCaller,
+  requireSessionToken,
+} from "@/shared/services/auth/tokens";
+import {
+  InvitationService,
+  type InvitationErrorCode,
+} from "@/shared/services/organizations";
+import type { IInviteMember } from "@/shared/types/organization";
+import type { IRBACError } from "@/shared/types/rbac";
+import { supabaseAdmin } from "@/shared/utils/supabase";
+
+const STATUS: Record<InvitationErrorCode, number> = {
+  unauthorized: 401,
+  forbidden: 403,
+  invalid_request: 400,
+  not_found: 404,
+  expired: 410,
+  invitation_failed: 500,
+};
+
+// Invitations are disabled until INVITATION_SECRET is configured
+const createService = (): InvitationService => {
+  const secret = getEnv().INVITATION_SECRET;
+  if (!secret) {
+    throw {
+      code: "invitation_failed",
+      message: "Invitations are not configured",
+    } satisfies IRBACError;
+  }
+  return new InvitationService(supabaseAdmin, secret);
+};
+
+const readBody = async <T>(request: NextRequest): Promise<Partial<T>> =>
+  (await request.json().catch(() => ({}))) as Partial<T>;
+
+const errorResponse = (error: unknown): NextResponse => {
+  const { code, message } = error as IRBACError;
+  const status = STATUS[code as InvitationErrorCode] ?? 500;
+  return NextResponse.json({ code, message }, { status });
+};
+
+/**
+ * Invites { organizationId, email, role, expiresInDays? } with the
+ * inviter's session or access token. Responds with the invitation and its
+ * link token
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const input = await readBody<IInviteMember>(request);
+    const service = createService();
+    const inviter = await authenticateApiCaller(request.headers, supabaseAdmin);
+    const created = await service.invite(inviter, {
+      organizationId: input.organizationId ?? "",
+      email: input.email ?? "",
+      role: input.role ?? "",
+      expiresInDays: input.expiresInDays,
+    });
+    return NextResponse.json(created);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Accepts { token } as the signed-in invitee; access tokens are refused
+ */
+export async function PUT(request: NextRequest): Promise<NextResponse> {
+  try {
+    const { token } = await readBody<{ token: string }>(request);
+    const invitation = await createService().accept(
+      requireSessionToken(request.headers),
+      token ?? "",
+    );
+    return NextResponse.json({ invitation });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Declines { token }; no session needed
+ */
+export async function DELETE(request: NextRequest): Promise<NextResponse> {
+  try {
+    const { token } = await readBody<{ token: string }>(request);
+    const invitation = await createService().decline(token ?? "");
+    return NextResponse.json({ invitation });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
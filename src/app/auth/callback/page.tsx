@@ -0,0 +1,60 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useEffect, useRef, useState } from "react";
+
+import { redirects, routes } from "@/config/routes";
+import { useAuth } from "@/shared/components/providers/auth-provider";
+
+// Only same-origin paths: `?next=//evil.com` must not become a redirect
+const safeNextPath = (next: string | null): string =>
+  next && next.startsWith("/") && !next.startsWith("//")
+    ? next
+    : redirects.afterLogin;
+
+/**
+ * OAuth and magic link callback page
+ * Exchanges the `code` from the identity provider or the email link for a
+ * session (PKCE), for both sign-in and identity linking, then follows `?next=`
+ */
+export default function AuthCallbackPage(): JSX.Element {
+  const router = useRouter();
+  const { provider, handleOAuthCallback } = useAuth();
+  const [error, setError] = useState<string | null>(null);
+  // The code is single-use: never exchange it twice (Strict Mode, re-renders)
+  const exchanged = useRef(false);
+
+  useEffect(() => {
+    if (!provider || exchanged.current) return;
+    exchanged.current = true;
+
+    const url = window.location.href;
+    handleOAuthCallback(url)
+      .then(() => {
+        const next = new URL(url).searchParams.get("next");
+        router.replace(safeNextPath(next));
+      })
+      .catch((reason: { message?: string }) => {
+        setError(reason?.message ?? "Sign-in failed");
+      });
+  }, [provider, handleOAuthCallback, router]);
+
+  if (error) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center space-y-4">
+        <p className="text-sm text-destructive">{error}</p>
+        <a className="text-sm underline" href={routes.auth.login}>
+          Back to sign in
+        </a>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center">
+      <p className="text-sm text-muted-foreground animate-pulse">
+        Signing you in...
+      </p>
+    </div>
+  );
+}
@@ -12,6 +12,19 @@ const envSchema = z.object({
   SUPABASE_SERVICE_ROLE_KEY: z
     .string()
     .min(1, "Supabase Service Role Key is required"),
+  // Optional: HS256 projects; without it the middleware uses the JWKS
+  SUPABASE_JWT_SECRET: z.string().optional(),
+  // Optional: only when the "auth0" auth provider is used
+  NEXT_PUBLIC_AUTH0_DOMAIN: z.string().optional(),
+  NEXT_PUBLIC_AUTH0_CLIENT_ID: z.string().optional(),
+  NEXT_PUBLIC_AUTH0_AUDIENCE: z.string().optional(),
+  // Optional: only when the "oidc" auth provider is used
+  NEXT_PUBLIC_OIDC_ISSUER: z.string().optional(),
+  NEXT_PUBLIC_OIDC_CLIENT_ID: z.string().optional(),
+  // Dot path to the roles claim, e.g. "realm_access.roles" (Keycloak)
+  NEXT_PUBLIC_OIDC_ROLE_CLAIM: z.string().optional(),
+  // Optional: signs organization invitation links (server-side only)
+  INVITATION_SECRET: z.string().optional(),
   STRIPE_SECRET_KEY: z.string().min(1, "Stripe Secret Key is required"),
   STRIPE_WEBHOOK_SECRET: z.string().min(1, "Stripe Webhook Secret is required"),
 });
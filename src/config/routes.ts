@@ -23,7 +23,7 @@ export const routes = {
     forgotPassword: "/auth/forgot-password",
     resetPassword: "/auth/reset-password",
     verifyEmail: "/auth/verify-email",
-    callback: "/auth/callback", // OAuth callback
+    callback: "/auth/callback", // OAuth and magic link callback
   },
 
   // Protected routes (authentication required)
@@ -48,6 +48,16 @@ export const routes = {
     users: "/api/users",
     posts: "/api/posts",
 
+    // Admin API routes (authorized by the route itself)
+    admin: {
+      impersonation: "/api/admin/impersonation",
+    },
+
+    // Organization API routes (authorized by the route itself)
+    organizations: {
+      invitations: "/api/organizations/invitations",
+    },
+
     // Public API routes (no auth required)
     public: {
       health: "/api/health",
@@ -90,12 +100,18 @@ export const routeGroups = {
     ...Object.values(routes.protected.admin),
   ],
 
-  // Routes that redirect authenticated users
-  authOnly: Object.values(routes.auth),
+  // Routes that redirect authenticated users (the OAuth callback stays
+  // reachable: signed-in users land there after linking an identity)
+  authOnly: Object.values(routes.auth).filter(
+    (route) => route !== routes.auth.callback,
+  ),
 
   // Admin-only routes
   adminOnly: Object.values(routes.protected.admin),
 
+  // Routes an impersonating admin cannot reach (the customer's billing)
+  impersonationBlocked: [routes.protected.billing],
+
   // Public API routes (no rate limiting)
   publicApi: Object.values(routes.api.public),
 
@@ -118,6 +134,12 @@ export const isAdminRoute = (pathname: string): boolean => {
   return routeGroups.adminOnly.some((route) => pathname.startsWith(route));
 };
 
+export const isImpersonationBlockedRoute = (pathname: string): boolean => {
+  return routeGroups.impersonationBlocked.some((route) =>
+    pathname.startsWith(route),
+  );
+};
+
 export const isPublicApiRoute = (pathname: string): boolean => {
   return routeGroups.publicApi.some((route) => pathname.startsWith(route));
 };
@@ -135,6 +157,7 @@ export const redirects = {
   afterRegister: routes.protected.dashboard,
   unauthorized: routes.auth.login,
   adminRequired: routes.errors.forbidden,
+  impersonationBlocked: routes.errors.forbidden,
 } as const;
 
 /**
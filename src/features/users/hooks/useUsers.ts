@@ -3,6 +3,7 @@ import { useCallback } from "react";
 import { useUserStore, type UserStore } from "../stores/user.store";
 import type {
   IUserListFilter,
+  IUserListResponse,
   ICreateUserInput,
   IUpdateUserInput,
   IUserProfile,
@@ -15,6 +16,7 @@ interface IUseUsersReturn {
   filter: IUserListFilter;
   hasMore: boolean;
   total: number;
+  nextCursor: string | null;
   fetchUsers: (newFilter?: Partial<IUserListFilter>) => Promise<void>;
   createUser: (input: ICreateUserInput) => Promise<IUserProfile>;
   updateUser: (
@@ -32,11 +34,7 @@ interface IUseUsersReturn {
  */
 const fetchUsersFromService = async (
   filter: IUserListFilter, // eslint-disable-line @typescript-eslint/no-unused-vars
-): Promise<{
-  users: IUserProfile[];
-  total: number;
-  hasMore: boolean;
-}> => {
+): Promise<IUserListResponse> => {
   // TODO: Replace with actual service call when implemented
   // const userService = getUserService()
   // return await userService.getUsers(filter)
@@ -46,6 +44,7 @@ const fetchUsersFromService = async (
     users: [],
     total: 0,
     hasMore: false,
+    nextCursor: null,
   };
 };
 
@@ -105,36 +104,81 @@ const getErrorMessage = (error: unknown, defaultMessage: string): string => {
   return error instanceof Error ? error.message : defaultMessage;
 };
 
-// Helper: Fetch users operation
-const useFetchUsers = (
-  filter: IUserListFilter,
+// Helper: Fetch one page; `append` keeps the current list (infinite scroll)
+const useFetchUsersPage = (
   setters: UserStore,
-): ((newFilter?: Partial<IUserListFilter>) => Promise<void>) => {
+): ((pageFilter: IUserListFilter, append: boolean) => Promise<void>) => {
   return useCallback(
-    async (newFilter?: Partial<IUserListFilter>): Promise<void> => {
+    async (pageFilter: IUserListFilter, append: boolean): Promise<void> => {
       try {
         setters.setUsersLoading(true);
         setters.setUsersError(null);
 
-        const mergedFilter = { ...filter, ...newFilter };
-        if (newFilter) {
-          setters.setFilter(newFilter);
+        const result = await fetchUsersFromService(pageFilter);
+        if (append) {
+          setters.appendUsers(result.users);
+        } else {
+          setters.setUsers(result.users);
         }
-
-        const result = await fetchUsersFromService(mergedFilter);
-        setters.setUsers(result.users);
         setters.setTotal(result.total);
         setters.setHasMore(result.hasMore);
+        setters.setNextCursor(result.nextCursor ?? null);
       } catch (error) {
         setters.setUsersError(getErrorMessage(error, "Failed to fetch users"));
       } finally {
         setters.setUsersLoading(false);
       }
     },
-    [filter, setters],
+    [setters],
+  );
+};
+
+// Helper: Fetch users operation
+const useFetchUsers = (
+  filter: IUserListFilter,
+  setters: UserStore,
+): ((newFilter?: Partial<IUserListFilter>) => Promise<void>) => {
+  const fetchPage = useFetchUsersPage(setters);
+  return useCallback(
+    async (newFilter?: Partial<IUserListFilter>): Promise<void> => {
+      if (newFilter) {
+        setters.setFilter(newFilter);
+      }
+      await fetchPage({ ...filter, ...newFilter }, false);
+    },
+    [filter, setters, fetchPage],
   );
 };
 
+// Helper: Load next page - appended by cursor when the last page returned
+// one, otherwise fetched by offset
+const useLoadMore = (
+  state: UserStore,
+  fetchUsers: (newFilter?: Partial<IUserListFilter>) => Promise<void>,
+): (() => Promise<void>) => {
+  const fetchPage = useFetchUsersPage(state);
+  const { hasMore, isLoadingUsers, nextCursor, users, filter } = state;
+  return useCallback(async (): Promise<void> => {
+    if (!hasMore || isLoadingUsers) return;
+    if (nextCursor) {
+      await fetchPage(
+        { ...filter, after: nextCursor, before: undefined },
+        true,
+      );
+      return;
+    }
+    await fetchUsers({ ...filter, offset: users.length });
+  }, [
+    hasMore,
+    isLoadingUsers,
+    nextCursor,
+    users.length,
+    filter,
+    fetchPage,
+    fetchUsers,
+  ]);
+};
+
 // Helper: Create user operation
 const useCreateUser = (
   setters: UserStore,
@@ -172,6 +216,7 @@ export const useUsers = (): IUseUsersReturn => {
     filter,
     hasMore,
     total,
+    nextCursor,
     updateUser: updateUserInStore,
     removeUser,
     setUsersLoading,
@@ -218,11 +263,7 @@ export const useUsers = (): IUseUsersReturn => {
     },
     [removeUser, setUsersLoading, setUsersError],
   );
-  const loadMore = useCallback(async (): Promise<void> => {
-    if (!hasMore || isLoadingUsers) return;
-    const nextOffset = users.length;
-    await fetchUsers({ ...filter, offset: nextOffset });
-  }, [hasMore, isLoadingUsers, users.length, filter, fetchUsers]);
+  const loadMore = useLoadMore(storeState, fetchUsers);
   return {
     users,
     isLoadingUsers,
@@ -230,6 +271,7 @@ export const useUsers = (): IUseUsersReturn => {
     filter,
     hasMore,
     total,
+    nextCursor,
     fetchUsers,
     createUser,
     updateUser: updateUserById,
@@ -34,11 +34,18 @@ export class UserService {
     return this.userRepository.findById(id);
   }
 
+  // `after`/`before` switch to cursor pagination, where offset is not used
   async getUsers(filter: IUserListFilter = {}): Promise<IUserListResponse> {
+    if (filter.after && filter.before) {
+      throw new Error("Use either 'after' or 'before' cursor, not both");
+    }
+    const isCursorMode =
+      filter.after !== undefined || filter.before !== undefined;
+
     // Set defaults
     const normalizedFilter: IUserListFilter = {
       limit: 20,
-      offset: 0,
+      ...(isCursorMode ? {} : { offset: 0 }),
       sortBy: "createdAt",
       sortOrder: "desc",
       ...filter,
@@ -16,6 +16,8 @@ interface IUserState {
   filter: IUserListFilter;
   hasMore: boolean;
   total: number;
+  // Cursor for the next page when the list uses cursor pagination
+  nextCursor: string | null;
 }
 
 interface IUserActions {
@@ -26,6 +28,7 @@ interface IUserActions {
 
   // List actions
   setUsers: (users: IUserProfile[]) => void;
+  appendUsers: (users: IUserProfile[]) => void;
   addUser: (user: IUserProfile) => void;
   updateUser: (id: string, updates: Partial<IUserProfile>) => void;
   removeUser: (id: string) => void;
@@ -34,6 +37,7 @@ interface IUserActions {
   setFilter: (filter: Partial<IUserListFilter>) => void;
   setHasMore: (hasMore: boolean) => void;
   setTotal: (total: number) => void;
+  setNextCursor: (nextCursor: string | null) => void;
 
   // Utility actions
   reset: () => void;
@@ -56,6 +60,16 @@ const initialState: IUserState = {
   },
   hasMore: false,
   total: 0,
+  nextCursor: null,
+};
+
+// Skips users already in the list (rows may shift between pages)
+const mergeUsers = (
+  current: IUserProfile[],
+  incoming: IUserProfile[],
+): IUserProfile[] => {
+  const existingIds = new Set(current.map((user) => user.id));
+  return [...current, ...incoming.filter((user) => !existingIds.has(user.id))];
 };
 
 export const useUserStore = create<UserStore>()(
@@ -72,6 +86,15 @@ export const useUserStore = create<UserStore>()(
       // List actions
       setUsers: (users: IUserProfile[]): void =>
         set({ users, usersError: null }, false, "user/setUsers"),
+      appendUsers: (users: IUserProfile[]): void =>
+        set(
+          (state) => ({
+            users: mergeUsers(state.users, users),
+            usersError: null,
+          }),
+          false,
+          "user/appendUsers",
+        ),
       addUser: (user: IUserProfile): void =>
         set(
           (state) => ({ users: [...state.users, user] }),
@@ -115,6 +138,8 @@ export const useUserStore = create<UserStore>()(
       setHasMore: (hasMore: boolean): void =>
         set({ hasMore }, false, "user/setHasMore"),
       setTotal: (total: number): void => set({ total }, false, "user/setTotal"),
+      setNextCursor: (nextCursor: string | null): void =>
+        set({ nextCursor }, false, "user/setNextCursor"),
       reset: (): void => set(initialState, false, "user/reset"),
     }),
     {
@@ -1,5 +1,47 @@
 import { NextRequest, NextResponse } from "next/server";
 
+import {
+  isAdminRoute,
+  isAuthRoute,
+  isImpersonationBlockedRoute,
+  isProtectedRoute,
+  redirects,
+} from "@/config/routes";
+import {
+  EdgeSessionVerifier,
+  SESSION_COOKIE_NAME,
+  chunkedCookieNames,
+  encodeChunkedCookie,
+  parseStoredSession,
+  readChunkedCookie,
+  sessionCookieOptions,
+  type IJwtClaims,
+  type IStoredSession,
+} from "@/shared/services/auth/session";
+import {
+  PersonalAccessTokenResolver,
+  TOKEN_PRINCIPAL_HEADER,
+  encodeTokenPrincipal,
+  isPersonalAccessToken,
+  readBearerToken,
+} from "@/shared/services/auth/tokens";
+import { logger } from "@/shared/services/logger";
+import { ADMIN_ROLES } from "@/shared/types/rbac";
+
+// Only what the edge needs: getEnv() validates the whole server
+// environment (service role, Stripe) and would fail here without it
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL ?? "";
+const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ?? "";
+
+// One verifier per isolate: keeps the JWKS cache between requests
+const sessionVerifier = new EdgeSessionVerifier({
+  supabaseUrl,
+  anonKey,
+  jwtSecret: process.env.SUPABASE_JWT_SECRET || undefined,
+});
+
+const tokenResolver = new PersonalAccessTokenResolver({ supabaseUrl, anonKey });
+
 /**
  * Adds security headers to response
  * SRP: Responsible only for setting security headers
@@ -17,78 +59,174 @@ const addSecurityHeaders = (response: NextResponse): void => {
 /**
  * Checks if request should skip middleware
  * SRP: Responsible only for determining if middleware should run
+ * API paths never skip it, dotted or public: the principal header must be
+ * stripped from every request that can reach a route
  */
 const shouldSkipMiddleware = (pathname: string): boolean => {
+  return pathname.startsWith("/_next") || pathname.includes(".");
+};
+
+const isApiRoute = (pathname: string): boolean => pathname.startsWith("/api/");
+
+const isPublicApiRoute = (pathname: string): boolean =>
+  pathname.startsWith("/api/public");
+
+const hasAdminRole = (claims: IJwtClaims | null): boolean => {
+  const roles = claims?.user_roles;
   return (
-    pathname.startsWith("/_next") ||
-    pathname.startsWith("/api/public") ||
-    pathname.includes(".")
+    Array.isArray(roles) && roles.some((role) => ADMIN_ROLES.includes(role))
   );
 };
 
 /**
- * Middleware for handling routing, authentication, and redirects
- * This runs before every request and is essential for:
- * - Route protection
- * - Authentication checks
- * - Redirects and rewrites
- * - Request/response modifications
- *
- * TEMPLATE NOTE: Uncomment and modify the authentication logic based on your auth provider
+ * Decides where a request must go given its verified claims
+ * SRP: Responsible only for route access rules
+ * Admin access comes from the `user_roles` claim that the
+ * custom_access_token_hook (database/rbac-schema.sql and its migrations)
+ * adds to the JWT: the user's effective roles, inherited ones included
  */
-export function middleware(request: NextRequest): NextResponse {
-  const { pathname } = request.nextUrl;
-  // Skip middleware for static files and API routes that don't need auth
-  if (shouldSkipMiddleware(pathname)) {
-    return NextResponse.next();
+const resolveRedirect = (
+  request: NextRequest,
+  claims: IJwtClaims | null,
+): URL | null => {
+  const { pathname, search } = request.nextUrl;
+
+  if (isProtectedRoute(pathname) && !claims) {
+    const url = new URL(redirects.unauthorized, request.url);
+    url.searchParams.set("next", `${pathname}${search}`);
+    return url;
   }
-  // Security headers for all requests
-  const response = NextResponse.next();
-  addSecurityHeaders(response);
-  // EXAMPLE: Route protection using centralized configuration
-  // Uncomment and modify based on your authentication strategy
-  /*
-  // Import route helpers first:
-  // import { isProtectedRoute, isAuthRoute, isAdminRoute, redirects } from "@/config/routes";
-
-  // Check if route requires authentication
-  if (isProtectedRoute(pathname)) {
-    // EXAMPLE: Check for authentication token/session
-    const token = request.cookies.get('auth-token')?.value;
-    const session = request.cookies.get('next-auth.session-token')?.value;
-
-    if (!token && !session) {
-      // Redirect to login page
-      return NextResponse.redirect(
-        new URL(redirects.unauthorized, request.url)
-      );
-    }
 
-    // EXAMPLE: Admin route protection
-    if (isAdminRoute(pathname)) {
-      const userRole = request.cookies.get('user-role')?.value;
+  if (isAdminRoute(pathname) && !hasAdminRole(claims)) {
+    return new URL(redirects.adminRequired, request.url);
+  }
 
-      if (userRole !== 'admin') {
-        return NextResponse.redirect(
-          new URL(redirects.adminRequired, request.url)
-        );
-      }
-    }
+  // The impersonator claim (custom_access_token_hook) marks a support
+  // admin signed in as the customer: billing stays out of reach
+  if (isImpersonationBlockedRoute(pathname) && claims?.impersonator) {
+    return new URL(redirects.impersonationBlocked, request.url);
+  }
+
+  if (isAuthRoute(pathname) && claims) {
+    return new URL(redirects.afterLogin, request.url);
   }
 
-  // Redirect authenticated users away from auth pages
-  if (isAuthRoute(pathname)) {
-    const token = request.cookies.get('auth-token')?.value;
-    const session = request.cookies.get('next-auth.session-token')?.value;
+  return null;
+};
+
+/**
+ * API routes: a personal access token (Bearer pat_...) is resolved here
+ * and its principal handed to the route in TOKEN_PRINCIPAL_HEADER (see
+ * authenticateApiCaller). Other requests go through with the header removed
+ * and their session unverified: the route must authenticate them itself.
+ * Public API routes only get the header removed
+ */
+const handleApiRequest = async (
+  request: NextRequest,
+): Promise<NextResponse> => {
+  const headers = new Headers(request.headers);
+  headers.delete(TOKEN_PRINCIPAL_HEADER);
 
-    if (token || session) {
-      return NextResponse.redirect(
-        new URL(redirects.afterLogin, request.url)
+  const token = readBearerToken(request.headers.get("authorization"));
+  if (
+    !isPublicApiRoute(request.nextUrl.pathname) &&
+    isPersonalAccessToken(token)
+  ) {
+    const principal = await tokenResolver.resolve(token).catch((error) => {
+      logger.error("Access token lookup unavailable", "middleware", { error });
+      return undefined;
+    });
+    if (principal === undefined) {
+      return NextResponse.json(
+        { code: "unavailable", message: "Could not verify the access token" },
+        { status: 503 },
       );
     }
+    if (!principal) {
+      return NextResponse.json(
+        { code: "invalid_token", message: "Invalid or expired access token" },
+        { status: 401 },
+      );
+    }
+    headers.set(TOKEN_PRINCIPAL_HEADER, encodeTokenPrincipal(principal));
   }
-  */
 
+  return NextResponse.next({ request: { headers } });
+};
+
+/**
+ * Reads the (possibly chunked) Supabase session cookie
+ * RequestCookies hands back decoded values; the chunks were stored encoded
+ */
+const readSession = (request: NextRequest): IStoredSession | null =>
+  parseStoredSession(
+    readChunkedCookie(SESSION_COOKIE_NAME, (name) => {
+      const value = request.cookies.get(name)?.value;
+      return value === undefined ? undefined : encodeURIComponent(value);
+    }),
+  );
+
+/**
+ * Writes the refreshed session (or clears an invalid one) on the response
+ * SRP: Responsible only for session cookie persistence
+ */
+const writeSession = (
+  request: NextRequest,
+  response: NextResponse,
+  session: IStoredSession | null,
+): void => {
+  const cookies = session
+    ? encodeChunkedCookie(SESSION_COOKIE_NAME, JSON.stringify(session))
+    : [];
+  const written = new Set(cookies.map(({ name }) => name));
+  const existing = request.cookies.getAll().map(({ name }) => name);
+
+  chunkedCookieNames(SESSION_COOKIE_NAME, existing)
+    .filter((name) => !written.has(name))
+    .forEach((name) => response.cookies.delete(name));
+
+  cookies.forEach(({ name, value }) =>
+    response.cookies.set(name, decodeURIComponent(value), {
+      ...sessionCookieOptions,
+      secure: process.env.NODE_ENV === "production",
+    }),
+  );
+};
+
+/**
+ * Middleware for handling routing, authentication, and redirects
+ * This runs before every request and is essential for:
+ * - Route protection (signature and expiry checked, not just a cookie)
+ * - Session refresh: near-expiry tokens are renewed and cookies rewritten
+ * - Redirects for anonymous users, non-admins and signed-in users
+ * - Personal access tokens on API routes
+ */
+export async function middleware(request: NextRequest): Promise<NextResponse> {
+  const { pathname } = request.nextUrl;
+  if (isApiRoute(pathname)) {
+    const response = await handleApiRequest(request);
+    addSecurityHeaders(response);
+    return response;
+  }
+
+  // Skip middleware for static files
+  if (shouldSkipMiddleware(pathname)) {
+    return NextResponse.next();
+  }
+
+  const stored = readSession(request);
+  const { status, claims, session } = await sessionVerifier.verify(stored);
+
+  const redirectTo = resolveRedirect(request, claims);
+  const response = redirectTo
+    ? NextResponse.redirect(redirectTo)
+    : NextResponse.next();
+
+  if (status === "refreshed") writeSession(request, response, session ?? null);
+  if (status === "invalid") writeSession(request, response, null);
+
+  // Security headers for all requests
+  addSecurityHeaders(response);
   return response;
 }
 
@@ -100,12 +238,13 @@ export const config = {
   matcher: [
     /*
      * Match all request paths except for the ones starting with:
-     * - api (API routes)
      * - _next/static (static files)
      * - _next/image (image optimization files)
      * - favicon.ico (favicon file)
      * - public folder files
+     * API routes always match, dotted paths included
      */
-    "/((?!api|_next/static|_next/image|favicon.ico|.*\..*).*)",
+    "/((?!_next/static|_next/image|favicon.ico|.*\..*).*)",
+    "/api/:path*",
   ],
 };
@@ -0,0 +1,66 @@
+import type { IAuthProvider } from "@/shared/types/auth";
+
+// Métodos opcionais no provider (OAuth, passwordless, MFA, sessões,
+// impersonação), mas sempre presentes no contexto: rejeitam quando o
+// provider não os implementa
+export const OPTIONAL_AUTH_ACTIONS = [
+  "signInWithOAuth",
+  "handleOAuthCallback",
+  "linkIdentity",
+  "unlinkIdentity",
+  "sendMagicLink",
+  "verifyOtp",
+  "enrollTotp",
+  "challengeMfa",
+  "verifyMfa",
+  "listMfaFactors",
+  "unenrollMfa",
+  "getAssuranceLevel",
+  "listSessions",
+  "revokeSession",
+  "revokeAllOtherSessions",
+  "startImpersonation",
+  "stopImpersonation",
+] as const;
+
+export type OptionalAuthActions = Required<
+  Pick<IAuthProvider, (typeof OPTIONAL_AUTH_ACTIONS)[number]>
+>;
+
+const bindOrReject = <K extends keyof OptionalAuthActions>(
+  provider: IAuthProvider | null,
+  method: K,
+): OptionalAuthActions[K] => {
+  const bound = provider?.[method]?.bind(provider);
+  if (bound) return bound as OptionalAuthActions[K];
+
+  return ((): Promise<never> =>
+    Promise.reject(
+      new Error(
+        provider
+          ? `Auth provider does not support ${method}`
+          : "Auth provider not initialized",
+      ),
+    )) as OptionalAuthActions[K];
+};
+
+/**
+ * Binds the optional methods, rejecting when the provider lacks them
+ * SRP: Responsible only for capability detection
+ */
+export const bindOptionalAuthActions = (
+  provider: IAuthProvider | null,
+): OptionalAuthActions =>
+  Object.fromEntries(
+    OPTIONAL_AUTH_ACTIONS.map((method) => [
+      method,
+      bindOrReject(provider, method),
+    ]),
+  ) as OptionalAuthActions;
+
+export const pickOptionalAuthActions = (
+  source: OptionalAuthActions,
+): OptionalAuthActions =>
+  Object.fromEntries(
+    OPTIONAL_AUTH_ACTIONS.map((method) => [method, source[method]]),
+  ) as OptionalAuthActions;
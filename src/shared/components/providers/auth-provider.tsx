@@ -12,14 +12,24 @@ import {
   AuthProviderFactory,
   registerDefaultProviders,
 } from "@/shared/services/auth/auth-factory";
+import type { ISessionLifecycleOptions } from "@/shared/services/auth/lifecycle";
 import type {
+  AuthAssuranceLevel,
   IAuthProvider,
   IAuthState,
   IAuthProviderConfig,
+  IImpersonator,
 } from "@/shared/types/auth";
 
+import {
+  bindOptionalAuthActions,
+  pickOptionalAuthActions,
+  type OptionalAuthActions,
+} from "./auth-actions";
+import { startSessionLifecycle } from "./session-lifecycle";
+
 // Context (Dependency Inversion)
-interface IAuthContextType extends IAuthState {
+interface IAuthContextType extends IAuthState, OptionalAuthActions {
   provider: IAuthProvider | null;
   login: IAuthProvider["login"];
   register: IAuthProvider["register"];
@@ -35,6 +45,9 @@ const AuthContext = createContext<IAuthContextType | null>(null);
 interface IAuthProviderProps {
   children: ReactNode;
   config?: IAuthProviderConfig;
+  // Renovação proativa e logout por inatividade; false desliga.
+  // Passe um objeto estável (ex.: constante do módulo)
+  lifecycle?: ISessionLifecycleOptions | false;
 }
 
 interface IUseAuthStateReturn {
@@ -45,7 +58,7 @@ interface IUseAuthStateReturn {
   error: IAuthState["error"];
 }
 
-interface IUseAuthActionsReturn {
+interface IUseAuthActionsReturn extends OptionalAuthActions {
   login: IAuthProvider["login"];
   register: IAuthProvider["register"];
   logout: IAuthProvider["logout"];
@@ -71,6 +84,7 @@ export const useAuthState = (): IUseAuthStateReturn => {
 
 // Hook especializado para ações (Single Responsibility)
 export const useAuthActions = (): IUseAuthActionsReturn => {
+  const context = useAuth();
   const {
     login,
     register,
@@ -78,7 +92,7 @@ export const useAuthActions = (): IUseAuthActionsReturn => {
     resetPassword,
     updatePassword,
     refreshSession,
-  } = useAuth();
+  } = context;
   return {
     login,
     register,
@@ -86,9 +100,18 @@ export const useAuthActions = (): IUseAuthActionsReturn => {
     resetPassword,
     updatePassword,
     refreshSession,
+    ...pickOptionalAuthActions(context),
   };
 };
 
+// Nível MFA da sessão; não exige AuthProvider (fora dele é aal1)
+export const useAssuranceLevel = (): AuthAssuranceLevel =>
+  useContext(AuthContext)?.session?.aal ?? "aal1";
+
+// Admin "logado como" o usuário atual; null fora de uma impersonação
+export const useImpersonator = (): IImpersonator | null =>
+  useContext(AuthContext)?.session?.impersonator ?? null;
+
 /**
  * Initializes auth provider with error handling
  * SRP: Responsible only for provider initialization
@@ -146,6 +169,7 @@ const createAuthContextValue = (
 
   return {
     ...authState,
+    ...bindOptionalAuthActions(provider),
     provider,
     login:
       provider?.login.bind(provider) ??
@@ -168,19 +192,24 @@ const createAuthContextValue = (
   };
 };
 
+const INITIAL_AUTH_STATE: IAuthState = {
+  user: null,
+  session: null,
+  isLoading: true,
+  isAuthenticated: false,
+  error: null,
+};
+
+const DEFAULT_LIFECYCLE: ISessionLifecycleOptions = {};
+
 // Provider Component
 export const AuthProvider = ({
   children,
   config = { type: "supabase", options: {} },
+  lifecycle = DEFAULT_LIFECYCLE,
 }: IAuthProviderProps): JSX.Element => {
   const [provider, setProvider] = useState<IAuthProvider | null>(null);
-  const [authState, setAuthState] = useState<IAuthState>({
-    user: null,
-    session: null,
-    isLoading: true,
-    isAuthenticated: false,
-    error: null,
-  });
+  const [authState, setAuthState] = useState<IAuthState>(INITIAL_AUTH_STATE);
   // Inicialização do provider (Open/Closed Principle)
   useEffect(() => {
     const cleanup = initializeAuthProvider(
@@ -205,6 +234,11 @@ export const AuthProvider = ({
       cleanup.then((cleanupFn) => cleanupFn?.()).catch(console.error);
     };
   }, [config]);
+  // Ciclo de vida da sessão (refresh entre abas, inatividade)
+  useEffect(() => {
+    if (!provider || lifecycle === false) return;
+    return startSessionLifecycle(provider, lifecycle);
+  }, [provider, lifecycle]);
   // Cleanup na desmontagem
   useEffect(() => {
     return (): void => {
@@ -219,44 +253,3 @@ export const AuthProvider = ({
     <AuthContext.Provider value={contextValue}>{children}</AuthContext.Provider>
   );
 };
-
-// Componente para proteção de rotas (Single Responsibility)
-interface IProtectedRouteProps {
-  children: ReactNode;
-  fallback?: ReactNode;
-  requireAuth?: boolean;
-}
-
-export const ProtectedRoute = ({
-  children,
-  fallback = <div>Loading...</div>,
-  requireAuth = true,
-}: IProtectedRouteProps): JSX.Element => {
-  const { isAuthenticated, isLoading } = useAuthState();
-
-  if (isLoading) {
-    return <>{fallback}</>;
-  }
-
-  if (requireAuth && !isAuthenticated) {
-    return <>{fallback}</>;
-  }
-
-  return <>{children}</>;
-};
-
-// HOC para componentes que precisam de autenticação (Higher-Order Component Pattern)
-export function withAuth<P extends object>(
-  Component: React.ComponentType<P>,
-  options: { requireAuth?: boolean; fallback?: ReactNode } = {},
-): React.ComponentType<P> {
-  const { requireAuth = true, fallback } = options;
-
-  return function AuthenticatedComponent(props: P): JSX.Element {
-    return (
-      <ProtectedRoute requireAuth={requireAuth} fallback={fallback}>
-        <Component {...props} />
-      </ProtectedRoute>
-    );
-  };
-}
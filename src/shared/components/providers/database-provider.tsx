@@ -2,6 +2,7 @@
 
 import {
   createContext,
+  useCallback,
   useContext,
   useEffect,
   useState,
@@ -12,16 +13,20 @@ import {
   DatabaseProviderFactory,
   registerDefaultDatabaseProviders,
 } from "@/shared/services/database/database-factory";
+import { OfflineDatabaseProvider } from "@/shared/services/database/offline";
 import type {
   IDatabaseProvider,
   IDatabaseProviderConfig,
 } from "@/shared/types/database";
+import type { IOfflineQueueStatus } from "@/shared/types/offline";
 
 interface IDatabaseContextType {
   provider: IDatabaseProvider | null;
   isConnected: boolean;
   isLoading: boolean;
   error: string | null;
+  // null quando o modo offline não está ativo
+  offlineQueue: IOfflineQueueStatus | null;
 }
 
 const DatabaseContext = createContext<IDatabaseContextType | null>(null);
@@ -50,6 +55,8 @@ interface IUseDatabaseOperationsReturn {
 interface IUseDatabaseRealtimeReturn {
   subscribe: IDatabaseProvider["subscribe"];
   unsubscribe: IDatabaseProvider["unsubscribe"];
+  // undefined quando o provider não suporta presence
+  joinPresence: IDatabaseProvider["joinPresence"];
 }
 
 interface IUseDatabaseStorageReturn {
@@ -62,6 +69,9 @@ interface IUseDatabaseStatusReturn {
   isConnected: boolean;
   isLoading: boolean;
   error: string | null;
+  offlineQueue: IOfflineQueueStatus | null;
+  // Força o replay da fila offline (no-op sem modo offline)
+  syncOfflineQueue: () => Promise<void>;
 }
 
 export const useDatabase = (): IDatabaseContextType => {
@@ -106,6 +116,7 @@ export const useDatabaseRealtime = (): IUseDatabaseRealtimeReturn => {
   return {
     subscribe: provider.subscribe.bind(provider),
     unsubscribe: provider.unsubscribe.bind(provider),
+    joinPresence: provider.joinPresence?.bind(provider),
   };
 };
 
@@ -124,8 +135,16 @@ export const useDatabaseStorage = (): IUseDatabaseStorageReturn => {
 };
 
 export const useDatabaseStatus = (): IUseDatabaseStatusReturn => {
-  const { isConnected, isLoading, error } = useDatabase();
-  return { isConnected, isLoading, error };
+  const { provider, isConnected, isLoading, error, offlineQueue } =
+    useDatabase();
+
+  const syncOfflineQueue = useCallback(async (): Promise<void> => {
+    if (provider instanceof OfflineDatabaseProvider) {
+      await provider.syncQueue();
+    }
+  }, [provider]);
+
+  return { isConnected, isLoading, error, offlineQueue, syncOfflineQueue };
 };
 
 // SRP: Initialize database provider
@@ -166,6 +185,25 @@ const handleHealthCheck = async (
   }
 };
 
+// SRP: Track the offline queue when the provider is wrapped
+const useOfflineQueueStatus = (
+  provider: IDatabaseProvider | null,
+): IOfflineQueueStatus | null => {
+  const [status, setStatus] = useState<IOfflineQueueStatus | null>(null);
+
+  useEffect(() => {
+    if (!(provider instanceof OfflineDatabaseProvider)) {
+      setStatus(null);
+      return;
+    }
+
+    setStatus(provider.getQueueStatus());
+    return provider.onQueueStatusChange(setStatus);
+  }, [provider]);
+
+  return status;
+};
+
 // SRP: Database initialization logic
 interface IDatabaseStateSetters {
   setProvider: (provider: IDatabaseProvider | null) => void;
@@ -231,6 +269,7 @@ export const DatabaseProvider = ({
   const [isConnected, setIsConnected] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const offlineQueue = useOfflineQueueStatus(provider);
 
   useInitializeDatabase(config, {
     setProvider,
@@ -263,6 +302,7 @@ export const DatabaseProvider = ({
     isConnected,
     isLoading,
     error,
+    offlineQueue,
   };
 
   return (
@@ -0,0 +1,55 @@
+"use client";
+
+import type { ReactNode } from "react";
+
+import { useAssuranceLevel, useAuthState } from "./auth-provider";
+
+// Componente para proteção de rotas (Single Responsibility)
+interface IProtectedRouteProps {
+  children: ReactNode;
+  fallback?: ReactNode;
+  requireAuth?: boolean;
+  // Exige segundo fator verificado (sessão aal2), ex.: billing e admin
+  requireMfa?: boolean;
+  // Exibido sem aal2, tipicamente o desafio TOTP; padrão: fallback
+  mfaFallback?: ReactNode;
+}
+
+export const ProtectedRoute = ({
+  children,
+  fallback = <div>Loading...</div>,
+  requireAuth = true,
+  requireMfa = false,
+  mfaFallback,
+}: IProtectedRouteProps): JSX.Element => {
+  const { isAuthenticated, isLoading } = useAuthState();
+  const assuranceLevel = useAssuranceLevel();
+
+  if (isLoading) {
+    return <>{fallback}</>;
+  }
+
+  if ((requireAuth || requireMfa) && !isAuthenticated) {
+    return <>{fallback}</>;
+  }
+
+  if (requireMfa && assuranceLevel !== "aal2") {
+    return <>{mfaFallback ?? fallback}</>;
+  }
+
+  return <>{children}</>;
+};
+
+// HOC para componentes que precisam de autenticação (Higher-Order Component Pattern)
+export function withAuth<P extends object>(
+  Component: React.ComponentType<P>,
+  options: Omit<IProtectedRouteProps, "children"> = {},
+): React.ComponentType<P> {
+  return function AuthenticatedComponent(props: P): JSX.Element {
+    return (
+      <ProtectedRoute {...options}>
+        <Component {...props} />
+      </ProtectedRoute>
+    );
+  };
+}
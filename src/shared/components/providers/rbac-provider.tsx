@@ -19,10 +19,12 @@ import {
   registerDefaultRBACProviders,
   createRBACConfig,
 } from "@/shared/services/rbac/rbac-factory";
+import { useOrganizationStore } from "@/shared/stores/organization.store";
 import type {
   IRBACProvider,
   IRBACError,
   IRBACProviderConfig,
+  IRole,
 } from "@/shared/types/rbac";
 
 interface IRBACContextValue {
@@ -30,6 +32,10 @@ interface IRBACContextValue {
   isInitialized: boolean;
   error: IRBACError | null;
   loading: boolean;
+  // Organization pinned by the organizationId prop, if any
+  organizationId: string | null;
+  // Every role, loaded with the provider to resolve the hierarchy
+  roles: IRole[];
   reinitialize: () => Promise<void>;
 }
 
@@ -42,6 +48,8 @@ interface IRBACProviderProps {
     provider?: "supabase" | "database";
     options?: Record<string, unknown>;
   };
+  // Pins RBAC checks below to one organization instead of the active one
+  organizationId?: string;
 }
 
 // SRP: Create RBAC configuration from props or environment
@@ -66,12 +74,28 @@ const createRBACError = (err: unknown): IRBACError => {
   };
 };
 
-// SRP: Initialize RBAC with error handling
+// SRP: Load the role catalog (without it, role checks see direct roles only)
+const loadRoleCatalog = async (provider: IRBACProvider): Promise<IRole[]> => {
+  try {
+    return await provider.getRoles();
+  } catch (err) {
+    console.error("Failed to load roles:", err);
+    return [];
+  }
+};
+
+interface IInitializedRBAC {
+  provider: IRBACProvider;
+  roles: IRole[];
+}
+
+// SRP: Initialize RBAC with error handling, then load the role catalog
 const performRBACInitialization = async (
   rbacConfig: IRBACProviderConfig,
-): Promise<IRBACProvider> => {
+): Promise<IInitializedRBAC> => {
   await registerDefaultRBACProviders();
-  return await RBACManager.initialize(rbacConfig);
+  const provider = await RBACManager.initialize(rbacConfig);
+  return { provider, roles: await loadRoleCatalog(provider) };
 };
 
 /**
@@ -91,14 +115,20 @@ const performRBACInitialization = async (
  * <RBACProvider config={{ provider: 'supabase', options: { url: '...', serviceKey: '...' } }}>
  *   <App />
  * </RBACProvider>
+ *
+ * @example
+ * // Checks scoped to one organization (default: the active one)
+ * <RBACProvider organizationId={organization.id}>
+ *   <OrganizationSettings />
+ * </RBACProvider>
  */
 
 export function RBACProvider({
   children,
   config,
+  organizationId,
 }: IRBACProviderProps): JSX.Element {
-  const [provider, setProvider] = useState<IRBACProvider | null>(null);
-  const [isInitialized, setIsInitialized] = useState(false);
+  const [initialized, setInitialized] = useState<IInitializedRBAC | null>(null);
   const [error, setError] = useState<IRBACError | null>(null);
   const [loading, setLoading] = useState(true);
 
@@ -107,9 +137,7 @@ export function RBACProvider({
       setLoading(true);
       setError(null);
       const rbacConfig = createRBACConfiguration(config);
-      const rbacProvider = await performRBACInitialization(rbacConfig);
-      setProvider(rbacProvider);
-      setIsInitialized(true);
+      setInitialized(await performRBACInitialization(rbacConfig));
     } catch (err) {
       const rbacError = createRBACError(err);
       setError(rbacError);
@@ -130,10 +158,12 @@ export function RBACProvider({
   }, [initializeRBAC]);
 
   const contextValue: IRBACContextValue = {
-    provider,
-    isInitialized,
+    provider: initialized?.provider ?? null,
+    isInitialized: initialized !== null,
     error,
     loading,
+    organizationId: organizationId ?? null,
+    roles: initialized?.roles ?? [],
     reinitialize,
   };
 
@@ -153,6 +183,26 @@ export function useRBACContext(): IRBACContextValue {
   return context;
 }
 
+// Organization RBAC checks default to: the one pinned by RBACProvider,
+// else the one picked in the organization switcher
+export function useActiveOrganizationId(): string | null {
+  const pinned = useContext(RBACContext)?.organizationId;
+  const active = useOrganizationStore((state) => state.activeOrganizationId);
+
+  return pinned ?? active;
+}
+
+// The role catalog RBACProvider loaded, shared by every useRBAC below it.
+// Outside the provider it is empty, and role checks see direct roles only
+export function useRoleCatalog(): { roles: IRole[]; loading: boolean } {
+  const context = useContext(RBACContext);
+
+  return {
+    roles: context?.roles ?? [],
+    loading: context?.loading ?? false,
+  };
+}
+
 // Helper function to create default configuration
 function createDefaultConfig(): IRBACProviderConfig {
   const env = getEnv();
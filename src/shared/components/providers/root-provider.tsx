@@ -1,5 +1,7 @@
 "use client";
 
+import { ImpersonationBanner } from "@/shared/components/rbac/Impersonation";
+
 import { AuthProvider } from "./auth-provider";
 import { DatabaseProvider } from "./database-provider";
 import { ThemeProvider } from "./theme-provider";
@@ -18,7 +20,10 @@ export function RootProvider({ children }: IRootProviderProps): JSX.Element {
   return (
     <ThemeProvider attribute="class" defaultTheme="system" enableSystem>
       <DatabaseProvider>
-        <AuthProvider>{children}</AuthProvider>
+        <AuthProvider>
+          <ImpersonationBanner />
+          {children}
+        </AuthProvider>
       </DatabaseProvider>
     </ThemeProvider>
   );
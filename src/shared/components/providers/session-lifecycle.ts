@@ -0,0 +1,94 @@
+import {
+  SessionLifecycleManager,
+  type ISessionLifecycleOptions,
+  type SessionEndReason,
+} from "@/shared/services/auth/lifecycle";
+import { decodeJwt } from "@/shared/services/auth/session";
+import { useSessionStore } from "@/shared/stores/session.store";
+import { useUIStore } from "@/shared/stores/ui.store";
+import type { IAuthProvider, IAuthSession } from "@/shared/types/auth";
+
+const END_MESSAGES: Record<SessionEndReason, string> = {
+  idle: "You were logged out after a period of inactivity.",
+  refresh_failed: "Your session could not be renewed. Please sign in again.",
+  revoked: "This session was revoked. Please sign in again.",
+};
+
+// The issuer's session id (Supabase: session_id, OIDC: sid); opaque
+// tokens fall back to the user id
+const sessionIdOf = (session: IAuthSession): string => {
+  if (session.id) return session.id;
+  try {
+    const { claims } = decodeJwt(session.token);
+    return String(claims.session_id ?? claims.sid ?? session.user.id);
+  } catch {
+    return session.user.id;
+  }
+};
+
+// useSessionStore mirrors the provider's session (expiry and activity)
+const syncSessionStore = (session: IAuthSession | null): void => {
+  const store = useSessionStore.getState();
+  if (!session?.expiresAt) {
+    if (store.sessionId || store.devices.length) store.destroySession();
+    return;
+  }
+  const sessionId = sessionIdOf(session);
+  if (store.isActive && store.sessionId === sessionId) {
+    store.refreshSession(session.expiresAt);
+  } else {
+    store.createSession(sessionId, session.expiresAt);
+  }
+};
+
+// Persisted as a string; turned back into a Date after a reload
+const lastActivity = (): Date | null => {
+  const value = useSessionStore.getState().lastActivity;
+  return value ? new Date(value) : null;
+};
+
+/**
+ * Starts the session lifecycle with its warnings in useUIStore
+ * SRP: Responsible only for binding the lifecycle to the stores
+ */
+export const startSessionLifecycle = (
+  provider: IAuthProvider,
+  options: ISessionLifecycleOptions = {},
+): (() => void) => {
+  const ui = useUIStore.getState;
+  let warningId: string | null = null;
+  const dismissWarning = (): void => {
+    if (warningId) ui().removeNotification(warningId);
+    warningId = null;
+  };
+
+  const manager = new SessionLifecycleManager(provider, options, {
+    onSessionChange: syncSessionStore,
+    onActivity: (): void => useSessionStore.getState().updateActivity(),
+    onIdleWarning: (logoutAt): void => {
+      dismissWarning();
+      const seconds = Math.round((logoutAt.getTime() - Date.now()) / 1000);
+      warningId = ui().addNotification({
+        type: "warning",
+        title: "Are you still there?",
+        message: `You'll be logged out in ${seconds} seconds due to inactivity.`,
+        autoClose: false,
+      });
+    },
+    onIdleWarningCleared: dismissWarning,
+    onSessionEnded: (reason): void => {
+      dismissWarning();
+      ui().addNotification({
+        type: "info",
+        title: "Signed out",
+        message: END_MESSAGES[reason],
+      });
+    },
+  });
+  manager.start(lastActivity());
+
+  return (): void => {
+    dismissWarning();
+    manager.stop();
+  };
+};
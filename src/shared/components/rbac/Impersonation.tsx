@@ -0,0 +1,84 @@
+// Impersonation UI: who may start it, and the banner while it lasts
+// Follows Single Responsibility Principle
+
+"use client";
+
+import { useState, type ReactNode } from "react";
+
+import {
+  useAuth,
+  useImpersonator,
+} from "@/shared/components/providers/auth-provider";
+import { Button } from "@/shared/components/ui/button";
+import { DEFAULT_PERMISSIONS } from "@/shared/types/rbac";
+
+import { SuperAdminGuard } from "./SpecializedGuards";
+import { PermissionGate } from "./UtilityGates";
+
+interface IImpersonationGateProps {
+  children: ReactNode;
+  fallback?: ReactNode;
+}
+
+/**
+ * Impersonation Gate - "Log in as" controls, for super admins holding
+ * system.impersonate; hidden while already impersonating
+ */
+export function ImpersonationGate({
+  children,
+  fallback,
+}: IImpersonationGateProps): JSX.Element {
+  const impersonator = useImpersonator();
+
+  return (
+    <SuperAdminGuard fallback={fallback}>
+      <PermissionGate
+        permission={DEFAULT_PERMISSIONS.SYSTEM_IMPERSONATE}
+        fallback={fallback}
+      >
+        {impersonator ? fallback : children}
+      </PermissionGate>
+    </SuperAdminGuard>
+  );
+}
+
+/**
+ * Impersonation Banner - Persistent notice while an admin acts as the
+ * signed-in user, with the way back to the admin's own session
+ */
+export function ImpersonationBanner(): JSX.Element | null {
+  const impersonator = useImpersonator();
+  const { user, stopImpersonation } = useAuth();
+  const [isStopping, setStopping] = useState(false);
+
+  if (!impersonator) return null;
+
+  const stop = async (): Promise<void> => {
+    setStopping(true);
+    try {
+      await stopImpersonation();
+    } finally {
+      setStopping(false);
+    }
+  };
+
+  return (
+    <div
+      role="alert"
+      className="sticky top-0 z-50 flex items-center justify-center gap-4 bg-destructive px-4 py-2 text-sm text-destructive-foreground"
+    >
+      <span>
+        Signed in as <strong>{user?.email}</strong> by {impersonator.email}.
+        Billing and password changes are disabled.
+      </span>
+      <Button
+        size="sm"
+        variant="secondary"
+        disabled={isStopping}
+        onClick={() => void stop()}
+      >
+        {isStopping ? "Stopping..." : "Stop impersonating"}
+      </Button>
+    </div>
+  );
+}
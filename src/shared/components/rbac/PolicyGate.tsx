@@ -0,0 +1,67 @@
+// Policy Gate: RBAC permission plus attribute-based policies
+// Follows Single Responsibility Principle
+
+"use client";
+
+import { useEffect, useRef, type ReactNode } from "react";
+
+import { usePolicy } from "@/shared/hooks/use-policy";
+import type { PolicyEngine } from "@/shared/services/rbac/policy-engine";
+import type {
+  IPolicyContext,
+  IPolicyDecision,
+  IPolicyResource,
+} from "@/shared/types/policy";
+
+interface IPolicyGateProps<TResource extends IPolicyResource> {
+  resource: TResource;
+  action: string;
+  context?: Partial<IPolicyContext>;
+  engine?: PolicyEngine;
+  children: ReactNode;
+  fallback?: ReactNode;
+  loadingFallback?: ReactNode;
+  // Explain mode: receives each decision with the trace of its rules
+  explain?: (decision: IPolicyDecision) => void;
+}
+
+/**
+ * Policy Gate - Renders children when the user holds resource.action and
+ * the engine's policies allow it
+ *
+ * @example
+ * // Authors edit their own drafts (policy "authors-edit-own-content")
+ * <PolicyGate
+ *   resource={{ type: "content", id: post.id, authorId: post.authorId }}
+ *   action="update"
+ *   explain={(decision) => console.debug(decision.rule, decision.trace)}
+ * >
+ *   <EditButton />
+ * </PolicyGate>
+ */
+export function PolicyGate<TResource extends IPolicyResource>({
+  resource,
+  action,
+  context,
+  engine,
+  children,
+  fallback = null,
+  loadingFallback = null,
+  explain,
+}: IPolicyGateProps<TResource>): JSX.Element {
+  const { allowed, decision, loading } = usePolicy(resource, action, {
+    context,
+    engine,
+    explain: Boolean(explain),
+  });
+
+  // Called once per decision, even when `explain` is an inline function
+  const explainRef = useRef(explain);
+  explainRef.current = explain;
+  useEffect(() => {
+    if (decision) explainRef.current?.(decision);
+  }, [decision]);
+
+  if (loading) return <>{loadingFallback}</>;
+  return allowed ? <>{children}</> : <>{fallback}</>;
+}
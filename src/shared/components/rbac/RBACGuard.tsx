@@ -6,23 +6,32 @@
 
 import { type ReactNode } from "react";
 
+import { useAssuranceLevel } from "@/shared/components/providers/auth-provider";
 import { useRBAC } from "@/shared/hooks/use-rbac";
 
 export interface IRBACGuardProps {
-  children: ReactNode;
+  // Optional with render
+  children?: ReactNode;
   // Permission-based access
   permissions?: string[];
   requireAllPermissions?: boolean;
   // Role-based access
   roles?: string[];
   requireAllRoles?: boolean;
-  // Resource-based access
+  // Also grant roles inheriting from the listed ones
+  includeInheritedRoles?: boolean;
+  // Resource-based access (resourceId: one instance of the resource)
   resource?: string;
   action?: string;
+  resourceId?: string;
   // Organization context
   organizationId?: string;
+  // Second factor: the session must be aal2 (billing, admin...)
+  requireMfa?: boolean;
   // Fallback components
   fallback?: ReactNode;
+  // Shown when access is granted but MFA is missing (defaults to fallback)
+  mfaFallback?: ReactNode;
   loadingFallback?: ReactNode;
   // Alternative: render prop pattern
   render?: (hasAccess: boolean, loading: boolean) => ReactNode;
@@ -48,12 +57,30 @@ export interface IRBACGuardProps {
  * </RBACGuard>
  *
  * @example
+ * // Admins and every role inheriting from admin (owner, super_admin)
+ * <RBACGuard roles={['admin']} includeInheritedRoles>
+ *   <AdminPanel />
+ * </RBACGuard>
+ *
+ * @example
  * // Resource-action protection
  * <RBACGuard resource="users" action="delete">
  *   <DeleteButton />
  * </RBACGuard>
  *
  * @example
+ * // One document: content.update, content.* or content.update:doc_123
+ * <RBACGuard resource="content" action="update" resourceId="doc_123">
+ *   <EditButton />
+ * </RBACGuard>
+ *
+ * @example
+ * // Permission plus a verified second factor
+ * <RBACGuard permissions={['billing.read']} requireMfa mfaFallback={<MfaChallenge />}>
+ *   <BillingInfo />
+ * </RBACGuard>
+ *
+ * @example
  * // Render prop pattern
  * <RBACGuard
  *   permissions={['billing.read']}
@@ -64,48 +91,73 @@ export interface IRBACGuardProps {
  */
 export function RBACGuard({
   children,
+  fallback = null,
+  mfaFallback,
+  loadingFallback = null,
+  render,
+  ...criteria
+}: IRBACGuardProps): JSX.Element {
+  const { loading, hasAccess, mfaSatisfied } = useGuardAccess(criteria);
+
+  // Use render prop if provided
+  if (render) {
+    return <>{render(hasAccess && mfaSatisfied, loading)}</>;
+  }
+
+  // Show loading fallback while fetching RBAC data
+  if (loading) return <>{loadingFallback}</>;
+
+  // Show children if access granted (and MFA satisfied), fallback otherwise
+  if (!hasAccess) return <>{fallback}</>;
+  return mfaSatisfied ? <>{children}</> : <>{mfaFallback ?? fallback}</>;
+}
+
+type GuardCriteria = Omit<
+  IRBACGuardProps,
+  "children" | "fallback" | "mfaFallback" | "loadingFallback" | "render"
+>;
+
+// Hook evaluating the guard's criteria (Single Responsibility); no access
+// while loading
+function useGuardAccess({
   permissions = [],
   requireAllPermissions = false,
   roles = [],
   requireAllRoles = false,
+  includeInheritedRoles = false,
   resource,
   action,
+  resourceId,
   organizationId,
-  fallback = null,
-  loadingFallback = null,
-  render,
-}: IRBACGuardProps): JSX.Element {
+  requireMfa = false,
+}: GuardCriteria): {
+  loading: boolean;
+  hasAccess: boolean;
+  mfaSatisfied: boolean;
+} {
   const { hasPermission, hasRole, canAccess, loading } =
     useRBAC(organizationId);
+  const assuranceLevel = useAssuranceLevel();
 
-  // Show loading fallback while fetching RBAC data
-  if (loading) {
-    if (render) {
-      return <>{render(false, true)}</>;
-    }
-    return <>{loadingFallback}</>;
-  }
+  if (loading) return { loading, hasAccess: false, mfaSatisfied: false };
 
-  // Check access based on provided criteria
-  const hasAccess = checkAccess({
-    permissions,
-    requireAllPermissions,
-    roles,
-    requireAllRoles,
-    resource,
-    action,
-    hasPermission,
-    hasRole,
-    canAccess,
-  });
-
-  // Use render prop if provided
-  if (render) {
-    return <>{render(hasAccess, false)}</>;
-  }
-
-  // Show children if access granted, fallback otherwise
-  return hasAccess ? <>{children}</> : <>{fallback}</>;
+  return {
+    loading,
+    hasAccess: checkAccess({
+      permissions,
+      requireAllPermissions,
+      roles,
+      requireAllRoles,
+      resource,
+      action,
+      resourceId,
+      hasPermission,
+      hasRole: (role) =>
+        hasRole(role, { includeInherited: includeInheritedRoles }),
+      canAccess,
+    }),
+    mfaSatisfied: !requireMfa || assuranceLevel === "aal2",
+  };
 }
 
 // Helper function to check access (Single Responsibility)
@@ -116,6 +168,7 @@ function checkAccess({
   requireAllRoles,
   resource,
   action,
+  resourceId,
   hasPermission,
   hasRole,
   canAccess,
@@ -126,13 +179,14 @@ function checkAccess({
   requireAllRoles: boolean;
   resource?: string;
   action?: string;
+  resourceId?: string;
   hasPermission: (permission: string) => boolean;
   hasRole: (role: string) => boolean;
-  canAccess: (resource: string, action: string) => boolean;
+  canAccess: (resource: string, action: string, resourceId?: string) => boolean;
 }): boolean {
   // Resource-action check (highest priority)
   if (resource && action) {
-    return canAccess(resource, action);
+    return canAccess(resource, action, resourceId);
   }
 
   // Permission checks
@@ -5,6 +5,8 @@
 
 import { type ReactNode } from "react";
 
+import { DEFAULT_ROLES } from "@/shared/types/rbac";
+
 import { RBACGuard } from "./RBACGuard";
 
 interface IAdminGuardProps {
@@ -15,7 +17,7 @@ interface IAdminGuardProps {
 }
 
 /**
- * Admin Guard - Only for admin users
+ * Admin Guard - Only for admins and the roles inheriting from admin
  */
 export function AdminGuard({
   children,
@@ -25,7 +27,8 @@ export function AdminGuard({
 }: IAdminGuardProps): JSX.Element {
   return (
     <RBACGuard
-      roles={["admin", "super_admin", "owner"]}
+      roles={[DEFAULT_ROLES.ADMIN]}
+      includeInheritedRoles
       organizationId={organizationId}
       fallback={fallback}
       loadingFallback={loadingFallback}
@@ -43,7 +46,8 @@ interface IOwnerGuardProps {
 }
 
 /**
- * Owner Guard - Only for organization owners
+ * Owner Guard - Only for organization owners and the roles inheriting
+ * from owner
  */
 export function OwnerGuard({
   children,
@@ -53,7 +57,8 @@ export function OwnerGuard({
 }: IOwnerGuardProps): JSX.Element {
   return (
     <RBACGuard
-      roles={["owner", "super_admin"]}
+      roles={[DEFAULT_ROLES.OWNER]}
+      includeInheritedRoles
       organizationId={organizationId}
       fallback={fallback}
       loadingFallback={loadingFallback}
@@ -79,7 +84,7 @@ export function SuperAdminGuard({
 }: ISuperAdminGuardProps): JSX.Element {
   return (
     <RBACGuard
-      roles={["super_admin"]}
+      roles={[DEFAULT_ROLES.SUPER_ADMIN]}
       fallback={fallback}
       loadingFallback={loadingFallback}
     >
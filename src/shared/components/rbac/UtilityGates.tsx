@@ -37,6 +37,8 @@ export function PermissionGate({
 interface IResourceGateProps {
   resource: string;
   action: string;
+  // One instance of the resource (a document id...)
+  resourceId?: string;
   organizationId?: string;
   children: ReactNode;
   fallback?: ReactNode;
@@ -48,6 +50,7 @@ interface IResourceGateProps {
 export function ResourceGate({
   resource,
   action,
+  resourceId,
   organizationId,
   children,
   fallback,
@@ -56,6 +59,7 @@ export function ResourceGate({
     <RBACGuard
       resource={resource}
       action={action}
+      resourceId={resourceId}
       organizationId={organizationId}
       fallback={fallback}
     >
@@ -1,9 +1,12 @@
 // RBAC Components - Centralized exports
 export { RBACGuard, withRBACGuard, type IRBACGuardProps } from "./RBACGuard";
+export { ImpersonationBanner, ImpersonationGate } from "./Impersonation";
 export { AdminGuard, OwnerGuard, SuperAdminGuard } from "./SpecializedGuards";
 export { PermissionGate, ResourceGate } from "./UtilityGates";
+export { PolicyGate } from "./PolicyGate";
 
 // Legacy export for backward compatibility
 export * from "./RBACGuard";
 export * from "./SpecializedGuards";
 export * from "./UtilityGates";
+export * from "./Impersonation";
@@ -0,0 +1,54 @@
+"use client";
+
+import { Building2, Check, ChevronsUpDown } from "lucide-react";
+import * as React from "react";
+
+import { Button } from "@/shared/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/shared/components/ui/dropdown-menu";
+import { useOrganizations } from "@/shared/hooks/use-organizations";
+
+// Troca a organização ativa, que escopa useRBAC e RBACProvider
+// (Single Responsibility). Some quando o usuário não tem organizações
+export function OrganizationSwitcher(): JSX.Element | null {
+  const { organizations, activeOrganization, switchOrganization } =
+    useOrganizations();
+
+  if (organizations.length === 0) return null;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className="w-48 justify-between">
+          <span className="flex items-center gap-2 truncate">
+            <Building2 className="h-4 w-4 shrink-0" />
+            {activeOrganization?.name ?? "Select organization"}
+          </span>
+          <ChevronsUpDown className="h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-48">
+        <DropdownMenuLabel>Organizations</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {organizations.map((organization) => (
+          <DropdownMenuItem
+            key={organization.id}
+            onClick={() => switchOrganization(organization.id)}
+            className="flex items-center justify-between"
+          >
+            <span className="truncate">{organization.name}</span>
+            {activeOrganization?.id === organization.id && (
+              <Check className="h-4 w-4" />
+            )}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,63 @@
+// Active sessions hook: the user's devices, with revocation
+// The list lives in useSessionStore so every view of it stays in sync
+
+"use client";
+
+import { useCallback, useEffect, useMemo } from "react";
+
+import { bindOptionalAuthActions } from "@/shared/components/providers/auth-actions";
+import { useAuth } from "@/shared/components/providers/auth-provider";
+import { useTrackedAction } from "@/shared/hooks/use-tracked-action";
+import { useSessionStore } from "@/shared/stores/session.store";
+import type { IActiveSession, IAuthError } from "@/shared/types/auth";
+
+export interface IUseActiveSessionsReturn {
+  sessions: IActiveSession[];
+  isLoading: boolean;
+  error: IAuthError | null;
+  refetch: () => Promise<void>;
+  revoke: (sessionId: string) => Promise<void>;
+  revokeOthers: () => Promise<void>;
+}
+
+export function useActiveSessions(): IUseActiveSessionsReturn {
+  // The provider is stable; the context's bound actions are not.
+  // Providers without device management reject
+  const { provider, isAuthenticated } = useAuth();
+  const actions = useMemo(() => bindOptionalAuthActions(provider), [provider]);
+  const sessions = useSessionStore((state) => state.devices);
+  const { isLoading, error, run } = useTrackedAction();
+
+  const refetch = useCallback(
+    (): Promise<void> =>
+      run(async () => {
+        const devices = await actions.listSessions();
+        useSessionStore.getState().setDevices(devices);
+      }),
+    [actions, run],
+  );
+
+  const revoke = useCallback(
+    (sessionId: string): Promise<void> =>
+      run(async () => {
+        await actions.revokeSession(sessionId);
+        useSessionStore.getState().removeDevice(sessionId);
+      }),
+    [actions, run],
+  );
+
+  const revokeOthers = useCallback(
+    (): Promise<void> =>
+      run(async () => {
+        await actions.revokeAllOtherSessions();
+        useSessionStore.getState().removeOtherDevices();
+      }),
+    [actions, run],
+  );
+
+  useEffect(() => {
+    if (isAuthenticated) void refetch();
+  }, [isAuthenticated, refetch]);
+
+  return { sessions, isLoading, error, refetch, revoke, revokeOthers };
+}
@@ -0,0 +1,72 @@
+// Live query hook: select + realtime in one call
+// Identical queries across components share a single select and subscription
+
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+import { useDatabase } from "@/shared/components/providers/database-provider";
+import {
+  acquireLiveQuery,
+  liveQueryKey,
+  releaseLiveQuery,
+  type ILiveQueryState,
+  type LiveQuery,
+} from "@/shared/services/database/live-query";
+import type { IDatabaseRecord, IQueryOptions } from "@/shared/types/database";
+
+export interface IUseLiveQueryOptions {
+  // false pausa a consulta (ex: enquanto um parâmetro ainda não existe)
+  enabled?: boolean;
+}
+
+export interface IUseLiveQueryReturn<
+  T extends IDatabaseRecord,
+> extends ILiveQueryState<T> {
+  refetch: () => Promise<void>;
+}
+
+const IDLE_STATE: ILiveQueryState<never> = {
+  data: null,
+  count: undefined,
+  isLoading: false,
+  error: null,
+};
+
+export function useLiveQuery<T extends IDatabaseRecord>(
+  table: string,
+  options: IQueryOptions = {},
+  { enabled = true }: IUseLiveQueryOptions = {},
+): IUseLiveQueryReturn<T> {
+  const { provider } = useDatabase();
+  // Callers usually pass a new options object every render
+  const key = liveQueryKey(table, options);
+  const [query, setQuery] = useState<LiveQuery<T> | null>(null);
+  const [state, setState] = useState<ILiveQueryState<T>>(IDLE_STATE);
+
+  useEffect(() => {
+    if (!provider || !enabled) {
+      setQuery(null);
+      setState(IDLE_STATE);
+      return;
+    }
+
+    const parsed = JSON.parse(key) as { table: string; options: IQueryOptions };
+    const live = acquireLiveQuery<T>(provider, parsed.table, parsed.options);
+    setQuery(live);
+    setState(live.getState());
+    const unsubscribe = live.subscribe(setState);
+
+    return (): void => {
+      unsubscribe();
+      releaseLiveQuery(provider, live);
+    };
+  }, [provider, key, enabled]);
+
+  const refetch = useCallback(
+    async (): Promise<void> => query?.refetch(),
+    [query],
+  );
+
+  return useMemo(() => ({ ...state, refetch }), [state, refetch]);
+}
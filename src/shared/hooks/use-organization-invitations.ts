@@ -0,0 +1,145 @@
+// Organization invitations hook: pending invitations of an organization,
+// with invite, and the invitee's accept/decline of a link token
+
+"use client";
+
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useState,
+  type Dispatch,
+  type SetStateAction,
+} from "react";
+
+import { useAuth } from "@/shared/components/providers/auth-provider";
+import { useTrackedAction } from "@/shared/hooks/use-tracked-action";
+import { createUserClient } from "@/shared/services/auth/providers/operations/browser-client";
+import {
+  InvitationClient,
+  OrganizationService,
+} from "@/shared/services/organizations";
+import type { IAuthError } from "@/shared/types/auth";
+import type {
+  IInviteMember,
+  IOrganizationInvitation,
+} from "@/shared/types/organization";
+
+export interface IUseOrganizationInvitationsReturn {
+  invitations: IOrganizationInvitation[];
+  isLoading: boolean;
+  error: IAuthError | null;
+  refetch: () => Promise<void>;
+  // Resolves to the link token, shown once; null when the invite failed
+  invite: (
+    input: Omit<IInviteMember, "organizationId">,
+  ) => Promise<string | null>;
+  accept: (token: string) => Promise<void>;
+  decline: (token: string) => Promise<void>;
+}
+
+const notSignedIn = { code: "no_session", message: "Not signed in" };
+
+type Run = (action: () => Promise<void>) => Promise<void>;
+
+// The invitee's side: answers a link token
+function useInvitationAnswers(
+  accessToken: string | undefined,
+  client: InvitationClient,
+  run: Run,
+): Pick<IUseOrganizationInvitationsReturn, "accept" | "decline"> {
+  const accept = useCallback(
+    (token: string): Promise<void> =>
+      run(async () => {
+        if (!accessToken) throw notSignedIn;
+        await client.accept(accessToken, token);
+      }),
+    [accessToken, client, run],
+  );
+
+  const decline = useCallback(
+    (token: string): Promise<void> =>
+      run(async () => {
+        await client.decline(token);
+      }),
+    [client, run],
+  );
+
+  return { accept, decline };
+}
+
+// Pending invitations of the organization, loaded as the user
+function useInvitationList(
+  accessToken: string | undefined,
+  organizationId: string | undefined,
+  run: Run,
+): {
+  invitations: IOrganizationInvitation[];
+  setInvitations: Dispatch<SetStateAction<IOrganizationInvitation[]>>;
+  refetch: () => Promise<void>;
+} {
+  const [invitations, setInvitations] = useState<IOrganizationInvitation[]>([]);
+
+  const refetch = useCallback(
+    (): Promise<void> =>
+      run(async () => {
+        setInvitations(
+          accessToken && organizationId
+            ? await new OrganizationService(
+                createUserClient(accessToken),
+              ).listInvitations(organizationId)
+            : [],
+        );
+      }),
+    [accessToken, organizationId, run],
+  );
+
+  useEffect(() => {
+    void refetch();
+  }, [refetch]);
+
+  return { invitations, setInvitations, refetch };
+}
+
+// Without an organizationId only accept and decline are useful
+export function useOrganizationInvitations(
+  organizationId?: string,
+): IUseOrganizationInvitationsReturn {
+  const { session } = useAuth();
+  const accessToken = session?.token;
+  const client = useMemo(() => new InvitationClient(), []);
+  const { isLoading, error, run } = useTrackedAction();
+  const { invitations, setInvitations, refetch } = useInvitationList(
+    accessToken,
+    organizationId,
+    run,
+  );
+
+  const invite = useCallback(
+    async (
+      input: Omit<IInviteMember, "organizationId">,
+    ): Promise<string | null> => {
+      let token: string | null = null;
+      await run(async () => {
+        if (!accessToken || !organizationId) throw notSignedIn;
+        const created = await client.invite(accessToken, {
+          ...input,
+          organizationId,
+        });
+        token = created.token;
+        setInvitations((current) => [created.invitation, ...current]);
+      });
+      return token;
+    },
+    [accessToken, organizationId, client, run, setInvitations],
+  );
+
+  return {
+    invitations,
+    isLoading,
+    error,
+    refetch,
+    invite,
+    ...useInvitationAnswers(accessToken, client, run),
+  };
+}
@@ -0,0 +1,160 @@
+// Organizations hook: the user's organizations, kept in the organization
+// store, with the active one and create/update/delete/transfer.
+// Needs a Supabase session (the organizations live in its database)
+
+"use client";
+
+import { useCallback, useEffect, useMemo } from "react";
+
+import { useAuth } from "@/shared/components/providers/auth-provider";
+import { useTrackedAction } from "@/shared/hooks/use-tracked-action";
+import { createUserClient } from "@/shared/services/auth/providers/operations/browser-client";
+import { OrganizationService } from "@/shared/services/organizations";
+import { useOrganizationStore } from "@/shared/stores/organization.store";
+import type { IAuthError } from "@/shared/types/auth";
+import type { IOrganizationInput } from "@/shared/types/organization";
+import type { IOrganization } from "@/shared/types/rbac";
+
+export interface IUseOrganizationsReturn {
+  organizations: IOrganization[];
+  activeOrganization: IOrganization | null;
+  isLoading: boolean;
+  error: IAuthError | null;
+  refetch: () => Promise<void>;
+  switchOrganization: (organizationId: string) => void;
+  // Resolves to the new organization; null when creation failed
+  create: (input: IOrganizationInput) => Promise<IOrganization | null>;
+  update: (
+    organizationId: string,
+    input: Partial<IOrganizationInput>,
+  ) => Promise<void>;
+  remove: (organizationId: string) => Promise<void>;
+  // Reloads the organizations to pick up the new owner
+  transferOwnership: (
+    organizationId: string,
+    newOwnerId: string,
+  ) => Promise<void>;
+}
+
+const signedIn = (service: OrganizationService | null): OrganizationService => {
+  if (!service) throw { code: "no_session", message: "Not signed in" };
+  return service;
+};
+
+function useOrganizationService(): OrganizationService | null {
+  const { session } = useAuth();
+  const accessToken = session?.token;
+
+  return useMemo(
+    () =>
+      accessToken
+        ? new OrganizationService(createUserClient(accessToken))
+        : null,
+    [accessToken],
+  );
+}
+
+// Refetches on sign-in; forgets the organizations on sign-out
+function useOrganizationSync(
+  service: OrganizationService | null,
+  refetch: () => Promise<void>,
+): void {
+  const { isLoading } = useAuth();
+  const clearOrganizations = useOrganizationStore(
+    (state) => state.clearOrganizations,
+  );
+
+  useEffect(() => {
+    if (service) {
+      void refetch();
+    } else if (!isLoading) {
+      clearOrganizations();
+    }
+  }, [service, isLoading, refetch, clearOrganizations]);
+}
+
+export function useOrganizations(): IUseOrganizationsReturn {
+  const service = useOrganizationService();
+  const { organizations, activeOrganizationId, setOrganizations } =
+    useOrganizationStore();
+  const switchOrganization = useOrganizationStore(
+    (state) => state.setActiveOrganization,
+  );
+  const { isLoading, error, run } = useTrackedAction();
+
+  const refetch = useCallback(
+    (): Promise<void> =>
+      run(async () => {
+        if (service) setOrganizations(await service.list());
+      }),
+    [service, run, setOrganizations],
+  );
+  useOrganizationSync(service, refetch);
+
+  return {
+    organizations,
+    activeOrganization:
+      organizations.find(({ id }) => id === activeOrganizationId) ?? null,
+    isLoading,
+    error,
+    refetch,
+    switchOrganization,
+    ...useOrganizationMutations(service, run),
+  };
+}
+
+type Mutations = Pick<
+  IUseOrganizationsReturn,
+  "create" | "update" | "remove" | "transferOwnership"
+>;
+
+function useOrganizationMutations(
+  service: OrganizationService | null,
+  run: (action: () => Promise<void>) => Promise<void>,
+): Mutations {
+  const { setOrganizations, upsertOrganization, removeOrganization } =
+    useOrganizationStore();
+
+  const create = useCallback(
+    async (input: IOrganizationInput): Promise<IOrganization | null> => {
+      let organization: IOrganization | null = null;
+      await run(async () => {
+        organization = await signedIn(service).create(input);
+        upsertOrganization(organization);
+      });
+      return organization;
+    },
+    [service, run, upsertOrganization],
+  );
+
+  const update = useCallback(
+    (organizationId: string, input: Partial<IOrganizationInput>) =>
+      run(async () => {
+        upsertOrganization(
+          await signedIn(service).update(organizationId, input),
+        );
+      }),
+    [service, run, upsertOrganization],
+  );
+
+  const remove = useCallback(
+    (organizationId: string) =>
+      run(async () => {
+        await signedIn(service).delete(organizationId);
+        removeOrganization(organizationId);
+      }),
+    [service, run, removeOrganization],
+  );
+
+  const transferOwnership = useCallback(
+    (organizationId: string, newOwnerId: string) =>
+      run(async () => {
+        const current = signedIn(service);
+        await current.transferOwnership(organizationId, newOwnerId);
+        setOrganizations(await current.list());
+      }),
+    [service, run, setOrganizations],
+  );
+
+  return { create, update, remove, transferOwnership };
+}
@@ -0,0 +1,77 @@
+// Personal access tokens hook: the user's API tokens, with creation and
+// revocation. Needs a Supabase session (the tokens live in its database)
+
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+import { useAuth } from "@/shared/components/providers/auth-provider";
+import { useTrackedAction } from "@/shared/hooks/use-tracked-action";
+import { createUserClient } from "@/shared/services/auth/providers/operations/browser-client";
+import { PersonalAccessTokenService } from "@/shared/services/auth/tokens";
+import type {
+  ICreatePersonalAccessToken,
+  IPersonalAccessToken,
+} from "@/shared/types/access-token";
+import type { IAuthError } from "@/shared/types/auth";
+
+export interface IUsePersonalAccessTokensReturn {
+  tokens: IPersonalAccessToken[];
+  isLoading: boolean;
+  error: IAuthError | null;
+  refetch: () => Promise<void>;
+  // Resolves to the token in clear, shown once; null when creation failed
+  create: (input: ICreatePersonalAccessToken) => Promise<string | null>;
+  revoke: (tokenId: string) => Promise<void>;
+}
+
+export function usePersonalAccessTokens(): IUsePersonalAccessTokensReturn {
+  const { session } = useAuth();
+  const accessToken = session?.token;
+  const service = useMemo(
+    () =>
+      accessToken
+        ? new PersonalAccessTokenService(createUserClient(accessToken))
+        : null,
+    [accessToken],
+  );
+  const [tokens, setTokens] = useState<IPersonalAccessToken[]>([]);
+  const { isLoading, error, run } = useTrackedAction();
+
+  const refetch = useCallback(
+    (): Promise<void> =>
+      run(async () => {
+        setTokens(service ? await service.list() : []);
+      }),
+    [service, run],
+  );
+
+  const create = useCallback(
+    async (input: ICreatePersonalAccessToken): Promise<string | null> => {
+      let token: string | null = null;
+      await run(async () => {
+        if (!service) throw { code: "no_session", message: "Not signed in" };
+        const created = await service.create(input);
+        token = created.token;
+        setTokens((current) => [created.accessToken, ...current]);
+      });
+      return token;
+    },
+    [service, run],
+  );
+
+  const revoke = useCallback(
+    (tokenId: string): Promise<void> =>
+      run(async () => {
+        await service?.revoke(tokenId);
+        setTokens((current) => current.filter(({ id }) => id !== tokenId));
+      }),
+    [service, run],
+  );
+
+  useEffect(() => {
+    void refetch();
+  }, [refetch]);
+
+  return { tokens, isLoading, error, refetch, create, revoke };
+}
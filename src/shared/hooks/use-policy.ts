@@ -0,0 +1,99 @@
+// Policy hook: RBAC permission plus the ABAC policies of the engine, for
+// the signed-in user
+
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+import { useAuth } from "@/shared/hooks/use-auth";
+import { useRBAC } from "@/shared/hooks/use-rbac";
+import {
+  policyEngine,
+  type PolicyEngine,
+} from "@/shared/services/rbac/policy-engine";
+import type {
+  IPolicyContext,
+  IPolicyDecision,
+  IPolicyRequest,
+  IPolicyResource,
+} from "@/shared/types/policy";
+
+export interface IUsePolicyOptions {
+  context?: Partial<IPolicyContext>;
+  // Defaults to the shared engine
+  engine?: PolicyEngine;
+  // Keep the trace of every rule evaluated in the decision
+  explain?: boolean;
+}
+
+export interface IUsePolicyReturn {
+  allowed: boolean;
+  // null until evaluated (and without a user)
+  decision: IPolicyDecision | null;
+  loading: boolean;
+}
+
+// A failed permission lookup denies, like a throwing condition
+const evaluateOrDeny = (
+  request: IPolicyRequest,
+  options: IUsePolicyOptions,
+  hasPermission: (permission: string) => boolean,
+): Promise<IPolicyDecision> =>
+  (options.engine ?? policyEngine)
+    .evaluate({ ...request, context: options.context }, hasPermission, {
+      explain: options.explain,
+    })
+    .catch((error): IPolicyDecision => {
+      console.error("Policy evaluation failed:", error);
+      return { allowed: false, reason: "policy_error", rule: null };
+    });
+
+export function usePolicy<TResource extends IPolicyResource>(
+  resource: TResource,
+  action: string,
+  options: IUsePolicyOptions = {},
+): IUsePolicyReturn {
+  const { user } = useAuth();
+  const { hasPermission, loading: rbacLoading } = useRBAC(
+    options.context?.organizationId,
+  );
+  const [decision, setDecision] = useState<IPolicyDecision | null>(null);
+  const [evaluating, setEvaluating] = useState(true);
+
+  // Resources and contexts are usually inline objects: re-evaluate when
+  // their content changes, not their identity
+  const latest = useRef({ resource, options });
+  latest.current = { resource, options };
+  const requestKey = JSON.stringify([resource, action, options.context]);
+
+  useEffect(() => {
+    if (rbacLoading) return;
+    if (!user) {
+      setDecision(null);
+      setEvaluating(false);
+      return;
+    }
+
+    let cancelled = false;
+    const { resource: current, options: currentOptions } = latest.current;
+
+    setEvaluating(true);
+    evaluateOrDeny(
+      { user, resource: current, action },
+      currentOptions,
+      hasPermission,
+    )
+      .then((result) => !cancelled && setDecision(result))
+      .finally(() => !cancelled && setEvaluating(false));
+
+    return (): void => {
+      cancelled = true;
+    };
+  }, [user, action, requestKey, hasPermission, rbacLoading]);
+
+  return {
+    allowed: decision?.allowed ?? false,
+    decision,
+    loading: rbacLoading || evaluating,
+  };
+}
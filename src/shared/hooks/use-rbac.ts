@@ -4,16 +4,30 @@
 
 "use client";
 
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 
+import { useImpersonator } from "@/shared/components/providers/auth-provider";
+import {
+  useActiveOrganizationId,
+  useRoleCatalog,
+} from "@/shared/components/providers/rbac-provider";
 import { useAuth } from "@/shared/hooks/use-auth";
 import { getRBACProvider } from "@/shared/services/rbac/rbac-factory";
-import type {
-  IRBACError,
-  IPermission,
-  IRole,
-  IUseRBACReturn,
+import { expandRoleIds } from "@/shared/services/rbac/role-hierarchy";
+import {
+  DEFAULT_ROLES,
+  IMPERSONATION_BLOCKED_PERMISSIONS,
+  type IRBACError,
+  type IPermission,
+  type IRole,
+  type IRoleCheckOptions,
+  type IUseRBACReturn,
 } from "@/shared/types/rbac";
+import {
+  formatPermissionName,
+  hasMatchingPermission,
+  parsePermissionName,
+} from "@/shared/types/rbac-permissions";
 
 // SRP: Reset RBAC state when no user
 const clearRBACData = (
@@ -44,8 +58,27 @@ const fetchRBACDataFromProvider = async (
   return { roles, permissions };
 };
 
-export function useRBAC(organizationId?: string): IUseRBACReturn {
+// SRP: Roles held directly or through the hierarchy, resolved against the
+// catalog RBACProvider loaded once (without it, the direct roles)
+const resolveInheritedRoles = (catalog: IRole[], roles: IRole[]): IRole[] => {
+  if (catalog.length === 0) return roles;
+  const inheritedIds = new Set(
+    expandRoleIds(
+      catalog,
+      roles.map(({ id }) => id),
+    ),
+  );
+  return catalog.filter(({ id }) => inheritedIds.has(id));
+};
+
+// Without an organizationId, checks run in the active organization
+export function useRBAC(scopedOrganizationId?: string): IUseRBACReturn {
+  const activeOrganizationId = useActiveOrganizationId();
+  const organizationId =
+    scopedOrganizationId ?? activeOrganizationId ?? undefined;
   const { user } = useAuth();
+  const isImpersonated = useImpersonator() !== null;
+  const { roles: catalog, loading: catalogLoading } = useRoleCatalog();
   const [userRoles, setUserRoles] = useState<IRole[]>([]);
   const [userPermissions, setUserPermissions] = useState<IPermission[]>([]);
   const [loading, setLoading] = useState(true);
@@ -73,25 +106,44 @@ export function useRBAC(organizationId?: string): IUseRBACReturn {
       setLoading(false);
     }
   }, [user?.id, organizationId]);
-  // Check if user has specific permission
+  const inheritedRoles = useMemo(
+    () => resolveInheritedRoles(catalog, userRoles),
+    [catalog, userRoles],
+  );
+  // Check if user has specific permission, wildcard and instance grants
+  // included (never billing changes while an admin impersonates the user)
   const hasPermission = useCallback(
     (permission: string): boolean => {
-      return userPermissions.some((p) => p.name === permission);
+      const { resource, action } = parsePermissionName(permission);
+      if (
+        isImpersonated &&
+        IMPERSONATION_BLOCKED_PERMISSIONS.includes(`${resource}.${action}`)
+      ) {
+        return false;
+      }
+      return hasMatchingPermission(
+        userPermissions.map((p) => p.name),
+        permission,
+      );
     },
-    [userPermissions],
+    [userPermissions, isImpersonated],
   );
-  // Check if user has specific role
+  // Check if user has specific role (or, with includeInherited, a role
+  // inheriting from it)
   const hasRole = useCallback(
-    (role: string): boolean => {
-      return userRoles.some((r) => r.name === role);
+    (role: string, options: IRoleCheckOptions = {}): boolean => {
+      const roles = options.includeInherited ? inheritedRoles : userRoles;
+      return roles.some((r) => r.name === role);
     },
-    [userRoles],
+    [userRoles, inheritedRoles],
   );
-  // Check if user can access resource with action
+  // Check if user can access resource with action (on one instance, with
+  // a resourceId)
   const canAccess = useCallback(
-    (resource: string, action: string): boolean => {
-      const permissionName = `${resource}.${action}`;
-      return hasPermission(permissionName);
+    (resource: string, action: string, resourceId?: string): boolean => {
+      return hasPermission(
+        formatPermissionName({ resource, action, resourceId }),
+      );
     },
     [hasPermission],
   );
@@ -106,10 +158,11 @@ export function useRBAC(organizationId?: string): IUseRBACReturn {
   return {
     userRoles,
     userPermissions,
+    inheritedRoles,
     hasPermission,
     hasRole,
     canAccess,
-    loading,
+    loading: loading || catalogLoading,
     organizationId,
     refetch,
     error,
@@ -118,13 +171,13 @@ export function useRBAC(organizationId?: string): IUseRBACReturn {
 
 // Specialized hooks for common use cases
 
-// Hook for admin users
+// Hook for admin users (admin, or a role inheriting from it)
 export function useIsAdmin(organizationId?: string): boolean {
   const { hasRole, loading } = useRBAC(organizationId);
 
   if (loading) return false;
 
-  return hasRole("admin") || hasRole("super_admin") || hasRole("owner");
+  return hasRole(DEFAULT_ROLES.ADMIN, { includeInherited: true });
 }
 
 // Hook for checking multiple permissions
@@ -160,12 +213,13 @@ export function useCanAccessOrganization(organizationId: string): boolean {
   return userRoles.length > 0;
 }
 
-// Hook for resource access
+// Hook for resource access (one instance of it, with a resourceId)
 export function useCanAccessResource(
   resource: string,
   // eslint-disable-next-line @typescript-eslint/no-unused-vars -- Parameter kept for API compatibility
   _actions: string[] = ["read"],
   organizationId?: string,
+  resourceId?: string,
 ): {
   canRead: boolean;
   canWrite: boolean;
@@ -176,10 +230,10 @@ export function useCanAccessResource(
   const { canAccess, loading } = useRBAC(organizationId);
 
   return {
-    canRead: canAccess(resource, "read"),
-    canWrite: canAccess(resource, "update"),
-    canDelete: canAccess(resource, "delete"),
-    canAccess: (action: string) => canAccess(resource, action),
+    canRead: canAccess(resource, "read", resourceId),
+    canWrite: canAccess(resource, "update", resourceId),
+    canDelete: canAccess(resource, "delete", resourceId),
+    canAccess: (action: string) => canAccess(resource, action, resourceId),
     loading,
   };
 }
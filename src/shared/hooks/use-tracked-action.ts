@@ -0,0 +1,35 @@
+// Tracked action hook: loading and error state around async calls
+
+"use client";
+
+import { useCallback, useState } from "react";
+
+import type { IAuthError } from "@/shared/types/auth";
+
+export interface IUseTrackedActionReturn {
+  isLoading: boolean;
+  error: IAuthError | null;
+  run: (action: () => Promise<void>) => Promise<void>;
+}
+
+export function useTrackedAction(): IUseTrackedActionReturn {
+  const [isLoading, setLoading] = useState(false);
+  const [error, setError] = useState<IAuthError | null>(null);
+
+  const run = useCallback(
+    async (action: () => Promise<void>): Promise<void> => {
+      setLoading(true);
+      setError(null);
+      try {
+        await action();
+      } catch (caught) {
+        setError(caught as IAuthError);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [],
+  );
+
+  return { isLoading, error, run };
+}
@@ -50,28 +50,31 @@ export class AuthProviderFactory {
 export const registerDefaultProviders = async (): Promise<void> => {
   // Supabase Provider (padrão)
   AuthProviderFactory.registerProvider("supabase", async () => {
-    const { SupabaseAuthProvider } = await import(
-      "./providers/supabase-auth-provider"
-    );
+    const { SupabaseAuthProvider } =
+      await import("./providers/supabase-auth-provider");
     return new SupabaseAuthProvider();
   });
 
   // Clerk Provider (futuro)
   AuthProviderFactory.registerProvider("clerk", async () => {
-    const { ClerkAuthProvider } = await import(
-      "./providers/clerk-auth-provider"
-    );
+    const { ClerkAuthProvider } =
+      await import("./providers/clerk-auth-provider");
     return new ClerkAuthProvider();
   });
 
-  // NOTE: Provider not yet implemented - uncomment when ready
-  // Auth0 Provider (futuro)
-  // AuthProviderFactory.registerProvider("auth0", async () => {
-  //   const { Auth0AuthProvider } = await import(
-  //     "./providers/auth0-auth-provider"
-  //   );
-  //   return new Auth0AuthProvider();
-  // });
+  // Auth0 Provider (configurado via NEXT_PUBLIC_AUTH0_*)
+  AuthProviderFactory.registerProvider("auth0", async () => {
+    const { Auth0AuthProvider } =
+      await import("./providers/auth0-auth-provider");
+    return new Auth0AuthProvider();
+  });
+
+  // OIDC genérico (configurado via NEXT_PUBLIC_OIDC_*); para outras
+  // opções (claims, escopos), registre "oidc" com new OidcAuthProvider({...})
+  AuthProviderFactory.registerProvider("oidc", async () => {
+    const { OidcAuthProvider } = await import("./providers/oidc-auth-provider");
+    return new OidcAuthProvider();
+  });
 
   // NOTE: Provider not yet implemented - uncomment when ready
   // NextAuth Provider (futuro)
@@ -0,0 +1,202 @@
+// Impersonation Service (server-side)
+// Single Responsibility: Start and stop "log in as" sessions and keep
+// their audit trail in impersonation_audit
+//
+// Needs the service role: it mints the customer's session (a magic link
+// hash, verified on the spot) and writes the audit row. The session's
+// next token then carries the impersonator claim from
+// custom_access_token_hook (database/migrations)
+
+import type { Session, SupabaseClient, User } from "@supabase/supabase-js";
+
+import { decodeJwt } from "@/shared/services/auth/session";
+import type { IAuthError } from "@/shared/types/auth";
+import { DEFAULT_PERMISSIONS } from "@/shared/types/rbac";
+import {
+  fromImpersonationAuditRow,
+  toImpersonationAuditRow,
+  type IImpersonationAuditRecord,
+  type IImpersonationAuditRow,
+} from "@/shared/types/rbac.generated";
+
+export interface IImpersonationGrant {
+  impersonation: IImpersonationAuditRecord;
+  accessToken: string;
+  refreshToken: string;
+}
+
+export type ImpersonationErrorCode =
+  | "unauthorized"
+  | "forbidden"
+  | "invalid_request"
+  | "not_found"
+  | "impersonation_failed";
+
+const AUDIT_TABLE = "impersonation_audit";
+
+const fail = (
+  code: ImpersonationErrorCode,
+  message: string,
+  details?: unknown,
+): IAuthError => ({ code, message, details });
+
+export class ImpersonationService {
+  // createClient: a throwaway anon client that never persists sessions
+  constructor(
+    private admin: SupabaseClient,
+    private createClient: () => SupabaseClient,
+  ) {}
+
+  async start(
+    adminToken: string,
+    targetUserId: string,
+    reason: string,
+  ): Promise<IImpersonationGrant> {
+    const admin = await this.authorize(adminToken);
+    if (!reason.trim()) {
+      throw fail("invalid_request", "A reason is required to impersonate");
+    }
+    const target = await this.findTarget(admin, targetUserId);
+
+    const client = this.createClient();
+    const minted = await this.mintSession(client, target);
+    try {
+      const impersonation = await this.audit({
+        adminId: admin.id,
+        adminEmail: admin.email ?? "",
+        targetUserId: target.id,
+        targetEmail: target.email ?? "",
+        sessionId: String(decodeJwt(minted.access_token).claims.session_id),
+        reason: reason.trim(),
+      });
+      return { impersonation, ...(await this.reissue(client, minted)) };
+    } catch (error) {
+      // Never leave a session behind that the audit does not know about
+      await this.admin.auth.admin.signOut(minted.access_token, "local");
+      throw error;
+    }
+  }
+
+  // Ends the impersonated session the token belongs to
+  async stop(token: string): Promise<IImpersonationAuditRecord> {
+    await this.verify(token);
+    const impersonator = decodeJwt(token).claims.impersonator as
+      { impersonation_id?: string } | undefined;
+    if (!impersonator?.impersonation_id) {
+      throw fail("invalid_request", "This session is not impersonated");
+    }
+
+    const { data, error } = await this.admin
+      .from(AUDIT_TABLE)
+      .update(toImpersonationAuditRow({ endedAt: new Date() }))
+      .eq("id", impersonator.impersonation_id)
+      .is("ended_at", null)
+      .select()
+      .single();
+    if (error) {
+      throw fail("impersonation_failed", "Could not record the stop", error);
+    }
+
+    // The impersonated session's refresh tokens die with it
+    await this.admin.auth.admin.signOut(token, "local");
+    return fromImpersonationAuditRow(data as IImpersonationAuditRow);
+  }
+
+  private async verify(token: string): Promise<User> {
+    const { data, error } = await this.admin.auth.getUser(token);
+    if (error || !data.user) {
+      throw fail("unauthorized", "Invalid or expired session", error);
+    }
+    return data.user;
+  }
+
+  // Only system.impersonate holders, and never from a session that is
+  // itself impersonated
+  private async authorize(token: string): Promise<User> {
+    const user = await this.verify(token);
+    if (decodeJwt(token).claims.impersonator) {
+      throw fail("forbidden", "Stop the current impersonation first");
+    }
+
+    const { data: allowed, error } = await this.admin.rpc(
+      "user_has_permission",
+      {
+        user_id: user.id,
+        permission_name: DEFAULT_PERMISSIONS.SYSTEM_IMPERSONATE,
+      },
+    );
+    if (error || !allowed) {
+      throw fail("forbidden", "Missing permission to impersonate", error);
+    }
+    return user;
+  }
+
+  private async findTarget(admin: User, targetUserId: string): Promise<User> {
+    if (targetUserId === admin.id) {
+      throw fail("invalid_request", "Admins cannot impersonate themselves");
+    }
+    const { data, error } =
+      await this.admin.auth.admin.getUserById(targetUserId);
+    if (error || !data.user?.email) {
+      throw fail("not_found", "User not found", error);
+    }
+    return data.user;
+  }
+
+  private async mintSession(
+    client: SupabaseClient,
+    target: User,
+  ): Promise<Session> {
+    const link = await this.admin.auth.admin.generateLink({
+      type: "magiclink",
+      email: target.email!,
+    });
+    if (link.error) {
+      throw fail(
+        "impersonation_failed",
+        "Could not issue the session",
+        link.error,
+      );
+    }
+
+    const { data, error } = await client.auth.verifyOtp({
+      token_hash: link.data.properties.hashed_token,
+      type: "magiclink",
+    });
+    if (error || !data.session) {
+      throw fail("impersonation_failed", "Could not issue the session", error);
+    }
+    return data.session;
+  }
+
+  // Re-issued once the audit row exists, so the token names the admin
+  private async reissue(
+    client: SupabaseClient,
+    minted: Session,
+  ): Promise<Omit<IImpersonationGrant, "impersonation">> {
+    const { data, error } = await client.auth.refreshSession({
+      refresh_token: minted.refresh_token,
+    });
+    if (error || !data.session) {
+      throw fail("impersonation_failed", "Could not issue the session", error);
+    }
+    return {
+      accessToken: data.session.access_token,
+      refreshToken: data.session.refresh_token,
+    };
+  }
+
+  private async audit(
+    record: Partial<IImpersonationAuditRecord>,
+  ): Promise<IImpersonationAuditRecord> {
+    const { data, error } = await this.admin
+      .from(AUDIT_TABLE)
+      .insert(toImpersonationAuditRow(record))
+      .select()
+      .single();
+    if (error) {
+      throw fail("impersonation_failed", "Could not record the start", error);
+    }
+    return fromImpersonationAuditRow(data as IImpersonationAuditRow);
+  }
+}
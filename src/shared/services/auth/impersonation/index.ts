@@ -0,0 +1,7 @@
+// Impersonation - server-side only: it needs the service role key.
+// The browser side lives in the Supabase provider (startImpersonation)
+export {
+  ImpersonationService,
+  type IImpersonationGrant,
+  type ImpersonationErrorCode,
+} from "./impersonation-service";
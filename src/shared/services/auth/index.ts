@@ -1,20 +1,52 @@
 // Export principal do módulo de autenticação
 export { AuthProviderFactory, registerDefaultProviders } from "./auth-factory";
 export { SupabaseAuthProvider } from "./providers/supabase-auth-provider";
+export {
+  Auth0AuthProvider,
+  type IAuth0LoginOptions,
+  type IAuth0ProviderOptions,
+} from "./providers/auth0-auth-provider";
+export {
+  OidcAuthProvider,
+  type IOidcLoginOptions,
+  type IOidcProviderOptions,
+} from "./providers/oidc-auth-provider";
+export type { IOidcClaimMapping } from "./providers/oidc/oidc-mappers";
+export * from "./mfa";
+export * from "./tokens";
 
 // Re-export types
 export type {
   IAuthProvider,
   IUser,
   IAuthSession,
+  IActiveSession,
+  IImpersonator,
   ILoginCredentials,
   IRegisterCredentials,
   IResetPasswordData,
   IAuthState,
   IAuthError,
+  IAuthIdentity,
+  OtpType,
+  AuthAssuranceLevel,
+  IAssuranceLevel,
+  IMfaChallenge,
+  IMfaFactor,
+  IMfaService,
+  ITotpEnrollment,
+  IOAuthOptions,
+  IOAuthRedirect,
+  OAuthProvider,
   AuthProviderType,
   IAuthProviderConfig,
 } from "@/shared/types/auth";
+export type {
+  ICreatePersonalAccessToken,
+  ICreatedPersonalAccessToken,
+  IPersonalAccessToken,
+  ITokenPrincipal,
+} from "@/shared/types/access-token";
 
 // Re-export provider components
 export {
@@ -22,6 +54,10 @@ export {
   useAuth,
   useAuthState,
   useAuthActions,
+  useAssuranceLevel,
+  useImpersonator,
+} from "@/shared/components/providers/auth-provider";
+export {
   ProtectedRoute,
   withAuth,
-} from "@/shared/components/providers/auth-provider";
+} from "@/shared/components/providers/protected-route";
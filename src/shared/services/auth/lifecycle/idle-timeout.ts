@@ -0,0 +1,115 @@
+// Idle Timeout
+// Single Responsibility: End the session after a period without user
+// activity, warning shortly before
+
+export interface IIdleTimeoutOptions {
+  timeoutMs: number;
+  // How long before the timeout the warning shows
+  warningMs: number;
+}
+
+export interface IIdleTimeoutHandlers {
+  // Once per idle period, with the moment the session ends
+  onWarning(logoutAt: Date): void;
+  // Activity (here or in another tab) after a warning, or stop()
+  onWarningCleared(): void;
+  onTimeout(): void;
+}
+
+// Activity closer together than this is not worth a new timer
+const ACTIVITY_THROTTLE_MS = 5_000;
+
+const ACTIVITY_EVENTS = [
+  "pointerdown",
+  "pointermove",
+  "keydown",
+  "scroll",
+  "touchstart",
+  "visibilitychange",
+] as const;
+
+// Calls onActivity for user input while the page is visible
+export const watchActivity = (onActivity: () => void): (() => void) => {
+  if (typeof window === "undefined") return () => {};
+
+  const handler = (): void => {
+    if (document.visibilityState !== "hidden") onActivity();
+  };
+  ACTIVITY_EVENTS.forEach((event) =>
+    window.addEventListener(event, handler, { passive: true }),
+  );
+  return () =>
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.removeEventListener(event, handler),
+    );
+};
+
+export class IdleTimeout {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private lastActivity = 0;
+  private warned = false;
+  private running = false;
+
+  constructor(
+    private options: IIdleTimeoutOptions,
+    private handlers: IIdleTimeoutHandlers,
+  ) {}
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  // lastActivity lets a reloaded page keep counting from before the reload
+  start(lastActivity: number = Date.now()): void {
+    this.stop();
+    this.running = true;
+    this.lastActivity = Math.min(lastActivity, Date.now());
+    this.check();
+  }
+
+  stop(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.running = false;
+    this.clearWarning();
+  }
+
+  // Returns whether the activity was recorded, i.e. worth sharing
+  recordActivity(at: number = Date.now()): boolean {
+    if (!this.running || at <= this.lastActivity) return false;
+    if (!this.warned && at - this.lastActivity < ACTIVITY_THROTTLE_MS) {
+      return false;
+    }
+    this.lastActivity = at;
+    this.clearWarning();
+    this.check();
+    return true;
+  }
+
+  private check(): void {
+    if (this.timer) clearTimeout(this.timer);
+    const logoutAt = this.lastActivity + this.options.timeoutMs;
+    const warnAt = logoutAt - this.options.warningMs;
+    const now = Date.now();
+
+    if (now >= logoutAt) {
+      this.stop();
+      this.handlers.onTimeout();
+      return;
+    }
+    if (now >= warnAt && !this.warned) {
+      this.warned = true;
+      this.handlers.onWarning(new Date(logoutAt));
+    }
+    this.timer = setTimeout(
+      () => this.check(),
+      (now < warnAt ? warnAt : logoutAt) - now,
+    );
+  }
+
+  private clearWarning(): void {
+    if (!this.warned) return;
+    this.warned = false;
+    this.handlers.onWarningCleared();
+  }
+}
@@ -0,0 +1,28 @@
+// Session lifecycle - proactive refresh, idle timeout and cross-tab
+// coordination (browser only; the middleware uses ../session)
+export {
+  SessionLifecycleManager,
+  type ISessionLifecycleDeps,
+  type ISessionLifecycleHooks,
+  type ISessionLifecycleOptions,
+  type SessionEndReason,
+  type SessionLifecycleTarget,
+} from "./session-lifecycle";
+export {
+  RefreshScheduler,
+  type IRefreshHandlers,
+  type IRefreshSchedulerOptions,
+  type ISessionRefresher,
+} from "./refresh-scheduler";
+export {
+  StorageLeaseLock,
+  WebLocksRefreshLock,
+  createRefreshLock,
+  type IRefreshLock,
+} from "./refresh-lock";
+export {
+  IdleTimeout,
+  watchActivity,
+  type IIdleTimeoutHandlers,
+  type IIdleTimeoutOptions,
+} from "./idle-timeout";
@@ -0,0 +1,97 @@
+// Refresh Lock
+// Single Responsibility: Let one tab at a time refresh the session, so a
+// rotated refresh token is never spent twice
+//
+// Web Locks when the browser has them, otherwise a short lease in
+// localStorage
+
+export interface IRefreshLock {
+  // Runs the task while holding the lock; null when another tab holds it
+  runExclusive<T>(task: () => Promise<T>): Promise<T | null>;
+}
+
+type LeaseStorage = Pick<Storage, "getItem" | "setItem" | "removeItem">;
+
+interface ILease {
+  owner: string;
+  until: number;
+}
+
+const DEFAULT_LOCK_NAME = "auth-session-refresh";
+
+// A tab that dies mid-refresh gives the lock up after this long
+const LEASE_MS = 30_000;
+
+export class StorageLeaseLock implements IRefreshLock {
+  private owner = Math.random().toString(36).slice(2);
+
+  constructor(
+    private storage: LeaseStorage,
+    private key: string = DEFAULT_LOCK_NAME,
+    private leaseMs: number = LEASE_MS,
+  ) {}
+
+  async runExclusive<T>(task: () => Promise<T>): Promise<T | null> {
+    if (!this.acquire()) return null;
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(): boolean {
+    const lease = this.read();
+    if (lease && lease.owner !== this.owner && lease.until > Date.now()) {
+      return false;
+    }
+    this.storage.setItem(
+      this.key,
+      JSON.stringify({ owner: this.owner, until: Date.now() + this.leaseMs }),
+    );
+    // Two tabs may write at once: whoever wrote last owns the lease
+    return this.read()?.owner === this.owner;
+  }
+
+  private release(): void {
+    if (this.read()?.owner === this.owner) this.storage.removeItem(this.key);
+  }
+
+  private read(): ILease | null {
+    try {
+      return JSON.parse(this.storage.getItem(this.key) ?? "null");
+    } catch {
+      return null;
+    }
+  }
+}
+
+export class WebLocksRefreshLock implements IRefreshLock {
+  constructor(
+    private locks: LockManager,
+    private name: string = DEFAULT_LOCK_NAME,
+  ) {}
+
+  async runExclusive<T>(task: () => Promise<T>): Promise<T | null> {
+    return this.locks.request(this.name, { ifAvailable: true }, (lock) =>
+      lock ? task() : null,
+    );
+  }
+}
+
+// Outside the browser there is no other tab to race with
+const unsharedLock: IRefreshLock = {
+  runExclusive: (task) => task(),
+};
+
+export const createRefreshLock = (
+  name: string = DEFAULT_LOCK_NAME,
+): IRefreshLock => {
+  if (typeof navigator !== "undefined" && navigator.locks) {
+    return new WebLocksRefreshLock(navigator.locks, name);
+  }
+  if (typeof localStorage !== "undefined") {
+    return new StorageLeaseLock(localStorage, name);
+  }
+  return unsharedLock;
+};
@@ -0,0 +1,124 @@
+// Refresh Scheduler
+// Single Responsibility: Refresh the session shortly before it expires,
+// retrying with exponential backoff
+//
+// Every tab schedules, but the refresh itself runs under the cross-tab
+// lock and first checks whether another tab already did it
+
+import type { IAuthError, IAuthSession } from "@/shared/types/auth";
+
+import type { IRefreshLock } from "./refresh-lock";
+
+export interface IRefreshSchedulerOptions {
+  // Refresh this many seconds before expiresAt...
+  refreshBeforeSec: number;
+  // ...plus up to this many, at random, so tabs and clients spread out
+  jitterSec: number;
+  maxRetries: number;
+  // First retry delay; doubles on each attempt
+  retryBaseMs: number;
+}
+
+export interface ISessionRefresher {
+  refresh(): Promise<IAuthSession | null>;
+  // The persisted session, possibly renewed by another tab
+  reload(): Promise<IAuthSession | null>;
+}
+
+export interface IRefreshHandlers {
+  onRefreshed(session: IAuthSession): void;
+  // Every retry failed while the session was still there
+  onFailed(error: IAuthError): void;
+}
+
+// setTimeout overflows past ~24.8 days
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+// When another tab holds the lock, look again after this long; its
+// broadcast usually reschedules this tab first
+const LOCK_RETRY_MS = 5_000;
+
+export class RefreshScheduler {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private expiresAt = 0;
+  private attempt = 0;
+  // Bumped on every schedule/cancel so a stale run stops after awaiting
+  private generation = 0;
+
+  constructor(
+    private refresher: ISessionRefresher,
+    private lock: IRefreshLock,
+    private options: IRefreshSchedulerOptions,
+    private handlers: IRefreshHandlers,
+  ) {}
+
+  schedule(session: IAuthSession | null, random: number = Math.random()): void {
+    this.cancel();
+    if (!session?.expiresAt || !session.refreshToken) return;
+
+    const { refreshBeforeSec, jitterSec } = this.options;
+    this.expiresAt = session.expiresAt.getTime();
+    this.later(
+      this.expiresAt -
+        Date.now() -
+        (refreshBeforeSec + random * jitterSec) * 1000,
+    );
+  }
+
+  cancel(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.attempt = 0;
+    this.generation++;
+  }
+
+  private later(delayMs: number): void {
+    const generation = this.generation;
+    this.timer = setTimeout(
+      () => {
+        this.timer = null;
+        void this.run(generation);
+      },
+      Math.min(Math.max(delayMs, 0), MAX_TIMER_MS),
+    );
+  }
+
+  private async run(generation: number): Promise<void> {
+    const expiresAt = this.expiresAt;
+    try {
+      const outcome = await this.lock.runExclusive(() =>
+        this.refreshOnce(expiresAt),
+      );
+      if (outcome?.value) {
+        this.handlers.onRefreshed(outcome.value);
+      } else if (outcome === null && generation === this.generation) {
+        this.later(LOCK_RETRY_MS);
+      }
+    } catch (error) {
+      // A provider that ended the session (e.g. invalid_grant) already
+      // triggered a new schedule/cancel: nothing left to retry
+      if (generation === this.generation) this.retry(error as IAuthError);
+    }
+  }
+
+  // Another tab may have refreshed while this one waited: adopt its
+  // session (reload publishes it) instead of spending the refresh token
+  private async refreshOnce(
+    expiresAt: number,
+  ): Promise<{ value: IAuthSession | null }> {
+    const stored = await this.refresher.reload();
+    if (stored?.expiresAt && stored.expiresAt.getTime() > expiresAt) {
+      return { value: null };
+    }
+    return { value: await this.refresher.refresh() };
+  }
+
+  private retry(error: IAuthError): void {
+    if (this.attempt >= this.options.maxRetries) {
+      this.handlers.onFailed(error);
+      return;
+    }
+    this.later(this.options.retryBaseMs * 2 ** this.attempt);
+    this.attempt++;
+  }
+}
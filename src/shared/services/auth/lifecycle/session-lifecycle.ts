@@ -0,0 +1,240 @@
+// Session Lifecycle Manager
+// Single Responsibility: Keep the session alive while the user is around
+// and end it when they are not
+//
+// Follows the provider's auth state (its StateManager observers): every
+// new session schedules a proactive refresh, sign-in starts the idle
+// timeout and sign-out stops both. Tabs share refreshes, activity,
+// sign-outs and revocations over a BroadcastChannel
+
+import { CrossTabSyncService } from "@/shared/services/storage/cross-tab-sync.service";
+import type { IStorageEvent } from "@/shared/services/storage/storage.types";
+import {
+  SESSION_REVOKED_ERROR,
+  type IAuthError,
+  type IAuthProvider,
+  type IAuthSession,
+  type IAuthState,
+} from "@/shared/types/auth";
+
+import { IdleTimeout, watchActivity } from "./idle-timeout";
+import { createRefreshLock, type IRefreshLock } from "./refresh-lock";
+import { RefreshScheduler } from "./refresh-scheduler";
+
+export interface ISessionLifecycleOptions {
+  // Defaults: 60s before expiresAt, plus up to 30s of jitter
+  refreshBeforeSec?: number;
+  refreshJitterSec?: number;
+  // Defaults: 3 retries, 2s, 4s then 8s apart
+  maxRefreshRetries?: number;
+  refreshRetryBaseMs?: number;
+  // The idle timeout is off unless set
+  idleTimeoutMin?: number;
+  // Default: warn 60s before the idle sign-out
+  idleWarningSec?: number;
+}
+
+// revoked: from the devices list, here or on another device
+export type SessionEndReason = "idle" | "refresh_failed" | "revoked";
+
+export interface ISessionLifecycleHooks {
+  onSessionChange?(session: IAuthSession | null): void;
+  // User input in this tab (throttled)
+  onActivity?(at: Date): void;
+  onIdleWarning?(logoutAt: Date): void;
+  onIdleWarningCleared?(): void;
+  onSessionEnded?(reason: SessionEndReason, error?: IAuthError): void;
+}
+
+export type SessionLifecycleTarget = Pick<
+  IAuthProvider,
+  "getState" | "onAuthStateChange" | "refreshSession" | "logout" | "syncSession"
+>;
+
+type SessionChannel = Pick<
+  CrossTabSyncService,
+  "broadcast" | "subscribe" | "cleanup"
+>;
+
+export interface ISessionLifecycleDeps {
+  lock?: IRefreshLock;
+  channel?: SessionChannel;
+  watchActivity?: (onActivity: () => void) => () => void;
+  random?: () => number;
+}
+
+const CHANNEL_NAME = "auth-session-lifecycle";
+
+// Messages between tabs
+const REFRESHED = "auth:refreshed";
+const SIGNED_OUT = "auth:signed-out";
+const ACTIVITY = "auth:activity";
+const REVOKED = "auth:session-revoked";
+
+const sessionKey = (session: IAuthSession | null): string | null =>
+  session ? `${session.token}:${session.expiresAt?.getTime() ?? ""}` : null;
+
+export class SessionLifecycleManager {
+  private refresh: RefreshScheduler;
+  private idle: IdleTimeout | null;
+  private channel: SessionChannel;
+  private random: () => number;
+  private watchActivity: (onActivity: () => void) => () => void;
+  private subscriptions: (() => void)[] = [];
+  private currentKey: string | null = null;
+  private currentId: string | undefined;
+  private restoredActivity: number | undefined;
+
+  constructor(
+    private target: SessionLifecycleTarget,
+    options: ISessionLifecycleOptions = {},
+    private hooks: ISessionLifecycleHooks = {},
+    deps: ISessionLifecycleDeps = {},
+  ) {
+    this.channel = deps.channel ?? new CrossTabSyncService(CHANNEL_NAME);
+    this.random = deps.random ?? Math.random;
+    this.watchActivity = deps.watchActivity ?? watchActivity;
+    this.refresh = this.createRefreshScheduler(
+      options,
+      deps.lock ?? createRefreshLock(),
+    );
+    this.idle = this.createIdleTimeout(options);
+  }
+
+  // lastActivity (e.g. from useSessionStore) keeps the idle clock running
+  // across reloads for a restored session
+  start(lastActivity?: Date | null): void {
+    this.restoredActivity = lastActivity?.getTime();
+    this.subscriptions.push(
+      this.target.onAuthStateChange((state) => this.onState(state)),
+      this.channel.subscribe((event) => this.onMessage(event)),
+    );
+    if (this.idle) {
+      this.subscriptions.push(this.watchActivity(() => this.onActivity()));
+    }
+    this.onState(this.target.getState());
+  }
+
+  stop(): void {
+    this.subscriptions.forEach((unsubscribe) => unsubscribe());
+    this.subscriptions = [];
+    this.refresh.cancel();
+    this.idle?.stop();
+    this.channel.cleanup();
+  }
+
+  private onState({ session, error }: IAuthState): void {
+    const key = sessionKey(session);
+    if (key === this.currentKey) return;
+    this.currentKey = key;
+
+    if (!session && error?.code === SESSION_REVOKED_ERROR) {
+      this.revoked(this.currentId);
+    }
+    this.currentId = session?.id;
+    this.hooks.onSessionChange?.(session);
+    this.refresh.schedule(session, this.random());
+    if (!session) {
+      this.idle?.stop();
+    } else if (this.idle && !this.idle.isRunning) {
+      this.idle.start(this.restoredActivity);
+    }
+    this.restoredActivity = undefined;
+  }
+
+  private onActivity(): void {
+    const now = Date.now();
+    if (!this.idle?.recordActivity(now)) return;
+    this.hooks.onActivity?.(new Date(now));
+    this.share(ACTIVITY, now);
+  }
+
+  private onMessage(event: IStorageEvent): void {
+    if (event.key === ACTIVITY) {
+      this.idle?.recordActivity(event.newValue as number);
+    } else if (event.key === REFRESHED || event.key === SIGNED_OUT) {
+      // Pick up what the other tab persisted instead of calling the issuer
+      this.target.syncSession?.().catch(() => null);
+    } else if (event.key === REVOKED && event.newValue === this.currentId) {
+      // The revoking tab already cleared the shared session: reloading it
+      // signs this tab out too
+      this.hooks.onSessionEnded?.("revoked");
+      this.target.syncSession?.().catch(() => null);
+    }
+  }
+
+  // The provider signed this session out after a revocation; tabs on the
+  // same session are told by its id
+  private revoked(sessionId: string | undefined): void {
+    this.hooks.onSessionEnded?.("revoked");
+    if (sessionId) this.share(REVOKED, sessionId);
+  }
+
+  // Signs out here, then in the other tabs
+  private async end(
+    reason: SessionEndReason,
+    error?: IAuthError,
+  ): Promise<void> {
+    this.refresh.cancel();
+    this.idle?.stop();
+    this.hooks.onSessionEnded?.(reason, error);
+    try {
+      await this.target.logout();
+    } catch {
+      // Best effort: an unreachable issuer is often why refresh failed
+    }
+    this.share(SIGNED_OUT, null);
+  }
+
+  private share(key: string, value: string | number | null): void {
+    this.channel.broadcast({
+      key,
+      oldValue: null,
+      newValue: value,
+      timestamp: Date.now(),
+      provider: "localStorage",
+      source: "local",
+    });
+  }
+
+  private createRefreshScheduler(
+    options: ISessionLifecycleOptions,
+    lock: IRefreshLock,
+  ): RefreshScheduler {
+    return new RefreshScheduler(
+      {
+        refresh: () => this.target.refreshSession(),
+        reload: async () => (await this.target.syncSession?.()) ?? null,
+      },
+      lock,
+      {
+        refreshBeforeSec: options.refreshBeforeSec ?? 60,
+        jitterSec: options.refreshJitterSec ?? 30,
+        maxRetries: options.maxRefreshRetries ?? 3,
+        retryBaseMs: options.refreshRetryBaseMs ?? 2000,
+      },
+      {
+        onRefreshed: (session) =>
+          this.share(REFRESHED, session.expiresAt?.getTime() ?? null),
+        onFailed: (error) => void this.end("refresh_failed", error),
+      },
+    );
+  }
+
+  private createIdleTimeout(
+    options: ISessionLifecycleOptions,
+  ): IdleTimeout | null {
+    if (!options.idleTimeoutMin) return null;
+    return new IdleTimeout(
+      {
+        timeoutMs: options.idleTimeoutMin * 60_000,
+        warningMs: (options.idleWarningSec ?? 60) * 1000,
+      },
+      {
+        onWarning: (logoutAt) => this.hooks.onIdleWarning?.(logoutAt),
+        onWarningCleared: () => this.hooks.onIdleWarningCleared?.(),
+        onTimeout: () => void this.end("idle"),
+      },
+    );
+  }
+}
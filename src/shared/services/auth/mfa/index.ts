@@ -0,0 +1,15 @@
+// MFA - TOTP primitives and the local verifier
+export {
+  buildOtpauthUri,
+  decodeBase32,
+  encodeBase32,
+  generateTotpCode,
+  generateTotpSecret,
+  verifyTotpCode,
+  type ITotpOptions,
+  type ITotpVerifyOptions,
+} from "./totp";
+export {
+  LocalTotpVerifier,
+  type ILocalTotpVerifierOptions,
+} from "./local-totp-verifier";
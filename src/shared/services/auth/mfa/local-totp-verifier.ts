@@ -0,0 +1,143 @@
+// Local TOTP Verifier
+// Single Responsibility: IMfaService that keeps factors in memory and checks
+// codes itself, for tests and for development without Supabase MFA
+
+import type { IAuthError } from "@/shared/types/auth";
+import type {
+  AuthAssuranceLevel,
+  IAssuranceLevel,
+  IMfaChallenge,
+  IMfaFactor,
+  IMfaService,
+  ITotpEnrollment,
+} from "@/shared/types/mfa";
+
+import {
+  buildOtpauthUri,
+  generateTotpSecret,
+  verifyTotpCode,
+  type ITotpOptions,
+} from "./totp";
+
+export interface ILocalTotpVerifierOptions extends ITotpOptions {
+  issuer?: string;
+  account?: string;
+  challengeTtlMs?: number;
+  now?: () => number;
+}
+
+interface ILocalFactor {
+  factor: IMfaFactor;
+  secret: string;
+  // Last accepted time step: a code cannot be replayed
+  lastCounter: number;
+}
+
+const mfaError = (code: string, message: string): IAuthError => ({
+  code,
+  message,
+});
+
+export class LocalTotpVerifier implements IMfaService {
+  private factors: Map<string, ILocalFactor> = new Map();
+  private challenges: Map<string, IMfaChallenge> = new Map();
+  private level: AuthAssuranceLevel = "aal1";
+  private now: () => number;
+
+  constructor(private options: ILocalTotpVerifierOptions = {}) {
+    this.now = options.now ?? Date.now;
+  }
+
+  async enrollTotp(friendlyName?: string): Promise<ITotpEnrollment> {
+    const secret = generateTotpSecret();
+    const factor: IMfaFactor = {
+      id: crypto.randomUUID(),
+      type: "totp",
+      friendlyName,
+      status: "unverified",
+      createdAt: new Date(this.now()),
+    };
+    this.factors.set(factor.id, { factor, secret, lastCounter: -1 });
+
+    const uri = buildOtpauthUri(
+      secret,
+      {
+        issuer: this.options.issuer ?? "App",
+        account: this.options.account ?? friendlyName ?? factor.id,
+      },
+      this.options,
+    );
+    return { factorId: factor.id, secret, uri };
+  }
+
+  async challenge(factorId: string): Promise<IMfaChallenge> {
+    this.factorOrThrow(factorId);
+    const challenge: IMfaChallenge = {
+      id: crypto.randomUUID(),
+      factorId,
+      expiresAt: new Date(this.now() + (this.options.challengeTtlMs ?? 300000)),
+    };
+    this.challenges.set(challenge.id, challenge);
+    return challenge;
+  }
+
+  async verify(
+    factorId: string,
+    challengeId: string,
+    code: string,
+  ): Promise<AuthAssuranceLevel> {
+    const entry = this.factorOrThrow(factorId);
+    const challenge = this.challenges.get(challengeId);
+    // Challenges are single-use, whatever the outcome
+    this.challenges.delete(challengeId);
+
+    if (!challenge || challenge.factorId !== factorId) {
+      throw mfaError("mfa_challenge_not_found", "MFA challenge not found");
+    }
+    if (challenge.expiresAt.getTime() < this.now()) {
+      throw mfaError("mfa_challenge_expired", "MFA challenge has expired");
+    }
+
+    const step = await verifyTotpCode(entry.secret, code, {
+      ...this.options,
+      timestamp: this.now(),
+    });
+    // The code's own step, drift included: a code from the next period
+    // cannot be used again once that period arrives
+    if (step === null || step <= entry.lastCounter) {
+      throw mfaError("mfa_verification_failed", "Invalid MFA code");
+    }
+
+    entry.lastCounter = step;
+    entry.factor = { ...entry.factor, status: "verified" };
+    this.level = "aal2";
+    return this.level;
+  }
+
+  async listFactors(): Promise<IMfaFactor[]> {
+    return Array.from(this.factors.values()).map(({ factor }) => factor);
+  }
+
+  async unenroll(factorId: string): Promise<void> {
+    this.factorOrThrow(factorId);
+    this.factors.delete(factorId);
+  }
+
+  async getAssuranceLevel(): Promise<IAssuranceLevel> {
+    const hasVerified = Array.from(this.factors.values()).some(
+      ({ factor }) => factor.status === "verified",
+    );
+    return { current: this.level, next: hasVerified ? "aal2" : "aal1" };
+  }
+
+  private factorOrThrow(factorId: string): ILocalFactor {
+    const entry = this.factors.get(factorId);
+    if (!entry) {
+      throw mfaError(
+        "mfa_factor_not_found",
+        `MFA factor '${factorId}' not found`,
+      );
+    }
+    return entry;
+  }
+}
@@ -0,0 +1,144 @@
+// TOTP (RFC 6238) on top of WebCrypto
+// Works in the browser, in Node and on the edge without a server round-trip
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export interface ITotpOptions {
+  // Seconds per code (authenticator apps use 30)
+  period?: number;
+  digits?: number;
+}
+
+export interface ITotpVerifyOptions extends ITotpOptions {
+  // Codes from this many periods before/after are accepted (clock drift)
+  window?: number;
+  timestamp?: number;
+}
+
+export const encodeBase32 = (bytes: Uint8Array): string => {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  bytes.forEach((byte) => {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  });
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+};
+
+export const decodeBase32 = (input: string): Uint8Array<ArrayBuffer> => {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, "");
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: '${char}'`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+};
+
+// 160 bits, the size RFC 4226 recommends for HMAC-SHA1
+export const generateTotpSecret = (byteLength = 20): string =>
+  encodeBase32(crypto.getRandomValues(new Uint8Array(byteLength)));
+
+// 8-byte big-endian counter (no BigInt: the lib target is ES2015). A view,
+// not the bare ArrayBuffer, which WebCrypto rejects across realms (jsdom)
+const counterBytes = (counter: number): Uint8Array<ArrayBuffer> => {
+  const bytes = new Uint8Array(8);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, Math.floor(counter / 2 ** 32));
+  view.setUint32(4, counter >>> 0);
+  return bytes;
+};
+
+const hotp = async (
+  secret: string,
+  counter: number,
+  digits: number,
+): Promise<string> => {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    decodeBase32(secret),
+    { name: "HMAC", hash: "SHA-1" },
+    false,
+    ["sign"],
+  );
+  const hmac = new Uint8Array(
+    await crypto.subtle.sign("HMAC", key, counterBytes(counter)),
+  );
+
+  // Dynamic truncation (RFC 4226 section 5.3)
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary =
+    ((hmac[offset] & 127) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+  return String(binary % 10 ** digits).padStart(digits, "0");
+};
+
+export const generateTotpCode = (
+  secret: string,
+  timestamp = Date.now(),
+  { period = 30, digits = 6 }: ITotpOptions = {},
+): Promise<string> =>
+  hotp(secret, Math.floor(timestamp / 1000 / period), digits);
+
+// The time step the code belongs to, or null when it matches none in the
+// window: callers keep the last accepted step to refuse replays
+export const verifyTotpCode = async (
+  secret: string,
+  code: string,
+  {
+    window = 1,
+    timestamp = Date.now(),
+    period = 30,
+    digits = 6,
+  }: ITotpVerifyOptions = {},
+): Promise<number | null> => {
+  const normalized = code.replace(/\s/g, "");
+  if (!new RegExp(`^\\d{${digits}}$`).test(normalized)) return null;
+
+  const counter = Math.floor(timestamp / 1000 / period);
+  for (let drift = -window; drift <= window; drift++) {
+    if ((await hotp(secret, counter + drift, digits)) === normalized) {
+      return counter + drift;
+    }
+  }
+  return null;
+};
+
+// Key URI format understood by Google Authenticator, 1Password, Authy...
+export const buildOtpauthUri = (
+  secret: string,
+  { issuer, account }: { issuer: string; account: string },
+  { period = 30, digits = 6 }: ITotpOptions = {},
+): string => {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(account)}`;
+  const params = [
+    `secret=${secret}`,
+    `issuer=${encodeURIComponent(issuer)}`,
+    "algorithm=SHA1",
+    `digits=${digits}`,
+    `period=${period}`,
+  ];
+  return `otpauth://totp/${label}?${params.join("&")}`;
+};
@@ -0,0 +1,273 @@
+// Auth0 Auth Provider - SOLID implementation of IAuthProvider
+// Universal Login with the authorization code flow + PKCE; tokens are kept
+// in web storage and renewed with (rotating) refresh tokens
+
+import { getEnv } from "@/config/env";
+import { redirects } from "@/config/routes";
+import { createPkcePair, randomUrlSafe } from "@/shared/services/auth/session";
+import type {
+  IAuthError,
+  IAuthProvider,
+  IAuthSession,
+  IAuthState,
+  IOAuthOptions,
+  IOAuthRedirect,
+  IResetPasswordData,
+  IUser,
+  OAuthProvider,
+} from "@/shared/types/auth";
+
+import { Auth0Client, type IAuth0Config } from "./auth0/auth0-client";
+import { auth0Connection, mapAuth0User } from "./auth0/auth0-mappers";
+import {
+  OidcSessionOperations,
+  type IOidcSignIn,
+} from "./oidc/oidc-session-operations";
+import {
+  OidcStorage,
+  defaultWebStorage,
+  type IOidcTransaction,
+  type WebStorage,
+} from "./oidc/oidc-storage";
+import { defaultRedirectTo } from "./operations/oauth-operations";
+import { StateManager } from "./operations/state-manager";
+
+export interface IAuth0ProviderOptions extends IAuth0Config {
+  // Defaults to localStorage
+  storage?: WebStorage;
+  // Defaults to window.location.assign
+  navigate?: (url: string) => void;
+}
+
+export interface IAuth0LoginOptions extends IOAuthOptions {
+  // Skip the Universal Login picker, e.g. "google-oauth2"
+  connection?: string;
+  screenHint?: "login" | "signup";
+  loginHint?: string;
+}
+
+const auth0ConfigFromEnv = (): IAuth0ProviderOptions => {
+  const env = getEnv();
+  if (!env.NEXT_PUBLIC_AUTH0_DOMAIN || !env.NEXT_PUBLIC_AUTH0_CLIENT_ID) {
+    throw new Error(
+      "Auth0 Auth Provider requires NEXT_PUBLIC_AUTH0_DOMAIN and NEXT_PUBLIC_AUTH0_CLIENT_ID",
+    );
+  }
+  return {
+    domain: env.NEXT_PUBLIC_AUTH0_DOMAIN,
+    clientId: env.NEXT_PUBLIC_AUTH0_CLIENT_ID,
+    audience: env.NEXT_PUBLIC_AUTH0_AUDIENCE || undefined,
+    claimsNamespace: `${env.NEXT_PUBLIC_APP_URL}/`,
+  };
+};
+
+const defaultNavigate = (url: string): void => {
+  if (typeof window !== "undefined") window.location.assign(url);
+};
+
+const defaultReturnTo = (): string | undefined =>
+  typeof window === "undefined"
+    ? undefined
+    : `${window.location.origin}${redirects.afterLogout}`;
+
+const universalLoginRequired = (action: string): IAuthError => ({
+  code: "auth0_universal_login_required",
+  message: `Auth0 handles ${action} on Universal Login: use loginWithRedirect()`,
+});
+
+export class Auth0AuthProvider implements IAuthProvider {
+  private client: Auth0Client;
+  private store: OidcStorage;
+  private sessionOps: OidcSessionOperations;
+  private stateManager = new StateManager();
+  private navigate: (url: string) => void;
+
+  constructor(private config: IAuth0ProviderOptions = auth0ConfigFromEnv()) {
+    this.client = new Auth0Client(config);
+    this.store = new OidcStorage(
+      config.storage ?? defaultWebStorage(),
+      `auth0.${config.clientId}`,
+    );
+    this.sessionOps = new OidcSessionOperations(
+      this.client,
+      this.store,
+      (claims) => mapAuth0User(claims, config.claimsNamespace),
+    );
+    this.navigate = config.navigate ?? defaultNavigate;
+  }
+
+  getState(): IAuthState {
+    return this.stateManager.getState();
+  }
+
+  // Credentials are only ever typed on the Auth0 page
+  async login(): Promise<IAuthSession> {
+    throw universalLoginRequired("sign in");
+  }
+
+  async register(): Promise<IAuthSession> {
+    throw universalLoginRequired("sign up (screenHint: 'signup')");
+  }
+
+  // Redirects to Universal Login; the callback page finishes the flow
+  async loginWithRedirect(options: IAuth0LoginOptions = {}): Promise<string> {
+    const redirectUri =
+      options.redirectTo ?? this.config.redirectUri ?? defaultRedirectTo();
+    if (!redirectUri) {
+      throw new Error("Auth0 login needs a redirectUri outside the browser");
+    }
+    const { verifier, challenge } = await createPkcePair();
+    const transaction: IOidcTransaction = {
+      state: randomUrlSafe(),
+      nonce: randomUrlSafe(),
+      codeVerifier: verifier,
+      redirectUri,
+    };
+    this.store.saveTransaction(transaction);
+
+    const url = this.client.authorizeUrl({
+      redirectUri,
+      state: transaction.state,
+      nonce: transaction.nonce,
+      codeChallenge: challenge,
+      scope: options.scopes?.join(" "),
+      extraParams: {
+        connection: options.connection,
+        screen_hint: options.screenHint,
+        login_hint: options.loginHint,
+        ...options.queryParams,
+      },
+    });
+    this.navigate(url);
+    return url;
+  }
+
+  async signInWithOAuth(
+    provider: OAuthProvider,
+    options: IOAuthOptions = {},
+  ): Promise<IOAuthRedirect> {
+    const url = await this.loginWithRedirect({
+      ...options,
+      connection: auth0Connection(provider),
+    });
+    return { provider, url };
+  }
+
+  async handleOAuthCallback(callbackUrl: string): Promise<IAuthSession> {
+    return this.authenticate(() =>
+      this.sessionOps.exchangeCallback(callbackUrl),
+    );
+  }
+
+  // Local session ends right away; Auth0 clears its own and sends the user
+  // back to logoutReturnTo
+  async logout(): Promise<void> {
+    this.endSession();
+    this.navigate(
+      this.client.logoutUrl(this.config.logoutReturnTo ?? defaultReturnTo()),
+    );
+  }
+
+  async getCurrentUser(): Promise<IUser | null> {
+    return (await this.getCurrentSession())?.user ?? null;
+  }
+
+  // An expired access token is renewed when there is a refresh token
+  async getCurrentSession(): Promise<IAuthSession | null> {
+    const current = this.sessionOps.current();
+    if (current) return current.session;
+    return this.sessionOps.canRefresh() ? this.refreshSession() : null;
+  }
+
+  async refreshSession(): Promise<IAuthSession | null> {
+    try {
+      const refreshed = await this.sessionOps.refresh();
+      if (!refreshed) return null;
+
+      const { user, session } = refreshed;
+      this.stateManager.setState({
+        user,
+        session,
+        isAuthenticated: true,
+        error: null,
+      });
+      return session;
+    } catch (error) {
+      // Revoked, expired or already rotated: the session is over
+      if ((error as IAuthError).code === "invalid_grant") this.endSession();
+      throw error;
+    }
+  }
+
+  // Adopts what another tab stored: a renewed session or none at all
+  async syncSession(): Promise<IAuthSession | null> {
+    const current = this.sessionOps.current();
+    if (current || !this.sessionOps.canRefresh()) {
+      this.stateManager.setState({
+        user: current?.user ?? null,
+        session: current?.session ?? null,
+        isAuthenticated: !!current,
+      });
+    }
+    return current?.session ?? null;
+  }
+
+  // Auth0 emails a change password link (database connections only)
+  async resetPassword(data: IResetPasswordData): Promise<void> {
+    await this.stateManager.track(() => this.client.changePassword(data.email));
+  }
+
+  async updatePassword(): Promise<void> {
+    throw {
+      code: "auth0_update_password_unsupported",
+      message: "Auth0 changes passwords through resetPassword emails",
+    } satisfies IAuthError;
+  }
+
+  onAuthStateChange(callback: (state: IAuthState) => void): () => void {
+    return this.stateManager.addListener(callback);
+  }
+
+  async initialize(): Promise<void> {
+    try {
+      const session = await this.getCurrentSession();
+      this.stateManager.setState({
+        user: session?.user ?? null,
+        session,
+        isLoading: false,
+        isAuthenticated: !!session,
+        error: null,
+      });
+    } catch (error) {
+      this.stateManager.setState({
+        isLoading: false,
+        error: error as IAuthError,
+      });
+    }
+  }
+
+  async cleanup(): Promise<void> {
+    this.stateManager.clearListeners();
+  }
+
+  private endSession(): void {
+    this.store.clearSession();
+    this.stateManager.setState({
+      user: null,
+      session: null,
+      isAuthenticated: false,
+    });
+  }
+
+  // Runs a sign-in flow and mirrors its outcome in the auth state
+  private async authenticate(
+    run: () => Promise<IOidcSignIn>,
+  ): Promise<IAuthSession> {
+    const { session } = await this.stateManager.track(
+      run,
+      ({ user, session }) => ({ user, session, isAuthenticated: true }),
+      { isAuthenticated: false },
+    );
+    return session;
+  }
+}
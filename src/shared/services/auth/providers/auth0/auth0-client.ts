@@ -0,0 +1,180 @@
+// Auth0 Client
+// Single Responsibility: Talk to the Auth0 authentication API
+//
+// Public (SPA) client: no client secret, the code exchange is protected by
+// PKCE and ID tokens are checked against the tenant JWKS
+
+import {
+  verifyJwt,
+  type IJsonWebKey,
+  type IJwtClaims,
+} from "@/shared/services/auth/session";
+import type { IAuthError } from "@/shared/types/auth";
+
+import type {
+  IOidcTokenClient,
+  IOidcTokenResponse,
+} from "../oidc/oidc-session-operations";
+
+export interface IAuth0Config {
+  // Tenant or custom domain, e.g. "my-app.eu.auth0.com"
+  domain: string;
+  clientId: string;
+  // API identifier: without it the access token is opaque
+  audience?: string;
+  scope?: string;
+  // Defaults to routes.auth.callback on the current origin
+  redirectUri?: string;
+  // Where /v2/logout sends the user back; must be an "Allowed Logout URL"
+  logoutReturnTo?: string;
+  // Prefix of the custom claims an Auth0 Action adds (roles, app_metadata)
+  claimsNamespace?: string;
+  // Database connection used by resetPassword
+  connection?: string;
+  fetch?: typeof fetch;
+}
+
+export interface IAuth0AuthorizeParams {
+  redirectUri: string;
+  state: string;
+  nonce: string;
+  codeChallenge: string;
+  scope?: string;
+  extraParams?: Record<string, string | undefined>;
+}
+
+// offline_access is what makes Auth0 return a refresh token
+export const DEFAULT_AUTH0_SCOPE = "openid profile email offline_access";
+
+const JWKS_TTL_MS = 10 * 60 * 1000;
+
+export class Auth0Client implements IOidcTokenClient {
+  private jwks: { keys: IJsonWebKey[]; fetchedAt: number } | null = null;
+
+  constructor(private config: IAuth0Config) {}
+
+  get issuer(): string {
+    return `https://${this.config.domain}/`;
+  }
+
+  authorizeUrl(params: IAuth0AuthorizeParams): string {
+    const query = new URLSearchParams({
+      response_type: "code",
+      client_id: this.config.clientId,
+      redirect_uri: params.redirectUri,
+      scope: params.scope ?? this.config.scope ?? DEFAULT_AUTH0_SCOPE,
+      state: params.state,
+      nonce: params.nonce,
+      code_challenge: params.codeChallenge,
+      code_challenge_method: "S256",
+    });
+    if (this.config.audience) query.set("audience", this.config.audience);
+    Object.entries(params.extraParams ?? {}).forEach(([key, value]) => {
+      if (value !== undefined) query.set(key, value);
+    });
+    return `${this.issuer}authorize?${query}`;
+  }
+
+  logoutUrl(returnTo?: string): string {
+    const query = new URLSearchParams({ client_id: this.config.clientId });
+    if (returnTo) query.set("returnTo", returnTo);
+    return `${this.issuer}v2/logout?${query}`;
+  }
+
+  exchangeCode(
+    code: string,
+    codeVerifier: string,
+    redirectUri: string,
+  ): Promise<IOidcTokenResponse> {
+    return this.post<IOidcTokenResponse>("oauth/token", {
+      grant_type: "authorization_code",
+      client_id: this.config.clientId,
+      code,
+      code_verifier: codeVerifier,
+      redirect_uri: redirectUri,
+    });
+  }
+
+  refresh(refreshToken: string): Promise<IOidcTokenResponse> {
+    return this.post<IOidcTokenResponse>("oauth/token", {
+      grant_type: "refresh_token",
+      client_id: this.config.clientId,
+      refresh_token: refreshToken,
+    });
+  }
+
+  async changePassword(email: string): Promise<void> {
+    await this.post<unknown>("dbconnections/change_password", {
+      client_id: this.config.clientId,
+      email,
+      connection: this.config.connection ?? "Username-Password-Authentication",
+    });
+  }
+
+  // Signature, issuer, audience, expiry and - after a redirect - the nonce
+  async verifyIdToken(idToken: string, nonce?: string): Promise<IJwtClaims> {
+    try {
+      const claims = await verifyJwt(idToken, {
+        keys: await this.loadKeys(),
+        issuer: this.issuer,
+        audience: this.config.clientId,
+        clockToleranceSec: 60,
+      });
+      if (nonce !== undefined && claims.nonce !== nonce) {
+        throw new Error("ID token nonce does not match the login request");
+      }
+      return claims;
+    } catch (error) {
+      throw {
+        code: "invalid_id_token",
+        message: (error as Error).message,
+        details: error,
+      } satisfies IAuthError;
+    }
+  }
+
+  private async loadKeys(): Promise<IJsonWebKey[]> {
+    const now = Date.now();
+    if (this.jwks && now - this.jwks.fetchedAt < JWKS_TTL_MS) {
+      return this.jwks.keys;
+    }
+
+    const response = await this.fetch(`${this.issuer}.well-known/jwks.json`);
+    if (!response.ok) {
+      throw new Error(`JWKS request failed: ${response.status}`);
+    }
+    const { keys } = (await response.json()) as { keys: IJsonWebKey[] };
+    this.jwks = { keys, fetchedAt: now };
+    return keys;
+  }
+
+  // Auth0 errors come back as { error, error_description }
+  private async post<T>(
+    path: string,
+    body: Record<string, string>,
+  ): Promise<T> {
+    const response = await this.fetch(`${this.issuer}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const text = await response.text();
+    const data = text ? JSON.parse(text) : null;
+
+    if (!response.ok) {
+      throw {
+        code: data?.error ?? "auth0_request_failed",
+        message:
+          data?.error_description ??
+          data?.description ??
+          `Auth0 request failed: ${response.status}`,
+        details: data,
+      } satisfies IAuthError;
+    }
+    return data as T;
+  }
+
+  private fetch(input: string, init?: RequestInit): Promise<Response> {
+    return (this.config.fetch ?? fetch)(input, init);
+  }
+}
@@ -0,0 +1,52 @@
+// Auth0 Mappers
+// Single Responsibility: Map Auth0 ID token claims onto IUser
+//
+// Auth0 only puts app_metadata and roles in tokens through an Action, as
+// namespaced claims:
+//   api.idToken.setCustomClaim(`${namespace}roles`, event.authorization.roles)
+//   api.idToken.setCustomClaim(`${namespace}app_metadata`, event.user.app_metadata)
+
+import type { IJwtClaims } from "@/shared/services/auth/session";
+import type { IUser, OAuthProvider } from "@/shared/types/auth";
+
+import { toRoles } from "../oidc/oidc-mappers";
+
+type Metadata = Record<string, unknown>;
+
+// Social connection names that differ from our OAuthProvider ids
+const AUTH0_CONNECTIONS: Partial<Record<OAuthProvider, string>> = {
+  google: "google-oauth2",
+  linkedin_oidc: "linkedin",
+  slack_oidc: "sign-in-with-slack",
+};
+
+export const auth0Connection = (provider: OAuthProvider): string =>
+  AUTH0_CONNECTIONS[provider] ?? provider;
+
+const asMetadata = (value: unknown): Metadata =>
+  value && typeof value === "object" ? (value as Metadata) : {};
+
+// Roles come from the roles claim, falling back to app_metadata.roles/role
+export const mapAuth0User = (claims: IJwtClaims, namespace = ""): IUser => {
+  const custom = (name: string): unknown =>
+    namespace ? claims[`${namespace}${name}`] : undefined;
+  const appMetadata = asMetadata(custom("app_metadata"));
+  const userMetadata = asMetadata(custom("user_metadata"));
+  const roles = toRoles(
+    custom("roles") ?? appMetadata.roles ?? appMetadata.role,
+  );
+
+  return {
+    id: claims.sub ?? "",
+    email: typeof claims.email === "string" ? claims.email : "",
+    name: (claims.name ?? claims.nickname) as string | undefined,
+    avatar: claims.picture as string | undefined,
+    role: roles[0],
+    metadata: {
+      ...userMetadata,
+      roles,
+      app_metadata: appMetadata,
+      email_verified: claims.email_verified,
+    },
+  };
+};
@@ -0,0 +1,271 @@
+// OIDC Auth Provider - SOLID implementation of IAuthProvider
+// Any OpenID Connect issuer (e.g. a company SSO on Keycloak): endpoints come
+// from the discovery document, login is authorization code + PKCE, ID
+// tokens are checked against the JWKS and expired access tokens are renewed
+// with the refresh token (SessionLifecycleManager does it proactively)
+
+import { getEnv } from "@/config/env";
+import { createPkcePair, randomUrlSafe } from "@/shared/services/auth/session";
+import type {
+  IAuthError,
+  IAuthProvider,
+  IAuthSession,
+  IAuthState,
+  IOAuthOptions,
+  IUser,
+} from "@/shared/types/auth";
+
+import { OidcClient, type IOidcConfig } from "./oidc/oidc-client";
+import { mapOidcUser, type IOidcClaimMapping } from "./oidc/oidc-mappers";
+import {
+  OidcSessionOperations,
+  type IOidcSignIn,
+} from "./oidc/oidc-session-operations";
+import {
+  OidcStorage,
+  defaultWebStorage,
+  type WebStorage,
+} from "./oidc/oidc-storage";
+import { defaultRedirectTo } from "./operations/oauth-operations";
+import { StateManager } from "./operations/state-manager";
+
+export interface IOidcProviderOptions extends IOidcConfig {
+  // Where the role and metadata live in the ID token
+  claims?: IOidcClaimMapping;
+  // Defaults to localStorage
+  storage?: WebStorage;
+  // Defaults to window.location.assign
+  navigate?: (url: string) => void;
+}
+
+export interface IOidcLoginOptions extends IOAuthOptions {
+  loginHint?: string;
+  // e.g. "login" to force credentials, "create" for registration
+  prompt?: string;
+}
+
+const oidcConfigFromEnv = (): IOidcProviderOptions => {
+  const env = getEnv();
+  if (!env.NEXT_PUBLIC_OIDC_ISSUER || !env.NEXT_PUBLIC_OIDC_CLIENT_ID) {
+    throw new Error(
+      "OIDC Auth Provider requires NEXT_PUBLIC_OIDC_ISSUER and NEXT_PUBLIC_OIDC_CLIENT_ID",
+    );
+  }
+  return {
+    issuer: env.NEXT_PUBLIC_OIDC_ISSUER,
+    clientId: env.NEXT_PUBLIC_OIDC_CLIENT_ID,
+    claims: { role: env.NEXT_PUBLIC_OIDC_ROLE_CLAIM || undefined },
+    postLogoutRedirectUri:
+      typeof window === "undefined" ? undefined : window.location.origin,
+  };
+};
+
+const defaultNavigate = (url: string): void => {
+  if (typeof window !== "undefined") window.location.assign(url);
+};
+
+const unsupported = (code: string, message: string): IAuthError => ({
+  code,
+  message,
+});
+
+export class OidcAuthProvider implements IAuthProvider {
+  private client: OidcClient;
+  private store: OidcStorage;
+  private sessionOps: OidcSessionOperations;
+  private stateManager = new StateManager();
+  private navigate: (url: string) => void;
+
+  constructor(private config: IOidcProviderOptions = oidcConfigFromEnv()) {
+    this.client = new OidcClient(config);
+    this.store = new OidcStorage(
+      config.storage ?? defaultWebStorage(),
+      `oidc.${config.clientId}`,
+    );
+    this.sessionOps = new OidcSessionOperations(
+      this.client,
+      this.store,
+      (claims) => mapOidcUser(claims, config.claims),
+    );
+    this.navigate = config.navigate ?? defaultNavigate;
+  }
+
+  getState(): IAuthState {
+    return this.stateManager.getState();
+  }
+
+  // Credentials are only ever typed on the issuer's login page
+  async login(): Promise<IAuthSession> {
+    throw unsupported(
+      "oidc_redirect_required",
+      "OIDC sign-in happens on the issuer: use loginWithRedirect()",
+    );
+  }
+
+  async register(): Promise<IAuthSession> {
+    throw unsupported(
+      "oidc_redirect_required",
+      "OIDC sign-up happens on the issuer: use loginWithRedirect({ prompt: 'create' })",
+    );
+  }
+
+  // Redirects to the issuer; the callback page finishes the flow
+  async loginWithRedirect(options: IOidcLoginOptions = {}): Promise<string> {
+    const redirectUri =
+      options.redirectTo ?? this.config.redirectUri ?? defaultRedirectTo();
+    if (!redirectUri) {
+      throw new Error("OIDC login needs a redirectUri outside the browser");
+    }
+    const { verifier, challenge } = await createPkcePair();
+    const state = randomUrlSafe();
+    const nonce = randomUrlSafe();
+
+    // Discovery first: a failure must not leave a dangling transaction
+    const url = await this.client.authorizeUrl({
+      redirectUri,
+      state,
+      nonce,
+      codeChallenge: challenge,
+      scope: options.scopes?.join(" "),
+      extraParams: {
+        login_hint: options.loginHint,
+        prompt: options.prompt,
+        ...options.queryParams,
+      },
+    });
+    this.store.saveTransaction({
+      state,
+      nonce,
+      codeVerifier: verifier,
+      redirectUri,
+    });
+    this.navigate(url);
+    return url;
+  }
+
+  async handleOAuthCallback(callbackUrl: string): Promise<IAuthSession> {
+    return this.authenticate(() =>
+      this.sessionOps.exchangeCallback(callbackUrl),
+    );
+  }
+
+  // Ends the local session, then the issuer's one when it supports
+  // RP-initiated logout
+  async logout(): Promise<void> {
+    const idToken = this.store.loadSession()?.idToken;
+    this.endSession();
+    const url = await this.client.endSessionUrl(idToken);
+    if (url) this.navigate(url);
+  }
+
+  async getCurrentUser(): Promise<IUser | null> {
+    return (await this.getCurrentSession())?.user ?? null;
+  }
+
+  // An expired access token is renewed when there is a refresh token
+  async getCurrentSession(): Promise<IAuthSession | null> {
+    const current = this.sessionOps.current();
+    if (current) return current.session;
+    return this.sessionOps.canRefresh() ? this.refreshSession() : null;
+  }
+
+  async refreshSession(): Promise<IAuthSession | null> {
+    try {
+      const refreshed = await this.sessionOps.refresh();
+      if (!refreshed) return null;
+
+      this.signedIn(refreshed);
+      return refreshed.session;
+    } catch (error) {
+      // Revoked, expired or SSO session ended: the session is over
+      if ((error as IAuthError).code === "invalid_grant") this.endSession();
+      throw error;
+    }
+  }
+
+  // Adopts what another tab stored: a renewed session or none at all
+  async syncSession(): Promise<IAuthSession | null> {
+    const current = this.sessionOps.current();
+    if (current) {
+      this.signedIn(current);
+    } else if (!this.sessionOps.canRefresh()) {
+      this.stateManager.setState({
+        user: null,
+        session: null,
+        isAuthenticated: false,
+      });
+    }
+    return current?.session ?? null;
+  }
+
+  // Password flows belong to the issuer's account console
+  async resetPassword(): Promise<void> {
+    throw unsupported(
+      "oidc_password_unsupported",
+      "Passwords are managed by the OIDC issuer",
+    );
+  }
+
+  async updatePassword(): Promise<void> {
+    throw unsupported(
+      "oidc_password_unsupported",
+      "Passwords are managed by the OIDC issuer",
+    );
+  }
+
+  onAuthStateChange(callback: (state: IAuthState) => void): () => void {
+    return this.stateManager.addListener(callback);
+  }
+
+  async initialize(): Promise<void> {
+    try {
+      const session = await this.getCurrentSession();
+      this.stateManager.setState({
+        user: session?.user ?? null,
+        session,
+        isLoading: false,
+        isAuthenticated: !!session,
+        error: null,
+      });
+    } catch (error) {
+      this.stateManager.setState({
+        isLoading: false,
+        error: error as IAuthError,
+      });
+    }
+  }
+
+  async cleanup(): Promise<void> {
+    this.stateManager.clearListeners();
+  }
+
+  private signedIn({ user, session }: IOidcSignIn): void {
+    this.stateManager.setState({
+      user,
+      session,
+      isAuthenticated: true,
+      error: null,
+    });
+  }
+
+  private endSession(): void {
+    this.store.clearSession();
+    this.stateManager.setState({
+      user: null,
+      session: null,
+      isAuthenticated: false,
+    });
+  }
+
+  // Runs a sign-in flow and mirrors its outcome in the auth state
+  private async authenticate(
+    run: () => Promise<IOidcSignIn>,
+  ): Promise<IAuthSession> {
+    const { session } = await this.stateManager.track(
+      run,
+      ({ user, session }) => ({ user, session, isAuthenticated: true }),
+      { isAuthenticated: false },
+    );
+    return session;
+  }
+}
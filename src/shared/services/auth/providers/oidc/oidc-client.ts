@@ -0,0 +1,234 @@
+// OIDC Client
+// Single Responsibility: Talk to any OpenID Connect issuer (Keycloak,
+// Okta, Entra ID, Authentik...) through its discovery document
+//
+// Public client: the code exchange is protected by PKCE and ID tokens are
+// checked against the JWKS the issuer advertises
+
+import {
+  JwtError,
+  verifyJwt,
+  type IJsonWebKey,
+  type IJwtClaims,
+} from "@/shared/services/auth/session";
+import type { IAuthError } from "@/shared/types/auth";
+
+import type {
+  IOidcTokenClient,
+  IOidcTokenResponse,
+} from "./oidc-session-operations";
+
+export interface IOidcConfig {
+  // e.g. "https://sso.example.com/realms/main"
+  issuer: string;
+  clientId: string;
+  scope?: string;
+  // Defaults to routes.auth.callback on the current origin
+  redirectUri?: string;
+  // Registered "post logout redirect URI"
+  postLogoutRedirectUri?: string;
+  fetch?: typeof fetch;
+}
+
+// The fields of .well-known/openid-configuration we rely on
+export interface IOidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  end_session_endpoint?: string;
+  userinfo_endpoint?: string;
+  code_challenge_methods_supported?: string[];
+}
+
+export interface IOidcAuthorizeParams {
+  redirectUri: string;
+  state: string;
+  nonce: string;
+  codeChallenge: string;
+  scope?: string;
+  extraParams?: Record<string, string | undefined>;
+}
+
+export const DEFAULT_OIDC_SCOPE = "openid profile email";
+
+const JWKS_TTL_MS = 10 * 60 * 1000;
+
+const withoutTrailingSlash = (url: string): string => url.replace(/\/+$/, "");
+
+export class OidcClient implements IOidcTokenClient {
+  private discovery: Promise<IOidcDiscovery> | null = null;
+  private jwks: { keys: IJsonWebKey[]; fetchedAt: number } | null = null;
+
+  constructor(private config: IOidcConfig) {}
+
+  // Fetched once; a failed request is retried on the next call
+  discover(): Promise<IOidcDiscovery> {
+    this.discovery ??= this.fetchDiscovery().catch((error) => {
+      this.discovery = null;
+      throw error;
+    });
+    return this.discovery;
+  }
+
+  async authorizeUrl(params: IOidcAuthorizeParams): Promise<string> {
+    const { authorization_endpoint } = await this.discover();
+    const url = new URL(authorization_endpoint);
+    const query = {
+      response_type: "code",
+      client_id: this.config.clientId,
+      redirect_uri: params.redirectUri,
+      scope: params.scope ?? this.config.scope ?? DEFAULT_OIDC_SCOPE,
+      state: params.state,
+      nonce: params.nonce,
+      code_challenge: params.codeChallenge,
+      code_challenge_method: "S256",
+      ...params.extraParams,
+    };
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined) url.searchParams.set(key, value);
+    });
+    return url.toString();
+  }
+
+  // RP-initiated logout; null when the issuer has no end_session_endpoint
+  async endSessionUrl(idTokenHint?: string): Promise<string | null> {
+    const { end_session_endpoint } = await this.discover();
+    if (!end_session_endpoint) return null;
+
+    const url = new URL(end_session_endpoint);
+    url.searchParams.set("client_id", this.config.clientId);
+    if (idTokenHint) url.searchParams.set("id_token_hint", idTokenHint);
+    if (this.config.postLogoutRedirectUri) {
+      url.searchParams.set(
+        "post_logout_redirect_uri",
+        this.config.postLogoutRedirectUri,
+      );
+    }
+    return url.toString();
+  }
+
+  exchangeCode(
+    code: string,
+    codeVerifier: string,
+    redirectUri: string,
+  ): Promise<IOidcTokenResponse> {
+    return this.requestToken({
+      grant_type: "authorization_code",
+      client_id: this.config.clientId,
+      code,
+      code_verifier: codeVerifier,
+      redirect_uri: redirectUri,
+    });
+  }
+
+  refresh(refreshToken: string): Promise<IOidcTokenResponse> {
+    return this.requestToken({
+      grant_type: "refresh_token",
+      client_id: this.config.clientId,
+      refresh_token: refreshToken,
+    });
+  }
+
+  // Signature, issuer, audience, expiry and - after a redirect - the nonce
+  async verifyIdToken(idToken: string, nonce?: string): Promise<IJwtClaims> {
+    try {
+      const claims = await this.verifyWithJwks(idToken);
+      if (nonce !== undefined && claims.nonce !== nonce) {
+        throw new Error("ID token nonce does not match the login request");
+      }
+      return claims;
+    } catch (error) {
+      throw {
+        code: "invalid_id_token",
+        message: (error as Error).message,
+        details: error,
+      } satisfies IAuthError;
+    }
+  }
+
+  // An unknown `kid` usually means the issuer rotated its keys: reload once
+  private async verifyWithJwks(idToken: string): Promise<IJwtClaims> {
+    const { issuer } = await this.discover();
+    const verify = async (keys: IJsonWebKey[]): Promise<IJwtClaims> =>
+      verifyJwt(idToken, {
+        keys,
+        issuer,
+        audience: this.config.clientId,
+        clockToleranceSec: 60,
+      });
+
+    try {
+      return await verify(await this.loadKeys());
+    } catch (error) {
+      if (!(error instanceof JwtError) || error.code !== "key_not_found") {
+        throw error;
+      }
+      return verify(await this.loadKeys(true));
+    }
+  }
+
+  private async fetchDiscovery(): Promise<IOidcDiscovery> {
+    const issuer = withoutTrailingSlash(this.config.issuer);
+    const response = await this.fetch(
+      `${issuer}/.well-known/openid-configuration`,
+    );
+    if (!response.ok) {
+      throw new Error(`OIDC discovery failed: ${response.status}`);
+    }
+    const discovery = (await response.json()) as IOidcDiscovery;
+
+    // Discovery spec: the document must be for the issuer we asked
+    if (withoutTrailingSlash(discovery.issuer) !== issuer) {
+      throw new Error(
+        `OIDC discovery issuer '${discovery.issuer}' does not match '${this.config.issuer}'`,
+      );
+    }
+    return discovery;
+  }
+
+  private async loadKeys(force = false): Promise<IJsonWebKey[]> {
+    const now = Date.now();
+    if (!force && this.jwks && now - this.jwks.fetchedAt < JWKS_TTL_MS) {
+      return this.jwks.keys;
+    }
+
+    const { jwks_uri } = await this.discover();
+    const response = await this.fetch(jwks_uri);
+    if (!response.ok) {
+      throw new Error(`JWKS request failed: ${response.status}`);
+    }
+    const { keys } = (await response.json()) as { keys: IJsonWebKey[] };
+    this.jwks = { keys, fetchedAt: now };
+    return keys;
+  }
+
+  // Token requests are form encoded (RFC 6749); errors come back as
+  // { error, error_description }
+  private async requestToken(
+    body: Record<string, string>,
+  ): Promise<IOidcTokenResponse> {
+    const { token_endpoint } = await this.discover();
+    const response = await this.fetch(token_endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams(body).toString(),
+    });
+    const data = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      throw {
+        code: data?.error ?? "oidc_request_failed",
+        message:
+          data?.error_description ??
+          `OIDC token request failed: ${response.status}`,
+        details: data,
+      } satisfies IAuthError;
+    }
+    return data as IOidcTokenResponse;
+  }
+
+  private fetch(input: string, init?: RequestInit): Promise<Response> {
+    return (this.config.fetch ?? fetch)(input, init);
+  }
+}
@@ -0,0 +1,88 @@
+// OIDC Mappers
+// Single Responsibility: Map ID token claims onto IUser/IAuthSession
+//
+// Which claims hold the role and the metadata is configurable, since every
+// issuer puts them somewhere else, e.g. Keycloak:
+//   { role: "realm_access.roles", metadata: ["preferred_username", "groups"] }
+
+import type { IJwtClaims } from "@/shared/services/auth/session";
+import type { IAuthSession, IUser } from "@/shared/types/auth";
+
+import type { IOidcStoredSession } from "./oidc-storage";
+
+export interface IOidcClaimMapping {
+  // Dot paths into the ID token claims
+  role?: string;
+  name?: string;
+  email?: string;
+  avatar?: string;
+  // Copied to IUser.metadata under their path
+  metadata?: string[];
+}
+
+const DEFAULT_CLAIMS = {
+  role: "roles",
+  name: "name",
+  email: "email",
+  avatar: "picture",
+};
+
+// "realm_access.roles" -> claims.realm_access.roles; a claim whose name
+// contains dots (namespaced URLs) is matched as a whole first
+export const readClaim = (claims: IJwtClaims, path: string): unknown => {
+  if (path in claims) return claims[path];
+  return path
+    .split(".")
+    .reduce<unknown>(
+      (value, key) =>
+        value && typeof value === "object"
+          ? (value as Record<string, unknown>)[key]
+          : undefined,
+      claims,
+    );
+};
+
+export const toRoles = (value: unknown): string[] => {
+  if (Array.isArray(value)) {
+    return value.filter((role): role is string => typeof role === "string");
+  }
+  return typeof value === "string" ? [value] : [];
+};
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === "string" ? value : undefined;
+
+// IUser.role is the first role; metadata.roles keeps all of them
+export const mapOidcUser = (
+  claims: IJwtClaims,
+  mapping: IOidcClaimMapping = {},
+): IUser => {
+  const paths = { ...DEFAULT_CLAIMS, ...mapping };
+  const roles = toRoles(readClaim(claims, paths.role));
+  const metadata = Object.fromEntries(
+    (mapping.metadata ?? []).map((path) => [path, readClaim(claims, path)]),
+  );
+
+  return {
+    id: claims.sub ?? "",
+    email: asString(readClaim(claims, paths.email)) ?? "",
+    name: asString(readClaim(claims, paths.name)),
+    avatar: asString(readClaim(claims, paths.avatar)),
+    role: roles[0],
+    metadata: {
+      ...metadata,
+      roles,
+      email_verified: claims.email_verified,
+    },
+  };
+};
+
+export const mapOidcSession = (
+  stored: IOidcStoredSession,
+  user: IUser,
+): IAuthSession => ({
+  user,
+  token: stored.accessToken,
+  refreshToken: stored.refreshToken,
+  expiresAt: new Date(stored.expiresAt * 1000),
+});
@@ -0,0 +1,147 @@
+// OIDC Session Operations
+// Single Responsibility: Turn a login callback or a refresh token into a
+// verified, stored session
+//
+// Shared by the OIDC providers (generic OIDC, Auth0): each one brings its
+// token client and its claims -> IUser mapping
+
+import { decodeJwt, type IJwtClaims } from "@/shared/services/auth/session";
+import type { IAuthError, IAuthSession, IUser } from "@/shared/types/auth";
+
+import { mapOidcSession } from "./oidc-mappers";
+import type {
+  IOidcStoredSession,
+  IOidcTransaction,
+  OidcStorage,
+} from "./oidc-storage";
+
+export interface IOidcTokenResponse {
+  access_token: string;
+  id_token?: string;
+  refresh_token?: string;
+  expires_in: number;
+  token_type: string;
+  scope?: string;
+}
+
+export interface IOidcTokenClient {
+  exchangeCode(
+    code: string,
+    codeVerifier: string,
+    redirectUri: string,
+  ): Promise<IOidcTokenResponse>;
+  refresh(refreshToken: string): Promise<IOidcTokenResponse>;
+  // Rejects with an IAuthError ("invalid_id_token")
+  verifyIdToken(idToken: string, nonce?: string): Promise<IJwtClaims>;
+}
+
+export interface IOidcSignIn {
+  user: IUser;
+  session: IAuthSession;
+}
+
+export class OidcSessionOperations {
+  constructor(
+    private client: IOidcTokenClient,
+    private store: OidcStorage,
+    private mapUser: (claims: IJwtClaims) => IUser,
+  ) {}
+
+  async exchangeCallback(callbackUrl: string): Promise<IOidcSignIn> {
+    const { code, transaction } = this.readCallback(callbackUrl);
+    const tokens = await this.client.exchangeCode(
+      code,
+      transaction.codeVerifier,
+      transaction.redirectUri,
+    );
+    return this.saveTokens(tokens, { nonce: transaction.nonce });
+  }
+
+  // null when there is no refresh token to use
+  async refresh(): Promise<IOidcSignIn | null> {
+    const previous = this.store.loadSession();
+    if (!previous?.refreshToken) return null;
+
+    const tokens = await this.client.refresh(previous.refreshToken);
+    return this.saveTokens(tokens, { previous });
+  }
+
+  // Stored session while its access token is valid; the ID token was
+  // verified when it was saved
+  current(): IOidcSignIn | null {
+    const stored = this.store.loadSession();
+    if (!stored || stored.expiresAt * 1000 <= Date.now()) return null;
+    return this.toSignIn(stored, decodeJwt(stored.idToken).claims);
+  }
+
+  canRefresh(): boolean {
+    return !!this.store.loadSession()?.refreshToken;
+  }
+
+  // The state must match the transaction saved before the redirect (CSRF)
+  private readCallback(callbackUrl: string): {
+    code: string;
+    transaction: IOidcTransaction;
+  } {
+    const params = new URL(callbackUrl).searchParams;
+    const providerError = params.get("error");
+    if (providerError) {
+      throw {
+        code: providerError,
+        message: params.get("error_description") || providerError,
+      } satisfies IAuthError;
+    }
+
+    const state = params.get("state");
+    const transaction = state ? this.store.takeTransaction(state) : null;
+    if (!transaction) {
+      throw {
+        code: "invalid_oauth_state",
+        message: "OAuth callback does not match a pending login",
+      } satisfies IAuthError;
+    }
+
+    const code = params.get("code");
+    if (!code) {
+      throw {
+        code: "missing_oauth_code",
+        message: "OAuth callback has no authorization code",
+      } satisfies IAuthError;
+    }
+    return { code, transaction };
+  }
+
+  // A refresh may omit the ID token or the (non-rotating) refresh token
+  private async saveTokens(
+    tokens: IOidcTokenResponse,
+    { nonce, previous }: { nonce?: string; previous?: IOidcStoredSession },
+  ): Promise<IOidcSignIn> {
+    const idToken = tokens.id_token ?? previous?.idToken;
+    if (!idToken) {
+      throw {
+        code: "missing_id_token",
+        message: "No ID token was returned: request the openid scope",
+      } satisfies IAuthError;
+    }
+    const claims = tokens.id_token
+      ? await this.client.verifyIdToken(tokens.id_token, nonce)
+      : decodeJwt(idToken).claims;
+
+    const stored: IOidcStoredSession = {
+      accessToken: tokens.access_token,
+      idToken,
+      refreshToken: tokens.refresh_token ?? previous?.refreshToken,
+      expiresAt: Math.floor(Date.now() / 1000) + tokens.expires_in,
+    };
+    this.store.saveSession(stored);
+    return this.toSignIn(stored, claims);
+  }
+
+  private toSignIn(
+    stored: IOidcStoredSession,
+    claims: IJwtClaims,
+  ): IOidcSignIn {
+    const user = this.mapUser(claims);
+    return { user, session: mapOidcSession(stored, user) };
+  }
+}
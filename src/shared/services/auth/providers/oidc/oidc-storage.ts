@@ -0,0 +1,85 @@
+// OIDC Storage
+// Single Responsibility: Persist the login transaction and the token set
+//
+// Keys are scoped by a namespace (provider + client id) so several
+// providers and apps can share an origin
+
+export type WebStorage = Pick<Storage, "getItem" | "setItem" | "removeItem">;
+
+// PKCE verifier and nonce kept between /authorize and the callback
+export interface IOidcTransaction {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  redirectUri: string;
+}
+
+export interface IOidcStoredSession {
+  accessToken: string;
+  idToken: string;
+  refreshToken?: string;
+  // Unix seconds
+  expiresAt: number;
+}
+
+// Server rendering has no localStorage: nothing survives the request
+const memoryStorage = (): WebStorage => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: (key) => void items.delete(key),
+  };
+};
+
+export const defaultWebStorage = (): WebStorage =>
+  typeof window === "undefined" ? memoryStorage() : window.localStorage;
+
+export class OidcStorage {
+  constructor(
+    private storage: WebStorage,
+    // e.g. "auth0.<client id>"
+    private namespace: string,
+  ) {}
+
+  saveTransaction(transaction: IOidcTransaction): void {
+    this.write("transaction", transaction);
+  }
+
+  // Single use: a callback can only be exchanged once
+  takeTransaction(state: string): IOidcTransaction | null {
+    const transaction = this.read<IOidcTransaction>("transaction");
+    this.storage.removeItem(this.key("transaction"));
+    return transaction?.state === state ? transaction : null;
+  }
+
+  saveSession(session: IOidcStoredSession): void {
+    this.write("session", session);
+  }
+
+  loadSession(): IOidcStoredSession | null {
+    return this.read<IOidcStoredSession>("session");
+  }
+
+  clearSession(): void {
+    this.storage.removeItem(this.key("session"));
+  }
+
+  private key(name: string): string {
+    return `${this.namespace}.${name}`;
+  }
+
+  private write(name: string, value: unknown): void {
+    this.storage.setItem(this.key(name), JSON.stringify(value));
+  }
+
+  private read<T>(name: string): T | null {
+    const raw = this.storage.getItem(this.key(name));
+    if (!raw) return null;
+    try {
+      return JSON.parse(raw) as T;
+    } catch {
+      return null;
+    }
+  }
+}
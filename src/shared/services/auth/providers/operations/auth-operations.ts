@@ -1,29 +1,29 @@
 // Authentication Operations
-// Single Responsibility: Handle login, register, and logout
+// Single Responsibility: Handle login, register, passwordless and logout
 
 import type {
   SupabaseClient,
-  User as SupabaseUser,
-  Session as SupabaseSession,
   AuthError as SupabaseAuthError,
 } from "@supabase/supabase-js";
 
 import type {
   ILoginCredentials,
+  OtpType,
   IRegisterCredentials,
   IAuthSession,
   IUser,
   IAuthError,
 } from "@/shared/types/auth";
 
+import type { ISupabaseMappers } from "./mappers";
+import { defaultRedirectTo } from "./oauth-operations";
+
 export class AuthOperations {
   constructor(private client: SupabaseClient) {}
 
   async login(
     credentials: ILoginCredentials,
-    mapUser: (user: SupabaseUser) => IUser,
-    mapSession: (session: SupabaseSession) => IAuthSession,
-    mapError: (error: SupabaseAuthError) => IAuthError,
+    { mapUser, mapSession, mapError }: ISupabaseMappers,
   ): Promise<{ user: IUser; session: IAuthSession }> {
     const { data, error } = await this.client.auth.signInWithPassword({
       email: credentials.email,
@@ -46,9 +46,7 @@ export class AuthOperations {
 
   async register(
     credentials: IRegisterCredentials,
-    mapUser: (user: SupabaseUser) => IUser,
-    mapSession: (session: SupabaseSession) => IAuthSession,
-    mapError: (error: SupabaseAuthError) => IAuthError,
+    { mapUser, mapSession, mapError }: ISupabaseMappers,
   ): Promise<{ user: IUser; session: IAuthSession }> {
     const { data, error } = await this.client.auth.signUp({
       email: credentials.email,
@@ -75,6 +73,47 @@ export class AuthOperations {
     };
   }
 
+  async sendMagicLink(
+    email: string,
+    redirectTo: string | undefined,
+    mapError: (error: SupabaseAuthError) => IAuthError,
+  ): Promise<void> {
+    const { error } = await this.client.auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: redirectTo ?? defaultRedirectTo() },
+    });
+
+    if (error) {
+      throw mapError(error);
+    }
+  }
+
+  async verifyOtp(
+    email: string,
+    token: string,
+    type: OtpType,
+    mappers: ISupabaseMappers,
+  ): Promise<{ user: IUser; session: IAuthSession }> {
+    const { data, error } = await this.client.auth.verifyOtp({
+      email,
+      token,
+      type,
+    });
+
+    if (error) {
+      throw mappers.mapError(error);
+    }
+
+    if (!data.session || !data.user) {
+      throw new Error("OTP verification failed - no session created");
+    }
+
+    return {
+      user: mappers.mapUser(data.user),
+      session: mappers.mapSession(data.session),
+    };
+  }
+
   async logout(
     mapError: (error: SupabaseAuthError) => IAuthError,
   ): Promise<void> {
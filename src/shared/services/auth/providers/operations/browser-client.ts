@@ -0,0 +1,41 @@
+// Browser Client
+// Single Responsibility: Build the Supabase client the auth provider uses
+
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+
+import { getEnv } from "@/config/env";
+import { sessionCookieAuthOptions } from "@/shared/services/auth/session";
+
+// PKCE so the callback can exchange the code; the callback page does
+// the exchange itself, so the client must not consume the URL first.
+// The session lives in the cookie the middleware verifies and refreshes;
+// in the browser SessionLifecycleManager refreshes it, one tab at a time
+export const createBrowserAuthClient = (): SupabaseClient => {
+  const env = getEnv();
+  return createClient(
+    env.NEXT_PUBLIC_SUPABASE_URL,
+    env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
+    {
+      auth: {
+        flowType: "pkce",
+        detectSessionInUrl: false,
+        autoRefreshToken: false,
+        ...sessionCookieAuthOptions,
+      },
+    },
+  );
+};
+
+// Acts as the signed-in user for data calls (RLS, RPCs) without a session
+// of its own: the auth client above stays the only one that refreshes it
+export const createUserClient = (accessToken: string): SupabaseClient => {
+  const env = getEnv();
+  return createClient(
+    env.NEXT_PUBLIC_SUPABASE_URL,
+    env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
+    {
+      global: { headers: { Authorization: `Bearer ${accessToken}` } },
+      auth: { persistSession: false, autoRefreshToken: false },
+    },
+  );
+};
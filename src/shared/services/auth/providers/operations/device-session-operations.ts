@@ -0,0 +1,150 @@
+// Device Session Operations
+// Single Responsibility: List and revoke the user's sessions (devices)
+//
+// Supabase keeps sessions in auth.sessions, out of reach of the client
+// API: listing and revoking go through the RPCs of migration
+// database/migrations/010_user_sessions.sql
+
+import type {
+  PostgrestError,
+  SupabaseClient,
+  AuthError as SupabaseAuthError,
+} from "@supabase/supabase-js";
+
+import {
+  SESSION_REVOKED_ERROR,
+  type IActiveSession,
+  type IAuthError,
+} from "@/shared/types/auth";
+
+import type { StateManager } from "./state-manager";
+
+interface IActiveSessionRow {
+  id: string;
+  device: string | null;
+  user_agent: string | null;
+  ip: string | null;
+  created_at: string;
+  last_seen_at: string;
+  is_current: boolean;
+}
+
+// First match wins: Edge and Opera also claim to be Chrome, Chrome to be
+// Safari
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\//, "Opera"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad/, "iOS"],
+  [/Android/, "Android"],
+  [/CrOS/, "ChromeOS"],
+  [/Mac OS X/, "macOS"],
+  [/Windows/, "Windows"],
+  [/Linux/, "Linux"],
+];
+
+const match = (table: [RegExp, string][], value: string): string | null =>
+  table.find(([pattern]) => pattern.test(value))?.[1] ?? null;
+
+// "Chrome on macOS"; null when the user agent tells nothing useful
+export const describeDevice = (
+  userAgent: string | null | undefined,
+): string | null => {
+  if (!userAgent) return null;
+  const browser = match(BROWSERS, userAgent);
+  const system = match(SYSTEMS, userAgent);
+  return browser && system ? `${browser} on ${system}` : (browser ?? system);
+};
+
+const mapRow = (row: IActiveSessionRow): IActiveSession => ({
+  id: row.id,
+  device: row.device ?? describeDevice(row.user_agent),
+  userAgent: row.user_agent,
+  ip: row.ip,
+  createdAt: new Date(row.created_at),
+  lastSeenAt: new Date(row.last_seen_at),
+  current: row.is_current,
+});
+
+const mapRpcError = (error: PostgrestError): IAuthError => ({
+  code: error.code || "session_rpc_failed",
+  message: error.message,
+  details: error,
+});
+
+export class DeviceSessionOperations {
+  constructor(
+    private client: SupabaseClient,
+    private stateManager: StateManager,
+    private mapError: (error: SupabaseAuthError) => IAuthError,
+  ) {}
+
+  // Records device, IP and last-seen on the current session. Failures are
+  // ignored (e.g. the RPCs are not installed), except a revoked session,
+  // which is signed out here
+  async touch(): Promise<void> {
+    const device =
+      typeof navigator === "undefined"
+        ? null
+        : describeDevice(navigator.userAgent);
+    const { data, error } = await this.client.rpc("touch_session", { device });
+    if (!error && data === false) await this.endCurrentSession();
+  }
+
+  async list(): Promise<IActiveSession[]> {
+    await this.touch();
+    // This session may just have turned out to be revoked
+    if (!this.stateManager.getState().session) return [];
+
+    const { data, error } = await this.client.rpc("list_active_sessions");
+
+    if (error) {
+      throw mapRpcError(error);
+    }
+
+    return (data as IActiveSessionRow[]).map(mapRow);
+  }
+
+  async revoke(sessionId: string): Promise<void> {
+    const { data: wasCurrent, error } = await this.client.rpc(
+      "revoke_session",
+      { session_id: sessionId },
+    );
+
+    if (error) {
+      throw mapRpcError(error);
+    }
+
+    if (wasCurrent) await this.endCurrentSession();
+  }
+
+  // Supabase revokes every session of the user but this one
+  async revokeOthers(): Promise<void> {
+    const { error } = await this.client.auth.signOut({ scope: "others" });
+
+    if (error) {
+      throw this.mapError(error);
+    }
+  }
+
+  // The state change comes first: the lifecycle manager reads the error to
+  // tell the other tabs why the session ended. The local sign-out then
+  // clears the cookie without calling Supabase again
+  private async endCurrentSession(): Promise<void> {
+    this.stateManager.setState({
+      user: null,
+      session: null,
+      isAuthenticated: false,
+      error: {
+        code: SESSION_REVOKED_ERROR,
+        message: "This session was revoked",
+      },
+    });
+    await this.client.auth.signOut({ scope: "local" });
+  }
+}
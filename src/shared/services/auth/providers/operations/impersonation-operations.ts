@@ -0,0 +1,141 @@
+// Impersonation Operations
+// Single Responsibility: Swap the browser session for an impersonated one
+// and back
+//
+// The impersonation API (routes.api.admin.impersonation) issues the
+// customer's session and audits it; the admin's refresh token waits in
+// localStorage, shared by the tabs like the session cookie, until stop
+
+import type {
+  AuthResponse,
+  SupabaseClient,
+  Session as SupabaseSession,
+  AuthError as SupabaseAuthError,
+} from "@supabase/supabase-js";
+
+import { routes } from "@/config/routes";
+import type { IAuthError, IAuthSession } from "@/shared/types/auth";
+
+type OriginStorage = Pick<Storage, "getItem" | "setItem" | "removeItem">;
+
+export interface IImpersonationOptions {
+  storage?: OriginStorage;
+  fetch?: typeof fetch;
+}
+
+interface IImpersonationTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+const ORIGIN_KEY = "auth-impersonation-origin";
+
+const defaultStorage = (): OriginStorage | null =>
+  typeof localStorage === "undefined" ? null : localStorage;
+
+// Passwords stay the customer's: an impersonating admin cannot change or
+// reset them. Fails early here; the database refuses the change anyway
+// (009_impersonation_restrictions)
+export const assertNotImpersonating = (session: IAuthSession | null): void => {
+  if (session?.impersonator) {
+    throw {
+      code: "impersonation_forbidden",
+      message: "Not allowed while impersonating a user",
+    } satisfies IAuthError;
+  }
+};
+
+export class ImpersonationOperations {
+  private storage: OriginStorage | null;
+  private fetch: typeof fetch;
+
+  constructor(
+    private client: SupabaseClient,
+    private mapSession: (session: SupabaseSession) => IAuthSession,
+    private mapError: (error: SupabaseAuthError) => IAuthError,
+    options: IImpersonationOptions = {},
+  ) {
+    this.storage = options.storage ?? defaultStorage();
+    // Unbound, window.fetch throws "Illegal invocation"
+    this.fetch =
+      options.fetch ?? ((...args): Promise<Response> => fetch(...args));
+  }
+
+  async start(userId: string, reason: string): Promise<IAuthSession> {
+    const origin = await this.currentSession();
+    const tokens = (await this.request("POST", origin.access_token, {
+      userId,
+      reason,
+    })) as IImpersonationTokens;
+
+    this.storage?.setItem(ORIGIN_KEY, origin.refresh_token);
+    return this.adopt(
+      this.client.auth.setSession({
+        access_token: tokens.accessToken,
+        refresh_token: tokens.refreshToken,
+      }),
+    );
+  }
+
+  // Back to the admin's own session; signed out when it cannot be restored
+  async stop(): Promise<IAuthSession | null> {
+    const current = await this.currentSession();
+    await this.request("DELETE", current.access_token);
+
+    const origin = this.storage?.getItem(ORIGIN_KEY);
+    this.storage?.removeItem(ORIGIN_KEY);
+    if (!origin) {
+      await this.client.auth.signOut({ scope: "local" });
+      return null;
+    }
+    return this.adopt(
+      this.client.auth.refreshSession({ refresh_token: origin }),
+    ).catch(async (error) => {
+      await this.client.auth.signOut({ scope: "local" });
+      throw error;
+    });
+  }
+
+  private async currentSession(): Promise<SupabaseSession> {
+    const { data } = await this.client.auth.getSession();
+    if (!data.session) throw this.noSession();
+    return data.session;
+  }
+
+  private async adopt(issued: Promise<AuthResponse>): Promise<IAuthSession> {
+    const { data, error } = await issued;
+    if (error) throw this.mapError(error);
+    if (!data.session) throw this.noSession();
+    return this.mapSession(data.session);
+  }
+
+  private async request(
+    method: "POST" | "DELETE",
+    token: string,
+    body?: Record<string, string>,
+  ): Promise<unknown> {
+    const response = await this.fetch(routes.api.admin.impersonation, {
+      method,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        "Content-Type": "application/json",
+      },
+      body: body && JSON.stringify(body),
+    });
+    const payload = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      throw {
+        code: payload.code ?? "impersonation_failed",
+        message: payload.message ?? "Impersonation request failed",
+        details: payload,
+      } satisfies IAuthError;
+    }
+
+    return payload;
+  }
+
+  private noSession(): IAuthError {
+    return { code: "no_session", message: "No signed-in session" };
+  }
+}
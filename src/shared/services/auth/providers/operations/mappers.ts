@@ -0,0 +1,115 @@
+// Supabase Auth Mappers
+// Single Responsibility: Convert Supabase auth types to the app's auth types
+
+import type {
+  User as SupabaseUser,
+  Session as SupabaseSession,
+  AuthError as SupabaseAuthError,
+  UserIdentity as SupabaseIdentity,
+} from "@supabase/supabase-js";
+
+import { decodeJwt } from "@/shared/services/auth/session";
+import type {
+  IAuthError,
+  IAuthIdentity,
+  IAuthSession,
+  IImpersonator,
+  IUser,
+} from "@/shared/types/auth";
+import type { AuthAssuranceLevel } from "@/shared/types/mfa";
+
+const toDate = (value?: string): Date | undefined =>
+  value ? new Date(value) : undefined;
+
+export const mapSupabaseIdentity = (
+  identity: SupabaseIdentity,
+): IAuthIdentity => ({
+  id: identity.identity_id,
+  provider: identity.provider,
+  email: identity.identity_data?.email,
+  createdAt: toDate(identity.created_at),
+  lastSignInAt: toDate(identity.last_sign_in_at),
+});
+
+export const mapSupabaseUser = (supabaseUser: SupabaseUser): IUser => ({
+  id: supabaseUser.id,
+  email: supabaseUser.email!,
+  name: supabaseUser.user_metadata?.name,
+  avatar: supabaseUser.user_metadata?.avatar_url,
+  role: supabaseUser.user_metadata?.role,
+  metadata: supabaseUser.user_metadata,
+  identities: supabaseUser.identities?.map(mapSupabaseIdentity),
+});
+
+interface ISupabaseClaims {
+  aal?: string;
+  session_id?: string;
+  // Added by custom_access_token_hook to impersonated sessions
+  impersonator?: {
+    id: string;
+    email: string;
+    impersonation_id: string;
+    started_at: string;
+  };
+}
+
+// Claims only, unverified: the token came from Supabase itself
+const readClaims = (token: string): ISupabaseClaims => {
+  try {
+    return decodeJwt(token).claims as ISupabaseClaims;
+  } catch {
+    return {};
+  }
+};
+
+// The access token carries the session's MFA level in its `aal` claim
+export const readAssuranceLevel = (
+  token: string,
+): AuthAssuranceLevel | undefined => {
+  const { aal } = readClaims(token);
+  return aal === "aal1" || aal === "aal2" ? aal : undefined;
+};
+
+const readImpersonator = ({
+  impersonator,
+}: ISupabaseClaims): IImpersonator | undefined =>
+  impersonator && {
+    id: impersonator.id,
+    email: impersonator.email,
+    impersonationId: impersonator.impersonation_id,
+    startedAt: new Date(impersonator.started_at),
+  };
+
+export const mapSupabaseSession = (
+  supabaseSession: SupabaseSession,
+): IAuthSession => {
+  const claims = readClaims(supabaseSession.access_token);
+  return {
+    user: mapSupabaseUser(supabaseSession.user),
+    token: supabaseSession.access_token,
+    expiresAt: new Date((supabaseSession.expires_at ?? 0) * 1000),
+    refreshToken: supabaseSession.refresh_token,
+    aal: readAssuranceLevel(supabaseSession.access_token),
+    id: claims.session_id,
+    impersonator: readImpersonator(claims),
+  };
+};
+
+export const mapSupabaseError = (error: SupabaseAuthError): IAuthError => ({
+  code: error.message || "unknown_error",
+  message: error.message || "An unknown error occurred",
+  details: error,
+});
+
+// What every sign-in flow needs to turn its result into app types
+export interface ISupabaseMappers {
+  mapUser: (user: SupabaseUser) => IUser;
+  mapSession: (session: SupabaseSession) => IAuthSession;
+  mapError: (error: SupabaseAuthError) => IAuthError;
+}
+
+export const supabaseMappers: ISupabaseMappers = {
+  mapUser: mapSupabaseUser,
+  mapSession: mapSupabaseSession,
+  mapError: mapSupabaseError,
+};
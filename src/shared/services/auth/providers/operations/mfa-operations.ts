@@ -0,0 +1,122 @@
+// MFA Operations
+// Single Responsibility: TOTP factors, challenges and assurance level
+// through Supabase Auth MFA
+
+import type {
+  SupabaseClient,
+  AuthError as SupabaseAuthError,
+  Factor as SupabaseFactor,
+} from "@supabase/supabase-js";
+
+import type { IAuthError } from "@/shared/types/auth";
+import type {
+  AuthAssuranceLevel,
+  IAssuranceLevel,
+  IMfaChallenge,
+  IMfaFactor,
+  IMfaService,
+  ITotpEnrollment,
+} from "@/shared/types/mfa";
+
+const toLevel = (level: string | null): AuthAssuranceLevel =>
+  level === "aal2" ? "aal2" : "aal1";
+
+const mapFactor = (factor: SupabaseFactor): IMfaFactor => ({
+  id: factor.id,
+  type: "totp",
+  friendlyName: factor.friendly_name,
+  status: factor.status === "verified" ? "verified" : "unverified",
+  createdAt: new Date(factor.created_at),
+});
+
+export class MfaOperations implements IMfaService {
+  constructor(
+    private client: SupabaseClient,
+    private mapError: (error: SupabaseAuthError) => IAuthError,
+  ) {}
+
+  async enrollTotp(friendlyName?: string): Promise<ITotpEnrollment> {
+    const { data, error } = await this.client.auth.mfa.enroll({
+      factorType: "totp",
+      friendlyName,
+    });
+
+    if (error) {
+      throw this.mapError(error);
+    }
+
+    return {
+      factorId: data.id,
+      secret: data.totp.secret,
+      uri: data.totp.uri,
+      qrCode: data.totp.qr_code,
+    };
+  }
+
+  async challenge(factorId: string): Promise<IMfaChallenge> {
+    const { data, error } = await this.client.auth.mfa.challenge({ factorId });
+
+    if (error) {
+      throw this.mapError(error);
+    }
+
+    return {
+      id: data.id,
+      factorId,
+      expiresAt: new Date(data.expires_at * 1000),
+    };
+  }
+
+  // Supabase stores the new aal2 session and emits MFA_CHALLENGE_VERIFIED
+  async verify(
+    factorId: string,
+    challengeId: string,
+    code: string,
+  ): Promise<AuthAssuranceLevel> {
+    const { error } = await this.client.auth.mfa.verify({
+      factorId,
+      challengeId,
+      code,
+    });
+
+    if (error) {
+      throw this.mapError(error);
+    }
+
+    return "aal2";
+  }
+
+  async listFactors(): Promise<IMfaFactor[]> {
+    const { data, error } = await this.client.auth.mfa.listFactors();
+
+    if (error) {
+      throw this.mapError(error);
+    }
+
+    return data.all
+      .filter((factor) => factor.factor_type === "totp")
+      .map(mapFactor);
+  }
+
+  async unenroll(factorId: string): Promise<void> {
+    const { error } = await this.client.auth.mfa.unenroll({ factorId });
+
+    if (error) {
+      throw this.mapError(error);
+    }
+  }
+
+  async getAssuranceLevel(): Promise<IAssuranceLevel> {
+    const { data, error } =
+      await this.client.auth.mfa.getAuthenticatorAssuranceLevel();
+
+    if (error) {
+      throw this.mapError(error);
+    }
+
+    return {
+      current: toLevel(data.currentLevel),
+      next: toLevel(data.nextLevel),
+    };
+  }
+}
@@ -0,0 +1,144 @@
+// OAuth Operations
+// Single Responsibility: Handle OAuth redirects, the PKCE callback and
+// identity linking
+//
+// The client runs the PKCE flow: signInWithOAuth stores a code verifier
+// and the callback exchanges the returned `code` together with it
+
+import type {
+  SupabaseClient,
+  AuthError as SupabaseAuthError,
+} from "@supabase/supabase-js";
+
+import { routes } from "@/config/routes";
+import type {
+  IAuthError,
+  IAuthSession,
+  IOAuthOptions,
+  IOAuthRedirect,
+  IUser,
+  OAuthProvider,
+} from "@/shared/types/auth";
+
+import type { ISupabaseMappers } from "./mappers";
+
+type MapError = (error: SupabaseAuthError) => IAuthError;
+
+// Also where magic links land: both flows end with a code exchange
+export const defaultRedirectTo = (): string | undefined =>
+  typeof window === "undefined"
+    ? undefined
+    : `${window.location.origin}${routes.auth.callback}`;
+
+const toSupabaseOptions = (
+  options: IOAuthOptions,
+): {
+  redirectTo?: string;
+  scopes?: string;
+  queryParams?: Record<string, string>;
+} => ({
+  redirectTo: options.redirectTo ?? defaultRedirectTo(),
+  scopes: options.scopes?.join(" "),
+  queryParams: options.queryParams,
+});
+
+export class OAuthOperations {
+  constructor(private client: SupabaseClient) {}
+
+  async signIn(
+    provider: OAuthProvider,
+    options: IOAuthOptions,
+    mapError: MapError,
+  ): Promise<IOAuthRedirect> {
+    const { data, error } = await this.client.auth.signInWithOAuth({
+      provider,
+      options: toSupabaseOptions(options),
+    });
+
+    if (error) {
+      throw mapError(error);
+    }
+
+    return { provider, url: data.url };
+  }
+
+  async exchangeCode(
+    callbackUrl: string,
+    { mapUser, mapSession, mapError }: ISupabaseMappers,
+  ): Promise<{ user: IUser; session: IAuthSession }> {
+    const params = new URL(callbackUrl).searchParams;
+
+    // The identity provider redirects back with ?error= when the user
+    // denies access or the request is invalid
+    const providerError = params.get("error");
+    if (providerError) {
+      throw {
+        code: providerError,
+        message: params.get("error_description") || providerError,
+      } satisfies IAuthError;
+    }
+
+    const code = params.get("code");
+    if (!code) {
+      throw {
+        code: "missing_oauth_code",
+        message: "OAuth callback has no authorization code",
+      } satisfies IAuthError;
+    }
+
+    const { data, error } = await this.client.auth.exchangeCodeForSession(code);
+
+    if (error) {
+      throw mapError(error);
+    }
+
+    return {
+      user: mapUser(data.user),
+      session: mapSession(data.session),
+    };
+  }
+
+  // Same redirect as signIn; the callback then returns the session with
+  // the new identity attached to the current user
+  async linkIdentity(
+    provider: OAuthProvider,
+    options: IOAuthOptions,
+    mapError: MapError,
+  ): Promise<IOAuthRedirect> {
+    const { data, error } = await this.client.auth.linkIdentity({
+      provider,
+      options: toSupabaseOptions(options),
+    });
+
+    if (error) {
+      throw mapError(error);
+    }
+
+    return { provider, url: data.url };
+  }
+
+  async unlinkIdentity(identityId: string, mapError: MapError): Promise<void> {
+    const { data, error } = await this.client.auth.getUserIdentities();
+
+    if (error) {
+      throw mapError(error);
+    }
+
+    const identity = data.identities.find(
+      (candidate) => candidate.identity_id === identityId,
+    );
+    if (!identity) {
+      throw {
+        code: "identity_not_found",
+        message: `Identity '${identityId}' is not linked to this user`,
+      } satisfies IAuthError;
+    }
+
+    const { error: unlinkError } =
+      await this.client.auth.unlinkIdentity(identity);
+
+    if (unlinkError) {
+      throw mapError(unlinkError);
+    }
+  }
+}
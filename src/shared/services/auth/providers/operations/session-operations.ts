@@ -65,25 +65,35 @@ export class SessionOperations {
     mapSession: (session: SupabaseSession) => IAuthSession,
     mapError: (error: SupabaseAuthError) => IAuthError,
   ): Promise<{ user: IUser | null; session: IAuthSession | null }> {
-    try {
-      const { data, error } = await this.client.auth.refreshSession();
-
-      if (error) {
-        throw mapError(error);
-      }
+    // Unlike reads, a failed refresh is thrown so the caller can retry
+    const { data, error } = await this.client.auth.refreshSession();
 
-      if (!data.session) {
-        return { user: null, session: null };
-      }
+    if (error) {
+      throw mapError(error);
+    }
 
-      return {
-        session: mapSession(data.session),
-        user: data.user ? mapUser(data.user) : null,
-      };
-    } catch (error) {
-      console.error("Error refreshing session:", error);
+    if (!data.session) {
       return { user: null, session: null };
     }
+
+    return {
+      session: mapSession(data.session),
+      user: data.user ? mapUser(data.user) : null,
+    };
+  }
+
+  // Mirrors Supabase session changes (sign-in in another tab, token
+  // refresh, MFA verification...); returns the unsubscribe function
+  watchSession(
+    mapSession: (session: SupabaseSession) => IAuthSession,
+    onChange: (session: IAuthSession | null) => void,
+  ): () => void {
+    const {
+      data: { subscription },
+    } = this.client.auth.onAuthStateChange((_event, session) => {
+      onChange(session ? mapSession(session) : null);
+    });
+    return () => subscription.unsubscribe();
   }
 
   async resetPassword(
@@ -1,7 +1,7 @@
 // State Manager
 // Single Responsibility: Manage authentication state and notify listeners
 
-import type { IAuthState } from "@/shared/types/auth";
+import type { IAuthError, IAuthState } from "@/shared/types/auth";
 
 export class StateManager {
   private state: IAuthState = {
@@ -22,6 +22,25 @@ export class StateManager {
     this.notifyListeners();
   }
 
+  // Runs an auth flow and mirrors loading, success and failure in the state
+  // so onAuthStateChange listeners see every step
+  async track<T>(
+    flow: () => Promise<T>,
+    onSuccess: (result: T) => Partial<IAuthState> = () => ({}),
+    onFailure: Partial<IAuthState> = {},
+  ): Promise<T> {
+    this.setState({ isLoading: true, error: null });
+    try {
+      const result = await flow();
+      this.setState({ ...onSuccess(result), isLoading: false, error: null });
+      return result;
+    } catch (error) {
+      const authError = error as IAuthError;
+      this.setState({ ...onFailure, isLoading: false, error: authError });
+      throw authError;
+    }
+  }
+
   private notifyListeners(): void {
     this.listeners.forEach((listener) => listener(this.getState()));
   }
@@ -1,15 +1,8 @@
 // Supabase Auth Provider - Modular Implementation
 // Main provider class that composes all operations
 
-import {
-  createClient,
-  type SupabaseClient,
-  type User as SupabaseUser,
-  type Session as SupabaseSession,
-  type AuthError as SupabaseAuthError,
-} from "@supabase/supabase-js";
-
-import { getEnv } from "@/config/env";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
 import type {
   IAuthProvider,
   IUser,
@@ -19,9 +12,28 @@ import type {
   IResetPasswordData,
   IAuthState,
   IAuthError,
+  IOAuthOptions,
+  IOAuthRedirect,
+  OAuthProvider,
+  OtpType,
 } from "@/shared/types/auth";
+import type { IMfaService } from "@/shared/types/mfa";
 
 import { AuthOperations } from "./operations/auth-operations";
+import { createBrowserAuthClient } from "./operations/browser-client";
+import { DeviceSessionOperations } from "./operations/device-session-operations";
+import {
+  ImpersonationOperations,
+  assertNotImpersonating,
+} from "./operations/impersonation-operations";
+import {
+  mapSupabaseError,
+  mapSupabaseSession,
+  mapSupabaseUser,
+  supabaseMappers,
+} from "./operations/mappers";
+import { MfaOperations } from "./operations/mfa-operations";
+import { OAuthOperations } from "./operations/oauth-operations";
 import { SessionOperations } from "./operations/session-operations";
 import { StateManager } from "./operations/state-manager";
 
@@ -30,20 +42,61 @@ export class SupabaseAuthProvider implements IAuthProvider {
 
   // Composed operations
   private authOps: AuthOperations;
+  private devices: DeviceSessionOperations;
+  private impersonation: ImpersonationOperations;
+  private mfa: IMfaService;
+  private oauthOps: OAuthOperations;
   private sessionOps: SessionOperations;
   private stateManager: StateManager;
+  private unwatchSession: (() => void) | null = null;
+
+  // MFA - delegated to the IMfaService (Supabase MFA or a local verifier)
+  enrollTotp: IMfaService["enrollTotp"];
+  challengeMfa: IMfaService["challenge"];
+  listMfaFactors: IMfaService["listFactors"];
+  unenrollMfa: IMfaService["unenroll"];
+  getAssuranceLevel: IMfaService["getAssuranceLevel"];
+
+  // Devices - delegated to DeviceSessionOperations
+  listSessions: DeviceSessionOperations["list"];
+  revokeSession: DeviceSessionOperations["revoke"];
+  revokeAllOtherSessions: DeviceSessionOperations["revokeOthers"];
+
+  // Impersonation - delegated to ImpersonationOperations
+  startImpersonation: ImpersonationOperations["start"];
+  stopImpersonation: ImpersonationOperations["stop"];
+
+  // A client can be injected, e.g. one pointed at a local auth stub, and
+  // MFA can run on a LocalTotpVerifier instead of Supabase
+  constructor(client?: SupabaseClient, mfa?: IMfaService) {
+    this.client = client ?? createBrowserAuthClient();
+    this.mfa = mfa ?? new MfaOperations(this.client, mapSupabaseError);
 
-  constructor() {
-    const env = getEnv();
-    this.client = createClient(
-      env.NEXT_PUBLIC_SUPABASE_URL,
-      env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
-    );
-
-    // Initialize composed operations
     this.authOps = new AuthOperations(this.client);
+    this.oauthOps = new OAuthOperations(this.client);
     this.sessionOps = new SessionOperations(this.client);
     this.stateManager = new StateManager();
+    this.devices = new DeviceSessionOperations(
+      this.client,
+      this.stateManager,
+      mapSupabaseError,
+    );
+    this.impersonation = new ImpersonationOperations(
+      this.client,
+      mapSupabaseSession,
+      mapSupabaseError,
+    );
+
+    this.enrollTotp = this.mfa.enrollTotp.bind(this.mfa);
+    this.challengeMfa = this.mfa.challenge.bind(this.mfa);
+    this.listMfaFactors = this.mfa.listFactors.bind(this.mfa);
+    this.unenrollMfa = this.mfa.unenroll.bind(this.mfa);
+    this.getAssuranceLevel = this.mfa.getAssuranceLevel.bind(this.mfa);
+    this.listSessions = this.devices.list.bind(this.devices);
+    this.revokeSession = this.devices.revoke.bind(this.devices);
+    this.revokeAllOtherSessions = this.devices.revokeOthers.bind(this.devices);
+    this.startImpersonation = this.impersonation.start.bind(this.impersonation);
+    this.stopImpersonation = this.impersonation.stop.bind(this.impersonation);
   }
 
   // State management - delegated to StateManager
@@ -53,136 +106,133 @@ export class SupabaseAuthProvider implements IAuthProvider {
 
   // Authentication operations - delegated to AuthOperations
   async login(credentials: ILoginCredentials): Promise<IAuthSession> {
-    try {
-      this.stateManager.setState({ isLoading: true, error: null });
+    return this.authenticate(() =>
+      this.authOps.login(credentials, supabaseMappers),
+    );
+  }
 
-      const { user, session } = await this.authOps.login(
-        credentials,
-        this.mapSupabaseUser,
-        this.mapSupabaseSession,
-        this.mapSupabaseError,
-      );
+  async register(credentials: IRegisterCredentials): Promise<IAuthSession> {
+    return this.authenticate(() =>
+      this.authOps.register(credentials, supabaseMappers),
+    );
+  }
 
-      this.stateManager.setState({
-        user,
-        session,
-        isLoading: false,
-        isAuthenticated: true,
-        error: null,
-      });
+  // Passwordless - delegated to AuthOperations
+  async sendMagicLink(email: string, redirectTo?: string): Promise<void> {
+    await this.stateManager.track(() =>
+      this.authOps.sendMagicLink(email, redirectTo, mapSupabaseError),
+    );
+  }
 
-      return session;
-    } catch (error) {
-      const authError = error as IAuthError;
-      this.stateManager.setState({
-        isLoading: false,
-        error: authError,
-        isAuthenticated: false,
-      });
-      throw authError;
+  async verifyOtp(
+    email: string,
+    token: string,
+    type: OtpType,
+  ): Promise<IAuthSession> {
+    return this.authenticate(() =>
+      this.authOps.verifyOtp(email, token, type, supabaseMappers),
+    );
+  }
+
+  async logout(): Promise<void> {
+    // A global sign-out would end the customer's own sessions too
+    if (this.stateManager.getState().session?.impersonator) {
+      await this.impersonation.stop();
     }
+    await this.stateManager.track(
+      () => this.authOps.logout(mapSupabaseError),
+      () => ({ user: null, session: null, isAuthenticated: false }),
+    );
   }
 
-  async register(credentials: IRegisterCredentials): Promise<IAuthSession> {
-    try {
-      this.stateManager.setState({ isLoading: true, error: null });
+  // OAuth operations - delegated to OAuthOperations
+  async signInWithOAuth(
+    provider: OAuthProvider,
+    options: IOAuthOptions = {},
+  ): Promise<IOAuthRedirect> {
+    return this.oauthOps.signIn(provider, options, mapSupabaseError);
+  }
 
-      const { user, session } = await this.authOps.register(
-        credentials,
-        this.mapSupabaseUser,
-        this.mapSupabaseSession,
-        this.mapSupabaseError,
-      );
+  async handleOAuthCallback(callbackUrl: string): Promise<IAuthSession> {
+    return this.authenticate(() =>
+      this.oauthOps.exchangeCode(callbackUrl, supabaseMappers),
+    );
+  }
 
-      this.stateManager.setState({
-        user,
-        session,
-        isLoading: false,
-        isAuthenticated: true,
-        error: null,
-      });
+  async linkIdentity(
+    provider: OAuthProvider,
+    options: IOAuthOptions = {},
+  ): Promise<IOAuthRedirect> {
+    return this.oauthOps.linkIdentity(provider, options, mapSupabaseError);
+  }
 
-      return session;
-    } catch (error) {
-      const authError = error as IAuthError;
+  async unlinkIdentity(identityId: string): Promise<void> {
+    await this.oauthOps.unlinkIdentity(identityId, mapSupabaseError);
+    // Reload the user so state.user.identities drops the unlinked one
+    const user = await this.getCurrentUser();
+    const { session } = this.stateManager.getState();
+    if (user) {
       this.stateManager.setState({
-        isLoading: false,
-        error: authError,
-        isAuthenticated: false,
+        user,
+        session: session ? { ...session, user } : null,
       });
-      throw authError;
     }
   }
 
-  async logout(): Promise<void> {
-    try {
-      this.stateManager.setState({ isLoading: true, error: null });
-
-      await this.authOps.logout(this.mapSupabaseError);
-
-      this.stateManager.setState({
-        user: null,
-        session: null,
-        isLoading: false,
-        isAuthenticated: false,
-        error: null,
-      });
-    } catch (error) {
-      const authError = error as IAuthError;
-      this.stateManager.setState({
-        isLoading: false,
-        error: authError,
-      });
-      throw authError;
+  // MFA - verification also raises the session to aal2
+  async verifyMfa(
+    factorId: string,
+    challengeId: string,
+    code: string,
+  ): Promise<IAuthSession> {
+    const aal = await this.stateManager.track(() =>
+      this.mfa.verify(factorId, challengeId, code),
+    );
+    // Supabase has issued an aal2 token by now; a local verifier has not
+    const current =
+      (await this.getCurrentSession()) ?? this.stateManager.getState().session;
+    if (!current) {
+      throw { code: "no_session", message: "MFA requires a signed-in user" };
     }
+    const session: IAuthSession = { ...current, aal };
+    this.stateManager.setState({ session });
+    return session;
   }
 
   // Session operations - delegated to SessionOperations
   async getCurrentUser(): Promise<IUser | null> {
-    return this.sessionOps.getCurrentUser(
-      this.mapSupabaseUser,
-      this.mapSupabaseError,
-    );
+    return this.sessionOps.getCurrentUser(mapSupabaseUser, mapSupabaseError);
   }
 
   async getCurrentSession(): Promise<IAuthSession | null> {
     return this.sessionOps.getCurrentSession(
-      this.mapSupabaseSession,
-      this.mapSupabaseError,
+      mapSupabaseSession,
+      mapSupabaseError,
     );
   }
 
   async refreshSession(): Promise<IAuthSession | null> {
-    const { user, session } = await this.sessionOps.refreshSession(
-      this.mapSupabaseUser,
-      this.mapSupabaseSession,
-      this.mapSupabaseError,
+    const { session } = await this.sessionOps.refreshSession(
+      mapSupabaseUser,
+      mapSupabaseSession,
+      mapSupabaseError,
     );
+    return this.publishSession(session);
+  }
 
-    this.stateManager.setState({
-      user,
-      session,
-      isAuthenticated: !!user,
-      error: null,
-    });
-
-    return session;
+  // Re-reads the cookie session another tab may have renewed or ended
+  async syncSession(): Promise<IAuthSession | null> {
+    return this.publishSession(await this.getCurrentSession());
   }
 
   async resetPassword(data: IResetPasswordData): Promise<void> {
-    try {
-      await this.sessionOps.resetPassword(data, this.mapSupabaseError);
-    } catch (error) {
-      throw error as IAuthError;
-    }
+    assertNotImpersonating(this.stateManager.getState().session);
+    await this.sessionOps.resetPassword(data, mapSupabaseError);
   }
 
   async updatePassword(newPassword: string): Promise<void> {
-    try {
-      await this.sessionOps.updatePassword(newPassword, this.mapSupabaseError);
-    } catch (error) {
-      throw error as IAuthError;
-    }
+    assertNotImpersonating(this.stateManager.getState().session);
+    await this.sessionOps.updatePassword(newPassword, mapSupabaseError);
   }
 
   // Observer Pattern - delegated to StateManager
@@ -206,17 +256,10 @@ export class SupabaseAuthProvider implements IAuthProvider {
       });
 
       // Setup listener for auth changes
-      this.client.auth.onAuthStateChange((event, session) => {
-        const user = session?.user ? this.mapSupabaseUser(session.user) : null;
-        const mappedSession = session ? this.mapSupabaseSession(session) : null;
-
-        this.stateManager.setState({
-          user,
-          session: mappedSession,
-          isAuthenticated: !!user,
-          error: null,
-        });
-      });
+      this.unwatchSession = this.sessionOps.watchSession(
+        mapSupabaseSession,
+        (session) => this.publishSession(session),
+      );
     } catch (error) {
       this.stateManager.setState({
         isLoading: false,
@@ -227,31 +270,31 @@ export class SupabaseAuthProvider implements IAuthProvider {
 
   async cleanup(): Promise<void> {
     this.stateManager.clearListeners();
-    // Supabase client cleanup is automatic
+    this.unwatchSession?.();
+    this.unwatchSession = null;
   }
 
-  // Mappers for type conversion (Single Responsibility)
-  private mapSupabaseUser = (supabaseUser: SupabaseUser): IUser => ({
-    id: supabaseUser.id,
-    email: supabaseUser.email!,
-    name: supabaseUser.user_metadata?.name,
-    avatar: supabaseUser.user_metadata?.avatar_url,
-    role: supabaseUser.user_metadata?.role,
-    metadata: supabaseUser.user_metadata,
-  });
-
-  private mapSupabaseSession = (
-    supabaseSession: SupabaseSession,
-  ): IAuthSession => ({
-    user: this.mapSupabaseUser(supabaseSession.user),
-    token: supabaseSession.access_token,
-    expiresAt: new Date((supabaseSession.expires_at ?? 0) * 1000),
-    refreshToken: supabaseSession.refresh_token,
-  });
-
-  private mapSupabaseError = (error: SupabaseAuthError): IAuthError => ({
-    code: error.message || "unknown_error",
-    message: error.message || "An unknown error occurred",
-    details: error,
-  });
+  // Sign-ins, refreshes and reloads also mark the device as last seen
+  private publishSession(session: IAuthSession | null): IAuthSession | null {
+    if (session) void this.devices.touch();
+    this.stateManager.setState({
+      user: session?.user ?? null,
+      session,
+      isAuthenticated: !!session,
+      error: null,
+    });
+    return session;
+  }
+
+  // Runs a sign-in flow and mirrors its outcome in the auth state
+  private async authenticate(
+    run: () => Promise<{ user: IUser; session: IAuthSession }>,
+  ): Promise<IAuthSession> {
+    const { session } = await this.stateManager.track(
+      run,
+      ({ user, session }) => ({ user, session, isAuthenticated: true }),
+      { isAuthenticated: false },
+    );
+    return session;
+  }
 }
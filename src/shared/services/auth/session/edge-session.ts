@@ -0,0 +1,194 @@
+// Edge Session Verifier
+// Single Responsibility: Validate the session cookie in middleware and
+// refresh it when the access token is expired or about to expire
+//
+// Only WebCrypto and fetch: safe for the edge runtime
+
+import { logger } from "@/shared/services/logger";
+
+import {
+  JwtError,
+  decodeJwt,
+  verifyJwt,
+  type IJsonWebKey,
+  type IJwtClaims,
+} from "./jwt";
+import type { IStoredSession } from "./session-cookie";
+
+export interface IEdgeSessionConfig {
+  supabaseUrl: string;
+  anonKey: string;
+  // HS256 projects; without it tokens are checked against the project JWKS
+  jwtSecret?: string;
+  // Expected `iss` (default `${supabaseUrl}/auth/v1`) and `aud` claims
+  issuer?: string;
+  audience?: string;
+  // Refresh when the token expires within this many seconds
+  refreshThresholdSec?: number;
+  jwksCacheMs?: number;
+  fetch?: typeof fetch;
+}
+
+export type EdgeSessionStatus =
+  "anonymous" | "valid" | "refreshed" | "invalid" | "unavailable";
+
+export interface IEdgeSession {
+  status: EdgeSessionStatus;
+  claims: IJwtClaims | null;
+  // New cookie value when the session was refreshed
+  session?: IStoredSession;
+}
+
+export class EdgeSessionVerifier {
+  private jwks: { keys: IJsonWebKey[]; fetchedAt: number } | null = null;
+
+  constructor(private config: IEdgeSessionConfig) {}
+
+  // Never throws: "unavailable" means Supabase could not be reached, so
+  // the caller should not clear the cookie
+  async verify(
+    stored: IStoredSession | null,
+    now = Date.now(),
+  ): Promise<IEdgeSession> {
+    if (!stored) return { status: "anonymous", claims: null };
+
+    try {
+      return await this.verifyOrRefresh(stored, now);
+    } catch (error) {
+      logger.error("Session verification unavailable", "middleware", {
+        error,
+      });
+      return { status: "unavailable", claims: null };
+    }
+  }
+
+  private async verifyOrRefresh(
+    stored: IStoredSession,
+    now: number,
+  ): Promise<IEdgeSession> {
+    const claims = await this.tryVerify(stored.access_token, now);
+    if (claims && !this.expiresSoon(claims, now)) {
+      return { status: "valid", claims };
+    }
+
+    const refreshed = await this.refresh(stored.refresh_token, now);
+    const refreshedClaims = refreshed
+      ? await this.tryVerify(refreshed.access_token, now)
+      : null;
+    if (refreshed && refreshedClaims) {
+      return {
+        status: "refreshed",
+        claims: refreshedClaims,
+        session: refreshed,
+      };
+    }
+
+    // A still-valid token survives a rejected refresh
+    return claims
+      ? { status: "valid", claims }
+      : { status: "invalid", claims: null };
+  }
+
+  private expiresSoon(claims: IJwtClaims, now: number): boolean {
+    const threshold = this.config.refreshThresholdSec ?? 60;
+    return (
+      claims.exp !== undefined && claims.exp * 1000 - now < threshold * 1000
+    );
+  }
+
+  // null for a token that fails verification; network errors propagate
+  private async tryVerify(
+    token: string,
+    now: number,
+  ): Promise<IJwtClaims | null> {
+    try {
+      const { header } = decodeJwt(token);
+      // HS256 without the secret: let Supabase check the token
+      if (header.alg === "HS256" && !this.config.jwtSecret) {
+        return await this.verifyRemotely(token);
+      }
+      const keys = header.alg === "HS256" ? [] : await this.loadKeys(now);
+      return await verifyJwt(token, {
+        secret: this.config.jwtSecret,
+        keys,
+        issuer: this.config.issuer ?? `${this.config.supabaseUrl}/auth/v1`,
+        audience: this.config.audience ?? "authenticated",
+        now,
+      });
+    } catch (error) {
+      if (error instanceof JwtError) return null;
+      throw error;
+    }
+  }
+
+  private async verifyRemotely(token: string): Promise<IJwtClaims | null> {
+    const response = await this.fetch(
+      `${this.config.supabaseUrl}/auth/v1/user`,
+      {
+        headers: {
+          apikey: this.config.anonKey,
+          Authorization: `Bearer ${token}`,
+        },
+      },
+    );
+    if (response.status >= 500) {
+      throw new Error(`User request failed: ${response.status}`);
+    }
+    return response.ok ? decodeJwt(token).claims : null;
+  }
+
+  private async loadKeys(now: number): Promise<IJsonWebKey[]> {
+    const ttl = this.config.jwksCacheMs ?? 10 * 60 * 1000;
+    if (this.jwks && now - this.jwks.fetchedAt < ttl) return this.jwks.keys;
+
+    const response = await this.fetch(
+      `${this.config.supabaseUrl}/auth/v1/.well-known/jwks.json`,
+      { headers: { apikey: this.config.anonKey } },
+    );
+    if (!response.ok) {
+      throw new Error(`JWKS request failed: ${response.status}`);
+    }
+
+    const { keys } = (await response.json()) as { keys: IJsonWebKey[] };
+    this.jwks = { keys, fetchedAt: now };
+    return keys;
+  }
+
+  // Same endpoint and response the Supabase client uses, so the stored
+  // session keeps the shape the client expects
+  private async refresh(
+    refreshToken: string,
+    now: number,
+  ): Promise<IStoredSession | null> {
+    const response = await this.fetch(
+      `${this.config.supabaseUrl}/auth/v1/token?grant_type=refresh_token`,
+      {
+        method: "POST",
+        headers: {
+          apikey: this.config.anonKey,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ refresh_token: refreshToken }),
+      },
+    );
+    if (response.status >= 500) {
+      throw new Error(`Refresh request failed: ${response.status}`);
+    }
+    // Revoked, reused or expired refresh token
+    if (!response.ok) return null;
+
+    const session = (await response.json()) as IStoredSession & {
+      expires_in?: number;
+    };
+    return {
+      ...session,
+      expires_at:
+        session.expires_at ??
+        Math.floor(now / 1000) + (session.expires_in ?? 3600),
+    };
+  }
+
+  private fetch(input: string, init?: RequestInit): Promise<Response> {
+    return (this.config.fetch ?? fetch)(input, init);
+  }
+}
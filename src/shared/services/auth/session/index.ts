@@ -0,0 +1,36 @@
+// Session - JWT verification, PKCE, session cookie and edge session checks
+export {
+  base64UrlDecode,
+  decodeJwt,
+  signJwt,
+  verifyJwt,
+  JwtError,
+  type IJsonWebKey,
+  type IJwtClaims,
+  type IJwtVerifyOptions,
+  type JwtErrorCode,
+} from "./jwt";
+export {
+  base64UrlEncode,
+  createPkcePair,
+  randomUrlSafe,
+  type IPkcePair,
+} from "./pkce";
+export {
+  SESSION_COOKIE_NAME,
+  chunkedCookieNames,
+  encodeChunkedCookie,
+  parseStoredSession,
+  readChunkedCookie,
+  sessionCookieAuthOptions,
+  sessionCookieOptions,
+  sessionCookieStorage,
+  type ISessionCookie,
+  type IStoredSession,
+} from "./session-cookie";
+export {
+  EdgeSessionVerifier,
+  type EdgeSessionStatus,
+  type IEdgeSession,
+  type IEdgeSessionConfig,
+} from "./edge-session";
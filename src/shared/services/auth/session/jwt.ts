@@ -0,0 +1,263 @@
+// JWT verification on top of WebCrypto
+// Runs on the edge runtime (middleware), in the browser and in Node:
+// HS256 with a shared secret, RS256/ES256 with a JSON Web Key Set
+
+import { base64UrlEncode } from "./pkce";
+
+export interface IJwtClaims {
+  sub?: string;
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  iss?: string;
+  aud?: string | string[];
+  [claim: string]: unknown;
+}
+
+export interface IJsonWebKey extends JsonWebKey {
+  kid?: string;
+}
+
+export interface IJwtVerifyOptions {
+  // HS256 shared secret (Supabase "JWT secret")
+  secret?: string;
+  // RS256/ES256 public keys, matched by `kid`
+  keys?: IJsonWebKey[];
+  issuer?: string;
+  audience?: string;
+  clockToleranceSec?: number;
+  now?: number;
+}
+
+export type JwtErrorCode =
+  | "malformed"
+  | "unsupported_algorithm"
+  | "key_not_found"
+  | "invalid_signature"
+  | "expired"
+  | "not_yet_valid"
+  | "invalid_claims";
+
+export class JwtError extends Error {
+  constructor(
+    message: string,
+    public code: JwtErrorCode,
+  ) {
+    super(message);
+    this.name = "JwtError";
+  }
+}
+
+interface IJwtHeader {
+  alg: string;
+  kid?: string;
+  typ?: string;
+}
+
+interface IJwtAlgorithm {
+  import: RsaHashedImportParams | EcKeyImportParams | HmacImportParams;
+  verify: AlgorithmIdentifier | EcdsaParams;
+  // JWK key type the algorithm verifies with
+  kty?: string;
+}
+
+const HS256: IJwtAlgorithm = {
+  import: { name: "HMAC", hash: "SHA-256" },
+  verify: "HMAC",
+};
+
+// A Map, so header values like "constructor" never reach Object.prototype
+const ALGORITHMS = new Map<string, IJwtAlgorithm>([
+  ["HS256", HS256],
+  [
+    "RS256",
+    {
+      import: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+      verify: "RSASSA-PKCS1-v1_5",
+      kty: "RSA",
+    },
+  ],
+  [
+    "ES256",
+    {
+      import: { name: "ECDSA", namedCurve: "P-256" },
+      verify: { name: "ECDSA", hash: "SHA-256" },
+      kty: "EC",
+    },
+  ],
+]);
+
+const getAlgorithm = (header: IJwtHeader): IJwtAlgorithm => {
+  const algorithm = ALGORITHMS.get(header.alg);
+  if (!algorithm) {
+    throw new JwtError(
+      `Unsupported algorithm '${header.alg}'`,
+      "unsupported_algorithm",
+    );
+  }
+  return algorithm;
+};
+
+export const base64UrlDecode = (value: string): Uint8Array<ArrayBuffer> => {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+const decodeJson = <T>(segment: string): T =>
+  JSON.parse(new TextDecoder().decode(base64UrlDecode(segment))) as T;
+
+// Reads a token without verifying it: never trust the result for access
+export const decodeJwt = (
+  token: string,
+): { header: IJwtHeader; claims: IJwtClaims } => {
+  const parts = token.split(".");
+  if (parts.length !== 3) {
+    throw new JwtError("Token is not a JWT", "malformed");
+  }
+  try {
+    return {
+      header: decodeJson<IJwtHeader>(parts[0]),
+      claims: decodeJson<IJwtClaims>(parts[1]),
+    };
+  } catch {
+    throw new JwtError("Token is not a JWT", "malformed");
+  }
+};
+
+// A key set can mix key types (Supabase publishes the standby key too):
+// the key must suit the token's algorithm, and its kid if it has one
+const findJwk = (
+  header: IJwtHeader,
+  algorithm: IJwtAlgorithm,
+  keys: IJsonWebKey[],
+): IJsonWebKey => {
+  const jwk = keys.find(
+    (key) =>
+      (!header.kid || key.kid === header.kid) &&
+      key.kty === algorithm.kty &&
+      (!key.alg || key.alg === header.alg),
+  );
+  if (!jwk) {
+    throw new JwtError(
+      header.kid
+        ? `No ${header.alg} key for kid '${header.kid}'`
+        : `No ${header.alg} key`,
+      "key_not_found",
+    );
+  }
+  return jwk;
+};
+
+const importKey = async (
+  header: IJwtHeader,
+  algorithm: IJwtAlgorithm,
+  options: IJwtVerifyOptions,
+): Promise<CryptoKey> => {
+  if (header.alg === "HS256" && !options.secret) {
+    throw new JwtError("No secret for HS256 token", "key_not_found");
+  }
+
+  try {
+    if (header.alg === "HS256") {
+      const secret = new TextEncoder().encode(options.secret);
+      return await crypto.subtle.importKey(
+        "raw",
+        secret,
+        algorithm.import,
+        false,
+        ["verify"],
+      );
+    }
+    const jwk = findJwk(header, algorithm, options.keys ?? []);
+    return await crypto.subtle.importKey("jwk", jwk, algorithm.import, false, [
+      "verify",
+    ]);
+  } catch (error) {
+    if (error instanceof JwtError) throw error;
+    // A key WebCrypto refuses (bad curve, missing members): none to verify with
+    throw new JwtError("Key cannot verify this token", "key_not_found");
+  }
+};
+
+const checkLifetime = (
+  claims: IJwtClaims,
+  options: IJwtVerifyOptions,
+): void => {
+  const now = Math.floor((options.now ?? Date.now()) / 1000);
+  const tolerance = options.clockToleranceSec ?? 0;
+
+  if (claims.exp !== undefined && claims.exp + tolerance <= now) {
+    throw new JwtError("Token has expired", "expired");
+  }
+  if (claims.nbf !== undefined && claims.nbf - tolerance > now) {
+    throw new JwtError("Token is not valid yet", "not_yet_valid");
+  }
+};
+
+const checkClaims = (claims: IJwtClaims, options: IJwtVerifyOptions): void => {
+  checkLifetime(claims, options);
+
+  if (options.issuer && claims.iss !== options.issuer) {
+    throw new JwtError("Unexpected token issuer", "invalid_claims");
+  }
+  const audiences = ([] as unknown[]).concat(claims.aud ?? []);
+  if (options.audience && !audiences.includes(options.audience)) {
+    throw new JwtError("Unexpected token audience", "invalid_claims");
+  }
+};
+
+export const verifyJwt = async (
+  token: string,
+  options: IJwtVerifyOptions,
+): Promise<IJwtClaims> => {
+  const { header, claims } = decodeJwt(token);
+  const algorithm = getAlgorithm(header);
+  const key = await importKey(header, algorithm, options);
+
+  const [head, payload, signature] = token.split(".");
+  let signatureBytes: Uint8Array<ArrayBuffer>;
+  try {
+    signatureBytes = base64UrlDecode(signature);
+  } catch {
+    throw new JwtError("Token signature is not base64url", "malformed");
+  }
+  const valid = await crypto.subtle.verify(
+    algorithm.verify,
+    key,
+    signatureBytes,
+    new TextEncoder().encode(`${head}.${payload}`),
+  );
+  if (!valid) {
+    throw new JwtError("Invalid token signature", "invalid_signature");
+  }
+
+  checkClaims(claims, options);
+  return claims;
+};
+
+// HS256 tokens of our own (e.g. invitation links); server-side only, as the
+// secret must never reach the browser
+export const signJwt = async (
+  claims: IJwtClaims,
+  secret: string,
+): Promise<string> => {
+  const encoder = new TextEncoder();
+  const encode = (part: object): string =>
+    base64UrlEncode(encoder.encode(JSON.stringify(part)));
+
+  const signingInput = `${encode({ alg: "HS256", typ: "JWT" })}.${encode(claims)}`;
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    HS256.import,
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    encoder.encode(signingInput),
+  );
+  return `${signingInput}.${base64UrlEncode(new Uint8Array(signature))}`;
+};
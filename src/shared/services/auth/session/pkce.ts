@@ -0,0 +1,26 @@
+// PKCE (RFC 7636) for authorization code flows in the browser
+// The verifier stays with the client; only its S256 hash goes to /authorize
+
+export interface IPkcePair {
+  verifier: string;
+  challenge: string;
+}
+
+export const base64UrlEncode = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...Array.from(bytes)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+// Random URL-safe string, also used for `state` and `nonce`
+export const randomUrlSafe = (byteLength = 32): string =>
+  base64UrlEncode(crypto.getRandomValues(new Uint8Array(byteLength)));
+
+export const createPkcePair = async (): Promise<IPkcePair> => {
+  const verifier = randomUrlSafe();
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(verifier),
+  );
+  return { verifier, challenge: base64UrlEncode(new Uint8Array(digest)) };
+};
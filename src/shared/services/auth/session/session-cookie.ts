@@ -0,0 +1,137 @@
+// Session cookie shared by the browser Supabase client and the middleware
+// The client stores its session through `sessionCookieStorage`, so a token
+// refreshed by the middleware is what the client reads next, and vice versa
+//
+// Values above the ~4KB cookie limit are split in `name.0`, `name.1`...
+
+export const SESSION_COOKIE_NAME = "sb-auth-token";
+
+// Below 4096 with room for the name and attributes
+const MAX_CHUNK_SIZE = 3180;
+const MAX_AGE_SECONDS = 60 * 60 * 24 * 400;
+
+export interface ISessionCookie {
+  name: string;
+  value: string;
+}
+
+export interface IStoredSession {
+  access_token: string;
+  refresh_token: string;
+  expires_at?: number;
+  [key: string]: unknown;
+}
+
+export const sessionCookieOptions = {
+  path: "/",
+  sameSite: "lax" as const,
+  maxAge: MAX_AGE_SECONDS,
+};
+
+// Cookies to write for `value`: one, or one per chunk
+export const encodeChunkedCookie = (
+  name: string,
+  value: string,
+): ISessionCookie[] => {
+  const encoded = encodeURIComponent(value);
+  if (encoded.length <= MAX_CHUNK_SIZE) return [{ name, value: encoded }];
+
+  const chunks: ISessionCookie[] = [];
+  let start = 0;
+  while (start < encoded.length) {
+    // Never cut an escape sequence (%XX) in half
+    let end = Math.min(start + MAX_CHUNK_SIZE, encoded.length);
+    const escape = encoded.lastIndexOf("%", end - 1);
+    if (end < encoded.length && escape > end - 3) end = escape;
+    chunks.push({
+      name: `${name}.${chunks.length}`,
+      value: encoded.slice(start, end),
+    });
+    start = end;
+  }
+  return chunks;
+};
+
+export const readChunkedCookie = (
+  name: string,
+  get: (cookieName: string) => string | undefined,
+): string | null => {
+  const whole = get(name);
+  if (whole !== undefined) return decodeURIComponent(whole);
+
+  let joined = "";
+  for (let index = 0; ; index++) {
+    const chunk = get(`${name}.${index}`);
+    if (chunk === undefined) break;
+    joined += chunk;
+  }
+  return joined ? decodeURIComponent(joined) : null;
+};
+
+// Every cookie a chunked value may occupy, for clearing stale chunks
+export const chunkedCookieNames = (
+  name: string,
+  existing: string[],
+): string[] =>
+  existing.filter((cookie) => cookie === name || cookie.startsWith(`${name}.`));
+
+export const parseStoredSession = (
+  value: string | null,
+): IStoredSession | null => {
+  if (!value) return null;
+  try {
+    const session = JSON.parse(value) as IStoredSession;
+    return session.access_token && session.refresh_token ? session : null;
+  } catch {
+    return null;
+  }
+};
+
+// document.cookie adapter for the Supabase client `auth.storage` option
+const browserCookies = (): Map<string, string> =>
+  new Map(
+    document.cookie
+      .split("; ")
+      .filter(Boolean)
+      .map((pair) => {
+        const separator = pair.indexOf("=");
+        return [pair.slice(0, separator), pair.slice(separator + 1)];
+      }),
+  );
+
+const writeBrowserCookie = (
+  name: string,
+  value: string,
+  maxAge: number,
+): void => {
+  const secure = window.location.protocol === "https:" ? "; Secure" : "";
+  document.cookie = `${name}=${value}; Path=/; Max-Age=${maxAge}; SameSite=Lax${secure}`;
+};
+
+export const sessionCookieStorage = {
+  getItem: (key: string): string | null =>
+    readChunkedCookie(key, (name) => browserCookies().get(name)),
+
+  setItem: (key: string, value: string): void => {
+    const cookies = encodeChunkedCookie(key, value);
+    const written = new Set(cookies.map(({ name }) => name));
+    chunkedCookieNames(key, Array.from(browserCookies().keys()))
+      .filter((name) => !written.has(name))
+      .forEach((name) => writeBrowserCookie(name, "", 0));
+    cookies.forEach(({ name, value: chunk }) =>
+      writeBrowserCookie(name, chunk, MAX_AGE_SECONDS),
+    );
+  },
+
+  removeItem: (key: string): void => {
+    chunkedCookieNames(key, Array.from(browserCookies().keys())).forEach(
+      (name) => writeBrowserCookie(name, "", 0),
+    );
+  },
+};
+
+// Supabase client `auth` options that keep the session in this cookie
+export const sessionCookieAuthOptions = {
+  storage: sessionCookieStorage,
+  storageKey: SESSION_COOKIE_NAME,
+};
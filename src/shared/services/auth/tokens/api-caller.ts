@@ -0,0 +1,87 @@
+// API Caller (server-side)
+// Single Responsibility: Tell an API route who is calling and what they
+// may do
+//
+// A personal access token was already resolved by the middleware, which
+// hands the route its principal; anything else must carry a Supabase
+// session, verified here with the service-role client
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { ITokenPrincipal } from "@/shared/types/access-token";
+import type { IAuthError, IUser } from "@/shared/types/auth";
+
+import { readBearerToken } from "./personal-access-token";
+import {
+  readTokenPrincipal,
+  scopeToToken,
+  type PermissionChecker,
+} from "./token-principal";
+
+export interface IApiCaller {
+  user: IUser;
+  // Set when the caller authenticated with a personal access token
+  principal: ITokenPrincipal | null;
+  // user_has_permission, within the token's scope for token callers
+  permissions: PermissionChecker;
+}
+
+const unauthorized = (details?: unknown): IAuthError => ({
+  code: "unauthorized",
+  message: "Invalid or expired session",
+  details,
+});
+
+// user_has_permission as the service role; a failed lookup denies
+const rpcPermissions = (admin: SupabaseClient): PermissionChecker => ({
+  userHasPermission: async (
+    userId,
+    permissionName,
+    organizationId,
+  ): Promise<boolean> => {
+    const { data, error } = await admin.rpc("user_has_permission", {
+      user_id: userId,
+      permission_name: permissionName,
+      organization_id: organizationId,
+    });
+    return !error && data === true;
+  },
+});
+
+export const authenticateApiCaller = async (
+  headers: Headers,
+  admin: SupabaseClient,
+): Promise<IApiCaller> => {
+  const permissions = rpcPermissions(admin);
+  const principal = readTokenPrincipal(headers);
+  if (principal) {
+    return {
+      user: principal.user,
+      principal,
+      permissions: scopeToToken(permissions, principal),
+    };
+  }
+
+  const token = readBearerToken(headers.get("authorization"));
+  if (!token) throw unauthorized();
+  const { data, error } = await admin.auth.getUser(token);
+  if (error || !data.user) throw unauthorized(error);
+
+  return {
+    user: { id: data.user.id, email: data.user.email ?? "" },
+    principal: null,
+    permissions,
+  };
+};
+
+// For routes that act as the signed-in user (accepting an invitation,
+// impersonating): a personal access token does not stand in for a session
+export const requireSessionToken = (headers: Headers): string => {
+  if (readTokenPrincipal(headers)) {
+    throw {
+      code: "forbidden",
+      message: "This route needs a signed-in session, not an access token",
+    } satisfies IAuthError;
+  }
+  return readBearerToken(headers.get("authorization")) ?? "";
+};
@@ -0,0 +1,23 @@
+// Tokens - Personal access tokens for programmatic API access
+export {
+  generatePersonalAccessToken,
+  hashPersonalAccessToken,
+  isPersonalAccessToken,
+  readBearerToken,
+} from "./personal-access-token";
+export { PersonalAccessTokenService } from "./personal-access-token-service";
+export {
+  PersonalAccessTokenResolver,
+  type ITokenResolverConfig,
+} from "./token-resolver";
+export {
+  TOKEN_PRINCIPAL_HEADER,
+  encodeTokenPrincipal,
+  readTokenPrincipal,
+  scopeToToken,
+} from "./token-principal";
+export {
+  authenticateApiCaller,
+  requireSessionToken,
+  type IApiCaller,
+} from "./api-caller";
@@ -0,0 +1,134 @@
+// Personal Access Token Service
+// Single Responsibility: Create, list and revoke the signed-in user's
+// access tokens (create_personal_access_token and friends in
+// database/migrations/003_personal_access_tokens.sql)
+//
+// The client must act as the user: the functions and the RLS policy only
+// ever touch auth.uid()'s tokens
+
+import type { PostgrestError, SupabaseClient } from "@supabase/supabase-js";
+
+import type {
+  ICreatePersonalAccessToken,
+  ICreatedPersonalAccessToken,
+  IPersonalAccessToken,
+} from "@/shared/types/access-token";
+import type { IAuthError } from "@/shared/types/auth";
+import { DEFAULT_PERMISSIONS } from "@/shared/types/rbac";
+import {
+  fromPersonalAccessTokenRow,
+  type IPersonalAccessTokenRow,
+} from "@/shared/types/rbac.generated";
+
+import {
+  generatePersonalAccessToken,
+  hashPersonalAccessToken,
+} from "./personal-access-token";
+
+const TABLE = "personal_access_tokens";
+
+// Everything but token_hash
+const COLUMNS =
+  "id, user_id, organization_id, name, token_prefix, permissions, expires_at, last_used_at, revoked_at, created_at";
+
+const KNOWN_PERMISSIONS: readonly string[] = Object.values(DEFAULT_PERMISSIONS);
+
+const mapRow = (row: IPersonalAccessTokenRow): IPersonalAccessToken => {
+  const record = fromPersonalAccessTokenRow(row);
+  return {
+    id: record.id,
+    name: record.name,
+    tokenPrefix: record.tokenPrefix,
+    permissions: record.permissions,
+    organizationId: record.organizationId,
+    expiresAt: record.expiresAt,
+    lastUsedAt: record.lastUsedAt,
+    createdAt: record.createdAt,
+  };
+};
+
+const mapRpcError = (error: PostgrestError): IAuthError => ({
+  code: error.code || "access_token_failed",
+  message: error.message,
+  details: error,
+});
+
+const invalid = (message: string): IAuthError => ({
+  code: "invalid_request",
+  message,
+});
+
+export class PersonalAccessTokenService {
+  constructor(private client: SupabaseClient) {}
+
+  // The returned token is never shown again
+  async create(
+    input: ICreatePersonalAccessToken,
+  ): Promise<ICreatedPersonalAccessToken> {
+    this.validate(input);
+    const { token, prefix } = generatePersonalAccessToken();
+
+    const { data, error } = await this.client
+      .rpc("create_personal_access_token", {
+        name: input.name.trim(),
+        token_hash: await hashPersonalAccessToken(token),
+        token_prefix: prefix,
+        permissions: input.permissions,
+        organization_id: input.organizationId ?? null,
+        expires_at: input.expiresAt?.toISOString() ?? null,
+      })
+      .single();
+
+    if (error) {
+      throw mapRpcError(error);
+    }
+
+    return { token, accessToken: mapRow(data as IPersonalAccessTokenRow) };
+  }
+
+  // Tokens not yet revoked (expired ones included), newest first
+  async list(): Promise<IPersonalAccessToken[]> {
+    const { data, error } = await this.client
+      .from(TABLE)
+      .select(COLUMNS)
+      .is("revoked_at", null)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      throw mapRpcError(error);
+    }
+
+    return (data as unknown as IPersonalAccessTokenRow[]).map(mapRow);
+  }
+
+  async revoke(tokenId: string): Promise<void> {
+    const { error } = await this.client.rpc("revoke_personal_access_token", {
+      token_id: tokenId,
+    });
+
+    if (error) {
+      throw mapRpcError(error);
+    }
+  }
+
+  // Holding the permissions is checked by the database
+  private validate({
+    name,
+    permissions,
+    expiresAt,
+  }: ICreatePersonalAccessToken): void {
+    if (!name.trim()) {
+      throw invalid("A token name is required");
+    }
+    if (permissions.length === 0) {
+      throw invalid("A token needs at least one permission");
+    }
+    const unknown = permissions.filter((p) => !KNOWN_PERMISSIONS.includes(p));
+    if (unknown.length > 0) {
+      throw invalid(`Unknown permissions: ${unknown.join(", ")}`);
+    }
+    if (expiresAt && expiresAt.getTime() <= Date.now()) {
+      throw invalid("The expiry must be in the future");
+    }
+  }
+}
@@ -0,0 +1,40 @@
+// Personal Access Token primitives
+// Only WebCrypto: shared by the browser (creation) and the middleware
+// (lookup). The database keeps the hex SHA-256, never the token
+
+import { randomUrlSafe } from "@/shared/services/auth/session";
+import { PERSONAL_ACCESS_TOKEN_PREFIX } from "@/shared/types/access-token";
+
+// Characters after the prefix kept in clear to recognise a token
+const VISIBLE_CHARS = 4;
+
+export const isPersonalAccessToken = (
+  token: string | null | undefined,
+): token is string => !!token?.startsWith(PERSONAL_ACCESS_TOKEN_PREFIX);
+
+// The token of an "Authorization: Bearer ..." header, if any
+export const readBearerToken = (header: string | null): string | null =>
+  header?.match(/^Bearer\s+(\S+)$/i)?.[1] ?? null;
+
+export const generatePersonalAccessToken = (): {
+  token: string;
+  prefix: string;
+} => {
+  const token = `${PERSONAL_ACCESS_TOKEN_PREFIX}${randomUrlSafe(32)}`;
+  return {
+    token,
+    prefix: token.slice(0, PERSONAL_ACCESS_TOKEN_PREFIX.length + VISIBLE_CHARS),
+  };
+};
+
+export const hashPersonalAccessToken = async (
+  token: string,
+): Promise<string> => {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(token),
+  );
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+};
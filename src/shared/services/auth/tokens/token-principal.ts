@@ -0,0 +1,76 @@
+// Token Principal
+// Single Responsibility: Hand the resolved principal from the middleware to
+// the API route, and keep its permission checks within the token's scope
+
+import type { ITokenPrincipal } from "@/shared/types/access-token";
+import { type IRBACProvider } from "@/shared/types/rbac";
+import { hasMatchingPermission } from "@/shared/types/rbac-permissions";
+
+// What scopeToToken needs: a full IRBACProvider or a server-side check
+export type PermissionChecker = Pick<IRBACProvider, "userHasPermission">;
+
+// Set by the middleware on API requests made with a personal access token;
+// stripped from every incoming request, so a client cannot forge it
+export const TOKEN_PRINCIPAL_HEADER = "x-token-principal";
+
+export const encodeTokenPrincipal = (principal: ITokenPrincipal): string =>
+  encodeURIComponent(JSON.stringify(principal));
+
+// The caller of an API route, when it authenticated with a token; null for
+// a missing or malformed header
+export const readTokenPrincipal = (
+  headers: Headers,
+): ITokenPrincipal | null => {
+  const value = headers.get(TOKEN_PRINCIPAL_HEADER);
+  if (!value) return null;
+
+  let principal: ITokenPrincipal;
+  try {
+    principal = JSON.parse(decodeURIComponent(value)) as ITokenPrincipal;
+  } catch {
+    return null;
+  }
+  if (!principal?.user?.id || !Array.isArray(principal.permissions)) {
+    return null;
+  }
+  return {
+    ...principal,
+    expiresAt: principal.expiresAt ? new Date(principal.expiresAt) : null,
+  };
+};
+
+/**
+ * The provider as seen by a token: the token's owner only has the
+ * permissions the token lists (in its organization, when it has one) and
+ * still holds them. Checks about other users are left as they are
+ */
+export const scopeToToken = <P extends PermissionChecker>(
+  provider: P,
+  principal: ITokenPrincipal,
+): P => {
+  const userHasPermission = async (
+    userId: string,
+    permissionName: string,
+    organizationId?: string,
+  ): Promise<boolean> => {
+    if (userId !== principal.user.id) {
+      return provider.userHasPermission(userId, permissionName, organizationId);
+    }
+
+    const scope = principal.organizationId;
+    if (
+      !hasMatchingPermission(principal.permissions, permissionName) ||
+      (scope && organizationId && organizationId !== scope)
+    ) {
+      return false;
+    }
+    return provider.userHasPermission(
+      userId,
+      permissionName,
+      organizationId ?? scope ?? undefined,
+    );
+  };
+
+  // Everything else still runs on the provider (its prototype)
+  return Object.assign(Object.create(provider) as P, { userHasPermission });
+};
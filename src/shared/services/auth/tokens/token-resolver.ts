@@ -0,0 +1,72 @@
+// Personal Access Token Resolver
+// Single Responsibility: Turn a "Bearer pat_..." token into the principal
+// it acts as, in middleware
+//
+// Only WebCrypto and fetch: safe for the edge runtime
+
+import type { ITokenPrincipal } from "@/shared/types/access-token";
+
+import {
+  hashPersonalAccessToken,
+  isPersonalAccessToken,
+} from "./personal-access-token";
+
+export interface ITokenResolverConfig {
+  supabaseUrl: string;
+  anonKey: string;
+  fetch?: typeof fetch;
+}
+
+// A row of resolve_personal_access_token
+// (database/migrations/003_personal_access_tokens.sql)
+interface IResolvedTokenRow {
+  token_id: string;
+  user_id: string;
+  email: string;
+  organization_id: string | null;
+  permissions: string[];
+  expires_at: string | null;
+}
+
+const toPrincipal = (row: IResolvedTokenRow): ITokenPrincipal => ({
+  user: { id: row.user_id, email: row.email },
+  tokenId: row.token_id,
+  permissions: row.permissions,
+  organizationId: row.organization_id,
+  expiresAt: row.expires_at ? new Date(row.expires_at) : null,
+});
+
+export class PersonalAccessTokenResolver {
+  constructor(private config: ITokenResolverConfig) {}
+
+  // null for unknown, revoked or expired tokens; throws when Supabase
+  // cannot be reached
+  async resolve(token: string): Promise<ITokenPrincipal | null> {
+    if (!isPersonalAccessToken(token)) return null;
+
+    const response = await this.fetch(
+      `${this.config.supabaseUrl}/rest/v1/rpc/resolve_personal_access_token`,
+      {
+        method: "POST",
+        headers: {
+          apikey: this.config.anonKey,
+          Authorization: `Bearer ${this.config.anonKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          token_hash: await hashPersonalAccessToken(token),
+        }),
+      },
+    );
+    if (!response.ok) {
+      throw new Error(`Token lookup failed: ${response.status}`);
+    }
+
+    const [row] = (await response.json()) as IResolvedTokenRow[];
+    return row ? toPrincipal(row) : null;
+  }
+
+  private fetch(input: string, init?: RequestInit): Promise<Response> {
+    return (this.config.fetch ?? fetch)(input, init);
+  }
+}
@@ -1,11 +1,26 @@
 // Base interfaces for all services following SOLID principles
 
+// Cursor (keyset) pagination - cursors are opaque strings returned by a
+// previous page; `after: null` requests the first page in cursor mode
+export interface ICursorPaginationInput {
+  after?: string | null;
+  before?: string | null;
+  limit?: number;
+}
+
+export interface IPaginatedResult<T> {
+  items: T[];
+  total: number;
+  hasMore: boolean;
+  // Only set when the filter used `after`/`before`
+  nextCursor?: string | null;
+  previousCursor?: string | null;
+}
+
 // Interface Segregation - base CRUD operations
 export interface IRepository<T, CreateInput, UpdateInput, FilterInput> {
   findById(id: string): Promise<T | null>;
-  findMany(
-    filter: FilterInput,
-  ): Promise<{ items: T[]; total: number; hasMore: boolean }>;
+  findMany(filter: FilterInput): Promise<IPaginatedResult<T>>;
   create(input: CreateInput): Promise<T>;
   update(id: string, input: UpdateInput): Promise<T>;
   delete(id: string): Promise<void>;
@@ -29,9 +44,7 @@ export abstract class BaseService<T, CreateInput, UpdateInput, FilterInput> {
     return this.repository.findById(id);
   }
 
-  async getMany(
-    filter: FilterInput,
-  ): Promise<{ items: T[]; total: number; hasMore: boolean }> {
+  async getMany(filter: FilterInput): Promise<IPaginatedResult<T>> {
     return this.repository.findMany(filter);
   }
 
@@ -0,0 +1,196 @@
+// Cursor (keyset) pagination shared by the providers
+// Single Responsibility: Opaque cursors and translating after/before to filters
+
+import type {
+  ICursorPageInfo,
+  IDatabaseError,
+  IDatabaseRecord,
+  IDatabaseResponse,
+  IQueryOptions,
+  QueryFilter,
+} from "@/shared/types/database";
+
+type OrderBy = NonNullable<IQueryOptions["orderBy"]>;
+
+export const CURSOR_ERROR_CODES = {
+  INVALID: "invalid_cursor",
+} as const;
+
+// Queries with `after` or `before` (even null) run in cursor mode
+export const isCursorQuery = (options: IQueryOptions): boolean =>
+  options.after !== undefined || options.before !== undefined;
+
+// `id` is always the last sort key so the cursor is stable
+export const withStableOrder = (orderBy: IQueryOptions["orderBy"]): OrderBy => {
+  const order = orderBy ?? [];
+  if (order.some(({ column }) => column === "id")) return order;
+  const ascending = order[order.length - 1]?.ascending ?? true;
+  return [...order, { column: "id", ascending }];
+};
+
+// Cursor = base64url(JSON of the sort key values)
+export const encodeCursor = (
+  row: IDatabaseRecord,
+  orderBy: OrderBy,
+): string => {
+  const json = JSON.stringify(orderBy.map(({ column }) => row[column] ?? null));
+  // encodeURIComponent keeps btoa ASCII-only for non-latin values
+  return btoa(encodeURIComponent(json))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+};
+
+export const decodeCursor = (cursor: string, orderBy: OrderBy): unknown[] => {
+  try {
+    const base64 = cursor.replace(/-/g, "+").replace(/_/g, "/");
+    const values = JSON.parse(decodeURIComponent(atob(base64)));
+    if (Array.isArray(values) && values.length === orderBy.length) {
+      return values;
+    }
+  } catch {
+    // handled below
+  }
+  const error: IDatabaseError = {
+    code: CURSOR_ERROR_CODES.INVALID,
+    message: "Invalid or stale pagination cursor",
+    hint: "Cursors are only valid for the same sort order they were created with",
+  };
+  throw error;
+};
+
+// NULL is the largest value: Postgres sorts NULLs last ascending and first
+// descending, and so does the in-memory provider. A NULL equals only NULL,
+// and comparisons against it never match, so they are spelled out here
+const equalTo = (column: string, value: unknown): QueryFilter =>
+  value === null
+    ? { column, operator: "is", value: null }
+    : { column, operator: "eq", value };
+
+// Rows past `value` in the direction of the operator; null when none can be
+const beyond = (
+  column: string,
+  value: unknown,
+  operator: "gt" | "lt",
+): QueryFilter | null => {
+  if (operator === "lt") {
+    return value === null
+      ? { column, operator: "not.is", value: null }
+      : { column, operator, value };
+  }
+  if (value === null) return null;
+  // The primary key is never NULL
+  if (column === "id") return { column, operator, value };
+  return {
+    type: "or",
+    filters: [
+      { column, operator, value },
+      { column, operator: "is", value: null },
+    ],
+  };
+};
+
+// (a > v1) OR (a = v1 AND b > v2) OR ... following each column's direction
+const buildKeysetFilter = (
+  orderBy: OrderBy,
+  values: unknown[],
+  forward: boolean,
+): QueryFilter => ({
+  type: "or",
+  filters: orderBy.flatMap(({ column, ascending = true }, index) => {
+    const strict = beyond(
+      column,
+      values[index],
+      ascending === forward ? "gt" : "lt",
+    );
+    if (!strict) return [];
+    const equalities = orderBy
+      .slice(0, index)
+      .map((previous, i) => equalTo(previous.column, values[i]));
+    return [{ type: "and" as const, filters: [...equalities, strict] }];
+  }),
+});
+
+// Pages backward when `before` is given; `before: null` is the last page
+const isForward = (options: IQueryOptions): boolean =>
+  options.before === undefined;
+
+// Turns after/before into filters + ordering. `before` fetches in reverse
+// order and `toCursorPage` undoes the reversal. Fetches one extra row to
+// know whether there are more pages. Throws IDatabaseError on a bad cursor.
+export const resolveCursorQuery = (options: IQueryOptions): IQueryOptions => {
+  const orderBy = withStableOrder(options.orderBy);
+  const forward = isForward(options);
+  const cursor = forward ? options.after : options.before;
+  const keyset = cursor
+    ? [buildKeysetFilter(orderBy, decodeCursor(cursor, orderBy), forward)]
+    : [];
+
+  return {
+    ...options,
+    after: undefined,
+    before: undefined,
+    // The sort keys must be in the result to build cursors
+    select: options.select && [
+      ...new Set([...options.select, ...orderBy.map(({ column }) => column)]),
+    ],
+    filters: [...(options.filters ?? []), ...keyset],
+    orderBy: forward
+      ? orderBy
+      : orderBy.map(({ column, ascending = true }) => ({
+          column,
+          ascending: !ascending,
+        })),
+    limit: options.limit !== undefined ? options.limit + 1 : undefined,
+    offset: undefined,
+  };
+};
+
+export const toCursorPage = <T extends IDatabaseRecord>(
+  rows: T[],
+  options: IQueryOptions,
+): { rows: T[]; pageInfo: ICursorPageInfo } => {
+  const orderBy = withStableOrder(options.orderBy);
+  const forward = isForward(options);
+  const hasExtra = options.limit !== undefined && rows.length > options.limit;
+  const trimmed = hasExtra ? rows.slice(0, options.limit) : rows;
+  const page = forward ? trimmed : [...trimmed].reverse();
+
+  // Rows on the far side of the cursor exist: it came from one of them
+  const hasNextPage = forward ? hasExtra : Boolean(options.before);
+  const hasPreviousPage = forward ? Boolean(options.after) : hasExtra;
+  const first = page[0];
+  const last = page[page.length - 1];
+
+  return {
+    rows: page,
+    pageInfo: {
+      nextCursor: hasNextPage && last ? encodeCursor(last, orderBy) : null,
+      previousCursor:
+        hasPreviousPage && first ? encodeCursor(first, orderBy) : null,
+      hasNextPage,
+      hasPreviousPage,
+    },
+  };
+};
+
+// Runs `select` in cursor mode and attaches `pageInfo` to the response
+export const selectWithCursor = async <T extends IDatabaseRecord>(
+  options: IQueryOptions,
+  select: (resolved: IQueryOptions) => Promise<IDatabaseResponse<T[]>>,
+  mapError: (error: unknown) => IDatabaseError = (error) =>
+    error as IDatabaseError,
+): Promise<IDatabaseResponse<T[]>> => {
+  let resolved: IQueryOptions;
+  try {
+    resolved = resolveCursorQuery(options);
+  } catch (error) {
+    return { data: null, error: mapError(error) };
+  }
+
+  const response = await select(resolved);
+  if (response.error || !response.data) return response;
+
+  const { rows, pageInfo } = toCursorPage(response.data, options);
+  return { ...response, data: rows, pageInfo };
+};
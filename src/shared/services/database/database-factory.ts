@@ -2,19 +2,23 @@ import type {
   IDatabaseProvider,
   DatabaseProviderType,
   IDatabaseProviderConfig,
+  IMemoryDatabaseConfig,
 } from "@/shared/types/database";
+import type { IOfflineDatabaseConfig } from "@/shared/types/offline";
+import type { IPostgresConfig } from "@/shared/types/postgres";
 
 // Factory para criação de database providers (Factory Pattern + Strategy Pattern)
 export class DatabaseProviderFactory {
   private static providers: Map<
     DatabaseProviderType,
-    () => Promise<IDatabaseProvider>
+    (config: IDatabaseProviderConfig) => Promise<IDatabaseProvider>
   > = new Map();
 
   // Registrar provider (Open/Closed Principle)
+  // A factory recebe a configuração para providers que dependem de options
   static registerProvider(
     type: DatabaseProviderType,
-    factory: () => Promise<IDatabaseProvider>,
+    factory: (config: IDatabaseProviderConfig) => Promise<IDatabaseProvider>,
   ): void {
     this.providers.set(type, factory);
   }
@@ -29,12 +33,30 @@ export class DatabaseProviderFactory {
       throw new Error(`Database provider '${config.type}' not registered`);
     }
 
-    const provider = await factory();
+    const provider = await factory(config);
+    if (config.offline) {
+      return this.createOfflineProvider(provider, config.offline);
+    }
     await provider.initialize();
 
     return provider;
   }
 
+  // Decorator: o provider offline inicializa o provider real e carrega a fila
+  private static async createOfflineProvider(
+    provider: IDatabaseProvider,
+    offline: IOfflineDatabaseConfig | true,
+  ): Promise<IDatabaseProvider> {
+    const { OfflineDatabaseProvider } = await import("./offline");
+    const offlineProvider = new OfflineDatabaseProvider(
+      provider,
+      offline === true ? {} : offline,
+    );
+    await offlineProvider.initialize();
+
+    return offlineProvider;
+  }
+
   // Listar providers disponíveis
   static getAvailableProviders(): DatabaseProviderType[] {
     return Array.from(this.providers.keys());
@@ -55,12 +77,25 @@ export class DatabaseProviderFactory {
 export const registerDefaultDatabaseProviders = async (): Promise<void> => {
   // Supabase Provider (padrão)
   DatabaseProviderFactory.registerProvider("supabase", async () => {
-    const { SupabaseDatabaseProvider } = await import(
-      "./providers/supabase-database-provider"
-    );
+    const { SupabaseDatabaseProvider } =
+      await import("./providers/supabase-database-provider");
     return new SupabaseDatabaseProvider();
   });
 
+  // Memory Provider (testes e desenvolvimento offline)
+  DatabaseProviderFactory.registerProvider("memory", async (config) => {
+    const { MemoryDatabaseProvider } =
+      await import("./providers/memory-database-provider");
+    return new MemoryDatabaseProvider(config.options as IMemoryDatabaseConfig);
+  });
+
+  // Postgres Provider (node-postgres, apenas server-side)
+  DatabaseProviderFactory.registerProvider("postgres", async (config) => {
+    const { PostgresDatabaseProvider } =
+      await import("./providers/postgres-database-provider");
+    return new PostgresDatabaseProvider(config.options as IPostgresConfig);
+  });
+
   // NOTE: Provider not yet implemented - uncomment when ready
   // PlanetScale Provider (futuro)
   // DatabaseProviderFactory.registerProvider("planetscale", async () => {
@@ -89,19 +124,22 @@ export const registerDefaultDatabaseProviders = async (): Promise<void> => {
   // });
 };
 
-// Utilitário para validar configuração
-export const validateDatabaseConfig = (
-  config: IDatabaseProviderConfig,
-): boolean => {
-  if (!config.type) {
-    throw new Error("Database provider type is required");
-  }
+// SRP: Postgres aceita connectionString, host + database ou um pool injetado
+const validatePostgresOptions = (options: IPostgresConfig): void => {
+  const hasConnection =
+    !!options.connectionString ||
+    (!!options.host && !!options.database) ||
+    !!options.pool;
 
-  if (!DatabaseProviderFactory.isProviderAvailable(config.type)) {
-    throw new Error(`Database provider '${config.type}' is not available`);
+  if (!hasConnection) {
+    throw new Error(
+      "Postgres requires connectionString, host and database, or pool in options",
+    );
   }
+};
 
-  // Validações específicas por provider
+// SRP: Validações específicas por provider
+const validateProviderOptions = (config: IDatabaseProviderConfig): void => {
   switch (config.type) {
     case "supabase":
       if (!config.options.url || !config.options.anonKey) {
@@ -109,6 +147,16 @@ export const validateDatabaseConfig = (
       }
       break;
 
+    case "memory":
+      if (config.options.seed && typeof config.options.seed !== "object") {
+        throw new Error("Memory provider seed must be an object of tables");
+      }
+      break;
+
+    case "postgres":
+      validatePostgresOptions(config.options as IPostgresConfig);
+      break;
+
     // NOTE: Validation for unimplemented providers - uncomment when ready
     // case "planetscale":
     //   if (
@@ -137,6 +185,21 @@ export const validateDatabaseConfig = (
     default:
       throw new Error(`Unknown database provider type: ${config.type}`);
   }
+};
+
+// Utilitário para validar configuração
+export const validateDatabaseConfig = (
+  config: IDatabaseProviderConfig,
+): boolean => {
+  if (!config.type) {
+    throw new Error("Database provider type is required");
+  }
+
+  if (!DatabaseProviderFactory.isProviderAvailable(config.type)) {
+    throw new Error(`Database provider '${config.type}' is not available`);
+  }
+
+  validateProviderOptions(config);
 
   return true;
 };
@@ -157,6 +220,25 @@ export class DatabaseConfigBuilder {
     return this;
   }
 
+  useMemory(seed?: IMemoryDatabaseConfig["seed"]): this {
+    this.config = {
+      type: "memory",
+      options: { seed },
+    };
+    return this;
+  }
+
+  // Aceita uma connection string ou a configuração completa do pool
+  usePostgres(config: IPostgresConfig | string): this {
+    this.config = {
+      type: "postgres",
+      options: {
+        ...(typeof config === "string" ? { connectionString: config } : config),
+      },
+    };
+    return this;
+  }
+
   // NOTE: Builder methods for unimplemented providers - uncomment when ready
   // usePlanetScale(
   //   host: string,
@@ -187,6 +269,12 @@ export class DatabaseConfigBuilder {
   //   return this;
   // }
 
+  // Chame depois de useX(): ativa a fila de escritas offline
+  withOffline(offline: IOfflineDatabaseConfig = {}): this {
+    this.config.offline = offline;
+    return this;
+  }
+
   withCustomOptions(options: Record<string, unknown>): this {
     this.config.options = { ...this.config.options, ...options };
     return this;
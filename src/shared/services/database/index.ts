@@ -7,28 +7,69 @@ export {
 } from "./database-factory";
 
 export { SupabaseDatabaseProvider } from "./providers/supabase-database-provider";
+export { MemoryDatabaseProvider } from "./providers/memory-database-provider";
+// PostgresDatabaseProvider fica fora do barrel: depende de "pg" (somente Node).
+// Importe de "./providers/postgres-database-provider" em código server-side.
+
+export { OfflineDatabaseProvider, OFFLINE_QUEUE_STORAGE_KEY } from "./offline";
+
+export { QueryBuilder, FilterGroupBuilder } from "./query-builder";
+export { parseRealtimeFilter, formatRealtimeFilter } from "./realtime-filter";
+export {
+  encodeCursor,
+  decodeCursor,
+  CURSOR_ERROR_CODES,
+} from "./cursor-pagination";
 
 // Re-export types
 export type {
   IDatabaseProvider,
   IDatabaseRecord,
   IQueryOptions,
+  FilterOperator,
+  IFilterCondition,
+  IFilterGroup,
+  QueryFilter,
+  IRelationSelect,
   IInsertData,
   IUpdateData,
   IUpsertData,
   IDatabaseResponse,
+  ICursorPageInfo,
   IDatabaseError,
   ITransactionContext,
+  ITransactionOptions,
+  TransactionMode,
   IRealtimeSubscription,
   IRealtimeEvent,
   RealtimeCallback,
+  RealtimeEventType,
+  RealtimeFilter,
+  IRealtimeSubscribeOptions,
+  IPresenceChannel,
+  IPresenceOptions,
+  PresenceCallback,
+  PresenceState,
   DatabaseProviderType,
   IDatabaseProviderConfig,
   ISupabaseConfig,
+  IMemoryDatabaseConfig,
   IPlanetScaleConfig,
   IPrismaConfig,
   IMongoDBConfig,
 } from "@/shared/types/database";
+export type { IPostgresConfig, IPostgresPool } from "@/shared/types/postgres";
+export type {
+  IOfflineDatabaseConfig,
+  IOfflineOperation,
+  IOfflineQueueLocks,
+  IOfflineQueueStatus,
+  IOfflineQueueStorage,
+  OfflineConflictStrategy,
+  OfflineMergeFunction,
+  OfflineOperationType,
+  OfflineStatusListener,
+} from "@/shared/types/offline";
 
 // Re-export provider components
 export {
@@ -41,9 +82,20 @@ export {
   withDatabase,
   DatabaseStatus,
 } from "@/shared/components/providers/database-provider";
+export { useLiveQuery } from "@/shared/hooks/use-live-query";
+export type {
+  IUseLiveQueryOptions,
+  IUseLiveQueryReturn,
+} from "@/shared/hooks/use-live-query";
+export { LiveQuery, acquireLiveQuery, releaseLiveQuery } from "./live-query";
+export type { ILiveQueryState } from "./live-query";
 
 // Re-import types and classes for helpers
-import type { IDatabaseProviderConfig } from "@/shared/types/database";
+import type {
+  IDatabaseProviderConfig,
+  IMemoryDatabaseConfig,
+} from "@/shared/types/database";
+import type { IPostgresConfig } from "@/shared/types/postgres";
 
 import { DatabaseConfigBuilder } from "./database-factory";
 
@@ -58,6 +110,12 @@ export const createDatabaseConfig = {
       .useSupabase(url, anonKey, serviceRoleKey)
       .build(),
 
+  memory: (seed?: IMemoryDatabaseConfig["seed"]): IDatabaseProviderConfig =>
+    DatabaseConfigBuilder.create().useMemory(seed).build(),
+
+  postgres: (config: IPostgresConfig | string): IDatabaseProviderConfig =>
+    DatabaseConfigBuilder.create().usePostgres(config).build(),
+
   // NOTE: Helpers for unimplemented providers - uncomment when ready
   // planetscale: (
   //   host: string,
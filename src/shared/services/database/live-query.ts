@@ -0,0 +1,287 @@
+// Live queries: a `select` result kept up to date by realtime events
+// Identical queries (same provider, table and options) share one instance,
+// one select and one subscription, however many components use them
+
+import type {
+  IDatabaseError,
+  IDatabaseProvider,
+  IDatabaseRecord,
+  IQueryOptions,
+  IRealtimeEvent,
+  IRealtimeSubscription,
+} from "@/shared/types/database";
+
+import { isCursorQuery } from "./cursor-pagination";
+import {
+  matchesFilters,
+  matchesWhere,
+  projectRow,
+  sortRows,
+} from "./providers/memory/query-engine";
+
+export interface ILiveQueryState<T extends IDatabaseRecord = IDatabaseRecord> {
+  data: T[] | null;
+  count: number | undefined;
+  isLoading: boolean;
+  error: IDatabaseError | null;
+}
+
+type LiveQueryListener<T extends IDatabaseRecord> = (
+  state: ILiveQueryState<T>,
+) => void;
+
+// Stable key: object keys sorted so { a, b } and { b, a } dedupe
+export const liveQueryKey = (table: string, options: IQueryOptions): string =>
+  JSON.stringify({ table, options }, (_key, value) =>
+    value && typeof value === "object" && !Array.isArray(value)
+      ? Object.fromEntries(
+          Object.entries(value).sort(([a], [b]) => a.localeCompare(b)),
+        )
+      : value,
+  );
+
+// Windows that cannot be patched locally are re-selected on every change:
+// offsets shift, relations are not in the event, cursors move, and a
+// projection without the sort columns cannot be re-sorted
+const needsRefetch = (options: IQueryOptions): boolean => {
+  const select = options.select;
+  const projected = !!select && !select.includes("*");
+  const sortable = (options.orderBy ?? []).every(
+    ({ column }) => !projected || select.includes(column),
+  );
+  return (
+    !!options.offset ||
+    !!options.relations?.length ||
+    isCursorQuery(options) ||
+    !sortable
+  );
+};
+
+export class LiveQuery<T extends IDatabaseRecord = IDatabaseRecord> {
+  private state: ILiveQueryState<T> = {
+    data: null,
+    count: undefined,
+    isLoading: true,
+    error: null,
+  };
+  private listeners = new Set<LiveQueryListener<T>>();
+  private subscription: IRealtimeSubscription | null = null;
+  // Events that arrive before the first select resolves
+  private buffered: IRealtimeEvent<IDatabaseRecord>[] | null = [];
+  private fetching: Promise<void> | null = null;
+  private stale = false;
+  private stopped = false;
+  private refetchOnChange: boolean;
+
+  constructor(
+    private provider: IDatabaseProvider,
+    private table: string,
+    private options: IQueryOptions,
+  ) {
+    this.refetchOnChange = needsRefetch(options);
+  }
+
+  async start(): Promise<void> {
+    try {
+      this.subscription = await this.provider.subscribe<IDatabaseRecord>(
+        this.table,
+        (event) => this.handleEvent(event),
+      );
+    } catch (error) {
+      // Still load the data once, it just will not update live
+      console.error("Live query could not subscribe:", error);
+      this.buffered = null;
+    }
+    await this.refetch();
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    this.listeners.clear();
+    await this.subscription?.unsubscribe();
+    this.subscription = null;
+  }
+
+  getState(): ILiveQueryState<T> {
+    return this.state;
+  }
+
+  subscribe(listener: LiveQueryListener<T>): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Concurrent calls collapse into one follow-up select
+  refetch(): Promise<void> {
+    if (this.fetching) {
+      this.stale = true;
+      return this.fetching;
+    }
+    this.fetching = this.fetch().finally(() => {
+      this.fetching = null;
+      if (this.stale && !this.stopped) {
+        this.stale = false;
+        void this.refetch();
+      }
+    });
+    return this.fetching;
+  }
+
+  private async fetch(): Promise<void> {
+    const { data, error, count } = await this.provider.select<T>(
+      this.table,
+      this.options,
+    );
+    if (this.stopped) return;
+
+    if (error) {
+      this.setState({ error, isLoading: false });
+      return;
+    }
+    this.setState({ data: data ?? [], count, error: null, isLoading: false });
+
+    const buffered = this.buffered ?? [];
+    this.buffered = null;
+    buffered.forEach((event) => this.handleEvent(event));
+  }
+
+  private handleEvent(event: IRealtimeEvent<IDatabaseRecord>): void {
+    if (this.buffered) {
+      this.buffered.push(event);
+      return;
+    }
+    if (!this.affects(event)) return;
+
+    if (this.refetchOnChange) {
+      void this.refetch();
+      return;
+    }
+    this.applyEvent(event);
+  }
+
+  private matches(row: IDatabaseRecord | undefined): boolean {
+    return (
+      !!row &&
+      matchesWhere(row, this.options.where) &&
+      matchesFilters(row, this.options.filters)
+    );
+  }
+
+  private affects(event: IRealtimeEvent<IDatabaseRecord>): boolean {
+    const id = event.new?.id ?? event.old?.id;
+    const cached = (this.state.data ?? []).some((row) => row.id === id);
+    return cached || this.matches(event.new);
+  }
+
+  private applyEvent(event: IRealtimeEvent<IDatabaseRecord>): void {
+    const rows = (this.state.data ?? []) as IDatabaseRecord[];
+    const id = event.new?.id ?? event.old?.id;
+    const wasCached = rows.some((row) => row.id === id);
+    const incoming = event.eventType === "DELETE" ? undefined : event.new;
+    const keep = this.matches(incoming);
+
+    const remaining = rows.filter((row) => row.id !== id);
+    const next =
+      keep && incoming ? this.insertSorted(remaining, incoming) : remaining;
+
+    // A row left a full page or moved to its edge: only the server knows
+    // which row comes next
+    const edge = next.length < rows.length || next[next.length - 1]?.id === id;
+    if (wasCached && this.isPageFull(rows) && edge) {
+      void this.refetch();
+      return;
+    }
+
+    this.setState({
+      data: next as T[],
+      count: this.adjustCount(Number(keep) - Number(wasCached)),
+    });
+  }
+
+  private isPageFull(rows: IDatabaseRecord[]): boolean {
+    const limit = this.options.limit;
+    return !!limit && rows.length >= limit;
+  }
+
+  private insertSorted(
+    rows: IDatabaseRecord[],
+    row: IDatabaseRecord,
+  ): IDatabaseRecord[] {
+    const sorted = sortRows(
+      [...rows, projectRow(row, this.options.select)],
+      this.options.orderBy,
+    );
+    return this.options.limit ? sorted.slice(0, this.options.limit) : sorted;
+  }
+
+  private adjustCount(delta: number): number | undefined {
+    return this.state.count === undefined
+      ? undefined
+      : this.state.count + delta;
+  }
+
+  private setState(patch: Partial<ILiveQueryState<T>>): void {
+    this.state = { ...this.state, ...patch };
+    this.listeners.forEach((listener) => listener(this.state));
+  }
+}
+
+// Registry: one LiveQuery per provider + key, released with the last user
+interface ILiveQueryEntry {
+  query: LiveQuery<any>; // eslint-disable-line @typescript-eslint/no-explicit-any
+  users: number;
+}
+
+const registries = new WeakMap<
+  IDatabaseProvider,
+  Map<string, ILiveQueryEntry>
+>();
+
+const registryFor = (
+  provider: IDatabaseProvider,
+): Map<string, ILiveQueryEntry> => {
+  let registry = registries.get(provider);
+  if (!registry) {
+    registry = new Map();
+    registries.set(provider, registry);
+  }
+  return registry;
+};
+
+export const acquireLiveQuery = <T extends IDatabaseRecord>(
+  provider: IDatabaseProvider,
+  table: string,
+  options: IQueryOptions = {},
+): LiveQuery<T> => {
+  const registry = registryFor(provider);
+  const key = liveQueryKey(table, options);
+  let entry = registry.get(key);
+
+  if (!entry) {
+    const query = new LiveQuery<T>(provider, table, options);
+    entry = { query, users: 0 };
+    registry.set(key, entry);
+    void query.start();
+  }
+  entry.users += 1;
+  return entry.query as LiveQuery<T>;
+};
+
+export const releaseLiveQuery = (
+  provider: IDatabaseProvider,
+  query: LiveQuery<any>, // eslint-disable-line @typescript-eslint/no-explicit-any
+): void => {
+  const registry = registryFor(provider);
+  for (const [key, entry] of registry) {
+    if (entry.query !== query) continue;
+
+    entry.users -= 1;
+    if (entry.users === 0) {
+      registry.delete(key);
+      void query.stop();
+    }
+    return;
+  }
+};
@@ -0,0 +1,270 @@
+// Offline Database Provider - Decorator over any IDatabaseProvider
+// Writes made while offline are queued, persisted through StorageService
+// and replayed in order when the connection comes back. Tabs of the same
+// origin share the queue; Web Locks keep them from losing or replaying writes
+
+import { StorageService } from "@/shared/services/storage";
+import type {
+  IDatabaseProvider,
+  IDatabaseRecord,
+  IDatabaseResponse,
+  IInsertData,
+  IQueryOptions,
+  IRealtimeSubscription,
+  ITransactionContext,
+  ITransactionOptions,
+  IUpdateData,
+  IUpsertData,
+  RealtimeCallback,
+} from "@/shared/types/database";
+import type {
+  IOfflineDatabaseConfig,
+  IOfflineQueueStatus,
+  OfflineStatusListener,
+} from "@/shared/types/offline";
+import type { IRealtimeSubscribeOptions } from "@/shared/types/realtime";
+
+import { OfflineQueue } from "./offline-queue";
+import { createQueueLocks } from "./queue-locks";
+import { OfflineReplayOperations } from "./replay-operations";
+import { OfflineRowVersions } from "./row-versions";
+import { OfflineSyncManager } from "./sync-manager";
+import { OfflineWriteOperations } from "./write-operations";
+
+export const OFFLINE_QUEUE_STORAGE_KEY = "database-offline-queue";
+
+const defaultIsOnline = (): boolean =>
+  typeof navigator === "undefined" || navigator.onLine !== false;
+
+export class OfflineDatabaseProvider implements IDatabaseProvider {
+  private queue: OfflineQueue;
+  private syncManager: OfflineSyncManager;
+  private writes: OfflineWriteOperations;
+  private versions: OfflineRowVersions;
+  private isOnline: () => boolean;
+
+  // Storage and presence are optional on the wrapped provider
+  joinPresence?: IDatabaseProvider["joinPresence"];
+  uploadFile?: IDatabaseProvider["uploadFile"];
+  downloadFile?: IDatabaseProvider["downloadFile"];
+  deleteFile?: IDatabaseProvider["deleteFile"];
+
+  constructor(
+    private provider: IDatabaseProvider,
+    config: IOfflineDatabaseConfig = {},
+  ) {
+    this.isOnline = config.isOnline ?? defaultIsOnline;
+    const storageKey = config.storageKey ?? OFFLINE_QUEUE_STORAGE_KEY;
+    const locks = config.locks ?? createQueueLocks();
+    const timestampColumn = config.timestampColumn ?? "updated_at";
+    this.versions = new OfflineRowVersions(timestampColumn);
+    this.queue = new OfflineQueue(
+      config.storage ?? new StorageService(),
+      storageKey,
+      config.maxAttempts ?? 3,
+      locks,
+    );
+    this.syncManager = new OfflineSyncManager(
+      this.queue,
+      new OfflineReplayOperations(
+        provider,
+        config.conflictStrategy ?? "last-write-wins",
+        timestampColumn,
+        this.versions,
+      ),
+      this.isOnline,
+      (task) => locks.run(`${storageKey}:sync`, task),
+    );
+    this.writes = new OfflineWriteOperations(
+      provider,
+      this.queue,
+      this.syncManager,
+      this.versions,
+    );
+
+    this.joinPresence = provider.joinPresence?.bind(provider);
+    this.uploadFile = provider.uploadFile?.bind(provider);
+    this.downloadFile = provider.downloadFile?.bind(provider);
+    this.deleteFile = provider.deleteFile?.bind(provider);
+  }
+
+  // Offline queue
+  getQueueStatus(): IOfflineQueueStatus {
+    return this.syncManager.getStatus();
+  }
+
+  onQueueStatusChange(listener: OfflineStatusListener): () => void {
+    return this.syncManager.subscribe(listener);
+  }
+
+  async syncQueue(): Promise<IOfflineQueueStatus> {
+    return this.syncManager.sync();
+  }
+
+  async clearFailedOperations(): Promise<void> {
+    await this.queue.clearFailed();
+    this.syncManager.notify();
+  }
+
+  async isConnected(): Promise<boolean> {
+    return this.isOnline() && this.provider.isConnected();
+  }
+
+  async getHealth(): Promise<{
+    status: "healthy" | "unhealthy";
+    details?: unknown;
+  }> {
+    return this.provider.getHealth();
+  }
+
+  // Queued writes
+  async insert<T extends IDatabaseRecord>(
+    table: string,
+    data: IInsertData | IInsertData[],
+  ): Promise<IDatabaseResponse<T[]>> {
+    return this.writes.insert<T>(table, data);
+  }
+
+  async update<T extends IDatabaseRecord>(
+    table: string,
+    id: string,
+    data: IUpdateData,
+  ): Promise<IDatabaseResponse<T>> {
+    return this.writes.update<T>(table, id, data);
+  }
+
+  async delete<T extends IDatabaseRecord>(
+    table: string,
+    id: string,
+  ): Promise<IDatabaseResponse<T>> {
+    return this.writes.delete<T>(table, id);
+  }
+
+  async upsert<T extends IDatabaseRecord>(
+    table: string,
+    data: IUpsertData | IUpsertData[],
+    conflictColumns?: string[],
+  ): Promise<IDatabaseResponse<T[]>> {
+    return this.writes.upsert<T>(table, data, conflictColumns);
+  }
+
+  async updateBy<T extends IDatabaseRecord>(
+    table: string,
+    field: string,
+    value: unknown,
+    data: IUpdateData,
+  ): Promise<IDatabaseResponse<T[]>> {
+    return this.writes.updateBy<T>(table, field, value, data);
+  }
+
+  async deleteBy<T extends IDatabaseRecord>(
+    table: string,
+    field: string,
+    value: unknown,
+  ): Promise<IDatabaseResponse<T[]>> {
+    return this.writes.deleteBy<T>(table, field, value);
+  }
+
+  // Reads, SQL and transactions go straight to the wrapped provider; rows
+  // read are the versions later queued writes are checked against
+  async select<T extends IDatabaseRecord>(
+    table: string,
+    options?: IQueryOptions,
+  ): Promise<IDatabaseResponse<T[]>> {
+    return this.seen(table, await this.provider.select<T>(table, options));
+  }
+
+  async selectOne<T extends IDatabaseRecord>(
+    table: string,
+    id: string,
+  ): Promise<IDatabaseResponse<T>> {
+    return this.seen(table, await this.provider.selectOne<T>(table, id));
+  }
+
+  async selectBy<T extends IDatabaseRecord>(
+    table: string,
+    field: string,
+    value: unknown,
+    options?: Omit<IQueryOptions, "where">,
+  ): Promise<IDatabaseResponse<T[]>> {
+    return this.seen(
+      table,
+      await this.provider.selectBy<T>(table, field, value, options),
+    );
+  }
+
+  async query<T = unknown>(
+    sql: string,
+    params?: unknown[],
+  ): Promise<IDatabaseResponse<T[]>> {
+    return this.provider.query<T>(sql, params);
+  }
+
+  async transaction<T>(
+    callback: (ctx: ITransactionContext) => Promise<T>,
+    options?: ITransactionOptions,
+  ): Promise<IDatabaseResponse<T>> {
+    return this.provider.transaction(callback, options);
+  }
+
+  async subscribe<T extends Record<string, any> = any>( // eslint-disable-line @typescript-eslint/no-explicit-any
+    table: string,
+    callback: RealtimeCallback<T>,
+    options?: IRealtimeSubscribeOptions,
+  ): Promise<IRealtimeSubscription> {
+    return this.provider.subscribe<T>(table, callback, options);
+  }
+
+  async unsubscribe(subscriptionId: string): Promise<void> {
+    return this.provider.unsubscribe(subscriptionId);
+  }
+
+  async count(
+    table: string,
+    options?: Pick<IQueryOptions, "where" | "filters">,
+  ): Promise<IDatabaseResponse<number>> {
+    return this.provider.count(table, options);
+  }
+
+  async exists(table: string, id: string): Promise<IDatabaseResponse<boolean>> {
+    return this.provider.exists(table, id);
+  }
+
+  async initialize(): Promise<void> {
+    await this.provider.initialize();
+    await this.queue.load();
+
+    if (typeof window !== "undefined") {
+      window.addEventListener("online", this.handleOnline);
+      window.addEventListener("offline", this.handleOffline);
+    }
+    if (this.isOnline() && this.queue.size > 0) {
+      void this.syncManager.sync();
+    }
+  }
+
+  async cleanup(): Promise<void> {
+    if (typeof window !== "undefined") {
+      window.removeEventListener("online", this.handleOnline);
+      window.removeEventListener("offline", this.handleOffline);
+    }
+    await this.provider.cleanup();
+  }
+
+  // Helpers (Single Responsibility)
+  private seen<R>(
+    table: string,
+    response: IDatabaseResponse<R>,
+  ): IDatabaseResponse<R> {
+    this.versions.see(table, response.data);
+    return response;
+  }
+
+  private handleOnline = (): void => {
+    void this.syncManager.sync();
+  };
+
+  private handleOffline = (): void => {
+    this.syncManager.notify();
+  };
+}
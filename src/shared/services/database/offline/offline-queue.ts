@@ -0,0 +1,126 @@
+// Offline Queue for Offline Database Provider
+// Single Responsibility: Keep pending writes in order and persist them
+//
+// Every tab shares the persisted queue: changes re-read it under a lock, so
+// one tab never overwrites what another queued
+
+import type { IDatabaseError } from "@/shared/types/database";
+import type {
+  IOfflineOperation,
+  IOfflineQueueLocks,
+  IOfflineQueueStorage,
+} from "@/shared/types/offline";
+
+interface IPersistedQueue {
+  pending: IOfflineOperation[];
+  failed: IOfflineOperation[];
+}
+
+export type NewOfflineOperation = Omit<
+  IOfflineOperation,
+  "id" | "queuedAt" | "attempts"
+>;
+
+export class OfflineQueue {
+  // Last copy read from storage
+  private pending: IOfflineOperation[] = [];
+  private failed: IOfflineOperation[] = [];
+
+  constructor(
+    private storage: IOfflineQueueStorage,
+    private storageKey: string,
+    private maxAttempts: number,
+    private locks: IOfflineQueueLocks,
+  ) {}
+
+  // Picks up what other tabs queued or replayed since the last change
+  async load(): Promise<void> {
+    await this.mutate(() => undefined);
+  }
+
+  async enqueue(operation: NewOfflineOperation): Promise<IOfflineOperation> {
+    const queued: IOfflineOperation = {
+      ...operation,
+      id: crypto.randomUUID(),
+      queuedAt: new Date().toISOString(),
+      attempts: 0,
+    };
+    await this.mutate((queue) => {
+      queue.pending.push(queued);
+    });
+    return queued;
+  }
+
+  peek(): IOfflineOperation | undefined {
+    return this.pending[0];
+  }
+
+  async complete(operationId: string): Promise<void> {
+    await this.mutate((queue) => {
+      queue.pending = queue.pending.filter((op) => op.id !== operationId);
+    });
+  }
+
+  // Keeps the operation at the head until maxAttempts, then parks it in `failed`
+  async recordFailure(
+    operationId: string,
+    error: IDatabaseError,
+  ): Promise<void> {
+    await this.mutate((queue) => {
+      const operation = queue.pending.find((op) => op.id === operationId);
+      if (!operation) return;
+
+      operation.attempts += 1;
+      operation.lastError = error;
+      if (operation.attempts >= this.maxAttempts) {
+        queue.pending = queue.pending.filter((op) => op.id !== operationId);
+        queue.failed.push(operation);
+      }
+    });
+  }
+
+  async clearFailed(): Promise<void> {
+    await this.mutate((queue) => {
+      queue.failed = [];
+    });
+  }
+
+  get size(): number {
+    return this.pending.length;
+  }
+
+  getPending(): IOfflineOperation[] {
+    return [...this.pending];
+  }
+
+  getFailed(): IOfflineOperation[] {
+    return [...this.failed];
+  }
+
+  // Read, change and write back while no other tab can
+  private async mutate(
+    change: (queue: IPersistedQueue) => void,
+  ): Promise<void> {
+    await this.locks.run(this.storageKey, async () => {
+      const persisted = await this.storage.get<IPersistedQueue>(
+        this.storageKey,
+      );
+      const queue = {
+        pending: persisted?.pending ?? [],
+        failed: persisted?.failed ?? [],
+      };
+      change(queue);
+      await this.persist(queue);
+      this.pending = queue.pending;
+      this.failed = queue.failed;
+    });
+  }
+
+  private async persist(queue: IPersistedQueue): Promise<void> {
+    if (queue.pending.length === 0 && queue.failed.length === 0) {
+      await this.storage.remove(this.storageKey);
+      return;
+    }
+    await this.storage.set<IPersistedQueue>(this.storageKey, queue);
+  }
+}
@@ -0,0 +1,34 @@
+// Queue Locks for Offline Database Provider
+// Single Responsibility: Serialize queue access across the tabs sharing it
+//
+// Web Locks when the browser has them; otherwise only this tab is serialized
+
+import type { IOfflineQueueLocks } from "@/shared/types/offline";
+
+export class WebLocksQueueLocks implements IOfflineQueueLocks {
+  constructor(private locks: LockManager) {}
+
+  async run<T>(name: string, task: () => Promise<T>): Promise<T> {
+    return this.locks.request(name, () => task());
+  }
+}
+
+// Chains the tasks of each name, so one runs at a time
+export class LocalQueueLocks implements IOfflineQueueLocks {
+  private tails = new Map<string, Promise<unknown>>();
+
+  async run<T>(name: string, task: () => Promise<T>): Promise<T> {
+    const result = (this.tails.get(name) ?? Promise.resolve()).then(task);
+    const tail = result.catch(() => undefined);
+    this.tails.set(name, tail);
+    void tail.then(() => {
+      if (this.tails.get(name) === tail) this.tails.delete(name);
+    });
+    return result;
+  }
+}
+
+export const createQueueLocks = (): IOfflineQueueLocks =>
+  typeof navigator !== "undefined" && navigator.locks
+    ? new WebLocksQueueLocks(navigator.locks)
+    : new LocalQueueLocks();
@@ -0,0 +1,178 @@
+// Replay Operations for Offline Database Provider
+// Single Responsibility: Apply one queued write and resolve conflicts
+
+import type {
+  IDatabaseError,
+  IDatabaseProvider,
+  IDatabaseRecord,
+  IUpdateData,
+} from "@/shared/types/database";
+import type {
+  IOfflineOperation,
+  OfflineConflictStrategy,
+} from "@/shared/types/offline";
+
+import type { OfflineRowVersions } from "./row-versions";
+
+// Every provider reports a missing row with the PostgREST code
+const NOT_FOUND_CODE = "PGRST116";
+
+const NETWORK_ERROR_PATTERN =
+  /fetch|network|offline|ECONNREFUSED|ECONNRESET|ETIMEDOUT|ENOTFOUND/i;
+
+export const isNetworkError = (error: IDatabaseError): boolean =>
+  NETWORK_ERROR_PATTERN.test(`${error.code} ${error.message}`);
+
+// Writes to one row by id, the only ones checked for conflicts
+type KeyedOperation = IOfflineOperation & { recordId: string };
+
+const isKeyed = (operation: IOfflineOperation): operation is KeyedOperation =>
+  operation.recordId !== undefined;
+
+export interface IReplayResult {
+  error: IDatabaseError | null;
+  // The server copy changed since the version the local write was made on
+  conflict: boolean;
+}
+
+export class OfflineReplayOperations {
+  // Timestamps the server returned for our own replayed writes, so a later
+  // queued write to the same row is not mistaken for a conflict
+  private ownWrites = new Map<string, unknown>();
+
+  constructor(
+    private provider: IDatabaseProvider,
+    private strategy: OfflineConflictStrategy,
+    private timestampColumn: string,
+    private versions: OfflineRowVersions,
+  ) {}
+
+  async replay(operation: IOfflineOperation): Promise<IReplayResult> {
+    if (!isKeyed(operation)) {
+      return { error: await this.replayUnkeyed(operation), conflict: false };
+    }
+
+    const remote = await this.provider.selectOne(
+      operation.table,
+      operation.recordId,
+    );
+    if (remote.error && remote.error.code !== NOT_FOUND_CODE) {
+      return { error: remote.error, conflict: false };
+    }
+
+    if (!remote.data) return this.replayMissing(operation);
+
+    const { data, conflict } = this.resolve(operation, remote.data);
+    if (data === null) return { error: null, conflict };
+
+    const error =
+      operation.type === "delete"
+        ? (await this.provider.delete(operation.table, operation.recordId))
+            .error
+        : await this.write(operation, data);
+    return { error, conflict };
+  }
+
+  private async replayMissing(
+    operation: KeyedOperation,
+  ): Promise<IReplayResult> {
+    // Deleted on the server: an update has nothing to apply to
+    if (operation.type === "update") return { error: null, conflict: true };
+    if (operation.type === "delete") return { error: null, conflict: false };
+    if (operation.type === "upsert") {
+      return {
+        error: await this.write(operation, operation.data ?? {}),
+        conflict: false,
+      };
+    }
+
+    const { data, error } = await this.provider.insert(
+      operation.table,
+      operation.data ?? {},
+    );
+    this.remember(operation, data?.[0]);
+    return { error, conflict: false };
+  }
+
+  // Nothing to compare with the server: replayed as queued
+  private async replayUnkeyed(
+    operation: IOfflineOperation,
+  ): Promise<IDatabaseError | null> {
+    const { table, filter, data = {} } = operation;
+    if (operation.type === "deleteBy" && filter) {
+      return (await this.provider.deleteBy(table, filter.field, filter.value))
+        .error;
+    }
+
+    const response =
+      operation.type === "updateBy" && filter
+        ? await this.provider.updateBy(table, filter.field, filter.value, data)
+        : await this.provider.upsert(table, data, operation.conflictColumns);
+    // Later queued writes to these rows are ours too
+    response.data?.forEach((record) =>
+      this.remember({ ...operation, recordId: String(record.id) }, record),
+    );
+    return response.error;
+  }
+
+  private async write(
+    operation: KeyedOperation,
+    data: IUpdateData,
+  ): Promise<IDatabaseError | null> {
+    if (operation.type === "upsert") {
+      const response = await this.provider.upsert(
+        operation.table,
+        { ...data, id: operation.recordId },
+        operation.conflictColumns,
+      );
+      this.remember(operation, response.data?.[0]);
+      return response.error;
+    }
+
+    const response = await this.provider.update(
+      operation.table,
+      operation.recordId,
+      data,
+    );
+    this.remember(operation, response.data);
+    return response.error;
+  }
+
+  private resolve(
+    operation: KeyedOperation,
+    remote: IDatabaseRecord,
+  ): { data: IUpdateData | null; conflict: boolean } {
+    if (!this.changedSince(operation, remote)) {
+      return { data: operation.data ?? {}, conflict: false };
+    }
+    if (this.strategy === "last-write-wins") {
+      return { data: null, conflict: true };
+    }
+    return { data: this.strategy(operation, remote), conflict: true };
+  }
+
+  private changedSince(
+    operation: KeyedOperation,
+    remote: IDatabaseRecord,
+  ): boolean {
+    const stamp = remote[this.timestampColumn];
+    if (typeof stamp !== "string") return false;
+    if (this.ownWrites.get(this.keyFor(operation)) === stamp) return false;
+    // Both sides come from the server clock; a row never read has no version
+    if (operation.baseVersion === undefined) return false;
+    return stamp !== operation.baseVersion;
+  }
+
+  private remember(
+    operation: KeyedOperation,
+    record: IDatabaseRecord | null | undefined,
+  ): void {
+    if (!record) return;
+    this.versions.see(operation.table, record);
+    this.ownWrites.set(this.keyFor(operation), record[this.timestampColumn]);
+  }
+
+  private keyFor(operation: KeyedOperation): string {
+    return `${operation.table}:${operation.recordId}`;
+  }
+}
@@ -0,0 +1,26 @@
+// Row Versions for Offline Database Provider
+// Single Responsibility: Remember the server timestamp last seen per row
+//
+// A queued write carries the version it was made against, so replay can
+// tell whether the server changed since without trusting the client clock
+
+import type { IDatabaseRecord } from "@/shared/types/database";
+
+export class OfflineRowVersions {
+  private versions = new Map<string, string>();
+
+  constructor(private timestampColumn: string) {}
+
+  see(table: string, data: unknown): void {
+    for (const record of Array.isArray(data) ? data : [data]) {
+      if (!record || typeof record !== "object") continue;
+      const { id, [this.timestampColumn]: stamp } = record as IDatabaseRecord;
+      if (id === undefined || typeof stamp !== "string") continue;
+      this.versions.set(`${table}:${id}`, stamp);
+    }
+  }
+
+  get(table: string, id: string): string | undefined {
+    return this.versions.get(`${table}:${id}`);
+  }
+}
@@ -0,0 +1,109 @@
+// Sync Manager for Offline Database Provider
+// Single Responsibility: Drain the queue in order and publish its status
+//
+// One tab drains at a time: the others wait for the sync lock and then find
+// only what is still pending, so no write is replayed twice
+
+import type { IDatabaseError } from "@/shared/types/database";
+import type {
+  IOfflineQueueStatus,
+  OfflineStatusListener,
+} from "@/shared/types/offline";
+
+import type { OfflineQueue } from "./offline-queue";
+import {
+  isNetworkError,
+  type OfflineReplayOperations,
+} from "./replay-operations";
+
+export class OfflineSyncManager {
+  private listeners = new Set<OfflineStatusListener>();
+  private syncing: Promise<IOfflineQueueStatus> | null = null;
+  private conflicts = 0;
+  private lastSyncedAt: string | null = null;
+  private lastError: IDatabaseError | null = null;
+
+  constructor(
+    private queue: OfflineQueue,
+    private replayer: OfflineReplayOperations,
+    readonly isOnline: () => boolean,
+    // Runs the drain under the sync lock shared by every tab
+    private exclusive: (task: () => Promise<void>) => Promise<void>,
+  ) {}
+
+  // Concurrent calls share the same run
+  sync(): Promise<IOfflineQueueStatus> {
+    if (!this.syncing) {
+      this.syncing = this.exclusive(() => this.drain())
+        .finally(() => {
+          this.syncing = null;
+          this.notify();
+        })
+        .then(() => this.getStatus());
+      this.notify();
+    }
+    return this.syncing;
+  }
+
+  getStatus(): IOfflineQueueStatus {
+    return {
+      isOnline: this.isOnline(),
+      isSyncing: this.syncing !== null,
+      pending: this.queue.size,
+      failed: this.queue.getFailed(),
+      conflicts: this.conflicts,
+      lastSyncedAt: this.lastSyncedAt,
+      lastError: this.lastError,
+    };
+  }
+
+  subscribe(listener: OfflineStatusListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  notify(): void {
+    const status = this.getStatus();
+    this.listeners.forEach((listener) => {
+      try {
+        listener(status);
+      } catch (error) {
+        console.error("Offline status listener failed:", error);
+      }
+    });
+  }
+
+  private async drain(): Promise<void> {
+    await this.queue.load();
+    let operation = this.queue.peek();
+
+    while (operation && this.isOnline()) {
+      const { error, conflict } = await this.replayer.replay(operation);
+      if (conflict) this.conflicts += 1;
+
+      if (error && isNetworkError(error)) {
+        // Connection dropped mid-sync: keep the rest for the next reconnect
+        this.lastError = error;
+        return;
+      }
+
+      if (error) {
+        this.lastError = error;
+        await this.queue.recordFailure(operation.id, error);
+        // Still under maxAttempts: retry on the next sync, keeping the order
+        if (this.queue.peek()?.id === operation.id) return;
+      } else {
+        await this.queue.complete(operation.id);
+      }
+      this.notify();
+      operation = this.queue.peek();
+    }
+
+    if (this.queue.size === 0) {
+      this.lastSyncedAt = new Date().toISOString();
+      this.lastError = null;
+    }
+  }
+}
@@ -0,0 +1,221 @@
+// Write Operations for Offline Database Provider
+// Single Responsibility: Send writes online or queue them
+
+import type {
+  IDatabaseProvider,
+  IDatabaseRecord,
+  IDatabaseResponse,
+  IInsertData,
+  IUpdateData,
+  IUpsertData,
+} from "@/shared/types/database";
+
+import type { NewOfflineOperation, OfflineQueue } from "./offline-queue";
+import { isNetworkError } from "./replay-operations";
+import type { OfflineRowVersions } from "./row-versions";
+import type { OfflineSyncManager } from "./sync-manager";
+
+const toArray = <T>(data: T | T[]): T[] =>
+  Array.isArray(data) ? data : [data];
+
+export class OfflineWriteOperations {
+  constructor(
+    private provider: IDatabaseProvider,
+    private queue: OfflineQueue,
+    private syncManager: OfflineSyncManager,
+    private versions: OfflineRowVersions,
+  ) {}
+
+  async insert<T extends IDatabaseRecord>(
+    table: string,
+    data: IInsertData | IInsertData[],
+  ): Promise<IDatabaseResponse<T[]>> {
+    return this.writeThrough(
+      table,
+      () => this.provider.insert<T>(table, data),
+      () => this.queueInsert<T>(table, data),
+    );
+  }
+
+  async update<T extends IDatabaseRecord>(
+    table: string,
+    id: string,
+    data: IUpdateData,
+  ): Promise<IDatabaseResponse<T>> {
+    return this.writeThrough(
+      table,
+      () => this.provider.update<T>(table, id, data),
+      () =>
+        this.queueWrite<T>(
+          {
+            type: "update",
+            table,
+            recordId: id,
+            data,
+            baseVersion: this.versions.get(table, id),
+          },
+          { ...data, id },
+        ),
+    );
+  }
+
+  async delete<T extends IDatabaseRecord>(
+    table: string,
+    id: string,
+  ): Promise<IDatabaseResponse<T>> {
+    return this.writeThrough(
+      table,
+      () => this.provider.delete<T>(table, id),
+      () =>
+        this.queueWrite<T>(
+          {
+            type: "delete",
+            table,
+            recordId: id,
+            baseVersion: this.versions.get(table, id),
+          },
+          { id },
+        ),
+    );
+  }
+
+  async upsert<T extends IDatabaseRecord>(
+    table: string,
+    data: IUpsertData | IUpsertData[],
+    conflictColumns?: string[],
+  ): Promise<IDatabaseResponse<T[]>> {
+    return this.writeThrough(
+      table,
+      () => this.provider.upsert<T>(table, data, conflictColumns),
+      () => this.queueUpsert<T>(table, data, conflictColumns),
+    );
+  }
+
+  async updateBy<T extends IDatabaseRecord>(
+    table: string,
+    field: string,
+    value: unknown,
+    data: IUpdateData,
+  ): Promise<IDatabaseResponse<T[]>> {
+    return this.writeThrough(
+      table,
+      () => this.provider.updateBy<T>(table, field, value, data),
+      () =>
+        this.queueFiltered<T>({
+          type: "updateBy",
+          table,
+          filter: { field, value },
+          data,
+        }),
+    );
+  }
+
+  async deleteBy<T extends IDatabaseRecord>(
+    table: string,
+    field: string,
+    value: unknown,
+  ): Promise<IDatabaseResponse<T[]>> {
+    return this.writeThrough(
+      table,
+      () => this.provider.deleteBy<T>(table, field, value),
+      () =>
+        this.queueFiltered<T>({
+          type: "deleteBy",
+          table,
+          filter: { field, value },
+        }),
+    );
+  }
+
+  // Pending writes go first, so a write made online never overtakes them
+  private async writeThrough<R>(
+    table: string,
+    direct: () => Promise<IDatabaseResponse<R>>,
+    enqueue: () => Promise<IDatabaseResponse<R>>,
+  ): Promise<IDatabaseResponse<R>> {
+    // Another tab may have queued writes since the last look
+    if (this.syncManager.isOnline()) await this.queue.load();
+    if (this.syncManager.isOnline() && this.queue.size === 0) {
+      const response = await direct();
+      this.versions.see(table, response.data);
+      if (!response.error || !isNetworkError(response.error)) return response;
+    }
+
+    const response = await enqueue();
+    if (this.syncManager.isOnline()) void this.syncManager.sync();
+    return response;
+  }
+
+  private async queueInsert<T>(
+    table: string,
+    data: IInsertData | IInsertData[],
+  ): Promise<IDatabaseResponse<T[]>> {
+    // Ids are assigned locally so later queued writes can target the row
+    const records = toArray(data).map((record) => ({
+      ...record,
+      id: (record.id as string | undefined) ?? crypto.randomUUID(),
+    }));
+
+    for (const record of records) {
+      await this.queue.enqueue({
+        type: "insert",
+        table,
+        recordId: record.id,
+        data: record,
+      });
+    }
+    this.syncManager.notify();
+    return {
+      data: records as unknown as T[],
+      error: null,
+      count: records.length,
+    };
+  }
+
+  // Rows without an id keep none: the conflict columns pick the row
+  private async queueUpsert<T>(
+    table: string,
+    data: IUpsertData | IUpsertData[],
+    conflictColumns?: string[],
+  ): Promise<IDatabaseResponse<T[]>> {
+    const records = toArray(data);
+
+    for (const record of records) {
+      await this.queue.enqueue({
+        type: "upsert",
+        table,
+        recordId: record.id,
+        data: record,
+        conflictColumns,
+        baseVersion:
+          record.id === undefined
+            ? undefined
+            : this.versions.get(table, record.id),
+      });
+    }
+    this.syncManager.notify();
+    return {
+      data: records as unknown as T[],
+      error: null,
+      count: records.length,
+    };
+  }
+
+  // The matching rows are only known once the write reaches the server
+  private async queueFiltered<T>(
+    operation: NewOfflineOperation,
+  ): Promise<IDatabaseResponse<T[]>> {
+    await this.queue.enqueue(operation);
+    this.syncManager.notify();
+    return { data: [], error: null };
+  }
+
+  private async queueWrite<T>(
+    operation: NewOfflineOperation,
+    optimistic: IDatabaseRecord,
+  ): Promise<IDatabaseResponse<T>> {
+    await this.queue.enqueue(operation);
+    this.syncManager.notify();
+    return { data: optimistic as unknown as T, error: null };
+  }
+}
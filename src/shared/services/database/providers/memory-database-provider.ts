@@ -0,0 +1,2 @@
+// Re-export from modular implementation
+export { MemoryDatabaseProvider } from "./memory";
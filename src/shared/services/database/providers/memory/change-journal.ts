@@ -0,0 +1,79 @@
+// Change Journal for In-Memory Database Provider
+// Single Responsibility: Hold a transaction's writes until commit, undo them
+// on rollback
+//
+// Only the transaction's own writes are journaled, so rolling back leaves
+// whatever other callers wrote meanwhile in place
+
+import type { IDatabaseRecord } from "@/shared/types/database";
+import type { RealtimeEventType } from "@/shared/types/realtime";
+
+import { cloneRecord, type MemoryStore } from "./memory-store";
+
+export interface IMemoryChangeRows {
+  new?: IDatabaseRecord;
+  old?: IDatabaseRecord;
+}
+
+// Where CRUD operations report their writes: the realtime handler outside
+// a transaction, the journal inside one
+export interface IMemoryChangeSink {
+  emit(
+    table: string,
+    eventType: RealtimeEventType,
+    rows: IMemoryChangeRows,
+  ): void;
+}
+
+interface IMemoryChange extends IMemoryChangeRows {
+  table: string;
+  eventType: RealtimeEventType;
+}
+
+export class MemoryChangeJournal implements IMemoryChangeSink {
+  private changes: IMemoryChange[] = [];
+
+  constructor(private store: MemoryStore) {}
+
+  emit(
+    table: string,
+    eventType: RealtimeEventType,
+    rows: IMemoryChangeRows,
+  ): void {
+    this.changes.push({ table, eventType, ...rows });
+  }
+
+  // Publish the writes, in order
+  commit(sink: IMemoryChangeSink): void {
+    const changes = this.changes;
+    this.changes = [];
+    changes.forEach(({ table, eventType, ...rows }) =>
+      sink.emit(table, eventType, rows),
+    );
+  }
+
+  // Undo the writes, newest first
+  rollback(): void {
+    const changes = this.changes;
+    this.changes = [];
+    changes.reverse().forEach((change) => this.undo(change));
+  }
+
+  private undo({ table, eventType, new: added, old }: IMemoryChange): void {
+    const rows = this.store.getRows(table);
+
+    if (eventType === "INSERT" && added) {
+      this.store.setRows(
+        table,
+        rows.filter((row) => row.id !== added.id),
+      );
+    } else if (eventType === "UPDATE" && added && old) {
+      this.store.setRows(
+        table,
+        rows.map((row) => (row.id === added.id ? cloneRecord(old) : row)),
+      );
+    } else if (eventType === "DELETE" && old) {
+      rows.push(cloneRecord(old));
+    }
+  }
+}
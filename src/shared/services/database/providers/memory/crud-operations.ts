@@ -0,0 +1,263 @@
+// CRUD Operations for In-Memory Database Provider
+// Single Responsibility: Create, Read, Update, Delete operations
+
+import {
+  isCursorQuery,
+  selectWithCursor,
+} from "@/shared/services/database/cursor-pagination";
+import type {
+  IDatabaseError,
+  IDatabaseRecord,
+  IDatabaseResponse,
+  IInsertData,
+  IQueryOptions,
+  IUpdateData,
+  IUpsertData,
+} from "@/shared/types/database";
+
+import type { IMemoryChangeSink } from "./change-journal";
+import {
+  MEMORY_ERROR_CODES,
+  cloneRecord,
+  createMemoryError,
+  type MemoryStore,
+} from "./memory-store";
+import { matchesWhere, runQuery } from "./query-engine";
+import { MemoryRelationResolver } from "./relation-resolver";
+
+const toArray = <T>(data: T | T[]): T[] =>
+  Array.isArray(data) ? data : [data];
+
+const notFound = <T>(table: string, id: string): IDatabaseResponse<T> => ({
+  data: null,
+  error: createMemoryError(
+    MEMORY_ERROR_CODES.NOT_FOUND,
+    `Row '${id}' not found in '${table}'`,
+  ),
+});
+
+const duplicateKey = <T>(table: string, id: unknown): IDatabaseResponse<T> => ({
+  data: null,
+  error: createMemoryError(
+    MEMORY_ERROR_CODES.UNIQUE_VIOLATION,
+    `Duplicate key value '${id}' in '${table}'`,
+  ),
+});
+
+const idChanged = <T>(table: string, id: string): IDatabaseResponse<T> => ({
+  data: null,
+  error: createMemoryError(
+    MEMORY_ERROR_CODES.READ_ONLY_COLUMN,
+    `Cannot change the id of row '${id}' in '${table}'`,
+  ),
+});
+
+// Whether `data` would give `row` another id
+const changesId = (row: IDatabaseRecord, data: IUpdateData): boolean =>
+  data.id !== undefined && data.id !== row.id;
+
+export class MemoryCrudOperations {
+  private relations: MemoryRelationResolver;
+
+  constructor(
+    private store: MemoryStore,
+    // The realtime handler, or a transaction's journal
+    private realtime: IMemoryChangeSink,
+  ) {
+    this.relations = new MemoryRelationResolver(store);
+  }
+
+  async insert<T extends IDatabaseRecord>(
+    table: string,
+    data: IInsertData | IInsertData[],
+  ): Promise<IDatabaseResponse<T[]>> {
+    const rows = this.store.getRows(table);
+    const newRows = toArray(data).map((item) => this.createRow(item));
+
+    // Against the table and within the batch itself
+    const duplicate = newRows.find(
+      (row, index) =>
+        rows.some((existing) => existing.id === row.id) ||
+        newRows.findIndex((other) => other.id === row.id) !== index,
+    );
+    if (duplicate) return duplicateKey<T[]>(table, duplicate.id);
+
+    rows.push(...newRows);
+    newRows.forEach((row) =>
+      this.realtime.emit(table, "INSERT", { new: cloneRecord(row) }),
+    );
+
+    return { data: cloneRecord(newRows) as T[], error: null };
+  }
+
+  async select<T extends IDatabaseRecord>(
+    table: string,
+    options: IQueryOptions,
+  ): Promise<IDatabaseResponse<T[]>> {
+    if (isCursorQuery(options)) {
+      return selectWithCursor<T>(options, (resolved) =>
+        this.select<T>(table, resolved),
+      );
+    }
+
+    try {
+      const { rows, total } = runQuery(
+        this.store.getRows(table),
+        options,
+        (row) => this.relations.embed(row, options.relations),
+      );
+      return { data: cloneRecord(rows) as T[], error: null, count: total };
+    } catch (error) {
+      return { data: null, error: error as IDatabaseError, count: undefined };
+    }
+  }
+
+  async selectOne<T extends IDatabaseRecord>(
+    table: string,
+    id: string,
+  ): Promise<IDatabaseResponse<T>> {
+    const row = this.findById(table, id);
+    if (!row) return notFound<T>(table, id);
+    return { data: cloneRecord(row) as T, error: null };
+  }
+
+  async update<T extends IDatabaseRecord>(
+    table: string,
+    id: string,
+    data: IUpdateData,
+  ): Promise<IDatabaseResponse<T>> {
+    const row = this.findById(table, id);
+    if (!row) return notFound<T>(table, id);
+    if (changesId(row, data)) return idChanged<T>(table, id);
+    return { data: this.applyUpdate(table, row, data) as T, error: null };
+  }
+
+  async updateBy<T extends IDatabaseRecord>(
+    table: string,
+    field: string,
+    value: unknown,
+    data: IUpdateData,
+  ): Promise<IDatabaseResponse<T[]>> {
+    const matches = this.store
+      .getRows(table)
+      .filter((row) => matchesWhere(row, { [field]: value }));
+    const renamed = matches.find((row) => changesId(row, data));
+    if (renamed) return idChanged<T[]>(table, renamed.id);
+    const updated = matches.map((row) => this.applyUpdate(table, row, data));
+
+    return { data: updated as T[], error: null, count: updated.length };
+  }
+
+  async delete<T extends IDatabaseRecord>(
+    table: string,
+    id: string,
+  ): Promise<IDatabaseResponse<T>> {
+    const row = this.findById(table, id);
+    if (!row) return notFound<T>(table, id);
+
+    const [removed] = this.removeWhere(table, (candidate) => candidate === row);
+    return { data: removed as T, error: null };
+  }
+
+  async deleteBy<T extends IDatabaseRecord>(
+    table: string,
+    field: string,
+    value: unknown,
+  ): Promise<IDatabaseResponse<T[]>> {
+    const removed = this.removeWhere(table, (row) =>
+      matchesWhere(row, { [field]: value }),
+    );
+    return { data: removed as T[], error: null, count: removed.length };
+  }
+
+  // Checks the whole batch before writing, so a rejected upsert changes
+  // nothing: conflicts on other columns must not rename a row or insert an
+  // id that is taken
+  async upsert<T extends IDatabaseRecord>(
+    table: string,
+    data: IUpsertData | IUpsertData[],
+    conflictColumns: string[],
+  ): Promise<IDatabaseResponse<T[]>> {
+    const rows = this.store.getRows(table);
+    const plan = toArray(data).map((item) => ({
+      item,
+      existing: rows.find((row) =>
+        conflictColumns.every(
+          (column) =>
+            item[column] !== undefined && row[column] === item[column],
+        ),
+      ),
+    }));
+
+    const ids = new Set(rows.map((row) => row.id));
+    for (const { item, existing } of plan) {
+      if (existing) {
+        if (changesId(existing, item))
+          return idChanged<T[]>(table, existing.id);
+      } else if (item.id !== undefined) {
+        if (ids.has(item.id)) return duplicateKey<T[]>(table, item.id);
+        ids.add(item.id);
+      }
+    }
+
+    const results = plan.map(({ item, existing }) => {
+      if (existing) {
+        return this.applyUpdate(table, existing, item);
+      }
+
+      const row = this.createRow(item);
+      rows.push(row);
+      this.realtime.emit(table, "INSERT", { new: cloneRecord(row) });
+      return cloneRecord(row);
+    });
+
+    return { data: results as T[], error: null, count: results.length };
+  }
+
+  // Helpers (Single Responsibility)
+  private findById(table: string, id: string): IDatabaseRecord | undefined {
+    return this.store.getRows(table).find((row) => row.id === id);
+  }
+
+  private createRow(data: IInsertData): IDatabaseRecord {
+    const now = new Date().toISOString();
+    return cloneRecord({
+      created_at: now,
+      updated_at: now,
+      ...data,
+      id: (data.id as string | undefined) ?? crypto.randomUUID(),
+    });
+  }
+
+  private applyUpdate(
+    table: string,
+    row: IDatabaseRecord,
+    data: IUpdateData,
+  ): IDatabaseRecord {
+    const old = cloneRecord(row);
+    Object.assign(row, cloneRecord(data), {
+      updated_at: new Date().toISOString(),
+    });
+
+    const updated = cloneRecord(row);
+    this.realtime.emit(table, "UPDATE", { new: updated, old });
+    return updated;
+  }
+
+  private removeWhere(
+    table: string,
+    predicate: (row: IDatabaseRecord) => boolean,
+  ): IDatabaseRecord[] {
+    const rows = this.store.getRows(table);
+    const removed = rows.filter(predicate);
+    this.store.setRows(
+      table,
+      rows.filter((row) => !predicate(row)),
+    );
+
+    removed.forEach((row) =>
+      this.realtime.emit(table, "DELETE", { old: cloneRecord(row) }),
+    );
+    return cloneRecord(removed);
+  }
+}
@@ -0,0 +1,183 @@
+// In-Memory Database Provider - Modular Implementation
+// Main provider class that composes all operations
+// Useful for tests and offline development without a live Supabase
+
+import type {
+  IDatabaseProvider,
+  IDatabaseRecord,
+  IDatabaseResponse,
+  IInsertData,
+  IMemoryDatabaseConfig,
+  IQueryOptions,
+  IRealtimeSubscription,
+  ITransactionContext,
+  ITransactionOptions,
+  IUpdateData,
+  IUpsertData,
+  RealtimeCallback,
+} from "@/shared/types/database";
+import type { IRealtimeSubscribeOptions } from "@/shared/types/realtime";
+
+import { MemoryCrudOperations } from "./crud-operations";
+import { MemoryStore, type MemoryTables } from "./memory-store";
+import { MemoryRealtimeHandler } from "./realtime-handler";
+import { MemoryUtilityOperations } from "./utility-operations";
+
+export class MemoryDatabaseProvider implements IDatabaseProvider {
+  private store: MemoryStore;
+
+  // Composed operations
+  private crud: MemoryCrudOperations;
+  private realtime: MemoryRealtimeHandler;
+  private utilities: MemoryUtilityOperations;
+
+  constructor(config: IMemoryDatabaseConfig = {}) {
+    this.store = new MemoryStore(config.seed);
+    this.realtime = new MemoryRealtimeHandler();
+    this.crud = new MemoryCrudOperations(this.store, this.realtime);
+    this.utilities = new MemoryUtilityOperations(this.store, this.realtime);
+  }
+
+  async isConnected(): Promise<boolean> {
+    return true;
+  }
+
+  async getHealth(): Promise<{
+    status: "healthy" | "unhealthy";
+    details?: unknown;
+  }> {
+    return this.utilities.getHealth();
+  }
+
+  async insert<T extends IDatabaseRecord>(
+    table: string,
+    data: IInsertData | IInsertData[],
+  ): Promise<IDatabaseResponse<T[]>> {
+    return this.crud.insert<T>(table, data);
+  }
+
+  async select<T extends IDatabaseRecord>(
+    table: string,
+    options: IQueryOptions = {},
+  ): Promise<IDatabaseResponse<T[]>> {
+    return this.crud.select<T>(table, options);
+  }
+
+  async selectOne<T extends IDatabaseRecord>(
+    table: string,
+    id: string,
+  ): Promise<IDatabaseResponse<T>> {
+    return this.crud.selectOne<T>(table, id);
+  }
+
+  async selectBy<T extends IDatabaseRecord>(
+    table: string,
+    field: string,
+    value: unknown,
+    options: Omit<IQueryOptions, "where"> = {},
+  ): Promise<IDatabaseResponse<T[]>> {
+    return this.crud.select<T>(table, {
+      ...options,
+      where: { [field]: value },
+    });
+  }
+
+  async update<T extends IDatabaseRecord>(
+    table: string,
+    id: string,
+    data: IUpdateData,
+  ): Promise<IDatabaseResponse<T>> {
+    return this.crud.update<T>(table, id, data);
+  }
+
+  async updateBy<T extends IDatabaseRecord>(
+    table: string,
+    field: string,
+    value: unknown,
+    data: IUpdateData,
+  ): Promise<IDatabaseResponse<T[]>> {
+    return this.crud.updateBy<T>(table, field, value, data);
+  }
+
+  async delete<T extends IDatabaseRecord>(
+    table: string,
+    id: string,
+  ): Promise<IDatabaseResponse<T>> {
+    return this.crud.delete<T>(table, id);
+  }
+
+  async deleteBy<T extends IDatabaseRecord>(
+    table: string,
+    field: string,
+    value: unknown,
+  ): Promise<IDatabaseResponse<T[]>> {
+    return this.crud.deleteBy<T>(table, field, value);
+  }
+
+  async upsert<T extends IDatabaseRecord>(
+    table: string,
+    data: IUpsertData | IUpsertData[],
+    conflictColumns: string[] = ["id"],
+  ): Promise<IDatabaseResponse<T[]>> {
+    return this.crud.upsert<T>(table, data, conflictColumns);
+  }
+
+  async query<T = unknown>(): Promise<IDatabaseResponse<T[]>> {
+    return this.utilities.query<T>();
+  }
+
+  async transaction<T>(
+    callback: (ctx: ITransactionContext) => Promise<T>,
+    _options?: ITransactionOptions, // eslint-disable-line @typescript-eslint/no-unused-vars
+  ): Promise<IDatabaseResponse<T>> {
+    return this.utilities.transaction<T>(callback);
+  }
+
+  async subscribe<T extends Record<string, any> = any>( // eslint-disable-line @typescript-eslint/no-explicit-any
+    table: string,
+    callback: RealtimeCallback<T>,
+    options: IRealtimeSubscribeOptions = {},
+  ): Promise<IRealtimeSubscription> {
+    return this.realtime.subscribe<T>(table, callback, options);
+  }
+
+  async unsubscribe(subscriptionId: string): Promise<void> {
+    return this.realtime.unsubscribe(subscriptionId);
+  }
+
+  async count(
+    table: string,
+    options: Pick<IQueryOptions, "where" | "filters"> = {},
+  ): Promise<IDatabaseResponse<number>> {
+    return this.utilities.count(table, options);
+  }
+
+  async exists(table: string, id: string): Promise<IDatabaseResponse<boolean>> {
+    return this.utilities.exists(table, id);
+  }
+
+  async initialize(): Promise<void> {
+    // Nothing to connect to
+  }
+
+  async cleanup(): Promise<void> {
+    await this.realtime.cleanup();
+  }
+
+  // Test helpers: replace or inspect the whole dataset
+  reset(seed: MemoryTables = {}): void {
+    this.store.load(seed);
+  }
+
+  dump(): MemoryTables {
+    return this.store.snapshot();
+  }
+}
+
+// Re-export all components
+export { MemoryChangeJournal } from "./change-journal";
+export { MemoryCrudOperations } from "./crud-operations";
+export { MemoryRealtimeHandler } from "./realtime-handler";
+export { MemoryStore, type MemoryTables } from "./memory-store";
+export { MemoryTransactionContext } from "./transaction-context";
+export { MemoryUtilityOperations } from "./utility-operations";
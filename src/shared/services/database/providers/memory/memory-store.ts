@@ -0,0 +1,77 @@
+// Memory Store for In-Memory Database Provider
+// Single Responsibility: Hold table rows and snapshot/restore them
+
+import type { IDatabaseError, IDatabaseRecord } from "@/shared/types/database";
+
+export type MemoryTables = Record<string, IDatabaseRecord[]>;
+
+// Rows are cloned through JSON so callers never share references with the
+// store (mirrors what a real database round-trip does to Dates, etc.)
+export const cloneRecord = <T>(value: T): T =>
+  JSON.parse(JSON.stringify(value)) as T;
+
+// Error codes follow PostgREST/Postgres so consumers can handle both providers
+export const createMemoryError = (
+  code: string,
+  message: string,
+  details?: unknown,
+): IDatabaseError => ({
+  code,
+  message,
+  details,
+});
+
+export const MEMORY_ERROR_CODES = {
+  NOT_FOUND: "PGRST116",
+  UNIQUE_VIOLATION: "23505",
+  // Postgres' code for writing an identity column; `id` never changes
+  READ_ONLY_COLUMN: "428C9",
+  NOT_SUPPORTED: "not_supported",
+} as const;
+
+export class MemoryStore {
+  private tables = new Map<string, IDatabaseRecord[]>();
+
+  constructor(seed: MemoryTables = {}) {
+    this.load(seed);
+  }
+
+  getRows(table: string): IDatabaseRecord[] {
+    if (!this.tables.has(table)) {
+      this.tables.set(table, []);
+    }
+    return this.tables.get(table)!;
+  }
+
+  setRows(table: string, rows: IDatabaseRecord[]): void {
+    this.tables.set(table, rows);
+  }
+
+  getTableNames(): string[] {
+    return Array.from(this.tables.keys());
+  }
+
+  // Replace all tables with the given seed data
+  load(seed: MemoryTables): void {
+    this.tables.clear();
+    Object.entries(seed).forEach(([table, rows]) => {
+      this.tables.set(table, cloneRecord(rows));
+    });
+  }
+
+  snapshot(): MemoryTables {
+    const snapshot: MemoryTables = {};
+    this.tables.forEach((rows, table) => {
+      snapshot[table] = cloneRecord(rows);
+    });
+    return snapshot;
+  }
+
+  restore(snapshot: MemoryTables): void {
+    this.load(snapshot);
+  }
+
+  clear(): void {
+    this.tables.clear();
+  }
+}
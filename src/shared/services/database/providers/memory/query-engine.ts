@@ -0,0 +1,192 @@
+// Query Engine for In-Memory Database Provider
+// Single Responsibility: Evaluate IQueryOptions against plain rows
+
+import type {
+  FilterOperator,
+  IDatabaseRecord,
+  IQueryOptions,
+  QueryFilter,
+} from "@/shared/types/database";
+
+// Rows are stored as JSON (see cloneRecord): a Date is its ISO string
+const normalize = (value: unknown): unknown =>
+  value instanceof Date ? value.toISOString() : value;
+
+// Same semantics as CrudOperations.applyWhereConditions in the Supabase
+// provider: arrays mean IN, null means IS NULL, everything else is equality
+const matchesCondition = (actual: unknown, expected: unknown): boolean => {
+  if (Array.isArray(expected)) {
+    return expected.some((candidate) => normalize(candidate) === actual);
+  }
+  if (expected === null) {
+    return actual === null || actual === undefined;
+  }
+  return actual === normalize(expected);
+};
+
+export const matchesWhere = (
+  row: IDatabaseRecord,
+  where: IQueryOptions["where"],
+): boolean => {
+  if (!where) return true;
+  return Object.entries(where).every(([key, value]) =>
+    matchesCondition(row[key], value),
+  );
+};
+
+const isNullish = (value: unknown): boolean =>
+  value === null || value === undefined;
+
+// One ordering for filters and sorting, so keyset cursors (gt/lt on the
+// sort columns) page exactly where the sort put the rows. Strings compare
+// by code unit, like a "C" collation (ISO dates compare correctly too).
+// Values of different types are not comparable: NaN, so eq and the range
+// operators never match them and neq always does ("1" is not 1)
+const compareScalars = (a: unknown, b: unknown): number => {
+  const left = normalize(a);
+  const right = normalize(b);
+  if (typeof left !== typeof right) return NaN;
+  if (typeof left === "number" && typeof right === "number") {
+    return left - right;
+  }
+  if (typeof left === "boolean" && typeof right === "boolean") {
+    return Number(left) - Number(right);
+  }
+  const leftText = String(left);
+  const rightText = String(right);
+  if (leftText === rightText) return 0;
+  return leftText > rightText ? 1 : -1;
+};
+
+// LIKE patterns: % matches any sequence, _ matches a single character
+const likeToRegExp = (pattern: string, flags: string): RegExp => {
+  const source = pattern
+    .replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+    .replace(/%/g, ".*")
+    .replace(/_/g, ".");
+  return new RegExp(`^${source}$`, flags);
+};
+
+// Like SQL, comparisons against NULL never match (use `is` instead)
+const comparison =
+  (predicate: (result: number) => boolean) =>
+  (actual: unknown, expected: unknown): boolean =>
+    !isNullish(actual) && predicate(compareScalars(actual, expected));
+
+const like =
+  (flags: string) =>
+  (actual: unknown, expected: unknown): boolean =>
+    typeof actual === "string" &&
+    likeToRegExp(String(expected), flags).test(actual);
+
+const OPERATORS: Record<
+  FilterOperator,
+  (actual: unknown, expected: unknown) => boolean
+> = {
+  eq: comparison((result) => result === 0),
+  neq: comparison((result) => result !== 0),
+  gt: comparison((result) => result > 0),
+  gte: comparison((result) => result >= 0),
+  lt: comparison((result) => result < 0),
+  lte: comparison((result) => result <= 0),
+  in: (actual, expected) =>
+    (expected as unknown[]).some(
+      (candidate) => normalize(candidate) === actual,
+    ),
+  like: like(""),
+  ilike: like("i"),
+  is: (actual, expected) =>
+    expected === null ? isNullish(actual) : actual === expected,
+  "not.is": (actual, expected) =>
+    expected === null ? !isNullish(actual) : actual !== expected,
+};
+
+const matchesFilter = (row: IDatabaseRecord, filter: QueryFilter): boolean => {
+  if ("filters" in filter) {
+    const check = (nested: QueryFilter): boolean => matchesFilter(row, nested);
+    return filter.type === "or"
+      ? filter.filters.some(check)
+      : filter.filters.every(check);
+  }
+  return OPERATORS[filter.operator](row[filter.column], filter.value);
+};
+
+export const matchesFilters = (
+  row: IDatabaseRecord,
+  filters: IQueryOptions["filters"],
+): boolean => (filters ?? []).every((filter) => matchesFilter(row, filter));
+
+// Postgres ordering: NULLs sort last ascending and first descending
+export const compareValues = (a: unknown, b: unknown): number => {
+  const aIsNull = a === null || a === undefined;
+  const bIsNull = b === null || b === undefined;
+  if (aIsNull || bIsNull) {
+    return Number(aIsNull) - Number(bIsNull);
+  }
+  const result = compareScalars(a, b);
+  // Sorting needs a total order: a mixed column groups by type
+  return Number.isNaN(result) ? compareScalars(typeof a, typeof b) : result;
+};
+
+export const sortRows = (
+  rows: IDatabaseRecord[],
+  orderBy: IQueryOptions["orderBy"],
+): IDatabaseRecord[] => {
+  if (!orderBy || orderBy.length === 0) return rows;
+
+  return [...rows].sort((a, b) => {
+    for (const { column, ascending = true } of orderBy) {
+      const result = compareValues(a[column], b[column]);
+      if (result !== 0) {
+        return ascending ? result : -result;
+      }
+    }
+    return 0;
+  });
+};
+
+export const paginateRows = (
+  rows: IDatabaseRecord[],
+  limit: number | undefined,
+  offset: number | undefined,
+): IDatabaseRecord[] => {
+  const start = offset || 0;
+  const end = limit !== undefined ? start + limit : undefined;
+  return rows.slice(start, end);
+};
+
+export const projectRow = (
+  row: IDatabaseRecord,
+  select: IQueryOptions["select"],
+): IDatabaseRecord => {
+  if (!select || select.length === 0 || select.includes("*")) return row;
+
+  const projected: Record<string, unknown> = {};
+  select.forEach((column) => {
+    projected[column] = row[column];
+  });
+  return projected as IDatabaseRecord;
+};
+
+// Full pipeline: filter -> sort -> paginate -> embed relations -> project
+export const runQuery = (
+  rows: IDatabaseRecord[],
+  options: IQueryOptions,
+  embed: (row: IDatabaseRecord) => IDatabaseRecord = (row) => row,
+): { rows: IDatabaseRecord[]; total: number } => {
+  const filtered = rows.filter(
+    (row) =>
+      matchesWhere(row, options.where) && matchesFilters(row, options.filters),
+  );
+  const sorted = sortRows(filtered, options.orderBy);
+  const page = paginateRows(sorted, options.limit, options.offset);
+  const relationKeys = (options.relations ?? []).map(
+    (relation) => relation.alias ?? relation.table,
+  );
+  const select = options.select && [...options.select, ...relationKeys];
+
+  return {
+    rows: page.map((row) => projectRow(embed(row), select)),
+    total: filtered.length,
+  };
+};
@@ -0,0 +1,109 @@
+// Realtime Handler for In-Memory Database Provider
+// Single Responsibility: Dispatch change events to subscribers
+
+import {
+  matchesRealtimeFilter,
+  parseRealtimeFilter,
+} from "@/shared/services/database/realtime-filter";
+import type {
+  IDatabaseRecord,
+  IFilterCondition,
+  IRealtimeEvent,
+  IRealtimeSubscription,
+  RealtimeCallback,
+} from "@/shared/types/database";
+import type {
+  IRealtimeSubscribeOptions,
+  RealtimeEventType,
+} from "@/shared/types/realtime";
+
+interface IMemorySubscription {
+  table: string;
+  schema: string;
+  event: RealtimeEventType | "*";
+  filter?: IFilterCondition;
+  callback: RealtimeCallback<any>; // eslint-disable-line @typescript-eslint/no-explicit-any
+}
+
+export class MemoryRealtimeHandler {
+  private subscriptions: Map<string, IMemorySubscription> = new Map();
+  private subscriptionCounter = 0;
+
+  async subscribe<T extends Record<string, any> = any>( // eslint-disable-line @typescript-eslint/no-explicit-any
+    table: string,
+    callback: RealtimeCallback<T>,
+    options: IRealtimeSubscribeOptions = {},
+  ): Promise<IRealtimeSubscription> {
+    const subscriptionId = `mem_sub_${++this.subscriptionCounter}`;
+
+    this.subscriptions.set(subscriptionId, {
+      table,
+      schema: options.schema || "public",
+      event: options.event || "*",
+      // Parse now so an invalid filter fails on subscribe, not on dispatch
+      filter: options.filter ? parseRealtimeFilter(options.filter) : undefined,
+      callback,
+    });
+
+    return {
+      id: subscriptionId,
+      table,
+      unsubscribe: () => this.unsubscribe(subscriptionId),
+    };
+  }
+
+  async unsubscribe(subscriptionId: string): Promise<void> {
+    this.subscriptions.delete(subscriptionId);
+  }
+
+  emit(
+    table: string,
+    eventType: RealtimeEventType,
+    rows: { new?: IDatabaseRecord; old?: IDatabaseRecord },
+  ): void {
+    const event: IRealtimeEvent<IDatabaseRecord> = {
+      eventType,
+      new: rows.new,
+      old: rows.old,
+      table,
+      schema: "public",
+      commit_timestamp: new Date().toISOString(),
+    };
+
+    this.dispatch(event);
+  }
+
+  async cleanup(): Promise<void> {
+    this.subscriptions.clear();
+  }
+
+  getActiveSubscriptions(): string[] {
+    return Array.from(this.subscriptions.keys());
+  }
+
+  private matches(
+    subscription: IMemorySubscription,
+    event: IRealtimeEvent,
+  ): boolean {
+    if (subscription.table !== event.table) return false;
+    if (subscription.schema !== event.schema) return false;
+    if (subscription.event !== "*" && subscription.event !== event.eventType)
+      return false;
+    return matchesRealtimeFilter(
+      event as IRealtimeEvent<Record<string, unknown>>,
+      subscription.filter,
+    );
+  }
+
+  private dispatch(event: IRealtimeEvent<IDatabaseRecord>): void {
+    this.subscriptions.forEach((subscription) => {
+      if (!this.matches(subscription, event)) return;
+
+      try {
+        subscription.callback(event);
+      } catch (error) {
+        console.error("Realtime subscriber failed:", error);
+      }
+    });
+  }
+}
@@ -0,0 +1,69 @@
+// Relation Resolver for In-Memory Database Provider
+// Single Responsibility: Embed related rows (IQueryOptions.relations)
+//
+// Without a schema there are no foreign keys to infer, so every relation
+// must name its key: `foreignKey` (to-one) or `referencedBy` (to-many)
+
+import type { IDatabaseRecord, IRelationSelect } from "@/shared/types/database";
+
+import {
+  MEMORY_ERROR_CODES,
+  createMemoryError,
+  type MemoryStore,
+} from "./memory-store";
+import { projectRow } from "./query-engine";
+
+export class MemoryRelationResolver {
+  constructor(private store: MemoryStore) {}
+
+  // Throws IDatabaseError when a relation can't be resolved
+  embed(
+    row: IDatabaseRecord,
+    relations: IRelationSelect[] | undefined,
+  ): IDatabaseRecord {
+    if (!relations || relations.length === 0) return row;
+
+    const embedded: IDatabaseRecord = { ...row };
+    relations.forEach((relation) => {
+      embedded[relation.alias ?? relation.table] = this.resolve(row, relation);
+    });
+    return embedded;
+  }
+
+  private resolve(
+    row: IDatabaseRecord,
+    relation: IRelationSelect,
+  ): IDatabaseRecord | IDatabaseRecord[] | null {
+    const related = this.store.getRows(relation.table);
+
+    if (relation.foreignKey) {
+      const match = related.find(
+        (candidate) => candidate.id === row[relation.foreignKey!],
+      );
+      return match ? this.shape(match, relation) : null;
+    }
+
+    if (relation.referencedBy) {
+      return related
+        .filter((candidate) => candidate[relation.referencedBy!] === row.id)
+        .map((candidate) => this.shape(candidate, relation));
+    }
+
+    throw createMemoryError(
+      MEMORY_ERROR_CODES.NOT_SUPPORTED,
+      `Relation '${relation.table}' needs 'foreignKey' or 'referencedBy' in the in-memory provider.`,
+    );
+  }
+
+  // SRP: Nested relations first, then projection (keeps relation keys)
+  private shape(
+    row: IDatabaseRecord,
+    relation: IRelationSelect,
+  ): IDatabaseRecord {
+    const nestedKeys = (relation.relations ?? []).map(
+      (nested) => nested.alias ?? nested.table,
+    );
+    const select = relation.select && [...relation.select, ...nestedKeys];
+    return projectRow(this.embed(row, relation.relations), select);
+  }
+}
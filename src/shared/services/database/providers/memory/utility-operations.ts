@@ -0,0 +1,96 @@
+// Utility Operations for In-Memory Database Provider
+// Single Responsibility: Count, exists, health check, transactions
+
+import { toTransactionError } from "@/shared/services/database/transaction-utils";
+import type {
+  IDatabaseResponse,
+  IQueryOptions,
+  ITransactionContext,
+} from "@/shared/types/database";
+
+import { MemoryChangeJournal } from "./change-journal";
+import { MemoryCrudOperations } from "./crud-operations";
+import {
+  MEMORY_ERROR_CODES,
+  createMemoryError,
+  type MemoryStore,
+} from "./memory-store";
+import { matchesFilters, matchesWhere } from "./query-engine";
+import type { MemoryRealtimeHandler } from "./realtime-handler";
+import { MemoryTransactionContext } from "./transaction-context";
+
+export class MemoryUtilityOperations {
+  private transactionCounter = 0;
+
+  constructor(
+    private store: MemoryStore,
+    private realtime: MemoryRealtimeHandler,
+  ) {}
+
+  async getHealth(): Promise<{
+    status: "healthy" | "unhealthy";
+    details?: unknown;
+  }> {
+    return {
+      status: "healthy",
+      details: { tables: this.store.getTableNames().length },
+    };
+  }
+
+  async count(
+    table: string,
+    options: Pick<IQueryOptions, "where" | "filters">,
+  ): Promise<IDatabaseResponse<number>> {
+    const total = this.store
+      .getRows(table)
+      .filter(
+        (row) =>
+          matchesWhere(row, options.where) &&
+          matchesFilters(row, options.filters),
+      ).length;
+
+    return { data: total, error: null };
+  }
+
+  async exists(table: string, id: string): Promise<IDatabaseResponse<boolean>> {
+    return {
+      data: this.store.getRows(table).some((row) => row.id === id),
+      error: null,
+    };
+  }
+
+  // Raw SQL has no meaning without a SQL engine
+  async query<T = unknown>(): Promise<IDatabaseResponse<T[]>> {
+    return {
+      data: null,
+      error: createMemoryError(
+        MEMORY_ERROR_CODES.NOT_SUPPORTED,
+        "Raw SQL queries are not supported by the in-memory provider.",
+      ),
+    };
+  }
+
+  // The callback writes through its own journal: commit publishes the
+  // events, a throw undoes the writes. Both transaction modes behave the
+  // same here: the store is truly atomic.
+  async transaction<T>(
+    callback: (ctx: ITransactionContext) => Promise<T>,
+  ): Promise<IDatabaseResponse<T>> {
+    const journal = new MemoryChangeJournal(this.store);
+    const context = new MemoryTransactionContext(
+      `mem_tx_${++this.transactionCounter}`,
+      new MemoryCrudOperations(this.store, journal),
+    );
+
+    try {
+      const result = await callback(context);
+      journal.commit(this.realtime);
+      return { data: result, error: null };
+    } catch (error) {
+      journal.rollback();
+      return { data: null, error: toTransactionError(error) };
+    } finally {
+      context.isActive = false;
+    }
+  }
+}
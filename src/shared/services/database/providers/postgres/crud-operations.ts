@@ -0,0 +1,181 @@
+// CRUD Operations for Postgres Database Provider
+// Single Responsibility: Create, Read, Update, Delete operations
+
+import {
+  isCursorQuery,
+  selectWithCursor,
+} from "@/shared/services/database/cursor-pagination";
+import type {
+  IDatabaseError,
+  IDatabaseRecord,
+  IDatabaseResponse,
+  IInsertData,
+  IQueryOptions,
+  IUpdateData,
+  IUpsertData,
+} from "@/shared/types/database";
+import type { IPostgresExecutor } from "@/shared/types/postgres";
+
+import {
+  buildCountQuery,
+  buildDeleteQuery,
+  buildInsertQuery,
+  buildSelectQuery,
+  buildUpdateQuery,
+  buildUpsertQuery,
+  type ISqlQuery,
+} from "./sql-builder";
+
+// Same code PostgREST returns from .single(), so consumers handle every provider alike
+export const POSTGRES_NOT_FOUND_CODE = "PGRST116";
+
+type MapError = (error: unknown) => IDatabaseError;
+
+const toArray = <T>(data: T | T[]): T[] =>
+  Array.isArray(data) ? data : [data];
+
+export class PostgresCrudOperations {
+  // The executor is the pool, or a checked-out client inside a transaction
+  constructor(
+    private executor: IPostgresExecutor,
+    private mapError: MapError,
+  ) {}
+
+  async insert<T extends IDatabaseRecord>(
+    table: string,
+    data: IInsertData | IInsertData[],
+  ): Promise<IDatabaseResponse<T[]>> {
+    return this.runMany<T>(() => buildInsertQuery(table, toArray(data)));
+  }
+
+  async select<T extends IDatabaseRecord>(
+    table: string,
+    options: IQueryOptions,
+  ): Promise<IDatabaseResponse<T[]>> {
+    if (isCursorQuery(options)) {
+      return selectWithCursor<T>(
+        options,
+        (resolved) => this.select<T>(table, resolved),
+        this.mapError,
+      );
+    }
+
+    try {
+      const { rows } = await this.run<T>(buildSelectQuery(table, options));
+      const count = await this.totalFor(table, options, rows.length);
+      return { data: rows, error: null, count };
+    } catch (error) {
+      return { data: null, error: this.mapError(error), count: undefined };
+    }
+  }
+
+  async selectOne<T extends IDatabaseRecord>(
+    table: string,
+    id: string,
+  ): Promise<IDatabaseResponse<T>> {
+    return this.runOne<T>(table, id, () =>
+      buildSelectQuery(table, { where: { id }, limit: 1 }),
+    );
+  }
+
+  async update<T extends IDatabaseRecord>(
+    table: string,
+    id: string,
+    data: IUpdateData,
+  ): Promise<IDatabaseResponse<T>> {
+    return this.runOne<T>(table, id, () =>
+      buildUpdateQuery(table, this.withTimestamp(data), { id }),
+    );
+  }
+
+  async updateBy<T extends IDatabaseRecord>(
+    table: string,
+    field: string,
+    value: unknown,
+    data: IUpdateData,
+  ): Promise<IDatabaseResponse<T[]>> {
+    return this.runMany<T>(() =>
+      buildUpdateQuery(table, this.withTimestamp(data), { [field]: value }),
+    );
+  }
+
+  async delete<T extends IDatabaseRecord>(
+    table: string,
+    id: string,
+  ): Promise<IDatabaseResponse<T>> {
+    return this.runOne<T>(table, id, () => buildDeleteQuery(table, { id }));
+  }
+
+  async deleteBy<T extends IDatabaseRecord>(
+    table: string,
+    field: string,
+    value: unknown,
+  ): Promise<IDatabaseResponse<T[]>> {
+    return this.runMany<T>(() => buildDeleteQuery(table, { [field]: value }));
+  }
+
+  async upsert<T extends IDatabaseRecord>(
+    table: string,
+    data: IUpsertData | IUpsertData[],
+    conflictColumns: string[],
+  ): Promise<IDatabaseResponse<T[]>> {
+    return this.runMany<T>(() =>
+      buildUpsertQuery(table, toArray(data), conflictColumns),
+    );
+  }
+
+  // Helpers (Single Responsibility)
+  private async run<T>(query: ISqlQuery): Promise<{ rows: T[] }> {
+    return this.executor.query<T>(query.text, query.values);
+  }
+
+  private async runMany<T>(
+    build: () => ISqlQuery,
+  ): Promise<IDatabaseResponse<T[]>> {
+    try {
+      const { rows } = await this.run<T>(build());
+      return { data: rows, error: null, count: rows.length };
+    } catch (error) {
+      return { data: null, error: this.mapError(error) };
+    }
+  }
+
+  private async runOne<T>(
+    table: string,
+    id: string,
+    build: () => ISqlQuery,
+  ): Promise<IDatabaseResponse<T>> {
+    try {
+      const { rows } = await this.run<T>(build());
+      if (rows.length === 0) {
+        return {
+          data: null,
+          error: {
+            code: POSTGRES_NOT_FOUND_CODE,
+            message: `Row '${id}' not found in '${table}'`,
+          },
+        };
+      }
+      return { data: rows[0], error: null };
+    } catch (error) {
+      return { data: null, error: this.mapError(error) };
+    }
+  }
+
+  // Only paginated queries need a second round-trip for the total
+  private async totalFor(
+    table: string,
+    options: IQueryOptions,
+    fetched: number,
+  ): Promise<number> {
+    if (options.limit === undefined && !options.offset) return fetched;
+    const { rows } = await this.run<{ count: number }>(
+      buildCountQuery(table, options),
+    );
+    return Number(rows[0]?.count ?? 0);
+  }
+
+  private withTimestamp(data: IUpdateData): IUpdateData {
+    return { ...data, updated_at: new Date().toISOString() };
+  }
+}
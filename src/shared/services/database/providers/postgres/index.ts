@@ -0,0 +1,224 @@
+// Postgres Database Provider - Modular Implementation
+// Main provider class that composes all operations
+// Talks to Postgres directly through node-postgres (server-side only)
+
+import { Pool } from "pg";
+
+import type {
+  IDatabaseError,
+  IDatabaseProvider,
+  IDatabaseRecord,
+  IDatabaseResponse,
+  IInsertData,
+  IQueryOptions,
+  IRealtimeSubscription,
+  ITransactionContext,
+  ITransactionOptions,
+  IUpdateData,
+  IUpsertData,
+  RealtimeCallback,
+} from "@/shared/types/database";
+import type { IPostgresConfig, IPostgresPool } from "@/shared/types/postgres";
+import type { IRealtimeSubscribeOptions } from "@/shared/types/realtime";
+
+import { PostgresCrudOperations } from "./crud-operations";
+import { PostgresRealtimeHandler } from "./realtime-handler";
+import { PostgresUtilityOperations } from "./utility-operations";
+
+const createPool = (config: IPostgresConfig): IPostgresPool =>
+  new Pool({
+    connectionString: config.connectionString,
+    host: config.host,
+    port: config.port,
+    user: config.user,
+    password: config.password,
+    database: config.database,
+    ssl: config.ssl,
+    max: config.max,
+    idleTimeoutMillis: config.idleTimeoutMillis,
+  });
+
+export class PostgresDatabaseProvider implements IDatabaseProvider {
+  private pool: IPostgresPool;
+  // Injected pools belong to the caller and are not closed on cleanup
+  private ownsPool: boolean;
+
+  // Composed operations
+  private crud: PostgresCrudOperations;
+  private realtime: PostgresRealtimeHandler;
+  private utilities: PostgresUtilityOperations;
+
+  constructor(config: IPostgresConfig) {
+    this.ownsPool = !config.pool;
+    this.pool = config.pool ?? createPool(config);
+
+    this.crud = new PostgresCrudOperations(this.pool, this.mapPostgresError);
+    this.realtime = new PostgresRealtimeHandler(
+      this.pool,
+      this.mapPostgresError,
+    );
+    this.utilities = new PostgresUtilityOperations(
+      this.pool,
+      this.mapPostgresError,
+    );
+  }
+
+  async isConnected(): Promise<boolean> {
+    return this.utilities.isConnected();
+  }
+
+  async getHealth(): Promise<{
+    status: "healthy" | "unhealthy";
+    details?: unknown;
+  }> {
+    return this.utilities.getHealth();
+  }
+
+  async insert<T extends IDatabaseRecord>(
+    table: string,
+    data: IInsertData | IInsertData[],
+  ): Promise<IDatabaseResponse<T[]>> {
+    return this.crud.insert<T>(table, data);
+  }
+
+  async select<T extends IDatabaseRecord>(
+    table: string,
+    options: IQueryOptions = {},
+  ): Promise<IDatabaseResponse<T[]>> {
+    return this.crud.select<T>(table, options);
+  }
+
+  async selectOne<T extends IDatabaseRecord>(
+    table: string,
+    id: string,
+  ): Promise<IDatabaseResponse<T>> {
+    return this.crud.selectOne<T>(table, id);
+  }
+
+  async selectBy<T extends IDatabaseRecord>(
+    table: string,
+    field: string,
+    value: unknown,
+    options: Omit<IQueryOptions, "where"> = {},
+  ): Promise<IDatabaseResponse<T[]>> {
+    return this.crud.select<T>(table, {
+      ...options,
+      where: { [field]: value },
+    });
+  }
+
+  async update<T extends IDatabaseRecord>(
+    table: string,
+    id: string,
+    data: IUpdateData,
+  ): Promise<IDatabaseResponse<T>> {
+    return this.crud.update<T>(table, id, data);
+  }
+
+  async updateBy<T extends IDatabaseRecord>(
+    table: string,
+    field: string,
+    value: unknown,
+    data: IUpdateData,
+  ): Promise<IDatabaseResponse<T[]>> {
+    return this.crud.updateBy<T>(table, field, value, data);
+  }
+
+  async delete<T extends IDatabaseRecord>(
+    table: string,
+    id: string,
+  ): Promise<IDatabaseResponse<T>> {
+    return this.crud.delete<T>(table, id);
+  }
+
+  async deleteBy<T extends IDatabaseRecord>(
+    table: string,
+    field: string,
+    value: unknown,
+  ): Promise<IDatabaseResponse<T[]>> {
+    return this.crud.deleteBy<T>(table, field, value);
+  }
+
+  async upsert<T extends IDatabaseRecord>(
+    table: string,
+    data: IUpsertData | IUpsertData[],
+    conflictColumns: string[] = ["id"],
+  ): Promise<IDatabaseResponse<T[]>> {
+    return this.crud.upsert<T>(table, data, conflictColumns);
+  }
+
+  async query<T = unknown>(
+    sql: string,
+    params: unknown[] = [],
+  ): Promise<IDatabaseResponse<T[]>> {
+    return this.utilities.query<T>(sql, params);
+  }
+
+  async transaction<T>(
+    callback: (ctx: ITransactionContext) => Promise<T>,
+    _options?: ITransactionOptions, // eslint-disable-line @typescript-eslint/no-unused-vars
+  ): Promise<IDatabaseResponse<T>> {
+    return this.utilities.transaction<T>(callback);
+  }
+
+  async subscribe<T extends Record<string, any> = any>( // eslint-disable-line @typescript-eslint/no-explicit-any
+    table: string,
+    callback: RealtimeCallback<T>,
+    options: IRealtimeSubscribeOptions = {},
+  ): Promise<IRealtimeSubscription> {
+    return this.realtime.subscribe<T>(table, callback, options);
+  }
+
+  async unsubscribe(subscriptionId: string): Promise<void> {
+    return this.realtime.unsubscribe(subscriptionId);
+  }
+
+  async count(
+    table: string,
+    options: Pick<IQueryOptions, "where" | "filters"> = {},
+  ): Promise<IDatabaseResponse<number>> {
+    return this.utilities.count(table, options);
+  }
+
+  async exists(table: string, id: string): Promise<IDatabaseResponse<boolean>> {
+    return this.utilities.exists(table, id);
+  }
+
+  async initialize(): Promise<void> {
+    const connected = await this.isConnected();
+    if (!connected) {
+      throw new Error("Failed to connect to Postgres database");
+    }
+  }
+
+  async cleanup(): Promise<void> {
+    await this.realtime.cleanup();
+    if (this.ownsPool) {
+      await this.pool.end();
+    }
+  }
+
+  // Mapper para erros (Single Responsibility)
+  // pg errors carry the SQLSTATE code (23505, 42P01, ...) plus detail/hint
+  private mapPostgresError = (error: unknown): IDatabaseError => {
+    const errorObj = error as {
+      code?: string;
+      message?: string;
+      detail?: string;
+      hint?: string;
+    };
+
+    return {
+      code: errorObj.code || "unknown_error",
+      message: errorObj.message || "An unknown database error occurred",
+      details: errorObj.detail ?? error,
+      hint: errorObj.hint,
+    };
+  };
+}
+
+// Re-export all components
+export { PostgresCrudOperations } from "./crud-operations";
+export { PostgresRealtimeHandler } from "./realtime-handler";
+export { PostgresTransactionContext } from "./transaction-context";
+export { PostgresUtilityOperations } from "./utility-operations";
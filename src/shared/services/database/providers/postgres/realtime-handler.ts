@@ -0,0 +1,166 @@
+// Realtime Handler for Postgres Database Provider
+// Single Responsibility: LISTEN/NOTIFY subscriptions
+//
+// Tables publish through the trigger in database/postgres-realtime.sql
+
+import {
+  matchesRealtimeFilter,
+  parseRealtimeFilter,
+} from "@/shared/services/database/realtime-filter";
+import type {
+  IDatabaseError,
+  IFilterCondition,
+  IRealtimeEvent,
+  IRealtimeSubscription,
+  RealtimeCallback,
+} from "@/shared/types/database";
+import type {
+  IPostgresPool,
+  IPostgresPoolClient,
+} from "@/shared/types/postgres";
+import type {
+  IRealtimeSubscribeOptions,
+  RealtimeEventType,
+} from "@/shared/types/realtime";
+
+export const POSTGRES_REALTIME_CHANNEL = "db_changes";
+
+interface IPostgresSubscription {
+  table: string;
+  schema: string;
+  event: RealtimeEventType | "*";
+  filter?: IFilterCondition;
+  callback: RealtimeCallback<any>; // eslint-disable-line @typescript-eslint/no-explicit-any
+}
+
+export class PostgresRealtimeHandler {
+  private subscriptions: Map<string, IPostgresSubscription> = new Map();
+  private subscriptionCounter = 0;
+  // One dedicated connection listens for every subscription
+  private listener: Promise<IPostgresPoolClient> | null = null;
+
+  constructor(
+    private pool: IPostgresPool,
+    private mapError: (error: unknown) => IDatabaseError,
+  ) {}
+
+  async subscribe<T extends Record<string, any> = any>( // eslint-disable-line @typescript-eslint/no-explicit-any
+    table: string,
+    callback: RealtimeCallback<T>,
+    options: IRealtimeSubscribeOptions = {},
+  ): Promise<IRealtimeSubscription> {
+    try {
+      await this.ensureListener();
+    } catch (error) {
+      throw this.mapError(error);
+    }
+
+    const subscriptionId = `pg_sub_${++this.subscriptionCounter}`;
+    this.subscriptions.set(subscriptionId, {
+      table,
+      schema: options.schema || "public",
+      event: options.event || "*",
+      // Parse now so an invalid filter fails on subscribe, not on dispatch
+      filter: options.filter ? parseRealtimeFilter(options.filter) : undefined,
+      callback,
+    });
+
+    return {
+      id: subscriptionId,
+      table,
+      unsubscribe: () => this.unsubscribe(subscriptionId),
+    };
+  }
+
+  async unsubscribe(subscriptionId: string): Promise<void> {
+    this.subscriptions.delete(subscriptionId);
+    if (this.subscriptions.size === 0) {
+      await this.cleanup();
+    }
+  }
+
+  async cleanup(): Promise<void> {
+    this.subscriptions.clear();
+    const listener = this.listener;
+    this.listener = null;
+    if (!listener) return;
+
+    try {
+      const client = await listener;
+      await client.query(`UNLISTEN ${POSTGRES_REALTIME_CHANNEL}`);
+      client.release();
+    } catch {
+      // Connection already gone, nothing left to release
+    }
+  }
+
+  getActiveSubscriptions(): string[] {
+    return Array.from(this.subscriptions.keys());
+  }
+
+  private ensureListener(): Promise<IPostgresPoolClient> {
+    if (!this.listener) {
+      this.listener = this.connectListener();
+      this.listener.catch(() => {
+        this.listener = null;
+      });
+    }
+    return this.listener;
+  }
+
+  private async connectListener(): Promise<IPostgresPoolClient> {
+    const client = await this.pool.connect();
+    if (!client.on) {
+      client.release();
+      throw new Error("The Postgres client does not support LISTEN/NOTIFY");
+    }
+
+    client.on("notification", (message) => {
+      if (message.channel !== POSTGRES_REALTIME_CHANNEL || !message.payload)
+        return;
+      this.dispatch(message.payload);
+    });
+    await client.query(`LISTEN ${POSTGRES_REALTIME_CHANNEL}`);
+    return client;
+  }
+
+  private matches(
+    subscription: IPostgresSubscription,
+    event: IRealtimeEvent,
+  ): boolean {
+    if (subscription.table !== event.table) return false;
+    if (subscription.schema !== event.schema) return false;
+    if (subscription.event !== "*" && subscription.event !== event.eventType)
+      return false;
+    return matchesRealtimeFilter(
+      event as IRealtimeEvent<Record<string, unknown>>,
+      subscription.filter,
+    );
+  }
+
+  private dispatch(payload: string): void {
+    let change: Omit<IRealtimeEvent, "commit_timestamp">;
+    try {
+      change = JSON.parse(payload);
+    } catch {
+      return;
+    }
+
+    const event: IRealtimeEvent = {
+      ...change,
+      new: change.new ?? undefined,
+      old: change.old ?? undefined,
+      commit_timestamp: new Date().toISOString(),
+    };
+
+    this.subscriptions.forEach((subscription) => {
+      if (!this.matches(subscription, event)) return;
+
+      try {
+        subscription.callback(event);
+      } catch (error) {
+        console.error("Realtime subscriber failed:", error);
+      }
+    });
+  }
+}
@@ -0,0 +1,259 @@
+// SQL Builder for Postgres Database Provider
+// Single Responsibility: Translate IQueryOptions and writes into parameterized SQL
+//
+// Values always travel as $n parameters; identifiers are double-quoted
+
+import type {
+  FilterOperator,
+  IQueryOptions,
+  IRelationSelect,
+  QueryFilter,
+} from "@/shared/types/database";
+
+export interface ISqlQuery {
+  text: string;
+  values: unknown[];
+}
+
+type Row = Record<string, unknown>;
+
+// "public.users" -> "public"."users"
+export const quoteIdent = (name: string): string =>
+  name
+    .split(".")
+    .map((part) => `"${part.replace(/"/g, '""')}"`)
+    .join(".");
+
+// Collects parameter values and hands out their $n placeholders
+class SqlParams {
+  readonly values: unknown[] = [];
+
+  add(value: unknown): string {
+    this.values.push(value);
+    return `$${this.values.length}`;
+  }
+
+  // One placeholder per item; an empty list matches nothing
+  list(column: string, values: unknown[]): string {
+    if (values.length === 0) return "FALSE";
+    return `${column} IN (${values.map((value) => this.add(value)).join(", ")})`;
+  }
+}
+
+const COMPARISON_SQL: Partial<Record<FilterOperator, string>> = {
+  eq: "=",
+  neq: "<>",
+  gt: ">",
+  gte: ">=",
+  lt: "<",
+  lte: "<=",
+  like: "LIKE",
+  ilike: "ILIKE",
+};
+
+const isValue = (value: unknown, keyword = "IS"): string => {
+  if (value === true) return `${keyword} TRUE`;
+  if (value === false) return `${keyword} FALSE`;
+  return `${keyword} NULL`;
+};
+
+const conditionSql = (filter: QueryFilter, params: SqlParams): string => {
+  if ("filters" in filter) {
+    const joiner = filter.type === "or" ? " OR " : " AND ";
+    const parts = filter.filters.map((nested) => conditionSql(nested, params));
+    return parts.length > 0 ? `(${parts.join(joiner)})` : "TRUE";
+  }
+
+  const column = quoteIdent(filter.column);
+  if (filter.operator === "in") {
+    return params.list(column, filter.value as unknown[]);
+  }
+  if (filter.operator === "is") {
+    return `${column} ${isValue(filter.value)}`;
+  }
+  if (filter.operator === "not.is") {
+    return `${column} ${isValue(filter.value, "IS NOT")}`;
+  }
+  return `${column} ${COMPARISON_SQL[filter.operator]} ${params.add(filter.value)}`;
+};
+
+// Same semantics as the other providers: array -> IN, null -> IS NULL
+const whereEntrySql = (
+  [key, value]: [string, unknown],
+  params: SqlParams,
+): string => {
+  if (Array.isArray(value)) {
+    return params.list(quoteIdent(key), value);
+  }
+  if (value === null) return `${quoteIdent(key)} IS NULL`;
+  return `${quoteIdent(key)} = ${params.add(value)}`;
+};
+
+const whereClause = (
+  options: Pick<IQueryOptions, "where" | "filters">,
+  params: SqlParams,
+): string => {
+  const conditions = [
+    ...Object.entries(options.where ?? {}).map((entry) =>
+      whereEntrySql(entry, params),
+    ),
+    ...(options.filters ?? []).map((filter) => conditionSql(filter, params)),
+  ];
+  return conditions.length > 0 ? ` WHERE ${conditions.join(" AND ")}` : "";
+};
+
+const columnList = (
+  alias: string,
+  select: string[] | undefined,
+  relations: IRelationSelect[] | undefined,
+  depth: number,
+): string => {
+  const columns =
+    select && select.length > 0 && !select.includes("*")
+      ? select.map((column) => `${alias}.${quoteIdent(column)}`)
+      : [`${alias}.*`];
+  const embedded = (relations ?? []).map((relation) =>
+    relationColumn(relation, alias, depth),
+  );
+  return [...columns, ...embedded].join(", ");
+};
+
+// Relations become correlated subqueries returning JSON, mirroring the
+// shape PostgREST embeds (object for to-one, array for to-many)
+const relationColumn = (
+  relation: IRelationSelect,
+  parentAlias: string,
+  depth: number,
+): string => {
+  const alias = `"_r${depth}"`;
+  const rowAlias = `"_r${depth}_row"`;
+  const key = quoteIdent(relation.alias ?? relation.table);
+  const columns = columnList(
+    alias,
+    relation.select,
+    relation.relations,
+    depth + 1,
+  );
+  const source = `SELECT ${columns} FROM ${quoteIdent(relation.table)} AS ${alias}`;
+
+  if (relation.foreignKey) {
+    return `(SELECT row_to_json(${rowAlias}) FROM (${source} WHERE ${alias}."id" = ${parentAlias}.${quoteIdent(relation.foreignKey)} LIMIT 1) AS ${rowAlias}) AS ${key}`;
+  }
+  if (relation.referencedBy) {
+    return `COALESCE((SELECT json_agg(${rowAlias}) FROM (${source} WHERE ${alias}.${quoteIdent(relation.referencedBy)} = ${parentAlias}."id") AS ${rowAlias}), '[]'::json) AS ${key}`;
+  }
+  throw new Error(
+    `Relation '${relation.table}' needs 'foreignKey' or 'referencedBy' in the Postgres provider`,
+  );
+};
+
+const orderClause = (orderBy: IQueryOptions["orderBy"]): string => {
+  if (!orderBy || orderBy.length === 0) return "";
+  const parts = orderBy.map(
+    ({ column, ascending = true }) =>
+      `${quoteIdent(column)} ${ascending ? "ASC" : "DESC"}`,
+  );
+  return ` ORDER BY ${parts.join(", ")}`;
+};
+
+const paginationClause = (
+  options: Pick<IQueryOptions, "limit" | "offset">,
+  params: SqlParams,
+): string => {
+  const limit =
+    options.limit !== undefined ? ` LIMIT ${params.add(options.limit)}` : "";
+  const offset = options.offset ? ` OFFSET ${params.add(options.offset)}` : "";
+  return `${limit}${offset}`;
+};
+
+export const buildSelectQuery = (
+  table: string,
+  options: IQueryOptions,
+): ISqlQuery => {
+  const params = new SqlParams();
+  const columns = columnList('"_t"', options.select, options.relations, 0);
+  const text =
+    `SELECT ${columns} FROM ${quoteIdent(table)} AS "_t"` +
+    whereClause(options, params) +
+    orderClause(options.orderBy) +
+    paginationClause(options, params);
+  return { text, values: params.values };
+};
+
+export const buildCountQuery = (
+  table: string,
+  options: Pick<IQueryOptions, "where" | "filters">,
+): ISqlQuery => {
+  const params = new SqlParams();
+  const text = `SELECT COUNT(*)::int AS "count" FROM ${quoteIdent(table)}${whereClause(options, params)}`;
+  return { text, values: params.values };
+};
+
+// Columns missing from a row use the column DEFAULT
+const valuesClause = (
+  rows: Row[],
+  params: SqlParams,
+): {
+  columns: string[];
+  sql: string;
+} => {
+  const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+  const tuples = rows.map(
+    (row) =>
+      `(${columns
+        .map((column) => (column in row ? params.add(row[column]) : "DEFAULT"))
+        .join(", ")})`,
+  );
+  return { columns, sql: tuples.join(", ") };
+};
+
+export const buildInsertQuery = (table: string, rows: Row[]): ISqlQuery => {
+  const params = new SqlParams();
+  const { columns, sql } = valuesClause(rows, params);
+  const text =
+    columns.length > 0
+      ? `INSERT INTO ${quoteIdent(table)} (${columns.map(quoteIdent).join(", ")}) VALUES ${sql} RETURNING *`
+      : `INSERT INTO ${quoteIdent(table)} DEFAULT VALUES RETURNING *`;
+  return { text, values: params.values };
+};
+
+export const buildUpsertQuery = (
+  table: string,
+  rows: Row[],
+  conflictColumns: string[],
+): ISqlQuery => {
+  const params = new SqlParams();
+  const { columns, sql } = valuesClause(rows, params);
+  const nonKey = columns.filter((column) => !conflictColumns.includes(column));
+  // Rows that only carry the key still "update" it to itself: DO NOTHING
+  // would leave the existing row out of RETURNING
+  const updates = (
+    nonKey.length > 0 ? nonKey : conflictColumns.slice(0, 1)
+  ).map((column) => `${quoteIdent(column)} = EXCLUDED.${quoteIdent(column)}`);
+  const text =
+    `INSERT INTO ${quoteIdent(table)} (${columns.map(quoteIdent).join(", ")}) VALUES ${sql}` +
+    ` ON CONFLICT (${conflictColumns.map(quoteIdent).join(", ")}) DO UPDATE SET ${updates.join(", ")} RETURNING *`;
+  return { text, values: params.values };
+};
+
+export const buildUpdateQuery = (
+  table: string,
+  data: Row,
+  where: Row,
+): ISqlQuery => {
+  const params = new SqlParams();
+  if (Object.keys(data).length === 0) {
+    throw new Error(`Update on '${table}' needs at least one column to set`);
+  }
+  const assignments = Object.entries(data).map(
+    ([column, value]) => `${quoteIdent(column)} = ${params.add(value)}`,
+  );
+  const text = `UPDATE ${quoteIdent(table)} SET ${assignments.join(", ")}${whereClause({ where }, params)} RETURNING *`;
+  return { text, values: params.values };
+};
+
+export const buildDeleteQuery = (table: string, where: Row): ISqlQuery => {
+  const params = new SqlParams();
+  const text = `DELETE FROM ${quoteIdent(table)}${whereClause({ where }, params)} RETURNING *`;
+  return { text, values: params.values };
+};
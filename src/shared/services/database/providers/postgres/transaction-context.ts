@@ -0,0 +1,80 @@
+// Transaction Context for Postgres Database Provider
+// Single Responsibility: Scoped CRUD inside a transaction
+// Runs on the checked-out client, so BEGIN/COMMIT/ROLLBACK cover every statement
+
+import {
+  assertTransactionActive,
+  unwrapResponse,
+} from "@/shared/services/database/transaction-utils";
+import type {
+  IDatabaseRecord,
+  IInsertData,
+  IQueryOptions,
+  ITransactionContext,
+  IUpdateData,
+  IUpsertData,
+} from "@/shared/types/database";
+
+import type { PostgresCrudOperations } from "./crud-operations";
+
+export class PostgresTransactionContext implements ITransactionContext {
+  isActive = true;
+
+  constructor(
+    public readonly id: string,
+    private crud: PostgresCrudOperations,
+  ) {}
+
+  async select<T extends IDatabaseRecord>(
+    table: string,
+    options: IQueryOptions = {},
+  ): Promise<T[]> {
+    assertTransactionActive(this);
+    return unwrapResponse(await this.crud.select<T>(table, options));
+  }
+
+  async selectOne<T extends IDatabaseRecord>(
+    table: string,
+    id: string,
+  ): Promise<T | null> {
+    assertTransactionActive(this);
+    const response = await this.crud.selectOne<T>(table, id);
+    return response.error ? null : response.data;
+  }
+
+  async insert<T extends IDatabaseRecord>(
+    table: string,
+    data: IInsertData | IInsertData[],
+  ): Promise<T[]> {
+    assertTransactionActive(this);
+    return unwrapResponse(await this.crud.insert<T>(table, data));
+  }
+
+  async update<T extends IDatabaseRecord>(
+    table: string,
+    id: string,
+    data: IUpdateData,
+  ): Promise<T> {
+    assertTransactionActive(this);
+    return unwrapResponse(await this.crud.update<T>(table, id, data));
+  }
+
+  async delete<T extends IDatabaseRecord>(
+    table: string,
+    id: string,
+  ): Promise<T> {
+    assertTransactionActive(this);
+    return unwrapResponse(await this.crud.delete<T>(table, id));
+  }
+
+  async upsert<T extends IDatabaseRecord>(
+    table: string,
+    data: IUpsertData | IUpsertData[],
+    conflictColumns: string[] = ["id"],
+  ): Promise<T[]> {
+    assertTransactionActive(this);
+    return unwrapResponse(
+      await this.crud.upsert<T>(table, data, conflictColumns),
+    );
+  }
+}
@@ -0,0 +1,115 @@
+// Utility Operations for Postgres Database Provider
+// Single Responsibility: Count, exists, raw queries, health check, transactions
+
+import { toTransactionError } from "@/shared/services/database/transaction-utils";
+import type {
+  IDatabaseError,
+  IDatabaseResponse,
+  IQueryOptions,
+  ITransactionContext,
+} from "@/shared/types/database";
+import type { IPostgresPool } from "@/shared/types/postgres";
+
+import { PostgresCrudOperations } from "./crud-operations";
+import { buildCountQuery, quoteIdent } from "./sql-builder";
+import { PostgresTransactionContext } from "./transaction-context";
+
+export class PostgresUtilityOperations {
+  private transactionCounter = 0;
+
+  constructor(
+    private pool: IPostgresPool,
+    private mapError: (error: unknown) => IDatabaseError,
+  ) {}
+
+  async isConnected(): Promise<boolean> {
+    try {
+      await this.pool.query("SELECT 1");
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async getHealth(): Promise<{
+    status: "healthy" | "unhealthy";
+    details?: unknown;
+  }> {
+    try {
+      const start = Date.now();
+      await this.pool.query("SELECT 1");
+      return { status: "healthy", details: { latency: Date.now() - start } };
+    } catch (error) {
+      return { status: "unhealthy", details: this.mapError(error) };
+    }
+  }
+
+  async count(
+    table: string,
+    options: Pick<IQueryOptions, "where" | "filters">,
+  ): Promise<IDatabaseResponse<number>> {
+    try {
+      const { text, values } = buildCountQuery(table, options);
+      const { rows } = await this.pool.query<{ count: number }>(text, values);
+      return { data: Number(rows[0]?.count ?? 0), error: null };
+    } catch (error) {
+      return { data: null, error: this.mapError(error) };
+    }
+  }
+
+  async exists(table: string, id: string): Promise<IDatabaseResponse<boolean>> {
+    try {
+      const { rows } = await this.pool.query(
+        `SELECT 1 FROM ${quoteIdent(table)} WHERE "id" = $1 LIMIT 1`,
+        [id],
+      );
+      return { data: rows.length > 0, error: null };
+    } catch (error) {
+      return { data: null, error: this.mapError(error) };
+    }
+  }
+
+  // Parameterized only: values go through $1..$n, never string interpolation
+  async query<T = unknown>(
+    sql: string,
+    params: unknown[] = [],
+  ): Promise<IDatabaseResponse<T[]>> {
+    try {
+      const { rows, rowCount } = await this.pool.query<T>(sql, params);
+      return { data: rows, error: null, count: rowCount ?? rows.length };
+    } catch (error) {
+      return { data: null, error: this.mapError(error) };
+    }
+  }
+
+  // Real database transaction on a dedicated pool client. The compensate/batch
+  // modes only matter for providers without BEGIN/COMMIT, so they are ignored.
+  async transaction<T>(
+    callback: (ctx: ITransactionContext) => Promise<T>,
+  ): Promise<IDatabaseResponse<T>> {
+    let client;
+    try {
+      client = await this.pool.connect();
+    } catch (error) {
+      return { data: null, error: this.mapError(error) };
+    }
+
+    const context = new PostgresTransactionContext(
+      `pg_tx_${++this.transactionCounter}`,
+      new PostgresCrudOperations(client, this.mapError),
+    );
+
+    try {
+      await client.query("BEGIN");
+      const result = await callback(context);
+      await client.query("COMMIT");
+      return { data: result, error: null };
+    } catch (error) {
+      await client.query("ROLLBACK").catch(() => undefined);
+      return { data: null, error: toTransactionError(error) };
+    } finally {
+      context.isActive = false;
+      client.release();
+    }
+  }
+}
@@ -3,6 +3,10 @@
 
 import type { SupabaseClient } from "@supabase/supabase-js";
 
+import {
+  isCursorQuery,
+  selectWithCursor,
+} from "@/shared/services/database/cursor-pagination";
 import type {
   IDatabaseRecord,
   IQueryOptions,
@@ -13,6 +17,8 @@ import type {
   IDatabaseError,
 } from "@/shared/types/database";
 
+import { applyFilters, buildSelectClause } from "./query-compiler";
+
 // Options for selectBy method
 interface ISelectByOptions {
   field: string;
@@ -115,14 +121,23 @@ export class CrudOperations {
     options: IQueryOptions,
     mapError: (error: unknown) => IDatabaseError,
   ): Promise<IDatabaseResponse<T[]>> {
+    if (isCursorQuery(options)) {
+      return selectWithCursor<T>(
+        options,
+        (resolved) => this.select<T>(table, resolved, mapError),
+        mapError,
+      );
+    }
+
     try {
       let query = this.client
         .from(table)
-        .select(options.select ? options.select.join(",") : "*", {
+        .select(buildSelectClause(options.select, options.relations), {
           count: "exact",
         });
 
       query = this.applyWhereConditions(query, options.where);
+      query = applyFilters(query, options.filters);
       query = this.applyOrdering(query, options.orderBy);
       query = this.applyPagination(query, options.limit, options.offset);
 
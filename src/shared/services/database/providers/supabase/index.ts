@@ -14,11 +14,19 @@ import type {
   IDatabaseResponse,
   IDatabaseError,
   ITransactionContext,
+  ITransactionOptions,
   IRealtimeSubscription,
   RealtimeCallback,
 } from "@/shared/types/database";
+import type {
+  IPresenceChannel,
+  IPresenceOptions,
+  IRealtimeSubscribeOptions,
+  PresenceCallback,
+} from "@/shared/types/realtime";
 
 import { CrudOperations } from "./crud-operations";
+import { PresenceHandler } from "./presence-handler";
 import { RealtimeHandler } from "./realtime-handler";
 import { StorageOperations } from "./storage-operations";
 import { UtilityOperations } from "./utility-operations";
@@ -30,6 +38,7 @@ export class SupabaseDatabaseProvider implements IDatabaseProvider {
   // Composed operations
   private crud: CrudOperations;
   private realtime: RealtimeHandler;
+  private presence: PresenceHandler;
   private storage: StorageOperations;
   private utilities: UtilityOperations;
 
@@ -57,8 +66,9 @@ export class SupabaseDatabaseProvider implements IDatabaseProvider {
     // Initialize composed operations
     this.crud = new CrudOperations(this.client);
     this.realtime = new RealtimeHandler(this.client);
+    this.presence = new PresenceHandler(this.client);
     this.storage = new StorageOperations(this.client);
-    this.utilities = new UtilityOperations(this.client);
+    this.utilities = new UtilityOperations(this.client, this.crud);
   }
 
   // Delegate to composed operations
@@ -167,14 +177,19 @@ export class SupabaseDatabaseProvider implements IDatabaseProvider {
 
   async transaction<T>(
     callback: (ctx: ITransactionContext) => Promise<T>,
+    options?: ITransactionOptions,
   ): Promise<IDatabaseResponse<T>> {
-    return this.utilities.transaction<T>(callback, this.mapSupabaseError);
+    return this.utilities.transaction<T>(
+      callback,
+      this.mapSupabaseError,
+      options,
+    );
   }
 
   async subscribe<T extends Record<string, any> = any>( // eslint-disable-line @typescript-eslint/no-explicit-any
     table: string,
     callback: RealtimeCallback<T>,
-    options: { event?: "INSERT" | "UPDATE" | "DELETE" | "*" } = {},
+    options: IRealtimeSubscribeOptions = {},
   ): Promise<IRealtimeSubscription> {
     return this.realtime.subscribe<T>(table, callback, options);
   }
@@ -183,9 +198,18 @@ export class SupabaseDatabaseProvider implements IDatabaseProvider {
     return this.realtime.unsubscribe(subscriptionId);
   }
 
+  async joinPresence<T extends Record<string, unknown>>(
+    channel: string,
+    state: T,
+    callback: PresenceCallback<T>,
+    options?: IPresenceOptions,
+  ): Promise<IPresenceChannel<T>> {
+    return this.presence.join<T>(channel, state, callback, options);
+  }
+
   async count(
     table: string,
-    options: Pick<IQueryOptions, "where"> = {},
+    options: Pick<IQueryOptions, "where" | "filters"> = {},
   ): Promise<IDatabaseResponse<number>> {
     return this.utilities.count(table, options, this.mapSupabaseError);
   }
@@ -225,6 +249,7 @@ export class SupabaseDatabaseProvider implements IDatabaseProvider {
 
   async cleanup(): Promise<void> {
     await this.realtime.cleanup();
+    await this.presence.cleanup();
   }
 
   // Mapper para erros (Single Responsibility)
@@ -247,6 +272,8 @@ export class SupabaseDatabaseProvider implements IDatabaseProvider {
 
 // Re-export all components
 export { CrudOperations } from "./crud-operations";
+export { PresenceHandler } from "./presence-handler";
 export { RealtimeHandler } from "./realtime-handler";
 export { StorageOperations } from "./storage-operations";
+export { SupabaseTransactionContext } from "./transaction-context";
 export { UtilityOperations } from "./utility-operations";
@@ -0,0 +1,118 @@
+// Presence Handler for Supabase Database Provider
+// Single Responsibility: Track who is online per channel
+//
+// Every join to the same channel name shares one Supabase channel; the
+// state published by this client is the one from the latest track()
+
+import type { RealtimeChannel, SupabaseClient } from "@supabase/supabase-js";
+
+import type {
+  IPresenceChannel,
+  IPresenceOptions,
+  PresenceCallback,
+  PresenceState,
+} from "@/shared/types/realtime";
+
+interface IPresenceEntry {
+  channel: RealtimeChannel;
+  listeners: Map<string, PresenceCallback<any>>; // eslint-disable-line @typescript-eslint/no-explicit-any
+  state: Record<string, unknown>;
+  joined: boolean;
+}
+
+export class PresenceHandler {
+  private entries: Map<string, IPresenceEntry> = new Map();
+  private presenceCounter = 0;
+
+  constructor(private client: SupabaseClient) {}
+
+  async join<T extends Record<string, unknown>>(
+    name: string,
+    state: T,
+    callback: PresenceCallback<T>,
+    options: IPresenceOptions = {},
+  ): Promise<IPresenceChannel<T>> {
+    const presenceId = `presence_${++this.presenceCounter}`;
+    const entry = this.entries.get(name) ?? this.openEntry(name, options);
+    entry.listeners.set(presenceId, callback);
+    await this.track(entry, state);
+
+    return {
+      id: presenceId,
+      channel: name,
+      getState: () => this.stateOf<T>(entry),
+      track: (next: T) => this.track(entry, next),
+      leave: () => this.leave(name, presenceId),
+    };
+  }
+
+  async cleanup(): Promise<void> {
+    const channels = Array.from(this.entries.values());
+    this.entries.clear();
+    await Promise.all(
+      channels.map((entry) => this.client.removeChannel(entry.channel)),
+    );
+  }
+
+  getActiveChannels(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  private openEntry(name: string, options: IPresenceOptions): IPresenceEntry {
+    const channel = this.client.channel(`presence:${name}`, {
+      config: { presence: { key: options.key ?? "" } },
+    });
+    const entry: IPresenceEntry = {
+      channel,
+      listeners: new Map(),
+      state: {},
+      joined: false,
+    };
+
+    channel
+      .on("presence", { event: "sync" }, () => this.notify(entry))
+      .subscribe((status) => {
+        entry.joined = status === "SUBSCRIBED";
+        // Re-publish after every (re)join so a reconnect restores our state
+        if (entry.joined) void entry.channel.track(entry.state);
+      });
+
+    this.entries.set(name, entry);
+    return entry;
+  }
+
+  private async track(
+    entry: IPresenceEntry,
+    state: Record<string, unknown>,
+  ): Promise<void> {
+    entry.state = state;
+    if (entry.joined) await entry.channel.track(state);
+  }
+
+  private async leave(name: string, presenceId: string): Promise<void> {
+    const entry = this.entries.get(name);
+    if (!entry) return;
+
+    entry.listeners.delete(presenceId);
+    if (entry.listeners.size > 0) return;
+
+    this.entries.delete(name);
+    await entry.channel.untrack().catch(() => undefined);
+    await this.client.removeChannel(entry.channel);
+  }
+
+  private stateOf<T>(entry: IPresenceEntry): PresenceState<T> {
+    return entry.channel.presenceState() as unknown as PresenceState<T>;
+  }
+
+  private notify(entry: IPresenceEntry): void {
+    const state = this.stateOf(entry);
+    entry.listeners.forEach((listener) => {
+      try {
+        listener(state);
+      } catch (error) {
+        console.error("Presence listener failed:", error);
+      }
+    });
+  }
+}
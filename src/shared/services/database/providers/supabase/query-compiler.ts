@@ -0,0 +1,83 @@
+// Query Compiler for Supabase Database Provider
+// Single Responsibility: Translate filters and relation selects to PostgREST
+
+import type {
+  IFilterCondition,
+  IFilterGroup,
+  IRelationSelect,
+  QueryFilter,
+} from "@/shared/types/database";
+
+// Minimal surface of PostgrestFilterBuilder used by the compiler
+export interface IFilterableQuery {
+  filter(column: string, operator: string, value: unknown): this;
+  in(column: string, values: readonly unknown[]): this;
+  is(column: string, value: null | boolean): this;
+  or(filters: string): this;
+}
+
+const isGroup = (filter: QueryFilter): filter is IFilterGroup =>
+  "filters" in filter;
+
+// PostgREST reserves these characters inside or()/in() lists
+const RESERVED_CHARS = /[,.:()"\s]/;
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined) return "null";
+  if (Array.isArray(value)) return `(${value.map(formatValue).join(",")})`;
+
+  const text = String(value);
+  return RESERVED_CHARS.test(text)
+    ? `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`
+    : text;
+};
+
+// or=(age.gt.18,and(role.eq.admin,active.is.true))
+const toFilterString = (filter: QueryFilter): string => {
+  if (isGroup(filter)) {
+    return `${filter.type}(${filter.filters.map(toFilterString).join(",")})`;
+  }
+  return `${filter.column}.${filter.operator}.${formatValue(filter.value)}`;
+};
+
+const applyCondition = <Q extends IFilterableQuery>(
+  query: Q,
+  { column, operator, value }: IFilterCondition,
+): Q => {
+  if (operator === "in") {
+    return query.in(column, value as unknown[]);
+  }
+  if (operator === "is") {
+    return query.is(column, value as null | boolean);
+  }
+  return query.filter(column, operator, value);
+};
+
+export const applyFilters = <Q extends IFilterableQuery>(
+  query: Q,
+  filters: QueryFilter[] | undefined,
+): Q => {
+  if (!filters) return query;
+
+  return filters.reduce<Q>((current, filter) => {
+    if (!isGroup(filter)) return applyCondition(current, filter);
+    if (filter.type === "and") return applyFilters(current, filter.filters);
+    return current.or(filter.filters.map(toFilterString).join(","));
+  }, query);
+};
+
+// author:profiles!author_id(id,name)
+const toRelationString = (relation: IRelationSelect): string => {
+  const hint = relation.foreignKey ?? relation.referencedBy;
+  const target = hint ? `${relation.table}!${hint}` : relation.table;
+  const prefix = relation.alias ? `${relation.alias}:` : "";
+  return `${prefix}${target}(${buildSelectClause(relation.select, relation.relations)})`;
+};
+
+export const buildSelectClause = (
+  select: string[] | undefined,
+  relations: IRelationSelect[] | undefined,
+): string => {
+  const columns = select && select.length > 0 ? select : ["*"];
+  return [...columns, ...(relations ?? []).map(toRelationString)].join(",");
+};
@@ -1,5 +1,8 @@
 // Realtime Handler for Supabase Database Provider
 // Single Responsibility: Realtime subscriptions and events
+//
+// Subscriptions with the same schema/table/event/filter share one channel,
+// and a channel that errors or times out is reopened with backoff
 
 import type {
   SupabaseClient,
@@ -7,49 +10,77 @@ import type {
   RealtimePostgresChangesPayload,
 } from "@supabase/supabase-js";
 
+import { formatRealtimeFilter } from "@/shared/services/database/realtime-filter";
 import type {
   IRealtimeSubscription,
   IRealtimeEvent,
   RealtimeCallback,
 } from "@/shared/types/database";
+import type {
+  IRealtimeSubscribeOptions,
+  RealtimeEventType,
+} from "@/shared/types/realtime";
+
+const MAX_RESUBSCRIBE_DELAY = 30000;
+
+interface IChannelConfig {
+  event: RealtimeEventType | "*";
+  schema: string;
+  table: string;
+  filter?: string;
+}
+
+interface IChannelEntry {
+  config: IChannelConfig;
+  // null while a failed channel is being replaced
+  channel: RealtimeChannel | null;
+  listeners: Map<string, RealtimeCallback<any>>; // eslint-disable-line @typescript-eslint/no-explicit-any
+  retries: number;
+  retryTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const channelKeyFor = (config: IChannelConfig): string =>
+  [config.schema, config.table, config.event, config.filter ?? "*"].join(":");
+
+const toRealtimeEvent = <T>(
+  payload: RealtimePostgresChangesPayload<T & Record<string, unknown>>,
+): IRealtimeEvent<T> => ({
+  eventType: payload.eventType as RealtimeEventType,
+  new: payload.new as T,
+  old: payload.old as T,
+  table: payload.table,
+  schema: payload.schema,
+  commit_timestamp: payload.commit_timestamp,
+});
 
 export class RealtimeHandler {
-  private subscriptions: Map<string, RealtimeChannel> = new Map();
+  private channels: Map<string, IChannelEntry> = new Map();
+  // Subscription id -> channel key
+  private subscriptions: Map<string, string> = new Map();
+  private subscriptionCounter = 0;
 
-  constructor(private client: SupabaseClient) {}
+  constructor(
+    private client: SupabaseClient,
+    private baseRetryDelay = 1000,
+  ) {}
 
   async subscribe<T extends Record<string, any> = any>( // eslint-disable-line @typescript-eslint/no-explicit-any
     table: string,
     callback: RealtimeCallback<T>,
-    options: { event?: "INSERT" | "UPDATE" | "DELETE" | "*" } = {},
+    options: IRealtimeSubscribeOptions = {},
   ): Promise<IRealtimeSubscription> {
-    const subscriptionId = `sub_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const event = options.event || "*";
-
-    const channel = this.client
-      .channel(subscriptionId)
-      .on(
-        "postgres_changes" as any, // eslint-disable-line @typescript-eslint/no-explicit-any
-        {
-          event,
-          schema: "public",
-          table,
-        } as any, // eslint-disable-line @typescript-eslint/no-explicit-any
-        (payload: RealtimePostgresChangesPayload<T>) => {
-          const realtimeEvent: IRealtimeEvent<T> = {
-            eventType: payload.eventType as "INSERT" | "UPDATE" | "DELETE",
-            new: payload.new as T,
-            old: payload.old as T,
-            table: payload.table,
-            schema: payload.schema,
-            commit_timestamp: payload.commit_timestamp,
-          };
-          callback(realtimeEvent);
-        },
-      )
-      .subscribe();
-
-    this.subscriptions.set(subscriptionId, channel);
+    const config: IChannelConfig = {
+      event: options.event || "*",
+      schema: options.schema || "public",
+      table,
+      filter: options.filter ? formatRealtimeFilter(options.filter) : undefined,
+    };
+    const key = channelKeyFor(config);
+    const subscriptionId = `sub_${++this.subscriptionCounter}`;
+
+    const entry = this.channels.get(key) ?? this.openEntry(key, config);
+    entry.listeners.set(subscriptionId, callback);
+    this.subscriptions.set(subscriptionId, key);
 
     return {
       id: subscriptionId,
@@ -59,11 +90,18 @@ export class RealtimeHandler {
   }
 
   async unsubscribe(subscriptionId: string): Promise<void> {
-    const channel = this.subscriptions.get(subscriptionId);
-    if (channel) {
-      await this.client.removeChannel(channel);
-      this.subscriptions.delete(subscriptionId);
-    }
+    const key = this.subscriptions.get(subscriptionId);
+    this.subscriptions.delete(subscriptionId);
+    const entry = key ? this.channels.get(key) : undefined;
+    if (!key || !entry) return;
+
+    entry.listeners.delete(subscriptionId);
+    if (entry.listeners.size > 0) return;
+
+    // Remove from the map first so the CLOSED status does not resubscribe
+    this.channels.delete(key);
+    if (entry.retryTimer) clearTimeout(entry.retryTimer);
+    if (entry.channel) await this.client.removeChannel(entry.channel);
   }
 
   async cleanup(): Promise<void> {
@@ -76,4 +114,78 @@ export class RealtimeHandler {
   getActiveSubscriptions(): string[] {
     return Array.from(this.subscriptions.keys());
   }
+
+  // One channel per distinct schema/table/event/filter
+  getActiveChannels(): string[] {
+    return Array.from(this.channels.keys());
+  }
+
+  private openEntry(key: string, config: IChannelConfig): IChannelEntry {
+    const entry: IChannelEntry = {
+      config,
+      channel: null,
+      listeners: new Map(),
+      retries: 0,
+      retryTimer: null,
+    };
+    this.channels.set(key, entry);
+    entry.channel = this.createChannel(key, entry);
+    return entry;
+  }
+
+  private createChannel(key: string, entry: IChannelEntry): RealtimeChannel {
+    const channel = this.client.channel(`db:${key}`).on(
+      "postgres_changes" as any, // eslint-disable-line @typescript-eslint/no-explicit-any
+      { ...entry.config } as any, // eslint-disable-line @typescript-eslint/no-explicit-any
+      (payload: RealtimePostgresChangesPayload<Record<string, unknown>>) =>
+        this.dispatch(entry, toRealtimeEvent(payload)),
+    );
+    // Statuses from a replaced channel are ignored
+    return channel.subscribe((status) => {
+      if (entry.channel === channel) this.handleStatus(key, entry, status);
+    });
+  }
+
+  private dispatch(entry: IChannelEntry, event: IRealtimeEvent): void {
+    entry.listeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error("Realtime subscriber failed:", error);
+      }
+    });
+  }
+
+  private handleStatus(
+    key: string,
+    entry: IChannelEntry,
+    status: string,
+  ): void {
+    if (status === "SUBSCRIBED") {
+      entry.retries = 0;
+      return;
+    }
+    // CLOSED after unsubscribe: the entry is already gone
+    if (this.channels.get(key) !== entry || entry.retryTimer) return;
+
+    const delay = Math.min(
+      this.baseRetryDelay * 2 ** entry.retries,
+      MAX_RESUBSCRIBE_DELAY,
+    );
+    entry.retries += 1;
+    entry.retryTimer = setTimeout(() => this.resubscribe(key, entry), delay);
+  }
+
+  private async resubscribe(key: string, entry: IChannelEntry): Promise<void> {
+    entry.retryTimer = null;
+    if (this.channels.get(key) !== entry) return;
+
+    // The client reuses channels by topic, so the old one must go first
+    const stale = entry.channel;
+    entry.channel = null;
+    if (stale) await this.client.removeChannel(stale).catch(() => undefined);
+    if (this.channels.get(key) === entry) {
+      entry.channel = this.createChannel(key, entry);
+    }
+  }
 }
@@ -0,0 +1,277 @@
+// Transaction Context for Supabase Database Provider
+// Single Responsibility: Scoped CRUD with rollback support
+//
+// The Supabase JS client has no BEGIN/COMMIT, so two strategies are offered:
+// - "compensate": each write runs immediately and records its inverse
+//   operation; rollback() replays the inverses in reverse order
+// - "batch": writes are queued and commit() sends them to the
+//   `execute_transaction` RPC (database/transaction-rpc.sql), which applies
+//   them inside a single Postgres transaction. Queued writes return
+//   placeholder rows (inserts get their id up front, so later operations can
+//   reference it) that commit() fills with the rows the database returned
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import {
+  TRANSACTION_ERROR_CODES,
+  assertTransactionActive,
+  unwrapResponse,
+} from "@/shared/services/database/transaction-utils";
+import type {
+  IDatabaseError,
+  IDatabaseRecord,
+  IInsertData,
+  IQueryOptions,
+  ITransactionContext,
+  IUpdateData,
+  IUpsertData,
+  TransactionMode,
+} from "@/shared/types/database";
+
+import type { CrudOperations } from "./crud-operations";
+
+// Payload understood by the execute_transaction RPC
+export interface ITransactionOperation {
+  type: "insert" | "update" | "delete" | "upsert";
+  table: string;
+  id?: string;
+  data?: IInsertData | IUpdateData;
+  conflictColumns?: string[];
+}
+
+export interface ISupabaseTransactionConfig {
+  mode: TransactionMode;
+  mapError: (error: unknown) => IDatabaseError;
+}
+
+type Compensation = () => Promise<unknown>;
+
+const toArray = <T>(data: T | T[]): T[] =>
+  Array.isArray(data) ? data : [data];
+
+export class SupabaseTransactionContext implements ITransactionContext {
+  isActive = true;
+  private compensations: Compensation[] = [];
+  private operations: ITransactionOperation[] = [];
+  // One per queued operation, filled on commit
+  private placeholders: IDatabaseRecord[] = [];
+  private mode: TransactionMode;
+  private mapError: (error: unknown) => IDatabaseError;
+
+  constructor(
+    public readonly id: string,
+    private client: SupabaseClient,
+    private crud: CrudOperations,
+    config: ISupabaseTransactionConfig,
+  ) {
+    this.mode = config.mode;
+    this.mapError = config.mapError;
+  }
+
+  // Reads always hit the database directly
+  async select<T extends IDatabaseRecord>(
+    table: string,
+    options: IQueryOptions = {},
+  ): Promise<T[]> {
+    assertTransactionActive(this);
+    return unwrapResponse(
+      await this.crud.select<T>(table, options, this.mapError),
+    );
+  }
+
+  async selectOne<T extends IDatabaseRecord>(
+    table: string,
+    id: string,
+  ): Promise<T | null> {
+    assertTransactionActive(this);
+    const response = await this.crud.selectOne<T>(table, id, this.mapError);
+    return response.error ? null : response.data;
+  }
+
+  async insert<T extends IDatabaseRecord>(
+    table: string,
+    data: IInsertData | IInsertData[],
+  ): Promise<T[]> {
+    assertTransactionActive(this);
+    if (this.mode === "batch") {
+      return toArray(data).map((row) => {
+        const withId = {
+          ...row,
+          id: (row.id as string | undefined) ?? crypto.randomUUID(),
+        };
+        return this.queue<T>(
+          { type: "insert", table, data: withId },
+          { ...withId },
+        );
+      });
+    }
+
+    const inserted = unwrapResponse(
+      await this.crud.insert<T>(table, data, this.mapError),
+    );
+    this.compensations.push(() =>
+      Promise.all(
+        inserted.map((row) => this.crud.delete(table, row.id, this.mapError)),
+      ),
+    );
+    return inserted;
+  }
+
+  async update<T extends IDatabaseRecord>(
+    table: string,
+    id: string,
+    data: IUpdateData,
+  ): Promise<T> {
+    assertTransactionActive(this);
+    if (this.mode === "batch") {
+      return this.queue<T>(
+        { type: "update", table, id, data },
+        { ...data, id },
+      );
+    }
+
+    const previous = await this.requireRow(table, id);
+    const updated = unwrapResponse(
+      await this.crud.update<T>(table, id, data, this.mapError),
+    );
+    this.compensations.push(() => this.restoreRows(table, [previous]));
+    return updated;
+  }
+
+  async delete<T extends IDatabaseRecord>(
+    table: string,
+    id: string,
+  ): Promise<T> {
+    assertTransactionActive(this);
+    if (this.mode === "batch") {
+      return this.queue<T>({ type: "delete", table, id }, { id });
+    }
+
+    const previous = await this.requireRow(table, id);
+    const deleted = unwrapResponse(
+      await this.crud.delete<T>(table, id, this.mapError),
+    );
+    this.compensations.push(() => this.restoreRows(table, [previous]));
+    return deleted;
+  }
+
+  async upsert<T extends IDatabaseRecord>(
+    table: string,
+    data: IUpsertData | IUpsertData[],
+    conflictColumns: string[] = ["id"],
+  ): Promise<T[]> {
+    assertTransactionActive(this);
+    if (this.mode === "batch") {
+      // No generated id here: on conflict it would overwrite the existing key
+      return toArray(data).map((row) =>
+        this.queue<T>(
+          { type: "upsert", table, data: row, conflictColumns },
+          { ...row },
+        ),
+      );
+    }
+
+    const previous = await this.findConflicting(table, data, conflictColumns);
+    const result = unwrapResponse(
+      await this.crud.upsert<T>(table, data, conflictColumns, this.mapError),
+    );
+    const previousIds = new Set(previous.map((row) => row.id));
+    const created = result.filter((row) => !previousIds.has(row.id));
+
+    this.compensations.push(async () => {
+      await this.restoreRows(table, previous);
+      await Promise.all(
+        created.map((row) => this.crud.delete(table, row.id, this.mapError)),
+      );
+    });
+    return result;
+  }
+
+  // Lifecycle (called by UtilityOperations.transaction)
+  async commit(): Promise<void> {
+    if (this.mode === "batch" && this.operations.length > 0) {
+      const { data, error } = await this.client.rpc("execute_transaction", {
+        operations: this.operations,
+      });
+      if (error) throw this.mapError(error);
+
+      // One affected row (or null) per operation, in order
+      ((data as (IDatabaseRecord | null)[] | null) ?? []).forEach(
+        (row, index) => {
+          if (row) Object.assign(this.placeholders[index], row);
+        },
+      );
+    }
+    this.finish();
+  }
+
+  async rollback(): Promise<void> {
+    const failures: unknown[] = [];
+    for (const compensate of [...this.compensations].reverse()) {
+      try {
+        await compensate();
+      } catch (error) {
+        failures.push(error);
+      }
+    }
+    this.finish();
+
+    if (failures.length > 0) {
+      const error: IDatabaseError = {
+        code: TRANSACTION_ERROR_CODES.ROLLBACK_FAILED,
+        message: `Rollback of transaction '${this.id}' left partial state (${failures.length} step(s) failed)`,
+        details: failures,
+      };
+      throw error;
+    }
+  }
+
+  // Helpers (Single Responsibility)
+  private queue<T extends IDatabaseRecord>(
+    operation: ITransactionOperation,
+    placeholder: Partial<IDatabaseRecord>,
+  ): T {
+    this.operations.push(operation);
+    this.placeholders.push(placeholder as IDatabaseRecord);
+    return placeholder as T;
+  }
+
+  private finish(): void {
+    this.isActive = false;
+    this.compensations = [];
+    this.operations = [];
+    this.placeholders = [];
+  }
+
+  private async requireRow(
+    table: string,
+    id: string,
+  ): Promise<IDatabaseRecord> {
+    return unwrapResponse(await this.crud.selectOne(table, id, this.mapError));
+  }
+
+  private async restoreRows(
+    table: string,
+    rows: IDatabaseRecord[],
+  ): Promise<void> {
+    if (rows.length === 0) return;
+    unwrapResponse(await this.crud.upsert(table, rows, ["id"], this.mapError));
+  }
+
+  private async findConflicting(
+    table: string,
+    data: IUpsertData | IUpsertData[],
+    conflictColumns: string[],
+  ): Promise<IDatabaseRecord[]> {
+    const lookups = toArray(data).map(async (row) => {
+      const where = Object.fromEntries(
+        conflictColumns.map((column) => [column, row[column]]),
+      );
+      if (Object.values(where).some((value) => value === undefined)) return [];
+      return unwrapResponse(
+        await this.crud.select(table, { where }, this.mapError),
+      );
+    });
+    return (await Promise.all(lookups)).flat();
+  }
+}
@@ -3,17 +3,26 @@
 
 import type { SupabaseClient } from "@supabase/supabase-js";
 
+import { isDatabaseError } from "@/shared/services/database/transaction-utils";
 import type {
   IQueryOptions,
   IDatabaseResponse,
   IDatabaseError,
   ITransactionContext,
+  ITransactionOptions,
 } from "@/shared/types/database";
 
+import type { CrudOperations } from "./crud-operations";
+import { applyFilters } from "./query-compiler";
+import { SupabaseTransactionContext } from "./transaction-context";
+
 export class UtilityOperations {
   private transactionCounter = 0;
 
-  constructor(private client: SupabaseClient) {}
+  constructor(
+    private client: SupabaseClient,
+    private crud: CrudOperations,
+  ) {}
 
   // Health check
   async isConnected(): Promise<boolean> {
@@ -63,7 +72,7 @@ export class UtilityOperations {
   // Count operations
   async count(
     table: string,
-    options: Pick<IQueryOptions, "where">,
+    options: Pick<IQueryOptions, "where" | "filters">,
     mapError: (error: unknown) => IDatabaseError,
   ): Promise<IDatabaseResponse<number>> {
     try {
@@ -76,6 +85,7 @@ export class UtilityOperations {
           query = query.eq(key, value);
         });
       }
+      query = applyFilters(query, options.filters);
 
       const { count, error } = await query;
 
@@ -134,30 +144,49 @@ export class UtilityOperations {
     }
   }
 
-  // Transactions (simulated with RPC)
+  // Transactions
+  // "compensate" (default) undoes applied writes on failure; "batch" defers
+  // all writes to a single execute_transaction RPC call on commit
   async transaction<T>(
     callback: (ctx: ITransactionContext) => Promise<T>,
     mapError: (error: unknown) => IDatabaseError,
+    options: ITransactionOptions = {},
   ): Promise<IDatabaseResponse<T>> {
-    try {
-      const transactionId = `tx_${++this.transactionCounter}_${Date.now()}`;
-      const context: ITransactionContext = {
-        id: transactionId,
-        isActive: true,
-      };
+    const context = new SupabaseTransactionContext(
+      `tx_${++this.transactionCounter}_${Date.now()}`,
+      this.client,
+      this.crud,
+      { mode: options.mode ?? "compensate", mapError },
+    );
 
-      // Supabase não tem transações diretas no client
-      // Alternativas: usar RPC functions ou aceitar que operações são independentes
+    try {
       const result = await callback(context);
-
-      return {
-        data: result,
-        error: null,
-      };
+      await context.commit();
+      return { data: result, error: null };
     } catch (error) {
       return {
         data: null,
-        error: mapError(error),
+        error: await this.rollback(context, error, mapError),
+      };
+    }
+  }
+
+  // SRP: Roll back and report the original failure, unless rollback itself
+  // failed. The context's own operations throw errors that are already
+  // mapped; anything else the callback threw is mapped like every other
+  // provider error
+  private async rollback(
+    context: SupabaseTransactionContext,
+    cause: unknown,
+    mapError: (error: unknown) => IDatabaseError,
+  ): Promise<IDatabaseError> {
+    try {
+      await context.rollback();
+      return isDatabaseError(cause) ? cause : mapError(cause);
+    } catch (rollbackError) {
+      return {
+        ...(rollbackError as IDatabaseError),
+        details: { cause, rollbackError },
       };
     }
   }
@@ -0,0 +1,183 @@
+// Typed Query Builder over IQueryOptions
+// Builds filters, relations and pagination any IDatabaseProvider understands
+
+import type {
+  FilterOperator,
+  IDatabaseProvider,
+  IDatabaseRecord,
+  IDatabaseResponse,
+  IQueryOptions,
+  IRelationSelect,
+  QueryFilter,
+} from "@/shared/types/database";
+
+type Column<T> = Extract<keyof T, string>;
+
+// Conditions shared by the query and its OR/AND groups
+abstract class FilterBuilder<T extends IDatabaseRecord> {
+  protected filters: QueryFilter[] = [];
+
+  eq<K extends Column<T>>(column: K, value: T[K]): this {
+    return this.where(column, "eq", value);
+  }
+
+  neq<K extends Column<T>>(column: K, value: T[K]): this {
+    return this.where(column, "neq", value);
+  }
+
+  gt<K extends Column<T>>(column: K, value: T[K]): this {
+    return this.where(column, "gt", value);
+  }
+
+  gte<K extends Column<T>>(column: K, value: T[K]): this {
+    return this.where(column, "gte", value);
+  }
+
+  lt<K extends Column<T>>(column: K, value: T[K]): this {
+    return this.where(column, "lt", value);
+  }
+
+  lte<K extends Column<T>>(column: K, value: T[K]): this {
+    return this.where(column, "lte", value);
+  }
+
+  in<K extends Column<T>>(column: K, values: T[K][]): this {
+    return this.where(column, "in", values);
+  }
+
+  // SQL patterns: % matches any sequence, _ a single character
+  like(column: Column<T>, pattern: string): this {
+    return this.where(column, "like", pattern);
+  }
+
+  ilike(column: Column<T>, pattern: string): this {
+    return this.where(column, "ilike", pattern);
+  }
+
+  isNull(column: Column<T>): this {
+    return this.where(column, "is", null);
+  }
+
+  isNotNull(column: Column<T>): this {
+    return this.where(column, "not.is", null);
+  }
+
+  // At least one condition of the group must hold
+  or(build: (group: FilterGroupBuilder<T>) => void): this {
+    return this.group("or", build);
+  }
+
+  // Useful inside an OR group: or(a, and(b, c))
+  and(build: (group: FilterGroupBuilder<T>) => void): this {
+    return this.group("and", build);
+  }
+
+  private where(
+    column: string,
+    operator: FilterOperator,
+    value: unknown,
+  ): this {
+    this.filters.push({ column, operator, value });
+    return this;
+  }
+
+  private group(
+    type: "or" | "and",
+    build: (group: FilterGroupBuilder<T>) => void,
+  ): this {
+    const group = new FilterGroupBuilder<T>();
+    build(group);
+    const filters = group.toFilters();
+    if (filters.length > 0) {
+      this.filters.push({ type, filters });
+    }
+    return this;
+  }
+}
+
+export class FilterGroupBuilder<
+  T extends IDatabaseRecord,
+> extends FilterBuilder<T> {
+  toFilters(): QueryFilter[] {
+    return [...this.filters];
+  }
+}
+
+export class QueryBuilder<
+  T extends IDatabaseRecord = IDatabaseRecord,
+> extends FilterBuilder<T> {
+  private columns?: string[];
+  private relations: IRelationSelect[] = [];
+  private ordering: NonNullable<IQueryOptions["orderBy"]> = [];
+  private pagination: Pick<
+    IQueryOptions,
+    "limit" | "offset" | "after" | "before"
+  > = {};
+
+  private constructor(public readonly table: string) {
+    super();
+  }
+
+  static from<T extends IDatabaseRecord = IDatabaseRecord>(
+    table: string,
+  ): QueryBuilder<T> {
+    return new QueryBuilder<T>(table);
+  }
+
+  select(...columns: Column<T>[]): this {
+    this.columns = columns;
+    return this;
+  }
+
+  // Embedded relation, e.g. with("profiles", { alias: "author", foreignKey: "author_id" })
+  with(table: string, relation: Omit<IRelationSelect, "table"> = {}): this {
+    this.relations.push({ table, ...relation });
+    return this;
+  }
+
+  orderBy(column: Column<T>, ascending = true): this {
+    this.ordering.push({ column, ascending });
+    return this;
+  }
+
+  limit(count: number): this {
+    this.pagination = { ...this.pagination, limit: count };
+    return this;
+  }
+
+  // Inclusive range, as in PostgREST: range(0, 9) returns 10 rows
+  range(from: number, to: number): this {
+    this.pagination = { offset: from, limit: to - from + 1 };
+    return this;
+  }
+
+  // Cursor pagination: pass the previous page's nextCursor (null = first page)
+  after(cursor: string | null): this {
+    this.pagination = { limit: this.pagination.limit, after: cursor };
+    return this;
+  }
+
+  // Backward: pass the previousCursor (null = last page)
+  before(cursor: string | null): this {
+    this.pagination = { limit: this.pagination.limit, before: cursor };
+    return this;
+  }
+
+  build(): IQueryOptions {
+    return {
+      ...(this.columns && { select: [...this.columns] }),
+      ...(this.filters.length > 0 && { filters: [...this.filters] }),
+      ...(this.relations.length > 0 && { relations: [...this.relations] }),
+      ...(this.ordering.length > 0 && { orderBy: [...this.ordering] }),
+      ...this.pagination,
+    };
+  }
+
+  execute(db: IDatabaseProvider): Promise<IDatabaseResponse<T[]>> {
+    return db.select<T>(this.table, this.build());
+  }
+
+  count(db: IDatabaseProvider): Promise<IDatabaseResponse<number>> {
+    return db.count(this.table, { filters: this.build().filters });
+  }
+}
@@ -0,0 +1,92 @@
+// Realtime row filters shared by every provider
+// Supabase receives the `column=op.value` string; the memory and Postgres
+// providers evaluate the same filter locally before dispatching an event
+
+import type {
+  FilterOperator,
+  IDatabaseRecord,
+  IFilterCondition,
+} from "@/shared/types/database";
+import type { IRealtimeEvent, RealtimeFilter } from "@/shared/types/realtime";
+
+import { matchesFilters } from "./providers/memory/query-engine";
+
+// The operators Supabase Realtime accepts in postgres_changes filters
+const REALTIME_OPERATORS: FilterOperator[] = [
+  "eq",
+  "neq",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "in",
+];
+
+const FILTER_PATTERN = /^([A-Za-z_][A-Za-z0-9_]*)=([a-z]+)\.(.*)$/;
+
+const assertOperator = (operator: string): FilterOperator => {
+  if (!REALTIME_OPERATORS.includes(operator as FilterOperator)) {
+    throw new Error(`Unsupported realtime filter operator: '${operator}'`);
+  }
+  return operator as FilterOperator;
+};
+
+// `in.(a,b)` lists are kept as strings, like any other filter value
+const parseValue = (operator: FilterOperator, raw: string): unknown =>
+  operator === "in"
+    ? raw
+        .replace(/^\(|\)$/g, "")
+        .split(",")
+        .map((item) => item.trim())
+    : raw;
+
+export const parseRealtimeFilter = (
+  filter: RealtimeFilter,
+): IFilterCondition => {
+  if (typeof filter !== "string") {
+    return { ...filter, operator: assertOperator(filter.operator) };
+  }
+
+  const match = FILTER_PATTERN.exec(filter.trim());
+  if (!match) {
+    throw new Error(`Invalid realtime filter: '${filter}'`);
+  }
+  const [, column, rawOperator, raw] = match;
+  const operator = assertOperator(rawOperator);
+  return { column, operator, value: parseValue(operator, raw) };
+};
+
+export const formatRealtimeFilter = (filter: RealtimeFilter): string => {
+  const { column, operator, value } = parseRealtimeFilter(filter);
+  const formatted = Array.isArray(value)
+    ? `(${value.map(String).join(",")})`
+    : String(value);
+  return `${column}=${operator}.${formatted}`;
+};
+
+// String filters carry string values: convert them to the row's own type
+const coerceTo = (actual: unknown, expected: unknown): unknown => {
+  if (Array.isArray(expected)) {
+    return expected.map((item) => coerceTo(actual, item));
+  }
+  if (typeof expected !== "string") return expected;
+  if (typeof actual === "number") return Number(expected);
+  if (typeof actual === "boolean") return expected === "true";
+  return expected;
+};
+
+export const matchesRealtimeFilter = (
+  event: IRealtimeEvent<Record<string, unknown>>,
+  filter: RealtimeFilter | undefined,
+): boolean => {
+  if (!filter) return true;
+
+  // DELETE events only carry the old row
+  const row = (event.new ?? event.old) as IDatabaseRecord | undefined;
+  if (!row) return false;
+
+  const condition = parseRealtimeFilter(filter);
+  return matchesFilters(row, [
+    { ...condition, value: coerceTo(row[condition.column], condition.value) },
+  ]);
+};
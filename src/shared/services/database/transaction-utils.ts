@@ -0,0 +1,49 @@
+// Transaction helpers shared by database providers
+// Single Responsibility: Turn IDatabaseResponse results into throw-on-error values
+
+import type {
+  IDatabaseError,
+  IDatabaseResponse,
+  ITransactionContext,
+} from "@/shared/types/database";
+
+export const TRANSACTION_ERROR_CODES = {
+  INACTIVE: "transaction_inactive",
+  FAILED: "transaction_failed",
+  ROLLBACK_FAILED: "transaction_rollback_failed",
+} as const;
+
+// Throw the provider error so the transaction callback aborts
+export const unwrapResponse = <T>(response: IDatabaseResponse<T>): T => {
+  if (response.error) {
+    throw response.error;
+  }
+  return response.data as T;
+};
+
+export const assertTransactionActive = (ctx: ITransactionContext): void => {
+  if (!ctx.isActive) {
+    const error: IDatabaseError = {
+      code: TRANSACTION_ERROR_CODES.INACTIVE,
+      message: `Transaction '${ctx.id}' is no longer active`,
+    };
+    throw error;
+  }
+};
+
+// Already an IDatabaseError (a provider operation threw it)
+export const isDatabaseError = (error: unknown): error is IDatabaseError =>
+  typeof error === "object" &&
+  error !== null &&
+  typeof (error as IDatabaseError).code === "string" &&
+  typeof (error as IDatabaseError).message === "string";
+
+// Normalize whatever the transaction callback threw
+export const toTransactionError = (error: unknown): IDatabaseError => {
+  const errorObj = error as { code?: string; message?: string };
+  return {
+    code: errorObj.code || TRANSACTION_ERROR_CODES.FAILED,
+    message: errorObj.message || "Transaction failed and was rolled back",
+    details: error,
+  };
+};
@@ -3,7 +3,12 @@
 
 // Base services and interfaces
 export { BaseService } from "./base.service";
-export type { IRepository, IValidator } from "./base.service";
+export type {
+  IRepository,
+  IValidator,
+  ICursorPaginationInput,
+  IPaginatedResult,
+} from "./base.service";
 
 // Supabase integration
 export { SupabaseService, createSupabaseService } from "./supabase.service";
@@ -0,0 +1,18 @@
+// Organizations (multi-tenancy)
+// InvitationService is server-side only: it needs the service role key and
+// INVITATION_SECRET. The browser goes through InvitationClient
+export {
+  OrganizationService,
+  mapInvitation,
+  mapOrganization,
+} from "./organization-service";
+export { InvitationClient } from "./invitation-client";
+export {
+  InvitationService,
+  type InvitationErrorCode,
+} from "./invitation-service";
+export {
+  signInvitationToken,
+  verifyInvitationToken,
+  type IInvitationClaims,
+} from "./invitation-token";
@@ -0,0 +1,92 @@
+// Invitation Client (browser)
+// Single Responsibility: Call the invitations API
+// (routes.api.organizations.invitations) on behalf of the signed-in user
+
+import { routes } from "@/config/routes";
+import type {
+  ICreatedInvitation,
+  IInviteMember,
+  IOrganizationInvitation,
+} from "@/shared/types/organization";
+import type { IRBACError } from "@/shared/types/rbac";
+
+// JSON carries the dates as ISO strings
+const reviveInvitation = (
+  invitation: IOrganizationInvitation,
+): IOrganizationInvitation => ({
+  ...invitation,
+  expiresAt: new Date(invitation.expiresAt),
+  respondedAt: invitation.respondedAt && new Date(invitation.respondedAt),
+  createdAt: invitation.createdAt && new Date(invitation.createdAt),
+});
+
+export class InvitationClient {
+  private fetch: typeof fetch;
+
+  constructor(fetchImpl?: typeof fetch) {
+    // Unbound, window.fetch throws "Illegal invocation"
+    this.fetch = fetchImpl ?? ((...args): Promise<Response> => fetch(...args));
+  }
+
+  async invite(
+    accessToken: string,
+    input: IInviteMember,
+  ): Promise<ICreatedInvitation> {
+    const created = (await this.request(
+      "POST",
+      input,
+      accessToken,
+    )) as ICreatedInvitation;
+    return { ...created, invitation: reviveInvitation(created.invitation) };
+  }
+
+  async accept(
+    accessToken: string,
+    token: string,
+  ): Promise<IOrganizationInvitation> {
+    return this.answer("PUT", token, accessToken);
+  }
+
+  async decline(token: string): Promise<IOrganizationInvitation> {
+    return this.answer("DELETE", token);
+  }
+
+  private async answer(
+    method: "PUT" | "DELETE",
+    token: string,
+    accessToken?: string,
+  ): Promise<IOrganizationInvitation> {
+    const { invitation } = (await this.request(
+      method,
+      { token },
+      accessToken,
+    )) as { invitation: IOrganizationInvitation };
+    return reviveInvitation(invitation);
+  }
+
+  private async request(
+    method: "POST" | "PUT" | "DELETE",
+    body: object,
+    accessToken?: string,
+  ): Promise<unknown> {
+    const response = await this.fetch(routes.api.organizations.invitations, {
+      method,
+      headers: {
+        ...(accessToken && { Authorization: `Bearer ${accessToken}` }),
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+    });
+    const payload = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      throw {
+        code: payload.code ?? "invitation_failed",
+        message: payload.message ?? "Invitation request failed",
+        details: payload,
+      } satisfies IRBACError;
+    }
+
+    return payload;
+  }
+}
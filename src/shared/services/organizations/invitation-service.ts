@@ -0,0 +1,246 @@
+// Invitation Service (server-side)
+// Single Responsibility: Invite members by email and let the invitee
+// accept or decline
+//
+// Needs the service role (it writes invitations and grants the role) and
+// INVITATION_SECRET (it signs the links). Inviting takes users.invite in
+// the organization; accepting takes a session with the invited, confirmed
+// email
+
+import type { SupabaseClient, User } from "@supabase/supabase-js";
+
+import type { IApiCaller } from "@/shared/services/auth/tokens";
+import {
+  INVITABLE_ROLES,
+  INVITATION_MAX_TTL_DAYS,
+  INVITATION_TTL_DAYS,
+  type ICreatedInvitation,
+  type IInviteMember,
+  type IOrganizationInvitation,
+} from "@/shared/types/organization";
+import { DEFAULT_PERMISSIONS, type IRBACError } from "@/shared/types/rbac";
+
+import {
+  signInvitationToken,
+  verifyInvitationToken,
+  type IInvitationClaims,
+} from "./invitation-token";
+import { mapInvitation } from "./organization-service";
+
+export type InvitationErrorCode =
+  | "unauthorized"
+  | "forbidden"
+  | "invalid_request"
+  | "not_found"
+  | "expired"
+  | "invitation_failed";
+
+const TABLE = "organization_invitations";
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const fail = (
+  code: InvitationErrorCode,
+  message: string,
+  details?: unknown,
+): IRBACError => ({ code, message, details });
+
+export class InvitationService {
+  constructor(
+    private admin: SupabaseClient,
+    private secret: string,
+  ) {}
+
+  // The inviter comes from authenticateApiCaller: a session, or an access
+  // token whose scope must also cover users.invite in the organization
+  async invite(
+    inviter: IApiCaller,
+    input: IInviteMember,
+  ): Promise<ICreatedInvitation> {
+    const { email, expiresInDays } = this.validate(input);
+    await this.authorize(inviter, input.organizationId);
+
+    const expiresAt = new Date(Date.now() + expiresInDays * DAY_MS);
+    const { data, error } = await this.admin
+      .from(TABLE)
+      .insert({
+        organization_id: input.organizationId,
+        email,
+        role_id: await this.roleId(input.role),
+        invited_by: inviter.user.id,
+        expires_at: expiresAt.toISOString(),
+      })
+      .select("*, roles(name)")
+      .single();
+    if (error) {
+      throw error.code === "23505"
+        ? fail("invalid_request", "This email already has a pending invitation")
+        : fail("invitation_failed", "Could not create the invitation", error);
+    }
+
+    const invitation = mapInvitation(data);
+    const token = await signInvitationToken(
+      {
+        invitationId: invitation.id,
+        organizationId: input.organizationId,
+        email,
+        expiresAt,
+      },
+      this.secret,
+    );
+    return { invitation, token };
+  }
+
+  // Grants the invited role in the organization to the signed-in invitee.
+  // An unconfirmed address proves nothing: anyone can sign up with it
+  async accept(
+    userToken: string,
+    invitationToken: string,
+  ): Promise<IOrganizationInvitation> {
+    const user = await this.verify(userToken);
+    const claims = await verifyInvitationToken(invitationToken, this.secret);
+    if (user.email?.toLowerCase() !== claims.email) {
+      throw fail("forbidden", "This invitation is for another email");
+    }
+    if (!user.email_confirmed_at) {
+      throw fail("forbidden", "Confirm your email to accept the invitation");
+    }
+    const pending = await this.pending(claims);
+    const roleId = await this.roleId(pending.role);
+
+    // Answered first: a decline racing this accept finds it taken
+    const accepted = await this.respond(pending, "accepted");
+    // The conflict target is user_roles_grant_key, UNIQUE NULLS NOT DISTINCT
+    // (migration 008, PostgreSQL 15+): a NULL resource_id still conflicts
+    const { error } = await this.admin.from("user_roles").upsert(
+      {
+        user_id: user.id,
+        role_id: roleId,
+        organization_id: pending.organizationId,
+        assigned_by: pending.invitedBy,
+        is_active: true,
+      },
+      { onConflict: "user_id,role_id,organization_id,resource_id" },
+    );
+    if (error) {
+      // Back to pending, so the link can be used again
+      await this.admin
+        .from(TABLE)
+        .update({ status: "pending", responded_at: null })
+        .eq("id", pending.id);
+      throw fail("invitation_failed", "Could not grant the role", error);
+    }
+    return accepted;
+  }
+
+  // The link alone is enough to turn an invitation down
+  async decline(invitationToken: string): Promise<IOrganizationInvitation> {
+    const claims = await verifyInvitationToken(invitationToken, this.secret);
+    return this.respond(await this.pending(claims), "declined");
+  }
+
+  private async verify(token: string): Promise<User> {
+    const { data, error } = await this.admin.auth.getUser(token);
+    if (error || !data.user) {
+      throw fail("unauthorized", "Invalid or expired session", error);
+    }
+    return data.user;
+  }
+
+  private validate({ email, role, expiresInDays }: IInviteMember): {
+    email: string;
+    expiresInDays: number;
+  } {
+    const normalized = email.trim().toLowerCase();
+    if (!EMAIL.test(normalized)) {
+      throw fail("invalid_request", "A valid email is required");
+    }
+    if (!INVITABLE_ROLES.includes(role)) {
+      throw fail("invalid_request", `Role '${role}' cannot be invited`);
+    }
+    // Comes straight from the request body: anything but a whole number
+    // of days in range is refused
+    const days = expiresInDays ?? INVITATION_TTL_DAYS;
+    if (!Number.isInteger(days) || days < 1 || days > INVITATION_MAX_TTL_DAYS) {
+      throw fail(
+        "invalid_request",
+        `expiresInDays must be a whole number from 1 to ${INVITATION_MAX_TTL_DAYS}`,
+      );
+    }
+    return { email: normalized, expiresInDays: days };
+  }
+
+  private async authorize(
+    inviter: IApiCaller,
+    organizationId: string,
+  ): Promise<void> {
+    const allowed = await inviter.permissions.userHasPermission(
+      inviter.user.id,
+      DEFAULT_PERMISSIONS.USERS_INVITE,
+      organizationId,
+    );
+    if (!allowed) {
+      throw fail("forbidden", "Missing permission to invite users");
+    }
+  }
+
+  private async roleId(name: string): Promise<string> {
+    const { data, error } = await this.admin
+      .from("roles")
+      .select("id")
+      .eq("name", name)
+      .single();
+    if (error || !data) {
+      throw fail("invitation_failed", `Role '${name}' not found`, error);
+    }
+    return (data as { id: string }).id;
+  }
+
+  // The invitation the token names, while it can still be answered
+  private async pending(
+    claims: IInvitationClaims,
+  ): Promise<IOrganizationInvitation> {
+    const { data, error } = await this.admin
+      .from(TABLE)
+      .select("*, roles(name)")
+      .eq("id", claims.invitationId)
+      .maybeSingle();
+    if (error) {
+      throw fail("invitation_failed", "Could not load the invitation", error);
+    }
+    if (!data) {
+      throw fail("not_found", "Invitation not found");
+    }
+
+    const invitation = mapInvitation(data);
+    if (invitation.status !== "pending") {
+      throw fail("invalid_request", `Invitation already ${invitation.status}`);
+    }
+    if (invitation.expiresAt.getTime() <= Date.now()) {
+      throw fail("expired", "This invitation has expired");
+    }
+    return invitation;
+  }
+
+  private async respond(
+    invitation: IOrganizationInvitation,
+    status: "accepted" | "declined",
+  ): Promise<IOrganizationInvitation> {
+    const respondedAt = new Date();
+    const { data, error } = await this.admin
+      .from(TABLE)
+      .update({ status, responded_at: respondedAt.toISOString() })
+      .eq("id", invitation.id)
+      .eq("status", "pending")
+      .select("id")
+      .maybeSingle();
+    if (error) {
+      throw fail("invitation_failed", "Could not record the answer", error);
+    }
+    // Answered by another request since it was loaded
+    if (!data) {
+      throw fail("invalid_request", "Invitation already answered");
+    }
+    return { ...invitation, status, respondedAt };
+  }
+}
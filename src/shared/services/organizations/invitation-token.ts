@@ -0,0 +1,55 @@
+// Invitation tokens: HS256 JWTs signed with INVITATION_SECRET
+// The token names the invitation and its email and expires with it; the
+// invitation row still decides whether it can be used
+
+import { JwtError, signJwt, verifyJwt } from "@/shared/services/auth/session";
+import type { IRBACError } from "@/shared/types/rbac";
+
+// Keeps these tokens from passing for any other kind
+const AUDIENCE = "organization-invitation";
+
+export interface IInvitationClaims {
+  invitationId: string;
+  organizationId: string;
+  email: string;
+  expiresAt: Date;
+}
+
+export const signInvitationToken = (
+  claims: IInvitationClaims,
+  secret: string,
+): Promise<string> =>
+  signJwt(
+    {
+      sub: claims.invitationId,
+      org: claims.organizationId,
+      email: claims.email,
+      aud: AUDIENCE,
+      exp: Math.floor(claims.expiresAt.getTime() / 1000),
+    },
+    secret,
+  );
+
+export const verifyInvitationToken = async (
+  token: string,
+  secret: string,
+): Promise<IInvitationClaims> => {
+  try {
+    const claims = await verifyJwt(token, { secret, audience: AUDIENCE });
+    return {
+      invitationId: String(claims.sub),
+      organizationId: String(claims.org),
+      email: String(claims.email),
+      expiresAt: new Date((claims.exp ?? 0) * 1000),
+    };
+  } catch (error) {
+    // Whatever fails to decode is a bad link, never a server error
+    const expired = error instanceof JwtError && error.code === "expired";
+    throw {
+      code: expired ? "expired" : "invalid_request",
+      message: expired
+        ? "This invitation has expired"
+        : "Invalid invitation link",
+    } satisfies IRBACError;
+  }
+};
@@ -0,0 +1,172 @@
+// Organization Service
+// Single Responsibility: The signed-in user's organizations: create,
+// update, delete and ownership transfer (create_organization and friends
+// in database/migrations/004_organizations.sql)
+//
+// The client must act as the user: RLS and the functions check membership,
+// organization.update / organization.delete and ownership
+
+import type { PostgrestError, SupabaseClient } from "@supabase/supabase-js";
+
+import type {
+  IOrganizationInput,
+  IOrganizationInvitation,
+  InvitationStatus,
+} from "@/shared/types/organization";
+import type { IOrganization, IRBACError } from "@/shared/types/rbac";
+import {
+  fromOrganizationInvitationRow,
+  fromOrganizationRow,
+  type IOrganizationInvitationRow,
+  type IOrganizationRow,
+} from "@/shared/types/rbac.generated";
+
+type InvitationRowWithRole = IOrganizationInvitationRow & {
+  roles: { name: string } | null;
+};
+
+export const mapOrganization = (row: IOrganizationRow): IOrganization => {
+  const record = fromOrganizationRow(row);
+  return {
+    id: record.id,
+    name: record.name,
+    ownerId: record.ownerId,
+    settings: (record.settings ?? {}) as Record<string, unknown>,
+    // Both default to NOW() in the database
+    createdAt: record.createdAt as Date,
+    updatedAt: record.updatedAt as Date,
+  };
+};
+
+export const mapInvitation = (
+  row: InvitationRowWithRole,
+): IOrganizationInvitation => {
+  const record = fromOrganizationInvitationRow(row);
+  return {
+    id: record.id,
+    organizationId: record.organizationId,
+    email: record.email,
+    role: row.roles?.name ?? "",
+    invitedBy: record.invitedBy,
+    status: record.status as InvitationStatus,
+    expiresAt: record.expiresAt,
+    respondedAt: record.respondedAt,
+    createdAt: record.createdAt,
+  };
+};
+
+const mapError = (error: PostgrestError): IRBACError => ({
+  code: error.code || "organization_failed",
+  message: error.message,
+  details: error,
+});
+
+const invalid = (message: string): IRBACError => ({
+  code: "invalid_request",
+  message,
+});
+
+export class OrganizationService {
+  constructor(private client: SupabaseClient) {}
+
+  // Organizations the user is a member of, by name
+  async list(): Promise<IOrganization[]> {
+    const { data, error } = await this.client
+      .from("organizations")
+      .select("*")
+      .order("name");
+
+    if (error) {
+      throw mapError(error);
+    }
+
+    return (data as IOrganizationRow[]).map(mapOrganization);
+  }
+
+  // The caller becomes its owner
+  async create(input: IOrganizationInput): Promise<IOrganization> {
+    const name = this.validName(input.name);
+    const { data, error } = await this.client
+      .rpc("create_organization", { name, settings: input.settings ?? {} })
+      .single();
+
+    if (error) {
+      throw mapError(error);
+    }
+
+    return mapOrganization(data as IOrganizationRow);
+  }
+
+  async update(
+    organizationId: string,
+    input: Partial<IOrganizationInput>,
+  ): Promise<IOrganization> {
+    const { data, error } = await this.client
+      .from("organizations")
+      .update({
+        ...(input.name !== undefined && { name: this.validName(input.name) }),
+        ...(input.settings && { settings: input.settings }),
+      })
+      .eq("id", organizationId)
+      .select()
+      .single();
+
+    if (error) {
+      throw mapError(error);
+    }
+
+    return mapOrganization(data as IOrganizationRow);
+  }
+
+  // Also drops its invitations and every role granted in it
+  async delete(organizationId: string): Promise<void> {
+    const { error } = await this.client.rpc("delete_organization", {
+      organization_id: organizationId,
+    });
+
+    if (error) {
+      throw mapError(error);
+    }
+  }
+
+  // Owner only; the new owner must already be a member
+  async transferOwnership(
+    organizationId: string,
+    newOwnerId: string,
+  ): Promise<void> {
+    const { error } = await this.client.rpc("transfer_organization_ownership", {
+      organization_id: organizationId,
+      new_owner_id: newOwnerId,
+    });
+
+    if (error) {
+      throw mapError(error);
+    }
+  }
+
+  // Pending invitations, for users with users.invite in the organization
+  async listInvitations(
+    organizationId: string,
+  ): Promise<IOrganizationInvitation[]> {
+    const { data, error } = await this.client
+      .from("organization_invitations")
+      .select("*, roles(name)")
+      .eq("organization_id", organizationId)
+      .eq("status", "pending")
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      throw mapError(error);
+    }
+
+    return (data as InvitationRowWithRole[]).map(mapInvitation);
+  }
+
+  private validName(name: string): string {
+    const trimmed = name.trim();
+    if (!trimmed || trimmed.length > 100) {
+      throw invalid("An organization name of up to 100 characters is required");
+    }
+    return trimmed;
+  }
+}
@@ -0,0 +1,191 @@
+// Policy Engine (ABAC on top of RBAC)
+// Single Responsibility: Decide whether a user may act on a resource
+//
+// The RBAC permission (resource.action, scoped to the resource id when
+// there is one) is checked first; without it no policy runs. Then, among
+// the policies for the resource and action: any deny that holds refuses,
+// and when allow policies apply, one of them must hold. Conditions and
+// permission lookups that throw fail closed
+
+import type {
+  IPolicy,
+  IPolicyContext,
+  IPolicyDecision,
+  IPolicyEvaluationOptions,
+  IPolicyRequest,
+  IPolicyResource,
+  IPolicyTraceEntry,
+} from "@/shared/types/policy";
+import { type IRBACProvider } from "@/shared/types/rbac";
+import { formatPermissionName } from "@/shared/types/rbac-permissions";
+
+// The RBAC half: sync in the client (useRBAC), async on the server
+export type PermissionCheck = (
+  permissionName: string,
+) => boolean | Promise<boolean>;
+
+const ANY = "*";
+
+const applies = (
+  policy: IPolicy,
+  { resource, action }: IPolicyRequest,
+): boolean =>
+  (policy.resource === ANY || policy.resource === resource.type) &&
+  (policy.actions.includes(ANY) || policy.actions.includes(action));
+
+const resolveContext = (
+  context: Partial<IPolicyContext> = {},
+): IPolicyContext => ({
+  now: context.now ?? new Date(),
+  organizationId: context.organizationId,
+  attributes: context.attributes ?? {},
+});
+
+export class PolicyEngine {
+  private policies: IPolicy[] = [];
+
+  // Policies are typed by the resource they read; the engine only routes
+  // them by resource type
+  register<TResource extends IPolicyResource>(
+    ...policies: IPolicy<TResource>[]
+  ): this {
+    for (const policy of policies) {
+      this.unregister(policy.name);
+      this.policies.push(policy);
+    }
+    return this;
+  }
+
+  unregister(name: string): void {
+    this.policies = this.policies.filter((policy) => policy.name !== name);
+  }
+
+  getPolicies(): readonly IPolicy[] {
+    return this.policies;
+  }
+
+  clear(): void {
+    this.policies = [];
+  }
+
+  async evaluate<TResource extends IPolicyResource>(
+    request: IPolicyRequest<TResource>,
+    hasPermission: PermissionCheck,
+    options: IPolicyEvaluationOptions = {},
+  ): Promise<IPolicyDecision> {
+    const trace: IPolicyTraceEntry[] = [];
+    const permission = formatPermissionName({
+      resource: request.resource.type,
+      action: request.action,
+      resourceId: request.resource.id,
+    });
+    let granted: boolean;
+    try {
+      granted = await hasPermission(permission);
+    } catch (error) {
+      trace.push({
+        rule: permission,
+        kind: "permission",
+        matched: false,
+        error,
+      });
+      const decision: IPolicyDecision = {
+        allowed: false,
+        reason: "policy_error",
+        rule: permission,
+      };
+      return options.explain ? { ...decision, trace } : decision;
+    }
+    trace.push({ rule: permission, kind: "permission", matched: granted });
+
+    const decision = granted
+      ? await this.applyPolicies(request, permission, trace)
+      : {
+          allowed: false,
+          reason: "permission_denied" as const,
+          rule: permission,
+        };
+    return options.explain ? { ...decision, trace } : decision;
+  }
+
+  // Server-side: the RBAC half asks the provider, in the request's
+  // organization
+  authorize<TResource extends IPolicyResource>(
+    provider: IRBACProvider,
+    request: IPolicyRequest<TResource>,
+    options: IPolicyEvaluationOptions = {},
+  ): Promise<IPolicyDecision> {
+    return this.evaluate(
+      request,
+      (permissionName) =>
+        provider.userHasPermission(
+          request.user.id,
+          permissionName,
+          request.context?.organizationId,
+        ),
+      options,
+    );
+  }
+
+  // Deny policies first, then the allow policies (when some apply)
+  private async applyPolicies<TResource extends IPolicyResource>(
+    request: IPolicyRequest<TResource>,
+    permission: string,
+    trace: IPolicyTraceEntry[],
+  ): Promise<IPolicyDecision> {
+    const context = resolveContext(request.context);
+    const applicable = this.policies.filter((policy) =>
+      applies(policy, request as IPolicyRequest),
+    );
+
+    for (const policy of applicable.filter(({ effect }) => effect === "deny")) {
+      const entry = await this.check(policy, request, context);
+      trace.push(entry);
+      if ("error" in entry) {
+        return { allowed: false, reason: "policy_error", rule: policy.name };
+      }
+      if (entry.matched) {
+        return { allowed: false, reason: "deny_policy", rule: policy.name };
+      }
+    }
+
+    const allows = applicable.filter(({ effect }) => effect === "allow");
+    if (allows.length === 0) {
+      return { allowed: true, reason: "permission_granted", rule: permission };
+    }
+    for (const policy of allows) {
+      const entry = await this.check(policy, request, context);
+      trace.push(entry);
+      if (entry.matched) {
+        return { allowed: true, reason: "allow_policy", rule: policy.name };
+      }
+    }
+    return { allowed: false, reason: "no_allow_policy", rule: null };
+  }
+
+  private async check<TResource extends IPolicyResource>(
+    policy: IPolicy,
+    request: IPolicyRequest<TResource>,
+    context: IPolicyContext,
+  ): Promise<IPolicyTraceEntry> {
+    const entry = {
+      rule: policy.name,
+      kind: "policy" as const,
+      effect: policy.effect,
+    };
+    try {
+      const matched = await policy.condition(
+        request.user,
+        request.resource,
+        request.action,
+        context,
+      );
+      return { ...entry, matched };
+    } catch (error) {
+      return { ...entry, matched: false, error };
+    }
+  }
+}
+
+// Shared engine: register the app's policies here at startup
+export const policyEngine = new PolicyEngine();
@@ -0,0 +1,2 @@
+// Re-export from modular implementation
+export { DatabaseRBACProvider } from "./database";
@@ -0,0 +1,180 @@
+// Database RBAC Provider - Modular Implementation
+// Main provider class that composes all operations
+// RBAC on any IDatabaseProvider (Supabase, Postgres, in-memory for tests)
+// holding the tables of database/rbac-schema.sql and database/migrations
+
+import type { IDatabaseProvider } from "@/shared/types/database";
+import type {
+  IAssignRoleOptions,
+  IPermission,
+  IRBACProvider,
+  IRole,
+  IRoleCheckOptions,
+  IUserRole,
+} from "@/shared/types/rbac";
+
+import { RBAC_TABLES } from "./rbac-records";
+import { DatabaseRoleOperations } from "./role-operations";
+import { DatabaseUserRoleOperations } from "./user-role-operations";
+
+export class DatabaseRBACProvider implements IRBACProvider {
+  // Composed operations
+  private roles: DatabaseRoleOperations;
+  private userRoles: DatabaseUserRoleOperations;
+
+  // The database provider stays the caller's: cleanup leaves it open
+  constructor(private database: IDatabaseProvider) {
+    this.roles = new DatabaseRoleOperations(database);
+    this.userRoles = new DatabaseUserRoleOperations(database);
+  }
+
+  // Roles
+  getRoles(): Promise<IRole[]> {
+    return this.roles.getRoles();
+  }
+
+  getRole(roleId: string): Promise<IRole | null> {
+    return this.roles.getRole(roleId);
+  }
+
+  createRole(
+    data: Omit<IRole, "id" | "createdAt" | "updatedAt">,
+  ): Promise<IRole> {
+    return this.roles.createRole(data);
+  }
+
+  updateRole(roleId: string, data: Partial<IRole>): Promise<IRole> {
+    return this.roles.updateRole(roleId, data);
+  }
+
+  deleteRole(roleId: string): Promise<void> {
+    return this.roles.deleteRole(roleId);
+  }
+
+  // Permissions
+  getPermissions(): Promise<IPermission[]> {
+    return this.roles.getPermissions();
+  }
+
+  getPermission(permissionId: string): Promise<IPermission | null> {
+    return this.roles.getPermission(permissionId);
+  }
+
+  createPermission(
+    data: Omit<IPermission, "id" | "createdAt">,
+  ): Promise<IPermission> {
+    return this.roles.createPermission(data);
+  }
+
+  updatePermission(
+    permissionId: string,
+    data: Partial<IPermission>,
+  ): Promise<IPermission> {
+    return this.roles.updatePermission(permissionId, data);
+  }
+
+  deletePermission(permissionId: string): Promise<void> {
+    return this.roles.deletePermission(permissionId);
+  }
+
+  // Role permissions
+  getRolePermissions(roleId: string): Promise<IPermission[]> {
+    return this.roles.getRolePermissions(roleId);
+  }
+
+  assignPermissionToRole(roleId: string, permissionId: string): Promise<void> {
+    return this.roles.assignPermissionToRole(roleId, permissionId);
+  }
+
+  removePermissionFromRole(
+    roleId: string,
+    permissionId: string,
+  ): Promise<void> {
+    return this.roles.removePermissionFromRole(roleId, permissionId);
+  }
+
+  // User roles
+  getUserRoles(userId: string, organizationId?: string): Promise<IRole[]> {
+    return this.userRoles.getUserRoles(userId, organizationId);
+  }
+
+  getUserPermissions(
+    userId: string,
+    organizationId?: string,
+  ): Promise<IPermission[]> {
+    return this.userRoles.getUserPermissions(userId, organizationId);
+  }
+
+  assignRoleToUser(
+    userId: string,
+    roleId: string,
+    options?: IAssignRoleOptions,
+  ): Promise<IUserRole> {
+    return this.userRoles.assignRoleToUser(userId, roleId, options);
+  }
+
+  removeRoleFromUser(
+    userId: string,
+    roleId: string,
+    organizationId?: string,
+    resourceId?: string,
+  ): Promise<void> {
+    return this.userRoles.removeRoleFromUser(
+      userId,
+      roleId,
+      organizationId,
+      resourceId,
+    );
+  }
+
+  // Permission checking
+  userHasPermission(
+    userId: string,
+    permissionName: string,
+    organizationId?: string,
+  ): Promise<boolean> {
+    return this.userRoles.userHasPermission(
+      userId,
+      permissionName,
+      organizationId,
+    );
+  }
+
+  userHasRole(
+    userId: string,
+    roleName: string,
+    organizationId?: string,
+    options?: IRoleCheckOptions,
+  ): Promise<boolean> {
+    return this.userRoles.userHasRole(
+      userId,
+      roleName,
+      organizationId,
+      options,
+    );
+  }
+
+  // Multi-tenant support
+  getUsersByRole(roleName: string, organizationId?: string): Promise<string[]> {
+    return this.userRoles.getUsersByRole(roleName, organizationId);
+  }
+
+  getOrganizationUsers(organizationId: string): Promise<IUserRole[]> {
+    return this.userRoles.getOrganizationUsers(organizationId);
+  }
+
+  // Initialization
+  async initialize(): Promise<void> {
+    const { error } = await this.database.select(RBAC_TABLES.roles, {
+      limit: 1,
+    });
+
+    if (error) {
+      throw new Error(`Failed to initialize RBAC: ${error.message}`);
+    }
+  }
+
+  async cleanup(): Promise<void> {
+    // Nothing of its own to release
+  }
+}
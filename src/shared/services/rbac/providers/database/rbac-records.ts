@@ -0,0 +1,148 @@
+// Shared helpers for the database RBAC provider
+// Single Responsibility: Table names, response unwrapping and row mappers
+//
+// Rows have the shapes of database/rbac-schema.sql (rbac.generated.ts),
+// whatever IDatabaseProvider stores them
+
+import type {
+  IDatabaseProvider,
+  IDatabaseRecord,
+  IDatabaseResponse,
+  QueryFilter,
+} from "@/shared/types/database";
+import type {
+  IPermission,
+  IRBACError,
+  IRole,
+  IUserRole,
+} from "@/shared/types/rbac";
+import {
+  fromPermissionRow,
+  fromRoleRow,
+  fromUserRoleRow,
+  type IPermissionRow,
+  type IRolePermissionRow,
+  type IRoleRow,
+  type IUserRoleRow,
+} from "@/shared/types/rbac.generated";
+
+export const RBAC_TABLES = {
+  roles: "roles",
+  permissions: "permissions",
+  rolePermissions: "role_permissions",
+  userRoles: "user_roles",
+} as const;
+
+export type RoleRecord = IRoleRow & IDatabaseRecord;
+export type PermissionRecord = IPermissionRow & IDatabaseRecord;
+export type UserRoleRecord = IUserRoleRow & IDatabaseRecord;
+export type RolePermissionRecord = IRolePermissionRow & IDatabaseRecord;
+
+export const mapDatabaseError = (error: unknown): IRBACError => {
+  const errorObj = error as { code?: string; message?: string };
+
+  return {
+    code: errorObj.code || "unknown_error",
+    message: errorObj.message || "An unknown error occurred",
+    details: error,
+  };
+};
+
+// Data of a successful response; the mapped error otherwise
+export const unwrap = async <T>(
+  response: Promise<IDatabaseResponse<T>>,
+): Promise<T> => {
+  const { data, error } = await response;
+  if (error) throw mapDatabaseError(error);
+  return data as T;
+};
+
+// Rows of `table` whose id is in `ids` (none without ids)
+export const selectByIds = async <T extends IDatabaseRecord>(
+  database: IDatabaseProvider,
+  table: string,
+  ids: string[],
+): Promise<T[]> =>
+  ids.length === 0
+    ? []
+    : unwrap(database.select<T>(table, { where: { id: [...new Set(ids)] } }));
+
+// Global roles (no organization) apply in every organization, as in
+// user_has_permission
+export const organizationScope = (organizationId?: string): QueryFilter[] =>
+  organizationId
+    ? [
+        {
+          type: "or",
+          filters: [
+            {
+              column: "organization_id",
+              operator: "eq",
+              value: organizationId,
+            },
+            { column: "organization_id", operator: "is", value: null },
+          ],
+        },
+      ]
+    : [];
+
+// Grants limited to one instance (resource_id) give scoped permissions,
+// not the role itself
+export const unscopedGrants = (): QueryFilter => ({
+  column: "resource_id",
+  operator: "is",
+  value: null,
+});
+
+export const notExpired = (): QueryFilter => ({
+  type: "or",
+  filters: [
+    { column: "expires_at", operator: "is", value: null },
+    { column: "expires_at", operator: "gt", value: new Date().toISOString() },
+  ],
+});
+
+export const alreadyExists = (message: string): IRBACError => ({
+  code: "already_exists",
+  message,
+});
+
+export const mapRole = (row: IRoleRow): IRole => {
+  const role = fromRoleRow(row);
+  return {
+    id: role.id,
+    name: role.name,
+    description: role.description ?? undefined,
+    isSystem: role.isSystem ?? false,
+    parentRoleIds: role.parentRoleIds ?? [],
+    createdAt: role.createdAt ?? new Date(),
+    updatedAt: role.updatedAt ?? new Date(),
+  };
+};
+
+export const mapPermission = (row: IPermissionRow): IPermission => {
+  const permission = fromPermissionRow(row);
+  return {
+    id: permission.id,
+    name: permission.name,
+    description: permission.description ?? undefined,
+    resource: permission.resource,
+    action: permission.action,
+    createdAt: permission.createdAt ?? new Date(),
+  };
+};
+
+export const mapUserRole = (row: IUserRoleRow): IUserRole => {
+  const userRole = fromUserRoleRow(row);
+  return {
+    id: userRole.id,
+    userId: userRole.userId ?? "",
+    roleId: userRole.roleId ?? "",
+    organizationId: userRole.organizationId ?? undefined,
+    resourceId: userRole.resourceId ?? undefined,
+    assignedBy: userRole.assignedBy ?? undefined,
+    assignedAt: userRole.assignedAt ?? new Date(),
+    expiresAt: userRole.expiresAt ?? undefined,
+    isActive: userRole.isActive ?? true,
+  };
+};
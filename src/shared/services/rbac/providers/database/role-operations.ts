@@ -0,0 +1,219 @@
+// Role Operations for the database RBAC provider
+// Single Responsibility: Roles, permissions and the permissions of a role
+//
+// Related rows are removed here rather than left to ON DELETE CASCADE,
+// which not every database provider has (the in-memory one); likewise the
+// hierarchy checks of the check_role_hierarchy and detach_deleted_role
+// triggers
+
+import { assertValidParents } from "@/shared/services/rbac/role-hierarchy";
+import type { IDatabaseProvider } from "@/shared/types/database";
+import type { IPermission, IRole } from "@/shared/types/rbac";
+
+import {
+  RBAC_TABLES,
+  alreadyExists,
+  mapPermission,
+  mapRole,
+  selectByIds,
+  unwrap,
+  type PermissionRecord,
+  type RolePermissionRecord,
+  type RoleRecord,
+} from "./rbac-records";
+
+export class DatabaseRoleOperations {
+  constructor(private database: IDatabaseProvider) {}
+
+  // Roles
+  async getRoles(): Promise<IRole[]> {
+    const rows = await unwrap(
+      this.database.select<RoleRecord>(RBAC_TABLES.roles, {
+        orderBy: [{ column: "name" }],
+      }),
+    );
+    return rows.map(mapRole);
+  }
+
+  async getRole(roleId: string): Promise<IRole | null> {
+    const [row] = await selectByIds<RoleRecord>(
+      this.database,
+      RBAC_TABLES.roles,
+      [roleId],
+    );
+    return row ? mapRole(row) : null;
+  }
+
+  async createRole(
+    data: Omit<IRole, "id" | "createdAt" | "updatedAt">,
+  ): Promise<IRole> {
+    const parentRoleIds = data.parentRoleIds ?? [];
+    if (parentRoleIds.length > 0) {
+      assertValidParents(await this.getRoles(), null, parentRoleIds);
+    }
+
+    const [row] = await unwrap(
+      this.database.insert<RoleRecord>(RBAC_TABLES.roles, {
+        name: data.name,
+        description: data.description ?? null,
+        is_system: data.isSystem,
+        parent_role_ids: parentRoleIds,
+      }),
+    );
+    return mapRole(row);
+  }
+
+  async updateRole(roleId: string, data: Partial<IRole>): Promise<IRole> {
+    if (data.parentRoleIds) {
+      assertValidParents(await this.getRoles(), roleId, data.parentRoleIds);
+    }
+
+    const row = await unwrap(
+      this.database.update<RoleRecord>(RBAC_TABLES.roles, roleId, {
+        ...(data.name && { name: data.name }),
+        ...(data.description !== undefined && {
+          description: data.description,
+        }),
+        ...(data.isSystem !== undefined && { is_system: data.isSystem }),
+        ...(data.parentRoleIds && { parent_role_ids: data.parentRoleIds }),
+      }),
+    );
+    return mapRole(row);
+  }
+
+  // Roles inheriting from the deleted one stop doing so
+  async deleteRole(roleId: string): Promise<void> {
+    for (const role of await this.getRoles()) {
+      if (!role.parentRoleIds?.includes(roleId)) continue;
+      await unwrap(
+        this.database.update(RBAC_TABLES.roles, role.id, {
+          parent_role_ids: role.parentRoleIds.filter((id) => id !== roleId),
+        }),
+      );
+    }
+    await unwrap(
+      this.database.deleteBy(RBAC_TABLES.rolePermissions, "role_id", roleId),
+    );
+    await unwrap(
+      this.database.deleteBy(RBAC_TABLES.userRoles, "role_id", roleId),
+    );
+    await unwrap(this.database.delete(RBAC_TABLES.roles, roleId));
+  }
+
+  // Permissions
+  async getPermissions(): Promise<IPermission[]> {
+    const rows = await unwrap(
+      this.database.select<PermissionRecord>(RBAC_TABLES.permissions, {
+        orderBy: [{ column: "resource" }, { column: "action" }],
+      }),
+    );
+    return rows.map(mapPermission);
+  }
+
+  async getPermission(permissionId: string): Promise<IPermission | null> {
+    const [row] = await selectByIds<PermissionRecord>(
+      this.database,
+      RBAC_TABLES.permissions,
+      [permissionId],
+    );
+    return row ? mapPermission(row) : null;
+  }
+
+  async createPermission(
+    data: Omit<IPermission, "id" | "createdAt">,
+  ): Promise<IPermission> {
+    const [row] = await unwrap(
+      this.database.insert<PermissionRecord>(RBAC_TABLES.permissions, {
+        name: data.name,
+        description: data.description ?? null,
+        resource: data.resource,
+        action: data.action,
+      }),
+    );
+    return mapPermission(row);
+  }
+
+  async updatePermission(
+    permissionId: string,
+    data: Partial<IPermission>,
+  ): Promise<IPermission> {
+    const row = await unwrap(
+      this.database.update<PermissionRecord>(
+        RBAC_TABLES.permissions,
+        permissionId,
+        {
+          ...(data.name && { name: data.name }),
+          ...(data.description !== undefined && {
+            description: data.description,
+          }),
+          ...(data.resource && { resource: data.resource }),
+          ...(data.action && { action: data.action }),
+        },
+      ),
+    );
+    return mapPermission(row);
+  }
+
+  async deletePermission(permissionId: string): Promise<void> {
+    await unwrap(
+      this.database.deleteBy(
+        RBAC_TABLES.rolePermissions,
+        "permission_id",
+        permissionId,
+      ),
+    );
+    await unwrap(this.database.delete(RBAC_TABLES.permissions, permissionId));
+  }
+
+  // Role permissions
+  async getRolePermissions(roleId: string): Promise<IPermission[]> {
+    const rows = await unwrap(
+      this.database.selectBy<RolePermissionRecord>(
+        RBAC_TABLES.rolePermissions,
+        "role_id",
+        roleId,
+      ),
+    );
+    const permissions = await selectByIds<PermissionRecord>(
+      this.database,
+      RBAC_TABLES.permissions,
+      rows.map((row) => row.permission_id),
+    );
+    return permissions.map(mapPermission);
+  }
+
+  async assignPermissionToRole(
+    roleId: string,
+    permissionId: string,
+  ): Promise<void> {
+    if ((await this.findRolePermissions(roleId, permissionId)).length > 0) {
+      throw alreadyExists("The role already has this permission");
+    }
+    await unwrap(
+      this.database.insert(RBAC_TABLES.rolePermissions, {
+        role_id: roleId,
+        permission_id: permissionId,
+      }),
+    );
+  }
+
+  async removePermissionFromRole(
+    roleId: string,
+    permissionId: string,
+  ): Promise<void> {
+    for (const row of await this.findRolePermissions(roleId, permissionId)) {
+      await unwrap(this.database.delete(RBAC_TABLES.rolePermissions, row.id));
+    }
+  }
+
+  private findRolePermissions(
+    roleId: string,
+    permissionId: string,
+  ): Promise<RolePermissionRecord[]> {
+    return unwrap(
+      this.database.select<RolePermissionRecord>(RBAC_TABLES.rolePermissions, {
+        where: { role_id: roleId, permission_id: permissionId },
+      }),
+    );
+  }
+}
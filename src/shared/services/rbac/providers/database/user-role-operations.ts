@@ -0,0 +1,262 @@
+// User Role Operations for the database RBAC provider
+// Single Responsibility: Roles granted to users and the checks built on them
+//
+// Same rules as the SQL helpers: only active grants count, a check in an
+// organization also counts the user's global roles, permissions come with
+// the roles a granted role inherits from, and a grant limited to an
+// instance gives its permissions for that instance only
+
+import {
+  expandRoleIds,
+  inheritsRole,
+} from "@/shared/services/rbac/role-hierarchy";
+import type { IDatabaseProvider, QueryFilter } from "@/shared/types/database";
+import {
+  type IAssignRoleOptions,
+  type IPermission,
+  type IRole,
+  type IRoleCheckOptions,
+  type IUserRole,
+} from "@/shared/types/rbac";
+import {
+  hasMatchingPermission,
+  scopePermissionName,
+} from "@/shared/types/rbac-permissions";
+
+import {
+  RBAC_TABLES,
+  alreadyExists,
+  mapPermission,
+  mapRole,
+  mapUserRole,
+  notExpired,
+  organizationScope,
+  selectByIds,
+  unscopedGrants,
+  unwrap,
+  type PermissionRecord,
+  type RolePermissionRecord,
+  type RoleRecord,
+  type UserRoleRecord,
+} from "./rbac-records";
+
+export class DatabaseUserRoleOperations {
+  constructor(private database: IDatabaseProvider) {}
+
+  async getUserRoles(
+    userId: string,
+    organizationId?: string,
+  ): Promise<IRole[]> {
+    const grants = await this.activeGrants(userId, organizationId, false, [
+      unscopedGrants(),
+    ]);
+    const roles = await selectByIds<RoleRecord>(
+      this.database,
+      RBAC_TABLES.roles,
+      grants.map(({ role_id }) => role_id as string),
+    );
+    return roles.map(mapRole);
+  }
+
+  // Expired grants give no permissions (get_user_permissions)
+  async getUserPermissions(
+    userId: string,
+    organizationId?: string,
+  ): Promise<IPermission[]> {
+    const grants = await this.activeGrants(userId, organizationId, true);
+    if (grants.length === 0) return [];
+    const roles = await this.allRoles();
+
+    // Role ids by the instance their grants are limited to ("" for none)
+    const scopes = new Map<string, string[]>();
+    for (const { role_id, resource_id } of grants) {
+      const scope = resource_id ?? "";
+      scopes.set(scope, [...(scopes.get(scope) ?? []), role_id as string]);
+    }
+
+    const permissions = new Map<string, IPermission>();
+    for (const [scope, roleIds] of scopes) {
+      const granted = await this.rolePermissions(expandRoleIds(roles, roleIds));
+      for (const permission of granted) {
+        const name = scope
+          ? scopePermissionName(permission.name, scope)
+          : permission.name;
+        permissions.set(name, { ...permission, name });
+      }
+    }
+    return [...permissions.values()];
+  }
+
+  async assignRoleToUser(
+    userId: string,
+    roleId: string,
+    options: IAssignRoleOptions = {},
+  ): Promise<IUserRole> {
+    const organizationId = options.organizationId ?? null;
+    const resourceId = options.resourceId ?? null;
+    const existing = await this.findGrants(
+      userId,
+      roleId,
+      organizationId,
+      resourceId,
+    );
+    if (existing.length > 0) {
+      throw alreadyExists("The user already has this role");
+    }
+
+    const [row] = await unwrap(
+      this.database.insert<UserRoleRecord>(RBAC_TABLES.userRoles, {
+        user_id: userId,
+        role_id: roleId,
+        organization_id: organizationId,
+        resource_id: resourceId,
+        assigned_by: options.assignedBy ?? null,
+        assigned_at: new Date().toISOString(),
+        expires_at: options.expiresAt?.toISOString() ?? null,
+        is_active: options.isActive ?? true,
+      }),
+    );
+    return mapUserRole(row);
+  }
+
+  // Without an organization (or instance), the role goes in every one
+  async removeRoleFromUser(
+    userId: string,
+    roleId: string,
+    organizationId?: string,
+    resourceId?: string,
+  ): Promise<void> {
+    const grants = await this.findGrants(
+      userId,
+      roleId,
+      organizationId,
+      resourceId,
+    );
+    for (const grant of grants) {
+      await unwrap(this.database.delete(RBAC_TABLES.userRoles, grant.id));
+    }
+  }
+
+  async userHasPermission(
+    userId: string,
+    permissionName: string,
+    organizationId?: string,
+  ): Promise<boolean> {
+    const permissions = await this.getUserPermissions(userId, organizationId);
+    return hasMatchingPermission(
+      permissions.map(({ name }) => name),
+      permissionName,
+    );
+  }
+
+  async userHasRole(
+    userId: string,
+    roleName: string,
+    organizationId?: string,
+    options: IRoleCheckOptions = {},
+  ): Promise<boolean> {
+    const roles = await this.getUserRoles(userId, organizationId);
+    if (!options.includeInherited) {
+      return roles.some(({ name }) => name === roleName);
+    }
+    return inheritsRole(
+      await this.allRoles(),
+      roles.map(({ id }) => id),
+      roleName,
+    );
+  }
+
+  // Users granted the role in the organization itself (or anywhere)
+  async getUsersByRole(
+    roleName: string,
+    organizationId?: string,
+  ): Promise<string[]> {
+    const roles = await unwrap(
+      this.database.selectBy<RoleRecord>(RBAC_TABLES.roles, "name", roleName),
+    );
+    if (roles.length === 0) return [];
+
+    const grants = await unwrap(
+      this.database.select<UserRoleRecord>(RBAC_TABLES.userRoles, {
+        where: {
+          role_id: roles.map(({ id }) => id),
+          is_active: true,
+          ...(organizationId && { organization_id: organizationId }),
+        },
+        filters: [unscopedGrants()],
+      }),
+    );
+    return grants.map(({ user_id }) => user_id as string);
+  }
+
+  async getOrganizationUsers(organizationId: string): Promise<IUserRole[]> {
+    const grants = await unwrap(
+      this.database.select<UserRoleRecord>(RBAC_TABLES.userRoles, {
+        where: { organization_id: organizationId, is_active: true },
+      }),
+    );
+    return grants.map(mapUserRole);
+  }
+
+  private async allRoles(): Promise<IRole[]> {
+    const rows = await unwrap(
+      this.database.select<RoleRecord>(RBAC_TABLES.roles),
+    );
+    return rows.map(mapRole);
+  }
+
+  private async rolePermissions(roleIds: string[]): Promise<IPermission[]> {
+    const links = await unwrap(
+      this.database.select<RolePermissionRecord>(RBAC_TABLES.rolePermissions, {
+        where: { role_id: roleIds },
+      }),
+    );
+    const permissions = await selectByIds<PermissionRecord>(
+      this.database,
+      RBAC_TABLES.permissions,
+      links.map(({ permission_id }) => permission_id),
+    );
+    return permissions.map(mapPermission);
+  }
+
+  private activeGrants(
+    userId: string,
+    organizationId: string | undefined,
+    unexpiredOnly: boolean,
+    filters: QueryFilter[] = [],
+  ): Promise<UserRoleRecord[]> {
+    return unwrap(
+      this.database.select<UserRoleRecord>(RBAC_TABLES.userRoles, {
+        where: { user_id: userId, is_active: true },
+        filters: [
+          ...organizationScope(organizationId),
+          ...(unexpiredOnly ? [notExpired()] : []),
+          ...filters,
+        ],
+      }),
+    );
+  }
+
+  // undefined matches any organization (or instance), null only global
+  // (or unscoped) grants
+  private findGrants(
+    userId: string,
+    roleId: string,
+    organizationId?: string | null,
+    resourceId?: string | null,
+  ): Promise<UserRoleRecord[]> {
+    return unwrap(
+      this.database.select<UserRoleRecord>(RBAC_TABLES.userRoles, {
+        where: {
+          user_id: userId,
+          role_id: roleId,
+          ...(organizationId !== undefined && {
+            organization_id: organizationId,
+          }),
+          ...(typeof resourceId === "string" && { resource_id: resourceId }),
+        },
+        filters: resourceId === null ? [unscopedGrants()] : [],
+      }),
+    );
+  }
+}
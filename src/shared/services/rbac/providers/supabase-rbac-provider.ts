@@ -5,6 +5,10 @@
 import { createClient, type SupabaseClient } from "@supabase/supabase-js";
 
 import { getEnv } from "@/config/env";
+import {
+  assertValidParents,
+  inheritsRole,
+} from "@/shared/services/rbac/role-hierarchy";
 import type {
   IRBACProvider,
   IRole,
@@ -12,7 +16,16 @@ import type {
   IUserRole,
   IAssignRoleOptions,
   IRBACError,
+  IRoleCheckOptions,
 } from "@/shared/types/rbac";
+import {
+  fromPermissionRow,
+  fromRoleRow,
+  fromUserRoleRow,
+  type IPermissionRow,
+  type IRoleRow,
+  type IUserRoleRow,
+} from "@/shared/types/rbac.generated";
 
 export class SupabaseRBACProvider implements IRBACProvider {
   private supabase: SupabaseClient;
@@ -67,12 +80,19 @@ export class SupabaseRBACProvider implements IRBACProvider {
     data: Omit<IRole, "id" | "createdAt" | "updatedAt">,
   ): Promise<IRole> {
     try {
+      // check_role_hierarchy rejects these too, with a database error
+      const parentRoleIds = data.parentRoleIds ?? [];
+      if (parentRoleIds.length > 0) {
+        assertValidParents(await this.getRoles(), null, parentRoleIds);
+      }
+
       const { data: role, error } = await this.supabase
         .from("roles")
         .insert({
           name: data.name,
           description: data.description,
           is_system: data.isSystem,
+          parent_role_ids: parentRoleIds,
         })
         .select()
         .single();
@@ -92,6 +112,10 @@ export class SupabaseRBACProvider implements IRBACProvider {
       if (data.description !== undefined)
         updateData.description = data.description;
       if (data.isSystem !== undefined) updateData.is_system = data.isSystem;
+      if (data.parentRoleIds) {
+        assertValidParents(await this.getRoles(), roleId, data.parentRoleIds);
+        updateData.parent_role_ids = data.parentRoleIds;
+      }
 
       const { data: role, error } = await this.supabase
         .from("roles")
@@ -292,16 +316,21 @@ export class SupabaseRBACProvider implements IRBACProvider {
             name,
             description,
             is_system,
+            parent_role_ids,
             created_at,
             updated_at
           )
         `,
         )
         .eq("user_id", userId)
-        .eq("is_active", true);
+        .eq("is_active", true)
+        .is("resource_id", null); // Instance grants are not roles
 
+      // Global roles apply in every organization
       if (_organizationId) {
-        query = query.eq("organization_id", _organizationId);
+        query = query.or(
+          `organization_id.eq.${_organizationId},organization_id.is.null`,
+        );
       }
 
       const { data, error } = await query;
@@ -322,6 +351,7 @@ export class SupabaseRBACProvider implements IRBACProvider {
       // Use the helper function from the database
       const { data, error } = await this.supabase.rpc("get_user_permissions", {
         user_id: userId,
+        organization_id: _organizationId,
       });
 
       if (error) throw error;
@@ -357,6 +387,7 @@ export class SupabaseRBACProvider implements IRBACProvider {
           user_id: userId,
           role_id: roleId,
           organization_id: options.organizationId,
+          resource_id: options.resourceId,
           assigned_by: options.assignedBy,
           expires_at: options.expiresAt?.toISOString(),
           is_active: options.isActive ?? true,
@@ -376,6 +407,7 @@ export class SupabaseRBACProvider implements IRBACProvider {
     userId: string,
     roleId: string,
     _organizationId?: string, // eslint-disable-line @typescript-eslint/no-unused-vars
+    resourceId?: string,
   ): Promise<void> {
     try {
       let query = this.supabase
@@ -387,6 +419,9 @@ export class SupabaseRBACProvider implements IRBACProvider {
       if (_organizationId) {
         query = query.eq("organization_id", _organizationId);
       }
+      if (resourceId) {
+        query = query.eq("resource_id", resourceId);
+      }
 
       const { error } = await query;
 
@@ -397,6 +432,8 @@ export class SupabaseRBACProvider implements IRBACProvider {
   }
 
   // IPermission Checking (Interface Segregation)
+  // Wildcards and instance scopes are matched by permission_matches, the
+  // SQL twin of permissionMatches (types/rbac-permissions.ts)
   async userHasPermission(
     userId: string,
     permissionName: string,
@@ -421,7 +458,20 @@ export class SupabaseRBACProvider implements IRBACProvider {
     userId: string,
     roleName: string,
     _organizationId?: string, // eslint-disable-line @typescript-eslint/no-unused-vars
+    options: IRoleCheckOptions = {},
   ): Promise<boolean> {
+    if (options.includeInherited) {
+      const [roles, held] = await Promise.all([
+        this.getRoles(),
+        this.getUserRoles(userId, _organizationId),
+      ]);
+      return inheritsRole(
+        roles,
+        held.map(({ id }) => id),
+        roleName,
+      );
+    }
+
     try {
       let query = this.supabase
         .from("user_roles")
@@ -432,10 +482,14 @@ export class SupabaseRBACProvider implements IRBACProvider {
         )
         .eq("user_id", userId)
         .eq("roles.name", roleName)
-        .eq("is_active", true);
+        .eq("is_active", true)
+        .is("resource_id", null);
 
+      // Global roles apply in every organization
       if (_organizationId) {
-        query = query.eq("organization_id", _organizationId);
+        query = query.or(
+          `organization_id.eq.${_organizationId},organization_id.is.null`,
+        );
       }
 
       const { data, error } = await query;
@@ -463,7 +517,8 @@ export class SupabaseRBACProvider implements IRBACProvider {
         `,
         )
         .eq("roles.name", roleName)
-        .eq("is_active", true);
+        .eq("is_active", true)
+        .is("resource_id", null);
 
       if (_organizationId) {
         query = query.eq("organization_id", _organizationId);
@@ -517,57 +572,46 @@ export class SupabaseRBACProvider implements IRBACProvider {
   }
 
   // Mappers (Single Responsibility)
-  private mapSupabaseRole = (role: {
-    id: string;
-    name: string;
-    description?: string;
-    is_system: boolean;
-    created_at: string;
-    updated_at: string;
-  }): IRole => ({
-    id: role.id,
-    name: role.name,
-    description: role.description,
-    isSystem: role.is_system,
-    createdAt: new Date(role.created_at),
-    updatedAt: new Date(role.updated_at),
-  });
-
-  private mapSupabasePermission = (permission: {
-    id: string;
-    name: string;
-    description?: string;
-    resource: string;
-    action: string;
-    created_at: string;
-  }): IPermission => ({
-    id: permission.id,
-    name: permission.name,
-    description: permission.description,
-    resource: permission.resource,
-    action: permission.action,
-    createdAt: new Date(permission.created_at),
-  });
-
-  private mapSupabaseUserRole = (userRole: {
-    id: string;
-    user_id: string;
-    role_id: string;
-    organization_id?: string;
-    assigned_by?: string;
-    assigned_at: string;
-    expires_at?: string;
-    is_active: boolean;
-  }): IUserRole => ({
-    id: userRole.id,
-    userId: userRole.user_id,
-    roleId: userRole.role_id,
-    organizationId: userRole.organization_id,
-    assignedBy: userRole.assigned_by,
-    assignedAt: new Date(userRole.assigned_at),
-    expiresAt: userRole.expires_at ? new Date(userRole.expires_at) : undefined,
-    isActive: userRole.is_active,
-  });
+  // Row shapes come from rbac.generated.ts, so schema changes surface here
+  private mapSupabaseRole = (row: IRoleRow): IRole => {
+    const role = fromRoleRow(row);
+    return {
+      id: role.id,
+      name: role.name,
+      description: role.description ?? undefined,
+      isSystem: role.isSystem ?? false,
+      parentRoleIds: role.parentRoleIds ?? [],
+      createdAt: role.createdAt ?? new Date(),
+      updatedAt: role.updatedAt ?? new Date(),
+    };
+  };
+
+  private mapSupabasePermission = (row: IPermissionRow): IPermission => {
+    const permission = fromPermissionRow(row);
+    return {
+      id: permission.id,
+      name: permission.name,
+      description: permission.description ?? undefined,
+      resource: permission.resource,
+      action: permission.action,
+      createdAt: permission.createdAt ?? new Date(),
+    };
+  };
+
+  private mapSupabaseUserRole = (row: IUserRoleRow): IUserRole => {
+    const userRole = fromUserRoleRow(row);
+    return {
+      id: userRole.id,
+      userId: userRole.userId ?? "",
+      roleId: userRole.roleId ?? "",
+      organizationId: userRole.organizationId ?? undefined,
+      resourceId: userRole.resourceId ?? undefined,
+      assignedBy: userRole.assignedBy ?? undefined,
+      assignedAt: userRole.assignedAt ?? new Date(),
+      expiresAt: userRole.expiresAt ?? undefined,
+      isActive: userRole.isActive ?? true,
+    };
+  };
 
   private mapSupabaseError = (error: unknown): IRBACError => {
     const errorObj = error as {
@@ -2,23 +2,32 @@
 // Repository: https://github.com/nextjs/saas-starter
 // Enhanced with SOLID Factory Pattern
 
+import type {
+  IDatabaseProvider,
+  IDatabaseProviderConfig,
+} from "@/shared/types/database";
 import type {
   IRBACProvider,
   RBACProviderType,
   IRBACProviderConfig,
 } from "@/shared/types/rbac";
 
+// The database RBAC provider takes a ready IDatabaseProvider or the
+// config to create one with DatabaseProviderFactory
+export type RBACDatabaseOption = IDatabaseProvider | IDatabaseProviderConfig;
+
 // Factory for creating RBAC providers (Factory Pattern + Strategy Pattern)
 export class RBACProviderFactory {
   private static providers: Map<
     RBACProviderType,
-    () => Promise<IRBACProvider>
+    (config: IRBACProviderConfig) => Promise<IRBACProvider>
   > = new Map();
 
   // Register provider (Open/Closed Principle)
+  // The factory receives the config for providers that depend on options
   static registerProvider(
     type: RBACProviderType,
-    factory: () => Promise<IRBACProvider>,
+    factory: (config: IRBACProviderConfig) => Promise<IRBACProvider>,
   ): void {
     this.providers.set(type, factory);
   }
@@ -33,7 +42,7 @@ export class RBACProviderFactory {
       throw new Error(`RBAC provider '${config.type}' not registered`);
     }
 
-    const provider = await factory();
+    const provider = await factory(config);
     await provider.initialize();
 
     return provider;
@@ -59,20 +68,36 @@ export class RBACProviderFactory {
 export const registerDefaultRBACProviders = async (): Promise<void> => {
   // Supabase Provider (default)
   RBACProviderFactory.registerProvider("supabase", async () => {
-    const { SupabaseRBACProvider } = await import(
-      "./providers/supabase-rbac-provider"
-    );
+    const { SupabaseRBACProvider } =
+      await import("./providers/supabase-rbac-provider");
     return new SupabaseRBACProvider();
   });
 
-  // NOTE: Provider not yet implemented - uncomment when ready
-  // Database Provider (future - for other databases)
-  // RBACProviderFactory.registerProvider("database", async () => {
-  //   const { DatabaseRBACProvider } = await import(
-  //     "./providers/database-rbac-provider"
-  //   );
-  //   return new DatabaseRBACProvider();
-  // });
+  // Database Provider (any registered IDatabaseProvider)
+  RBACProviderFactory.registerProvider("database", async (config) => {
+    const { DatabaseRBACProvider } =
+      await import("./providers/database-rbac-provider");
+    return new DatabaseRBACProvider(
+      await resolveDatabase(config.options.database as RBACDatabaseOption),
+    );
+  });
+};
+
+const isDatabaseProvider = (
+  database: RBACDatabaseOption,
+): database is IDatabaseProvider =>
+  typeof (database as IDatabaseProvider).select === "function";
+
+// SRP: Use the given database provider or create it from its config
+const resolveDatabase = async (
+  database: RBACDatabaseOption,
+): Promise<IDatabaseProvider> => {
+  if (isDatabaseProvider(database)) return database;
+
+  const { DatabaseProviderFactory, registerDefaultDatabaseProviders } =
+    await import("@/shared/services/database/database-factory");
+  await registerDefaultDatabaseProviders();
+  return DatabaseProviderFactory.createProvider(database);
 };
 
 // Utility to validate RBAC configuration
@@ -93,14 +118,13 @@ export const validateRBACConfig = (config: IRBACProviderConfig): boolean => {
       }
       break;
 
-    // NOTE: Validation for unimplemented provider - uncomment when ready
-    // case "database":
-    //   if (!config.options.connectionString) {
-    //     throw new Error(
-    //       "Database provider requires connectionString in options",
-    //     );
-    //   }
-    //   break;
+    case "database":
+      if (!config.options.database) {
+        throw new Error(
+          "Database provider requires a database provider or its config in options",
+        );
+      }
+      break;
 
     default:
       throw new Error(`Unknown RBAC provider type: ${config.type}`);
@@ -125,14 +149,13 @@ export class RBACConfigBuilder {
     return this;
   }
 
-  // NOTE: Builder method for unimplemented provider - uncomment when ready
-  // useDatabase(connectionString: string): this {
-  //   this.config = {
-  //     type: "database",
-  //     options: { connectionString },
-  //   };
-  //   return this;
-  // }
+  useDatabase(database: RBACDatabaseOption): this {
+    this.config = {
+      type: "database",
+      options: { database },
+    };
+    return this;
+  }
 
   withCustomOptions(options: Record<string, unknown>): this {
     this.config.options = { ...this.config.options, ...options };
@@ -155,9 +178,8 @@ export const createRBACConfig = {
   supabase: (url: string, serviceKey: string): IRBACProviderConfig =>
     RBACConfigBuilder.create().useSupabase(url, serviceKey).build(),
 
-  // NOTE: Preset for unimplemented provider - uncomment when ready
-  // database: (connectionString: string) =>
-  //   RBACConfigBuilder.create().useDatabase(connectionString).build(),
+  database: (database: RBACDatabaseOption): IRBACProviderConfig =>
+    RBACConfigBuilder.create().useDatabase(database).build(),
 };
 
 // Singleton instance management (Optional Pattern)
@@ -0,0 +1,58 @@
+// Role hierarchy helpers, shared by the RBAC providers
+// Single Responsibility: Walk parentRoleIds (a role inherits the
+// permissions of its parents, transitively), as expand_role_ids does in SQL
+
+import type { IRBACError, IRole } from "@/shared/types/rbac";
+
+type RoleLineage = Pick<IRole, "id" | "parentRoleIds">;
+
+const hierarchyError = (message: string): IRBACError => ({
+  code: "invalid_role_hierarchy",
+  message,
+});
+
+// The given roles and every role they inherit from. Unknown ids are kept;
+// a cycle ends the walk instead of looping
+export const expandRoleIds = (
+  roles: RoleLineage[],
+  roleIds: string[],
+): string[] => {
+  const parents = new Map(roles.map((role) => [role.id, role.parentRoleIds]));
+  const expanded = new Set<string>();
+  const pending = [...roleIds];
+
+  while (pending.length > 0) {
+    const roleId = pending.pop() as string;
+    if (expanded.has(roleId)) continue;
+    expanded.add(roleId);
+    pending.push(...(parents.get(roleId) ?? []));
+  }
+  return [...expanded];
+};
+
+// Throws unless every parent exists and roleId (null for a role not created
+// yet) is not among the parents or what they inherit
+export const assertValidParents = (
+  roles: RoleLineage[],
+  roleId: string | null,
+  parentRoleIds: string[],
+): void => {
+  const known = new Set(roles.map(({ id }) => id));
+  const unknown = parentRoleIds.find((parentId) => !known.has(parentId));
+  if (unknown) {
+    throw hierarchyError(`Parent role '${unknown}' not found`);
+  }
+  if (roleId && expandRoleIds(roles, parentRoleIds).includes(roleId)) {
+    throw hierarchyError("A role cannot inherit from itself");
+  }
+};
+
+// Whether any of the held roles is, or inherits, the named role
+export const inheritsRole = (
+  roles: (RoleLineage & Pick<IRole, "name">)[],
+  heldRoleIds: string[],
+  roleName: string,
+): boolean => {
+  const expanded = new Set(expandRoleIds(roles, heldRoleIds));
+  return roles.some(({ id, name }) => name === roleName && expanded.has(id));
+};
@@ -1,10 +1,15 @@
 // Export all stores for easy importing
 export { useAuthStore, type AuthStore, type IUser } from "./auth.store";
+export {
+  useOrganizationStore,
+  type OrganizationStore,
+} from "./organization.store";
 export { useSessionStore, type SessionStore } from "./session.store";
 export { useUIStore, type UIStore } from "./ui.store";
 
 // Import stores for internal use
 import { useAuthStore } from "./auth.store";
+import { useOrganizationStore } from "./organization.store";
 import { useSessionStore } from "./session.store";
 
 // Store utilities
@@ -13,5 +18,6 @@ export const resetAllStores = (): void => {
   // Useful for logout or testing scenarios
   useAuthStore.getState().clearUser();
   useSessionStore.getState().destroySession();
+  useOrganizationStore.getState().clearOrganizations();
   // UI store typically doesn't need reset, but can be extended
 };
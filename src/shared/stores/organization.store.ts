@@ -0,0 +1,91 @@
+import { create } from "zustand";
+import { devtools, persist } from "zustand/middleware";
+
+import type { IOrganization } from "@/shared/types/rbac";
+
+interface IOrganizationState {
+  // Organizations the user belongs to (not persisted)
+  organizations: IOrganization[];
+  // Feeds organizationId into useRBAC and RBACProvider
+  activeOrganizationId: string | null;
+}
+
+interface IOrganizationActions {
+  setOrganizations: (organizations: IOrganization[]) => void;
+  setActiveOrganization: (organizationId: string | null) => void;
+  upsertOrganization: (organization: IOrganization) => void;
+  removeOrganization: (organizationId: string) => void;
+  clearOrganizations: () => void;
+}
+
+export type OrganizationStore = IOrganizationState & IOrganizationActions;
+
+// Keeps the active organization only while the user still belongs to it
+const keepActive = (
+  organizations: IOrganization[],
+  activeOrganizationId: string | null,
+): string | null =>
+  organizations.some(({ id }) => id === activeOrganizationId)
+    ? activeOrganizationId
+    : (organizations[0]?.id ?? null);
+
+export const useOrganizationStore = create<OrganizationStore>()(
+  devtools(
+    persist(
+      (set, get) => ({
+        // State
+        organizations: [],
+        activeOrganizationId: null,
+
+        // Actions
+        setOrganizations: (organizations): void => {
+          set(
+            {
+              organizations,
+              activeOrganizationId: keepActive(
+                organizations,
+                get().activeOrganizationId,
+              ),
+            },
+            false,
+            "organization/setOrganizations",
+          );
+        },
+        setActiveOrganization: (activeOrganizationId): void => {
+          set({ activeOrganizationId }, false, "organization/setActive");
+        },
+        upsertOrganization: (organization): void => {
+          const others = get().organizations.filter(
+            ({ id }) => id !== organization.id,
+          );
+          set(
+            { organizations: [...others, organization] },
+            false,
+            "organization/upsert",
+          );
+        },
+        removeOrganization: (organizationId): void => {
+          get().setOrganizations(
+            get().organizations.filter(({ id }) => id !== organizationId),
+          );
+        },
+        clearOrganizations: (): void => {
+          set(
+            { organizations: [], activeOrganizationId: null },
+            false,
+            "organization/clear",
+          );
+        },
+      }),
+      {
+        name: "organization-store",
+        partialize: (state) => ({
+          activeOrganizationId: state.activeOrganizationId,
+        }),
+      },
+    ),
+    {
+      name: "organization-store",
+    },
+  ),
+);
@@ -1,11 +1,15 @@
 import { create } from "zustand";
 import { devtools, persist } from "zustand/middleware";
 
+import type { IActiveSession } from "@/shared/types/auth";
+
 interface ISessionState {
   sessionId: string | null;
   lastActivity: Date | null;
   expiresAt: Date | null;
   isActive: boolean;
+  // Sessions of the user on every device (not persisted)
+  devices: IActiveSession[];
 }
 
 interface ISessionActions {
@@ -14,6 +18,9 @@ interface ISessionActions {
   updateActivity: () => void;
   destroySession: () => void;
   isSessionValid: () => boolean;
+  setDevices: (devices: IActiveSession[]) => void;
+  removeDevice: (sessionId: string) => void;
+  removeOtherDevices: () => void;
 }
 
 export type SessionStore = ISessionState & ISessionActions;
@@ -27,6 +34,7 @@ export const useSessionStore = create<SessionStore>()(
         lastActivity: null,
         expiresAt: null,
         isActive: false,
+        devices: [],
 
         // Actions
         createSession: (sessionId, expiresAt): void => {
@@ -39,7 +47,16 @@ export const useSessionStore = create<SessionStore>()(
           set({ lastActivity: new Date() }, false, "session/updateActivity");
         },
         destroySession: (): void => {
-          set({ sessionId: null, lastActivity: null, expiresAt: null, isActive: false }, false, "session/destroy");
+          set({ sessionId: null, lastActivity: null, expiresAt: null, isActive: false, devices: [] }, false, "session/destroy");
+        },
+        setDevices: (devices): void => {
+          set({ devices }, false, "session/setDevices");
+        },
+        removeDevice: (sessionId): void => {
+          set({ devices: get().devices.filter((device) => device.id !== sessionId) }, false, "session/removeDevice");
+        },
+        removeOtherDevices: (): void => {
+          set({ devices: get().devices.filter((device) => device.current) }, false, "session/removeOtherDevices");
         },
 
         isSessionValid: (): boolean => {
@@ -27,9 +27,10 @@ interface IUIActions {
   toggleSidebar: () => void;
   setSidebarOpen: (open: boolean) => void;
   setLoading: (loading: boolean) => void;
+  // Returns the id, to remove the notification before it auto-closes
   addNotification: (
     notification: Omit<INotification, "id" | "timestamp">,
-  ) => void;
+  ) => string;
   removeNotification: (id: string) => void;
   clearNotifications: () => void;
   openModal: (type: string, data?: Record<string, unknown>) => void;
@@ -89,7 +90,7 @@ const createUIActions = (
     set({ sidebarOpen }, false, "ui/setSidebarOpen"),
   setLoading: (loading: boolean): void =>
     set({ loading }, false, "ui/setLoading"),
-  addNotification: (notification: INotificationInput): void => {
+  addNotification: (notification: INotificationInput): string => {
     const newNotification = createNotification(notification);
     set(
       (state) => ({ notifications: [...state.notifications, newNotification] }),
@@ -100,6 +101,7 @@ const createUIActions = (
       const { removeNotification } = get();
       scheduleNotificationRemoval(newNotification.id, removeNotification);
     }
+    return newNotification.id;
   },
   removeNotification: (id: string): void =>
     set(
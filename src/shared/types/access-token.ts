@@ -0,0 +1,43 @@
+// Tipos de personal access tokens (acesso programático às rotas de API)
+
+import type { IUser } from "./auth";
+
+// Prefixo que distingue o token de um JWT no header Authorization
+export const PERSONAL_ACCESS_TOKEN_PREFIX = "pat_";
+
+// Token como listado ao dono: o hash nunca sai do banco
+export interface IPersonalAccessToken {
+  id: string;
+  name: string;
+  // Início do token (ex.: "pat_3kF9"), para reconhecê-lo
+  tokenPrefix: string;
+  permissions: string[];
+  // null: vale em todas as organizações do usuário
+  organizationId: string | null;
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  createdAt: Date | null;
+}
+
+export interface ICreatePersonalAccessToken {
+  name: string;
+  // Subconjunto de DEFAULT_PERMISSIONS que o usuário já possui
+  permissions: string[];
+  organizationId?: string;
+  expiresAt?: Date;
+}
+
+// Resultado da criação: o token em texto só existe aqui
+export interface ICreatedPersonalAccessToken {
+  token: string;
+  accessToken: IPersonalAccessToken;
+}
+
+// Quem chama a API com um token: o dono, limitado às permissões do token
+export interface ITokenPrincipal {
+  user: IUser;
+  tokenId: string;
+  permissions: string[];
+  organizationId: string | null;
+  expiresAt: Date | null;
+}
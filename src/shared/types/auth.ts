@@ -1,3 +1,13 @@
+import type {
+  AuthAssuranceLevel,
+  IAssuranceLevel,
+  IMfaChallenge,
+  IMfaFactor,
+  ITotpEnrollment,
+} from "./mfa";
+
+export type * from "./mfa";
+
 export interface IUser {
   id: string;
   email: string;
@@ -5,6 +15,16 @@ export interface IUser {
   avatar?: string;
   role?: string;
   metadata?: Record<string, unknown>;
+  // Contas vinculadas (email, google, github...) do mesmo usuário
+  identities?: IAuthIdentity[];
+}
+
+export interface IAuthIdentity {
+  id: string;
+  provider: string;
+  email?: string;
+  createdAt?: Date;
+  lastSignInAt?: Date;
 }
 
 export interface IAuthSession {
@@ -12,8 +32,39 @@ export interface IAuthSession {
   token: string;
   expiresAt?: Date;
   refreshToken?: string;
+  // Nível de garantia (MFA) do token
+  aal?: AuthAssuranceLevel;
+  // Id da sessão no emissor (Supabase: session_id, OIDC: sid)
+  id?: string;
+  // Presente quando um admin está "logado como" este usuário
+  impersonator?: IImpersonator;
+}
+
+// Identidade original do admin durante uma impersonação
+export interface IImpersonator {
+  id: string;
+  email: string;
+  // Linha em impersonation_audit
+  impersonationId: string;
+  startedAt: Date;
+}
+
+// Sessão ativa do usuário em um dispositivo (gestão de dispositivos)
+export interface IActiveSession {
+  id: string;
+  // Ex.: "Chrome on macOS"
+  device: string | null;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+  // A sessão deste navegador
+  current: boolean;
 }
 
+// Erro publicado no estado quando a sessão deste navegador é revogada
+export const SESSION_REVOKED_ERROR = "session_revoked";
+
 export interface ILoginCredentials {
   email: string;
   password: string;
@@ -30,6 +81,36 @@ export interface IResetPasswordData {
   email: string;
 }
 
+// OAuth (fluxo PKCE: o callback troca o `code` por uma sessão)
+export type OAuthProvider =
+  | "google"
+  | "github"
+  | "gitlab"
+  | "bitbucket"
+  | "azure"
+  | "apple"
+  | "discord"
+  | "facebook"
+  | "twitter"
+  | "slack_oidc"
+  | "linkedin_oidc";
+
+export interface IOAuthOptions {
+  // URL de callback; padrão: routes.auth.callback na origem atual
+  redirectTo?: string;
+  scopes?: string[];
+  queryParams?: Record<string, string>;
+}
+
+export interface IOAuthRedirect {
+  provider: OAuthProvider;
+  url: string;
+}
+
+// Passwordless: códigos enviados por email (OTP) por fluxo
+export type OtpType =
+  "email" | "magiclink" | "signup" | "recovery" | "email_change";
+
 export interface IAuthError {
   code: string;
   message: string;
@@ -54,10 +135,56 @@ export interface IAuthProvider {
   register(credentials: IRegisterCredentials): Promise<IAuthSession>;
   logout(): Promise<void>;
 
+  // OAuth e vinculação de contas (opcional por provider)
+  signInWithOAuth?(
+    provider: OAuthProvider,
+    options?: IOAuthOptions,
+  ): Promise<IOAuthRedirect>;
+  handleOAuthCallback?(callbackUrl: string): Promise<IAuthSession>;
+  linkIdentity?(
+    provider: OAuthProvider,
+    options?: IOAuthOptions,
+  ): Promise<IOAuthRedirect>;
+  unlinkIdentity?(identityId: string): Promise<void>;
+
+  // Passwordless (opcional por provider): o link volta para o callback
+  sendMagicLink?(email: string, redirectTo?: string): Promise<void>;
+  verifyOtp?(
+    email: string,
+    token: string,
+    type: OtpType,
+  ): Promise<IAuthSession>;
+
+  // MFA TOTP (opcional por provider): verifyMfa eleva a sessão para aal2
+  enrollTotp?(friendlyName?: string): Promise<ITotpEnrollment>;
+  challengeMfa?(factorId: string): Promise<IMfaChallenge>;
+  verifyMfa?(
+    factorId: string,
+    challengeId: string,
+    code: string,
+  ): Promise<IAuthSession>;
+  listMfaFactors?(): Promise<IMfaFactor[]>;
+  unenrollMfa?(factorId: string): Promise<void>;
+  getAssuranceLevel?(): Promise<IAssuranceLevel>;
+
   // Sessão
   getCurrentUser(): Promise<IUser | null>;
   getCurrentSession(): Promise<IAuthSession | null>;
   refreshSession(): Promise<IAuthSession | null>;
+  // Relê a sessão persistida (ex.: renovada ou encerrada por outra aba) e
+  // publica no estado, sem chamar o emissor
+  syncSession?(): Promise<IAuthSession | null>;
+
+  // Sessões ativas e dispositivos (opcional por provider): revogar a
+  // sessão atual encerra este navegador
+  listSessions?(): Promise<IActiveSession[]>;
+  revokeSession?(sessionId: string): Promise<void>;
+  revokeAllOtherSessions?(): Promise<void>;
+
+  // Impersonação (opcional por provider): exige system.impersonate; stop
+  // encerra a sessão impersonada e restaura a do admin
+  startImpersonation?(userId: string, reason: string): Promise<IAuthSession>;
+  stopImpersonation?(): Promise<IAuthSession | null>;
 
   // Recuperação de senha
   resetPassword(data: IResetPasswordData): Promise<void>;
@@ -72,7 +199,9 @@ export interface IAuthProvider {
 }
 
 // Tipos para Strategy Pattern
-export type AuthProviderType = "supabase" | "clerk" | "auth0" | "nextauth";
+// "oidc": qualquer emissor OpenID Connect (ex.: SSO corporativo no Keycloak)
+export type AuthProviderType =
+  "supabase" | "clerk" | "auth0" | "oidc" | "nextauth";
 
 export interface IAuthProviderConfig {
   type: AuthProviderType;
@@ -1,3 +1,15 @@
+import type { IOfflineDatabaseConfig } from "./offline";
+import type {
+  IPresenceChannel,
+  IPresenceOptions,
+  IRealtimeSubscribeOptions,
+  IRealtimeSubscription,
+  PresenceCallback,
+  RealtimeCallback,
+} from "./realtime";
+
+export type * from "./realtime";
+
 // Tipos base para operações de banco
 export interface IDatabaseRecord {
   id: string;
@@ -9,9 +21,61 @@ export interface IDatabaseRecord {
 export interface IQueryOptions {
   select?: string[];
   where?: Record<string, unknown>;
+  // Filtros com operadores (combinados com AND entre si e com `where`)
+  filters?: QueryFilter[];
+  // Seleção de tabelas relacionadas (embedding)
+  relations?: IRelationSelect[];
   orderBy?: { column: string; ascending?: boolean }[];
   limit?: number;
   offset?: number;
+  // Paginação por cursor (keyset): use o `nextCursor`/`previousCursor` da
+  // página anterior. `after: null` pede a primeira página já no modo cursor,
+  // `before: null` a última.
+  after?: string | null;
+  before?: string | null;
+}
+
+// Operadores suportados pelo query builder ("not.is": IS NOT NULL/TRUE/FALSE)
+export type FilterOperator =
+  | "eq"
+  | "neq"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+  | "in"
+  | "like"
+  | "ilike"
+  | "is"
+  | "not.is";
+
+export interface IFilterCondition {
+  column: string;
+  operator: FilterOperator;
+  value: unknown;
+}
+
+// Grupo de filtros: "or" exige ao menos uma condição verdadeira, "and" todas.
+// Grupos podem ser aninhados: or(a, and(b, c))
+export interface IFilterGroup {
+  type: "or" | "and";
+  filters: QueryFilter[];
+}
+
+export type QueryFilter = IFilterCondition | IFilterGroup;
+
+// Relação embutida no resultado, ex: posts com `author` (to-one) e `comments` (to-many).
+// `foreignKey` e `referencedBy` desambiguam a chave estrangeira; o provider
+// em memória precisa de um dos dois para resolver a relação.
+export interface IRelationSelect {
+  table: string;
+  alias?: string;
+  select?: string[];
+  // Coluna da tabela pai que referencia `table.id` (to-one)
+  foreignKey?: string;
+  // Coluna de `table` que referencia o `id` da tabela pai (to-many)
+  referencedBy?: string;
+  relations?: IRelationSelect[];
 }
 
 export interface IInsertData {
@@ -30,6 +94,15 @@ export interface IDatabaseResponse<T = unknown> {
   data: T | null;
   error: IDatabaseError | null;
   count?: number;
+  // Preenchido apenas em consultas com `after`/`before`
+  pageInfo?: ICursorPageInfo;
+}
+
+export interface ICursorPageInfo {
+  nextCursor: string | null;
+  previousCursor: string | null;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
 }
 
 export interface IDatabaseError {
@@ -39,27 +112,45 @@ export interface IDatabaseError {
   hint?: string;
 }
 
+// Operações CRUD com escopo de transação: lançam IDatabaseError em caso de
+// falha para que o callback aborte e a transação seja desfeita
 export interface ITransactionContext {
   id: string;
   isActive: boolean;
-}
 
-export interface IRealtimeSubscription {
-  id: string;
-  table: string;
-  unsubscribe: () => void;
+  select<T extends IDatabaseRecord>(
+    table: string,
+    options?: IQueryOptions,
+  ): Promise<T[]>;
+  selectOne<T extends IDatabaseRecord>(
+    table: string,
+    id: string,
+  ): Promise<T | null>;
+  insert<T extends IDatabaseRecord>(
+    table: string,
+    data: IInsertData | IInsertData[],
+  ): Promise<T[]>;
+  update<T extends IDatabaseRecord>(
+    table: string,
+    id: string,
+    data: IUpdateData,
+  ): Promise<T>;
+  delete<T extends IDatabaseRecord>(table: string, id: string): Promise<T>;
+  upsert<T extends IDatabaseRecord>(
+    table: string,
+    data: IUpsertData | IUpsertData[],
+    conflictColumns?: string[],
+  ): Promise<T[]>;
 }
 
-export interface IRealtimeEvent<T = unknown> {
-  eventType: "INSERT" | "UPDATE" | "DELETE";
-  new?: T;
-  old?: T;
-  table: string;
-  schema: string;
-  commit_timestamp: string;
-}
+// "compensate": escritas executam na hora e operações inversas são
+// registradas para desfazer tudo se um passo posterior falhar.
+// "batch": escritas são enfileiradas e enviadas em uma única chamada RPC.
+export type TransactionMode = "compensate" | "batch";
 
-export type RealtimeCallback<T = unknown> = (event: IRealtimeEvent<T>) => void;
+export interface ITransactionOptions {
+  mode?: TransactionMode;
+}
 
 // Interface principal do provider (DIP)
 export interface IDatabaseProvider {
@@ -134,21 +225,29 @@ export interface IDatabaseProvider {
   // Transações (ACID)
   transaction<T>(
     callback: (ctx: ITransactionContext) => Promise<T>,
+    options?: ITransactionOptions,
   ): Promise<IDatabaseResponse<T>>;
 
   // Realtime (Observer Pattern)
   subscribe<T extends Record<string, any> = any>( // eslint-disable-line @typescript-eslint/no-explicit-any
     table: string,
     callback: RealtimeCallback<T>,
-    options?: { event?: "INSERT" | "UPDATE" | "DELETE" | "*" },
+    options?: IRealtimeSubscribeOptions,
   ): Promise<IRealtimeSubscription>;
 
   unsubscribe(subscriptionId: string): Promise<void>;
+  // Presence por canal (se aplicável)
+  joinPresence?<T extends Record<string, unknown>>(
+    channel: string,
+    state: T,
+    callback: PresenceCallback<T>,
+    options?: IPresenceOptions,
+  ): Promise<IPresenceChannel<T>>;
 
   // Utilidades
   count(
     table: string,
-    options?: Pick<IQueryOptions, "where">,
+    options?: Pick<IQueryOptions, "where" | "filters">,
   ): Promise<IDatabaseResponse<number>>;
   exists(table: string, id: string): Promise<IDatabaseResponse<boolean>>;
 
@@ -171,14 +270,13 @@ export interface IDatabaseProvider {
 
 // Tipos para Strategy Pattern
 export type DatabaseProviderType =
-  | "supabase"
-  | "planetscale"
-  | "prisma"
-  | "mongodb";
+  "supabase" | "memory" | "postgres" | "planetscale" | "prisma" | "mongodb";
 
 export interface IDatabaseProviderConfig {
   type: DatabaseProviderType;
   options: Record<string, unknown>;
+  // Opcional: enfileira escritas feitas offline (`true` usa os padrões)
+  offline?: IOfflineDatabaseConfig | boolean;
 }
 
 // Tipos específicos para Supabase
@@ -188,6 +286,11 @@ export interface ISupabaseConfig {
   serviceRoleKey?: string;
 }
 
+// Tipos específicos para o provider em memória (testes e desenvolvimento offline)
+export interface IMemoryDatabaseConfig {
+  seed?: Record<string, IDatabaseRecord[]>;
+}
+
 // Tipos específicos para PlanetScale
 export interface IPlanetScaleConfig {
   host: string;
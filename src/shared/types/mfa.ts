@@ -0,0 +1,49 @@
+// Tipos de multi-factor authentication (TOTP)
+
+// aal1: apenas o primeiro fator; aal2: segundo fator verificado na sessão
+export type AuthAssuranceLevel = "aal1" | "aal2";
+
+export interface IMfaFactor {
+  id: string;
+  type: "totp";
+  friendlyName?: string;
+  // "unverified" até o primeiro código válido
+  status: "unverified" | "verified";
+  createdAt?: Date;
+}
+
+export interface ITotpEnrollment {
+  factorId: string;
+  // Segredo em base32, para digitação manual no app autenticador
+  secret: string;
+  // otpauth://totp/... (conteúdo do QR code)
+  uri: string;
+  // SVG do QR code, quando o provider o gera
+  qrCode?: string;
+}
+
+export interface IMfaChallenge {
+  id: string;
+  factorId: string;
+  expiresAt: Date;
+}
+
+export interface IAssuranceLevel {
+  current: AuthAssuranceLevel;
+  // aal2 quando existe fator verificado: a sessão pode (e deve) subir
+  next: AuthAssuranceLevel;
+}
+
+// Contrato comum ao MFA do Supabase e ao verificador TOTP local
+export interface IMfaService {
+  enrollTotp(friendlyName?: string): Promise<ITotpEnrollment>;
+  challenge(factorId: string): Promise<IMfaChallenge>;
+  verify(
+    factorId: string,
+    challengeId: string,
+    code: string,
+  ): Promise<AuthAssuranceLevel>;
+  listFactors(): Promise<IMfaFactor[]>;
+  unenroll(factorId: string): Promise<void>;
+  getAssuranceLevel(): Promise<IAssuranceLevel>;
+}
@@ -0,0 +1,88 @@
+// Tipos do modo offline (fila de escritas sobre qualquer IDatabaseProvider)
+// Separados de database.ts: o modo offline é um decorator opcional do provider
+
+import type {
+  IDatabaseError,
+  IDatabaseRecord,
+  IInsertData,
+  IUpdateData,
+} from "./database";
+
+export type OfflineOperationType =
+  "insert" | "update" | "delete" | "upsert" | "updateBy" | "deleteBy";
+
+// Escrita pendente, persistida na ordem em que foi feita
+export interface IOfflineOperation {
+  id: string;
+  type: OfflineOperationType;
+  table: string;
+  // Ausente em updateBy, deleteBy e upsert de registro sem id: essas
+  // escritas são reenviadas sem detecção de conflito
+  recordId?: string;
+  // Dados do insert/update/upsert (ausente em delete)
+  data?: IInsertData | IUpdateData;
+  // Filtro de updateBy/deleteBy (`value` precisa ser serializável em JSON)
+  filter?: { field: string; value: unknown };
+  conflictColumns?: string[];
+  // Timestamp do servidor (`timestampColumn`) da última versão do registro
+  // que o cliente viu antes da escrita. Ausente se o registro nunca foi
+  // lido: a escrita é reenviada sem detecção de conflito
+  baseVersion?: string;
+  // Momento da escrita local (ISO, relógio do cliente); só informativo
+  queuedAt: string;
+  attempts: number;
+  lastError?: IDatabaseError;
+}
+
+// Recebe a escrita local e o registro atual no servidor quando o servidor
+// mudou depois da escrita. Retorne os dados a gravar (em delete, qualquer
+// objeto confirma a exclusão) ou `null` para manter a versão do servidor.
+export type OfflineMergeFunction = (
+  local: IOfflineOperation,
+  remote: IDatabaseRecord,
+) => IUpdateData | null;
+
+// "last-write-wins": se o servidor mudou desde `baseVersion`, a versão do
+// servidor vence; senão a escrita local é gravada
+export type OfflineConflictStrategy = "last-write-wins" | OfflineMergeFunction;
+
+// Subconjunto do IStorageService usado para persistir a fila
+export interface IOfflineQueueStorage {
+  get<T>(key: string, defaultValue?: T): Promise<T | null>;
+  set<T>(key: string, value: T): Promise<void>;
+  remove(key: string): Promise<void>;
+}
+
+// Locks nomeados, como os do LockManager (Web Locks): `run` espera o lock
+// `name`, compartilhado por todas as abas da origem
+export interface IOfflineQueueLocks {
+  run<T>(name: string, task: () => Promise<T>): Promise<T>;
+}
+
+export interface IOfflineDatabaseConfig {
+  // Padrão: StorageService (localStorage, com fallback em memória)
+  storage?: IOfflineQueueStorage;
+  storageKey?: string;
+  // Padrão: navigator.locks, ou um lock só desta aba sem Web Locks
+  locks?: IOfflineQueueLocks;
+  conflictStrategy?: OfflineConflictStrategy;
+  // Timestamp do servidor comparado com `baseVersion` para detectar conflitos
+  timestampColumn?: string;
+  // Tentativas antes de mover a operação para `failed`
+  maxAttempts?: number;
+  // Padrão: navigator.onLine
+  isOnline?: () => boolean;
+}
+
+export interface IOfflineQueueStatus {
+  isOnline: boolean;
+  isSyncing: boolean;
+  pending: number;
+  // Operações descartadas após `maxAttempts` (ficam para inspeção manual)
+  failed: IOfflineOperation[];
+  conflicts: number;
+  lastSyncedAt: string | null;
+  lastError: IDatabaseError | null;
+}
+
+export type OfflineStatusListener = (status: IOfflineQueueStatus) => void;
@@ -0,0 +1,50 @@
+// Organizations (multi-tenancy): membership, invitations and ownership
+// The organization itself is IOrganization (rbac.ts); roles granted in it
+// are user_roles rows with its organizationId
+
+import { DEFAULT_ROLES } from "./rbac";
+
+export type InvitationStatus = "pending" | "accepted" | "declined";
+
+// Roles an invitation may grant: ownership only changes by transfer
+export const INVITABLE_ROLES: readonly string[] = [
+  DEFAULT_ROLES.ADMIN,
+  DEFAULT_ROLES.MEMBER,
+  DEFAULT_ROLES.VIEWER,
+];
+
+// Days an invitation link stays valid unless the inviter says otherwise
+export const INVITATION_TTL_DAYS = 7;
+// Longest validity an inviter can ask for
+export const INVITATION_MAX_TTL_DAYS = 30;
+
+export interface IOrganizationInput {
+  name: string;
+  settings?: Record<string, unknown>;
+}
+
+export interface IOrganizationInvitation {
+  id: string;
+  organizationId: string;
+  email: string;
+  // Role name, e.g. "member"
+  role: string;
+  invitedBy: string | null;
+  status: InvitationStatus;
+  expiresAt: Date;
+  respondedAt: Date | null;
+  createdAt: Date | null;
+}
+
+export interface IInviteMember {
+  organizationId: string;
+  email: string;
+  role: string;
+  expiresInDays?: number;
+}
+
+// The invitation and the token of its link, handed to the inviter once
+export interface ICreatedInvitation {
+  invitation: IOrganizationInvitation;
+  token: string;
+}
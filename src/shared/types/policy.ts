@@ -0,0 +1,92 @@
+// Attribute-based access policies, layered on RBAC
+// RBAC says whether a role may act on a kind of resource; a policy adds
+// the rules roles cannot express (authors edit their own content, billing
+// only during business hours...)
+
+import type { IUser } from "./auth";
+
+export type PolicyEffect = "allow" | "deny";
+
+// The resource being acted on: its type (the permission's resource),
+// optionally one instance, plus whatever attributes the policies read
+export interface IPolicyResource {
+  type: string;
+  id?: string;
+}
+
+export interface IPolicyContext {
+  // When the request is evaluated (defaults to now)
+  now: Date;
+  organizationId?: string;
+  // Anything else a policy needs (ip, plan...)
+  attributes: Record<string, unknown>;
+}
+
+export type PolicyCondition<TResource extends IPolicyResource> = (
+  user: IUser,
+  resource: TResource,
+  action: string,
+  context: IPolicyContext,
+) => boolean | Promise<boolean>;
+
+export interface IPolicy<TResource extends IPolicyResource = IPolicyResource> {
+  name: string;
+  description?: string;
+  effect: PolicyEffect;
+  // Resource type and actions it applies to; "*" for any
+  resource: string;
+  actions: readonly string[];
+  // Method syntax on purpose: parameters stay bivariant, so a policy typed
+  // for a narrower resource is still an IPolicy (the engine only hands it
+  // resources of its type)
+  condition(
+    user: IUser,
+    resource: TResource,
+    action: string,
+    context: IPolicyContext,
+  ): boolean | Promise<boolean>;
+}
+
+export interface IPolicyRequest<
+  TResource extends IPolicyResource = IPolicyResource,
+> {
+  user: IUser;
+  resource: TResource;
+  action: string;
+  context?: Partial<IPolicyContext>;
+}
+
+export interface IPolicyEvaluationOptions {
+  // Report every rule evaluated in the decision's trace
+  explain?: boolean;
+}
+
+// permission_denied: RBAC refused, no policy ran. no_allow_policy: allow
+// policies apply and none held. policy_error: the condition or the
+// permission lookup threw (counts as a deny)
+export type PolicyDecisionReason =
+  | "permission_denied"
+  | "permission_granted"
+  | "deny_policy"
+  | "allow_policy"
+  | "no_allow_policy"
+  | "policy_error";
+
+export interface IPolicyTraceEntry {
+  // The permission name, or the policy name
+  rule: string;
+  kind: "permission" | "policy";
+  effect?: PolicyEffect;
+  matched: boolean;
+  error?: unknown;
+}
+
+export interface IPolicyDecision {
+  allowed: boolean;
+  reason: PolicyDecisionReason;
+  // The rule that decided (permission or policy name); null when allow
+  // policies applied and none held
+  rule: string | null;
+  // Explain mode only
+  trace?: IPolicyTraceEntry[];
+}
@@ -0,0 +1,50 @@
+// Tipos do provider Postgres (node-postgres)
+// Separados de database.ts: descrevem apenas o driver, não o contrato IDatabaseProvider
+
+// Informe `connectionString` ou host/database; `pool` permite injetar um pool
+// existente (ex: pg-mem em testes)
+export interface IPostgresConfig {
+  connectionString?: string;
+  host?: string;
+  port?: number;
+  user?: string;
+  password?: string;
+  database?: string;
+  ssl?: boolean;
+  // Tamanho máximo do pool de conexões
+  max?: number;
+  idleTimeoutMillis?: number;
+  pool?: IPostgresPool;
+}
+
+// Subconjunto de pg.Pool/pg.PoolClient usado pelo provider
+export interface IPostgresQueryResult<T = unknown> {
+  rows: T[];
+  rowCount: number | null;
+}
+
+export interface IPostgresExecutor {
+  query<T = unknown>(
+    text: string,
+    values?: unknown[],
+  ): Promise<IPostgresQueryResult<T>>;
+}
+
+export interface IPostgresNotification {
+  channel: string;
+  payload?: string;
+}
+
+export interface IPostgresPoolClient extends IPostgresExecutor {
+  release(error?: Error | boolean): void;
+  // LISTEN/NOTIFY (usado pelo realtime)
+  on?(
+    event: "notification",
+    listener: (message: IPostgresNotification) => void,
+  ): unknown;
+}
+
+export interface IPostgresPool extends IPostgresExecutor {
+  connect(): Promise<IPostgresPoolClient>;
+  end(): Promise<void>;
+}
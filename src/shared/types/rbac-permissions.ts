@@ -0,0 +1,78 @@
+// Permission names and how a granted permission matches a required one
+//
+// Names are resource.action, optionally limited to one instance
+// (content.update:doc_123). A granted name may use * for the resource or
+// the action (content.*, *.read); unscoped it covers every instance, scoped
+// only its own. Same rules as permission_matches in
+// database/migrations/008_permission_matching.sql
+
+export const PERMISSION_WILDCARD = "*";
+
+export interface IPermissionName {
+  resource: string;
+  action: string;
+  resourceId?: string;
+}
+
+export const parsePermissionName = (name: string): IPermissionName => {
+  const scope = name.indexOf(":");
+  const base = scope === -1 ? name : name.slice(0, scope);
+  const dot = base.indexOf(".");
+  return {
+    resource: dot === -1 ? base : base.slice(0, dot),
+    action: dot === -1 ? "" : base.slice(dot + 1),
+    resourceId: scope === -1 ? undefined : name.slice(scope + 1) || undefined,
+  };
+};
+
+export const formatPermissionName = ({
+  resource,
+  action,
+  resourceId,
+}: IPermissionName): string =>
+  resourceId ? `${resource}.${action}:${resourceId}` : `${resource}.${action}`;
+
+// The permission limited to one instance (replacing any previous scope)
+export const scopePermissionName = (name: string, resourceId: string): string =>
+  formatPermissionName({ ...parsePermissionName(name), resourceId });
+
+export const permissionMatches = (
+  granted: string,
+  required: string,
+): boolean => {
+  const grant = parsePermissionName(granted);
+  const wanted = parsePermissionName(required);
+  const covers = (pattern: string, value: string): boolean =>
+    pattern === PERMISSION_WILDCARD || pattern === value;
+
+  return (
+    covers(grant.resource, wanted.resource) &&
+    covers(grant.action, wanted.action) &&
+    (grant.resourceId === undefined || grant.resourceId === wanted.resourceId)
+  );
+};
+
+export const hasMatchingPermission = (
+  userPermissions: readonly string[],
+  permission: string,
+): boolean =>
+  userPermissions.some((granted) => permissionMatches(granted, permission));
+
+export const hasRequiredPermissions = (
+  userPermissions: string[],
+  requiredPermissions: string[],
+): boolean => {
+  return requiredPermissions.every((permission) =>
+    hasMatchingPermission(userPermissions, permission),
+  );
+};
+
+export const canAccessResource = (
+  userPermissions: string[],
+  resource: string,
+  action: string,
+  resourceId?: string,
+): boolean => {
+  const permissionName = formatPermissionName({ resource, action, resourceId });
+  return hasMatchingPermission(userPermissions, permissionName);
+};
@@ -0,0 +1,758 @@
+// AUTO-GENERATED by scripts/modules/generate-db-types.js from database/rbac-schema.sql and database/migrations
+// Do not edit by hand: change the SQL and run `pnpm modules:types`
+/* eslint-disable max-lines */
+
+import { z } from "zod";
+
+const toDate = (value: string | null): Date | null =>
+  value === null ? null : new Date(value);
+
+const toTimestamp = (
+  value: Date | null | undefined,
+): string | null | undefined =>
+  value instanceof Date ? value.toISOString() : value;
+
+// Drops keys left undefined so partial records map to partial rows
+const compact = <T extends object>(value: T): T =>
+  Object.fromEntries(
+    Object.entries(value).filter(([, entry]) => entry !== undefined),
+  ) as T;
+
+// public.roles
+export interface IRoleRow {
+  id: string;
+  name: string;
+  description: string | null;
+  is_system: boolean | null;
+  created_at: string | null;
+  updated_at: string | null;
+  parent_role_ids: string[];
+}
+
+export interface IRoleInsert {
+  id?: string;
+  name: string;
+  description?: string | null;
+  is_system?: boolean | null;
+  created_at?: string | null;
+  updated_at?: string | null;
+  parent_role_ids?: string[];
+}
+
+export interface IRoleUpdate {
+  id?: string;
+  name?: string;
+  description?: string | null;
+  is_system?: boolean | null;
+  created_at?: string | null;
+  updated_at?: string | null;
+  parent_role_ids?: string[];
+}
+
+export interface IRoleRecord {
+  id: string;
+  name: string;
+  description: string | null;
+  isSystem: boolean | null;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+  parentRoleIds: string[];
+}
+
+export const roleRowSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string().max(50),
+  description: z.string().nullable(),
+  is_system: z.boolean().nullable(),
+  created_at: z.string().nullable(),
+  updated_at: z.string().nullable(),
+  parent_role_ids: z.array(z.string().uuid()),
+});
+
+export const roleInsertSchema = z.object({
+  id: z.string().uuid().optional(),
+  name: z.string().max(50),
+  description: z.string().nullable().optional(),
+  is_system: z.boolean().nullable().optional(),
+  created_at: z.string().nullable().optional(),
+  updated_at: z.string().nullable().optional(),
+  parent_role_ids: z.array(z.string().uuid()).optional(),
+});
+
+export const roleUpdateSchema = roleInsertSchema.partial();
+
+export const fromRoleRow = (row: IRoleRow): IRoleRecord => ({
+  id: row.id,
+  name: row.name,
+  description: row.description,
+  isSystem: row.is_system,
+  createdAt: toDate(row.created_at),
+  updatedAt: toDate(row.updated_at),
+  parentRoleIds: row.parent_role_ids,
+});
+
+export const toRoleRow = (record: Partial<IRoleRecord>): IRoleUpdate =>
+  compact({
+    id: record.id,
+    name: record.name,
+    description: record.description,
+    is_system: record.isSystem,
+    created_at: toTimestamp(record.createdAt),
+    updated_at: toTimestamp(record.updatedAt),
+    parent_role_ids: record.parentRoleIds,
+  });
+
+// public.permissions
+export interface IPermissionRow {
+  id: string;
+  name: string;
+  description: string | null;
+  resource: string;
+  action: string;
+  created_at: string | null;
+}
+
+export interface IPermissionInsert {
+  id?: string;
+  name: string;
+  description?: string | null;
+  resource: string;
+  action: string;
+  created_at?: string | null;
+}
+
+export interface IPermissionUpdate {
+  id?: string;
+  name?: string;
+  description?: string | null;
+  resource?: string;
+  action?: string;
+  created_at?: string | null;
+}
+
+export interface IPermissionRecord {
+  id: string;
+  name: string;
+  description: string | null;
+  resource: string;
+  action: string;
+  createdAt: Date | null;
+}
+
+export const permissionRowSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string().max(100),
+  description: z.string().nullable(),
+  resource: z.string().max(50),
+  action: z.string().max(50),
+  created_at: z.string().nullable(),
+});
+
+export const permissionInsertSchema = z.object({
+  id: z.string().uuid().optional(),
+  name: z.string().max(100),
+  description: z.string().nullable().optional(),
+  resource: z.string().max(50),
+  action: z.string().max(50),
+  created_at: z.string().nullable().optional(),
+});
+
+export const permissionUpdateSchema = permissionInsertSchema.partial();
+
+export const fromPermissionRow = (row: IPermissionRow): IPermissionRecord => ({
+  id: row.id,
+  name: row.name,
+  description: row.description,
+  resource: row.resource,
+  action: row.action,
+  createdAt: toDate(row.created_at),
+});
+
+export const toPermissionRow = (
+  record: Partial<IPermissionRecord>,
+): IPermissionUpdate =>
+  compact({
+    id: record.id,
+    name: record.name,
+    description: record.description,
+    resource: record.resource,
+    action: record.action,
+    created_at: toTimestamp(record.createdAt),
+  });
+
+// public.role_permissions
+export interface IRolePermissionRow {
+  role_id: string;
+  permission_id: string;
+  created_at: string | null;
+  id: string;
+}
+
+export interface IRolePermissionInsert {
+  role_id: string;
+  permission_id: string;
+  created_at?: string | null;
+  id?: string;
+}
+
+export interface IRolePermissionUpdate {
+  role_id?: string;
+  permission_id?: string;
+  created_at?: string | null;
+  id?: string;
+}
+
+export interface IRolePermissionRecord {
+  roleId: string;
+  permissionId: string;
+  createdAt: Date | null;
+  id: string;
+}
+
+export const rolePermissionRowSchema = z.object({
+  role_id: z.string().uuid(),
+  permission_id: z.string().uuid(),
+  created_at: z.string().nullable(),
+  id: z.string().uuid(),
+});
+
+export const rolePermissionInsertSchema = z.object({
+  role_id: z.string().uuid(),
+  permission_id: z.string().uuid(),
+  created_at: z.string().nullable().optional(),
+  id: z.string().uuid().optional(),
+});
+
+export const rolePermissionUpdateSchema = rolePermissionInsertSchema.partial();
+
+export const fromRolePermissionRow = (
+  row: IRolePermissionRow,
+): IRolePermissionRecord => ({
+  roleId: row.role_id,
+  permissionId: row.permission_id,
+  createdAt: toDate(row.created_at),
+  id: row.id,
+});
+
+export const toRolePermissionRow = (
+  record: Partial<IRolePermissionRecord>,
+): IRolePermissionUpdate =>
+  compact({
+    role_id: record.roleId,
+    permission_id: record.permissionId,
+    created_at: toTimestamp(record.createdAt),
+    id: record.id,
+  });
+
+// public.user_roles
+export interface IUserRoleRow {
+  id: string;
+  user_id: string | null;
+  role_id: string | null;
+  organization_id: string | null;
+  assigned_by: string | null;
+  assigned_at: string | null;
+  expires_at: string | null;
+  is_active: boolean | null;
+  resource_id: string | null;
+}
+
+export interface IUserRoleInsert {
+  id?: string;
+  user_id?: string | null;
+  role_id?: string | null;
+  organization_id?: string | null;
+  assigned_by?: string | null;
+  assigned_at?: string | null;
+  expires_at?: string | null;
+  is_active?: boolean | null;
+  resource_id?: string | null;
+}
+
+export interface IUserRoleUpdate {
+  id?: string;
+  user_id?: string | null;
+  role_id?: string | null;
+  organization_id?: string | null;
+  assigned_by?: string | null;
+  assigned_at?: string | null;
+  expires_at?: string | null;
+  is_active?: boolean | null;
+  resource_id?: string | null;
+}
+
+export interface IUserRoleRecord {
+  id: string;
+  userId: string | null;
+  roleId: string | null;
+  organizationId: string | null;
+  assignedBy: string | null;
+  assignedAt: Date | null;
+  expiresAt: Date | null;
+  isActive: boolean | null;
+  resourceId: string | null;
+}
+
+export const userRoleRowSchema = z.object({
+  id: z.string().uuid(),
+  user_id: z.string().uuid().nullable(),
+  role_id: z.string().uuid().nullable(),
+  organization_id: z.string().uuid().nullable(),
+  assigned_by: z.string().uuid().nullable(),
+  assigned_at: z.string().nullable(),
+  expires_at: z.string().nullable(),
+  is_active: z.boolean().nullable(),
+  resource_id: z.string().nullable(),
+});
+
+export const userRoleInsertSchema = z.object({
+  id: z.string().uuid().optional(),
+  user_id: z.string().uuid().nullable().optional(),
+  role_id: z.string().uuid().nullable().optional(),
+  organization_id: z.string().uuid().nullable().optional(),
+  assigned_by: z.string().uuid().nullable().optional(),
+  assigned_at: z.string().nullable().optional(),
+  expires_at: z.string().nullable().optional(),
+  is_active: z.boolean().nullable().optional(),
+  resource_id: z.string().nullable().optional(),
+});
+
+export const userRoleUpdateSchema = userRoleInsertSchema.partial();
+
+export const fromUserRoleRow = (row: IUserRoleRow): IUserRoleRecord => ({
+  id: row.id,
+  userId: row.user_id,
+  roleId: row.role_id,
+  organizationId: row.organization_id,
+  assignedBy: row.assigned_by,
+  assignedAt: toDate(row.assigned_at),
+  expiresAt: toDate(row.expires_at),
+  isActive: row.is_active,
+  resourceId: row.resource_id,
+});
+
+export const toUserRoleRow = (
+  record: Partial<IUserRoleRecord>,
+): IUserRoleUpdate =>
+  compact({
+    id: record.id,
+    user_id: record.userId,
+    role_id: record.roleId,
+    organization_id: record.organizationId,
+    assigned_by: record.assignedBy,
+    assigned_at: toTimestamp(record.assignedAt),
+    expires_at: toTimestamp(record.expiresAt),
+    is_active: record.isActive,
+    resource_id: record.resourceId,
+  });
+
+// public.impersonation_audit
+export interface IImpersonationAuditRow {
+  id: string;
+  admin_id: string | null;
+  admin_email: string;
+  target_user_id: string | null;
+  target_email: string;
+  session_id: string | null;
+  reason: string | null;
+  started_at: string | null;
+  ended_at: string | null;
+}
+
+export interface IImpersonationAuditInsert {
+  id?: string;
+  admin_id?: string | null;
+  admin_email: string;
+  target_user_id?: string | null;
+  target_email: string;
+  session_id?: string | null;
+  reason?: string | null;
+  started_at?: string | null;
+  ended_at?: string | null;
+}
+
+export interface IImpersonationAuditUpdate {
+  id?: string;
+  admin_id?: string | null;
+  admin_email?: string;
+  target_user_id?: string | null;
+  target_email?: string;
+  session_id?: string | null;
+  reason?: string | null;
+  started_at?: string | null;
+  ended_at?: string | null;
+}
+
+export interface IImpersonationAuditRecord {
+  id: string;
+  adminId: string | null;
+  adminEmail: string;
+  targetUserId: string | null;
+  targetEmail: string;
+  sessionId: string | null;
+  reason: string | null;
+  startedAt: Date | null;
+  endedAt: Date | null;
+}
+
+export const impersonationAuditRowSchema = z.object({
+  id: z.string().uuid(),
+  admin_id: z.string().uuid().nullable(),
+  admin_email: z.string(),
+  target_user_id: z.string().uuid().nullable(),
+  target_email: z.string(),
+  session_id: z.string().uuid().nullable(),
+  reason: z.string().nullable(),
+  started_at: z.string().nullable(),
+  ended_at: z.string().nullable(),
+});
+
+export const impersonationAuditInsertSchema = z.object({
+  id: z.string().uuid().optional(),
+  admin_id: z.string().uuid().nullable().optional(),
+  admin_email: z.string(),
+  target_user_id: z.string().uuid().nullable().optional(),
+  target_email: z.string(),
+  session_id: z.string().uuid().nullable().optional(),
+  reason: z.string().nullable().optional(),
+  started_at: z.string().nullable().optional(),
+  ended_at: z.string().nullable().optional(),
+});
+
+export const impersonationAuditUpdateSchema =
+  impersonationAuditInsertSchema.partial();
+
+export const fromImpersonationAuditRow = (
+  row: IImpersonationAuditRow,
+): IImpersonationAuditRecord => ({
+  id: row.id,
+  adminId: row.admin_id,
+  adminEmail: row.admin_email,
+  targetUserId: row.target_user_id,
+  targetEmail: row.target_email,
+  sessionId: row.session_id,
+  reason: row.reason,
+  startedAt: toDate(row.started_at),
+  endedAt: toDate(row.ended_at),
+});
+
+export const toImpersonationAuditRow = (
+  record: Partial<IImpersonationAuditRecord>,
+): IImpersonationAuditUpdate =>
+  compact({
+    id: record.id,
+    admin_id: record.adminId,
+    admin_email: record.adminEmail,
+    target_user_id: record.targetUserId,
+    target_email: record.targetEmail,
+    session_id: record.sessionId,
+    reason: record.reason,
+    started_at: toTimestamp(record.startedAt),
+    ended_at: toTimestamp(record.endedAt),
+  });
+
+// public.personal_access_tokens
+export interface IPersonalAccessTokenRow {
+  id: string;
+  user_id: string;
+  organization_id: string | null;
+  name: string;
+  token_prefix: string;
+  token_hash: string;
+  permissions: string[];
+  expires_at: string | null;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string | null;
+}
+
+export interface IPersonalAccessTokenInsert {
+  id?: string;
+  user_id: string;
+  organization_id?: string | null;
+  name: string;
+  token_prefix: string;
+  token_hash: string;
+  permissions?: string[];
+  expires_at?: string | null;
+  last_used_at?: string | null;
+  revoked_at?: string | null;
+  created_at?: string | null;
+}
+
+export interface IPersonalAccessTokenUpdate {
+  id?: string;
+  user_id?: string;
+  organization_id?: string | null;
+  name?: string;
+  token_prefix?: string;
+  token_hash?: string;
+  permissions?: string[];
+  expires_at?: string | null;
+  last_used_at?: string | null;
+  revoked_at?: string | null;
+  created_at?: string | null;
+}
+
+export interface IPersonalAccessTokenRecord {
+  id: string;
+  userId: string;
+  organizationId: string | null;
+  name: string;
+  tokenPrefix: string;
+  tokenHash: string;
+  permissions: string[];
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date | null;
+}
+
+export const personalAccessTokenRowSchema = z.object({
+  id: z.string().uuid(),
+  user_id: z.string().uuid(),
+  organization_id: z.string().uuid().nullable(),
+  name: z.string(),
+  token_prefix: z.string(),
+  token_hash: z.string(),
+  permissions: z.array(z.string()),
+  expires_at: z.string().nullable(),
+  last_used_at: z.string().nullable(),
+  revoked_at: z.string().nullable(),
+  created_at: z.string().nullable(),
+});
+
+export const personalAccessTokenInsertSchema = z.object({
+  id: z.string().uuid().optional(),
+  user_id: z.string().uuid(),
+  organization_id: z.string().uuid().nullable().optional(),
+  name: z.string(),
+  token_prefix: z.string(),
+  token_hash: z.string(),
+  permissions: z.array(z.string()).optional(),
+  expires_at: z.string().nullable().optional(),
+  last_used_at: z.string().nullable().optional(),
+  revoked_at: z.string().nullable().optional(),
+  created_at: z.string().nullable().optional(),
+});
+
+export const personalAccessTokenUpdateSchema =
+  personalAccessTokenInsertSchema.partial();
+
+export const fromPersonalAccessTokenRow = (
+  row: IPersonalAccessTokenRow,
+): IPersonalAccessTokenRecord => ({
+  id: row.id,
+  userId: row.user_id,
+  organizationId: row.organization_id,
+  name: row.name,
+  tokenPrefix: row.token_prefix,
+  tokenHash: row.token_hash,
+  permissions: row.permissions,
+  expiresAt: toDate(row.expires_at),
+  lastUsedAt: toDate(row.last_used_at),
+  revokedAt: toDate(row.revoked_at),
+  createdAt: toDate(row.created_at),
+});
+
+export const toPersonalAccessTokenRow = (
+  record: Partial<IPersonalAccessTokenRecord>,
+): IPersonalAccessTokenUpdate =>
+  compact({
+    id: record.id,
+    user_id: record.userId,
+    organization_id: record.organizationId,
+    name: record.name,
+    token_prefix: record.tokenPrefix,
+    token_hash: record.tokenHash,
+    permissions: record.permissions,
+    expires_at: toTimestamp(record.expiresAt),
+    last_used_at: toTimestamp(record.lastUsedAt),
+    revoked_at: toTimestamp(record.revokedAt),
+    created_at: toTimestamp(record.createdAt),
+  });
+
+// public.organizations
+export interface IOrganizationRow {
+  id: string;
+  name: string;
+  owner_id: string;
+  settings: unknown | null;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+export interface IOrganizationInsert {
+  id?: string;
+  name: string;
+  owner_id: string;
+  settings?: unknown | null;
+  created_at?: string | null;
+  updated_at?: string | null;
+}
+
+export interface IOrganizationUpdate {
+  id?: string;
+  name?: string;
+  owner_id?: string;
+  settings?: unknown | null;
+  created_at?: string | null;
+  updated_at?: string | null;
+}
+
+export interface IOrganizationRecord {
+  id: string;
+  name: string;
+  ownerId: string;
+  settings: unknown | null;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+}
+
+export const organizationRowSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string().max(100),
+  owner_id: z.string().uuid(),
+  settings: z.unknown().nullable(),
+  created_at: z.string().nullable(),
+  updated_at: z.string().nullable(),
+});
+
+export const organizationInsertSchema = z.object({
+  id: z.string().uuid().optional(),
+  name: z.string().max(100),
+  owner_id: z.string().uuid(),
+  settings: z.unknown().nullable().optional(),
+  created_at: z.string().nullable().optional(),
+  updated_at: z.string().nullable().optional(),
+});
+
+export const organizationUpdateSchema = organizationInsertSchema.partial();
+
+export const fromOrganizationRow = (
+  row: IOrganizationRow,
+): IOrganizationRecord => ({
+  id: row.id,
+  name: row.name,
+  ownerId: row.owner_id,
+  settings: row.settings,
+  createdAt: toDate(row.created_at),
+  updatedAt: toDate(row.updated_at),
+});
+
+export const toOrganizationRow = (
+  record: Partial<IOrganizationRecord>,
+): IOrganizationUpdate =>
+  compact({
+    id: record.id,
+    name: record.name,
+    owner_id: record.ownerId,
+    settings: record.settings,
+    created_at: toTimestamp(record.createdAt),
+    updated_at: toTimestamp(record.updatedAt),
+  });
+
+// public.organization_invitations
+export interface IOrganizationInvitationRow {
+  id: string;
+  organization_id: string;
+  email: string;
+  role_id: string;
+  invited_by: string | null;
+  status: string;
+  expires_at: string;
+  responded_at: string | null;
+  created_at: string | null;
+}
+
+export interface IOrganizationInvitationInsert {
+  id?: string;
+  organization_id: string;
+  email: string;
+  role_id: string;
+  invited_by?: string | null;
+  status?: string;
+  expires_at: string;
+  responded_at?: string | null;
+  created_at?: string | null;
+}
+
+export interface IOrganizationInvitationUpdate {
+  id?: string;
+  organization_id?: string;
+  email?: string;
+  role_id?: string;
+  invited_by?: string | null;
+  status?: string;
+  expires_at?: string;
+  responded_at?: string | null;
+  created_at?: string | null;
+}
+
+export interface IOrganizationInvitationRecord {
+  id: string;
+  organizationId: string;
+  email: string;
+  roleId: string;
+  invitedBy: string | null;
+  status: string;
+  expiresAt: Date;
+  respondedAt: Date | null;
+  createdAt: Date | null;
+}
+
+export const organizationInvitationRowSchema = z.object({
+  id: z.string().uuid(),
+  organization_id: z.string().uuid(),
+  email: z.string(),
+  role_id: z.string().uuid(),
+  invited_by: z.string().uuid().nullable(),
+  status: z.string().max(20),
+  expires_at: z.string(),
+  responded_at: z.string().nullable(),
+  created_at: z.string().nullable(),
+});
+
+export const organizationInvitationInsertSchema = z.object({
+  id: z.string().uuid().optional(),
+  organization_id: z.string().uuid(),
+  email: z.string(),
+  role_id: z.string().uuid(),
+  invited_by: z.string().uuid().nullable().optional(),
+  status: z.string().max(20).optional(),
+  expires_at: z.string(),
+  responded_at: z.string().nullable().optional(),
+  created_at: z.string().nullable().optional(),
+});
+
+export const organizationInvitationUpdateSchema =
+  organizationInvitationInsertSchema.partial();
+
+export const fromOrganizationInvitationRow = (
+  row: IOrganizationInvitationRow,
+): IOrganizationInvitationRecord => ({
+  id: row.id,
+  organizationId: row.organization_id,
+  email: row.email,
+  roleId: row.role_id,
+  invitedBy: row.invited_by,
+  status: row.status,
+  expiresAt: new Date(row.expires_at),
+  respondedAt: toDate(row.responded_at),
+  createdAt: toDate(row.created_at),
+});
+
+export const toOrganizationInvitationRow = (
+  record: Partial<IOrganizationInvitationRecord>,
+): IOrganizationInvitationUpdate =>
+  compact({
+    id: record.id,
+    organization_id: record.organizationId,
+    email: record.email,
+    role_id: record.roleId,
+    invited_by: record.invitedBy,
+    status: record.status,
+    expires_at: record.expiresAt?.toISOString(),
+    responded_at: toTimestamp(record.respondedAt),
+    created_at: toTimestamp(record.createdAt),
+  });
@@ -7,6 +7,8 @@ export interface IRole {
   name: string;
   description?: string;
   isSystem: boolean;
+  // Roles whose permissions this one inherits, transitively
+  parentRoleIds?: string[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -25,6 +27,8 @@ export interface IUserRole {
   userId: string;
   roleId: string;
   organizationId?: string;
+  // Instance the grant is limited to (a document id...), if any
+  resourceId?: string;
   assignedBy?: string;
   assignedAt: Date;
   expiresAt?: Date;
@@ -80,6 +84,7 @@ export interface IRBACProvider {
     userId: string,
     roleId: string,
     organizationId?: string,
+    resourceId?: string,
   ): Promise<void>;
 
   // IPermission Checking
@@ -92,6 +97,7 @@ export interface IRBACProvider {
     userId: string,
     roleName: string,
     organizationId?: string,
+    options?: IRoleCheckOptions,
   ): Promise<boolean>;
 
   // Multi-tenant support
@@ -106,11 +112,18 @@ export interface IRBACProvider {
 // Configuration options
 export interface IAssignRoleOptions {
   organizationId?: string;
+  // Limits the role's permissions to one instance (content.update:doc_123)
+  resourceId?: string;
   assignedBy?: string;
   expiresAt?: Date;
   isActive?: boolean;
 }
 
+export interface IRoleCheckOptions {
+  // Also true when one of the user's roles inherits roleName
+  includeInherited?: boolean;
+}
+
 export interface IRBACProviderConfig {
   type: RBACProviderType;
   options: Record<string, unknown>;
@@ -179,6 +192,7 @@ export const DEFAULT_PERMISSIONS = {
   // System
   SYSTEM_LOGS: "system.logs",
   SYSTEM_SETTINGS: "system.settings",
+  SYSTEM_IMPERSONATE: "system.impersonate",
 } as const;
 
 // Utility types
@@ -186,28 +200,28 @@ export type DefaultRole = (typeof DEFAULT_ROLES)[keyof typeof DEFAULT_ROLES];
 export type DefaultPermission =
   (typeof DEFAULT_PERMISSIONS)[keyof typeof DEFAULT_PERMISSIONS];
 
+// Roles with access to admin routes: admin and, like AdminGuard, every
+// role inheriting from it. The middleware reads the JWT's user_roles, which
+// lists inherited roles too (migration 011_effective_role_claims)
+export const ADMIN_ROLES: readonly string[] = [DEFAULT_ROLES.ADMIN];
+
+// Withheld from impersonated sessions (also stripped from their JWT by
+// custom_access_token_hook, wildcards included, and refused by
+// user_has_permission); password changes are blocked as well
+export const IMPERSONATION_BLOCKED_PERMISSIONS: readonly string[] = [
+  DEFAULT_PERMISSIONS.BILLING_UPDATE,
+  DEFAULT_PERMISSIONS.BILLING_CANCEL,
+  DEFAULT_PERMISSIONS.ORGANIZATION_BILLING,
+];
+
 // Helper functions
 export const isSystemRole = (roleName: string): boolean => {
   return Object.values(DEFAULT_ROLES).includes(roleName as DefaultRole);
 };
 
-export const hasRequiredPermissions = (
-  userPermissions: string[],
-  requiredPermissions: string[],
-): boolean => {
-  return requiredPermissions.every((permission) =>
-    userPermissions.includes(permission),
-  );
-};
-
-export const canAccessResource = (
-  userPermissions: string[],
-  resource: string,
-  action: string,
-): boolean => {
-  const permissionName = `${resource}.${action}`;
-  return userPermissions.includes(permissionName);
-};
+// Permission names and matching live in ./rbac-permissions; these two are
+// kept here for existing imports
+export { canAccessResource, hasRequiredPermissions } from "./rbac-permissions";
 
 // Resource-action mapping for type safety
 export interface IResourceAction {
@@ -237,9 +251,11 @@ export interface IOrganization {
 export interface IRBACContext {
   userRoles: IRole[];
   userPermissions: IPermission[];
+  // Roles held directly, plus the roles they inherit from
+  inheritedRoles: IRole[];
   hasPermission: (permission: string) => boolean;
-  hasRole: (role: string) => boolean;
-  canAccess: (resource: string, action: string) => boolean;
+  hasRole: (role: string, options?: IRoleCheckOptions) => boolean;
+  canAccess: (resource: string, action: string, resourceId?: string) => boolean;
   loading: boolean;
   organizationId?: string;
 }
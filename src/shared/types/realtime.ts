@@ -0,0 +1,58 @@
+// Tipos de realtime (postgres changes e presence)
+// Separados de database.ts; reexportados por lá para manter os imports
+
+import type { IFilterCondition } from "./database";
+
+export type RealtimeEventType = "INSERT" | "UPDATE" | "DELETE";
+
+export interface IRealtimeSubscription {
+  id: string;
+  table: string;
+  unsubscribe: () => void;
+}
+
+export interface IRealtimeEvent<T = unknown> {
+  eventType: RealtimeEventType;
+  new?: T;
+  old?: T;
+  table: string;
+  schema: string;
+  commit_timestamp: string;
+}
+
+export type RealtimeCallback<T = unknown> = (event: IRealtimeEvent<T>) => void;
+
+// Filtro por linha no formato do Supabase (`organization_id=eq.X`) ou como
+// condição do query builder. Operadores: eq, neq, gt, gte, lt, lte, in.
+export type RealtimeFilter = string | IFilterCondition;
+
+export interface IRealtimeSubscribeOptions {
+  event?: RealtimeEventType | "*";
+  // Padrão: "public"
+  schema?: string;
+  filter?: RealtimeFilter;
+}
+
+// Presence: quem está online em um canal, agrupado pela chave de presence
+export type PresenceState<T = Record<string, unknown>> = Record<
+  string,
+  (T & { presence_ref?: string })[]
+>;
+
+export type PresenceCallback<T = Record<string, unknown>> = (
+  state: PresenceState<T>,
+) => void;
+
+export interface IPresenceOptions {
+  // Identifica este cliente no estado (ex: id do usuário)
+  key?: string;
+}
+
+export interface IPresenceChannel<T = Record<string, unknown>> {
+  id: string;
+  channel: string;
+  getState(): PresenceState<T>;
+  // Substitui o estado publicado por este cliente
+  track(state: T): Promise<void>;
+  leave(): Promise<void>;
+}